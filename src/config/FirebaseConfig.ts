@@ -0,0 +1,12 @@
+import { FirebaseOptions } from 'firebase/app';
+
+// Firebase project settings come from the Vite environment (see .env.example)
+export const FIREBASE_CONFIG: FirebaseOptions = {
+    apiKey: import.meta.env.VITE_FIREBASE_API_KEY as string,
+    authDomain: import.meta.env.VITE_FIREBASE_AUTH_DOMAIN as string,
+    projectId: import.meta.env.VITE_FIREBASE_PROJECT_ID as string,
+    databaseURL: import.meta.env.VITE_FIREBASE_DATABASE_URL as string,
+    storageBucket: import.meta.env.VITE_FIREBASE_STORAGE_BUCKET as string,
+    messagingSenderId: import.meta.env.VITE_FIREBASE_MESSAGING_SENDER_ID as string,
+    appId: import.meta.env.VITE_FIREBASE_APP_ID as string
+};
@@ -6,9 +6,13 @@
 
 import { Scene } from 'phaser';
 import { SystemRegistry } from '@/core/SystemRegistry';
-import { GameEventBus } from '@/core/EventBus';
+import { GameEventBus, GameEvents } from '@/core/EventBus';
 import { GameStateManager } from '@/core/GameStateManager';
+import { RandomService } from '@/core/RandomService';
+import { checkGemVictory, IMatchRules, resolveTimeUp, VICTORY_RULES } from '@/core/rules/VictoryRules';
 import { Bubble } from '@/gameObjects/Bubble';
+import { MysteryBubble } from '@/gameObjects/MysteryBubble';
+import { Launcher } from '@/gameObjects/Launcher';
 
 // Managers
 import { BubbleManager } from '@/managers/BubbleManager';
@@ -24,31 +28,64 @@ import { ShootingSystem } from '@/systems/gameplay/ShootingSystem';
 import { GridAttachmentSystem } from '@/systems/gameplay/GridAttachmentSystem';
 import { MatchDetectionSystem } from '@/systems/gameplay/MatchDetectionSystem';
 import { AIOpponentSystem, AIDifficulty } from '@/systems/gameplay/AIOpponentSystem';
+import { LocalOpponentSystem } from '@/systems/gameplay/LocalOpponentSystem';
 import { ComboManager } from '@/systems/gameplay/ComboManager';
+import { ObjectiveCombo } from '@/systems/gameplay/ObjectiveCombo';
 import { PowerUpActivationSystem } from '@/systems/powerups/PowerUpActivationSystem';
+import { ArsenalMeterSystem } from '@/systems/powerups/ArsenalMeterSystem';
+import { PowerUpAttackSystem } from '@/systems/powerups/PowerUpAttackSystem';
+import { AimingModeSystem } from '@/systems/powerups/AimingModeSystem';
+import { PowerUpType } from '@/systems/powerups/PowerUpManager';
+import { IPowerUpStrike, PowerUpId } from '@/types/PowerUpTypes';
 import { ResetSystem } from '@/systems/gameplay/ResetSystem';
 import { VictorySystem } from '@/systems/gameplay/VictorySystem';
 import { CascadeSystem } from '@/systems/gameplay/CascadeSystem';
 import { RowSpawnSystem } from '@/systems/gameplay/RowSpawnSystem';
 import { GemCollectionSystem } from '@/systems/gameplay/GemCollectionSystem';
 import { InputManager } from '@/systems/input/InputManager';
-import { ScoreEventManager } from '@/systems/scoring/ScoreEventManager';
+import { ScoreEventManager, ScoreEventType } from '@/systems/scoring/ScoreEventManager';
 import { UnifiedFeedbackSystem } from '@/systems/scoring/UnifiedFeedbackSystem';
 import { PaintSplatterSystem } from '@/systems/visual/PaintSplatterSystem';
 import { RealSoundSystem } from '@/systems/audio/RealSoundSystem';
+import { ReplayRecorder } from '@/systems/replay/ReplayRecorder';
+import { NetworkSession } from '@/systems/network/NetworkSession';
+import { LevelLoader } from '@/systems/levels/LevelLoader';
+import { DesyncMonitor } from '@/systems/network/DesyncMonitor';
+import { mirrorHex } from '@/core/rules/HexMath';
+import { SettingsStore } from '@/systems/settings/SettingsStore';
+import { AdaptiveDifficultyController } from '@/systems/ai/AdaptiveDifficultyController';
+import { AI_PERSONALITIES, AI_PERSONALITY_IDS, createPersonalityStrategy } from '@/systems/ai/AIPersonalities';
+import { AITauntSystem } from '@/systems/ai/AITauntSystem';
+import { AIArenaPowerUp } from '@/systems/ai/PowerUpPlanner';
+import { FloatingTextSystem } from '@/systems/ui/FloatingTextSystem';
+import { GAME_MODES, resolveMatchRules } from '@/systems/modes/GameModes';
+import { GameTimerUI } from '@/ui/GameTimerUI';
 
 // Configuration
-import { ARENA_CONFIG } from '@/config/ArenaConfig';
+import { BUBBLE_CONFIG } from '@/config/ArenaConfig';
 
 // Types
-import { IHexPosition } from '@/types/ArenaTypes';
+import { BubbleColor, IHexPosition, IPixelPosition } from '@/types/ArenaTypes';
+import { IReplayAIPowerUpPlan, IReplayLog } from '@/types/ReplayTypes';
+import { ILevelDefinition } from '@/types/LevelTypes';
+import { IGameSettings } from '@/types/GameTypes';
+import { AIPersonalityId } from '@/types/AITypes';
+import { GameModeId, IGameMode, IGameModeArena, IGameModeSystem } from '@/types/GameModeTypes';
+import {
+    ARENA_SNAPSHOT_VERSION,
+    IArenaSnapshot,
+    IBubbleSnapshot,
+    ILauncherSnapshot
+} from '@/types/SnapshotTypes';
+import { IArenaStateDump, IGridCellState, INetworkPowerUpMessage, INetworkShotMessage } from '@/types/NetworkTypes';
 
 // UI
 import { VictoryScreen } from '@/ui/VictoryScreen';
 import { DefeatScreen } from '@/ui/DefeatScreen';
 import { TieScreen } from '@/ui/TieScreen';
+import { shakeCamera } from '@/utils/motion';
 
-export class ArenaCoordinator {
+export class ArenaCoordinator implements IGameModeArena {
     private scene: Scene;
     private systemRegistry: SystemRegistry;
     private eventBus: GameEventBus;
@@ -56,6 +93,7 @@ export class ArenaCoordinator {
     
     // Core Systems
     public bubbleGrid: BubbleGrid;
+    public rng: RandomService;
     private inputManager: InputManager;
     
     // Managers
@@ -71,8 +109,13 @@ export class ArenaCoordinator {
     public gridAttachmentSystem: GridAttachmentSystem;
     public matchDetectionSystem: MatchDetectionSystem;
     public aiOpponentSystem: AIOpponentSystem;
+    public adaptiveDifficulty?: AdaptiveDifficultyController;
+    private aiTauntSystem?: AITauntSystem;
+    private floatingTextSystem?: FloatingTextSystem;
     public comboManager: ComboManager;
     public powerUpSystem: PowerUpActivationSystem;
+    private powerUpAttackSystem?: PowerUpAttackSystem;
+    private arsenalMeterSystem?: ArsenalMeterSystem;
     public resetSystem: ResetSystem;
     public victorySystem: VictorySystem;
     
@@ -110,6 +153,32 @@ export class ArenaCoordinator {
     // State
     private isInitialized: boolean = false;
     private isSinglePlayer: boolean = true;
+    private aiDifficulty: AIDifficulty = AIDifficulty.MEDIUM;
+    private isReplayMode: boolean = false;
+
+    // Replay recording
+    private replayRecorder?: ReplayRecorder;
+
+    // Online opponent (replaces the AI when set)
+    private networkSession?: NetworkSession;
+    private desyncMonitor?: DesyncMonitor;
+
+    // Second player on the same device (split-touch local versus)
+    private localOpponentSystem?: LocalOpponentSystem;
+
+    // Resume point (suspend/resume, bug repro files)
+    private initialSnapshot?: IArenaSnapshot;
+
+    // Handcrafted opening board and rules (tutorials, puzzles)
+    private level?: ILevelDefinition;
+    private aiPersonalityId?: AIPersonalityId;
+    private loadout?: PowerUpId[];
+
+    // How this match is won and lost, and which mode systems run on top of the arena
+    private gameMode: IGameMode = GAME_MODES.versus;
+    private modeSystems: IGameModeSystem[] = [];
+    private matchCountdown?: GameTimerUI;
+    private returnScene?: string;
     
     // Victory/Defeat Screens
     private victoryScreen?: VictoryScreen;
@@ -118,9 +187,7 @@ export class ArenaCoordinator {
     public isGameEnded: boolean = false;
     
     // Objective hit tracking for incremental gems
-    private objectiveHitCount: number = 0;
-    private lastObjectiveHitTime: number = 0;
-    private readonly OBJECTIVE_HIT_RESET_TIME: number = 3000; // Reset combo after 3 seconds
+    private objectiveCombo: ObjectiveCombo = new ObjectiveCombo();
     
     // Debug: Track gem collection calls
     private gemCollectionCallCount: number = 0;
@@ -129,12 +196,9 @@ export class ArenaCoordinator {
     private resetInProgress: boolean = false;
     private lastResetTime: number = 0;
     
-    // Game timer
-    private gameStartTime: number = 0;
+    // Game timer (accumulated from frame deltas so replays at any speed stay in sync)
     private gameElapsedTime: number = 0;
     private suddenDeathTriggered: boolean = false;
-    private readonly GAME_DURATION: number = 180000; // 3 minutes
-    private readonly SUDDEN_DEATH_TIME: number = 150000; // 2:30 for sudden death
     
     constructor(scene: Scene) {
         this.scene = scene;
@@ -143,6 +207,7 @@ export class ArenaCoordinator {
         this.systemRegistry = SystemRegistry.create(scene);
         this.eventBus = GameEventBus.getInstance();
         this.gameState = GameStateManager.getInstance();
+        this.rng = RandomService.getInstance();
         
         // Initialize bubble grid at center
         const centerX = scene.cameras.main.centerX;
@@ -163,15 +228,20 @@ export class ArenaCoordinator {
             return;
         }
         
-        this.isSinglePlayer = singlePlayer;
+        // Only modes with an AI opponent ever start one
+        this.isSinglePlayer = singlePlayer && this.gameMode.opponent === 'ai';
+        this.aiDifficulty = difficulty;
         
         // Reset game state
         this.gameState.resetGame();
         this.gameState.setGameState('menu');
-        
+        this.gameState.setMatchRules(this.getMatchRuleOverrides());
+
+        // Seed all gameplay randomness before any system draws from it
+        this.seedRandom();
+
         // CRITICAL: Reset objective combo counter to prevent carryover from previous games
-        this.objectiveHitCount = 0;
-        this.lastObjectiveHitTime = 0;
+        this.objectiveCombo.reset();
         
         // Initialize managers
         await this.initializeManagers();
@@ -184,6 +254,10 @@ export class ArenaCoordinator {
         
         // Setup event listeners
         this.setupEventListeners();
+
+        // Player settings now and whenever they change mid-match
+        this.applySettings(SettingsStore.getInstance().get());
+        SettingsStore.getInstance().on('settings-changed', this.applySettings);
         
         // Start game
         this.startGame();
@@ -193,6 +267,26 @@ export class ArenaCoordinator {
         
     }
     
+    /**
+     * Seed the match RNG from the registry (replays/tests) or a fresh seed,
+     * and store it back so the match can be reproduced later
+     */
+    private seedRandom(): void {
+        const registrySeed: unknown = this.scene.registry.get('matchSeed');
+        const seed = typeof registrySeed === 'number' ? registrySeed : RandomService.generateSeed();
+
+        this.rng.setSeed(seed);
+        this.scene.registry.set('matchSeed', this.rng.getSeed());
+        console.log(`ArenaCoordinator: Match seed ${this.rng.getSeed()}`);
+    }
+
+    /**
+     * Get the seed used for this match
+     */
+    public getMatchSeed(): number {
+        return this.rng.getSeed();
+    }
+
     /**
      * Initialize manager systems
      */
@@ -221,7 +315,13 @@ export class ArenaCoordinator {
         // Initialize UIManager
         this.uiManager = this.systemRegistry.getSystem('UIManager') as UIManager;
         if (!this.uiManager) {
-            this.uiManager = new UIManager(this.scene);
+            // Countdown modes show their clock over the arena instead
+            const isLocal = this.gameMode.opponent === 'local';
+            this.uiManager = new UIManager(this.scene, {
+                showTimer: !this.gameMode.countdown,
+                mirrorOpponentHud: isLocal,
+                ...(isLocal ? { playerName: 'Player 1', opponentName: 'Player 2' } : {})
+            });
             this.systemRegistry.register(this.uiManager);
         }
         
@@ -286,6 +386,23 @@ export class ArenaCoordinator {
             );
             // Set difficulty
             this.aiOpponentSystem.setDifficulty(difficulty);
+            this.setupAIPersonality();
+            this.scene.events.on('ai-power-up', this.handleAIPowerUp);
+
+            // Adaptive AI follows the player's rating and the state of the match
+            if (difficulty === AIDifficulty.ADAPTIVE) {
+                this.adaptiveDifficulty = new AdaptiveDifficultyController(this.aiOpponentSystem);
+                this.adaptiveDifficulty.start();
+            }
+        }
+
+        // A second human takes the top launcher, each on their own half of the screen
+        if (this.gameMode.opponent === 'local') {
+            this.inputManager.setSplitTouch(true);
+            this.localOpponentSystem = new LocalOpponentSystem(
+                this.scene,
+                this.launcherManager.getOpponentLauncher()
+            );
         }
         
         // Combo Manager
@@ -347,6 +464,7 @@ export class ArenaCoordinator {
             this.scene,
             this // Pass coordinator instead of arena system
         );
+        this.rowSpawnSystem.setResetSystem(this.resetSystem);
         
         // Gem Collection System
         this.gemCollectionSystem = new GemCollectionSystem(this.scene);
@@ -354,11 +472,30 @@ export class ArenaCoordinator {
         // Power-up System
         this.powerUpSystem = new PowerUpActivationSystem(
             this.scene,
-            this.shootingSystem,
+            this.launcherManager.getPlayerLauncher(),
+            this.bubbleGrid,
+            new AimingModeSystem(this.scene),
             this.gridAttachmentSystem,
-            this.matchDetectionSystem
+            this.launcherManager.getOpponentLauncher()
         );
-        
+        // Only the player's drops are restricted - the AI keeps the whole catalogue
+        this.powerUpSystem.setLoadout(this.loadout);
+        this.scene.events.on('power-up-strike', this.onPowerUpStrike);
+        this.scene.events.on('power-up-convert', this.onPowerUpConvert);
+        
+        // Attack power-ups land on the other side once its counter-window is up
+        this.powerUpAttackSystem = new PowerUpAttackSystem(this.scene, {
+            uiManager: this.uiManager,
+            resetSystem: this.resetSystem,
+            rowSpawnSystem: this.rowSpawnSystem,
+            getTarget: isPlayer => isPlayer ? this.shootingSystem : this.aiOpponentSystem ?? this.localOpponentSystem,
+            getBoardColors: () => [...new Set(
+                this.gridAttachmentSystem.getGridBubbles()
+                    .filter(bubble => bubble.visible)
+                    .map(bubble => bubble.getColor())
+            )]
+        });
+
     }
     
     /**
@@ -381,6 +518,15 @@ export class ArenaCoordinator {
         this.scoreEventManager.onVisualEffect((result, position) => {
             this.unifiedFeedbackSystem?.queueFeedback(result, position);
         });
+
+        // Combos, drops and objective hits charge each side's arsenal meter
+        this.arsenalMeterSystem = new ArsenalMeterSystem(this.scene, {
+            scoreEventManager: this.scoreEventManager,
+            getLauncher: isPlayer => isPlayer
+                ? this.launcherManager?.getPlayerLauncher()
+                : this.launcherManager?.getOpponentLauncher(),
+            getLoadout: () => this.powerUpSystem?.getLoadout()
+        });
         
     }
     
@@ -423,10 +569,7 @@ export class ArenaCoordinator {
             this.soundSystem?.playShootSound();
         });
         
-        // Bubble attach sound
-        this.eventBus.on('bubble-attached', () => {
-            this.soundSystem?.playAttachSound();
-        });
+        // Bubble attach sound is played by GameScene on 'bubble-attach-collision'
         
         // Combo sounds based on size
         this.eventBus.on('match-found', (data: any) => {
@@ -521,38 +664,38 @@ export class ArenaCoordinator {
         // Add outer rows that are guaranteed to connect
         // Top row -4: Only add positions that will connect to r=-3
         for (let q = -3; q <= 3; q++) {
-            if (Math.random() < 0.8) { // Some variety but most connect
+            if (this.rng.stream('board').chance(0.8)) { // Some variety but most connect
                 addPosition({ q, r: -4, s: -q - (-4) });
             }
         }
         
         // Top row -5
         for (let q = -2; q <= 2; q++) {
-            if (Math.random() < 0.7) {
+            if (this.rng.stream('board').chance(0.7)) {
                 addPosition({ q, r: -5, s: -q - (-5) });
             }
         }
         
         // Bottom row 4: Only add positions that will connect to r=3
         for (let q = -3; q <= 3; q++) {
-            if (Math.random() < 0.8) { // Some variety but most connect
+            if (this.rng.stream('board').chance(0.8)) { // Some variety but most connect
                 addPosition({ q, r: 4, s: -q - 4 });
             }
         }
         
         // Bottom row 5
         for (let q = -2; q <= 2; q++) {
-            if (Math.random() < 0.7) {
+            if (this.rng.stream('board').chance(0.7)) {
                 addPosition({ q, r: 5, s: -q - 5 });
             }
         }
         
         // Add side columns for width
         for (let r = -3; r <= 3; r++) {
-            if (Math.random() < 0.7) {
+            if (this.rng.stream('board').chance(0.7)) {
                 addPosition({ q: -4, r, s: 4 - r });
             }
-            if (Math.random() < 0.7) {
+            if (this.rng.stream('board').chance(0.7)) {
                 addPosition({ q: 4, r, s: -4 - r });
             }
         }
@@ -678,9 +821,13 @@ export class ArenaCoordinator {
      */
     private startGame(): void {
         
-        // Create initial bubbles with theme-specific pattern
-        const initialPositions = this.createInitialBubblePositions();
-        const bubbles = this.bubbleManager.createFieldPattern(initialPositions);
+        // Create initial bubbles from the level file, or the theme-specific pattern
+        const bubbles = this.level
+            ? this.bubbleManager.createFieldPattern(
+                LevelLoader.createFieldPositions(this.level, hex => this.bubbleGrid.hexToPixel(hex), this.rng.stream('board')),
+                0
+            )
+            : this.bubbleManager.createFieldPattern(this.createInitialBubblePositions());
         
         // CRITICAL: Add all initial bubbles to GridAttachmentSystem for collision detection
         bubbles.forEach(bubble => {
@@ -693,7 +840,13 @@ export class ArenaCoordinator {
         // Start row spawning
         const theme = this.scene.registry.get('gameTheme') || 'ocean';
         const spawnInterval = theme === 'space' ? 12000 : 15000;
-        this.rowSpawnSystem.startSpawning(spawnInterval);
+        if (!this.level || this.level.spawnRows !== false) {
+            this.rowSpawnSystem.startSpawning(spawnInterval);
+        }
+        if (this.level) {
+            this.startLevel(this.level);
+        }
+        this.startGameMode();
         
         // Start game flow
         this.gameFlowManager.startGame();
@@ -707,8 +860,565 @@ export class ArenaCoordinator {
         }
         
         // Initialize game timer
-        this.gameStartTime = Date.now();
+        this.gameElapsedTime = 0;
         this.createTimerDisplay();
+
+        if (this.initialSnapshot) {
+            this.restoreSnapshot(this.initialSnapshot);
+            this.initialSnapshot = undefined;
+        }
+
+        if (this.isReplayMode) {
+            // Shots come from the replay log, not from input
+            this.shootingSystem.enabled = false;
+        } else {
+            this.replayRecorder = new ReplayRecorder(this.rng.getSeed(), theme as string, () => this.gameElapsedTime);
+            this.replayRecorder.start();
+            this.startNetworkMatch();
+        }
+    }
+
+    /**
+     * Play against a remote player instead of the AI.
+     * Must be called before initialize(); pair with initialize(false) so the AI stays off.
+     */
+    public setNetworkSession(session: NetworkSession): void {
+        this.networkSession = session;
+    }
+
+    private startNetworkMatch(): void {
+        if (!this.networkSession) {
+            return;
+        }
+        const isHost = this.networkSession.getMatchInfo()?.isHost ?? true;
+        if (!isHost) {
+            // Both peers build the seeded board in the host's view - the guest sees it from the other side
+            this.mirrorGrid();
+            this.rowSpawnSystem.setMirrored(true);
+        }
+        this.networkSession.on('remote-shot', this.handleRemoteShot);
+        this.networkSession.on('remote-powerup', this.handleRemotePowerUp);
+        this.networkSession.on('peer-left', this.handlePeerLeft);
+        this.networkSession.startMatch(() => this.gameElapsedTime);
+
+        this.desyncMonitor = new DesyncMonitor(
+            this.networkSession,
+            isHost,
+            {
+                captureState: () => this.captureArenaState(),
+                applyState: state => this.applyArenaState(state)
+            }
+        );
+        this.desyncMonitor.start();
+    }
+
+    /**
+     * Snapshot of the grid and gem counters for the lockstep checksum, in our own perspective
+     */
+    private captureArenaState(): IArenaStateDump {
+        const cells: IGridCellState[] = [];
+        this.gridAttachmentSystem.getGridBubbles().forEach(bubble => {
+            const hex = bubble.getGridPosition();
+            if (!bubble.visible || !hex) {
+                return;
+            }
+            cells.push({
+                q: hex.q,
+                r: hex.r,
+                color: bubble.getColor(),
+                gem: bubble.getHasGem() ? bubble.getGemType() : 'none'
+            });
+        });
+
+        return {
+            cells,
+            playerGems: this.gameState.getPlayerGems(),
+            opponentGems: this.gameState.getOpponentGems()
+        };
+    }
+
+    /**
+     * Replace the grid and gem counters with the host's state after a desync.
+     * Mystery bubbles come back as plain bubbles of their color.
+     */
+    private applyArenaState(state: IArenaStateDump): void {
+        this.rebuildGrid(state.cells);
+
+        this.gameState.updatePlayerGems(state.playerGems);
+        this.gameState.updateOpponentGems(state.opponentGems);
+        this.scene.registry.set('playerGems', state.playerGems);
+        this.scene.registry.set('opponentGems', state.opponentGems);
+    }
+
+    /**
+     * Throw away every grid bubble and place the given ones instead
+     */
+    private rebuildGrid(cells: IBubbleSnapshot[]): void {
+        [...this.gridAttachmentSystem.getGridBubbles()].forEach(bubble => {
+            this.gridAttachmentSystem.removeGridBubble(bubble);
+            bubble.setGridPosition(null);
+            this.bubbleManager.returnToPool(bubble);
+        });
+
+        cells.forEach(cell => {
+            const hex: IHexPosition = { q: cell.q, r: cell.r, s: -cell.q - cell.r };
+            const position = this.bubbleGrid.hexToPixel(hex);
+            let bubble: Bubble;
+            if (cell.mystery) {
+                const mystery = this.bubbleManager.createMysteryBubble(position.x, position.y);
+                mystery.setColor(cell.color as BubbleColor);
+                mystery.setCurrentPowerUp(cell.mystery);
+                bubble = mystery;
+            } else {
+                bubble = this.bubbleManager.getBubble(position.x, position.y, cell.color as BubbleColor);
+            }
+            bubble.setGridPosition(hex);
+            if (cell.gem !== 'none') {
+                bubble.setGem(true, cell.gem);
+            }
+            if (cell.special) {
+                bubble.setSpecial(true);
+            }
+            if (cell.blocker) {
+                bubble.setBlocker(true);
+            }
+            this.gridAttachmentSystem.addGridBubble(bubble);
+        });
+        // Keep bubbles array in sync for RowSpawnSystem compatibility
+        this.bubbles = this.bubbleManager.getActiveBubbles();
+    }
+
+    /**
+     * Move every grid bubble to its mirrored cell, gems and mystery contents included.
+     * Applying it twice restores the board - RowSpawnSystem plans the guest's rows in between.
+     */
+    public mirrorGrid(): void {
+        this.gridAttachmentSystem.getGridBubbles().forEach(bubble => {
+            const hex = bubble.getGridPosition();
+            if (!hex) {
+                return;
+            }
+            const { q, r } = mirrorHex(hex.q, hex.r);
+            const mirrored: IHexPosition = { q, r, s: -q - r };
+            const position = this.bubbleGrid.hexToPixel(mirrored);
+            bubble.setGridPosition(mirrored);
+            bubble.setPosition(position.x, position.y);
+        });
+        this.gridAttachmentSystem.reindexGrid();
+    }
+
+    private handleRemoteShot = (message: INetworkShotMessage): void => {
+        if (this.isGameEnded) {
+            return;
+        }
+        // The remote player sees the arena rotated 180 degrees - their "up" is our "down"
+        const angle = (message.angle + 180) % 360;
+        this.shootingSystem.fireRemoteShot(angle, message.color);
+    };
+
+    private handleRemotePowerUp = (message: INetworkPowerUpMessage): void => {
+        if (this.isGameEnded) {
+            return;
+        }
+        this.powerUpSystem.activateRemotePowerUp(message.powerUpType);
+    };
+
+    private handlePeerLeft = (): void => {
+        if (this.isGameEnded) {
+            return;
+        }
+        console.log('[ArenaCoordinator] Opponent left the match');
+        this.triggerGameOver(true, 'opponent-left');
+    };
+
+    /**
+     * Play back a recorded match instead of a live one.
+     * Must be called before initialize(); pair with initialize(false) so the AI stays off.
+     */
+    public setReplayMode(enabled: boolean): void {
+        this.isReplayMode = enabled;
+    }
+
+    /**
+     * Play a recorded power-up activation back on the side that used it.
+     * The held slot is not spent - the replay only needs the effect on the field.
+     * An AI power-up fired at the arena comes with its plan and lands where it did live.
+     */
+    public playReplayPowerUp(type: PowerUpId, isPlayer: boolean, plan?: IReplayAIPowerUpPlan): void {
+        if (!this.isReplayMode || this.isGameEnded) {
+            return;
+        }
+        if (isPlayer) {
+            this.powerUpSystem.activatePowerUp(type);
+        } else if (plan) {
+            this.handleAIPowerUp({ ...plan, type: plan.type as PowerUpType });
+        } else {
+            this.powerUpSystem.activateRemotePowerUp(type);
+        }
+    }
+
+    /**
+     * Get the replay log of the current match (undefined in replay mode)
+     */
+    public getReplayLog(): IReplayLog | undefined {
+        return this.replayRecorder?.getLog();
+    }
+
+    /**
+     * Get elapsed match time in ms
+     */
+    public getElapsedTime(): number {
+        return this.gameElapsedTime;
+    }
+
+    /**
+     * Rules for this match: the mode's, with the ones it leaves to the level taken from the level
+     */
+    private getMatchRuleOverrides(): Partial<IMatchRules> {
+        return resolveMatchRules(this.gameMode, this.level ? LevelLoader.getMatchRules(this.level) : {});
+    }
+
+    /**
+     * Play the match as a game mode - versus the AI unless set.
+     * Must be called before initialize(); modes without an AI opponent keep the AI off.
+     */
+    public setGameMode(mode: GameModeId | IGameMode): void {
+        this.gameMode = typeof mode === 'string' ? GAME_MODES[mode] : mode;
+    }
+
+    public getGameMode(): IGameMode {
+        return this.gameMode;
+    }
+
+    /**
+     * Set the arena up the way the mode declares it, then start its systems
+     */
+    private startGameMode(): void {
+        const mode = this.gameMode;
+        const rules = this.gameState.getMatchRules();
+        console.log(`[ArenaCoordinator] Game mode: ${mode.name}`);
+
+        this.rowSpawnSystem.setSpawnSides(mode.rowSpawns);
+
+        // Solo modes have no field reset - the danger line ends the match
+        if (mode.fieldFull === 'lose') {
+            this.resetSystem.setResetsEnabled(false);
+            this.scene.events.on('field-full', this.handleSoloFieldFull);
+        }
+
+        this.victorySystem.setVictoryConditions({
+            gemsToWin: rules.gemsToWin,
+            maxGameTime: rules.gameDuration,
+            suddenDeathTime: rules.suddenDeathTime
+        });
+
+        if (mode.countdown) {
+            this.matchCountdown = new GameTimerUI(this.scene, {
+                duration: rules.gameDuration,
+                suddenDeathTime: rules.suddenDeathTime
+            });
+        }
+
+        this.modeSystems = mode.systems.map(createSystem => createSystem(this));
+        this.modeSystems.forEach(system => system.start());
+    }
+
+    /**
+     * Scene the end screen's menu button leaves to - the arena restarts when not set
+     */
+    public setReturnScene(key: string): void {
+        this.returnScene = key;
+    }
+
+    public getScene(): Scene {
+        return this.scene;
+    }
+
+    public getScoreEventManager(): ScoreEventManager | undefined {
+        return this.scoreEventManager;
+    }
+
+    public getObjectivePosition(): IPixelPosition | undefined {
+        const objective = this.objectiveManager?.getObjective();
+        return objective ? { x: objective.x, y: objective.y } : undefined;
+    }
+
+    /**
+     * Ends the match if the level's goal is met
+     */
+    public checkLevelGoal(): void {
+        if (this.level?.winCondition.type === 'clear') {
+            this.checkBoardCleared();
+        } else if (this.level?.winCondition.type === 'objective') {
+            this.checkObjectiveFreed();
+        }
+    }
+
+    /**
+     * Longer match - the rules and the countdown both gain the time
+     */
+    public addMatchTime(seconds: number): void {
+        const rules = this.gameState.getMatchRules();
+        this.gameState.setMatchRules({ ...rules, gameDuration: rules.gameDuration + seconds * 1000 });
+        this.matchCountdown?.addTime(seconds * 1000);
+    }
+
+    public endMatch(playerWins: boolean, reason: string): void {
+        this.triggerGameOver(playerWins, reason);
+    }
+
+    public restartMatch(): void {
+        this.restartGame();
+    }
+
+    public leaveMatch(): void {
+        this.returnToMenu();
+    }
+
+    /**
+     * Solo modes have no field reset - a full field loses the level or ends the run
+     */
+    private handleSoloFieldFull = (data: { isPlayer: boolean }): void => {
+        if (data.isPlayer && !this.isGameEnded) {
+            this.triggerGameOver(false, 'field-full');
+        }
+    };
+
+    /**
+     * Settings that reach into the arena: aim sensitivity, trajectory preview, sound and splatter quality
+     */
+    private applySettings = (settings: IGameSettings): void => {
+        const isMobile = !!this.scene.registry.get('isCapacitor');
+        this.inputManager.setSensitivity(settings.aimSensitivity);
+        this.shootingSystem?.setPreviewEnabled(settings.trajectoryPreview);
+        this.soundSystem?.applySettings(settings);
+        this.paintSplatterSystem?.setQualityPreset(SettingsStore.resolveQuality(settings.quality, isMobile));
+    };
+
+    /**
+     * Play a level file instead of the built-in opening board and rules.
+     * Must be called before initialize().
+     */
+    public setLevel(level: ILevelDefinition): void {
+        this.level = level;
+    }
+
+    public getLevel(): ILevelDefinition | undefined {
+        return this.level;
+    }
+
+    /**
+     * The player's launcher, once initialized
+     */
+    public getPlayerLauncher(): Launcher | undefined {
+        return this.launcherManager?.getPlayerLauncher();
+    }
+
+    /**
+     * Opponent personality for the next single-player match - picked from the seed when not set
+     */
+    public setAIPersonality(id: AIPersonalityId): void {
+        this.aiPersonalityId = id;
+    }
+
+    /**
+     * Power-ups the player picked for this match - mystery bubbles the player collects
+     * only hand out these. Must be called before initialize().
+     */
+    public setLoadout(loadout: PowerUpId[]): void {
+        this.loadout = loadout;
+    }
+
+    /**
+     * Apply the level's colors and starting queue, and watch its win condition
+     */
+    private startLevel(level: ILevelDefinition): void {
+        const colors = LevelLoader.getAllowedColors(level);
+        this.shootingSystem.setBubbleColors(colors, LevelLoader.getStartingQueue(level));
+        this.aiOpponentSystem?.setAvailableColors(colors);
+        this.localOpponentSystem?.setAvailableColors(colors);
+
+        if (level.winCondition.type === 'clear') {
+            this.eventBus.on('match-completed', this.checkBoardCleared);
+            this.eventBus.on('cascade-completed', this.checkBoardCleared);
+        } else if (level.winCondition.type === 'objective') {
+            this.eventBus.on('match-completed', this.checkObjectiveFreed);
+            this.eventBus.on('cascade-completed', this.checkObjectiveFreed);
+        }
+        console.log(`[ArenaCoordinator] Level "${level.name}" (${level.cells.length} bubbles)`);
+    }
+
+    /**
+     * 'clear' levels are won once only blockers are left
+     */
+    private checkBoardCleared = (): void => {
+        if (this.isGameEnded) {
+            return;
+        }
+        const remaining = this.gridAttachmentSystem.getGridBubbles().filter(bubble => bubble.visible && !bubble.isBlocker());
+        if (remaining.length === 0) {
+            this.triggerGameOver(true, 'board-cleared');
+        }
+    };
+
+    /**
+     * 'objective' levels are won once no bubble touches the objective
+     */
+    private checkObjectiveFreed = (): void => {
+        if (this.isGameEnded) {
+            return;
+        }
+        const center: IHexPosition = { q: 0, r: 0, s: 0 };
+        const ring = new Set(this.bubbleGrid.getNeighbors(center).map(hex => `${hex.q},${hex.r}`));
+        const touching = this.gridAttachmentSystem.getGridBubbles().some(bubble => {
+            const hex = bubble.getGridPosition();
+            return bubble.visible && !!hex && ring.has(`${hex.q},${hex.r}`);
+        });
+        if (!touching) {
+            this.triggerGameOver(true, 'objective-freed');
+        }
+    };
+
+    /**
+     * Resume from a snapshot instead of a fresh field.
+     * Must be called before initialize(); the match seed comes from the snapshot.
+     */
+    public setInitialSnapshot(snapshot: IArenaSnapshot): void {
+        this.initialSnapshot = snapshot;
+        this.scene.registry.set('matchSeed', snapshot.seed);
+    }
+
+    /**
+     * Every visible grid bubble as plain JSON
+     */
+    private captureGridCells(): IBubbleSnapshot[] {
+        const bubbles: IBubbleSnapshot[] = [];
+        this.gridAttachmentSystem.getGridBubbles().forEach(bubble => {
+            const hex = bubble.getGridPosition();
+            if (!bubble.visible || !hex) {
+                return;
+            }
+            const cell: IBubbleSnapshot = {
+                q: hex.q,
+                r: hex.r,
+                color: bubble.getColor(),
+                gem: bubble.getHasGem() ? bubble.getGemType() : 'none'
+            };
+            if (bubble.getIsSpecial()) {
+                cell.special = true;
+            }
+            if (bubble.isBlocker()) {
+                cell.blocker = true;
+            }
+            if (bubble instanceof MysteryBubble) {
+                cell.mystery = bubble.getCurrentPowerUp();
+            }
+            bubbles.push(cell);
+        });
+
+        return bubbles;
+    }
+
+    /**
+     * Capture the whole running match as plain JSON
+     */
+    public exportSnapshot(): IArenaSnapshot {
+        const bubbles = this.captureGridCells();
+        const objective = this.objectiveManager?.getObjective();
+
+        return {
+            version: ARENA_SNAPSHOT_VERSION,
+            createdAt: new Date().toISOString(),
+            seed: this.rng.getSeed(),
+            theme: String(this.scene.registry.get('gameTheme') || 'ocean'),
+            rng: this.rng.getStreamStates(),
+            elapsedTime: this.gameElapsedTime,
+            suddenDeath: this.suddenDeathTriggered,
+            bubbles,
+            player: this.captureLauncher(true),
+            opponent: this.captureLauncher(false),
+            objective: objective ? {
+                health: objective.getHealth(),
+                maxHealth: objective.getMaxHealth(),
+                shielded: objective.isShielded()
+            } : null,
+            gameState: JSON.parse(JSON.stringify(this.gameState.getState())) as IArenaSnapshot['gameState']
+        };
+    }
+
+    /**
+     * Rebuild the running arena from a snapshot - grid, launchers and their power-ups, objective, clock and state
+     */
+    public restoreSnapshot(snapshot: IArenaSnapshot): boolean {
+        if (snapshot.version !== ARENA_SNAPSHOT_VERSION) {
+            console.warn(`[ArenaCoordinator] Cannot restore snapshot version ${snapshot.version}`);
+            return false;
+        }
+
+        this.rebuildGrid(snapshot.bubbles);
+
+        this.restoreLauncher(true, snapshot.player);
+        this.restoreLauncher(false, snapshot.opponent);
+
+        const objective = this.objectiveManager?.getObjective();
+        if (objective && snapshot.objective) {
+            objective.setHealth(snapshot.objective.health);
+            objective.setShielded(snapshot.objective.shielded);
+            this.cachedShieldState = snapshot.objective.shielded;
+        }
+
+        this.gameState.restoreState(snapshot.gameState);
+        this.scene.registry.set('playerGems', snapshot.gameState.player.gems);
+        this.scene.registry.set('opponentGems', snapshot.gameState.opponent.gems);
+
+        this.gameElapsedTime = snapshot.elapsedTime;
+        this.suddenDeathTriggered = snapshot.suddenDeath;
+        this.gameFlowManager.setElapsedTime(snapshot.elapsedTime);
+
+        // Last, so nothing above draws from the restored streams
+        this.rng.setStreamStates(snapshot.rng);
+
+        console.log(`[ArenaCoordinator] Restored snapshot from ${snapshot.createdAt} (${snapshot.bubbles.length} bubbles)`);
+        return true;
+    }
+
+    private captureLauncher(isPlayer: boolean): ILauncherSnapshot {
+        const launcher = isPlayer ? this.launcherManager.getPlayerLauncher() : this.launcherManager.getOpponentLauncher();
+        const queue = isPlayer ? this.shootingSystem : this.aiOpponentSystem ?? this.localOpponentSystem;
+
+        return {
+            loaded: queue ? queue.getLoadedColor() : null,
+            next: queue ? queue.getQueueColors() : [],
+            arsenal: launcher ? launcher.getArsenalState() : [],
+            activePowerUp: this.powerUpSystem.getPendingPowerUp(isPlayer),
+            powerUpShots: this.powerUpSystem.getPendingShots(isPlayer),
+            shield: this.resetSystem.hasShield(isPlayer),
+            magnet: this.shootingSystem.getArmedMagnet(isPlayer),
+            effects: this.powerUpAttackSystem?.getActiveEffects(isPlayer) ?? []
+        };
+    }
+
+    private restoreLauncher(isPlayer: boolean, saved: ILauncherSnapshot): void {
+        const launcher = isPlayer ? this.launcherManager.getPlayerLauncher() : this.launcherManager.getOpponentLauncher();
+        const queue = isPlayer ? this.shootingSystem : this.aiOpponentSystem ?? this.localOpponentSystem;
+
+        if (queue && saved.next.length > 0) {
+            queue.restoreQueue(saved.loaded as BubbleColor | null, saved.next as BubbleColor[]);
+        }
+        launcher?.restoreArsenalState(
+            saved.arsenal.map(slot => ({ type: slot.type, count: slot.count })),
+            saved.activePowerUp
+        );
+
+        // The label alone brings back no aim or shots - the effect itself has to be re-armed
+        if (saved.activePowerUp) {
+            this.powerUpSystem.restorePowerUp(saved.activePowerUp, isPlayer, saved.powerUpShots);
+        } else {
+            this.powerUpSystem.cancelPowerUp(isPlayer);
+        }
+        this.resetSystem.setShield(isPlayer, saved.shield ?? false);
+        this.shootingSystem.setArmedMagnet(isPlayer, saved.magnet);
+        this.powerUpAttackSystem?.restoreEffects(isPlayer, saved.effects ?? []);
     }
     
     /**
@@ -722,24 +1432,26 @@ export class ArenaCoordinator {
     /**
      * Update game timer
      */
-    private updateTimer(): void {
+    private updateTimer(delta: number): void {
         if (this.isGameEnded) return;
         
-        // Calculate elapsed time
-        this.gameElapsedTime = Date.now() - this.gameStartTime;
+        // Accumulate elapsed time
+        this.gameElapsedTime += delta;
         
-        // Calculate remaining time (3 minutes total)
-        const remainingTime = Math.max(0, this.GAME_DURATION - this.gameElapsedTime);
+        // Calculate remaining time (3 minutes unless the level or mode says otherwise)
+        const rules = this.gameState.getMatchRules();
+        const remainingTime = Math.max(0, rules.gameDuration - this.gameElapsedTime);
         
         // Emit timer update event for UIManager to handle display
         this.eventBus.emit('timer-update', {
             elapsed: this.gameElapsedTime,
             remaining: remainingTime,
-            total: this.GAME_DURATION
+            total: rules.gameDuration
         });
+        this.matchCountdown?.update(this.gameElapsedTime);
         
         // Check for sudden death (at 2:30)
-        if (!this.suddenDeathTriggered && this.gameElapsedTime >= this.SUDDEN_DEATH_TIME) {
+        if (!this.suddenDeathTriggered && this.gameElapsedTime >= rules.suddenDeathTime) {
             this.suddenDeathTriggered = true;
             this.triggerSuddenDeath();
         }
@@ -797,7 +1509,7 @@ export class ArenaCoordinator {
         // TODO: Fix row spawn acceleration without breaking game systems
         
         // Camera shake for dramatic effect
-        this.scene.cameras.main.shake(500, 0.01);
+        shakeCamera(this.scene, 500, 0.01);
         
         // Flash screen red
         this.scene.cameras.main.flash(500, 100, 0, 0);
@@ -816,19 +1528,24 @@ export class ArenaCoordinator {
         }
         
         console.log('[ArenaCoordinator] TIME UP!');
-        
+
+        // Score modes have no winner - the clock just ends the run
+        if (this.gameMode.timeUp === 'score') {
+            this.triggerGameOver(true, 'time-up');
+            return;
+        }
+
         const playerGems = this.gameState.getPlayerGems();
         const opponentGems = this.gameState.getOpponentGems();
         
         console.log(`[ArenaCoordinator] Time up - Player: ${playerGems} gems, Opponent: ${opponentGems} gems`);
         
-        // Check for tie first
-        if (playerGems === opponentGems) {
+        // Winner is decided by gem count - equal stacks are a tie
+        const outcome = resolveTimeUp(playerGems, opponentGems);
+        if (outcome.winner === 'tie') {
             this.triggerTieGame();
         } else {
-            // Determine winner based on gem count
-            const playerWins = playerGems > opponentGems;
-            this.triggerGameOver(playerWins);
+            this.triggerGameOver(outcome.winner === 'player');
         }
     }
     
@@ -848,6 +1565,9 @@ export class ArenaCoordinator {
         if (this.shootingSystem && typeof this.shootingSystem.update === 'function') {
             this.shootingSystem.update(delta);
         }
+
+        // Armed power-up aiming visuals
+        this.powerUpSystem?.update(delta);
         
         // Note: GridAttachmentSystem and MatchDetectionSystem are event-driven
         // They don't have update methods - they respond to events
@@ -863,7 +1583,7 @@ export class ArenaCoordinator {
         // Only update game progression logic if game hasn't ended
         if (!this.isGameEnded) {
             // Update game timer
-            this.updateTimer();
+            this.updateTimer(delta);
             
             // Check danger zone proximity (from original ArenaSystem)
             this.dangerCheckCounter++;
@@ -891,7 +1611,7 @@ export class ArenaCoordinator {
             callback: () => {
                 this.throwGemsFromObjective();
                 // Set random next interval between 5-8 seconds
-                gemTimer.delay = Phaser.Math.Between(5000, 8000);
+                gemTimer.delay = this.rng.stream('gems').between(5000, 8000);
             },
             loop: true
         });
@@ -945,21 +1665,21 @@ export class ArenaCoordinator {
         
         // Add player bubbles
         for (let i = 0; i < playerGems && playerBubbles.length > 0; i++) {
-            const index = Phaser.Math.Between(0, playerBubbles.length - 1);
+            const index = this.rng.stream('gems').between(0, playerBubbles.length - 1);
             targetBubbles.push(playerBubbles[index]);
             playerBubbles.splice(index, 1);
         }
         
         // Add opponent bubbles
         for (let i = 0; i < opponentGems && opponentBubbles.length > 0; i++) {
-            const index = Phaser.Math.Between(0, opponentBubbles.length - 1);
+            const index = this.rng.stream('gems').between(0, opponentBubbles.length - 1);
             targetBubbles.push(opponentBubbles[index]);
             opponentBubbles.splice(index, 1);
         }
         
         // If not enough bubbles in one zone, use from the other
         while (targetBubbles.length < gemCount && eligibleBubbles.length > 0) {
-            const index = Phaser.Math.Between(0, eligibleBubbles.length - 1);
+            const index = this.rng.stream('gems').between(0, eligibleBubbles.length - 1);
             if (!targetBubbles.includes(eligibleBubbles[index])) {
                 targetBubbles.push(eligibleBubbles[index]);
             }
@@ -1049,7 +1769,7 @@ export class ArenaCoordinator {
             },
             onComplete: () => {
                 // Add gem to the bubble
-                targetBubble.setGem(true, Math.random() < 0.1 ? 'golden' : 'normal');
+                targetBubble.setGem(true, this.rng.stream('gems').chance(0.1) ? 'golden' : 'normal');
                 
                 // Flash effect on bubble
                 this.scene.tweens.add({
@@ -1148,6 +1868,8 @@ export class ArenaCoordinator {
             }
         }
         
+        this.updateFieldDanger(gridBubbles);
+
         // Check if ResetSystem should be triggered
         if ((playerInDanger || opponentInDanger) && !this.resetInProgress) {
             const currentTime = Date.now();
@@ -1172,6 +1894,171 @@ export class ArenaCoordinator {
         }
     }
     
+    /**
+     * Name the opponent, play the match's difficulty with the personality's weights
+     * and let it react to the match - lower difficulties stay weaker through their
+     * aim error, thinking time and power-up chance
+     */
+    private setupAIPersonality(): void {
+        const id = this.aiPersonalityId ?? this.rng.stream('ai').pick(AI_PERSONALITY_IDS);
+        const personality = AI_PERSONALITIES[id];
+
+        this.aiOpponentSystem.setStrategy(createPersonalityStrategy(personality));
+        this.uiManager?.updatePlayerNames(undefined, personality.name);
+
+        this.floatingTextSystem = new FloatingTextSystem(this.scene);
+        const launcher = this.launcherManager.getOpponentLauncher();
+        this.aiTauntSystem = new AITauntSystem(
+            this.scene,
+            personality,
+            this.floatingTextSystem,
+            () => ({ x: launcher.x, y: launcher.y })
+        );
+    }
+
+    /**
+     * Power-ups the AI fires at the arena rather than with a shot
+     */
+    private handleAIPowerUp = (plan: AIArenaPowerUp): void => {
+        if (this.isGameEnded) {
+            return;
+        }
+        if (plan.type === PowerUpType.FREEZE) {
+            // The player's own freeze, played on the AI's side - the effect ends itself
+            this.powerUpSystem.playRemoteEffect(PowerUpType.FREEZE);
+        } else {
+            this.applyAIStrike(plan);
+        }
+    };
+
+    /**
+     * AI bomb or lightning - the catalogue effect, landing on the bubble the plan picked
+     */
+    private applyAIStrike(plan: AIArenaPowerUp): void {
+        if (!plan.target) {
+            return;
+        }
+        const position = this.bubbleGrid.pixelToHex(plan.target);
+        const struck = this.gridAttachmentSystem.getGridBubbles().find(bubble => {
+            const cell = bubble.visible ? bubble.getGridPosition() : null;
+            return cell !== null && cell.q === position.q && cell.r === position.r;
+        });
+        if (!struck) {
+            return; // Gone since the AI planned it
+        }
+        this.powerUpSystem.playRemoteStrike(plan.type, {
+            x: plan.target.x,
+            y: plan.target.y,
+            position,
+            color: struck.getColor(),
+            isPlayer: false
+        });
+    }
+
+    /**
+     * A catalogue power-up's strike landed
+     */
+    private onPowerUpStrike = (strike: IPowerUpStrike): void => {
+        if (!this.isGameEnded) {
+            this.applyStrike(strike);
+        }
+    };
+
+    /**
+     * Destroys the struck bubbles outright, gives their gems and mystery power-ups
+     * to the striking side and drops whatever is cut loose
+     */
+    private applyStrike(strike: IPowerUpStrike): void {
+        const targets = new Set(strike.cells.map(cell => `${cell.q},${cell.r}`));
+        const bubbles = this.gridAttachmentSystem.getGridBubbles().filter(bubble => {
+            const position = bubble.visible ? bubble.getGridPosition() : null;
+            return position !== null && targets.has(`${position.q},${position.r}`);
+        });
+
+        if (strike.target) {
+            const flash = this.scene.add.circle(strike.target.x, strike.target.y, strike.radius, strike.color, 0.5);
+            flash.setDepth(1500);
+            this.scene.tweens.add({
+                targets: flash,
+                scale: { from: 0.3, to: 1.2 },
+                alpha: 0,
+                duration: 400,
+                ease: 'Expo.easeOut',
+                onComplete: () => flash.destroy()
+            });
+            shakeCamera(this.scene, 200, strike.radius > BUBBLE_CONFIG.SIZE ? 0.015 : 0.005);
+        }
+
+        bubbles.forEach(bubble => {
+            if (bubble.getHasGem()) {
+                this.scene.events.emit('gem-collected-from-bubble', {
+                    x: bubble.x,
+                    y: bubble.y,
+                    gemType: bubble.getGemType(),
+                    isPlayer: strike.isPlayer
+                });
+            }
+            if (bubble instanceof MysteryBubble) {
+                bubble.collectPowerUp(strike.isPlayer);
+            }
+            this.gridAttachmentSystem.removeGridBubble(bubble);
+            bubble.setGridPosition(null);
+            bubble.pop();
+        });
+
+        this.gridAttachmentSystem.checkDisconnectedBubbles(false);
+    }
+
+    /**
+     * Color convert - repaints the bubbles, then lets the new color match
+     */
+    private onPowerUpConvert = (data: { cells: Array<{ q: number; r: number }>; color: BubbleColor }): void => {
+        if (this.isGameEnded) {
+            return;
+        }
+        const targets = new Set(data.cells.map(cell => `${cell.q},${cell.r}`));
+        const bubbles = this.gridAttachmentSystem.getGridBubbles().filter(bubble => {
+            const position = bubble.visible ? bubble.getGridPosition() : null;
+            return position !== null && targets.has(`${position.q},${position.r}`);
+        });
+
+        bubbles.forEach(bubble => bubble.setColor(data.color));
+        if (bubbles.length > 0) {
+            void this.matchDetectionSystem.checkForMatches(bubbles[0]);
+        }
+    };
+
+    /**
+     * Report how far each side's bubbles reach from the center row, 0-10 (10 = full field).
+     * GameStateManager only emits field-danger-updated when a level actually changes here.
+     */
+    private updateFieldDanger(gridBubbles: Bubble[]): void {
+        let playerRows = 0;
+        let opponentRows = 0;
+        gridBubbles.forEach(bubble => {
+            const position = bubble.visible ? bubble.getGridPosition() : null;
+            if (!position) {
+                return;
+            }
+            // Player launcher is at the bottom - positive rows are the player's half
+            if (position.r > 0) {
+                playerRows = Math.max(playerRows, position.r);
+            } else {
+                opponentRows = Math.max(opponentRows, -position.r);
+            }
+        });
+
+        const toLevel = (rows: number): number =>
+            Math.min(10, Math.round(rows / VICTORY_RULES.DEATH_ROW_THRESHOLD * 10));
+        const field = this.gameState.getState().field;
+        if (toLevel(playerRows) !== field.playerFieldDanger) {
+            this.gameState.updateFieldDanger(true, toLevel(playerRows));
+        }
+        if (toLevel(opponentRows) !== field.opponentFieldDanger) {
+            this.gameState.updateFieldDanger(false, toLevel(opponentRows));
+        }
+    }
+
     /**
      * Activate danger zone warning (from original ArenaSystem)
      */
@@ -1248,20 +2135,8 @@ export class ArenaCoordinator {
             // Determine if it was player or AI
             const isPlayer = this.isPlayerBubble(bubble);
             
-            // Check if combo timer expired
-            const currentTime = Date.now();
-            const timeSinceLastHit = currentTime - this.lastObjectiveHitTime;
-            
-            if (timeSinceLastHit > this.OBJECTIVE_HIT_RESET_TIME) {
-                this.objectiveHitCount = 0;
-            }
-            
-            // Increment hit count and update timer
-            this.objectiveHitCount++;
-            this.lastObjectiveHitTime = currentTime;
-            
             // Calculate gems awarded based on combo
-            const gemsAwarded = Math.min(this.objectiveHitCount, 5); // 1-5 gems based on combo
+            const gemsAwarded = this.objectiveCombo.hit(isPlayer, Date.now()); // 1-5 gems based on combo
             
             // Call the hit method on the objective to trigger sound and animation
             if (objectiveObj && objectiveObj.hit) {
@@ -1308,16 +2183,23 @@ export class ArenaCoordinator {
                     x: objectiveObj.x,
                     y: objectiveObj.y
                 });
+                this.scoreEventManager?.queueEvent({
+                    type: ScoreEventType.OBJECTIVE_HIT,
+                    baseValue: gemsAwarded,
+                    position: { x: objectiveObj.x, y: objectiveObj.y },
+                    isPlayer,
+                    metadata: { gems: gemsAwarded }
+                });
                 
                 // Show visual effect
                 this.showGemCollectEffect(objectiveObj.x, objectiveObj.y, isPlayer);
                 
                 // Show combo text
-                if (this.objectiveHitCount > 1) {
+                if (this.objectiveCombo.getCount() > 1) {
                     const comboText = this.scene.add.text(
                         objectiveObj.x,
                         objectiveObj.y - 50,
-                        `COMBO x${this.objectiveHitCount}!\n+${gemsAwarded} GEMS`,
+                        `COMBO x${this.objectiveCombo.getCount()}!\n+${gemsAwarded} GEMS`,
                         {
                             fontSize: '24px',
                             color: '#FFD700',
@@ -1339,13 +2221,14 @@ export class ArenaCoordinator {
                     });
                 }
                 
-                // Check for gem-based victory condition (15 gems)
+                // Check for gem-based victory condition (15 gems by default)
                 const playerGems = this.gameState.getPlayerGems();
                 const opponentGems = this.gameState.getOpponentGems();
                 
-                if (playerGems >= 15 && !this.isGameEnded) {
+                const winner = checkGemVictory(playerGems, opponentGems, this.gameState.getMatchRules().gemsToWin);
+                if (winner === 'player' && !this.isGameEnded) {
                     this.triggerGameOver(true);
-                } else if (opponentGems >= 15 && !this.isGameEnded) {
+                } else if (winner === 'opponent' && !this.isGameEnded) {
                     this.triggerGameOver(false);
                 }
             });
@@ -1378,7 +2261,7 @@ export class ArenaCoordinator {
     /**
      * Trigger game over (from original ArenaSystem)
      */
-    private triggerGameOver(playerWins: boolean): void {
+    private triggerGameOver(playerWins: boolean, reason: string = 'time-up'): void {
         
         if (this.isGameEnded || this.victoryScreen || this.defeatScreen) {
             return;
@@ -1387,8 +2270,7 @@ export class ArenaCoordinator {
         this.isGameEnded = true;
         
         // Reset objective combo immediately to prevent carryover
-        this.objectiveHitCount = 0;
-        this.lastObjectiveHitTime = 0;
+        this.objectiveCombo.reset();
         
         // Keep physics and animations running in the background
         // Do NOT pause physics or stop tweens
@@ -1397,6 +2279,7 @@ export class ArenaCoordinator {
         if (this.aiOpponentSystem) {
             this.aiOpponentSystem.stop();
         }
+        this.localOpponentSystem?.stop();
         
         // Stop row spawning - no new rows
         if (this.rowSpawnSystem) {
@@ -1414,12 +2297,19 @@ export class ArenaCoordinator {
         // Emit game over events for sound system
         this.scene.events.emit('game-over', { 
             playerWins,
-            reason: 'time-up'  // Add reason for VictorySystem
+            reason  // Add reason for VictorySystem
         });
+        this.emitGameOver(playerWins ? 'player' : 'opponent', reason);
         
         // Get current scores
         const playerScore = this.scoreEventManager?.getPlayerScore() || 0;
-        
+        // Every mode system records the result; one with its own end screen replaces ours
+        const ownEndScreen = this.modeSystems
+            .map(system => system.finishMatch?.(playerWins, playerScore) ?? false)
+            .includes(true);
+        if (ownEndScreen) {
+            return;
+        }
         
         // Show appropriate screen IMMEDIATELY
         if (playerWins) {
@@ -1439,7 +2329,8 @@ export class ArenaCoordinator {
                     this.restartGame,
                     this.returnToMenu
                 );
-                
+                const victoryScreen = this.victoryScreen;
+                this.modeSystems.forEach(system => system.showOnVictory?.(victoryScreen));
                 
                 // Victory screen buttons are already interactive via the backdrop
                 // No need to set container interactive
@@ -1462,6 +2353,8 @@ export class ArenaCoordinator {
                     this.restartGame,
                     this.returnToMenu
                 );
+                const defeatScreen = this.defeatScreen;
+                this.modeSystems.forEach(system => system.showOnDefeat?.(defeatScreen));
                 
                 
                 // Camera fade effect (subtle)
@@ -1493,6 +2386,7 @@ export class ArenaCoordinator {
         if (this.aiOpponentSystem) {
             this.aiOpponentSystem.stop();
         }
+        this.localOpponentSystem?.stop();
         
         // Stop row spawning
         if (this.rowSpawnSystem) {
@@ -1509,6 +2403,7 @@ export class ArenaCoordinator {
         
         // Emit game over event
         this.scene.events.emit('game-tie');
+        this.emitGameOver('tie', 'time-up');
         
         // Get scores
         const playerScore = this.scoreEventManager?.getPlayerScore() || 0;
@@ -1572,16 +2467,32 @@ export class ArenaCoordinator {
         // Start AI opponent if in single player mode
         if (this.isSinglePlayer && this.aiOpponentSystem) {
             this.aiOpponentSystem.start();
+            this.aiTauntSystem?.start();
         }
+        this.localOpponentSystem?.start();
     }
     
     /**
      * Handle game over event
      */
-    private handleGameOver(data: any): void {
+    private handleGameOver(data: GameEvents['game-over']): void {
+        if (data.winner === 'tie') {
+            return;
+        }
         this.gameState.setGameState(data.winner === 'player' ? 'victory' : 'defeat');
     }
     
+    /**
+     * Announce the result on the game-wide bus (replays, UI).
+     * Gem victories are already announced by GameFlowManager - don't announce twice.
+     */
+    private emitGameOver(winner: 'player' | 'opponent' | 'tie', reason: string): void {
+        if (this.gameState.getState().gameFlow.state !== 'playing') {
+            return;
+        }
+        this.eventBus.emitTyped('game-over', { winner, reason });
+    }
+
     /**
      * Restart game (callback for victory/defeat screens)
      */
@@ -1602,6 +2513,10 @@ export class ArenaCoordinator {
         // First cleanup everything
         this.cleanup();
         
+        if (this.returnScene) {
+            this.scene.scene.start(this.returnScene);
+            return;
+        }
         // For now, just restart the scene (can be changed to menu scene later)
         this.scene.scene.restart();
     }
@@ -1611,7 +2526,7 @@ export class ArenaCoordinator {
      */
     private handleRestart(): void {
         this.cleanup();
-        this.initialize(this.isSinglePlayer);
+        this.initialize(this.isSinglePlayer, this.aiDifficulty);
     }
     
     /**
@@ -1631,15 +2546,11 @@ export class ArenaCoordinator {
     /**
      * Handle bubble attached
      */
-    private handleBubbleAttached(data: any): void {
-        // Reset objective hit combo when bubble attaches to grid (not objective)
-        // This ensures the combo only counts for consecutive direct hits to objective
-        // Reset objective hit combo when bubble attaches to grid (not objective)
-        this.objectiveHitCount = 0;
-        this.lastObjectiveHitTime = 0;
+    private handleBubbleAttached(data: GameEvents['bubble-attached']): void {
+        // A shot into the grid (not the objective) ends its own side's combo only
+        this.objectiveCombo.onBubbleAttached(data.isPlayer);
         
-        // Check for matches
-        this.matchDetectionSystem?.checkForMatches(data.bubble);
+        // Matches are already checked by GridAttachmentSystem.attachToGrid before this event
     }
     
     /**
@@ -1689,7 +2600,7 @@ export class ArenaCoordinator {
     private handleBubbleGemCollected(data: any): void {
         const { x, y, isPlayer } = data;
         
-        // IMPORTANT: Always add exactly 1 gem per bubble, regardless of objectiveHitCount
+        // IMPORTANT: Always add exactly 1 gem per bubble, regardless of the objective combo
         const gemsToAdd = 1; // NEVER multiply this!
         
         // Update gem count - SHOULD BE 1 GEM PER BUBBLE
@@ -1714,13 +2625,14 @@ export class ArenaCoordinator {
         // Visual effect
         this.showGemCollectEffect(x, y, isPlayer);
         
-        // Check for gem-based victory condition (15 gems)
+        // Check for gem-based victory condition (15 gems by default)
         const playerGems = this.gameState.getPlayerGems();
         const opponentGems = this.gameState.getOpponentGems();
         
-        if (playerGems >= 15 && !this.isGameEnded) {
+        const winner = checkGemVictory(playerGems, opponentGems, this.gameState.getMatchRules().gemsToWin);
+        if (winner === 'player' && !this.isGameEnded) {
             this.triggerGameOver(true);
-        } else if (opponentGems >= 15 && !this.isGameEnded) {
+        } else if (winner === 'opponent' && !this.isGameEnded) {
             this.triggerGameOver(false);
         }
     }
@@ -1826,9 +2738,41 @@ export class ArenaCoordinator {
         
         // Timer is now managed by UIManager, no cleanup needed here
         
+        // Stop recording - an unfinished match is not saved
+        this.replayRecorder?.stop();
+        this.replayRecorder = undefined;
+
+        // Leaving the arena leaves the online room as well
+        this.desyncMonitor?.stop();
+        this.desyncMonitor = undefined;
+        if (this.networkSession) {
+            this.networkSession.off('remote-shot', this.handleRemoteShot);
+            this.networkSession.off('remote-powerup', this.handleRemotePowerUp);
+            this.networkSession.off('peer-left', this.handlePeerLeft);
+            void this.networkSession.disconnect();
+            this.networkSession = undefined;
+        }
+
         // Stop all active systems
         this.rowSpawnSystem?.stopSpawning();
         this.aiOpponentSystem?.stop();
+        this.localOpponentSystem?.destroy();
+        this.localOpponentSystem = undefined;
+        this.adaptiveDifficulty?.stop();
+        this.adaptiveDifficulty = undefined;
+        this.aiTauntSystem?.stop();
+        this.aiTauntSystem = undefined;
+        this.scene.events.off('ai-power-up', this.handleAIPowerUp);
+        this.scene.events.off('power-up-strike', this.onPowerUpStrike);
+        this.scene.events.off('power-up-convert', this.onPowerUpConvert);
+        // Its effects end here - a slowdown cut short gives the clocks their speed back
+        this.powerUpSystem?.destroy();
+        this.powerUpAttackSystem?.destroy();
+        this.powerUpAttackSystem = undefined;
+        this.arsenalMeterSystem?.destroy();
+        this.arsenalMeterSystem = undefined;
+        this.floatingTextSystem?.destroy();
+        this.floatingTextSystem = undefined;
         this.shootingSystem?.destroy();
         
         // Clean up objective manager - CRITICAL: clear the reference
@@ -1860,14 +2804,21 @@ export class ArenaCoordinator {
         
         // Reset state
         this.gameState.resetGame();
+        this.gameState.setMatchRules();
+        this.level = undefined;
+        this.modeSystems.forEach(system => system.stop());
+        this.modeSystems = [];
+        this.scene.events.off('field-full', this.handleSoloFieldFull);
+        this.matchCountdown?.destroy();
+        this.matchCountdown = undefined;
         
         // Clean up event listeners
+        SettingsStore.getInstance().off('settings-changed', this.applySettings);
         this.eventBus.off('bubble-position-update', this.checkChestHit);
         this.eventBus.removeAllListeners();
         
         // Reset counters
-        this.objectiveHitCount = 0;
-        this.lastObjectiveHitTime = 0;
+        this.objectiveCombo.reset();
         
         // Destroy objective if it exists
         if (this.objectiveManager) {
@@ -99,7 +99,7 @@ export interface GameEvents {
     'game-paused': void;
     'game-resumed': void;
     'game-over': {
-        winner: 'player' | 'opponent';
+        winner: 'player' | 'opponent' | 'tie';
         reason: string;
     };
     
@@ -129,6 +129,13 @@ export interface GameEvents {
     'powerup-activated': {
         type: string;
         isPlayer: boolean;
+        x?: number;
+        y?: number;
+        plan?: { // AI power-up fired at the arena - where it landed
+            type: string;
+            target: { x: number; y: number } | null;
+            cells: Array<{ q: number; r: number }>;
+        };
     };
     
     'powerup-expired': {
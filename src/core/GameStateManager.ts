@@ -1,4 +1,5 @@
 import { EventEmitter } from 'eventemitter3';
+import { calculateResetGemLoss, DEFAULT_MATCH_RULES, IMatchRules, VICTORY_RULES } from './rules/VictoryRules';
 
 /**
  * Centralized game state management
@@ -63,14 +64,15 @@ export class GameStateManager extends EventEmitter {
     private state: IGameState;
     private stateHistory: Partial<IGameState>[] = [];
     private readonly MAX_HISTORY = 10;
+    private matchRules: IMatchRules = { ...DEFAULT_MATCH_RULES };
     
     // Constants from GDD
-    public readonly GEMS_TO_WIN = 15;
-    public readonly GAME_DURATION = 180000; // 3 minutes
-    public readonly SUDDEN_DEATH_TIME = 150000; // 2:30
-    public readonly RESET_GEM_LOSS = 0.5; // 50%
-    public readonly MIN_GEM_LOSS = 2;
-    public readonly MAX_GEM_LOSS = 7;
+    public readonly GEMS_TO_WIN = VICTORY_RULES.GEMS_TO_WIN;
+    public readonly GAME_DURATION = VICTORY_RULES.GAME_DURATION;
+    public readonly SUDDEN_DEATH_TIME = VICTORY_RULES.SUDDEN_DEATH_TIME;
+    public readonly RESET_GEM_LOSS = VICTORY_RULES.RESET_GEM_LOSS;
+    public readonly MIN_GEM_LOSS = VICTORY_RULES.MIN_GEM_LOSS;
+    public readonly MAX_GEM_LOSS = VICTORY_RULES.MAX_GEM_LOSS;
     
     private constructor() {
         super();
@@ -102,7 +104,7 @@ export class GameStateManager extends EventEmitter {
             gameFlow: {
                 state: 'menu',
                 timeElapsed: 0,
-                timeRemaining: this.GAME_DURATION,
+                timeRemaining: this.matchRules.gameDuration,
                 isInSuddenDeath: false,
                 isPaused: false
             },
@@ -167,7 +169,7 @@ export class GameStateManager extends EventEmitter {
         });
         
         // Check victory condition
-        if (this.state.player.gems >= this.GEMS_TO_WIN) {
+        if (this.state.player.gems >= this.matchRules.gemsToWin) {
             this.emit('victory-condition-met', { 
                 winner: 'player', 
                 reason: 'gems' 
@@ -191,7 +193,7 @@ export class GameStateManager extends EventEmitter {
         });
         
         // Check victory condition
-        if (this.state.opponent.gems >= this.GEMS_TO_WIN) {
+        if (this.state.opponent.gems >= this.matchRules.gemsToWin) {
             this.emit('victory-condition-met', { 
                 winner: 'opponent', 
                 reason: 'gems' 
@@ -210,10 +212,10 @@ export class GameStateManager extends EventEmitter {
     
     public updateGameTime(elapsed: number): void {
         this.state.gameFlow.timeElapsed = elapsed;
-        this.state.gameFlow.timeRemaining = Math.max(0, this.GAME_DURATION - elapsed);
+        this.state.gameFlow.timeRemaining = Math.max(0, this.matchRules.gameDuration - elapsed);
         
         // Check sudden death
-        if (!this.state.gameFlow.isInSuddenDeath && elapsed >= this.SUDDEN_DEATH_TIME) {
+        if (!this.state.gameFlow.isInSuddenDeath && elapsed >= this.matchRules.suddenDeathTime) {
             this.state.gameFlow.isInSuddenDeath = true;
             this.emit('sudden-death-started');
         }
@@ -288,11 +290,7 @@ export class GameStateManager extends EventEmitter {
     // Reset Management
     public executeReset(isPlayer: boolean): number {
         const currentGems = isPlayer ? this.state.player.gems : this.state.opponent.gems;
-        const gemsToLose = Math.floor(currentGems * this.RESET_GEM_LOSS);
-        const finalLoss = Math.min(
-            Math.max(gemsToLose, currentGems > 0 ? this.MIN_GEM_LOSS : 0),
-            this.MAX_GEM_LOSS
-        );
+        const finalLoss = calculateResetGemLoss(currentGems);
         
         if (isPlayer) {
             this.state.player.resetCount++;
@@ -324,6 +322,27 @@ export class GameStateManager extends EventEmitter {
         return false;
     }
     
+    /**
+     * Rules for the next match - anything not given falls back to the GDD defaults.
+     * Survives resetGame(), so set it before the match starts.
+     */
+    public setMatchRules(rules: Partial<IMatchRules> = {}): void {
+        this.matchRules = { ...DEFAULT_MATCH_RULES, ...rules };
+        this.state.gameFlow.timeRemaining = Math.max(0, this.matchRules.gameDuration - this.state.gameFlow.timeElapsed);
+    }
+
+    public getMatchRules(): Readonly<IMatchRules> {
+        return { ...this.matchRules };
+    }
+
+    /**
+     * Replace the whole state, e.g. when resuming from an arena snapshot
+     */
+    public restoreState(state: IGameState): void {
+        this.state = JSON.parse(JSON.stringify(state)) as IGameState;
+        this.emit('state-restored');
+    }
+
     // Reset for new game
     public resetGame(): void {
         this.state = this.getInitialState();
@@ -0,0 +1,163 @@
+/**
+ * RandomService - Deterministic seeded randomness for gameplay
+ * Every gameplay system draws from its own named stream derived from a single
+ * match seed, so the same seed + the same inputs always reproduce the same match.
+ * Purely cosmetic randomness (particles, shakes, sparkles) should keep using Math.random.
+ */
+
+/**
+ * Named streams used by gameplay systems.
+ * Keeping streams separate means an extra draw in one system
+ * (e.g. the AI thinking longer) never shifts the colors of another.
+ */
+export type RandomStreamName =
+    | 'board'
+    | 'rowSpawn'
+    | 'playerQueue'
+    | 'opponentQueue'
+    | 'ai'
+    | 'gems'
+    | 'mystery'
+    | 'powerUps'
+    | 'physics';
+
+/**
+ * Hash a string into a 32-bit unsigned integer (FNV-1a)
+ */
+export function hashString(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Small, fast PRNG (mulberry32) with a single 32-bit state word.
+ * The state can be read and restored, which makes snapshots trivial.
+ */
+export class RandomStream {
+    private state: number;
+
+    constructor(seed: number) {
+        this.state = seed >>> 0;
+    }
+
+    /**
+     * Next float in [0, 1) - drop-in replacement for Math.random()
+     */
+    public next(): number {
+        this.state = (this.state + 0x6d2b79f5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /**
+     * Integer in [min, max] inclusive - same contract as Phaser.Math.Between
+     */
+    public between(min: number, max: number): number {
+        return Math.floor(this.next() * (max - min + 1)) + min;
+    }
+
+    /**
+     * Float in [min, max)
+     */
+    public float(min: number, max: number): number {
+        return min + this.next() * (max - min);
+    }
+
+    /**
+     * True with the given probability (0..1)
+     */
+    public chance(probability: number): boolean {
+        return this.next() < probability;
+    }
+
+    /**
+     * Pick a random element from an array
+     */
+    public pick<T>(items: readonly T[]): T {
+        return items[Math.floor(this.next() * items.length)];
+    }
+
+    public getState(): number {
+        return this.state;
+    }
+
+    public setState(state: number): void {
+        this.state = state >>> 0;
+    }
+}
+
+export class RandomService {
+    private static instance: RandomService;
+    private seed: number;
+    private streams: Map<RandomStreamName, RandomStream> = new Map();
+
+    private constructor() {
+        this.seed = RandomService.generateSeed();
+    }
+
+    public static getInstance(): RandomService {
+        if (!RandomService.instance) {
+            RandomService.instance = new RandomService();
+        }
+        return RandomService.instance;
+    }
+
+    /**
+     * Create a fresh seed for a new match
+     */
+    public static generateSeed(): number {
+        return (Math.floor(Math.random() * 4294967296) ^ Date.now()) >>> 0;
+    }
+
+    /**
+     * Reseed all streams - call once at match start
+     */
+    public setSeed(seed: number): void {
+        this.seed = seed >>> 0;
+        this.streams.clear();
+    }
+
+    public getSeed(): number {
+        return this.seed;
+    }
+
+    /**
+     * Get (or lazily create) the stream for a gameplay system.
+     * Each stream is seeded from hash(seed, name) so streams are independent.
+     */
+    public stream(name: RandomStreamName): RandomStream {
+        let stream = this.streams.get(name);
+        if (!stream) {
+            stream = new RandomStream(hashString(`${this.seed}:${name}`));
+            this.streams.set(name, stream);
+        }
+        return stream;
+    }
+
+    /**
+     * Capture the state of every stream created so far
+     */
+    public getStreamStates(): Partial<Record<RandomStreamName, number>> {
+        const states: Partial<Record<RandomStreamName, number>> = {};
+        this.streams.forEach((stream, name) => {
+            states[name] = stream.getState();
+        });
+        return states;
+    }
+
+    /**
+     * Restore stream states captured with getStreamStates()
+     */
+    public setStreamStates(states: Partial<Record<RandomStreamName, number>>): void {
+        Object.keys(states).forEach(key => {
+            const name = key as RandomStreamName;
+            this.stream(name).setState(states[name]);
+        });
+    }
+}
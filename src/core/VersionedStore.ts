@@ -0,0 +1,64 @@
+/**
+ * VersionedStore - One local storage entry saved as { version, ...payload }
+ * Shared by the settings, rating and progress stores. A missing, unreadable or
+ * old-format save loads as the store's default; saving and clearing never throw.
+ */
+
+export interface IVersionedFile {
+    version: number;
+}
+
+export interface IVersionedStoreOptions<T, F extends IVersionedFile> {
+    key: string; // Local storage key
+    version: number; // Current format version - saves with any other are ignored
+    owner: string; // Store name for warnings
+    label: string; // What is saved, for warnings - 'rating', 'progress'
+    createDefault: () => T;
+    toFile: (value: T) => Omit<F, 'version'>;
+    fromFile: (file: Partial<F>) => T | null; // null when the payload is unusable
+}
+
+export class VersionedStore<T, F extends IVersionedFile> {
+    private options: IVersionedStoreOptions<T, F>;
+
+    constructor(options: IVersionedStoreOptions<T, F>) {
+        this.options = options;
+    }
+
+    public load(): T {
+        const { key, version, owner, label, createDefault, fromFile } = this.options;
+        try {
+            const raw = localStorage.getItem(key);
+            if (!raw) {
+                return createDefault();
+            }
+            const file = JSON.parse(raw) as Partial<F>;
+            const value = file.version === version ? fromFile(file) : null;
+            if (value === null) {
+                console.warn(`${owner}: Ignoring ${label} saved with format version ${String(file.version)}`);
+                return createDefault();
+            }
+            return value;
+        } catch (error) {
+            console.warn(`${owner}: Failed to load ${label}`, error);
+            return createDefault();
+        }
+    }
+
+    public save(value: T): void {
+        try {
+            const file = { ...this.options.toFile(value), version: this.options.version };
+            localStorage.setItem(this.options.key, JSON.stringify(file));
+        } catch (error) {
+            console.warn(`${this.options.owner}: Failed to save ${this.options.label}`, error);
+        }
+    }
+
+    public clear(): void {
+        try {
+            localStorage.removeItem(this.options.key);
+        } catch (error) {
+            console.warn(`${this.options.owner}: Failed to clear ${this.options.label}`, error);
+        }
+    }
+}
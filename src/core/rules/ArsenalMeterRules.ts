@@ -0,0 +1,60 @@
+/**
+ * ArsenalMeterRules - Pure rules for the arsenal meter
+ * Each side has a meter that fills from its scoring: combo tiers, orphan drops
+ * and objective hits. A full meter hands out the next power-up of the loadout,
+ * in loadout order, and starts again from empty - overflow carries over.
+ */
+
+import type { PowerUpId } from '@/types/PowerUpTypes';
+
+export const ARSENAL_METER_RULES = {
+    CAPACITY: 100,
+    COMBO_TIER_CHARGE: [8, 15, 25, 35, 50], // Per ComboManager.COMBO_CONFIGS tier, 3-match first
+    ORPHAN_CHARGE: 3, // Per dropped bubble
+    ORPHAN_MAX_CHARGE: 30, // Cap for one drop
+    OBJECTIVE_HIT_CHARGE: 20
+} as const;
+
+export type ArsenalMeterSource =
+    | { type: 'combo'; tier: number } // Index into ComboManager.COMBO_CONFIGS
+    | { type: 'orphans'; count: number }
+    | { type: 'objective' };
+
+/**
+ * Charge a scoring event is worth
+ */
+export function getMeterCharge(source: ArsenalMeterSource): number {
+    switch (source.type) {
+        case 'combo': {
+            const charges = ARSENAL_METER_RULES.COMBO_TIER_CHARGE;
+            return source.tier < 0 ? 0 : charges[Math.min(source.tier, charges.length - 1)];
+        }
+        case 'orphans':
+            return Math.min(
+                Math.max(source.count, 0) * ARSENAL_METER_RULES.ORPHAN_CHARGE,
+                ARSENAL_METER_RULES.ORPHAN_MAX_CHARGE
+            );
+        case 'objective':
+            return ARSENAL_METER_RULES.OBJECTIVE_HIT_CHARGE;
+        default:
+            return 0;
+    }
+}
+
+/**
+ * New charge after adding to the meter, and how many power-ups it paid out
+ */
+export function fillMeter(charge: number, amount: number): { charge: number; grants: number } {
+    const total = charge + Math.max(amount, 0);
+    return {
+        charge: total % ARSENAL_METER_RULES.CAPACITY,
+        grants: Math.floor(total / ARSENAL_METER_RULES.CAPACITY)
+    };
+}
+
+/**
+ * Power-up a side gets for its nth full meter - the loadout in order, round and round
+ */
+export function getMeterGrant(loadout: ReadonlyArray<PowerUpId>, grantIndex: number): PowerUpId | null {
+    return loadout.length > 0 ? loadout[grantIndex % loadout.length] : null;
+}
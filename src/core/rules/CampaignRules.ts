@@ -0,0 +1,73 @@
+/**
+ * CampaignRules - Pure star rating and unlock rules for the puzzle campaign
+ * Shared by ArenaCoordinator (rating a finished level) and WorldMapScene
+ * (what is playable), so both agree on progress.
+ */
+
+import { ICampaignChapter } from '@/types/CampaignTypes';
+import { ILevelStars } from '@/types/LevelTypes';
+
+export const CAMPAIGN_RULES = {
+    SHOT_BONUS: 100, // Points per unused shot towards the star thresholds
+    MAX_STARS: 3
+} as const;
+
+export interface ILevelResult {
+    won: boolean;
+    score: number; // ScoreEventManager player score
+    shotsRemaining: number; // 0 on levels without a shot limit
+}
+
+/**
+ * 0 for a loss, 1 for a win, 2-3 when score plus unused shots reach the level's thresholds
+ */
+export function calculateStars(result: ILevelResult, thresholds?: ILevelStars): number {
+    if (!result.won) {
+        return 0;
+    }
+    if (!thresholds) {
+        return 1;
+    }
+    const rating = result.score + result.shotsRemaining * CAMPAIGN_RULES.SHOT_BONUS;
+    if (rating >= thresholds.three) {
+        return 3;
+    }
+    return rating >= thresholds.two ? 2 : 1;
+}
+
+/**
+ * Every campaign level id, in play order
+ */
+export function getCampaignOrder(chapters: ReadonlyArray<ICampaignChapter>): string[] {
+    return chapters.flatMap(chapter => chapter.levelIds);
+}
+
+/**
+ * The first level is always open; every other one opens once the level before it has a star
+ */
+export function isLevelUnlocked(
+    chapters: ReadonlyArray<ICampaignChapter>,
+    levelId: string,
+    getStars: (levelId: string) => number
+): boolean {
+    const order = getCampaignOrder(chapters);
+    const index = order.indexOf(levelId);
+    if (index < 0) {
+        return false;
+    }
+    return index === 0 || getStars(order[index - 1]) > 0;
+}
+
+/**
+ * Stars earned out of stars available, for one chapter or the whole campaign
+ */
+export function countStars(
+    chapters: ReadonlyArray<ICampaignChapter>,
+    getStars: (levelId: string) => number
+): { earned: number; total: number } {
+    const order = getCampaignOrder(chapters);
+    return {
+        earned: order.reduce((sum, levelId) => sum + getStars(levelId), 0),
+        total: order.length * CAMPAIGN_RULES.MAX_STARS
+    };
+}
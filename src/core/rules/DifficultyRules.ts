@@ -0,0 +1,109 @@
+/**
+ * DifficultyRules - Pure player rating and adaptive AI tuning
+ * The rating moves Elo-style after every match against the AI and sets the
+ * AI's base skill. During a match the tuning leans against whoever is ahead,
+ * so a runaway lead tightens the AI and a struggling player gets some slack.
+ */
+
+import { IAITuning } from '@/types/AITypes';
+
+export const DIFFICULTY_RULES = {
+    DEFAULT_RATING: 1000,
+    MIN_RATING: 400,
+    MAX_RATING: 2000,
+    K_FACTOR: 32,
+    PLACEMENT_MATCHES: 5, // Larger steps until the rating has settled
+    PLACEMENT_K_FACTOR: 64,
+    MAX_SWING: 0.2, // How far match pressure can move the skill either way
+    GEM_PRESSURE: 0.7, // Share of the gem lead in the pressure, the rest is field danger
+    MAX_DANGER: 10, // field-danger-updated level of a full field
+    EASIEST_THINK_TIME: { min: 3000, max: 5000 }, // AIDifficulty.EASY
+    HARDEST_THINK_TIME: { min: 1000, max: 1500 }, // AIDifficulty.HARD
+    MAX_AIM_ERROR: 12, // Degrees either way at skill 0
+    BANK_SHOT_SKILL: 0.45, // Skill needed before the AI plays off the walls
+    OBJECTIVE_SKILL: 0.25 // Skill needed before the AI goes for the objective
+} as const;
+
+export type RatedResult = 'win' | 'loss' | 'tie';
+
+/**
+ * Match state the tuning reacts to, from the player's side of the table
+ */
+export interface IMatchPressure {
+    playerGems: number;
+    opponentGems: number;
+    gemsToWin: number;
+    playerDanger: number; // 0-10
+    opponentDanger: number; // 0-10
+}
+
+const clamp = (value: number, min: number, max: number): number => Math.max(min, Math.min(max, value));
+
+/**
+ * Chance of the player beating an opponent of the given rating
+ */
+export function expectedScore(rating: number, opponentRating: number): number {
+    return 1 / (1 + Math.pow(10, (opponentRating - rating) / 400));
+}
+
+/**
+ * Rating after a match - matchesPlayed counts matches before this one
+ */
+export function updateRating(
+    rating: number,
+    opponentRating: number,
+    result: RatedResult,
+    matchesPlayed: number = DIFFICULTY_RULES.PLACEMENT_MATCHES
+): number {
+    const score = result === 'win' ? 1 : result === 'loss' ? 0 : 0.5;
+    const k = matchesPlayed < DIFFICULTY_RULES.PLACEMENT_MATCHES
+        ? DIFFICULTY_RULES.PLACEMENT_K_FACTOR
+        : DIFFICULTY_RULES.K_FACTOR;
+    const next = rating + k * (score - expectedScore(rating, opponentRating));
+    return Math.round(clamp(next, DIFFICULTY_RULES.MIN_RATING, DIFFICULTY_RULES.MAX_RATING));
+}
+
+/**
+ * Rating mapped onto 0 (weakest AI) - 1 (strongest AI)
+ */
+export function ratingToSkill(rating: number): number {
+    const { MIN_RATING, MAX_RATING } = DIFFICULTY_RULES;
+    return clamp((rating - MIN_RATING) / (MAX_RATING - MIN_RATING), 0, 1);
+}
+
+export function skillToRating(skill: number): number {
+    const { MIN_RATING, MAX_RATING } = DIFFICULTY_RULES;
+    return Math.round(MIN_RATING + clamp(skill, 0, 1) * (MAX_RATING - MIN_RATING));
+}
+
+/**
+ * How far the player is ahead: -1 (AI dominating) - 1 (player dominating)
+ */
+export function calculatePressure(pressure: IMatchPressure): number {
+    const gemLead = clamp((pressure.playerGems - pressure.opponentGems) / Math.max(1, pressure.gemsToWin), -1, 1);
+    // The AI's field filling up means the player is ahead
+    const dangerLead = clamp((pressure.opponentDanger - pressure.playerDanger) / DIFFICULTY_RULES.MAX_DANGER, -1, 1);
+    return clamp(
+        gemLead * DIFFICULTY_RULES.GEM_PRESSURE + dangerLead * (1 - DIFFICULTY_RULES.GEM_PRESSURE),
+        -1,
+        1
+    );
+}
+
+/**
+ * AI behaviour for a base skill, pushed up or down by the match pressure
+ */
+export function calculateAITuning(skill: number, pressure: number = 0): IAITuning {
+    const effective = clamp(skill + pressure * DIFFICULTY_RULES.MAX_SWING, 0, 1);
+    const easiest = DIFFICULTY_RULES.EASIEST_THINK_TIME;
+    const hardest = DIFFICULTY_RULES.HARDEST_THINK_TIME;
+    const lerp = (from: number, to: number): number => Math.round(from + (to - from) * effective);
+
+    return {
+        skill: effective,
+        thinkTime: { min: lerp(easiest.min, hardest.min), max: lerp(easiest.max, hardest.max) },
+        aimError: DIFFICULTY_RULES.MAX_AIM_ERROR * (1 - effective),
+        bankShots: effective >= DIFFICULTY_RULES.BANK_SHOT_SKILL,
+        objectiveTargeting: effective >= DIFFICULTY_RULES.OBJECTIVE_SKILL
+    };
+}
@@ -0,0 +1,140 @@
+/**
+ * GridRules - Pure flood fill rules for matches and floating bubbles
+ * Works on any node type (Bubble objects in the arena, plain cells in the
+ * MatchSimulator) through a neighbor lookup callback.
+ */
+
+import { IHexPosition } from '@/types/ArenaTypes';
+import { getHexNeighbors, isOddRow } from './HexMath';
+
+export const MIN_MATCH_SIZE = 3;
+
+// The objective sits at the grid center; bubbles touching it hold the field up
+export const OBJECTIVE_HEX: IHexPosition = { q: 0, r: 0, s: 0 };
+
+// Screen angle (degrees, y down) from a bubble towards each neighbor slot
+const EVEN_ROW_ATTACH_SLOTS: ReadonlyArray<{ q: number; r: number; angle: number }> = [
+    { q: 0, r: -1, angle: 270 },  // Top
+    { q: 1, r: 0, angle: 0 },     // Right
+    { q: 0, r: 1, angle: 90 },    // Bottom
+    { q: -1, r: 1, angle: 135 },  // Bottom-left
+    { q: -1, r: 0, angle: 180 },  // Left
+    { q: -1, r: -1, angle: 225 }  // Top-left
+];
+
+const ODD_ROW_ATTACH_SLOTS: ReadonlyArray<{ q: number; r: number; angle: number }> = [
+    { q: 0, r: -1, angle: 270 },  // Top
+    { q: 1, r: -1, angle: 315 },  // Top-right
+    { q: 1, r: 0, angle: 0 },     // Right
+    { q: 1, r: 1, angle: 45 },    // Bottom-right
+    { q: 0, r: 1, angle: 90 },    // Bottom
+    { q: -1, r: 0, angle: 180 }   // Left
+];
+
+/**
+ * Breadth-first flood fill from one or more start nodes.
+ * Nodes rejected by accept() are neither included nor expanded.
+ */
+export function floodFill<T>(
+    starts: T[],
+    getNeighbors: (node: T) => T[],
+    accept: (node: T) => boolean = () => true
+): Set<T> {
+    const result = new Set<T>();
+    const visited = new Set<T>();
+    const queue: T[] = [...starts];
+
+    while (queue.length > 0) {
+        const current = queue.shift()!;
+
+        if (visited.has(current)) {
+            continue;
+        }
+        visited.add(current);
+
+        if (!accept(current)) {
+            continue;
+        }
+        result.add(current);
+
+        for (const neighbor of getNeighbors(current)) {
+            if (!visited.has(neighbor)) {
+                queue.push(neighbor);
+            }
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Find the group of same-colored nodes connected to the start node
+ * Mystery bubbles are not wildcards - they must match the color as well.
+ */
+export function findColorGroup<T>(
+    start: T,
+    targetColor: number,
+    getNeighbors: (node: T) => T[],
+    getColor: (node: T) => number | undefined | null
+): Set<T> {
+    return floodFill([start], getNeighbors, node => {
+        const color = getColor(node);
+        return color !== undefined && color !== null && color === targetColor;
+    });
+}
+
+/**
+ * Positions that anchor the field: the objective and its direct neighbors
+ */
+export function getAnchorPositions(): IHexPosition[] {
+    return [OBJECTIVE_HEX, ...getHexNeighbors(OBJECTIVE_HEX)];
+}
+
+/**
+ * Find nodes that are no longer connected to any anchor.
+ * With no anchors left every node is floating.
+ */
+export function findDisconnected<T>(
+    nodes: T[],
+    anchors: T[],
+    getNeighbors: (node: T) => T[]
+): T[] {
+    if (anchors.length === 0) {
+        return [...nodes];
+    }
+
+    const connected = floodFill(anchors, getNeighbors);
+    return nodes.filter(node => !connected.has(node));
+}
+
+/**
+ * Pick the free slot next to a hit bubble that best matches the impact direction.
+ * impactAngle is the screen angle in degrees from the hit bubble to the projectile.
+ */
+export function chooseAttachmentSlot(
+    hit: IHexPosition,
+    impactAngle: number,
+    isOccupied: (hex: IHexPosition) => boolean
+): IHexPosition | null {
+    const slots = isOddRow(hit.r) ? ODD_ROW_ATTACH_SLOTS : EVEN_ROW_ATTACH_SLOTS;
+    let best: IHexPosition | null = null;
+    let minAngleDiff = 360;
+
+    for (const slot of slots) {
+        const neighbor: IHexPosition = { q: hit.q + slot.q, r: hit.r + slot.r, s: 0 };
+        if (isOccupied(neighbor)) {
+            continue;
+        }
+
+        let angleDiff = Math.abs(impactAngle - slot.angle);
+        if (angleDiff > 180) {
+            angleDiff = 360 - angleDiff;
+        }
+        if (angleDiff < minAngleDiff) {
+            minAngleDiff = angleDiff;
+            best = neighbor;
+        }
+    }
+
+    return best;
+}
@@ -0,0 +1,133 @@
+/**
+ * HexMath - Pure hex grid math for the offset bubble grid
+ * No Phaser or scene dependencies, so it can be shared by BubbleGrid and the
+ * headless MatchSimulator. Pixel positions are relative to the grid center.
+ */
+
+import { IHexPosition, IPixelPosition } from '@/types/ArenaTypes';
+
+// Odd rows are offset by half a bubble, so their neighbor offsets differ
+const EVEN_ROW_DIRECTIONS: ReadonlyArray<{ q: number; r: number }> = [
+    { q: 0, r: -1 },   // Top
+    { q: 1, r: 0 },    // Right
+    { q: 0, r: 1 },    // Bottom
+    { q: -1, r: 1 },   // Bottom-left
+    { q: -1, r: 0 },   // Left
+    { q: -1, r: -1 }   // Top-left
+];
+
+const ODD_ROW_DIRECTIONS: ReadonlyArray<{ q: number; r: number }> = [
+    { q: 0, r: -1 },   // Top
+    { q: 1, r: -1 },   // Top-right
+    { q: 1, r: 0 },    // Right
+    { q: 1, r: 1 },    // Bottom-right
+    { q: 0, r: 1 },    // Bottom
+    { q: -1, r: 0 }    // Left
+];
+
+const CUBE_DIRECTIONS: ReadonlyArray<IHexPosition> = [
+    { q: 1, r: 0, s: -1 },
+    { q: 1, r: -1, s: 0 },
+    { q: 0, r: -1, s: 1 },
+    { q: -1, r: 0, s: 1 },
+    { q: -1, r: 1, s: 0 },
+    { q: 0, r: 1, s: -1 }
+];
+
+export function hexKey(q: number, r: number): string {
+    return `${q},${r}`;
+}
+
+export function isOddRow(r: number): boolean {
+    return Math.abs(r) % 2 === 1;
+}
+
+/**
+ * Point-reflect an offset hex through the grid center - the arena as the other launcher sees it
+ */
+export function mirrorHex(q: number, r: number): { q: number; r: number } {
+    // Odd rows sit half a column to the right, so they mirror one column further left.
+    // 0 - x instead of -x keeps the center row and column at 0 rather than -0.
+    return {
+        q: isOddRow(r) ? -q - 1 : 0 - q,
+        r: 0 - r
+    };
+}
+
+/**
+ * Convert a hex position to a pixel offset from the grid center
+ */
+export function hexToPixelOffset(hex: IHexPosition, hexSize: number): IPixelPosition {
+    const rowHeight = hexSize * Math.sqrt(3);
+    const colWidth = hexSize * 2;
+    const xOffset = isOddRow(hex.r) ? hexSize : 0;
+
+    return {
+        x: hex.q * colWidth + xOffset,
+        y: hex.r * rowHeight
+    };
+}
+
+/**
+ * Convert a pixel offset from the grid center to the nearest hex position
+ */
+export function pixelOffsetToHex(x: number, y: number, hexSize: number): IHexPosition {
+    const rowHeight = hexSize * Math.sqrt(3);
+    const colWidth = hexSize * 2;
+
+    const r = Math.round(y / rowHeight);
+    const adjustedX = isOddRow(r) ? x - hexSize : x;
+    const q = Math.round(adjustedX / colWidth);
+
+    return { q, r, s: -q - r };
+}
+
+export function getHexNeighbors(hex: IHexPosition): IHexPosition[] {
+    const directions = isOddRow(hex.r) ? ODD_ROW_DIRECTIONS : EVEN_ROW_DIRECTIONS;
+
+    return directions.map(dir => ({
+        q: hex.q + dir.q,
+        r: hex.r + dir.r,
+        s: 0 // Not used in offset grid
+    }));
+}
+
+export function getHexDistance(a: IHexPosition, b: IHexPosition): number {
+    return (Math.abs(a.q - b.q) + Math.abs(a.r - b.r) + Math.abs(a.s - b.s)) / 2;
+}
+
+export function getHexRing(center: IHexPosition, radius: number): IHexPosition[] {
+    if (radius === 0) {
+        return [center];
+    }
+
+    const results: IHexPosition[] = [];
+    let hex = {
+        q: center.q + CUBE_DIRECTIONS[4].q * radius,
+        r: center.r + CUBE_DIRECTIONS[4].r * radius,
+        s: center.s + CUBE_DIRECTIONS[4].s * radius
+    };
+
+    for (let i = 0; i < 6; i++) {
+        for (let j = 0; j < radius; j++) {
+            results.push({ ...hex });
+            hex = {
+                q: hex.q + CUBE_DIRECTIONS[i].q,
+                r: hex.r + CUBE_DIRECTIONS[i].r,
+                s: hex.s + CUBE_DIRECTIONS[i].s
+            };
+        }
+    }
+
+    return results;
+}
+
+export function getHexSpiral(center: IHexPosition, maxRadius: number): IHexPosition[] {
+    const results: IHexPosition[] = [];
+
+    for (let radius = 0; radius <= maxRadius; radius++) {
+        results.push(...getHexRing(center, radius));
+    }
+
+    return results;
+}
@@ -0,0 +1,53 @@
+/**
+ * LoadoutRules - Pure rules for the pre-match power-up loadout
+ * The player takes a fixed number of power-ups into a match, picked from the
+ * ones their campaign stars have unlocked. Mystery bubbles the player collects
+ * then only drop power-ups from the loadout.
+ */
+
+import type { IPowerUpDefinition, PowerUpId } from '@/types/PowerUpTypes';
+
+export const LOADOUT_RULES = {
+    SIZE: 3 // Power-ups in a loadout - one per inventory slot
+} as const;
+
+/**
+ * Power-ups the player can pick - unlocked by their campaign stars and able to drop at all
+ */
+export function getUnlockedPowerUps(
+    definitions: ReadonlyArray<IPowerUpDefinition>,
+    stars: number
+): IPowerUpDefinition[] {
+    return definitions.filter(definition => definition.weight > 0 && (definition.unlockStars ?? 0) <= stars);
+}
+
+/**
+ * Whether a value is a complete loadout: SIZE different ids
+ */
+export function isValidLoadout(value: unknown): value is PowerUpId[] {
+    return Array.isArray(value) &&
+        value.length === LOADOUT_RULES.SIZE &&
+        value.every(id => typeof id === 'string') &&
+        new Set(value).size === value.length;
+}
+
+/**
+ * Pick or drop a power-up - a pick is ignored once the loadout is full
+ */
+export function toggleLoadoutPick(loadout: ReadonlyArray<PowerUpId>, id: PowerUpId): PowerUpId[] {
+    if (loadout.includes(id)) {
+        return loadout.filter(picked => picked !== id);
+    }
+    return loadout.length < LOADOUT_RULES.SIZE ? [...loadout, id] : [...loadout];
+}
+
+/**
+ * The last loadout if it is still complete and unlocked, otherwise the first unlocked power-ups
+ */
+export function getDefaultLoadout(unlocked: ReadonlyArray<IPowerUpDefinition>, previous?: unknown): PowerUpId[] {
+    const ids = unlocked.map(definition => definition.id);
+    if (isValidLoadout(previous) && previous.every(id => ids.includes(id))) {
+        return [...previous];
+    }
+    return ids.slice(0, LOADOUT_RULES.SIZE);
+}
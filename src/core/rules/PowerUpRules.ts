@@ -0,0 +1,170 @@
+/**
+ * PowerUpRules - Pure rules for the power-ups
+ * A shield holds one charge that absorbs its owner's next field reset, or the next
+ * row push into their danger zone. A magnet shot pulls nearby bubbles of its own
+ * color a cell toward its path and draws loose gems in to it. The catalogue's board
+ * primitives pick their bubbles here. Attacks on the opponent wait out a
+ * counter-window first, so a shield raised in time still blocks them.
+ */
+
+import type { RandomStream } from '@/core/RandomService';
+import type { BubbleColor, IPixelPosition } from '@/types/ArenaTypes';
+import { getHexNeighbors, hexKey } from './HexMath';
+import { VICTORY_RULES } from './VictoryRules';
+
+/**
+ * A grid bubble as the board primitives see it
+ */
+export interface IPowerUpCell extends IPixelPosition {
+    q: number;
+    r: number;
+    color: BubbleColor;
+}
+
+export const POWER_UP_RULES = {
+    SHIELD_DANGER_ROWS: 2, // Rows before the death row that make up the danger zone
+    SHIELD_RAISE_TIME: 1000, // ms the barrier shows over the launcher as a shield goes up
+    MAGNET_RADIUS: 150, // px around the shot that the magnet reaches
+    MAGNET_GEM_SPEED: 900, // px/s loose gems fly toward the shot
+    CHAIN_REACH: 200, // px a chain strike can jump
+    ATTACK_COUNTER_WINDOW: 2000, // ms the target has to raise a shield
+    INK_VISIBLE_FRACTION: 0.3, // Share of the trajectory preview left readable
+    INK_AIM_ERROR: 12 // Degrees an inked AI may miss by
+} as const;
+
+/**
+ * Whether a row, counted from the center on either side, is in its side's danger zone
+ */
+export function isInDangerZone(row: number): boolean {
+    return Math.abs(row) >= VICTORY_RULES.DEATH_ROW_THRESHOLD - POWER_UP_RULES.SHIELD_DANGER_ROWS;
+}
+
+/**
+ * Nearest candidate within reach of the shot, or null when none is close enough
+ */
+export function findMagnetTarget<T extends IPixelPosition>(
+    origin: IPixelPosition,
+    candidates: ReadonlyArray<T>,
+    radius: number = POWER_UP_RULES.MAGNET_RADIUS
+): T | null {
+    let nearest: T | null = null;
+    let nearestDistance = radius;
+    for (const candidate of candidates) {
+        const distance = Math.hypot(candidate.x - origin.x, candidate.y - origin.y);
+        if (distance <= nearestDistance) {
+            nearest = candidate;
+            nearestDistance = distance;
+        }
+    }
+    return nearest;
+}
+
+/**
+ * Cell a magnet pulls a bubble into: the free neighbor nearest the shot, as long as it is
+ * nearer the shot than the bubble already is - null leaves the bubble where it is
+ */
+export function pickMagnetStep<T extends IPixelPosition>(
+    bubble: IPixelPosition,
+    freeNeighbors: ReadonlyArray<T>,
+    shot: IPixelPosition
+): T | null {
+    const nearest = findMagnetTarget(shot, freeNeighbors, Infinity);
+    if (!nearest) {
+        return null;
+    }
+    const distance = (point: IPixelPosition): number => Math.hypot(point.x - shot.x, point.y - shot.y);
+    return distance(nearest) < distance(bubble) ? nearest : null;
+}
+
+/**
+ * Step of at most speed px/s over deltaMs from one point toward another - never past it
+ */
+export function stepToward(
+    from: IPixelPosition,
+    to: IPixelPosition,
+    speed: number,
+    deltaMs: number
+): IPixelPosition {
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const distance = Math.hypot(dx, dy);
+    if (distance === 0) {
+        return { x: 0, y: 0 };
+    }
+    const step = Math.min(distance, speed * deltaMs / 1000);
+    return { x: dx / distance * step, y: dy / distance * step };
+}
+
+/**
+ * Bubbles within radius of the impact - area clear and color convert
+ */
+export function findCellsInRadius<T extends IPowerUpCell>(
+    cells: ReadonlyArray<T>,
+    impact: IPixelPosition,
+    radius: number
+): T[] {
+    return cells.filter(cell => Math.hypot(cell.x - impact.x, cell.y - impact.y) <= radius);
+}
+
+/**
+ * The impact's whole row - line clear
+ */
+export function findCellsInRow<T extends IPowerUpCell>(cells: ReadonlyArray<T>, row: number): T[] {
+    return cells.filter(cell => cell.r === row);
+}
+
+/**
+ * Chain strike: hits the bubble nearest the impact, then jumps to the nearest
+ * unhit bubble of that color within reach, up to jumps times
+ */
+export function findChainCells<T extends IPowerUpCell>(
+    cells: ReadonlyArray<T>,
+    impact: IPixelPosition,
+    jumps: number,
+    reach: number = POWER_UP_RULES.CHAIN_REACH
+): T[] {
+    const first = findMagnetTarget(impact, cells, Infinity);
+    if (!first) {
+        return [];
+    }
+
+    const hit: T[] = [first];
+    let current = first;
+    for (let i = 0; i < jumps; i++) {
+        const next = findMagnetTarget(
+            current,
+            cells.filter(cell => cell.color === first.color && !hit.includes(cell)),
+            reach
+        );
+        if (!next) {
+            break;
+        }
+        hit.push(next);
+        current = next;
+    }
+    return hit;
+}
+
+/**
+ * Whether a strike reaches the objective - it sits at 0,0, so a hit on a
+ * bubble touching it counts
+ */
+export function touchesObjective(cells: ReadonlyArray<{ q: number; r: number }>): boolean {
+    const center = { q: 0, r: 0, s: 0 };
+    const touching = new Set([hexKey(0, 0), ...getHexNeighbors(center).map(hex => hexKey(hex.q, hex.r))]);
+    return cells.some(cell => touching.has(hexKey(cell.q, cell.r)));
+}
+
+/**
+ * Color swap: every queued color becomes a different one, when there is another to pick
+ */
+export function swapQueueColors(
+    colors: ReadonlyArray<BubbleColor>,
+    available: ReadonlyArray<BubbleColor>,
+    rng: RandomStream
+): BubbleColor[] {
+    return colors.map(color => {
+        const others = available.filter(other => other !== color);
+        return others.length > 0 ? rng.pick(others) : color;
+    });
+}
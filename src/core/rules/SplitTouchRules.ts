@@ -0,0 +1,35 @@
+/**
+ * SplitTouchRules - Pure touch routing for two players on one screen
+ * The screen is cut at the arena's middle: each half drives the launcher on its side,
+ * and the top launcher aims downward the way the bottom one aims upward.
+ */
+
+export type TouchSide = 'top' | 'bottom';
+
+export const SPLIT_TOUCH_RULES = {
+    MIN_AIM_ANGLE: 15, // Degrees from the launcher's horizon
+    MAX_AIM_ANGLE: 165
+} as const;
+
+/**
+ * Half of the screen a touch at y belongs to - the middle line goes to the bottom player
+ */
+export function getTouchSide(y: number, screenHeight: number): TouchSide {
+    return y < screenHeight / 2 ? 'top' : 'bottom';
+}
+
+/**
+ * Aim angle for the top launcher toward a touch (0° right, 90° straight down).
+ * Touches behind the launcher snap to the nearest edge of its downward arc.
+ */
+export function getTopLauncherAngle(fromX: number, fromY: number, toX: number, toY: number): number {
+    let angle = Math.atan2(toY - fromY, toX - fromX) * 180 / Math.PI;
+    if (angle < 0) {
+        angle += 360;
+    }
+
+    if (angle > 180) {
+        return angle > 270 ? SPLIT_TOUCH_RULES.MIN_AIM_ANGLE : SPLIT_TOUCH_RULES.MAX_AIM_ANGLE;
+    }
+    return Math.min(SPLIT_TOUCH_RULES.MAX_AIM_ANGLE, Math.max(SPLIT_TOUCH_RULES.MIN_AIM_ANGLE, angle));
+}
@@ -0,0 +1,75 @@
+/**
+ * StateHash - Canonical arena state hashing for online lockstep checks
+ * Each peer sees the arena rotated by 180° (its own launcher at the bottom), so
+ * states are converted to the host's perspective before hashing or comparing.
+ */
+
+import { hashString } from '@/core/RandomService';
+import { IArenaStateDump, IGridCellState } from '@/types/NetworkTypes';
+import { mirrorHex } from './HexMath';
+
+/**
+ * Convert a peer's own view to the host's view. The guest's board is mirrored and
+ * its gem counters swapped; the host's state is returned unchanged. Applying it
+ * twice gives the original state back, so it also converts host state to a guest view.
+ */
+export function toHostPerspective(state: IArenaStateDump, isHost: boolean): IArenaStateDump {
+    if (isHost) {
+        return state;
+    }
+
+    return {
+        cells: state.cells.map(cell => ({ ...cell, ...mirrorHex(cell.q, cell.r) })),
+        playerGems: state.opponentGems,
+        opponentGems: state.playerGems
+    };
+}
+
+function compareCells(a: IGridCellState, b: IGridCellState): number {
+    return a.r - b.r || a.q - b.q;
+}
+
+/**
+ * Order-independent string form of a state - equal states give equal strings
+ */
+export function canonicalizeState(state: IArenaStateDump): string {
+    const cells = [...state.cells]
+        .sort(compareCells)
+        .map(cell => `${cell.q},${cell.r}:${cell.color}:${cell.gem}`);
+
+    return `${cells.join('|')}#${state.playerGems},${state.opponentGems}`;
+}
+
+export function hashState(state: IArenaStateDump): number {
+    return hashString(canonicalizeState(state));
+}
+
+/**
+ * Human-readable differences between two states in the same perspective
+ */
+export function diffStates(local: IArenaStateDump, remote: IArenaStateDump): string[] {
+    const differences: string[] = [];
+    const describe = (cell?: IGridCellState): string =>
+        cell ? `${cell.color.toString(16)}${cell.gem !== 'none' ? ` (${cell.gem} gem)` : ''}` : 'empty';
+
+    const localCells = new Map(local.cells.map(cell => [`${cell.q},${cell.r}`, cell]));
+    const remoteCells = new Map(remote.cells.map(cell => [`${cell.q},${cell.r}`, cell]));
+    const keys = new Set([...localCells.keys(), ...remoteCells.keys()]);
+
+    keys.forEach(key => {
+        const a = localCells.get(key);
+        const b = remoteCells.get(key);
+        if (!a || !b || a.color !== b.color || a.gem !== b.gem) {
+            differences.push(`${key}: local ${describe(a)}, remote ${describe(b)}`);
+        }
+    });
+
+    if (local.playerGems !== remote.playerGems) {
+        differences.push(`playerGems: local ${local.playerGems}, remote ${remote.playerGems}`);
+    }
+    if (local.opponentGems !== remote.opponentGems) {
+        differences.push(`opponentGems: local ${local.opponentGems}, remote ${remote.opponentGems}`);
+    }
+
+    return differences;
+}
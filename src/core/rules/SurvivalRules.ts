@@ -0,0 +1,49 @@
+/**
+ * SurvivalRules - Pure pacing and high score rules for endless survival
+ * Rows come in faster with every push, well past RowSpawnSystem's PvP floor,
+ * so every run ends eventually.
+ */
+
+import { ISurvivalScore } from '@/types/SurvivalTypes';
+
+export const SURVIVAL_RULES = {
+    START_INTERVAL: 10000, // ms before the first push
+    MIN_INTERVAL: 2000, // PvP never goes below 8s
+    INTERVAL_DECAY: 0.95, // Each push makes the next one 5% sooner
+    ROWS_PER_WAVE: 5,
+    HIGH_SCORE_LIMIT: 10
+} as const;
+
+/**
+ * Delay before the next row push, after rowsSpawned pushes
+ */
+export function getSurvivalInterval(rowsSpawned: number): number {
+    const interval = SURVIVAL_RULES.START_INTERVAL * Math.pow(SURVIVAL_RULES.INTERVAL_DECAY, Math.max(0, rowsSpawned));
+    return Math.max(SURVIVAL_RULES.MIN_INTERVAL, Math.round(interval));
+}
+
+/**
+ * Wave number (from 1) after rowsSpawned pushes
+ */
+export function getSurvivalWave(rowsSpawned: number): number {
+    return Math.floor(Math.max(0, rowsSpawned) / SURVIVAL_RULES.ROWS_PER_WAVE) + 1;
+}
+
+/**
+ * Best first - higher score, then the deeper wave, then the earlier run
+ */
+export function compareSurvivalScores(a: ISurvivalScore, b: ISurvivalScore): number {
+    return b.score - a.score || b.wave - a.wave || a.date.localeCompare(b.date);
+}
+
+/**
+ * Add a run to the table - rank is its 0-based place, or -1 if it did not make the cut
+ */
+export function insertHighScore(
+    scores: ReadonlyArray<ISurvivalScore>,
+    entry: ISurvivalScore,
+    limit: number = SURVIVAL_RULES.HIGH_SCORE_LIMIT
+): { scores: ISurvivalScore[]; rank: number } {
+    const sorted = [...scores, entry].sort(compareSurvivalScores).slice(0, limit);
+    return { scores: sorted, rank: sorted.indexOf(entry) };
+}
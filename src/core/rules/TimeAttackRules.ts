@@ -0,0 +1,32 @@
+/**
+ * TimeAttackRules - Pure clock and bonus rules for the score rush
+ * A short solo match scored on points alone: big matches buy extra seconds
+ * and bank shots that land a match score a perfect shot bonus.
+ */
+
+export const TIME_ATTACK_RULES = {
+    DURATION: 90000, // ms on the clock at the start
+    BONUS_MATCH_SIZE: 5, // Smallest match that buys time
+    BONUS_SECONDS_PER_BUBBLE: 2, // Seconds per bubble from BONUS_MATCH_SIZE up
+    MAX_BONUS_SECONDS: 10, // Cap for a single match
+    POINTS_PER_BONUS_SECOND: 10,
+    PERFECT_SHOT_POINTS: 50
+} as const;
+
+/**
+ * Seconds added to the clock for a match of matchSize bubbles
+ */
+export function getTimeBonusSeconds(matchSize: number): number {
+    if (matchSize < TIME_ATTACK_RULES.BONUS_MATCH_SIZE) {
+        return 0;
+    }
+    const bubbles = matchSize - TIME_ATTACK_RULES.BONUS_MATCH_SIZE + 1;
+    return Math.min(TIME_ATTACK_RULES.MAX_BONUS_SECONDS, bubbles * TIME_ATTACK_RULES.BONUS_SECONDS_PER_BUBBLE);
+}
+
+/**
+ * A perfect shot comes off at least one wall and lands a match
+ */
+export function isPerfectShot(shot: { matchSize: number; bounces: number }): boolean {
+    return shot.bounces > 0 && shot.matchSize >= 3;
+}
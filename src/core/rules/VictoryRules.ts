@@ -0,0 +1,106 @@
+/**
+ * VictoryRules - Pure win/loss and reset rules from the GDD
+ * Shared by GameStateManager, GameFlowManager, ResetSystem and the headless
+ * MatchSimulator so every path decides a match the same way.
+ */
+
+export const VICTORY_RULES = {
+    GEMS_TO_WIN: 15,
+    GAME_DURATION: 180000, // 3 minutes
+    SUDDEN_DEATH_TIME: 150000, // 2:30
+    DEATH_ROW_THRESHOLD: 10, // Rows from the center before a side is full
+    ROWS_TO_CLEAR: 4,
+    RESET_GEM_LOSS: 0.5, // 50%
+    MIN_GEM_LOSS: 2,
+    MAX_GEM_LOSS: 7
+} as const;
+
+export type MatchSide = 'player' | 'opponent';
+
+export interface IMatchOutcome {
+    winner: MatchSide | 'tie';
+    reason: string;
+}
+
+/**
+ * Per-match overrides of the GDD defaults (levels, practice and other modes)
+ */
+export interface IMatchRules {
+    gemsToWin: number;
+    gameDuration: number; // ms
+    suddenDeathTime: number; // ms since match start
+}
+
+// Rule value that is never reached - JSON-safe, unlike Infinity, so it survives snapshots
+export const UNLIMITED = Number.MAX_SAFE_INTEGER;
+
+export const DEFAULT_MATCH_RULES: Readonly<IMatchRules> = {
+    gemsToWin: VICTORY_RULES.GEMS_TO_WIN,
+    gameDuration: VICTORY_RULES.GAME_DURATION,
+    suddenDeathTime: VICTORY_RULES.SUDDEN_DEATH_TIME
+};
+
+/**
+ * Gems lost on a partial reset: 50% of the stack, at least 2 and at most 7
+ */
+export function calculateResetGemLoss(currentGems: number): number {
+    const gemsToLose = Math.floor(currentGems * VICTORY_RULES.RESET_GEM_LOSS);
+    return Math.min(
+        Math.max(gemsToLose, currentGems > 0 ? VICTORY_RULES.MIN_GEM_LOSS : 0),
+        VICTORY_RULES.MAX_GEM_LOSS
+    );
+}
+
+export function checkGemVictory(
+    playerGems: number,
+    opponentGems: number,
+    gemsToWin: number = VICTORY_RULES.GEMS_TO_WIN
+): MatchSide | null {
+    if (playerGems >= gemsToWin) {
+        return 'player';
+    }
+    if (opponentGems >= gemsToWin) {
+        return 'opponent';
+    }
+    return null;
+}
+
+/**
+ * Decide a match when the clock runs out: gems first, then score
+ */
+export function resolveTimeUp(
+    playerGems: number,
+    opponentGems: number,
+    playerScore: number = 0,
+    opponentScore: number = 0
+): IMatchOutcome {
+    if (playerGems !== opponentGems) {
+        return { winner: playerGems > opponentGems ? 'player' : 'opponent', reason: 'time-gems' };
+    }
+    if (playerScore !== opponentScore) {
+        return { winner: playerScore > opponentScore ? 'player' : 'opponent', reason: 'time-score' };
+    }
+    return { winner: 'tie', reason: 'time-tie' };
+}
+
+/**
+ * A full field only costs a reset - unless the match is in sudden death
+ */
+export function resolveFieldFull(isPlayerFieldFull: boolean, isInSuddenDeath: boolean): IMatchOutcome | null {
+    if (!isInSuddenDeath) {
+        return null;
+    }
+    return { winner: isPlayerFieldFull ? 'opponent' : 'player', reason: 'sudden-death' };
+}
+
+export function isPastDeathRow(row: number): boolean {
+    return Math.abs(row) >= VICTORY_RULES.DEATH_ROW_THRESHOLD;
+}
+
+export function isSuddenDeath(elapsed: number, suddenDeathTime: number = VICTORY_RULES.SUDDEN_DEATH_TIME): boolean {
+    return elapsed >= suddenDeathTime;
+}
+
+export function isTimeUp(elapsed: number, gameDuration: number = VICTORY_RULES.GAME_DURATION): boolean {
+    return elapsed >= gameDuration;
+}
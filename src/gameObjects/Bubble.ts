@@ -2,6 +2,7 @@ import { BubbleColor, IHexPosition } from '@/types/ArenaTypes';
 import { BUBBLE_CONFIG, Z_LAYERS } from '@/config/ArenaConfig';
 import { HD_SCALE } from '@/config/GameConfig';
 import { BubbleTextureCache } from '@/systems/rendering/BubbleTextureCache';
+import { RandomService } from '@/core/RandomService';
 
 export class Bubble extends Phaser.GameObjects.Container {
     private bubbleSprite: Phaser.GameObjects.Arc | Phaser.GameObjects.Image;
@@ -14,6 +15,8 @@ export class Bubble extends Phaser.GameObjects.Container {
     private gridPosition: IHexPosition | null = null;
     private color: BubbleColor;
     private isSpecial: boolean = false;
+    private blocker: boolean = false;
+    private blockerOverlay?: Phaser.GameObjects.Graphics;
     private pooled: boolean = false;
     private shooter: 'player' | 'ai' | 'none' = 'none';
     private idleAnimation?: Phaser.Tweens.Tween;
@@ -432,6 +435,33 @@ export class Bubble extends Phaser.GameObjects.Container {
         return this.isSpecial;
     }
 
+    /**
+     * Blockers never match - they only leave the grid by falling when cut loose
+     */
+    public setBlocker(blocker: boolean): void {
+        this.blocker = blocker;
+
+        if (blocker && !this.blockerOverlay) {
+            const radius = BUBBLE_CONFIG.SIZE / 2;
+            const mark = radius * 0.45;
+            this.blockerOverlay = this.scene.add.graphics();
+            this.blockerOverlay.fillStyle(0x4a4a4a, 0.9);
+            this.blockerOverlay.fillCircle(0, 0, radius);
+            this.blockerOverlay.lineStyle(2 * HD_SCALE, 0x222222, 1);
+            this.blockerOverlay.strokeCircle(0, 0, radius);
+            this.blockerOverlay.lineBetween(-mark, -mark, mark, mark);
+            this.blockerOverlay.lineBetween(-mark, mark, mark, -mark);
+            this.add(this.blockerOverlay);
+        } else if (!blocker && this.blockerOverlay) {
+            this.blockerOverlay.destroy();
+            this.blockerOverlay = undefined;
+        }
+    }
+
+    public isBlocker(): boolean {
+        return this.blocker;
+    }
+
     private addGlow(): void {
         // No scale animation - just visual glow
         // Add pulsing glow ring behind bubble
@@ -668,6 +698,7 @@ export class Bubble extends Phaser.GameObjects.Container {
         this.setVisible(true);
         this.gridPosition = null;
         this.isSpecial = false;
+        this.setBlocker(false);
         this.pooled = false;
         
         // Reset gem state
@@ -703,6 +734,6 @@ export class Bubble extends Phaser.GameObjects.Container {
             BubbleColor.YELLOW,
             BubbleColor.PURPLE
         ];
-        return colors[Math.floor(Math.random() * colors.length)];
+        return RandomService.getInstance().stream('board').pick(colors);
     }
 }
\ No newline at end of file
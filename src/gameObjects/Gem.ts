@@ -1,5 +1,6 @@
 import { Scene } from 'phaser';
 import { Z_LAYERS } from '@/config/ArenaConfig';
+import { RandomService } from '@/core/RandomService';
 
 export enum GemType {
     DIAMOND = 'diamond',
@@ -219,7 +220,7 @@ export class Gem extends Phaser.GameObjects.Container {
     
     private getRandomType(): GemType {
         const types = Object.values(GemType);
-        return types[Math.floor(Math.random() * types.length)];
+        return RandomService.getInstance().stream('gems').pick(types);
     }
     
     public getType(): GemType {
@@ -2,7 +2,9 @@ import { ArenaZone, BubbleColor } from '@/types/ArenaTypes';
 import { Z_LAYERS } from '@/config/ArenaConfig';
 import { HD_SCALE } from '@/config/GameConfig';
 import { Bubble } from './Bubble';
-import { PowerUpType } from '@/systems/powerups/PowerUpManager';
+import { getPowerUpDefinition } from '@/powerups';
+import { PowerUpId } from '@/types/PowerUpTypes';
+import { shakeCamera } from '@/utils/motion';
 
 // Arsenal slot interface for integrated weapon system
 interface ArsenalSlot {
@@ -12,7 +14,7 @@ interface ArsenalSlot {
     countText: Phaser.GameObjects.Text;
     energyConduit?: Phaser.GameObjects.Graphics;
     position: { x: number, y: number };
-    powerUpType: PowerUpType | undefined;
+    powerUpType: PowerUpId | undefined;
     count: number;
     isActive: boolean;
     cooldownOverlay?: Phaser.GameObjects.Graphics;
@@ -71,7 +73,7 @@ export class Launcher extends Phaser.GameObjects.Container {
     private arsenalSlots: ArsenalSlot[] = [];
     private weaponRing?: Phaser.GameObjects.Container;
     private energyConduits: Phaser.GameObjects.Graphics | undefined;
-    private activePowerUp?: PowerUpType;
+    private activePowerUp?: PowerUpId;
     private arsenalContainer?: Phaser.GameObjects.Container;
     
     // === ANIMATION SYSTEMS ===
@@ -87,6 +89,7 @@ export class Launcher extends Phaser.GameObjects.Container {
     private currentTheme: any;
     private isAiming: boolean = false;
     private isOpponent: boolean;
+    private isArsenalPlayable: boolean; // Someone on this device fires the arsenal
     
     // === ENHANCED STATE ===
     private launcherState: 'idle' | 'aiming' | 'charging' | 'ready' | 'cooldown' = 'idle';
@@ -110,23 +113,12 @@ export class Launcher extends Phaser.GameObjects.Container {
     ];
     private readonly SLOT_SIZE = 25 * HD_SCALE;  // Further reduced for better spacing
     
-    // Power-up icons
-    private powerUpIcons: Record<PowerUpType, string> = {
-        [PowerUpType.RAINBOW]: '🌈',
-        [PowerUpType.BOMB]: '💣',
-        [PowerUpType.LIGHTNING]: '⚡',
-        [PowerUpType.FREEZE]: '❄️',
-        [PowerUpType.LASER]: '🎯',
-        [PowerUpType.MULTIPLIER]: '✨',
-        [PowerUpType.SHIELD]: '🛡️',
-        [PowerUpType.MAGNET]: '🧲'
-    };
-
     constructor(scene: Phaser.Scene, x: number, y: number, zone: ArenaZone) {
         super(scene, x, y);
         
         this.zone = zone;
         this.isOpponent = (zone === ArenaZone.OPPONENT);
+        this.isArsenalPlayable = !this.isOpponent;
         
         // MOBILE-FIRST POSITIONING: Optimized for 375x667px mobile screens
         this.BUBBLE_POSITION_Y = -28 * HD_SCALE;  // Main chamber position
@@ -1315,7 +1307,7 @@ export class Launcher extends Phaser.GameObjects.Container {
         
         // Screen shake for powerful shots
         if (this.powerLevel > 70) {
-            this.scene.cameras.main.shake(150, 0.01);
+            shakeCamera(this.scene, 150, 0.01);
         }
     }
 
@@ -1614,6 +1606,64 @@ export class Launcher extends Phaser.GameObjects.Container {
         chamberGraphics.setDepth(-1); // Behind slots
     }
     
+    /**
+     * Tap (or hover) a slot to fire what it holds
+     */
+    private setupArsenalSlotInput(container: Phaser.GameObjects.Container, index: number): void {
+        const touchPadding = 6;
+        container.setInteractive(
+            new Phaser.Geom.Rectangle(
+                -this.SLOT_SIZE/2 - touchPadding,
+                -this.SLOT_SIZE/2 - touchPadding,
+                this.SLOT_SIZE + touchPadding * 2,
+                this.SLOT_SIZE + touchPadding * 2
+            ),
+            Phaser.Geom.Rectangle.Contains
+        );
+
+        // Add hover/press effects
+        container.on('pointerdown', () => {
+            this.activateArsenalSlot(index);
+        });
+
+        container.on('pointerover', () => {
+            const baseScale = this.isOpponent ? -1 : 1;
+            this.scene.tweens.add({
+                targets: container,
+                scaleX: 1.1,
+                scaleY: 1.1 * baseScale,
+                duration: 200,
+                ease: 'Power2'
+            });
+        });
+
+        container.on('pointerout', () => {
+            const baseScale = this.isOpponent ? -1 : 1;
+            this.scene.tweens.add({
+                targets: container,
+                scaleX: 1.0,
+                scaleY: 1.0 * baseScale,
+                duration: 200,
+                ease: 'Power2'
+            });
+        });
+    }
+
+    /**
+     * Hand the top launcher's arsenal to a second player on this device - its slots
+     * take taps, and activations go out as 'activate-opponent-power-up'
+     */
+    public enableArsenalControls(): void {
+        if (!this.isOpponent || this.isArsenalPlayable) {
+            return;
+        }
+        this.isArsenalPlayable = true;
+        this.arsenalSlots.forEach((slot, index) => {
+            this.setupArsenalSlotInput(slot.container, index);
+            slot.container.setData('uiControl', true); // Slot taps are not shots
+        });
+    }
+
     private createArsenalSlot(position: { x: number, y: number }, index: number): ArsenalSlot {
         const container = this.scene.add.container(position.x, position.y);
         
@@ -1659,45 +1709,9 @@ export class Launcher extends Phaser.GameObjects.Container {
         
         container.add([background, icon, countText]);
         
-        // Make interactive only for player
+        // Make interactive only for player - a second player on this device enables their own
         if (!this.isOpponent) {
-            const touchPadding = 6;
-            container.setInteractive(
-                new Phaser.Geom.Rectangle(
-                    -this.SLOT_SIZE/2 - touchPadding,
-                    -this.SLOT_SIZE/2 - touchPadding,
-                    this.SLOT_SIZE + touchPadding * 2,
-                    this.SLOT_SIZE + touchPadding * 2
-                ),
-                Phaser.Geom.Rectangle.Contains
-            );
-            
-            // Add hover/press effects
-            container.on('pointerdown', () => {
-                this.activateArsenalSlot(index);
-            });
-            
-            container.on('pointerover', () => {
-                const baseScale = this.isOpponent ? -1 : 1;
-                this.scene.tweens.add({
-                    targets: container,
-                    scaleX: 1.1,
-                    scaleY: 1.1 * baseScale,
-                    duration: 200,
-                    ease: 'Power2'
-                });
-            });
-            
-            container.on('pointerout', () => {
-                const baseScale = this.isOpponent ? -1 : 1;
-                this.scene.tweens.add({
-                    targets: container,
-                    scaleX: 1.0,
-                    scaleY: 1.0 * baseScale,
-                    duration: 200,
-                    ease: 'Power2'
-                });
-            });
+            this.setupArsenalSlotInput(container, index);
         }
         
         return {
@@ -1842,7 +1856,7 @@ export class Launcher extends Phaser.GameObjects.Container {
         }
     }
     
-    private addPowerUpToArsenal(type: PowerUpType): void {
+    private addPowerUpToArsenal(type: PowerUpId): void {
         // Check if we already have this power-up
         let slot = this.arsenalSlots.find(s => s.powerUpType === type);
         
@@ -1857,7 +1871,7 @@ export class Launcher extends Phaser.GameObjects.Container {
             if (slot) {
                 slot.powerUpType = type;
                 slot.count = 1;
-                slot.icon.setText(this.powerUpIcons[type]);
+                slot.icon.setText(getPowerUpDefinition(type)?.icon ?? '');
                 
                 // Collection animation
                 this.showPowerUpCollectionEffect(slot);
@@ -1879,7 +1893,69 @@ export class Launcher extends Phaser.GameObjects.Container {
         // Activate power-up
         this.activatePowerUp(slot);
     }
+
+    /**
+     * Spend one power-up of this type from the arsenal - the AI's way to fire them.
+     * Returns false when there is none left.
+     */
+    public useArsenalPowerUp(type: PowerUpId): boolean {
+        const slot = this.arsenalSlots.find(s => s.powerUpType === type && s.count > 0);
+        if (!slot) {
+            return false;
+        }
+        this.activatePowerUp(slot);
+        return true;
+    }
     
+    /**
+     * Arsenal contents per slot, for snapshots
+     */
+    public getArsenalState(): Array<{ type: PowerUpId | null; count: number }> {
+        return this.arsenalSlots.map(slot => ({
+            type: slot.powerUpType ?? null,
+            count: slot.powerUpType ? slot.count : 0
+        }));
+    }
+
+    /**
+     * World position of the middle arsenal slot, for pointing the player at it
+     */
+    public getArsenalCenter(): { x: number; y: number } {
+        const positions = this.isOpponent ? this.ARSENAL_POSITIONS_OPPONENT : this.ARSENAL_POSITIONS_PLAYER;
+        const middle = positions[Math.floor(positions.length / 2)];
+        return { x: this.x + middle.x, y: this.y + middle.y };
+    }
+
+    public getActivePowerUp(): PowerUpId | null {
+        return this.activePowerUp ?? null;
+    }
+
+    /**
+     * Refill the arsenal from a snapshot, without collection effects
+     */
+    public restoreArsenalState(
+        slots: Array<{ type: PowerUpId | null; count: number }>,
+        activePowerUp: PowerUpId | null
+    ): void {
+        this.arsenalSlots.forEach((slot, index) => {
+            const saved = slots[index];
+            if (saved && saved.type && saved.count > 0) {
+                slot.powerUpType = saved.type;
+                slot.count = saved.count;
+                slot.icon.setText(getPowerUpDefinition(saved.type)?.icon ?? '');
+                slot.countText.setText(saved.count > 1 ? `x${saved.count}` : '');
+            } else {
+                slot.powerUpType = undefined;
+                slot.count = 0;
+                slot.icon.setText('');
+                slot.countText.setText('');
+            }
+            slot.isActive = false;
+        });
+
+        this.activePowerUp = activePowerUp ?? undefined;
+    }
+
     private activatePowerUp(slot: ArsenalSlot): void {
         if (!slot.powerUpType) return;
         
@@ -1889,10 +1965,12 @@ export class Launcher extends Phaser.GameObjects.Container {
         // Set active power-up
         this.activePowerUp = slot.powerUpType;
         
-        // Emit activation event
-        this.scene.events.emit('activate-power-up', {
-            type: slot.powerUpType
-        });
+        // Emit activation event - the power-up system listens for it, the AI applies its own
+        if (this.isArsenalPlayable) {
+            this.scene.events.emit(this.isOpponent ? 'activate-opponent-power-up' : 'activate-power-up', {
+                type: slot.powerUpType
+            });
+        }
         
         // Decrease count
         slot.count--;
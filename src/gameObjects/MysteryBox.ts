@@ -210,7 +210,11 @@ export class MysteryBox extends Phaser.GameObjects.Container {
             [PowerUpType.FREEZE]: '❄️ FREEZE!',
             [PowerUpType.MULTIPLIER]: '🎱 MULTI-SHOT!',
             [PowerUpType.SHIELD]: '🛡️ SHIELD!',
-            [PowerUpType.MAGNET]: '🧲 MAGNET!'
+            [PowerUpType.MAGNET]: '🧲 MAGNET!',
+            [PowerUpType.JUNK_ROWS]: '🧱 JUNK ROWS!',
+            [PowerUpType.INK]: '🦑 INK!',
+            [PowerUpType.COLOR_SWAP]: '🔀 COLOR SWAP!',
+            [PowerUpType.JAM]: '⛓️ JAM!'
         };
         
         const revealText = this.scene.add.text(this.x, this.y, powerUpNames[this.powerUpType] || 'POWER-UP!', {
@@ -1,8 +1,11 @@
 import { Scene } from 'phaser';
 import { Bubble } from './Bubble';
-import { PowerUpType } from '@/systems/powerups/PowerUpManager';
+import { PowerUpLoader } from '@/systems/powerups/PowerUpLoader';
+import { getPowerUpDefinition, rollPowerUp } from '@/powerups';
 import { Z_LAYERS } from '@/config/ArenaConfig';
 import { HD_SCALE } from '@/config/GameConfig';
+import { RandomService } from '@/core/RandomService';
+import { PowerUpId, PowerUpType } from '@/types/PowerUpTypes';
 
 /**
  * Mystery Bubble that cycles through different power-ups
@@ -10,39 +13,15 @@ import { HD_SCALE } from '@/config/GameConfig';
  */
 export class MysteryBubble extends Bubble {
     private powerUpIcon!: Phaser.GameObjects.Text;
-    private currentPowerUp: PowerUpType;
+    private currentPowerUp: PowerUpId;
     private powerUpCycleTimer?: Phaser.Time.TimerEvent;
     
-    // Power-up rotation sequence
-    private powerUpSequence: PowerUpType[] = [
-        PowerUpType.RAINBOW,
-        PowerUpType.BOMB,
-        PowerUpType.LIGHTNING,
-        PowerUpType.FREEZE,
-        PowerUpType.LASER,
-        PowerUpType.MULTIPLIER
-    ];
-    private sequenceIndex: number = 0;
-    
-    // Power-up icons and colors
-    private powerUpIcons: Record<PowerUpType, { icon: string; color: number }> = {
-        [PowerUpType.RAINBOW]: { icon: '🌈', color: 0xFF69B4 },
-        [PowerUpType.BOMB]: { icon: '💣', color: 0xFF4500 },
-        [PowerUpType.LIGHTNING]: { icon: '⚡', color: 0xFFD700 },
-        [PowerUpType.FREEZE]: { icon: '❄️', color: 0x00CED1 },
-        [PowerUpType.LASER]: { icon: '🎯', color: 0x00FF00 },
-        [PowerUpType.MULTIPLIER]: { icon: '✨', color: 0x9370DB },
-        [PowerUpType.SHIELD]: { icon: '🛡️', color: 0x4169E1 },
-        [PowerUpType.MAGNET]: { icon: '🧲', color: 0xDC143C }
-    };
-    
     constructor(scene: Scene, x: number, y: number) {
         // Use random color as base
         super(scene, x, y, Bubble.getRandomColor());
         
         // Start with a random power-up
-        this.sequenceIndex = Math.floor(Math.random() * this.powerUpSequence.length);
-        this.currentPowerUp = this.powerUpSequence[this.sequenceIndex];
+        this.currentPowerUp = this.rollPowerUp();
         
         this.createMysteryVisuals();
         this.startPowerUpCycle();
@@ -80,8 +59,7 @@ export class MysteryBubble extends Bubble {
     }
     
     private updatePowerUpDisplay(): void {
-        const config = this.powerUpIcons[this.currentPowerUp];
-        this.powerUpIcon.setText(config.icon);
+        this.powerUpIcon.setText(this.getPowerUpDisplay().icon);
         
         // NO GLOW UPDATE - Removed
         
@@ -100,32 +78,54 @@ export class MysteryBubble extends Bubble {
             this.cyclePowerUp();
             // Schedule next cycle
             this.powerUpCycleTimer = this.scene.time.delayedCall(
-                Phaser.Math.Between(2000, 3000),
+                RandomService.getInstance().stream('mystery').between(2000, 3000),
                 cycleFunction
             );
         };
         
         // Start the first cycle
         this.powerUpCycleTimer = this.scene.time.delayedCall(
-            Phaser.Math.Between(2000, 3000),
+            RandomService.getInstance().stream('mystery').between(2000, 3000),
             cycleFunction
         );
     }
     
     private cyclePowerUp(): void {
-        // Move to next power-up in sequence
-        this.sequenceIndex = (this.sequenceIndex + 1) % this.powerUpSequence.length;
-        this.currentPowerUp = this.powerUpSequence[this.sequenceIndex] || PowerUpType.RAINBOW;
+        // Roll the next power-up from the catalogue weights
+        this.currentPowerUp = this.rollPowerUp();
         this.updatePowerUpDisplay();
     }
     
+    private rollPowerUp(): PowerUpId {
+        return rollPowerUp(RandomService.getInstance().stream('mystery'))?.id ?? PowerUpType.BOMB;
+    }
+
+    private getPowerUpDisplay(): { icon: string; color: number } {
+        const definition = getPowerUpDefinition(this.currentPowerUp);
+        return definition
+            ? { icon: definition.icon, color: PowerUpLoader.toColor(definition) }
+            : { icon: '❓', color: 0xFFFFFF };
+    }
+
     /**
      * Get the current power-up type
      */
-    public getCurrentPowerUp(): PowerUpType {
+    public getCurrentPowerUp(): PowerUpId {
         return this.currentPowerUp;
     }
     
+    /**
+     * Show a specific power-up - the cycle continues from there
+     */
+    public setCurrentPowerUp(type: PowerUpId): void {
+        if (!getPowerUpDefinition(type)) {
+            return;
+        }
+
+        this.currentPowerUp = type;
+        this.updatePowerUpDisplay();
+    }
+
     /**
      * Override to identify as mystery bubble
      */
@@ -139,8 +139,11 @@ export class MysteryBubble extends Bubble {
     public collectPowerUp(isPlayerShot: boolean = true): void {
         // console.log(`Collecting power-up: ${this.currentPowerUp} at position (${this.x}, ${this.y}) for ${isPlayerShot ? 'player' : 'opponent'}`);
         
+        // The collector's loadout has the last word - PowerUpActivationSystem may swap the drop here
+        this.scene.events.emit('mystery-collecting', { bubble: this, isPlayer: isPlayerShot });
+
         // Create visual feedback at bubble position
-        const config = this.powerUpIcons[this.currentPowerUp];
+        const config = this.getPowerUpDisplay();
         
         // Create large icon that floats up and fades - LARGER
         const floatingIcon = this.scene.add.text(this.x, this.y, config.icon, {
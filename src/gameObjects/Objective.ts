@@ -1,6 +1,7 @@
 import { IObjectiveConfig } from '@/types/ArenaTypes';
 import { Z_LAYERS } from '@/config/ArenaConfig';
 import { AnimationBatcher } from '@/systems/visual/AnimationBatcher';
+import { shakeCamera } from '@/utils/motion';
 
 export class Objective extends Phaser.GameObjects.Container {
     private chestBody: Phaser.GameObjects.Rectangle;
@@ -442,6 +443,13 @@ export class Objective extends Phaser.GameObjects.Container {
         return this.health;
     }
 
+    /**
+     * Set health directly without hit effects (snapshot restore)
+     */
+    public setHealth(health: number): void {
+        this.health = Math.max(0, Math.min(health, this.maxHealth));
+    }
+
     public getMaxHealth(): number {
         return this.maxHealth;
     }
@@ -519,7 +527,7 @@ export class Objective extends Phaser.GameObjects.Container {
         });
         
         // Shake effect
-        this.scene.cameras.main.shake(300, 0.01);
+        shakeCamera(this.scene, 300, 0.01);
         
         // Scale pulse
         this.scene.tweens.add({
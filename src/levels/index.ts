@@ -0,0 +1,34 @@
+/**
+ * Bundled levels - every *.json file in this folder is picked up at build time,
+ * so new boards need no code changes. Invalid files are skipped with a warning.
+ */
+
+import '@/powerups'; // Mystery cells are checked against the power-up catalogue
+import { LevelLoader } from '@/systems/levels/LevelLoader';
+import { ILevelDefinition } from '@/types/LevelTypes';
+
+const files = import.meta.glob<unknown>('./*.json', { eager: true, import: 'default' });
+
+const levels = new Map<string, ILevelDefinition>();
+Object.entries(files).forEach(([path, data]) => {
+    const level = LevelLoader.parse(data, path);
+    if (!level) {
+        return;
+    }
+    if (levels.has(level.id)) {
+        console.warn(`Levels: Duplicate level id "${level.id}" in ${path} - skipped`);
+        return;
+    }
+    levels.set(level.id, level);
+});
+
+export function getLevel(id: string): ILevelDefinition | undefined {
+    return levels.get(id);
+}
+
+/**
+ * All levels, ordered by id
+ */
+export function getLevels(): ILevelDefinition[] {
+    return [...levels.values()].sort((a, b) => a.id.localeCompare(b.id));
+}
@@ -4,7 +4,13 @@ import { BootScene } from '@scenes/BootScene';
 import { PreloadScene } from '@scenes/PreloadScene';
 import { MenuScene } from '@scenes/MenuScene';
 import { ThemeSelectScene } from '@scenes/ThemeSelectScene';
+import { LoadoutScene } from '@scenes/LoadoutScene';
 import { GameScene } from '@scenes/GameScene';
+import { ReplayScene } from '@scenes/ReplayScene';
+import { EditorScene } from '@scenes/EditorScene';
+import { SettingsScene } from '@scenes/SettingsScene';
+import { TutorialScene } from '@scenes/TutorialScene';
+import { WorldMapScene } from '@scenes/WorldMapScene';
 import { CapacitorOptimizations } from '@utils/capacitorOptimizations';
 import { Capacitor } from '@capacitor/core';
 
@@ -58,7 +64,13 @@ class BubbleBattleRoyale {
             PreloadScene,
             MenuScene,
             ThemeSelectScene,
-            GameScene
+            LoadoutScene,
+            GameScene,
+            ReplayScene,
+            EditorScene,
+            SettingsScene,
+            TutorialScene,
+            WorldMapScene
         ];
         console.log('Scenes prepared:', scenes.map(s => s.name));
 
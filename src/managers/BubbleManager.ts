@@ -2,10 +2,11 @@ import { Scene } from 'phaser';
 import { BaseGameSystem } from '@/core/SystemRegistry';
 import { Bubble } from '@/gameObjects/Bubble';
 import { MysteryBubble } from '@/gameObjects/MysteryBubble';
-import { BubbleColor, IHexPosition } from '@/types/ArenaTypes';
+import { BubbleColor, IFieldPosition } from '@/types/ArenaTypes';
 import { BUBBLE_CONFIG, Z_LAYERS } from '@/config/ArenaConfig';
 import { eventBus } from '@/core/EventBus';
 import { gameState } from '@/core/GameStateManager';
+import { RandomService } from '@/core/RandomService';
 
 /**
  * Manages all bubble creation, pooling, and lifecycle
@@ -160,20 +161,22 @@ export class BubbleManager extends BaseGameSystem {
     }
     
     /**
-     * Create initial field pattern with better color clustering for matches
+     * Create initial field pattern with better color clustering for matches.
+     * Colors, gems, mystery and blocker flags set on a position (level files) are kept as-is.
      */
     public createFieldPattern(
-        positions: Array<{ hexPos: IHexPosition; pixelPos: { x: number; y: number } }>,
+        positions: IFieldPosition[],
         mysteryRatio: number = this.MYSTERY_BUBBLE_RATIO
     ): Bubble[] {
         const bubbles: Bubble[] = [];
         const totalBubbles = positions.length;
         const mysteryCount = Math.floor(totalBubbles * mysteryRatio);
+        const rng = RandomService.getInstance().stream('board');
         
         // Randomly select positions for mystery bubbles
         const mysteryIndices = new Set<number>();
         while (mysteryIndices.size < mysteryCount) {
-            mysteryIndices.add(Math.floor(Math.random() * totalBubbles));
+            mysteryIndices.add(Math.floor(rng.next() * totalBubbles));
         }
         
         // Create a color map to encourage clustering
@@ -190,8 +193,21 @@ export class BubbleManager extends BaseGameSystem {
         positions.forEach((pos, index) => {
             let bubble: Bubble;
             
-            if (mysteryIndices.has(index)) {
-                bubble = this.createMysteryBubble(pos.pixelPos.x, pos.pixelPos.y);
+            if (pos.mystery || mysteryIndices.has(index)) {
+                const mystery = this.createMysteryBubble(pos.pixelPos.x, pos.pixelPos.y);
+                if (pos.color !== undefined) {
+                    mystery.setColor(pos.color);
+                }
+                if (typeof pos.mystery === 'string') {
+                    mystery.setCurrentPowerUp(pos.mystery);
+                }
+                bubble = mystery;
+            } else if (pos.color !== undefined) {
+                bubble = this.getBubble(pos.pixelPos.x, pos.pixelPos.y, pos.color);
+                if (pos.gem && pos.gem !== 'none') {
+                    bubble.setGem(true, pos.gem);
+                }
+                colorMap.set(`${pos.hexPos.q},${pos.hexPos.r}`, pos.color);
             } else {
                 // Determine color with clustering
                 let color: BubbleColor;
@@ -212,14 +228,14 @@ export class BubbleManager extends BaseGameSystem {
                 }
                 
                 // 60% chance to match a neighbor's color if available
-                if (neighborColors.length > 0 && Math.random() < 0.6) {
+                if (neighborColors.length > 0 && rng.chance(0.6)) {
                     // Pick a random neighbor's color
-                    color = neighborColors[Math.floor(Math.random() * neighborColors.length)];
+                    color = rng.pick(neighborColors);
                 } else {
                     // Use weighted random for better distribution
                     // Favor fewer colors for more matches
-                    const weightedColors = availableColors.slice(0, 3 + Math.floor(Math.random() * 2));
-                    color = weightedColors[Math.floor(Math.random() * weightedColors.length)];
+                    const weightedColors = availableColors.slice(0, 3 + rng.between(0, 1));
+                    color = rng.pick(weightedColors);
                 }
                 
                 colorMap.set(key, color);
@@ -232,11 +248,15 @@ export class BubbleManager extends BaseGameSystem {
                 
                 // Add gems based on theme
                 const theme = gameState().getState().settings.theme;
-                if (theme === 'space' && Math.random() < 0.2) {
-                    bubble.setGem(true, Math.random() < 0.1 ? 'golden' : 'normal');
+                if (theme === 'space' && rng.chance(0.2)) {
+                    bubble.setGem(true, rng.chance(0.1) ? 'golden' : 'normal');
                 }
             }
             
+            if (pos.blocker) {
+                bubble.setBlocker(true);
+            }
+
             bubble.setGridPosition(pos.hexPos);
             bubbles.push(bubble);
         });
@@ -1,8 +1,9 @@
 import { Scene } from 'phaser';
 import { BaseGameSystem } from '@/core/SystemRegistry';
-import { gameState, GameStateManager } from '@/core/GameStateManager';
+import { gameState } from '@/core/GameStateManager';
 import { eventBus } from '@/core/EventBus';
 import { registry } from '@/core/SystemRegistry';
+import { checkGemVictory, isSuddenDeath, resolveFieldFull, resolveTimeUp } from '@/core/rules/VictoryRules';
 
 /**
  * Manages game flow, states, and victory conditions
@@ -81,6 +82,15 @@ export class GameFlowManager extends BaseGameSystem {
         console.log('✅ Game started successfully');
     }
     
+    /**
+     * Move the match clock, e.g. when resuming from an arena snapshot
+     */
+    public setElapsedTime(elapsed: number): void {
+        this.startTime = Date.now() - elapsed;
+        this.pausedTime = 0;
+        gameState().updateGameTime(elapsed);
+    }
+
     /**
      * Pause the game
      */
@@ -147,7 +157,7 @@ export class GameFlowManager extends BaseGameSystem {
         const state = gameState().getState();
         
         // Check sudden death
-        if (!state.gameFlow.isInSuddenDeath && elapsed >= GameStateManager.getInstance().SUDDEN_DEATH_TIME) {
+        if (!state.gameFlow.isInSuddenDeath && isSuddenDeath(elapsed, gameState().getMatchRules().suddenDeathTime)) {
             this.enterSuddenDeath();
         }
         
@@ -173,26 +183,15 @@ export class GameFlowManager extends BaseGameSystem {
         
         const state = gameState().getState();
         
-        // Determine winner by gems, then score
-        let winner: 'player' | 'opponent';
-        let reason: string;
-        
-        if (state.player.gems > state.opponent.gems) {
-            winner = 'player';
-            reason = 'time-gems';
-        } else if (state.opponent.gems > state.player.gems) {
-            winner = 'opponent';
-            reason = 'time-gems';
-        } else if (state.player.score > state.opponent.score) {
-            winner = 'player';
-            reason = 'time-score';
-        } else if (state.opponent.score > state.player.score) {
-            winner = 'opponent';
-            reason = 'time-score';
-        } else {
-            winner = 'player'; // Tie goes to player
-            reason = 'time-tie';
-        }
+        // Determine winner by gems, then score - a full tie goes to the player
+        const outcome = resolveTimeUp(
+            state.player.gems,
+            state.opponent.gems,
+            state.player.score,
+            state.opponent.score
+        );
+        const winner = outcome.winner === 'tie' ? 'player' : outcome.winner;
+        const reason = outcome.reason;
         
         this.handleVictory(winner, reason);
     }
@@ -201,12 +200,10 @@ export class GameFlowManager extends BaseGameSystem {
      * Check gem victory condition
      */
     private checkGemVictory(data: { playerGems: number; opponentGems: number }): void {
-        const gemsToWin = GameStateManager.getInstance().GEMS_TO_WIN;
+        const winner = checkGemVictory(data.playerGems, data.opponentGems, gameState().getMatchRules().gemsToWin);
         
-        if (data.playerGems >= gemsToWin) {
-            this.handleVictory('player', 'gems');
-        } else if (data.opponentGems >= gemsToWin) {
-            this.handleVictory('opponent', 'gems');
+        if (winner) {
+            this.handleVictory(winner, 'gems');
         }
     }
     
@@ -216,10 +213,11 @@ export class GameFlowManager extends BaseGameSystem {
     private checkFieldFullCondition(isPlayerFieldFull: boolean): void {
         const state = gameState().getState();
         
-        if (state.gameFlow.isInSuddenDeath) {
-            // In sudden death, field full = instant loss
-            const winner = isPlayerFieldFull ? 'opponent' : 'player';
-            this.handleVictory(winner, 'sudden-death');
+        // In sudden death, field full = instant loss
+        const outcome = resolveFieldFull(isPlayerFieldFull, state.gameFlow.isInSuddenDeath);
+
+        if (outcome && outcome.winner !== 'tie') {
+            this.handleVictory(outcome.winner, outcome.reason);
         } else {
             // Normal mode - trigger reset
             eventBus.emit('reset-triggered', {
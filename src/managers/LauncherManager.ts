@@ -7,6 +7,7 @@ import { Scene } from 'phaser';
 import { BaseGameSystem } from '@/core/SystemRegistry';
 import { GameEventBus } from '@/core/EventBus';
 import { GameStateManager } from '@/core/GameStateManager';
+import { RandomService } from '@/core/RandomService';
 import { Launcher } from '@/gameObjects/Launcher';
 import { BubbleColor } from '@/types/ArenaTypes';
 import { ARENA_CONFIG } from '@/config/ArenaConfig';
@@ -127,7 +128,7 @@ export class LauncherManager extends BaseGameSystem {
             BubbleColor.YELLOW,
             BubbleColor.PURPLE
         ];
-        return colors[Math.floor(Math.random() * colors.length)];
+        return RandomService.getInstance().stream('playerQueue').pick(colors);
     }
     
     private updateLauncherBubbles(): void {
@@ -321,7 +322,7 @@ export class LauncherManager extends BaseGameSystem {
             });
         } else {
             this.opponentState = LauncherState.CHARGING;
-            this.opponentPower = this.MIN_POWER + Math.random() * 400; // AI random power
+            this.opponentPower = this.MIN_POWER + RandomService.getInstance().stream('ai').next() * 400; // AI random power
             
             if (this.opponentLauncher) {
                 this.opponentLauncher.startCharging();
@@ -7,11 +7,13 @@ import { Scene } from 'phaser';
 import { BaseGameSystem } from '@/core/SystemRegistry';
 import { GameEventBus } from '@/core/EventBus';
 import { GameStateManager } from '@/core/GameStateManager';
+import { RandomService } from '@/core/RandomService';
 import { Objective } from '@/gameObjects/Objective';
 import { SpaceObjective } from '@/gameObjects/SpaceObjective';
 import { SpaceArenaParticles } from '@/systems/visual/SpaceArenaParticles';
 import { Z_LAYERS, ARENA_CONFIG } from '@/config/ArenaConfig';
 import { BubbleColor } from '@/types/ArenaTypes';
+import { shakeCamera } from '@/utils/motion';
 
 interface GemThrowTarget {
     bubble: any;
@@ -912,7 +914,7 @@ export class ObjectiveManager extends BaseGameSystem {
                 : targets;
         
         // Random selection from filtered targets
-        return selectedTargets[Math.floor(Math.random() * selectedTargets.length)];
+        return RandomService.getInstance().stream('gems').pick(selectedTargets);
     }
     
     /**
@@ -1082,7 +1084,7 @@ export class ObjectiveManager extends BaseGameSystem {
         // Special effects based on power-up type
         switch (data.type) {
             case 'bomb':
-                this.scene.cameras.main.shake(300, 0.02);
+                shakeCamera(this.scene, 300, 0.02);
                 break;
             case 'laser':
                 this.playLaserHitEffect();
@@ -7,6 +7,7 @@ import { Scene } from 'phaser';
 import { BaseGameSystem } from '@/core/SystemRegistry';
 import { GameEventBus } from '@/core/EventBus';
 import { GameStateManager } from '@/core/GameStateManager';
+import { UNLIMITED } from '@/core/rules/VictoryRules';
 import { Z_LAYERS } from '@/config/ArenaConfig';
 
 interface UIConfig {
@@ -17,6 +18,7 @@ interface UIConfig {
     showCombo: boolean;
     playerName?: string;  // Player's display name
     opponentName?: string;  // Opponent's display name
+    mirrorOpponentHud?: boolean; // Opponent sits across the screen (local versus) - give them a flipped HUD
 }
 
 export class UIManager extends BaseGameSystem {
@@ -38,6 +40,15 @@ export class UIManager extends BaseGameSystem {
     private playerNameText?: Phaser.GameObjects.Text;
     private opponentNameText?: Phaser.GameObjects.Text;
     
+    // Flipped gem counter read from the top edge - own side first, as the opponent sees it
+    private opponentHud?: Phaser.GameObjects.Container;
+    private opponentHudTexts?: {
+        ownGems: Phaser.GameObjects.Text;
+        rivalGems: Phaser.GameObjects.Text;
+        ownName: Phaser.GameObjects.Text;
+        rivalName: Phaser.GameObjects.Text;
+    };
+
     private timerDisplay?: Phaser.GameObjects.Container;
     private timerText?: Phaser.GameObjects.Text;
     private timerBar?: Phaser.GameObjects.Graphics;
@@ -69,6 +80,7 @@ export class UIManager extends BaseGameSystem {
             showTimer: true,
             showPowerUps: true,
             showCombo: true,
+            mirrorOpponentHud: false,
             ...config
         };
         
@@ -100,6 +112,9 @@ export class UIManager extends BaseGameSystem {
         // Create gem counter
         if (this.config.showGems) {
             this.createGemCounter(width, height);
+            if (this.config.mirrorOpponentHud) {
+                this.createOpponentHud();
+            }
         }
         
         // Create timer
@@ -499,6 +514,69 @@ export class UIManager extends BaseGameSystem {
         });
     }
     
+    /**
+     * Gem counter for a second player on the same screen, turned 180° so it reads
+     * right way up from the top edge
+     */
+    private createOpponentHud(): void {
+        this.opponentHud = this.scene.add.container(130, 115);
+        this.opponentHud.setDepth(Z_LAYERS.UI + 8);
+        this.opponentHud.setRotation(Math.PI);
+
+        const bg = this.scene.add.graphics();
+        bg.fillGradientStyle(0x0a0e27, 0x1a1a2e, 0x16213e, 0x0a0e27, 0.95);
+        bg.fillRoundedRect(-90, -40, 180, 80, 18);
+        bg.lineStyle(2.5, 0xf43f5e, 0.9);
+        bg.strokeRoundedRect(-90, -40, 180, 80, 18);
+        this.opponentHud.add(bg);
+
+        const gemStyle = {
+            fontSize: '30px',
+            fontFamily: 'Arial Black',
+            stroke: '#000000',
+            strokeThickness: 3
+        };
+        const nameStyle = {
+            fontSize: '12px',
+            fontFamily: 'Arial',
+            stroke: '#000022',
+            strokeThickness: 2
+        };
+
+        this.opponentHudTexts = {
+            ownGems: this.scene.add.text(-53, -8, '0', { ...gemStyle, color: '#f43f5e' }).setOrigin(0.5),
+            rivalGems: this.scene.add.text(53, -8, '0', { ...gemStyle, color: '#4facfe' }).setOrigin(0.5),
+            ownName: this.scene.add.text(-53, 24, this.opponentName, { ...nameStyle, color: '#f43f5e' }).setOrigin(0.5),
+            rivalName: this.scene.add.text(53, 24, this.playerName, { ...nameStyle, color: '#4facfe' }).setOrigin(0.5)
+        };
+
+        const divider = this.scene.add.text(0, -8, 'VS', {
+            fontSize: '16px',
+            fontFamily: 'Arial Black',
+            color: '#ffffff',
+            stroke: '#000033',
+            strokeThickness: 3
+        }).setOrigin(0.5);
+
+        this.opponentHud.add([
+            this.opponentHudTexts.ownGems,
+            divider,
+            this.opponentHudTexts.rivalGems,
+            this.opponentHudTexts.ownName,
+            this.opponentHudTexts.rivalName
+        ]);
+    }
+
+    private refreshOpponentHud(): void {
+        if (!this.opponentHudTexts) {
+            return;
+        }
+        this.opponentHudTexts.ownGems.setText(this.opponentGems.toString());
+        this.opponentHudTexts.rivalGems.setText(this.playerGems.toString());
+        this.opponentHudTexts.ownName.setText(this.opponentName);
+        this.opponentHudTexts.rivalName.setText(this.playerName);
+    }
+
     /**
      * Create floating star particles around the gem counter
      */
@@ -800,6 +878,8 @@ export class UIManager extends BaseGameSystem {
                 });
             }
         }
+
+        this.refreshOpponentHud();
     }
     
     private updateGems(data: { isPlayer: boolean, total?: number, delta?: number }): void {
@@ -936,11 +1016,13 @@ export class UIManager extends BaseGameSystem {
             }
         }
         
+        this.refreshOpponentHud();
+
         // Game state gem updates are handled by ArenaCoordinator
         // No need to update here as it would cause duplication
     }
     
-    private updateTimer(data: { time?: number, elapsed?: number, maxTime?: number }): void {
+    private updateTimer(data: { time?: number, elapsed?: number, maxTime?: number, total?: number }): void {
         // Handle elapsed time from ArenaCoordinator
         if (data.elapsed !== undefined) {
             this.gameTime = data.elapsed;
@@ -948,15 +1030,19 @@ export class UIManager extends BaseGameSystem {
             this.gameTime = data.time;
         }
         
-        if (data.maxTime) {
-            this.maxGameTime = data.maxTime;
+        // ArenaCoordinator sends the match length (level or mode rules) as total
+        const maxTime = data.maxTime ?? data.total;
+        if (maxTime) {
+            this.maxGameTime = maxTime;
         }
         
         // Update timer text
         if (this.timerText) {
             const remaining = Math.max(0, this.maxGameTime - this.gameTime);
-            const minutes = Math.floor(remaining / 60000);
-            const seconds = Math.floor((remaining % 60000) / 1000);
+            // Unlimited matches (practice) count up instead
+            const shown = this.maxGameTime >= UNLIMITED ? this.gameTime : remaining;
+            const minutes = Math.floor(shown / 60000);
+            const seconds = Math.floor((shown % 60000) / 1000);
             this.timerText.setText(`${minutes}:${seconds.toString().padStart(2, '0')}`);
             
             // Change color based on time with smooth transitions
@@ -1241,6 +1327,11 @@ export class UIManager extends BaseGameSystem {
         // DO NOT pause all tweens - we want animations to continue
         // Only stop UI-specific animations if needed
         
+        // Ties have their own screen
+        if (data.winner === 'tie') {
+            return;
+        }
+
         // Show final state
         const isPlayerWin = data.winner === 'player';
         this.showNotification({
@@ -1266,6 +1357,7 @@ export class UIManager extends BaseGameSystem {
         if (this.opponentGemText) this.opponentGemText.setText('0').setColor('#f43f5e');
         if (this.timerText) this.timerText.setText('3:00').setColor('#ffd700');
         if (this.comboDisplay) this.comboDisplay.setVisible(false);
+        this.refreshOpponentHud();
         
         // Clear notifications
         this.activeNotifications.forEach(n => n.destroy());
@@ -1331,6 +1423,7 @@ export class UIManager extends BaseGameSystem {
         // Destroy all UI elements
         if (this.scoreDisplay) this.scoreDisplay.destroy();
         if (this.gemCounter) this.gemCounter.destroy();
+        this.opponentHud?.destroy();
         if (this.timerDisplay) this.timerDisplay.destroy();
         if (this.comboDisplay) this.comboDisplay.destroy();
         
@@ -1370,6 +1463,8 @@ export class UIManager extends BaseGameSystem {
                 this.opponentNameText.setText(opponentName);
             }
         }
+
+        this.refreshOpponentHud();
     }
     
     /**
@@ -8,6 +8,7 @@ import { BaseGameSystem } from '@/core/SystemRegistry';
 import { GameEventBus } from '@/core/EventBus';
 import { getParticlePool } from '@/optimization';
 import { Z_LAYERS } from '@/config/ArenaConfig';
+import { shakeCamera } from '@/utils/motion';
 
 export class VisualManager extends BaseGameSystem {
     public name = 'VisualManager';
@@ -80,7 +81,7 @@ export class VisualManager extends BaseGameSystem {
         
         // Add screen shake for big pops
         if (data.color === 0xFFFFFF) { // Mystery bubble
-            this.scene.cameras.main.shake(100, 0.005);
+            shakeCamera(this.scene, 100, 0.005);
         }
     }
     
@@ -191,7 +192,7 @@ export class VisualManager extends BaseGameSystem {
         
         // Screen shake based on combo level
         if (comboLevel >= 3) {
-            this.scene.cameras.main.shake(200, 0.01 * comboLevel);
+            shakeCamera(this.scene, 200, 0.01 * comboLevel);
         }
     }
     
@@ -504,7 +505,7 @@ export class VisualManager extends BaseGameSystem {
         this.activeTweens.add(tween);
         
         // Screen shake
-        this.scene.cameras.main.shake(300, 0.02);
+        shakeCamera(this.scene, 300, 0.02);
     }
     
     private createLaserEffect(x: number, y: number): void {
@@ -0,0 +1,49 @@
+/**
+ * Power-up catalogue - every *.json file in this folder is picked up at build time,
+ * so new variants need no code changes. Invalid files are skipped with a warning.
+ */
+
+import { RandomStream } from '@/core/RandomService';
+import { LevelLoader } from '@/systems/levels/LevelLoader';
+import { PowerUpLoader } from '@/systems/powerups/PowerUpLoader';
+import { IPowerUpDefinition, PowerUpId } from '@/types/PowerUpTypes';
+
+const files = import.meta.glob<unknown>('./*.json', { eager: true, import: 'default' });
+
+const definitions = new Map<PowerUpId, IPowerUpDefinition>();
+Object.entries(files).forEach(([path, data]) => {
+    const definition = PowerUpLoader.parse(data, path);
+    if (!definition) {
+        return;
+    }
+    if (definitions.has(definition.id)) {
+        console.warn(`PowerUps: Duplicate power-up id "${definition.id}" in ${path} - skipped`);
+        return;
+    }
+    definitions.set(definition.id, definition);
+});
+
+// Level files may put any of these in a mystery bubble
+LevelLoader.setPowerUpIds(getPowerUpDefinitions().map(definition => definition.id));
+
+export function getPowerUpDefinition(id: PowerUpId): IPowerUpDefinition | undefined {
+    return definitions.get(id);
+}
+
+/**
+ * All power-ups, ordered by id
+ */
+export function getPowerUpDefinitions(): IPowerUpDefinition[] {
+    return [...definitions.values()].sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/**
+ * Weighted pick for a mystery bubble - only from the loadout when one is given
+ */
+export function rollPowerUp(rng: RandomStream, loadout?: ReadonlyArray<PowerUpId>): IPowerUpDefinition | null {
+    const definitions = getPowerUpDefinitions();
+    return PowerUpLoader.pickWeighted(
+        loadout ? definitions.filter(definition => loadout.includes(definition.id)) : definitions,
+        rng
+    );
+}
@@ -0,0 +1,408 @@
+/**
+ * EditorScene - Paint level layouts on the arena grid
+ * Tools paint colored bubbles, gems, mystery bubbles and blockers onto the same
+ * BubbleGrid the arena uses. Layouts are checked with the arena's connectivity
+ * rules, test-played straight away in GameScene, and saved as level JSON files.
+ */
+
+import { Scene } from 'phaser';
+import { SceneKeys } from '@/types/GameTypes';
+import { IHexPosition } from '@/types/ArenaTypes';
+import { ILevelCell, ILevelDefinition, LevelColorName } from '@/types/LevelTypes';
+import { SceneManager } from '@/systems/core/SceneManager';
+import { BubbleGrid } from '@/systems/gameplay/BubbleGrid';
+import { LevelEditorModel } from '@/systems/levels/LevelEditorModel';
+import { LevelLoader } from '@/systems/levels/LevelLoader';
+import { BUBBLE_CONFIG } from '@/config/ArenaConfig';
+import { HD_SCALE } from '@/config/GameConfig';
+
+type EditorTool = LevelColorName | 'gem' | 'golden' | 'mystery' | 'blocker' | 'erase';
+
+interface IEditorSceneData {
+    level?: ILevelDefinition;
+}
+
+export class EditorScene extends Scene {
+    // Draft survives test-plays and trips to the menu
+    private static readonly DRAFT_KEY = 'editorLevel';
+    private static readonly COLOR_TOOLS: LevelColorName[] = ['red', 'blue', 'green', 'yellow', 'purple'];
+    private static readonly ITEM_TOOLS: Array<{ tool: EditorTool; label: string }> = [
+        { tool: 'gem', label: 'GEM' },
+        { tool: 'golden', label: 'GOLD' },
+        { tool: 'mystery', label: '?' },
+        { tool: 'blocker', label: 'WALL' },
+        { tool: 'erase', label: 'ERASE' }
+    ];
+
+    private sceneManager!: SceneManager;
+    private model!: LevelEditorModel;
+    private bubbleGrid!: BubbleGrid;
+    private tool: EditorTool = 'red';
+    private isPainting: boolean = false;
+    private lastPaintedKey: string | null = null;
+    private floatingKeys: Set<string> = new Set();
+
+    private boardGraphics!: Phaser.GameObjects.Graphics;
+    private toolMarker!: Phaser.GameObjects.Arc;
+    private toolButtons: Map<EditorTool, Phaser.GameObjects.GameObject & { x: number; y: number }> = new Map();
+    private statusText!: Phaser.GameObjects.Text;
+
+    constructor() {
+        super({ key: SceneKeys.EDITOR });
+    }
+
+    public init(data: IEditorSceneData): void {
+        this.sceneManager = SceneManager.getInstance();
+        this.sceneManager.setCurrentScene(SceneKeys.EDITOR);
+
+        this.model = new LevelEditorModel();
+        const draft = data?.level ?? (this.registry.get(EditorScene.DRAFT_KEY) as ILevelDefinition | undefined);
+        if (draft) {
+            this.model.load(draft);
+        }
+
+        this.tool = 'red';
+        this.isPainting = false;
+        this.lastPaintedKey = null;
+        this.floatingKeys.clear();
+        this.toolButtons.clear();
+    }
+
+    public create(): void {
+        const { width, height, centerX, centerY } = this.cameras.main;
+
+        this.add.rectangle(0, 0, width, height, 0x101624, 1).setOrigin(0, 0);
+        this.bubbleGrid = new BubbleGrid(centerX, centerY);
+        this.boardGraphics = this.add.graphics();
+
+        this.add.text(centerX, 30 * HD_SCALE, 'LEVEL EDITOR', {
+            fontSize: `${18 * HD_SCALE}px`,
+            fontFamily: 'Arial Black',
+            color: '#ffffff',
+            stroke: '#000000',
+            strokeThickness: 3
+        }).setOrigin(0.5);
+
+        this.createToolPalette();
+        this.createActions();
+
+        this.statusText = this.add.text(centerX, height - 150 * HD_SCALE, '', {
+            fontSize: `${10 * HD_SCALE}px`,
+            fontFamily: 'Arial',
+            color: '#ffffff',
+            align: 'center',
+            wordWrap: { width: width - 40 * HD_SCALE }
+        }).setOrigin(0.5);
+
+        this.input.on('pointerdown', this.onPointerDown);
+        this.input.on('pointermove', this.onPointerMove);
+        this.input.on('pointerup', this.onPointerUp);
+        this.input.keyboard?.on('keydown-ESC', () => this.exitEditor());
+
+        this.events.once('shutdown', () => this.shutdown());
+
+        this.selectTool(this.tool);
+        this.redraw();
+        this.setStatus('Pick a tool and paint on the grid');
+    }
+
+    /**
+     * Colors on the first row, items and the eraser on the second
+     */
+    private createToolPalette(): void {
+        const { width } = this.cameras.main;
+        const colorY = 70 * HD_SCALE;
+        const itemY = 105 * HD_SCALE;
+        const radius = BUBBLE_CONFIG.SIZE / 2;
+
+        this.toolMarker = this.add.circle(0, colorY, radius + 4 * HD_SCALE);
+        this.toolMarker.setStrokeStyle(2 * HD_SCALE, 0xffffff, 1);
+
+        const colorSpacing = width / (EditorScene.COLOR_TOOLS.length + 1);
+        EditorScene.COLOR_TOOLS.forEach((color, index) => {
+            const x = colorSpacing * (index + 1);
+            const swatch = this.add.circle(x, colorY, radius, LevelLoader.toBubbleColor(color));
+            swatch.setInteractive({ useHandCursor: true });
+            swatch.on('pointerdown', () => this.selectTool(color));
+            this.toolButtons.set(color, swatch);
+        });
+
+        const itemSpacing = width / (EditorScene.ITEM_TOOLS.length + 1);
+        EditorScene.ITEM_TOOLS.forEach((item, index) => {
+            const x = itemSpacing * (index + 1);
+            const text = this.createTextButton(x, itemY, item.label, () => this.selectTool(item.tool));
+            this.toolButtons.set(item.tool, text);
+        });
+    }
+
+    private createActions(): void {
+        const { width, height } = this.cameras.main;
+        const rows: Array<Array<{ label: string; action: () => void }>> = [
+            [
+                { label: 'MIRROR', action: () => this.mirror() },
+                { label: 'CHECK', action: () => this.check() },
+                { label: 'TEST PLAY', action: () => this.testPlay() },
+                { label: 'CLEAR', action: () => this.clearBoard() }
+            ],
+            [
+                { label: 'EXPORT', action: () => this.exportLevel() },
+                { label: 'IMPORT', action: () => this.importLevel() },
+                { label: 'BACK', action: () => this.exitEditor() }
+            ]
+        ];
+
+        rows.forEach((buttons, rowIndex) => {
+            const y = height - (110 - rowIndex * 40) * HD_SCALE;
+            const spacing = width / (buttons.length + 1);
+            buttons.forEach((button, index) => {
+                this.createTextButton(spacing * (index + 1), y, button.label, button.action);
+            });
+        });
+    }
+
+    private createTextButton(x: number, y: number, label: string, action: () => void): Phaser.GameObjects.Text {
+        const text = this.add.text(x, y, label, {
+            fontSize: `${12 * HD_SCALE}px`,
+            fontFamily: 'Arial Black',
+            color: '#ffffff',
+            stroke: '#000000',
+            strokeThickness: 2
+        });
+        text.setOrigin(0.5);
+        text.setInteractive({ useHandCursor: true });
+        text.on('pointerdown', action);
+        return text;
+    }
+
+    private selectTool(tool: EditorTool): void {
+        this.tool = tool;
+        const button = this.toolButtons.get(tool);
+        if (button) {
+            this.toolMarker.setPosition(button.x, button.y);
+        }
+    }
+
+    private onPointerDown = (pointer: Phaser.Input.Pointer, over: Phaser.GameObjects.GameObject[]): void => {
+        // Palette and action buttons handle their own clicks
+        if (over.length > 0) {
+            return;
+        }
+        this.isPainting = true;
+        this.applyTool(this.bubbleGrid.pixelToHex({ x: pointer.x, y: pointer.y }), false);
+    };
+
+    private onPointerMove = (pointer: Phaser.Input.Pointer): void => {
+        if (!this.isPainting || !pointer.isDown) {
+            return;
+        }
+        this.applyTool(this.bubbleGrid.pixelToHex({ x: pointer.x, y: pointer.y }), true);
+    };
+
+    private onPointerUp = (): void => {
+        this.isPainting = false;
+        this.lastPaintedKey = null;
+    };
+
+    /**
+     * Colors, blockers and the eraser can be dragged; gem and mystery toggles
+     * only apply on a tap so a drag does not flip them back and forth
+     */
+    private applyTool(hex: IHexPosition, isDrag: boolean): void {
+        const key = `${hex.q},${hex.r}`;
+        if (key === this.lastPaintedKey || !this.model.isEditable(hex.q, hex.r)) {
+            return;
+        }
+        this.lastPaintedKey = key;
+
+        let changed: boolean;
+        switch (this.tool) {
+            case 'erase':
+                changed = this.model.erase(hex.q, hex.r);
+                break;
+            case 'blocker':
+                changed = this.model.placeBlocker(hex.q, hex.r);
+                break;
+            case 'gem':
+            case 'golden':
+                changed = !isDrag && this.model.toggleGem(hex.q, hex.r, this.tool === 'golden' ? 'golden' : 'normal');
+                break;
+            case 'mystery':
+                changed = !isDrag && this.model.toggleMystery(hex.q, hex.r);
+                break;
+            default:
+                changed = this.model.paint(hex.q, hex.r, this.tool);
+        }
+
+        if (changed) {
+            this.floatingKeys.clear();
+            this.redraw();
+        }
+    }
+
+    private redraw(): void {
+        const graphics = this.boardGraphics;
+        const bounds = this.bubbleGrid.getGridBounds();
+        const radius = BUBBLE_CONFIG.SIZE / 2;
+        graphics.clear();
+
+        // Empty slots
+        graphics.lineStyle(1, 0xffffff, 0.15);
+        for (let r = bounds.minR; r <= bounds.maxR; r++) {
+            for (let q = bounds.minQ; q <= bounds.maxQ; q++) {
+                const pos = this.bubbleGrid.hexToPixel({ q, r, s: -q - r });
+                graphics.strokeCircle(pos.x, pos.y, radius - 2);
+            }
+        }
+
+        // Objective
+        const center = this.bubbleGrid.hexToPixel({ q: 0, r: 0, s: 0 });
+        graphics.fillStyle(0xffd700, 0.8);
+        graphics.fillCircle(center.x, center.y, radius);
+
+        this.model.getCells().forEach(cell => this.drawCell(cell, radius));
+    }
+
+    private drawCell(cell: ILevelCell, radius: number): void {
+        const graphics = this.boardGraphics;
+        const pos = this.bubbleGrid.hexToPixel({ q: cell.q, r: cell.r, s: -cell.q - cell.r });
+
+        if (cell.blocker) {
+            graphics.fillStyle(0x555555, 1);
+            graphics.fillCircle(pos.x, pos.y, radius - 1);
+            graphics.lineStyle(3, 0x222222, 1);
+            graphics.lineBetween(pos.x - radius / 2, pos.y - radius / 2, pos.x + radius / 2, pos.y + radius / 2);
+            graphics.lineBetween(pos.x - radius / 2, pos.y + radius / 2, pos.x + radius / 2, pos.y - radius / 2);
+        } else {
+            graphics.fillStyle(cell.color ? LevelLoader.toBubbleColor(cell.color) : 0x999999, 1);
+            graphics.fillCircle(pos.x, pos.y, radius - 1);
+        }
+
+        if (cell.mystery) {
+            graphics.lineStyle(3, 0xffffff, 1);
+            graphics.strokeCircle(pos.x, pos.y, radius * 0.6);
+        }
+
+        if (cell.gem) {
+            const size = radius * 0.4;
+            graphics.fillStyle(cell.gem === 'golden' ? 0xffd700 : 0x00ffff, 1);
+            graphics.fillTriangle(pos.x, pos.y - size, pos.x + size, pos.y, pos.x - size, pos.y);
+            graphics.fillTriangle(pos.x, pos.y + size, pos.x + size, pos.y, pos.x - size, pos.y);
+        }
+
+        // Last CHECK found this bubble floating
+        if (this.floatingKeys.has(`${cell.q},${cell.r}`)) {
+            graphics.lineStyle(3, 0xff3333, 1);
+            graphics.strokeCircle(pos.x, pos.y, radius + 2);
+        }
+    }
+
+    private mirror(): void {
+        this.model.mirrorTopToBottom();
+        this.floatingKeys.clear();
+        this.redraw();
+        this.setStatus('Top half mirrored into the bottom half');
+    }
+
+    /**
+     * Validate the layout and mark floating bubbles in red
+     */
+    private check(): boolean {
+        const errors = this.model.validate();
+        this.floatingKeys = new Set(this.model.findFloatingCells().map(cell => `${cell.q},${cell.r}`));
+        this.redraw();
+        this.setStatus(errors.length > 0 ? errors.join('\n') : 'Layout OK', errors.length > 0);
+        return errors.length === 0;
+    }
+
+    private clearBoard(): void {
+        this.model.clear();
+        this.floatingKeys.clear();
+        this.redraw();
+        this.setStatus('Board cleared');
+    }
+
+    private testPlay(): void {
+        if (!this.check()) {
+            return;
+        }
+        const level = this.model.toLevel();
+        this.registry.set(EditorScene.DRAFT_KEY, level);
+        this.scene.start(SceneKeys.GAME, { level, returnTo: SceneKeys.EDITOR });
+    }
+
+    /**
+     * Download the layout as a level file for src/levels/
+     */
+    private exportLevel(): void {
+        const level = this.model.toLevel();
+        const blob = new Blob([JSON.stringify(level, null, 4)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${level.id}.json`;
+        link.click();
+        // Some browsers start the download after click() returns - keep the URL alive a moment
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+
+        this.setStatus(`Exported ${level.id}.json`);
+    }
+
+    private importLevel(): void {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = '.json,application/json';
+        input.onchange = () => {
+            const file = input.files?.[0];
+            if (!file) {
+                return;
+            }
+            file.text()
+                .then(text => this.loadLevelFile(text, file.name))
+                .catch(error => {
+                    console.error('EditorScene: Failed to read level file', error);
+                    this.setStatus(`Could not read ${file.name}`, true);
+                });
+        };
+        input.click();
+    }
+
+    private loadLevelFile(text: string, fileName: string): void {
+        let data: unknown;
+        try {
+            data = JSON.parse(text);
+        } catch (error) {
+            console.warn('EditorScene: Invalid JSON', error);
+            this.setStatus(`${fileName} is not valid JSON`, true);
+            return;
+        }
+
+        const level = LevelLoader.parse(data, fileName);
+        if (!level) {
+            this.setStatus(`${fileName} is not a valid level:\n${LevelLoader.validate(data).join('\n')}`, true);
+            return;
+        }
+
+        this.model.load(level);
+        this.floatingKeys.clear();
+        this.redraw();
+        this.setStatus(`Imported "${level.name}"`);
+    }
+
+    private setStatus(text: string, isError: boolean = false): void {
+        this.statusText?.setText(text);
+        this.statusText?.setColor(isError ? '#ff6666' : '#ffffff');
+    }
+
+    private exitEditor(): void {
+        this.sceneManager.transitionTo(SceneKeys.MENU);
+    }
+
+    public shutdown(): void {
+        this.registry.set(EditorScene.DRAFT_KEY, this.model.toLevel());
+        this.input.off('pointerdown', this.onPointerDown);
+        this.input.off('pointermove', this.onPointerMove);
+        this.input.off('pointerup', this.onPointerUp);
+        this.input.keyboard?.removeAllListeners();
+    }
+}
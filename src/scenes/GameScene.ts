@@ -1,5 +1,5 @@
 import { Scene } from 'phaser';
-import { SceneKeys, ISceneData, GameEvents } from '@/types/GameTypes';
+import { SceneKeys, ISceneData, GameEvents, IGameSettings } from '@/types/GameTypes';
 import { SceneManager } from '@/systems/core/SceneManager';
 import { ArenaCoordinator } from '@/coordinators/ArenaCoordinator';
 import { AIDifficulty } from '@/systems/gameplay/AIOpponentSystem';
@@ -9,6 +9,19 @@ import { RealSoundSystem } from '@/systems/audio/RealSoundSystem';
 import { Z_LAYERS } from '@/config/ArenaConfig';
 import { TweenOptimizer } from '@/systems/visual/TweenOptimizer';
 import { BackgroundSystem } from '@/systems/visual/BackgroundSystem';
+import { NetworkSession } from '@/systems/network/NetworkSession';
+import { IArenaSnapshot } from '@/types/SnapshotTypes';
+import { ILevelDefinition } from '@/types/LevelTypes';
+import { LevelLoader } from '@/systems/levels/LevelLoader';
+import { isAIPersonalityId } from '@/systems/ai/AIPersonalities';
+import { GAME_MODES, isGameModeId } from '@/systems/modes/GameModes';
+import { GameModeId } from '@/types/GameModeTypes';
+import { AIPersonalityId } from '@/types/AITypes';
+import { PowerUpId } from '@/types/PowerUpTypes';
+import { isValidLoadout } from '@/core/rules/LoadoutRules';
+import { getLevel } from '@/levels';
+import { SettingsStore } from '@/systems/settings/SettingsStore';
+import { HapticManager } from '@/systems/audio/HapticManager';
 
 export class GameScene extends Scene {
     private sceneManager!: SceneManager;
@@ -25,6 +38,14 @@ export class GameScene extends Scene {
     // scoreText removed - using player-specific scores
     private isPaused: boolean = false;
     private tweenOptimizer!: TweenOptimizer;
+    private networkSession?: NetworkSession;
+    private initialSnapshot?: IArenaSnapshot;
+    private level?: ILevelDefinition;
+    private returnScene: string = SceneKeys.MENU;
+    private gameMode: GameModeId = 'versus';
+    private aiPersonality?: AIPersonalityId;
+    private loadout?: PowerUpId[];
+    private settings!: IGameSettings;
 
     constructor() {
         super({ key: SceneKeys.GAME });
@@ -51,7 +72,55 @@ export class GameScene extends Scene {
         if (data && (data as any).theme) {
             this.registry.set('gameTheme', (data as any).theme);
         }
-        
+
+        // Fixed match seed (replays, debugging) - otherwise ArenaCoordinator rolls a fresh one
+        const seed: unknown = data ? (data as { seed?: unknown }).seed : undefined;
+        this.registry.set('matchSeed', typeof seed === 'number' ? seed : undefined);
+
+        // Online match - the remote player replaces the AI opponent
+        const network: unknown = data ? (data as { network?: unknown }).network : undefined;
+        this.networkSession = network instanceof NetworkSession ? network : undefined;
+
+        // Resume a suspended match or a bug repro file
+        const snapshot: unknown = data ? (data as { snapshot?: unknown }).snapshot : undefined;
+        this.initialSnapshot = snapshot && typeof snapshot === 'object' ? snapshot as IArenaSnapshot : undefined;
+        if (this.initialSnapshot) {
+            this.registry.set('gameTheme', this.initialSnapshot.theme);
+        }
+
+        // Handcrafted board - a bundled level id or a level object (editor, downloads)
+        const level: unknown = data ? (data as { level?: unknown }).level : undefined;
+        const levelId: unknown = data ? (data as { levelId?: unknown }).levelId : undefined;
+        this.level = level !== undefined
+            ? LevelLoader.parse(level, 'scene data') || undefined
+            : typeof levelId === 'string' ? getLevel(levelId) : undefined;
+        if (typeof levelId === 'string' && !this.level) {
+            console.warn(`GameScene: Unknown level "${levelId}" - playing the normal board`);
+        }
+        if (this.level?.theme) {
+            this.registry.set('gameTheme', this.level.theme);
+        }
+
+        // Named AI opponent - otherwise the match seed picks one
+        const personality: unknown = data ? (data as { personality?: unknown }).personality : undefined;
+        this.aiPersonality = isAIPersonalityId(personality) ? personality : undefined;
+
+        // Power-ups picked in LoadoutScene - otherwise drops roll from the whole catalogue
+        const loadout: unknown = data ? (data as { loadout?: unknown }).loadout : undefined;
+        this.loadout = isValidLoadout(loadout) ? loadout : undefined;
+
+        // Game mode - versus the AI unless another is picked; a remote session is always online
+        const mode: unknown = data ? (data as { mode?: unknown }).mode : undefined;
+        this.gameMode = this.networkSession ? 'online' : isGameModeId(mode) && mode !== 'online' ? mode : 'versus';
+        if (this.gameMode === 'campaign' && !this.level) {
+            console.warn('GameScene: A campaign match needs a level - playing versus');
+            this.gameMode = 'versus';
+        }
+
+        // Scene to go back to on exit (the editor after a test-play)
+        const returnTo: unknown = data ? (data as { returnTo?: unknown }).returnTo : undefined;
+        this.returnScene = typeof returnTo === 'string' ? returnTo : SceneKeys.MENU;
+
         // Set isCapacitor flag in registry for global access
         const isCapacitor = !!(window as any).Capacitor;
         this.game.registry.set('isCapacitor', isCapacitor);
@@ -71,6 +140,9 @@ export class GameScene extends Scene {
             // Initialize TweenOptimizer for performance
             this.tweenOptimizer = new TweenOptimizer(this);
             
+            this.settings = SettingsStore.getInstance().get();
+            HapticManager.getInstance().setEnabled(this.settings.vibrationEnabled);
+
             this.createBackground();
             
             this.createSoundSystem();
@@ -86,6 +158,10 @@ export class GameScene extends Scene {
             
             this.setupInputHandlers();
             
+            // Settings changed from the pause overlay - the arena applies its own share
+            SettingsStore.getInstance().on('settings-changed', this.onSettingsChanged);
+            this.events.once('shutdown', () => SettingsStore.getInstance().off('settings-changed', this.onSettingsChanged));
+
             // Emit arena ready event
             this.game.events.emit(GameEvents.SCENE_READY, {
                 scene: SceneKeys.GAME
@@ -99,6 +175,7 @@ export class GameScene extends Scene {
     private createSoundSystem(): void {
         try {
             this.soundSystem = new RealSoundSystem(this);
+            this.soundSystem.applySettings(this.settings);
         } catch (error) {
             console.error('GameScene: Failed to initialize sound system:', error);
             // Continue without sound system - game should still be playable
@@ -117,7 +194,7 @@ export class GameScene extends Scene {
             // Check if audio is already loaded
             if (this.cache.audio.exists('background-music')) {
                 this.backgroundMusic = this.sound.add('background-music', {
-                    volume: 0.3,
+                    volume: this.getMusicVolume(),
                     loop: true
                 });
                 
@@ -142,7 +219,9 @@ export class GameScene extends Scene {
                     this.sound.once('unlocked', () => {
                         console.log('GameScene: Audio unlocked, starting background music');
                         unlockText.destroy();
-                        this.backgroundMusic?.play();
+                        if (this.isMusicOn()) {
+                            this.backgroundMusic?.play();
+                        }
                     });
                     
                     // Also try to unlock on first click
@@ -151,7 +230,7 @@ export class GameScene extends Scene {
                             this.sound.unlock();
                         }
                     });
-                } else {
+                } else if (this.isMusicOn()) {
                     console.log('GameScene: Starting background music immediately');
                     this.backgroundMusic.play();
                 }
@@ -165,9 +244,8 @@ export class GameScene extends Scene {
     
 
     private createBackground(): void {
-        // Detect device performance for quality settings
-        const isCapacitor = this.registry.get('isCapacitor');
-        const quality = isCapacitor ? 'medium' : 'high'; // Lower quality on mobile for performance
+        // Quality from settings - 'auto' lowers it on mobile for performance
+        const quality = this.getQuality();
         
         // Get selected theme or default to ocean
         const selectedTheme = this.registry.get('gameTheme') || this.registry.get('selectedTheme') || 'ocean';
@@ -177,7 +255,7 @@ export class GameScene extends Scene {
             theme: selectedTheme as any,
             quality: quality,
             enableParticles: true,
-            enableAnimation: true
+            enableAnimation: !this.settings.reducedMotion
         });
         
         console.log(`GameScene: Created advanced background system with ${selectedTheme} theme and ${quality} quality`);
@@ -271,13 +349,75 @@ export class GameScene extends Scene {
     }
     */
 
+    private getQuality(): 'low' | 'medium' | 'high' {
+        return SettingsStore.resolveQuality(this.settings.quality, !!this.registry.get('isCapacitor'));
+    }
+
+    private getMusicVolume(): number {
+        return this.soundSystem?.getMusicVolume(0.3) ?? 0.3;
+    }
+
+    private isMusicOn(): boolean {
+        return this.settings.soundEnabled && this.settings.musicEnabled;
+    }
+
+    /**
+     * Apply changed settings to the parts this scene owns: sound, music, haptics and background
+     */
+    private onSettingsChanged = (settings: IGameSettings): void => {
+        const previous = this.settings;
+        this.settings = settings;
+
+        this.soundSystem?.applySettings(settings);
+        HapticManager.getInstance().setEnabled(settings.vibrationEnabled);
+
+        if (this.backgroundMusic) {
+            (this.backgroundMusic as Phaser.Sound.WebAudioSound).setVolume(this.getMusicVolume());
+            if (!this.isMusicOn()) {
+                this.backgroundMusic.pause();
+            } else if (!this.isPaused && this.backgroundMusic.isPaused) {
+                this.backgroundMusic.resume();
+            } else if (!this.isPaused && !this.backgroundMusic.isPlaying && !this.sound.locked) {
+                this.backgroundMusic.play();
+            }
+        }
+
+        if (settings.quality !== previous.quality) {
+            this.backgroundSystem?.setQuality(this.getQuality());
+        }
+        if (settings.reducedMotion !== previous.reducedMotion) {
+            this.backgroundSystem?.setAnimationEnabled(!settings.reducedMotion);
+        }
+    };
+
     private createArena(): void {
         try {
             console.log('GameScene: Creating ArenaCoordinator...');
             this.arenaCoordinator = new ArenaCoordinator(this);
+            if (this.initialSnapshot) {
+                this.arenaCoordinator.setInitialSnapshot(this.initialSnapshot);
+            }
+            if (this.level) {
+                this.arenaCoordinator.setLevel(this.level);
+            }
+            if (this.aiPersonality) {
+                this.arenaCoordinator.setAIPersonality(this.aiPersonality);
+            }
+            if (this.loadout) {
+                this.arenaCoordinator.setLoadout(this.loadout);
+            }
             
-            console.log('GameScene: Initializing arena with AI opponent (HARD)...');
-            this.arenaCoordinator.initialize(true, AIDifficulty.HARD);
+            const mode = GAME_MODES[this.gameMode];
+            console.log(`GameScene: Initializing arena for ${mode.name}...`);
+            this.arenaCoordinator.setGameMode(mode);
+            if (this.networkSession) {
+                this.arenaCoordinator.setNetworkSession(this.networkSession);
+            }
+            if (mode.id === 'campaign') {
+                // Back to the world map after a level
+                this.arenaCoordinator.setReturnScene(this.returnScene);
+            }
+            void this.arenaCoordinator.initialize(mode.opponent === 'ai', AIDifficulty.ADAPTIVE);
             
             // Setup combo events to pause spawning
             this.setupRowSpawnEvents();
@@ -437,12 +577,23 @@ export class GameScene extends Scene {
     private setupInputHandlers(): void {
         // ESC key to return to menu
         this.input.keyboard?.on('keydown-ESC', () => {
-            this.returnToMenu();
+            if (!this.isSettingsOpen()) {
+                this.returnToMenu();
+            }
         });
         
         // P key to pause
         this.input.keyboard?.on('keydown-P', () => {
-            this.togglePause();
+            if (!this.isSettingsOpen()) {
+                this.togglePause();
+            }
+        });
+
+        // S key opens settings over the paused game
+        this.input.keyboard?.on('keydown-S', () => {
+            if (this.isPaused && !this.isSettingsOpen()) {
+                this.scene.launch(SceneKeys.SETTINGS, { overlay: true });
+            }
         });
         
         // Space key for testing (placeholder for shooting)
@@ -552,7 +703,9 @@ export class GameScene extends Scene {
             this.showPauseOverlay();
         } else {
             this.physics.resume();
-            this.backgroundMusic?.resume();
+            if (this.isMusicOn()) {
+                this.backgroundMusic?.resume();
+            }
             this.hidePauseOverlay();
         }
     }
@@ -585,17 +738,22 @@ export class GameScene extends Scene {
         const resumeText = this.add.text(
             this.cameras.main.centerX,
             this.cameras.main.centerY + 60,
-            'Press P to Resume',
+            'Press P to Resume\nPress S for Settings',
             {
                 fontFamily: 'Arial',
                 fontSize: '20px',
-                color: '#ffffff'
+                color: '#ffffff',
+                align: 'center'
             }
         ).setOrigin(0.5);
         resumeText.setDepth(Z_LAYERS.UI + 11);
         resumeText.setData('isPauseOverlay', true);
     }
 
+    private isSettingsOpen(): boolean {
+        return this.scene.isActive(SceneKeys.SETTINGS);
+    }
+
     private hidePauseOverlay(): void {
         this.children.list.forEach(child => {
             if (child.getData('isPauseOverlay')) {
@@ -612,7 +770,7 @@ export class GameScene extends Scene {
         }
         this.arenaCoordinator?.cleanup();
         this.soundSystem?.destroy();
-        this.sceneManager.transitionTo(SceneKeys.MENU);
+        this.sceneManager.transitionTo(this.returnScene);
     }
 
     public override update(time: number, delta: number): void {
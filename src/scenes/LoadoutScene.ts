@@ -0,0 +1,177 @@
+/**
+ * LoadoutScene - Pick the power-ups to take into a match
+ * Comes after ThemeSelectScene. Campaign stars unlock more of the catalogue;
+ * the picks go to GameScene, where the player's mystery drops only roll from them,
+ * and are kept for next time.
+ */
+
+import { Scene } from 'phaser';
+import { SceneKeys } from '@/types/GameTypes';
+import { SceneManager } from '@/systems/core/SceneManager';
+import { CAMPAIGN_CHAPTERS } from '@/systems/campaign/CampaignChapters';
+import { CampaignProgressStore } from '@/systems/campaign/CampaignProgressStore';
+import { PowerUpLoader } from '@/systems/powerups/PowerUpLoader';
+import { LoadoutStore } from '@/systems/powerups/LoadoutStore';
+import { countStars } from '@/core/rules/CampaignRules';
+import {
+    getDefaultLoadout,
+    getUnlockedPowerUps,
+    isValidLoadout,
+    LOADOUT_RULES,
+    toggleLoadoutPick
+} from '@/core/rules/LoadoutRules';
+import { IPowerUpDefinition, PowerUpId } from '@/types/PowerUpTypes';
+import { getPowerUpDefinitions } from '@/powerups';
+import { HD_SCALE } from '@/config/GameConfig';
+
+export class LoadoutScene extends Scene {
+    private theme?: string;
+    private stars: number = 0;
+    private unlocked: IPowerUpDefinition[] = [];
+    private loadout: PowerUpId[] = [];
+    private cards: Map<PowerUpId, Phaser.GameObjects.Rectangle> = new Map();
+    private slotTexts: Phaser.GameObjects.Text[] = [];
+    private startButton!: Phaser.GameObjects.Text;
+
+    constructor() {
+        super({ key: SceneKeys.LOADOUT });
+    }
+
+    public init(data: { theme?: unknown }): void {
+        SceneManager.getInstance().setCurrentScene(SceneKeys.LOADOUT);
+        this.theme = typeof data?.theme === 'string' ? data.theme : undefined;
+
+        const progress = CampaignProgressStore.load();
+        this.stars = countStars(CAMPAIGN_CHAPTERS, levelId => progress.levels[levelId]?.stars ?? 0).earned;
+        this.unlocked = getUnlockedPowerUps(getPowerUpDefinitions(), this.stars);
+        // Start from the last match's picks
+        this.loadout = getDefaultLoadout(this.unlocked, LoadoutStore.load());
+        this.cards.clear();
+        this.slotTexts = [];
+    }
+
+    public create(): void {
+        const { width, height, centerX } = this.cameras.main;
+        this.cameras.main.setBackgroundColor('#101624');
+
+        this.add.text(centerX, 40 * HD_SCALE, 'CHOOSE YOUR ARSENAL', {
+            fontSize: `${18 * HD_SCALE}px`,
+            fontFamily: 'Arial Black',
+            color: '#ffffff',
+            stroke: '#000000',
+            strokeThickness: 3
+        }).setOrigin(0.5);
+        this.add.text(centerX, 65 * HD_SCALE, `Pick ${LOADOUT_RULES.SIZE} - ★ ${this.stars} campaign stars`, {
+            fontSize: `${11 * HD_SCALE}px`,
+            fontFamily: 'Arial Black',
+            color: '#ffd700'
+        }).setOrigin(0.5);
+
+        this.createSlots(centerX, 100 * HD_SCALE);
+
+        // Everything that can drop - locked entries show the stars they need
+        const pool = getPowerUpDefinitions().filter(definition => definition.weight > 0);
+        const columns = 3;
+        const top = 140 * HD_SCALE;
+        const cardWidth = (width - 40 * HD_SCALE) / columns;
+        const cardHeight = Math.min(70 * HD_SCALE, (height - top - 100 * HD_SCALE) / Math.ceil(pool.length / columns));
+        pool.forEach((definition, index) => {
+            const x = 20 * HD_SCALE + cardWidth * (index % columns + 0.5);
+            const y = top + cardHeight * (Math.floor(index / columns) + 0.5);
+            this.createCard(definition, x, y, cardWidth - 8 * HD_SCALE, cardHeight - 8 * HD_SCALE);
+        });
+
+        this.startButton = this.add.text(centerX, height - 70 * HD_SCALE, 'START GAME', {
+            fontSize: `${18 * HD_SCALE}px`,
+            fontFamily: 'Arial Black',
+            color: '#000000',
+            backgroundColor: '#00ff00',
+            padding: { x: 20 * HD_SCALE, y: 8 * HD_SCALE }
+        }).setOrigin(0.5);
+        this.startButton.setInteractive({ useHandCursor: true });
+        this.startButton.on('pointerdown', () => this.startGame());
+
+        const back = this.add.text(centerX, height - 30 * HD_SCALE, 'BACK', {
+            fontSize: `${14 * HD_SCALE}px`,
+            fontFamily: 'Arial Black',
+            color: '#ffffff',
+            stroke: '#000000',
+            strokeThickness: 2
+        }).setOrigin(0.5);
+        back.setInteractive({ useHandCursor: true });
+        back.on('pointerdown', () => this.close());
+
+        this.input.keyboard?.on('keydown-ENTER', () => this.startGame());
+        this.input.keyboard?.on('keydown-ESC', () => this.close());
+        this.events.once('shutdown', () => this.input.keyboard?.removeAllListeners());
+
+        this.refresh();
+    }
+
+    /**
+     * One slot per loadout pick, like the in-match inventory
+     */
+    private createSlots(centerX: number, y: number): void {
+        const size = 40 * HD_SCALE;
+        const spacing = size + 10 * HD_SCALE;
+        for (let i = 0; i < LOADOUT_RULES.SIZE; i++) {
+            const x = centerX + (i - (LOADOUT_RULES.SIZE - 1) / 2) * spacing;
+            this.add.rectangle(x, y, size, size, 0x000000, 0.6).setStrokeStyle(2, 0xffffff, 0.5);
+            this.slotTexts.push(this.add.text(x, y, '', {
+                fontSize: `${20 * HD_SCALE}px`,
+                fontFamily: 'Arial'
+            }).setOrigin(0.5));
+        }
+    }
+
+    private createCard(definition: IPowerUpDefinition, x: number, y: number, width: number, height: number): void {
+        const unlocked = this.unlocked.includes(definition);
+        const color = unlocked ? PowerUpLoader.toColor(definition) : 0x444444;
+        const card = this.add.rectangle(x, y, width, height, color, 0.25);
+        card.setStrokeStyle(2, 0x666666);
+
+        this.add.text(x, y - height * 0.18, unlocked ? definition.icon : '🔒', {
+            fontSize: `${18 * HD_SCALE}px`,
+            fontFamily: 'Arial'
+        }).setOrigin(0.5);
+        this.add.text(x, y + height * 0.28, unlocked ? definition.name : `★ ${definition.unlockStars ?? 0}`, {
+            fontSize: `${9 * HD_SCALE}px`,
+            fontFamily: 'Arial Black',
+            color: unlocked ? '#ffffff' : '#ffd700',
+            align: 'center',
+            wordWrap: { width: width - 4 * HD_SCALE }
+        }).setOrigin(0.5);
+
+        if (unlocked) {
+            card.setInteractive({ useHandCursor: true });
+            card.on('pointerdown', () => {
+                this.loadout = toggleLoadoutPick(this.loadout, definition.id);
+                this.refresh();
+            });
+            this.cards.set(definition.id, card);
+        }
+    }
+
+    private refresh(): void {
+        this.cards.forEach((card, id) => {
+            card.setStrokeStyle(this.loadout.includes(id) ? 4 : 2, this.loadout.includes(id) ? 0x00ff00 : 0x666666);
+        });
+        this.slotTexts.forEach((text, index) => {
+            const definition = this.unlocked.find(candidate => candidate.id === this.loadout[index]);
+            text.setText(definition?.icon ?? '');
+        });
+        this.startButton.setAlpha(isValidLoadout(this.loadout) ? 1 : 0.4);
+    }
+
+    private startGame(): void {
+        if (!isValidLoadout(this.loadout)) {
+            return;
+        }
+        LoadoutStore.save(this.loadout);
+        this.scene.start(SceneKeys.GAME, { theme: this.theme, loadout: this.loadout });
+    }
+
+    private close(): void {
+        this.scene.start(SceneKeys.THEME_SELECT);
+    }
+}
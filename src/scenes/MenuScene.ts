@@ -4,6 +4,13 @@ import { SceneManager } from '@systems/core/SceneManager';
 import { GAME_CONSTANTS } from '@config/GameConfig';
 import { ASSET_KEYS } from '@config/AssetManifest';
 import { PerformanceMonitor } from '@utils/PerformanceMonitor';
+import { FIREBASE_CONFIG } from '@config/FirebaseConfig';
+import { RandomService } from '@/core/RandomService';
+import { NetworkSession } from '@/systems/network/NetworkSession';
+import { FirebaseAdapter } from '@/systems/network/FirebaseAdapter';
+import { LoopbackAdapter } from '@/systems/network/LoopbackAdapter';
+import { INetworkAdapter, INetworkMatchInfo } from '@/types/NetworkTypes';
+import { TutorialProgressStore } from '@/systems/tutorial/TutorialProgressStore';
 
 export class MenuScene extends Scene {
     private sceneManager!: SceneManager;
@@ -12,6 +19,7 @@ export class MenuScene extends Scene {
     private titleText!: Phaser.GameObjects.Text;
     private versionText!: Phaser.GameObjects.Text;
     private fpsText!: Phaser.GameObjects.Text;
+    private networkSession?: NetworkSession;
 
     constructor() {
         super({ key: SceneKeys.MENU });
@@ -118,7 +126,15 @@ export class MenuScene extends Scene {
     private createMenuButtons(): void {
         const buttonData = [
             { text: 'PLAY', action: () => this.startGame() },
+            { text: 'CAMPAIGN', action: () => this.openCampaign() },
+            { text: 'ONLINE', action: () => this.openOnline() },
+            { text: 'LOCAL 2P', action: () => this.startLocalVersus() },
+            { text: 'SURVIVAL', action: () => this.startSurvival() },
+            { text: 'TIME ATTACK', action: () => this.startTimeAttack() },
             { text: 'PRACTICE', action: () => this.startPractice() },
+            { text: 'TUTORIAL', action: () => this.openTutorial(SceneKeys.MENU) },
+            { text: 'REPLAY', action: () => this.openReplay() },
+            { text: 'EDITOR', action: () => this.openEditor() },
             { text: 'SETTINGS', action: () => this.openSettings() },
             { text: 'ABOUT', action: () => this.showAbout() }
         ];
@@ -241,6 +257,12 @@ export class MenuScene extends Scene {
     }
 
     private startGame(): void {
+        // First match - offer the tutorial once before it
+        if (TutorialProgressStore.shouldOffer()) {
+            this.offerTutorial();
+            return;
+        }
+
         console.log('Opening theme selection...');
         this.tweens.add({
             targets: this.buttons,
@@ -252,14 +274,225 @@ export class MenuScene extends Scene {
         });
     }
 
+    private startLocalVersus(): void {
+        console.log('Starting local versus...');
+        this.tweens.add({
+            targets: this.buttons,
+            alpha: 0,
+            duration: 300,
+            onComplete: () => {
+                this.scene.start(SceneKeys.GAME, { mode: 'local' });
+            }
+        });
+    }
+
+    private startSurvival(): void {
+        console.log('Starting survival mode...');
+        this.tweens.add({
+            targets: this.buttons,
+            alpha: 0,
+            duration: 300,
+            onComplete: () => {
+                this.scene.start(SceneKeys.GAME, { mode: 'survival' });
+            }
+        });
+    }
+
+    private startTimeAttack(): void {
+        console.log('Starting time attack...');
+        this.tweens.add({
+            targets: this.buttons,
+            alpha: 0,
+            duration: 300,
+            onComplete: () => {
+                this.scene.start(SceneKeys.GAME, { mode: 'time-attack' });
+            }
+        });
+    }
+
     private startPractice(): void {
         console.log('Starting practice mode...');
-        this.showMessage('Practice Mode Coming Soon!');
+        this.tweens.add({
+            targets: this.buttons,
+            alpha: 0,
+            duration: 300,
+            onComplete: () => {
+                this.scene.start(SceneKeys.GAME, { mode: 'practice' });
+            }
+        });
+    }
+
+    private openCampaign(): void {
+        console.log('Opening campaign...');
+        this.scene.start(SceneKeys.WORLD_MAP);
+    }
+
+    /**
+     * @param returnTo Scene after the tutorial - theme selection when it was offered before a match
+     */
+    private openTutorial(returnTo: string): void {
+        console.log('Opening tutorial...');
+        this.scene.start(SceneKeys.TUTORIAL, { returnTo });
+    }
+
+    /**
+     * Ask a new player whether to learn the basics first. Either answer counts as offered.
+     */
+    private offerTutorial(): void {
+        const { centerX, centerY, width, height } = this.cameras.main;
+
+        const overlay = this.add.rectangle(centerX, centerY, width, height, 0x000000, 0.7);
+        overlay.setInteractive();
+
+        const messageBox = this.add.rectangle(centerX, centerY, 400, 260, 0x2c3e50, 1);
+        messageBox.setStrokeStyle(2, 0xffffff);
+
+        const messageText = this.add.text(
+            centerX,
+            centerY - 70,
+            'New to Bubble Battle?\nLearn the basics in a few short steps.',
+            {
+                fontFamily: 'Arial, sans-serif',
+                fontSize: '18px',
+                color: GAME_CONSTANTS.COLORS.UI_TEXT,
+                align: 'center',
+                wordWrap: { width: 350 }
+            }
+        ).setOrigin(0.5);
+
+        const close = (): void => {
+            overlay.destroy();
+            messageBox.destroy();
+            messageText.destroy();
+            tutorialButton.destroy();
+            skipButton.destroy();
+        };
+
+        const tutorialButton = this.createButton(centerX, centerY + 10, 'TUTORIAL', () => {
+            close();
+            this.openTutorial(SceneKeys.THEME_SELECT);
+        });
+        const skipButton = this.createButton(centerX, centerY + 80, 'SKIP', () => {
+            close();
+            TutorialProgressStore.markCompleted();
+            this.startGame();
+        });
+    }
+
+    private openReplay(): void {
+        console.log('Opening last replay...');
+        this.sceneManager.transitionTo(SceneKeys.REPLAY);
+    }
+
+    private openEditor(): void {
+        console.log('Opening level editor...');
+        this.sceneManager.transitionTo(SceneKeys.EDITOR);
+    }
+
+    /**
+     * Join an online room and wait for the opponent.
+     * Room and transport come from the URL: ?room=abc&net=firebase (default: loopback,
+     * which pairs two tabs of this page).
+     */
+    private openOnline(): void {
+        if (this.networkSession) {
+            return;
+        }
+
+        const params = new URLSearchParams(window.location.search);
+        const roomId = params.get('room') || 'local';
+        const transport = params.get('net') === 'firebase' ? 'firebase' : 'loopback';
+        const theme = (this.registry.get('gameTheme') as string | undefined) || 'ocean';
+
+        const session = new NetworkSession(this.createNetworkAdapter(transport), GAME_CONSTANTS.NETWORKING, {
+            roomId,
+            seed: RandomService.generateSeed(),
+            theme
+        });
+        this.networkSession = session;
+
+        const lobby = this.showOnlineLobby(`Waiting for an opponent...\nRoom: ${roomId} (${transport})`, () => {
+            this.networkSession = undefined;
+            void session.disconnect();
+        });
+
+        session.once('peer-joined', (info: INetworkMatchInfo) => {
+            console.log(`Online match found - ${info.isHost ? 'hosting' : 'joining'} with seed ${info.seed}`);
+            this.networkSession = undefined;
+            this.scene.start(SceneKeys.GAME, {
+                theme: info.theme,
+                seed: info.seed,
+                network: session
+            });
+        });
+
+        session.connect().catch(error => {
+            console.error('Online connection failed', error);
+            lobby.setText('Connection failed');
+            this.networkSession = undefined;
+        });
+    }
+
+    private createNetworkAdapter(transport: 'firebase' | 'loopback'): INetworkAdapter {
+        return transport === 'firebase' ? new FirebaseAdapter(FIREBASE_CONFIG) : new LoopbackAdapter();
+    }
+
+    /**
+     * Lobby overlay with a cancel button - returns the status text
+     */
+    private showOnlineLobby(text: string, onCancel: () => void): Phaser.GameObjects.Text {
+        const overlay = this.add.rectangle(
+            this.cameras.main.centerX,
+            this.cameras.main.centerY,
+            this.cameras.main.width,
+            this.cameras.main.height,
+            0x000000,
+            0.7
+        );
+        overlay.setInteractive();
+
+        const messageBox = this.add.rectangle(
+            this.cameras.main.centerX,
+            this.cameras.main.centerY,
+            400,
+            200,
+            0x2c3e50,
+            1
+        );
+        messageBox.setStrokeStyle(2, 0xffffff);
+
+        const messageText = this.add.text(
+            this.cameras.main.centerX,
+            this.cameras.main.centerY - 30,
+            text,
+            {
+                fontFamily: 'Arial, sans-serif',
+                fontSize: '18px',
+                color: GAME_CONSTANTS.COLORS.UI_TEXT,
+                align: 'center',
+                wordWrap: { width: 350 }
+            }
+        ).setOrigin(0.5);
+
+        const cancelButton = this.createButton(
+            this.cameras.main.centerX,
+            this.cameras.main.centerY + 60,
+            'CANCEL',
+            () => {
+                overlay.destroy();
+                messageBox.destroy();
+                messageText.destroy();
+                cancelButton.destroy();
+                onCancel();
+            }
+        );
+
+        return messageText;
     }
 
     private openSettings(): void {
         console.log('Opening settings...');
-        this.showMessage('Settings Coming Soon!');
+        this.sceneManager.transitionTo(SceneKeys.SETTINGS);
     }
 
     private showAbout(): void {
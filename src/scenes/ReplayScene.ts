@@ -0,0 +1,392 @@
+/**
+ * ReplayScene - Plays back a recorded match
+ * Rebuilds the arena from the replay seed + theme and feeds the recorded shots and
+ * power-up activations back through ShootingSystem and PowerUpActivationSystem, so
+ * GridAttachmentSystem and match detection run exactly as they did live. Supports pause, 0.5x/1x/2x/4x speed and seeking.
+ */
+
+import { Scene } from 'phaser';
+import { SceneKeys } from '@/types/GameTypes';
+import { ThemeType } from '@/scenes/ThemeSelectScene';
+import { IReplayEvent, IReplayLog } from '@/types/ReplayTypes';
+import { BubbleColor } from '@/types/ArenaTypes';
+import { ArenaCoordinator } from '@/coordinators/ArenaCoordinator';
+import { GameEventBus } from '@/core/EventBus';
+import { ReplayRecorder } from '@/systems/replay/ReplayRecorder';
+import { BackgroundSystem } from '@/systems/visual/BackgroundSystem';
+import { Z_LAYERS } from '@/config/ArenaConfig';
+import { HD_SCALE } from '@/config/GameConfig';
+
+interface IReplaySceneData {
+    replay?: IReplayLog;
+    seekTo?: number; // ms - fast-forward to this time after loading
+}
+
+export class ReplayScene extends Scene {
+    private static readonly SPEEDS = [0.5, 1, 2, 4];
+    private static readonly SEEK_SPEED = 8; // Fast-forward speed while seeking
+    private static readonly SEEK_STEP = 10000; // Arrow keys jump 10 seconds
+
+    private arenaCoordinator?: ArenaCoordinator;
+    private backgroundSystem?: BackgroundSystem;
+    private replay: IReplayLog | null = null;
+
+    // Playback state
+    private playbackTime: number = 0;
+    private nextEventIndex: number = 0;
+    private speed: number = 1;
+    private isPaused: boolean = false;
+    private seekTarget: number | null = null;
+    private isFinished: boolean = false;
+
+    // Live vs recorded attachments - a mismatch means the replay diverged
+    private liveAttachCount: number = 0;
+    private recordedAttachCount: number = 0;
+
+    // HUD
+    private timeText!: Phaser.GameObjects.Text;
+    private statusText!: Phaser.GameObjects.Text;
+    private syncText!: Phaser.GameObjects.Text;
+    private pauseText!: Phaser.GameObjects.Text;
+    private speedTexts: Map<number, Phaser.GameObjects.Text> = new Map();
+    private progressFill!: Phaser.GameObjects.Rectangle;
+    private progressWidth: number = 0;
+
+    constructor() {
+        super({ key: SceneKeys.REPLAY });
+    }
+
+    public init(data: IReplaySceneData): void {
+        this.replay = data?.replay ?? ReplayRecorder.loadLatest();
+        this.playbackTime = 0;
+        this.nextEventIndex = 0;
+        this.isPaused = false;
+        this.isFinished = false;
+        this.seekTarget = data?.seekTo > 0 ? data.seekTo : null;
+        this.liveAttachCount = 0;
+        this.recordedAttachCount = 0;
+        this.speedTexts.clear();
+
+        // Scene clocks survive restarts - start from a clean state
+        this.time.timeScale = 1;
+        this.time.paused = false;
+        this.tweens.timeScale = 1;
+    }
+
+    public create(): void {
+        if (!this.replay) {
+            this.showNoReplay();
+            return;
+        }
+
+        // Same seed + theme = same starting field, same row spawns
+        this.registry.set('gameTheme', this.replay.theme);
+        this.registry.set('matchSeed', this.replay.seed);
+
+        this.backgroundSystem = new BackgroundSystem(this, {
+            theme: this.replay.theme as ThemeType,
+            quality: 'medium',
+            enableParticles: false,
+            enableAnimation: true
+        });
+
+        this.arenaCoordinator = new ArenaCoordinator(this);
+        this.arenaCoordinator.setReplayMode(true);
+        void this.arenaCoordinator.initialize(false);
+
+        GameEventBus.getInstance().onTyped('bubble-attached', this.onLiveAttach);
+
+        this.createControls();
+        this.setupKeyboardControls();
+        this.applySpeed();
+
+        this.events.once('shutdown', () => this.shutdown());
+    }
+
+    public override update(time: number, delta: number): void {
+        if (!this.arenaCoordinator || this.isPaused) {
+            return;
+        }
+
+        const scaledDelta = delta * this.getEffectiveSpeed();
+        this.playbackTime += scaledDelta;
+
+        this.dispatchEvents();
+        this.arenaCoordinator.update(time, scaledDelta);
+
+        // Seek reached - back to the chosen speed
+        if (this.seekTarget !== null && this.playbackTime >= this.seekTarget) {
+            this.seekTarget = null;
+            this.applySpeed();
+        }
+
+        this.updateHud();
+    }
+
+    /**
+     * Play every recorded event whose time has come
+     */
+    private dispatchEvents(): void {
+        const events = this.replay.events;
+        while (this.nextEventIndex < events.length && events[this.nextEventIndex].time <= this.playbackTime) {
+            this.playEvent(events[this.nextEventIndex]);
+            this.nextEventIndex++;
+        }
+    }
+
+    private playEvent(event: IReplayEvent): void {
+        switch (event.type) {
+            case 'shot-fired': {
+                const data = (event as IReplayEvent<'shot-fired'>).data;
+                this.arenaCoordinator.shootingSystem?.fireReplayShot(
+                    data.isPlayer,
+                    data.angle,
+                    data.color as BubbleColor
+                );
+                break;
+            }
+            case 'bubble-attached':
+                this.recordedAttachCount++;
+                break;
+            case 'match-completed': {
+                const data = (event as IReplayEvent<'match-completed'>).data;
+                this.setStatus(`${this.sideLabel(data.isPlayer)} matched ${data.count} (combo ${data.combo})`);
+                break;
+            }
+            case 'reset-completed': {
+                const data = (event as IReplayEvent<'reset-completed'>).data;
+                this.setStatus(`${this.sideLabel(data.isPlayer)} reset - lost ${data.gemsLost} gems`);
+                break;
+            }
+            case 'powerup-activated': {
+                const data = (event as IReplayEvent<'powerup-activated'>).data;
+                this.arenaCoordinator.playReplayPowerUp(data.type, data.isPlayer, data.plan);
+                this.setStatus(`${this.sideLabel(data.isPlayer)} used ${data.type.toUpperCase()}`);
+                break;
+            }
+            case 'game-over': {
+                const data = (event as IReplayEvent<'game-over'>).data;
+                this.isFinished = true;
+                this.setStatus(data.winner === 'tie' ? 'Replay finished - tie' : `Replay finished - ${data.winner} wins`);
+                break;
+            }
+        }
+    }
+
+    private onLiveAttach = (): void => {
+        this.liveAttachCount++;
+    };
+
+    private sideLabel(isPlayer: boolean): string {
+        return isPlayer ? 'Player' : 'AI';
+    }
+
+    private setStatus(text: string): void {
+        this.statusText?.setText(text);
+    }
+
+    /**
+     * Effective playback speed (seeking overrides the chosen speed)
+     */
+    private getEffectiveSpeed(): number {
+        return this.seekTarget !== null ? ReplayScene.SEEK_SPEED : this.speed;
+    }
+
+    /**
+     * Scale timers and tweens so row spawns and animations follow playback speed
+     */
+    private applySpeed(): void {
+        const speed = this.getEffectiveSpeed();
+        this.time.timeScale = speed;
+        this.tweens.timeScale = speed;
+
+        this.speedTexts.forEach((text, value) => {
+            text.setColor(value === this.speed ? '#ffd700' : '#ffffff');
+        });
+    }
+
+    public setSpeed(speed: number): void {
+        this.speed = speed;
+        this.applySpeed();
+    }
+
+    public togglePause(): void {
+        this.isPaused = !this.isPaused;
+        this.time.paused = this.isPaused;
+        if (this.isPaused) {
+            this.tweens.pauseAll();
+        } else {
+            this.tweens.resumeAll();
+        }
+        this.pauseText?.setText(this.isPaused ? 'PLAY' : 'PAUSE');
+    }
+
+    /**
+     * Seek to a match time in ms.
+     * Forward seeks fast-forward in place; backward seeks rebuild the arena and fast-forward from the start.
+     */
+    public seek(target: number): void {
+        const clamped = Phaser.Math.Clamp(target, 0, this.replay.duration);
+
+        if (clamped >= this.playbackTime) {
+            this.seekTarget = clamped;
+            this.applySpeed();
+            return;
+        }
+
+        this.scene.restart({ replay: this.replay, seekTo: clamped });
+    }
+
+    private createControls(): void {
+        const { width } = this.cameras.main;
+        const depth = Z_LAYERS.UI + 300;
+        const barY = 24 * HD_SCALE;
+        const fontSize = `${12 * HD_SCALE}px`;
+
+        const panel = this.add.rectangle(width / 2, barY + 18 * HD_SCALE, width, 60 * HD_SCALE, 0x000000, 0.6);
+        panel.setDepth(depth);
+
+        // Buttons row
+        const buttons: Array<{ label: string; action: () => void; speed?: number }> = [
+            { label: 'PAUSE', action: () => this.togglePause() },
+            { label: '-10s', action: () => this.seek(this.playbackTime - ReplayScene.SEEK_STEP) },
+            { label: '+10s', action: () => this.seek(this.playbackTime + ReplayScene.SEEK_STEP) },
+            ...ReplayScene.SPEEDS.map(speed => ({
+                label: `${speed}x`,
+                action: () => this.setSpeed(speed),
+                speed
+            })),
+            { label: 'EXIT', action: () => this.exitReplay() }
+        ];
+
+        const spacing = width / (buttons.length + 1);
+        buttons.forEach((button, index) => {
+            const text = this.add.text(spacing * (index + 1), barY, button.label, {
+                fontSize,
+                fontFamily: 'Arial Black',
+                color: '#ffffff',
+                stroke: '#000000',
+                strokeThickness: 2
+            });
+            text.setOrigin(0.5);
+            text.setDepth(depth + 1);
+            text.setInteractive({ useHandCursor: true });
+            text.on('pointerdown', button.action);
+
+            if (index === 0) {
+                this.pauseText = text;
+            }
+            if (button.speed !== undefined) {
+                this.speedTexts.set(button.speed, text);
+            }
+        });
+
+        // Progress bar - click to seek
+        const progressY = barY + 22 * HD_SCALE;
+        this.progressWidth = width * 0.6;
+        const progressX = (width - this.progressWidth) / 2;
+
+        const progressBg = this.add.rectangle(progressX, progressY, this.progressWidth, 8 * HD_SCALE, 0x333333, 1);
+        progressBg.setOrigin(0, 0.5);
+        progressBg.setDepth(depth + 1);
+        progressBg.setInteractive({ useHandCursor: true });
+        progressBg.on('pointerdown', (pointer: Phaser.Input.Pointer) => {
+            const ratio = Phaser.Math.Clamp((pointer.x - progressX) / this.progressWidth, 0, 1);
+            this.seek(ratio * this.replay.duration);
+        });
+
+        this.progressFill = this.add.rectangle(progressX, progressY, 0, 8 * HD_SCALE, 0xffd700, 1);
+        this.progressFill.setOrigin(0, 0.5);
+        this.progressFill.setDepth(depth + 2);
+
+        this.timeText = this.add.text(progressX - 8 * HD_SCALE, progressY, '0:00', {
+            fontSize,
+            fontFamily: 'Arial',
+            color: '#ffffff'
+        });
+        this.timeText.setOrigin(1, 0.5);
+        this.timeText.setDepth(depth + 1);
+
+        this.syncText = this.add.text(progressX + this.progressWidth + 8 * HD_SCALE, progressY, '', {
+            fontSize,
+            fontFamily: 'Arial',
+            color: '#00ff00'
+        });
+        this.syncText.setOrigin(0, 0.5);
+        this.syncText.setDepth(depth + 1);
+
+        this.statusText = this.add.text(width / 2, barY + 44 * HD_SCALE, 'Replay', {
+            fontSize,
+            fontFamily: 'Arial',
+            color: '#ffffff',
+            stroke: '#000000',
+            strokeThickness: 2
+        });
+        this.statusText.setOrigin(0.5);
+        this.statusText.setDepth(depth + 1);
+    }
+
+    private updateHud(): void {
+        const duration = Math.max(1, this.replay.duration);
+        const ratio = Phaser.Math.Clamp(this.playbackTime / duration, 0, 1);
+        this.progressFill.width = this.progressWidth * ratio;
+
+        this.timeText.setText(`${this.formatTime(this.playbackTime)} / ${this.formatTime(duration)}`);
+
+        // Attachments lag their shots by a tween, so only flag a real gap
+        const drift = Math.abs(this.liveAttachCount - this.recordedAttachCount);
+        this.syncText.setText(`attached ${this.liveAttachCount}/${this.recordedAttachCount}`);
+        this.syncText.setColor(drift > 1 ? '#ff4444' : '#00ff00');
+
+        if (this.isFinished && !this.isPaused && this.playbackTime > duration + 2000) {
+            this.togglePause();
+        }
+    }
+
+    private formatTime(ms: number): string {
+        const totalSeconds = Math.floor(Math.max(0, ms) / 1000);
+        const minutes = Math.floor(totalSeconds / 60);
+        const seconds = totalSeconds % 60;
+        return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+    }
+
+    private setupKeyboardControls(): void {
+        this.input.keyboard?.on('keydown-SPACE', () => this.togglePause());
+        this.input.keyboard?.on('keydown-LEFT', () => this.seek(this.playbackTime - ReplayScene.SEEK_STEP));
+        this.input.keyboard?.on('keydown-RIGHT', () => this.seek(this.playbackTime + ReplayScene.SEEK_STEP));
+        this.input.keyboard?.on('keydown-ONE', () => this.setSpeed(0.5));
+        this.input.keyboard?.on('keydown-TWO', () => this.setSpeed(1));
+        this.input.keyboard?.on('keydown-THREE', () => this.setSpeed(2));
+        this.input.keyboard?.on('keydown-FOUR', () => this.setSpeed(4));
+        this.input.keyboard?.on('keydown-ESC', () => this.exitReplay());
+    }
+
+    private showNoReplay(): void {
+        const { centerX, centerY } = this.cameras.main;
+
+        this.add.text(centerX, centerY, 'No replay recorded yet\n\nTap to return', {
+            fontSize: `${18 * HD_SCALE}px`,
+            fontFamily: 'Arial',
+            color: '#ffffff',
+            align: 'center'
+        }).setOrigin(0.5);
+
+        this.input.once('pointerdown', () => this.exitReplay());
+    }
+
+    private exitReplay(): void {
+        this.scene.start(SceneKeys.MENU);
+    }
+
+    public shutdown(): void {
+        this.arenaCoordinator?.cleanup();
+        this.arenaCoordinator = undefined;
+        this.backgroundSystem?.destroy();
+        this.backgroundSystem = undefined;
+        this.input.keyboard?.removeAllListeners();
+
+        this.time.timeScale = 1;
+        this.time.paused = false;
+        this.tweens.timeScale = 1;
+    }
+}
@@ -0,0 +1,197 @@
+/**
+ * SettingsScene - Edit and save the player's settings
+ * Opened from the menu, or launched over a paused GameScene with { overlay: true }.
+ * Every change goes straight to SettingsStore, which saves it and lets the running
+ * arena pick it up, so there is no separate apply step.
+ */
+
+import { Scene } from 'phaser';
+import { IGameSettings, QualitySetting, SceneKeys } from '@/types/GameTypes';
+import { SceneManager } from '@/systems/core/SceneManager';
+import { SettingsStore } from '@/systems/settings/SettingsStore';
+import { HapticManager } from '@/systems/audio/HapticManager';
+import { HD_SCALE } from '@/config/GameConfig';
+
+type ToggleKey = 'soundEnabled' | 'musicEnabled' | 'vibrationEnabled' | 'trajectoryPreview' | 'reducedMotion';
+type RangeKey = 'masterVolume' | 'sfxVolume' | 'musicVolume' | 'aimSensitivity';
+
+type SettingRow =
+    | { kind: 'toggle'; key: ToggleKey; label: string }
+    | { kind: 'range'; key: RangeKey; label: string; min: number; max: number; step: number }
+    | { kind: 'choice'; key: 'quality' | 'language'; label: string; options: string[] };
+
+interface ISettingsSceneData {
+    overlay?: boolean;
+}
+
+export class SettingsScene extends Scene {
+    private static readonly QUALITY_OPTIONS: QualitySetting[] = ['auto', 'low', 'medium', 'high'];
+    private static readonly LANGUAGES = ['en'];
+    private static readonly ROWS: SettingRow[] = [
+        { kind: 'toggle', key: 'soundEnabled', label: 'SOUND' },
+        { kind: 'range', key: 'masterVolume', label: 'MASTER VOLUME', min: 0, max: 1, step: 0.1 },
+        { kind: 'range', key: 'sfxVolume', label: 'SFX VOLUME', min: 0, max: 1, step: 0.1 },
+        { kind: 'toggle', key: 'musicEnabled', label: 'MUSIC' },
+        { kind: 'range', key: 'musicVolume', label: 'MUSIC VOLUME', min: 0, max: 1, step: 0.1 },
+        { kind: 'toggle', key: 'vibrationEnabled', label: 'VIBRATION' },
+        { kind: 'choice', key: 'quality', label: 'QUALITY', options: SettingsScene.QUALITY_OPTIONS },
+        { kind: 'toggle', key: 'trajectoryPreview', label: 'AIM PREVIEW' },
+        { kind: 'range', key: 'aimSensitivity', label: 'AIM SENSITIVITY', min: 0.1, max: 1, step: 0.1 },
+        { kind: 'toggle', key: 'reducedMotion', label: 'REDUCED MOTION' },
+        { kind: 'choice', key: 'language', label: 'LANGUAGE', options: SettingsScene.LANGUAGES }
+    ];
+
+    private store!: SettingsStore;
+    private isOverlay: boolean = false;
+    private valueTexts: Map<keyof IGameSettings, Phaser.GameObjects.Text> = new Map();
+
+    constructor() {
+        super({ key: SceneKeys.SETTINGS });
+    }
+
+    public init(data: ISettingsSceneData): void {
+        this.store = SettingsStore.getInstance();
+        this.isOverlay = data?.overlay === true;
+        this.valueTexts.clear();
+        if (!this.isOverlay) {
+            SceneManager.getInstance().setCurrentScene(SceneKeys.SETTINGS);
+        }
+    }
+
+    public create(): void {
+        const { width, height, centerX } = this.cameras.main;
+
+        // Blocks clicks to the paused game underneath when shown as an overlay
+        const background = this.add.rectangle(0, 0, width, height, 0x101624, this.isOverlay ? 0.92 : 1);
+        background.setOrigin(0, 0);
+        background.setInteractive();
+
+        this.add.text(centerX, 40 * HD_SCALE, 'SETTINGS', {
+            fontSize: `${18 * HD_SCALE}px`,
+            fontFamily: 'Arial Black',
+            color: '#ffffff',
+            stroke: '#000000',
+            strokeThickness: 3
+        }).setOrigin(0.5);
+
+        const rowHeight = 42 * HD_SCALE;
+        const startY = 100 * HD_SCALE;
+        SettingsScene.ROWS.forEach((row, index) => this.createRow(row, startY + index * rowHeight));
+
+        const buttonY = height - 70 * HD_SCALE;
+        this.createTextButton(width / 3, buttonY, 'RESET', () => this.resetSettings());
+        this.createTextButton((width * 2) / 3, buttonY, this.isOverlay ? 'CLOSE' : 'BACK', () => this.close());
+
+        this.input.keyboard?.on('keydown-ESC', () => this.close());
+        this.events.once('shutdown', () => this.input.keyboard?.removeAllListeners());
+
+        this.refresh();
+    }
+
+    /**
+     * Label on the left, value on the right - tap the value to toggle or cycle,
+     * use the - and + buttons to step ranges
+     */
+    private createRow(row: SettingRow, y: number): void {
+        const { width } = this.cameras.main;
+        const valueX = width - 90 * HD_SCALE;
+
+        this.add.text(30 * HD_SCALE, y, row.label, {
+            fontSize: `${11 * HD_SCALE}px`,
+            fontFamily: 'Arial Black',
+            color: '#ffffff'
+        }).setOrigin(0, 0.5);
+
+        if (row.kind === 'range') {
+            this.createTextButton(valueX - 55 * HD_SCALE, y, '-', () => this.step(row, -1));
+            this.createTextButton(valueX + 55 * HD_SCALE, y, '+', () => this.step(row, 1));
+            this.valueTexts.set(row.key, this.createValueText(valueX, y));
+            return;
+        }
+
+        const value = this.createValueText(valueX, y);
+        value.setInteractive({ useHandCursor: true });
+        value.on('pointerdown', () => {
+            if (row.kind === 'toggle') {
+                this.change({ [row.key]: !this.store.get()[row.key] });
+            } else {
+                const options = row.options;
+                const next = options[(options.indexOf(this.store.get()[row.key]) + 1) % options.length];
+                this.change({ [row.key]: next });
+            }
+        });
+        this.valueTexts.set(row.key, value);
+    }
+
+    private createValueText(x: number, y: number): Phaser.GameObjects.Text {
+        return this.add.text(x, y, '', {
+            fontSize: `${11 * HD_SCALE}px`,
+            fontFamily: 'Arial Black',
+            color: '#ffd700',
+            stroke: '#000000',
+            strokeThickness: 2
+        }).setOrigin(0.5);
+    }
+
+    private createTextButton(x: number, y: number, label: string, action: () => void): Phaser.GameObjects.Text {
+        const text = this.add.text(x, y, label, {
+            fontSize: `${14 * HD_SCALE}px`,
+            fontFamily: 'Arial Black',
+            color: '#ffffff',
+            stroke: '#000000',
+            strokeThickness: 2
+        });
+        text.setOrigin(0.5);
+        text.setInteractive({ useHandCursor: true });
+        text.on('pointerdown', action);
+        return text;
+    }
+
+    private step(row: Extract<SettingRow, { kind: 'range' }>, direction: number): void {
+        const current = this.store.get()[row.key];
+        // Round so repeated steps land on 0.1, 0.2... instead of drifting
+        const next = Math.round((current + direction * row.step) / row.step) * row.step;
+        this.change({ [row.key]: Math.max(row.min, Math.min(row.max, next)) });
+    }
+
+    private change(changes: Partial<IGameSettings>): void {
+        const settings = this.store.update(changes);
+        // Vibration is app-wide, not owned by a scene
+        HapticManager.getInstance().setEnabled(settings.vibrationEnabled);
+        this.refresh();
+    }
+
+    private resetSettings(): void {
+        const settings = this.store.reset();
+        HapticManager.getInstance().setEnabled(settings.vibrationEnabled);
+        this.refresh();
+    }
+
+    private refresh(): void {
+        const settings = this.store.get();
+        SettingsScene.ROWS.forEach(row => {
+            const text = this.valueTexts.get(row.key);
+            if (!text) {
+                return;
+            }
+            if (row.kind === 'toggle') {
+                text.setText(settings[row.key] ? 'ON' : 'OFF');
+            } else if (row.kind === 'range') {
+                text.setText(`${Math.round(settings[row.key] * 100)}%`);
+            } else {
+                text.setText(settings[row.key].toUpperCase());
+            }
+        });
+    }
+
+    /**
+     * Back to the menu, or hand control back to the paused game
+     */
+    private close(): void {
+        if (this.isOverlay) {
+            this.scene.stop();
+            return;
+        }
+        SceneManager.getInstance().transitionTo(SceneKeys.MENU);
+    }
+}
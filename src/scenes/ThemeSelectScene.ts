@@ -288,7 +288,7 @@ export class ThemeSelectScene extends Scene {
         this.confirmButton.add(bg);
         
         // Button text - optimized size for mobile
-        const text = this.add.text(0, 0, 'START GAME', {
+        const text = this.add.text(0, 0, 'NEXT', {
             fontSize: `${18 * HD_SCALE}px`,
             fontFamily: 'Arial Black',
             color: '#000000'
@@ -406,8 +406,8 @@ export class ThemeSelectScene extends Scene {
             duration: 500,
             ease: 'Power2',
             onComplete: () => {
-                // Start game with selected theme
-                this.scene.start(SceneKeys.GAME, {
+                // Pick the power-up loadout, then start the game with the selected theme
+                this.scene.start(SceneKeys.LOADOUT, {
                     theme: this.selectedTheme
                 });
             }
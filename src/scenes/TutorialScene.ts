@@ -0,0 +1,336 @@
+/**
+ * TutorialScene - Scripted onboarding, one TUTORIAL_STEPS entry at a time
+ * Each step builds the arena on its bundled level with no opponent, points at
+ * what matters with pulsing highlights, limits the aim where the script asks and
+ * waits for the step's goal on GameEventBus. Finishing the last step or skipping
+ * marks the tutorial done, so PLAY only offers it once.
+ */
+
+import { Scene } from 'phaser';
+import { SceneKeys } from '@/types/GameTypes';
+import { ThemeType } from '@/scenes/ThemeSelectScene';
+import { ITutorialStep, TutorialGoalEvent, TutorialHighlight } from '@/types/TutorialTypes';
+import { ArenaCoordinator } from '@/coordinators/ArenaCoordinator';
+import { GameEventBus, GameEvents } from '@/core/EventBus';
+import { VICTORY_RULES } from '@/core/rules/VictoryRules';
+import { TUTORIAL_STEPS, TutorialGoalTracker } from '@/systems/tutorial/TutorialScript';
+import { TutorialProgressStore } from '@/systems/tutorial/TutorialProgressStore';
+import { BackgroundSystem } from '@/systems/visual/BackgroundSystem';
+import { getLevel } from '@/levels';
+import { BUBBLE_CONFIG, Z_LAYERS } from '@/config/ArenaConfig';
+import { HD_SCALE } from '@/config/GameConfig';
+
+interface ITutorialSceneData {
+    step?: number;
+    returnTo?: string; // Scene after the last step or a skip
+}
+
+export class TutorialScene extends Scene {
+    private static readonly SEED = 1; // Same queue after the scripted colors every time
+    private static readonly NEXT_STEP_DELAY = 1500;
+    private static readonly RETRY_DELAY = 2000;
+
+    private arenaCoordinator?: ArenaCoordinator;
+    private backgroundSystem?: BackgroundSystem;
+    private eventBus: GameEventBus = GameEventBus.getInstance();
+    private stepIndex: number = 0;
+    private step?: ITutorialStep;
+    private tracker?: TutorialGoalTracker;
+    private returnScene: string = SceneKeys.MENU;
+    private isLeaving: boolean = false;
+    private highlights: Phaser.GameObjects.Graphics[] = [];
+    private instructionText?: Phaser.GameObjects.Text;
+
+    constructor() {
+        super({ key: SceneKeys.TUTORIAL });
+    }
+
+    public init(data: ITutorialSceneData): void {
+        this.stepIndex = Phaser.Math.Clamp(data?.step ?? 0, 0, TUTORIAL_STEPS.length - 1);
+        this.returnScene = typeof data?.returnTo === 'string' ? data.returnTo : SceneKeys.MENU;
+        this.isLeaving = false;
+        this.highlights = [];
+    }
+
+    public create(): void {
+        this.step = TUTORIAL_STEPS[this.stepIndex];
+        const level = getLevel(this.step.levelId);
+        if (!level) {
+            console.warn(`TutorialScene: Missing level "${this.step.levelId}" - skipping the tutorial`);
+            this.finish();
+            return;
+        }
+
+        this.registry.set('gameTheme', level.theme || 'ocean');
+        this.registry.set('matchSeed', TutorialScene.SEED);
+
+        this.backgroundSystem = new BackgroundSystem(this, {
+            theme: (level.theme || 'ocean') as ThemeType,
+            quality: 'medium',
+            enableParticles: false,
+            enableAnimation: true
+        });
+
+        // No opponent - the board and the goal are the whole lesson
+        this.arenaCoordinator = new ArenaCoordinator(this);
+        this.arenaCoordinator.setLevel(level);
+        void this.arenaCoordinator.initialize(false).then(() => this.startStep());
+
+        this.createPanel();
+        this.input.keyboard?.on('keydown-ESC', () => this.finish());
+
+        this.events.once('shutdown', () => this.shutdown());
+    }
+
+    public override update(time: number, delta: number): void {
+        this.arenaCoordinator?.update(time, delta);
+    }
+
+    /**
+     * Arena is up - restrict the aim, point at the targets and start listening for the goal
+     */
+    private startStep(): void {
+        if (!this.arenaCoordinator || !this.step) {
+            return;
+        }
+        this.arenaCoordinator.shootingSystem.setAimRange(this.step.aim ?? null);
+        this.step.highlights.forEach(highlight => this.createHighlight(highlight));
+
+        this.tracker = new TutorialGoalTracker(this.step.goal);
+        this.eventBus.onTyped('shot-fired', this.onShotFired);
+        this.eventBus.onTyped('match-completed', this.onMatchCompleted);
+        this.eventBus.onTyped('cascade-completed', this.onCascadeCompleted);
+        this.eventBus.onTyped('gem-collected', this.onGemCollected);
+        this.eventBus.onTyped('powerup-activated', this.onPowerUpActivated);
+        this.eventBus.onTyped('game-over', this.onGameOver);
+        this.events.on('wall-bounce', this.onWallBounce);
+    }
+
+    private stopListening(): void {
+        this.eventBus.offTyped('shot-fired', this.onShotFired);
+        this.eventBus.offTyped('match-completed', this.onMatchCompleted);
+        this.eventBus.offTyped('cascade-completed', this.onCascadeCompleted);
+        this.eventBus.offTyped('gem-collected', this.onGemCollected);
+        this.eventBus.offTyped('powerup-activated', this.onPowerUpActivated);
+        this.eventBus.offTyped('game-over', this.onGameOver);
+        this.events.off('wall-bounce', this.onWallBounce);
+    }
+
+    private onShotFired = (data: GameEvents['shot-fired']): void => {
+        if (data.isPlayer) {
+            this.tracker?.onShotFired();
+        }
+    };
+
+    // No opponent shoots here, so every bounce is the player's shot
+    private onWallBounce = (): void => {
+        this.tracker?.onWallBounce();
+    };
+
+    private onMatchCompleted = (data: GameEvents['match-completed']): void => {
+        this.recordGoalEvent('match-completed', data);
+    };
+
+    private onCascadeCompleted = (data: GameEvents['cascade-completed']): void => {
+        this.recordGoalEvent('cascade-completed', data);
+    };
+
+    private onGemCollected = (data: GameEvents['gem-collected']): void => {
+        this.recordGoalEvent('gem-collected', data);
+    };
+
+    private onPowerUpActivated = (data: GameEvents['powerup-activated']): void => {
+        this.recordGoalEvent('powerup-activated', data);
+    };
+
+    private recordGoalEvent(event: TutorialGoalEvent, data: { isPlayer: boolean; type?: string }): void {
+        if (this.isLeaving || !this.tracker?.record(event, data)) {
+            return;
+        }
+        this.completeStep();
+    }
+
+    /**
+     * The level ran out (time, or a cleared board) before the goal - play the step again
+     */
+    private onGameOver = (): void => {
+        if (this.isLeaving || this.tracker?.isComplete()) {
+            return;
+        }
+        this.isLeaving = true;
+        this.instructionText?.setText('Let\'s try that again');
+        this.time.delayedCall(TutorialScene.RETRY_DELAY, () => {
+            this.scene.restart({ step: this.stepIndex, returnTo: this.returnScene });
+        });
+    };
+
+    private completeStep(): void {
+        this.isLeaving = true;
+        this.stopListening();
+        this.arenaCoordinator.shootingSystem.enabled = false;
+        TutorialProgressStore.recordStep(this.stepIndex + 1);
+
+        const isLast = this.stepIndex === TUTORIAL_STEPS.length - 1;
+        this.instructionText?.setText(isLast ? 'You are ready for battle!' : 'Nice!');
+        this.cameras.main.flash(250, 255, 215, 0);
+
+        this.time.delayedCall(TutorialScene.NEXT_STEP_DELAY, () => {
+            if (isLast) {
+                this.finish();
+            } else {
+                this.scene.restart({ step: this.stepIndex + 1, returnTo: this.returnScene });
+            }
+        });
+    }
+
+    /**
+     * Done or skipped - either way the tutorial is not offered again
+     */
+    private finish(): void {
+        this.isLeaving = true;
+        TutorialProgressStore.markCompleted();
+        this.scene.start(this.returnScene);
+    }
+
+    private createPanel(): void {
+        const { width } = this.cameras.main;
+        const depth = Z_LAYERS.UI + 300;
+        const panelY = 120 * HD_SCALE;
+
+        const panel = this.add.rectangle(width / 2, panelY, width * 0.9, 150 * HD_SCALE, 0x000000, 0.7);
+        panel.setStrokeStyle(2, 0xffd700);
+        panel.setDepth(depth);
+
+        const progress = this.add.text(width / 2, panelY - 55 * HD_SCALE, `STEP ${this.stepIndex + 1}/${TUTORIAL_STEPS.length}`, {
+            fontSize: `${11 * HD_SCALE}px`,
+            fontFamily: 'Arial',
+            color: '#aaaaaa'
+        });
+        progress.setOrigin(0.5);
+        progress.setDepth(depth + 1);
+
+        const title = this.add.text(width / 2, panelY - 32 * HD_SCALE, this.step.title.toUpperCase(), {
+            fontSize: `${20 * HD_SCALE}px`,
+            fontFamily: 'Arial Black',
+            color: '#ffd700',
+            stroke: '#000000',
+            strokeThickness: 3
+        });
+        title.setOrigin(0.5);
+        title.setDepth(depth + 1);
+
+        this.instructionText = this.add.text(width / 2, panelY + 15 * HD_SCALE, this.step.text, {
+            fontSize: `${13 * HD_SCALE}px`,
+            fontFamily: 'Arial',
+            color: '#ffffff',
+            align: 'center',
+            wordWrap: { width: width * 0.8 }
+        });
+        this.instructionText.setOrigin(0.5);
+        this.instructionText.setDepth(depth + 1);
+
+        const skip = this.add.text(width * 0.95 - 10 * HD_SCALE, panelY - 55 * HD_SCALE, 'SKIP', {
+            fontSize: `${12 * HD_SCALE}px`,
+            fontFamily: 'Arial Black',
+            color: '#ffffff',
+            stroke: '#000000',
+            strokeThickness: 2
+        });
+        skip.setOrigin(1, 0.5);
+        skip.setDepth(depth + 1);
+        skip.setInteractive({ useHandCursor: true });
+        skip.on('pointerdown', () => this.finish());
+    }
+
+    /**
+     * Pulsing outline around one highlight target, drawn around its own origin so it can scale in place
+     */
+    private createHighlight(highlight: TutorialHighlight): void {
+        const { width, height } = this.cameras.main;
+        const graphics = this.add.graphics();
+        graphics.setDepth(Z_LAYERS.UI + 200);
+        graphics.lineStyle(4 * HD_SCALE, 0xffd700, 1);
+
+        switch (highlight.type) {
+            case 'cell': {
+                const position = this.arenaCoordinator.bubbleGrid.hexToPixel({
+                    q: highlight.q,
+                    r: highlight.r,
+                    s: -highlight.q - highlight.r
+                });
+                graphics.setPosition(position.x, position.y);
+                graphics.strokeCircle(0, 0, BUBBLE_CONFIG.SIZE * 0.8);
+                break;
+            }
+            case 'wall': {
+                // Player's half of the wall - where bank shots bounce
+                const stripWidth = 12 * HD_SCALE;
+                graphics.setPosition(highlight.side === 'left' ? stripWidth / 2 : width - stripWidth / 2, height * 0.75);
+                graphics.fillStyle(0xffd700, 0.3);
+                graphics.fillRect(-stripWidth / 2, -height / 4, stripWidth, height / 2);
+                graphics.strokeRect(-stripWidth / 2, -height / 4, stripWidth, height / 2);
+                break;
+            }
+            case 'launcher': {
+                const launcher = this.arenaCoordinator.getPlayerLauncher();
+                graphics.setPosition(launcher?.x ?? width / 2, launcher?.y ?? height);
+                graphics.strokeCircle(0, 0, 60 * HD_SCALE);
+                break;
+            }
+            case 'arsenal': {
+                const center = this.arenaCoordinator.getPlayerLauncher()?.getArsenalCenter();
+                if (!center) {
+                    graphics.destroy();
+                    return;
+                }
+                graphics.setPosition(center.x, center.y);
+                graphics.strokeRoundedRect(-55 * HD_SCALE, -18 * HD_SCALE, 110 * HD_SCALE, 36 * HD_SCALE, 8 * HD_SCALE);
+                break;
+            }
+            case 'danger-line': {
+                // Same row ResetSystem resets the player's field at
+                const line = this.arenaCoordinator.bubbleGrid.hexToPixel({
+                    q: 0,
+                    r: VICTORY_RULES.DEATH_ROW_THRESHOLD,
+                    s: -VICTORY_RULES.DEATH_ROW_THRESHOLD
+                });
+                graphics.setPosition(width / 2, line.y);
+                graphics.lineStyle(4 * HD_SCALE, 0xff3333, 1);
+                graphics.lineBetween(-width / 2, 0, width / 2, 0);
+
+                const label = this.add.text(width - 10 * HD_SCALE, line.y - 6 * HD_SCALE, 'DANGER LINE', {
+                    fontSize: `${12 * HD_SCALE}px`,
+                    fontFamily: 'Arial Black',
+                    color: '#ff3333',
+                    stroke: '#000000',
+                    strokeThickness: 2
+                });
+                label.setOrigin(1, 1);
+                label.setDepth(Z_LAYERS.UI + 200);
+                break;
+            }
+        }
+
+        this.tweens.add({
+            targets: graphics,
+            alpha: { from: 1, to: 0.35 },
+            scale: highlight.type === 'danger-line' || highlight.type === 'wall' ? 1 : { from: 1, to: 1.15 },
+            duration: 600,
+            yoyo: true,
+            repeat: -1,
+            ease: 'Sine.easeInOut'
+        });
+        this.highlights.push(graphics);
+    }
+
+    public shutdown(): void {
+        this.stopListening();
+        this.arenaCoordinator?.cleanup();
+        this.arenaCoordinator = undefined;
+        this.backgroundSystem?.destroy();
+        this.backgroundSystem = undefined;
+        this.highlights.forEach(graphics => graphics.destroy());
+        this.highlights = [];
+        this.input.keyboard?.removeAllListeners();
+    }
+}
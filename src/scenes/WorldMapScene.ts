@@ -0,0 +1,163 @@
+/**
+ * WorldMapScene - The puzzle campaign's chapters and levels
+ * One band per chapter in its theme's color. Levels show their best stars and
+ * open in GameScene as campaign matches; a level unlocks once the one before it is won.
+ */
+
+import { Scene } from 'phaser';
+import { SceneKeys } from '@/types/GameTypes';
+import { SceneManager } from '@/systems/core/SceneManager';
+import { CAMPAIGN_CHAPTERS } from '@/systems/campaign/CampaignChapters';
+import { CampaignProgressStore } from '@/systems/campaign/CampaignProgressStore';
+import { countStars, isLevelUnlocked, CAMPAIGN_RULES } from '@/core/rules/CampaignRules';
+import { ICampaignChapter } from '@/types/CampaignTypes';
+import { getLevel } from '@/levels';
+import { HD_SCALE } from '@/config/GameConfig';
+
+export class WorldMapScene extends Scene {
+    private stars: Map<string, number> = new Map();
+
+    constructor() {
+        super({ key: SceneKeys.WORLD_MAP });
+    }
+
+    public init(): void {
+        SceneManager.getInstance().setCurrentScene(SceneKeys.WORLD_MAP);
+        const progress = CampaignProgressStore.load();
+        this.stars = new Map(Object.entries(progress.levels).map(([levelId, record]) => [levelId, record.stars]));
+    }
+
+    public create(): void {
+        const { width, height, centerX } = this.cameras.main;
+        this.cameras.main.setBackgroundColor('#101624');
+
+        const getStars = (levelId: string): number => this.stars.get(levelId) ?? 0;
+        const total = countStars(CAMPAIGN_CHAPTERS, getStars);
+
+        this.add.text(centerX, 40 * HD_SCALE, 'CAMPAIGN', {
+            fontSize: `${18 * HD_SCALE}px`,
+            fontFamily: 'Arial Black',
+            color: '#ffffff',
+            stroke: '#000000',
+            strokeThickness: 3
+        }).setOrigin(0.5);
+        this.add.text(centerX, 65 * HD_SCALE, `★ ${total.earned} / ${total.total}`, {
+            fontSize: `${11 * HD_SCALE}px`,
+            fontFamily: 'Arial Black',
+            color: '#ffd700'
+        }).setOrigin(0.5);
+
+        const top = 90 * HD_SCALE;
+        const bandHeight = (height - top - 90 * HD_SCALE) / CAMPAIGN_CHAPTERS.length;
+        CAMPAIGN_CHAPTERS.forEach((chapter, index) => {
+            this.createChapter(chapter, top + index * bandHeight, width, bandHeight, getStars);
+        });
+
+        const back = this.add.text(centerX, height - 45 * HD_SCALE, 'BACK', {
+            fontSize: `${14 * HD_SCALE}px`,
+            fontFamily: 'Arial Black',
+            color: '#ffffff',
+            stroke: '#000000',
+            strokeThickness: 2
+        }).setOrigin(0.5);
+        back.setInteractive({ useHandCursor: true });
+        back.on('pointerdown', () => this.close());
+
+        this.input.keyboard?.on('keydown-ESC', () => this.close());
+        this.events.once('shutdown', () => this.input.keyboard?.removeAllListeners());
+    }
+
+    /**
+     * A band in the chapter's color with its name, star count and a path of level nodes
+     */
+    private createChapter(
+        chapter: ICampaignChapter,
+        y: number,
+        width: number,
+        height: number,
+        getStars: (levelId: string) => number
+    ): void {
+        const band = this.add.rectangle(
+            width / 2,
+            y + height / 2,
+            width - 20 * HD_SCALE,
+            height - 8 * HD_SCALE,
+            chapter.color,
+            0.25
+        );
+        band.setStrokeStyle(2, chapter.color);
+
+        const chapterStars = countStars([chapter], getStars);
+        this.add.text(20 * HD_SCALE, y + 14 * HD_SCALE, chapter.name.toUpperCase(), {
+            fontSize: `${11 * HD_SCALE}px`,
+            fontFamily: 'Arial Black',
+            color: '#ffffff'
+        }).setOrigin(0, 0.5);
+        this.add.text(width - 20 * HD_SCALE, y + 14 * HD_SCALE, `★ ${chapterStars.earned}/${chapterStars.total}`, {
+            fontSize: `${10 * HD_SCALE}px`,
+            fontFamily: 'Arial Black',
+            color: '#ffd700'
+        }).setOrigin(1, 0.5);
+
+        const nodeY = y + height / 2 + 8 * HD_SCALE;
+        const spacing = width / (chapter.levelIds.length + 1);
+        const path = this.add.graphics();
+        path.lineStyle(3 * HD_SCALE, chapter.color, 0.6);
+        path.lineBetween(spacing, nodeY, spacing * chapter.levelIds.length, nodeY);
+
+        chapter.levelIds.forEach((levelId, index) => {
+            const unlocked = isLevelUnlocked(CAMPAIGN_CHAPTERS, levelId, getStars);
+            this.createLevelNode(levelId, spacing * (index + 1), nodeY, chapter.color, unlocked, getStars(levelId));
+        });
+    }
+
+    private createLevelNode(
+        levelId: string,
+        x: number,
+        y: number,
+        color: number,
+        unlocked: boolean,
+        stars: number
+    ): void {
+        const level = getLevel(levelId);
+        const radius = 22 * HD_SCALE;
+
+        const node = this.add.circle(x, y, radius, unlocked ? color : 0x444444);
+        node.setStrokeStyle(3, unlocked ? 0xffffff : 0x666666);
+
+        this.add.text(x, y, unlocked ? String(levelId.split('-').pop() ?? '') : '🔒', {
+            fontSize: `${12 * HD_SCALE}px`,
+            fontFamily: 'Arial Black',
+            color: '#ffffff'
+        }).setOrigin(0.5);
+
+        this.add.text(x, y + radius + 10 * HD_SCALE, `${'★'.repeat(stars)}${'☆'.repeat(CAMPAIGN_RULES.MAX_STARS - stars)}`, {
+            fontSize: `${9 * HD_SCALE}px`,
+            fontFamily: 'Arial',
+            color: '#ffd700'
+        }).setOrigin(0.5);
+
+        if (!level) {
+            console.warn(`WorldMapScene: Campaign level "${levelId}" is missing`);
+            return;
+        }
+        this.add.text(x, y - radius - 8 * HD_SCALE, level.name, {
+            fontSize: `${8 * HD_SCALE}px`,
+            fontFamily: 'Arial',
+            color: unlocked ? '#ffffff' : '#888888'
+        }).setOrigin(0.5);
+
+        if (unlocked) {
+            node.setInteractive({ useHandCursor: true });
+            node.on('pointerdown', () => this.startLevel(levelId));
+        }
+    }
+
+    private startLevel(levelId: string): void {
+        this.scene.start(SceneKeys.GAME, { levelId, mode: 'campaign', returnTo: SceneKeys.WORLD_MAP });
+    }
+
+    private close(): void {
+        SceneManager.getInstance().transitionTo(SceneKeys.MENU);
+    }
+}
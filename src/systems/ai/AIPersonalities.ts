@@ -0,0 +1,93 @@
+/**
+ * AIPersonalities - Named single-player opponents
+ * Each profile re-weights SimulationStrategy's scoring terms to get its play
+ * style, and has a few short lines for AITauntSystem to float over its launcher.
+ */
+
+import { DEFAULT_SIMULATION_WEIGHTS, ISimulationWeights, SimulationStrategy } from '@/systems/ai/SimulationStrategy';
+import { AIPersonalityId, AITauntTrigger } from '@/types/AITypes';
+
+export interface IAIPersonality {
+    id: AIPersonalityId;
+    name: string; // Shown as the opponent's name
+    description: string;
+    color: string; // Taunt text color
+    weights: Partial<ISimulationWeights>; // Changes to DEFAULT_SIMULATION_WEIGHTS
+    taunts: Partial<Record<AITauntTrigger, string[]>>;
+}
+
+export const AI_PERSONALITIES: Record<AIPersonalityId, IAIPersonality> = {
+    sniper: {
+        id: 'sniper',
+        name: 'Sniper',
+        description: 'Clears a lane and goes straight for the objective',
+        color: '#7FDBFF',
+        weights: { objectiveHit: 20000, openAnchor: 120, popped: 20, dropped: 30 },
+        taunts: {
+            'intro': ['One shot is all I need.'],
+            'big-clear': ['Lane open.', 'Clear line of sight.'],
+            'player-big-clear': ['Lucky shot.'],
+            'own-reset': ['Recalibrating...'],
+            'victory': ['Target down.'],
+            'defeat': ['Missed the mark...']
+        }
+    },
+    demolisher: {
+        id: 'demolisher',
+        name: 'Demolisher',
+        description: 'Cuts whole clusters loose for big cascades',
+        color: '#FF851B',
+        weights: { dropped: 150, popped: 40, setup: 20, openAnchor: 20 },
+        taunts: {
+            'intro': ['Everything falls eventually.'],
+            'big-clear': ['TIMBER!', 'Down it goes!', 'Watch them drop!'],
+            'player-big-clear': ['Not bad. Mine are bigger.'],
+            'player-reset': ['Crumbled!'],
+            'victory': ['Nothing left standing.'],
+            'defeat': ['I will rebuild... then wreck it.']
+        }
+    },
+    hoarder: {
+        id: 'hoarder',
+        name: 'Hoarder',
+        description: 'Hunts mystery bubbles and gems before anything else',
+        color: '#B10DC9',
+        weights: { mystery: 400, gem: 300, popped: 25 },
+        taunts: {
+            'intro': ['Finders keepers!'],
+            'power-up': ['Mine, all mine!', 'Ooh, shiny!'],
+            'big-clear': ['More for the pile.'],
+            'player-big-clear': ['Hey, that was mine!'],
+            'victory': ['I keep the winnings.'],
+            'defeat': ['My treasures...']
+        }
+    },
+    turtle: {
+        id: 'turtle',
+        name: 'Turtle',
+        description: 'Keeps its own field low and waits for you to overreach',
+        color: '#2ECC40',
+        weights: { ownHalf: -20, danger: -120, dropped: 60, popped: 40 },
+        taunts: {
+            'intro': ['Slow and steady.'],
+            'player-reset': ['Should have played it safe.'],
+            'own-reset': ['Into my shell!'],
+            'player-big-clear': ['Patience...'],
+            'victory': ['Steady wins the race.'],
+            'defeat': ['Too slow this time.']
+        }
+    }
+};
+
+export const AI_PERSONALITY_IDS = Object.keys(AI_PERSONALITIES) as AIPersonalityId[];
+
+export function isAIPersonalityId(value: unknown): value is AIPersonalityId {
+    return typeof value === 'string' && (AI_PERSONALITY_IDS as string[]).includes(value);
+}
+
+/**
+ * Simulation strategy that plays the personality's style
+ */
+export function createPersonalityStrategy(personality: IAIPersonality): SimulationStrategy {
+    return new SimulationStrategy({ weights: { ...DEFAULT_SIMULATION_WEIGHTS, ...personality.weights } });
+}
@@ -0,0 +1,124 @@
+/**
+ * AITauntSystem - Short floating reactions from the AI personality
+ * Listens to gameplay events and floats one of the personality's lines over
+ * the opponent launcher. Lines are rate limited so a cascade of events reads
+ * as one reaction, and end-of-match lines always get through.
+ */
+
+import { Scene } from 'phaser';
+import { GameEventBus, GameEvents } from '@/core/EventBus';
+import { HD_SCALE } from '@/config/GameConfig';
+import { FloatingTextSystem } from '@/systems/ui/FloatingTextSystem';
+import { IAIPersonality } from '@/systems/ai/AIPersonalities';
+import { AITauntTrigger } from '@/types/AITypes';
+import { IPixelPosition } from '@/types/ArenaTypes';
+
+export class AITauntSystem {
+    private static readonly MIN_INTERVAL = 4000; // ms between lines
+    private static readonly BIG_CLEAR = 5; // Bubbles in one match or cascade worth a reaction
+
+    private scene: Scene;
+    private personality: IAIPersonality;
+    private floatingText: FloatingTextSystem;
+    private getAnchor: () => IPixelPosition;
+    private eventBus: GameEventBus;
+    private lastTauntTime: number = -Infinity;
+    private isRunning: boolean = false;
+
+    /**
+     * @param getAnchor Where lines appear - the opponent launcher
+     */
+    constructor(
+        scene: Scene,
+        personality: IAIPersonality,
+        floatingText: FloatingTextSystem,
+        getAnchor: () => IPixelPosition
+    ) {
+        this.scene = scene;
+        this.personality = personality;
+        this.floatingText = floatingText;
+        this.getAnchor = getAnchor;
+        this.eventBus = GameEventBus.getInstance();
+    }
+
+    public start(): void {
+        if (this.isRunning) {
+            return;
+        }
+        this.isRunning = true;
+
+        this.eventBus.onTyped('match-completed', this.onMatchCompleted);
+        this.eventBus.onTyped('cascade-completed', this.onCascadeCompleted);
+        this.eventBus.onTyped('powerup-activated', this.onPowerUpActivated);
+        this.eventBus.onTyped('reset-completed', this.onResetCompleted);
+        this.eventBus.onTyped('game-over', this.onGameOver);
+        this.taunt('intro');
+    }
+
+    public stop(): void {
+        if (!this.isRunning) {
+            return;
+        }
+        this.isRunning = false;
+
+        this.eventBus.offTyped('match-completed', this.onMatchCompleted);
+        this.eventBus.offTyped('cascade-completed', this.onCascadeCompleted);
+        this.eventBus.offTyped('powerup-activated', this.onPowerUpActivated);
+        this.eventBus.offTyped('reset-completed', this.onResetCompleted);
+        this.eventBus.offTyped('game-over', this.onGameOver);
+    }
+
+    /**
+     * Float a line for the trigger, if the personality has one and it is not too soon
+     */
+    public taunt(trigger: AITauntTrigger, force: boolean = false): void {
+        const lines = this.personality.taunts[trigger];
+        const now = this.scene.time.now;
+        if (!lines || lines.length === 0 || (!force && now - this.lastTauntTime < AITauntSystem.MIN_INTERVAL)) {
+            return;
+        }
+        this.lastTauntTime = now;
+
+        // Cosmetic only - keep it off the seeded gameplay streams
+        const line = lines[Math.floor(Math.random() * lines.length)];
+        const anchor = this.getAnchor();
+        this.floatingText.showFloatingText({
+            text: line,
+            x: anchor.x,
+            y: anchor.y + 90 * HD_SCALE,
+            color: this.personality.color,
+            fontSize: `${14 * HD_SCALE}px`,
+            duration: 1800,
+            distance: 25 * HD_SCALE
+        });
+    }
+
+    private onMatchCompleted = (data: GameEvents['match-completed']): void => {
+        if (data.count >= AITauntSystem.BIG_CLEAR) {
+            this.taunt(data.isPlayer ? 'player-big-clear' : 'big-clear');
+        }
+    };
+
+    private onCascadeCompleted = (data: GameEvents['cascade-completed']): void => {
+        if (data.bubblesFallen >= AITauntSystem.BIG_CLEAR) {
+            this.taunt(data.isPlayer ? 'player-big-clear' : 'big-clear');
+        }
+    };
+
+    private onPowerUpActivated = (data: GameEvents['powerup-activated']): void => {
+        if (!data.isPlayer) {
+            this.taunt('power-up');
+        }
+    };
+
+    private onResetCompleted = (data: GameEvents['reset-completed']): void => {
+        this.taunt(data.isPlayer ? 'player-reset' : 'own-reset');
+    };
+
+    private onGameOver = (data: GameEvents['game-over']): void => {
+        if (data.winner !== 'tie') {
+            this.taunt(data.winner === 'opponent' ? 'victory' : 'defeat', true);
+        }
+        this.stop();
+    };
+}
@@ -0,0 +1,102 @@
+/**
+ * AdaptiveDifficultyController - Tunes the AI to the player while a match runs
+ * Starts from the stored player rating, retunes the AI whenever gems or field
+ * danger change, and rates the player against the average skill the AI actually
+ * played at once the match is over.
+ */
+
+import { GameEventBus, GameEvents } from '@/core/EventBus';
+import { GameStateManager } from '@/core/GameStateManager';
+import {
+    calculateAITuning,
+    calculatePressure,
+    ratingToSkill,
+    skillToRating
+} from '@/core/rules/DifficultyRules';
+import { PlayerRatingStore } from '@/systems/ai/PlayerRatingStore';
+import { AIOpponentSystem } from '@/systems/gameplay/AIOpponentSystem';
+import { IAITuning, IPlayerRating } from '@/types/AITypes';
+
+export class AdaptiveDifficultyController {
+    private ai: AIOpponentSystem;
+    private gameState: GameStateManager;
+    private eventBus: GameEventBus;
+    private player: IPlayerRating;
+    private playerDanger: number = 0;
+    private opponentDanger: number = 0;
+    private skillTotal: number = 0;
+    private skillSamples: number = 0;
+    private isRunning: boolean = false;
+
+    constructor(ai: AIOpponentSystem) {
+        this.ai = ai;
+        this.gameState = GameStateManager.getInstance();
+        this.eventBus = GameEventBus.getInstance();
+        this.player = PlayerRatingStore.load();
+    }
+
+    public start(): void {
+        if (this.isRunning) {
+            return;
+        }
+        this.isRunning = true;
+
+        this.gameState.on('gems-updated', this.retune);
+        this.gameState.on('field-danger-updated', this.onFieldDanger);
+        this.eventBus.onTyped('game-over', this.onGameOver);
+        this.retune();
+    }
+
+    public stop(): void {
+        if (!this.isRunning) {
+            return;
+        }
+        this.isRunning = false;
+
+        this.gameState.off('gems-updated', this.retune);
+        this.gameState.off('field-danger-updated', this.onFieldDanger);
+        this.eventBus.offTyped('game-over', this.onGameOver);
+    }
+
+    public getRating(): IPlayerRating {
+        return { ...this.player };
+    }
+
+    private onFieldDanger = (data: { isPlayer: boolean; dangerLevel: number }): void => {
+        if (data.isPlayer) {
+            this.playerDanger = data.dangerLevel;
+        } else {
+            this.opponentDanger = data.dangerLevel;
+        }
+        this.retune();
+    };
+
+    private retune = (): void => {
+        const rules = this.gameState.getMatchRules();
+        const pressure = calculatePressure({
+            playerGems: this.gameState.getPlayerGems(),
+            opponentGems: this.gameState.getOpponentGems(),
+            gemsToWin: rules.gemsToWin,
+            playerDanger: this.playerDanger,
+            opponentDanger: this.opponentDanger
+        });
+        const tuning: IAITuning = calculateAITuning(ratingToSkill(this.player.rating), pressure);
+
+        this.skillTotal += tuning.skill;
+        this.skillSamples++;
+        this.ai.setTuning(tuning);
+    };
+
+    /**
+     * Rate the match once - the AI's strength is the average skill it was tuned to
+     */
+    private onGameOver = (data: GameEvents['game-over']): void => {
+        this.stop();
+
+        const averageSkill = this.skillSamples > 0
+            ? this.skillTotal / this.skillSamples
+            : ratingToSkill(this.player.rating);
+        const result = data.winner === 'player' ? 'win' : data.winner === 'opponent' ? 'loss' : 'tie';
+        this.player = PlayerRatingStore.recordResult(result, skillToRating(averageSkill));
+    };
+}
@@ -0,0 +1,241 @@
+/**
+ * HeuristicStrategy - The original targeting AI
+ * Aims straight at same-color bubbles whose path looks clear and scores them by
+ * match size and distance to the objective. Cheap, but blind to bounces and to
+ * what the board looks like after the shot - the easier difficulties use it.
+ */
+
+import { BUBBLE_CONFIG } from '@/config/ArenaConfig';
+import { RandomStream } from '@/core/RandomService';
+import { BubbleColor, IPixelPosition } from '@/types/ArenaTypes';
+import { IAIBoardCell, IAIShotContext, IAIShotDecision, IAIStrategy } from '@/types/AITypes';
+
+// Launcher limits
+const MIN_ANGLE = 15;
+const MAX_ANGLE = 165;
+
+export class HeuristicStrategy implements IAIStrategy {
+    public readonly name: string = 'heuristic';
+    private thorough: boolean;
+
+    /**
+     * @param thorough Look for objective shots, wall bounces and match values
+     *                 before settling for any direct shot
+     */
+    constructor(thorough: boolean = false) {
+        this.thorough = thorough;
+    }
+
+    public chooseShot(context: IAIShotContext, rng: RandomStream): IAIShotDecision {
+        const { board, launcher, color } = context;
+        const sameColorCells = board.cells.filter(cell => cell.color === color);
+
+        // Use all same color bubbles to keep the AI smart
+        const candidates = sameColorCells;
+
+        if (this.thorough) {
+            // PRIORITY 1: Check if we can hit the objective directly!
+            const objectiveShot = context.targetObjective ? this.checkObjectiveShot(context) : null;
+            if (objectiveShot) {
+                return objectiveShot;
+            }
+
+            // PRIORITY 2: Smart targeting for strategic eliminations
+            const allTargets: IAIShotDecision[] = [];
+
+            if (!this.isObjectiveExposed(context)) {
+                // Bubbles blocking the objective go first
+                const blocking = sameColorCells.filter(cell =>
+                    Math.hypot(cell.x - board.center.x, cell.y - board.center.y) < BUBBLE_CONFIG.SIZE * 4
+                );
+                if (blocking.length > 0) {
+                    sameColorCells.unshift(...blocking);
+                }
+            }
+
+            for (const target of candidates) {
+                // Try 3 key angles for good coverage
+                const angles = [
+                    this.angleTo(launcher, target.x, target.y),
+                    this.angleTo(launcher, target.x, target.y - BUBBLE_CONFIG.SIZE),
+                    this.angleTo(launcher, target.x - BUBBLE_CONFIG.SIZE * 0.5, target.y)
+                ];
+
+                for (const angle of angles) {
+                    if (HeuristicStrategy.inRange(angle) && this.isTrajectoryLikelyClear(context, angle, target)) {
+                        const matchSize = this.countPotentialMatch(context, target, color);
+                        const potentialFalls = matchSize >= 3 ? 2 : 0; // Simple fall estimation
+
+                        const distToObjective = Math.hypot(target.x - board.center.x, target.y - board.center.y);
+                        const nearObjective = distToObjective < BUBBLE_CONFIG.SIZE * 4;
+
+                        // Higher base score if near objective
+                        const baseScore = nearObjective ? 200 + (matchSize * 30) : 100 + (matchSize * 20);
+                        const fallBonus = potentialFalls * 300;
+                        const falls = potentialFalls > 0 ? ` causing ${potentialFalls} falls` : '';
+
+                        allTargets.push({
+                            angle,
+                            score: baseScore + fallBonus,
+                            reasoning: `match-${matchSize}${falls}${nearObjective ? ' NEAR OBJECTIVE' : ''}`
+                        });
+                        // One good angle per bubble is enough
+                        break;
+                    }
+                }
+            }
+
+            // Only check wall bounces when there are few targets
+            if (context.allowBankShots && candidates.length > 0 && candidates.length < 5) {
+                allTargets.push(...this.findWallBounceTargets(context, candidates.slice(0, 3)));
+            }
+
+            if (allTargets.length > 0) {
+                allTargets.sort((a, b) => b.score - a.score);
+                return allTargets[0];
+            }
+        }
+
+        // No strategic shot found (or easier difficulty) - find ANY valid shot
+        const straightShot = this.findStraightShot(context, sameColorCells);
+        if (straightShot) {
+            return straightShot;
+        }
+
+        for (const cell of board.cells) {
+            const angle = this.angleTo(launcher, cell.x, cell.y);
+            if (HeuristicStrategy.inRange(angle) && this.isTrajectoryLikelyClear(context, angle, cell)) {
+                return { angle, score: 10, reasoning: 'any available target' };
+            }
+        }
+
+        // Absolutely last resort - shoot at safe angles
+        return { angle: rng.pick([85, 90, 95, 75, 105]), score: 0, reasoning: 'safe fallback' };
+    }
+
+    private findStraightShot(context: IAIShotContext, sameColorCells: IAIBoardCell[]): IAIShotDecision | null {
+        const targets = sameColorCells.length > 0 ? sameColorCells : context.board.cells;
+
+        for (const cell of targets) {
+            const angle = this.angleTo(context.launcher, cell.x, cell.y);
+            if (HeuristicStrategy.inRange(angle) && this.isTrajectoryLikelyClear(context, angle, cell)) {
+                return { angle, score: 50, reasoning: `direct shot to ${HeuristicStrategy.colorName(cell.color)}` };
+            }
+        }
+        return null;
+    }
+
+    private findWallBounceTargets(context: IAIShotContext, cells: IAIBoardCell[]): IAIShotDecision[] {
+        const width = context.board.width;
+        const targets: IAIShotDecision[] = [];
+
+        for (const cell of cells) {
+            // Mirror the target across the left wall - must aim left
+            const leftAngle = this.angleTo(context.launcher, -cell.x, cell.y);
+            if (leftAngle >= 100 && leftAngle <= MAX_ANGLE) {
+                targets.push({ angle: leftAngle, score: 80, reasoning: 'left wall bounce' });
+            }
+
+            // Mirror across the right wall - must aim right
+            const rightAngle = this.angleTo(context.launcher, width + (width - cell.x), cell.y);
+            if (rightAngle >= MIN_ANGLE && rightAngle <= 80) {
+                targets.push({ angle: rightAngle, score: 80, reasoning: 'right wall bounce' });
+            }
+        }
+        return targets;
+    }
+
+    private checkObjectiveShot(context: IAIShotContext): IAIShotDecision | null {
+        const { center } = context.board;
+        const angle = this.angleTo(context.launcher, center.x, center.y);
+
+        if (HeuristicStrategy.inRange(angle) && this.isTrajectoryLikelyClear(context, angle, center)) {
+            return { angle, score: 10000, reasoning: 'direct hit on objective' };
+        }
+        return null;
+    }
+
+    private isObjectiveExposed(context: IAIShotContext): boolean {
+        const { center } = context.board;
+        return !context.board.cells.some(cell =>
+            Math.hypot(cell.x - center.x, cell.y - center.y) < BUBBLE_CONFIG.SIZE * 1.5
+        );
+    }
+
+    /**
+     * Quick trajectory check - samples a few points on the straight line to the target
+     */
+    private isTrajectoryLikelyClear(context: IAIShotContext, angle: number, target: IPixelPosition): boolean {
+        const { launcher } = context;
+        const radians = angle * Math.PI / 180;
+        const targetDist = Math.hypot(target.x - launcher.x, target.y - launcher.y);
+
+        for (let t = 0.3; t < 0.9; t += 0.3) {
+            const checkX = launcher.x + Math.cos(radians) * targetDist * t;
+            const checkY = launcher.y + Math.sin(radians) * targetDist * t;
+
+            // More lenient than the real collision distance
+            const blocked = context.board.cells.some(cell =>
+                Math.hypot(checkX - cell.x, checkY - cell.y) < BUBBLE_CONFIG.SIZE * 0.7
+            );
+            if (blocked) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    private countPotentialMatch(context: IAIShotContext, target: IAIBoardCell, color: BubbleColor): number {
+        const visited = new Set<IAIBoardCell>();
+        const toCheck = [target];
+        let matchCount = 1; // Count the shot bubble itself
+
+        while (toCheck.length > 0) {
+            const current = toCheck.pop()!;
+            if (visited.has(current)) {
+                continue;
+            }
+            visited.add(current);
+
+            if (current.color === color) {
+                if (current !== target) {
+                    matchCount++;
+                }
+                this.getNeighbors(context, current)
+                    .filter(neighbor => !visited.has(neighbor) && neighbor.color === color)
+                    .forEach(neighbor => toCheck.push(neighbor));
+            }
+        }
+        return matchCount;
+    }
+
+    private getNeighbors(context: IAIShotContext, cell: IAIBoardCell): IAIBoardCell[] {
+        const threshold = BUBBLE_CONFIG.SIZE * 1.1;
+        return context.board.cells.filter(other =>
+            other !== cell && Math.hypot(cell.x - other.x, cell.y - other.y) < threshold
+        );
+    }
+
+    private static inRange(angle: number): boolean {
+        return angle >= MIN_ANGLE && angle <= MAX_ANGLE;
+    }
+
+    /**
+     * Launcher angle in degrees (0-360) towards a screen point
+     */
+    private angleTo(launcher: IPixelPosition, targetX: number, targetY: number): number {
+        const angle = Math.atan2(targetY - launcher.y, targetX - launcher.x) * (180 / Math.PI);
+        return angle < 0 ? angle + 360 : angle;
+    }
+
+    private static colorName(color: BubbleColor): string {
+        switch (color) {
+            case BubbleColor.RED: return 'RED';
+            case BubbleColor.BLUE: return 'BLUE';
+            case BubbleColor.GREEN: return 'GREEN';
+            case BubbleColor.YELLOW: return 'YELLOW';
+            case BubbleColor.PURPLE: return 'PURPLE';
+            default: return 'UNKNOWN';
+        }
+    }
+}
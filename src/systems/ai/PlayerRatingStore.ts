@@ -0,0 +1,54 @@
+/**
+ * PlayerRatingStore - The player's skill rating against the AI, persisted to local storage
+ * Read at match start to set the adaptive AI's base skill and updated once per
+ * finished match. A lost save starts over at the default rating.
+ */
+
+import { VersionedStore } from '@/core/VersionedStore';
+import { DIFFICULTY_RULES, RatedResult, updateRating } from '@/core/rules/DifficultyRules';
+import { IPlayerRating, IPlayerRatingFile, RATING_FORMAT_VERSION } from '@/types/AITypes';
+
+export class PlayerRatingStore {
+    private static readonly storage = new VersionedStore<IPlayerRating, IPlayerRatingFile>({
+        key: 'bubble-battle-rating',
+        version: RATING_FORMAT_VERSION,
+        owner: 'PlayerRatingStore',
+        label: 'rating',
+        createDefault: () => PlayerRatingStore.createDefault(),
+        toFile: player => ({ player }),
+        fromFile: file => file.player && Number.isFinite(file.player.rating)
+            ? { ...PlayerRatingStore.createDefault(), ...file.player }
+            : null
+    });
+
+    public static createDefault(): IPlayerRating {
+        return { rating: DIFFICULTY_RULES.DEFAULT_RATING, matches: 0, wins: 0, losses: 0 };
+    }
+
+    public static load(): IPlayerRating {
+        return PlayerRatingStore.storage.load();
+    }
+
+    public static save(player: IPlayerRating): void {
+        PlayerRatingStore.storage.save(player);
+    }
+
+    /**
+     * Rate a finished match against an AI that played at opponentRating
+     */
+    public static recordResult(result: RatedResult, opponentRating: number): IPlayerRating {
+        const player = PlayerRatingStore.load();
+        const updated: IPlayerRating = {
+            rating: updateRating(player.rating, opponentRating, result, player.matches),
+            matches: player.matches + 1,
+            wins: player.wins + (result === 'win' ? 1 : 0),
+            losses: player.losses + (result === 'loss' ? 1 : 0)
+        };
+        PlayerRatingStore.save(updated);
+        return updated;
+    }
+
+    public static reset(): void {
+        PlayerRatingStore.storage.clear();
+    }
+}
@@ -0,0 +1,344 @@
+/**
+ * PowerUpPlanner - Decides when the AI spends an arsenal power-up, and on what
+ * Targets each power-up the way its AimingMode does for the player - the bomb
+ * blast radius, the lightning selection cursor, the laser's extended line, the
+ * rainbow sphere and the multi-shot spread - worked out on the board view with
+ * ShotSimulator. Attacks on the player's side go out while the player is level
+ * or ahead. Phaser-free, like the strategies.
+ */
+
+import { findDisconnected, getAnchorPositions, MIN_MATCH_SIZE } from '@/core/rules/GridRules';
+import { getHexNeighbors, hexKey } from '@/core/rules/HexMath';
+import { IShotOutcome, ShotSimulator } from '@/systems/ai/ShotSimulator';
+import { PowerUpType } from '@/systems/powerups/PowerUpManager';
+import { BubbleColor, IPixelPosition } from '@/types/ArenaTypes';
+import { IAIBoardCell, IAIShotContext } from '@/types/AITypes';
+
+export interface IAIPowerUpPlan {
+    type: PowerUpType;
+    target: IPixelPosition | null; // Bomb center or lightning strike
+    cells: IAIBoardCell[]; // Bubbles the blast or strike destroys - falls not included
+    angles: number[]; // Shots to fire with it - the multi-shot spread, or one aimed shot
+    color: BubbleColor | null; // Rainbow - color the loaded bubble turns into
+    value: number;
+    reasoning: string;
+}
+
+// What a power-up fired at the arena needs to land - a live plan, or one read back from a replay
+export type AIArenaPowerUp = Pick<IAIPowerUpPlan, 'type' | 'target'> & { cells: Array<{ q: number; r: number }> };
+
+export interface IPowerUpPlannerOptions {
+    minAngle: number;
+    maxAngle: number;
+    angleStep: number;
+    bombRadius: number; // The bomb catalogue entry's blast radius
+    minBombValue: number;
+    minLightningValue: number;
+    freezeGemMargin: number; // Freeze once the player is this many gems from winning
+    rainbowGain: number; // Value a rainbow shot must add over the loaded color
+    multiSpread: number; // Degrees between multi-shot bubbles
+    minMultiValue: number;
+    gemValue: number; // A gem counts as this many bubbles
+}
+
+const DEFAULT_OPTIONS: IPowerUpPlannerOptions = {
+    minAngle: 15, // Launcher limits
+    maxAngle: 165,
+    angleStep: 2,
+    bombRadius: 120,
+    minBombValue: 6,
+    minLightningValue: 4,
+    freezeGemMargin: 3,
+    rainbowGain: 3,
+    multiSpread: 10,
+    minMultiValue: 6,
+    gemValue: 3
+};
+
+// Defence first, then whatever clears the most, then attacks
+const PLAN_ORDER: PowerUpType[] = [
+    PowerUpType.FREEZE,
+    PowerUpType.BOMB,
+    PowerUpType.LIGHTNING,
+    PowerUpType.LASER,
+    PowerUpType.RAINBOW,
+    PowerUpType.MULTIPLIER,
+    PowerUpType.JUNK_ROWS,
+    PowerUpType.JAM,
+    PowerUpType.COLOR_SWAP,
+    PowerUpType.INK
+];
+
+export class PowerUpPlanner {
+    private options: IPowerUpPlannerOptions;
+
+    constructor(options: Partial<IPowerUpPlannerOptions> = {}) {
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+    }
+
+    /**
+     * Best use of the arsenal right now, or null to save it for later
+     */
+    public plan(inventory: ReadonlyArray<PowerUpType>, context: IAIShotContext): IAIPowerUpPlan | null {
+        for (const type of PLAN_ORDER) {
+            if (!inventory.includes(type)) {
+                continue;
+            }
+            const plan = this.planPowerUp(type, context);
+            if (plan) {
+                return plan;
+            }
+        }
+        return null;
+    }
+
+    private planPowerUp(type: PowerUpType, context: IAIShotContext): IAIPowerUpPlan | null {
+        switch (type) {
+            case PowerUpType.FREEZE:
+                return this.planFreeze(context);
+            case PowerUpType.BOMB:
+                return this.planBomb(context);
+            case PowerUpType.LIGHTNING:
+                return this.planLightning(context);
+            case PowerUpType.LASER:
+                return this.planLaser(context);
+            case PowerUpType.RAINBOW:
+                return this.planRainbow(context);
+            case PowerUpType.MULTIPLIER:
+                return this.planMultiShot(context);
+            case PowerUpType.JUNK_ROWS:
+            case PowerUpType.JAM:
+            case PowerUpType.COLOR_SWAP:
+            case PowerUpType.INK:
+                return this.planAttack(type, context);
+            default:
+                return null; // No AI targeting for this one yet
+        }
+    }
+
+    /**
+     * Freeze time when the player is about to win
+     */
+    private planFreeze(context: IAIShotContext): IAIPowerUpPlan | null {
+        const { own, opponent, toWin } = context.gems;
+        if (opponent < toWin - this.options.freezeGemMargin || opponent < own) {
+            return null;
+        }
+        return this.createPlan(PowerUpType.FREEZE, {
+            value: opponent,
+            reasoning: `freeze - player at ${opponent}/${toWin} gems`
+        });
+    }
+
+    /**
+     * Blast the densest cluster - every bubble centre is a candidate, as with the bomb radius cursor
+     */
+    private planBomb(context: IAIShotContext): IAIPowerUpPlan | null {
+        const cells = context.board.cells;
+        const radius = this.options.bombRadius;
+        let best: IAIPowerUpPlan | null = null;
+
+        cells.forEach(center => {
+            const blast = cells.filter(cell => Math.hypot(cell.x - center.x, cell.y - center.y) <= radius);
+            const value = this.valueRemoval(cells, blast);
+            if (value >= this.options.minBombValue && (!best || value > best.value)) {
+                best = this.createPlan(PowerUpType.BOMB, {
+                    target: { x: center.x, y: center.y },
+                    cells: blast.map(cell => ({ ...cell })),
+                    value,
+                    reasoning: `bomb ${blast.length} bubbles at ${center.q},${center.r}`
+                });
+            }
+        });
+
+        return best;
+    }
+
+    /**
+     * Strike the one bubble holding up the most of our field
+     */
+    private planLightning(context: IAIShotContext): IAIPowerUpPlan | null {
+        const cells = context.board.cells;
+        let best: IAIPowerUpPlan | null = null;
+
+        cells.forEach(cell => {
+            const value = this.valueRemoval(cells, [cell]);
+            if (value >= this.options.minLightningValue && (!best || value > best.value)) {
+                best = this.createPlan(PowerUpType.LIGHTNING, {
+                    target: { x: cell.x, y: cell.y },
+                    cells: [{ ...cell }],
+                    value,
+                    reasoning: `lightning on ${cell.q},${cell.r}`
+                });
+            }
+        });
+
+        return best;
+    }
+
+    /**
+     * Laser sight once there is a line to the objective - bank shots included, as the extended line shows them
+     */
+    private planLaser(context: IAIShotContext): IAIPowerUpPlan | null {
+        const hit = this.scanShots(context, context.color, true).find(outcome => outcome.result === 'objective');
+        if (!hit) {
+            return null;
+        }
+        return this.createPlan(PowerUpType.LASER, {
+            angles: [hit.angle],
+            value: context.gems.toWin - context.gems.own,
+            reasoning: `laser to the objective at ${hit.angle}°`
+        });
+    }
+
+    /**
+     * Rainbow when another color would clear clearly more than the loaded one
+     */
+    private planRainbow(context: IAIShotContext): IAIPowerUpPlan | null {
+        const loaded = this.bestShot(this.scanShots(context, context.color, context.allowBankShots));
+        const colors = new Set<BubbleColor>();
+        context.board.cells.forEach(cell => {
+            if (!cell.blocker && cell.color !== context.color) {
+                colors.add(cell.color);
+            }
+        });
+
+        let best: IAIPowerUpPlan | null = null;
+        colors.forEach(color => {
+            const shot = this.bestShot(this.scanShots(context, color, context.allowBankShots));
+            if (!shot || shot.outcome.popped.length < MIN_MATCH_SIZE) {
+                return;
+            }
+            const gain = shot.value - (loaded ? loaded.value : 0);
+            if (gain >= this.options.rainbowGain && (!best || shot.value > best.value)) {
+                best = this.createPlan(PowerUpType.RAINBOW, {
+                    angles: [shot.outcome.angle],
+                    color,
+                    value: shot.value,
+                    reasoning: `rainbow as ${color.toString(16)} clears ${shot.outcome.popped.length}`
+                });
+            }
+        });
+
+        return best;
+    }
+
+    /**
+     * Multi-shot where the three-way spread clears the most between them
+     */
+    private planMultiShot(context: IAIShotContext): IAIPowerUpPlan | null {
+        const { multiSpread, minMultiValue } = this.options;
+        const outcomes = this.scanShots(context, context.color, context.allowBankShots);
+        const byAngle = new Map(outcomes.map(outcome => [outcome.angle, outcome]));
+        let best: IAIPowerUpPlan | null = null;
+
+        outcomes.forEach(center => {
+            const spread = [center.angle - multiSpread, center.angle, center.angle + multiSpread];
+            const shots = spread
+                .map(angle => byAngle.get(angle))
+                .filter((shot): shot is IShotOutcome => shot !== undefined);
+            if (shots.length < spread.length) {
+                return; // Spread leaves the launcher limits, or a bank shot we are not taking
+            }
+
+            // Each bubble is played on the current board - count a cell cleared twice once
+            const cleared = new Map<string, IAIBoardCell>();
+            shots.forEach(shot => [...shot.popped, ...shot.dropped].forEach(cell => {
+                cleared.set(hexKey(cell.q, cell.r), cell);
+            }));
+            const value = this.valueCells([...cleared.values()]);
+            if (value >= minMultiValue && (!best || value > best.value)) {
+                best = this.createPlan(PowerUpType.MULTIPLIER, {
+                    angles: spread,
+                    value,
+                    reasoning: `multi-shot around ${center.angle}° clears ${cleared.size}`
+                });
+            }
+        });
+
+        return best;
+    }
+
+    /**
+     * Attack the player's side - saved while the AI is ahead, they are for catching up
+     */
+    private planAttack(type: PowerUpType, context: IAIShotContext): IAIPowerUpPlan | null {
+        const { own, opponent } = context.gems;
+        if (opponent < own) {
+            return null;
+        }
+        return this.createPlan(type, {
+            value: opponent - own,
+            reasoning: `${type} - player at ${opponent} gems to ${own}`
+        });
+    }
+
+    /**
+     * Every launcher angle for one color, played out on the current board
+     */
+    private scanShots(context: IAIShotContext, color: BubbleColor, allowBankShots: boolean): IShotOutcome[] {
+        const simulator = new ShotSimulator(context.board);
+        const { minAngle, maxAngle, angleStep } = this.options;
+        const outcomes: IShotOutcome[] = [];
+        for (let angle = minAngle; angle <= maxAngle; angle += angleStep) {
+            const outcome = simulator.simulate(context.launcher, angle, color);
+            if (allowBankShots || outcome.bounces === 0) {
+                outcomes.push(outcome);
+            }
+        }
+        return outcomes;
+    }
+
+    private bestShot(outcomes: IShotOutcome[]): { outcome: IShotOutcome; value: number } | null {
+        let best: { outcome: IShotOutcome; value: number } | null = null;
+        outcomes.forEach(outcome => {
+            const value = this.valueCells([...outcome.popped, ...outcome.dropped]);
+            if (!best || value > best.value) {
+                best = { outcome, value };
+            }
+        });
+        return best;
+    }
+
+    /**
+     * Value of destroying cells outright, including whatever falls with them
+     */
+    private valueRemoval(board: ReadonlyArray<IAIBoardCell>, removed: ReadonlyArray<IAIBoardCell>): number {
+        const removedKeys = new Set(removed.map(cell => hexKey(cell.q, cell.r)));
+        const remaining = new Map<string, IAIBoardCell>();
+        board.forEach(cell => {
+            const key = hexKey(cell.q, cell.r);
+            if (!removedKeys.has(key)) {
+                remaining.set(key, cell);
+            }
+        });
+
+        const getNeighbors = (cell: IAIBoardCell): IAIBoardCell[] =>
+            getHexNeighbors({ q: cell.q, r: cell.r, s: 0 })
+                .map(hex => remaining.get(hexKey(hex.q, hex.r)))
+                .filter((neighbor): neighbor is IAIBoardCell => neighbor !== undefined);
+        const anchors = getAnchorPositions()
+            .map(hex => remaining.get(hexKey(hex.q, hex.r)))
+            .filter((cell): cell is IAIBoardCell => cell !== undefined);
+        const dropped = findDisconnected([...remaining.values()], anchors, getNeighbors);
+
+        return this.valueCells([...removed, ...dropped]);
+    }
+
+    /**
+     * Bubbles cleared from our half (r < 0) count for us, from the player's half against us; gems count for us
+     */
+    private valueCells(cells: ReadonlyArray<IAIBoardCell>): number {
+        return cells.reduce((value, cell) => {
+            const side = cell.r < 0 ? 1 : cell.r > 0 ? -1 : 0;
+            return value + side + (cell.gem ? this.options.gemValue : 0);
+        }, 0);
+    }
+
+    private createPlan(
+        type: PowerUpType,
+        plan: Partial<IAIPowerUpPlan> & Pick<IAIPowerUpPlan, 'value' | 'reasoning'>
+    ): IAIPowerUpPlan {
+        return { type, target: null, cells: [], angles: [], color: null, ...plan };
+    }
+}
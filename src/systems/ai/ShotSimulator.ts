@@ -0,0 +1,196 @@
+/**
+ * ShotSimulator - Plays a shot out on a copy of the board
+ * Steps the projectile the way ShootingSystem does (wall bounces, objective hit,
+ * grid collision), attaches it with the same slot rule as GridAttachmentSystem
+ * and resolves matches and floating bubbles with the shared GridRules.
+ * Phaser-free, so AI strategies built on it can be tested under Jest.
+ */
+
+import { BUBBLE_CONFIG } from '@/config/ArenaConfig';
+import { getHexNeighbors, hexKey, hexToPixelOffset, pixelOffsetToHex } from '@/core/rules/HexMath';
+import {
+    chooseAttachmentSlot,
+    findColorGroup,
+    findDisconnected,
+    getAnchorPositions,
+    MIN_MATCH_SIZE
+} from '@/core/rules/GridRules';
+import { BubbleColor, IHexPosition, IPixelPosition } from '@/types/ArenaTypes';
+import { IAIBoardCell, IAIBoardView } from '@/types/AITypes';
+
+export interface IShotOutcome {
+    angle: number;
+    result: 'attached' | 'objective' | 'lost';
+    attachedAt: IHexPosition | null;
+    bounces: number;
+    popped: IAIBoardCell[]; // Matched group, including the shot bubble
+    dropped: IAIBoardCell[]; // Left floating by the match
+    gemsCleared: number;
+    mysteryCleared: number; // Mystery bubbles popped - dropped ones give no power-up
+    board: IAIBoardCell[]; // Cells left after the shot
+}
+
+export class ShotSimulator {
+    // Collision values mirrored from ShootingSystem, GridAttachmentSystem and ArenaCoordinator.checkChestHit
+    private static readonly STEP = BUBBLE_CONFIG.SIZE / 3;
+    private static readonly COLLISION_DISTANCE = BUBBLE_CONFIG.SIZE - 2;
+    private static readonly MAX_ATTACH_DISTANCE = BUBBLE_CONFIG.SIZE * 2;
+    private static readonly OBJECTIVE_HIT_RADIUS = 40;
+    private static readonly RADIUS = BUBBLE_CONFIG.SIZE / 2;
+    private static readonly MAX_STEPS = 2000;
+
+    private board: IAIBoardView;
+    private cells: Map<string, IAIBoardCell> = new Map();
+
+    constructor(board: IAIBoardView) {
+        this.board = board;
+        board.cells.forEach(cell => this.cells.set(hexKey(cell.q, cell.r), { ...cell }));
+    }
+
+    /**
+     * Fire a bubble from origin at angle (degrees, 90 = straight down) and resolve the result
+     */
+    public simulate(origin: IPixelPosition, angle: number, color: BubbleColor): IShotOutcome {
+        const radians = angle * Math.PI / 180;
+        let dx = Math.cos(radians);
+        const dy = Math.sin(radians);
+        let x = origin.x;
+        let y = origin.y;
+        let bounces = 0;
+
+        for (let step = 0; step < ShotSimulator.MAX_STEPS; step++) {
+            x += dx * ShotSimulator.STEP;
+            y += dy * ShotSimulator.STEP;
+
+            const { center } = this.board;
+            if (Math.hypot(x - center.x, y - center.y) < ShotSimulator.OBJECTIVE_HIT_RADIUS) {
+                return this.createOutcome(angle, 'objective', bounces);
+            }
+
+            const hit = this.findCollision(x, y);
+            if (hit) {
+                const impactAngle = (Math.atan2(y - hit.y, x - hit.x) * 180 / Math.PI + 360) % 360;
+                const hitHex = { q: hit.q, r: hit.r, s: -hit.q - hit.r };
+                const slot = chooseAttachmentSlot(hitHex, impactAngle, hex => this.cells.has(hexKey(hex.q, hex.r)));
+                if (slot) {
+                    const pixel = this.toPixel(slot);
+                    if (Math.hypot(x - pixel.x, y - pixel.y) < ShotSimulator.MAX_ATTACH_DISTANCE) {
+                        return this.resolveAttachment(angle, slot, color, bounces);
+                    }
+                }
+            }
+
+            if (x - ShotSimulator.RADIUS <= 0) {
+                x = ShotSimulator.RADIUS;
+                dx = Math.abs(dx);
+                bounces++;
+            }
+            if (x + ShotSimulator.RADIUS >= this.board.width) {
+                x = this.board.width - ShotSimulator.RADIUS;
+                dx = -Math.abs(dx);
+                bounces++;
+            }
+
+            // Popped at the top edge, or flew off the bottom
+            if (y - ShotSimulator.RADIUS <= 0 || y > this.board.height + 50) {
+                break;
+            }
+        }
+
+        return this.createOutcome(angle, 'lost', bounces);
+    }
+
+    /**
+     * Closest bubble touching the projectile - only cells within two steps of its hex can reach
+     */
+    private findCollision(x: number, y: number): IAIBoardCell | null {
+        const hex = pixelOffsetToHex(x - this.board.center.x, y - this.board.center.y, this.board.hexSize);
+        const nearby = new Set<string>([hexKey(hex.q, hex.r)]);
+        getHexNeighbors(hex).forEach(neighbor => {
+            nearby.add(hexKey(neighbor.q, neighbor.r));
+            getHexNeighbors(neighbor).forEach(outer => nearby.add(hexKey(outer.q, outer.r)));
+        });
+
+        let closest: IAIBoardCell | null = null;
+        let closestDistance = ShotSimulator.COLLISION_DISTANCE;
+        for (const key of nearby) {
+            const cell = this.cells.get(key);
+            if (!cell) {
+                continue;
+            }
+            const distance = Math.hypot(x - cell.x, y - cell.y);
+            if (distance < closestDistance) {
+                closestDistance = distance;
+                closest = cell;
+            }
+        }
+        return closest;
+    }
+
+    private resolveAttachment(angle: number, slot: IHexPosition, color: BubbleColor, bounces: number): IShotOutcome {
+        const pixel = this.toPixel(slot);
+        const shot: IAIBoardCell = {
+            q: slot.q,
+            r: slot.r,
+            x: pixel.x,
+            y: pixel.y,
+            color,
+            gem: false,
+            blocker: false,
+            mystery: false
+        };
+        const cells = new Map(this.cells);
+        cells.set(hexKey(slot.q, slot.r), shot);
+
+        const getNeighbors = (cell: IAIBoardCell): IAIBoardCell[] =>
+            getHexNeighbors({ q: cell.q, r: cell.r, s: 0 })
+                .map(hex => cells.get(hexKey(hex.q, hex.r)))
+                .filter((neighbor): neighbor is IAIBoardCell => neighbor !== undefined);
+
+        const group = findColorGroup(shot, color, getNeighbors, cell => (cell.blocker ? undefined : cell.color));
+        let popped: IAIBoardCell[] = [];
+        let dropped: IAIBoardCell[] = [];
+
+        if (group.size >= MIN_MATCH_SIZE) {
+            popped = [...group];
+            popped.forEach(cell => cells.delete(hexKey(cell.q, cell.r)));
+
+            const anchors = getAnchorPositions()
+                .map(hex => cells.get(hexKey(hex.q, hex.r)))
+                .filter((cell): cell is IAIBoardCell => cell !== undefined);
+            dropped = findDisconnected([...cells.values()], anchors, getNeighbors);
+            dropped.forEach(cell => cells.delete(hexKey(cell.q, cell.r)));
+        }
+
+        return {
+            angle,
+            result: 'attached',
+            attachedAt: slot,
+            bounces,
+            popped,
+            dropped,
+            gemsCleared: [...popped, ...dropped].filter(cell => cell.gem).length,
+            mysteryCleared: popped.filter(cell => cell.mystery).length,
+            board: [...cells.values()]
+        };
+    }
+
+    private createOutcome(angle: number, result: 'objective' | 'lost', bounces: number): IShotOutcome {
+        return {
+            angle,
+            result,
+            attachedAt: null,
+            bounces,
+            popped: [],
+            dropped: [],
+            gemsCleared: 0,
+            mysteryCleared: 0,
+            board: [...this.cells.values()]
+        };
+    }
+
+    private toPixel(hex: IHexPosition): IPixelPosition {
+        const offset = hexToPixelOffset(hex, this.board.hexSize);
+        return { x: this.board.center.x + offset.x, y: this.board.center.y + offset.y };
+    }
+}
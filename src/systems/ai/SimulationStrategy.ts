@@ -0,0 +1,170 @@
+/**
+ * SimulationStrategy - Tries every launcher angle on a copy of the board
+ * Each candidate is played out by ShotSimulator (bounces, attachment, matches
+ * and falls) and the resulting board is scored, so the bot sees exactly what
+ * its shot will do instead of guessing from nearby colors.
+ */
+
+import { GRID_CONFIG } from '@/config/ArenaConfig';
+import { RandomStream } from '@/core/RandomService';
+import { getAnchorPositions, OBJECTIVE_HEX } from '@/core/rules/GridRules';
+import { getHexNeighbors, hexKey } from '@/core/rules/HexMath';
+import { IShotOutcome, ShotSimulator } from '@/systems/ai/ShotSimulator';
+import { BubbleColor } from '@/types/ArenaTypes';
+import { IAIBoardCell, IAIShotContext, IAIShotDecision, IAIStrategy } from '@/types/AITypes';
+
+export interface ISimulationWeights {
+    objectiveHit: number;
+    popped: number; // Per bubble in the match
+    dropped: number; // Per bubble left floating
+    gem: number; // Per gem cleared
+    mystery: number; // Per mystery bubble popped
+    setup: number; // Per same-color neighbor when the shot does not match
+    openAnchor: number; // Per free cell around the objective afterwards
+    ownHalf: number; // Per bubble left on our half
+    danger: number; // Per bubble left in the rows next to our launcher
+    lost: number; // Shot that hits nothing
+}
+
+export interface ISimulationStrategyOptions {
+    minAngle: number;
+    maxAngle: number;
+    angleStep: number;
+    weights: ISimulationWeights;
+}
+
+export const DEFAULT_SIMULATION_WEIGHTS: ISimulationWeights = {
+    objectiveHit: 10000,
+    popped: 30,
+    dropped: 50,
+    gem: 200,
+    mystery: 50,
+    setup: 12,
+    openAnchor: 40,
+    ownHalf: -5,
+    danger: -25,
+    lost: -1000
+};
+
+const DEFAULT_OPTIONS: ISimulationStrategyOptions = {
+    minAngle: 15, // Launcher limits, as in the heuristic AI
+    maxAngle: 165,
+    angleStep: 1,
+    weights: DEFAULT_SIMULATION_WEIGHTS
+};
+
+// Rows this close to the launcher edge count as danger
+const DANGER_ROWS = 2;
+
+// With less time than this left, gems are worth double - the clock decides ties
+const LATE_GAME_TIME = 30000;
+
+export class SimulationStrategy implements IAIStrategy {
+    public readonly name: string = 'simulation';
+    private options: ISimulationStrategyOptions;
+
+    constructor(options: Partial<ISimulationStrategyOptions> = {}) {
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+    }
+
+    public chooseShot(context: IAIShotContext, rng: RandomStream): IAIShotDecision {
+        const simulator = new ShotSimulator(context.board);
+        const { minAngle, maxAngle, angleStep } = this.options;
+        let best: IAIShotDecision | null = null;
+
+        for (let angle = minAngle; angle <= maxAngle; angle += angleStep) {
+            const outcome = simulator.simulate(context.launcher, angle, context.color);
+            if (outcome.bounces > 0 && !context.allowBankShots) {
+                continue;
+            }
+            const score = this.scoreOutcome(outcome, context);
+
+            // On a tie prefer the straighter shot - fewer bounces to go wrong
+            const straighter = best !== null && score === best.score
+                && Math.abs(angle - 90) < Math.abs(best.angle - 90);
+            if (!best || score > best.score || straighter) {
+                best = { angle, score, reasoning: SimulationStrategy.describe(outcome) };
+            }
+        }
+
+        return best ?? { angle: rng.pick([85, 90, 95]), score: 0, reasoning: 'no candidate angles' };
+    }
+
+    /**
+     * Value of a shot: what it clears now plus how good the board it leaves is
+     */
+    public scoreOutcome(outcome: IShotOutcome, context: IAIShotContext): number {
+        const weights = this.options.weights;
+        if (outcome.result === 'objective') {
+            return context.targetObjective ? weights.objectiveHit : 0;
+        }
+        if (outcome.result === 'lost') {
+            return weights.lost;
+        }
+
+        // Enough gems on the board to win counts like hitting the objective
+        if (outcome.gemsCleared > 0 && context.gems.own + outcome.gemsCleared >= context.gems.toWin) {
+            return weights.objectiveHit;
+        }
+
+        const gemWeight = context.timeRemaining < LATE_GAME_TIME ? weights.gem * 2 : weights.gem;
+        let score = outcome.popped.length * weights.popped
+            + outcome.dropped.length * weights.dropped
+            + outcome.gemsCleared * gemWeight
+            + outcome.mysteryCleared * weights.mystery
+            + this.scoreBoard(outcome.board, context);
+
+        if (outcome.popped.length === 0 && outcome.attachedAt) {
+            // A group we can finish with the next bubble is worth more
+            const setupWeight = context.queue[0] === context.color ? weights.setup * 2 : weights.setup;
+            score += this.countSameColorNeighbors(outcome.board, outcome.attachedAt, context.color) * setupWeight;
+        }
+        return score;
+    }
+
+    private scoreBoard(board: IAIBoardCell[], context: IAIShotContext): number {
+        const weights = this.options.weights;
+        const occupied = new Set(board.map(cell => hexKey(cell.q, cell.r)));
+        const openAnchors = getAnchorPositions().filter(hex =>
+            hex !== OBJECTIVE_HEX && !occupied.has(hexKey(hex.q, hex.r))
+        ).length;
+
+        // Our launcher is above the objective when its y is smaller - our half is then r < 0
+        const ownSign = context.launcher.y < context.board.center.y ? -1 : 1;
+        let ownHalf = 0;
+        let danger = 0;
+        board.forEach(cell => {
+            const depth = cell.r * ownSign;
+            if (depth > 0) {
+                ownHalf++;
+            }
+            if (depth > GRID_CONFIG.CENTER_ROW - DANGER_ROWS) {
+                danger++;
+            }
+        });
+
+        return openAnchors * weights.openAnchor + ownHalf * weights.ownHalf + danger * weights.danger;
+    }
+
+    private countSameColorNeighbors(board: IAIBoardCell[], at: { q: number; r: number }, color: BubbleColor): number {
+        const cells = new Map(board.map(cell => [hexKey(cell.q, cell.r), cell]));
+        return getHexNeighbors({ q: at.q, r: at.r, s: 0 })
+            .map(hex => cells.get(hexKey(hex.q, hex.r)))
+            .filter(cell => cell && !cell.blocker && cell.color === color)
+            .length;
+    }
+
+    private static describe(outcome: IShotOutcome): string {
+        const bounce = outcome.bounces > 0 ? ` via ${outcome.bounces} bounce(s)` : '';
+        if (outcome.result === 'objective') {
+            return `objective hit${bounce}`;
+        }
+        if (outcome.result === 'lost') {
+            return 'no target';
+        }
+        if (outcome.popped.length === 0) {
+            return `placed at ${outcome.attachedAt?.q},${outcome.attachedAt?.r}${bounce}`;
+        }
+        return `match-${outcome.popped.length}, ${outcome.dropped.length} falling${bounce}`;
+    }
+}
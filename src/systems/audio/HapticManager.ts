@@ -14,6 +14,7 @@ export interface IHapticPattern {
 }
 
 export class HapticManager {
+    private static instance: HapticManager;
     private canVibrate: boolean = false;
     private enabled: boolean = true;
     
@@ -34,6 +35,16 @@ export class HapticManager {
         console.log(`HapticManager: Initialized - Native: ${isNative}, Vibration API: ${this.canVibrate}`);
     }
 
+    /**
+     * Shared instance - the vibration setting applies to every caller
+     */
+    public static getInstance(): HapticManager {
+        if (!HapticManager.instance) {
+            HapticManager.instance = new HapticManager();
+        }
+        return HapticManager.instance;
+    }
+
     /**
      * Detect device haptic capabilities
      */
@@ -5,12 +5,16 @@
 
 import { Scene } from 'phaser';
 import { ASSET_KEYS } from '@/config/AssetManifest';
+import { IGameSettings } from '@/types/GameTypes';
 
 export class RealSoundSystem {
     private scene: Scene;
     private sounds: Map<string, Phaser.Sound.BaseSound> = new Map();
     private muted: boolean = false;
     private masterVolume: number = 0.5;
+    private sfxVolume: number = 1;
+    private musicVolume: number = 1;
+    private musicEnabled: boolean = true;
     
     // Volume settings for different sound types
     private volumes = {
@@ -180,7 +184,7 @@ export class RealSoundSystem {
      * Play background music
      */
     public playBackgroundMusic(): Phaser.Sound.BaseSound | undefined {
-        if (this.muted) return undefined;
+        if (this.muted || !this.musicEnabled) return undefined;
         
         const key = ASSET_KEYS.AUDIO.BACKGROUND_MUSIC;
         
@@ -197,7 +201,7 @@ export class RealSoundSystem {
         }
         
         const music = this.scene.sound.add(key, {
-            volume: this.volumes.background * this.masterVolume,
+            volume: this.getMusicVolume(),
             loop: true
         });
         
@@ -221,7 +225,7 @@ export class RealSoundSystem {
             }
             
             const sound = this.scene.sound.add(key, {
-                volume: volume * this.masterVolume,
+                volume: volume * this.masterVolume * this.sfxVolume,
                 rate: rate // Playback speed
             });
             
@@ -256,6 +260,39 @@ export class RealSoundSystem {
         this.scene.sound.volume = this.masterVolume;
     }
 
+    /**
+     * Apply the player's audio settings - "sound" off silences everything, music included
+     */
+    public applySettings(settings: IGameSettings): void {
+        this.muted = !settings.soundEnabled;
+        this.musicEnabled = settings.soundEnabled && settings.musicEnabled;
+        this.masterVolume = settings.masterVolume;
+        this.sfxVolume = settings.sfxVolume;
+        this.musicVolume = settings.musicVolume;
+
+        const music = this.sounds.get('background-music') as Phaser.Sound.WebAudioSound | undefined;
+        if (music) {
+            music.setVolume(this.getMusicVolume());
+            if (!this.musicEnabled) {
+                music.pause();
+            } else if (music.isPaused) {
+                music.resume();
+            }
+        }
+    }
+
+    public isMusicEnabled(): boolean {
+        return this.musicEnabled;
+    }
+
+    /**
+     * Music volume after master and music settings
+     * @param baseVolume Mix level of the track (defaults to the background music level)
+     */
+    public getMusicVolume(baseVolume: number = this.volumes.background): number {
+        return baseVolume * this.masterVolume * this.musicVolume;
+    }
+
     /**
      * Test all sounds
      */
@@ -0,0 +1,52 @@
+/**
+ * CampaignChapters - The puzzle campaign, one chapter per background theme
+ * Levels are bundled JSON files in src/levels; each is played on its chapter's
+ * theme and unlocks the next once it is won.
+ */
+
+import { ICampaignChapter } from '@/types/CampaignTypes';
+
+export const CAMPAIGN_CHAPTERS: ICampaignChapter[] = [
+    {
+        id: 'ocean',
+        name: 'Ocean Shallows',
+        theme: 'ocean',
+        color: 0x3498db,
+        levelIds: ['campaign-ocean-01', 'campaign-ocean-02']
+    },
+    {
+        id: 'sunset',
+        name: 'Sunset Coast',
+        theme: 'sunset',
+        color: 0xff7f50,
+        levelIds: ['campaign-sunset-01', 'campaign-sunset-02']
+    },
+    {
+        id: 'forest',
+        name: 'Deep Forest',
+        theme: 'forest',
+        color: 0x2ecc71,
+        levelIds: ['campaign-forest-01', 'campaign-forest-02']
+    },
+    {
+        id: 'space',
+        name: 'Outer Space',
+        theme: 'space',
+        color: 0x9b59b6,
+        levelIds: ['campaign-space-01', 'campaign-space-02']
+    },
+    {
+        id: 'aurora',
+        name: 'Aurora Peaks',
+        theme: 'aurora',
+        color: 0x1abc9c,
+        levelIds: ['campaign-aurora-01', 'campaign-aurora-02']
+    }
+];
+
+/**
+ * The chapter a campaign level belongs to
+ */
+export function getChapterForLevel(levelId: string): ICampaignChapter | undefined {
+    return CAMPAIGN_CHAPTERS.find(chapter => chapter.levelIds.includes(levelId));
+}
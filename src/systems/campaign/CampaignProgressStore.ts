@@ -0,0 +1,59 @@
+/**
+ * CampaignProgressStore - Best star rating and score per campaign level, persisted to local storage
+ * Replaying a level never lowers its record. Losing the save starts the campaign over.
+ */
+
+import { VersionedStore } from '@/core/VersionedStore';
+import { CAMPAIGN_FORMAT_VERSION, ICampaignLevelRecord, ICampaignProgress, ICampaignProgressFile } from '@/types/CampaignTypes';
+
+export class CampaignProgressStore {
+    private static readonly storage = new VersionedStore<ICampaignProgress, ICampaignProgressFile>({
+        key: 'bubble-battle-campaign',
+        version: CAMPAIGN_FORMAT_VERSION,
+        owner: 'CampaignProgressStore',
+        label: 'progress',
+        createDefault: () => CampaignProgressStore.createDefault(),
+        toFile: progress => ({ progress }),
+        fromFile: file => file.progress ? { ...CampaignProgressStore.createDefault(), ...file.progress } : null
+    });
+
+    public static createDefault(): ICampaignProgress {
+        return { levels: {} };
+    }
+
+    public static load(): ICampaignProgress {
+        return CampaignProgressStore.storage.load();
+    }
+
+    public static save(progress: ICampaignProgress): void {
+        CampaignProgressStore.storage.save(progress);
+    }
+
+    /**
+     * Best stars for a level - 0 if it was never won
+     */
+    public static getStars(levelId: string): number {
+        return CampaignProgressStore.load().levels[levelId]?.stars ?? 0;
+    }
+
+    /**
+     * Keep a won level's result if it beats the record - losses are not recorded
+     */
+    public static recordResult(levelId: string, stars: number, score: number): ICampaignLevelRecord | undefined {
+        const progress = CampaignProgressStore.load();
+        const previous = progress.levels[levelId];
+        if (stars <= 0) {
+            return previous;
+        }
+        const record: ICampaignLevelRecord = {
+            stars: Math.max(previous?.stars ?? 0, stars),
+            bestScore: Math.max(previous?.bestScore ?? 0, score)
+        };
+        CampaignProgressStore.save({ ...progress, levels: { ...progress.levels, [levelId]: record } });
+        return record;
+    }
+
+    public static reset(): void {
+        CampaignProgressStore.storage.clear();
+    }
+}
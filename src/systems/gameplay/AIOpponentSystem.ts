@@ -2,23 +2,26 @@ import Phaser from 'phaser';
 import { Launcher } from '@/gameObjects/Launcher';
 // BubbleQueue removed - integrated into Launcher
 import { Bubble } from '@/gameObjects/Bubble';
+import { MysteryBubble } from '@/gameObjects/MysteryBubble';
 import { BubbleColor } from '@/types/ArenaTypes';
-import { BUBBLE_CONFIG, ARENA_CONFIG, Z_LAYERS } from '@/config/ArenaConfig';
+import { BUBBLE_CONFIG, Z_LAYERS } from '@/config/ArenaConfig';
+import { RandomService, RandomStream } from '@/core/RandomService';
+import { GameStateManager } from '@/core/GameStateManager';
+import { GameEventBus } from '@/core/EventBus';
+import { HeuristicStrategy } from '@/systems/ai/HeuristicStrategy';
+import { IAIPowerUpPlan, PowerUpPlanner } from '@/systems/ai/PowerUpPlanner';
+import { SimulationStrategy } from '@/systems/ai/SimulationStrategy';
+import { PowerUpType } from '@/systems/powerups/PowerUpManager';
+import { getPowerUpDefinition } from '@/powerups';
+import { ATTACK_PRIMITIVES, PowerUpId } from '@/types/PowerUpTypes';
+import { POWER_UP_RULES } from '@/core/rules/PowerUpRules';
+import { IAIBoardCell, IAIBoardView, IAIShotContext, IAIStrategy, IAITuning } from '@/types/AITypes';
 
 export enum AIDifficulty {
     EASY = 'EASY',
     MEDIUM = 'MEDIUM',
-    HARD = 'HARD'
-}
-
-interface IShootTarget {
-    angle: number;
-    useWallBounce: 'none' | 'left' | 'right';
-    targetBubble?: Bubble;
-    score: number;
-    reasoning: string;
-    potentialFalls?: number; // Number of bubbles that would fall
-    totalValue?: number; // Total value including falls
+    HARD = 'HARD',
+    ADAPTIVE = 'ADAPTIVE' // Tuned to the player by AdaptiveDifficultyController
 }
 
 export class AIOpponentSystem {
@@ -38,8 +41,40 @@ export class AIOpponentSystem {
     private difficulty: AIDifficulty = AIDifficulty.HARD;
     private isOnCooldown: boolean = false;
     private readonly COOLDOWN_TIME: number = 1000; // Same as player - 1 second
-    private readonly SHOOT_SPEED: number = 600; // Same as player
+    private cooldownMultiplier: number = 1; // JAM attack stretches the cooldown
+    private isInked: boolean = false; // INK attack throws off its aim
+    private strategies: Record<AIDifficulty, IAIStrategy> = {
+        [AIDifficulty.EASY]: new HeuristicStrategy(),
+        [AIDifficulty.MEDIUM]: new HeuristicStrategy(),
+        [AIDifficulty.HARD]: new SimulationStrategy(),
+        [AIDifficulty.ADAPTIVE]: new SimulationStrategy()
+    };
+    // Thinking time (ms) per difficulty - adaptive tuning overrides it
+    private static readonly THINK_TIMES: Record<AIDifficulty, { min: number; max: number }> = {
+        [AIDifficulty.EASY]: { min: 3000, max: 5000 },
+        [AIDifficulty.MEDIUM]: { min: 2000, max: 3000 },
+        [AIDifficulty.HARD]: { min: 1000, max: 1500 }, // Still quick but more thoughtful
+        [AIDifficulty.ADAPTIVE]: { min: 2000, max: 3000 }
+    };
+    private tuning: IAITuning | null = null;
+    // Chance per shot to use a power-up it has a plan for - adaptive tuning uses its skill
+    private static readonly POWER_UP_CHANCE: Record<AIDifficulty, number> = {
+        [AIDifficulty.EASY]: 0.25,
+        [AIDifficulty.MEDIUM]: 0.6,
+        [AIDifficulty.HARD]: 1,
+        [AIDifficulty.ADAPTIVE]: 1
+    };
+    private static readonly LASER_SHOTS: number = 5; // Same as the player's laser sight
+    private powerUpPlanner: PowerUpPlanner = new PowerUpPlanner();
+    private laserShots: number = 0; // Precise shots left from a laser sight
     
+    /**
+     * Seeded gameplay randomness - looked up on demand so a reseed is always honoured
+     */
+    private get rng(): RandomStream {
+        return RandomService.getInstance().stream('ai');
+    }
+
     constructor(scene: Phaser.Scene, launcher: Launcher) {
         this.scene = scene;
         this.launcher = launcher;
@@ -49,12 +84,87 @@ export class AIOpponentSystem {
         
         // Listen for shooting complete to know when we can shoot again
         this.scene.events.on('shooting-complete', this.onShootingComplete, this);
+        this.scene.events.on('power-up-incoming', this.onPowerUpIncoming);
     }
     
     public setDifficulty(difficulty: AIDifficulty): void {
         this.difficulty = difficulty;
     }
+
+    /**
+     * Swap the shot picker for a difficulty - defaults to the current one
+     */
+    public setStrategy(strategy: IAIStrategy, difficulty: AIDifficulty = this.difficulty): void {
+        this.strategies[difficulty] = strategy;
+    }
+
+    /**
+     * Adaptive behaviour - think time, aim error, bank shots and objective play.
+     * null goes back to the fixed difficulty.
+     */
+    public setTuning(tuning: IAITuning | null): void {
+        this.tuning = tuning;
+    }
+
+    public getStrategy(difficulty: AIDifficulty = this.difficulty): IAIStrategy {
+        return this.strategies[difficulty];
+    }
     
+    /**
+     * Restrict the queue to a level's colors
+     */
+    public setAvailableColors(colors: BubbleColor[]): void {
+        if (colors.length === 0) {
+            return;
+        }
+        this.availableColors = [...colors];
+        this.nextBubbleColors = this.nextBubbleColors.map(color =>
+            colors.includes(color) ? color : RandomService.getInstance().stream('opponentQueue').pick(colors)
+        );
+        this.launcher.updateQueueColors(this.nextBubbleColors);
+
+        if (this.currentBubble && !colors.includes(this.currentBubble.getColor())) {
+            this.loadNextBubble();
+        }
+    }
+
+    /**
+     * Loaded bubble color, for snapshots
+     */
+    public getLoadedColor(): BubbleColor | null {
+        return this.currentBubble ? this.currentBubble.getColor() : null;
+    }
+
+    /**
+     * JAM attack - cooldowns started from now take this many times longer (1 to clear it)
+     */
+    public setCooldownMultiplier(multiplier: number): void {
+        this.cooldownMultiplier = multiplier;
+    }
+
+    /**
+     * INK attack - the AI has no preview to blot out, so it aims worse instead
+     */
+    public setInked(inked: boolean): void {
+        this.isInked = inked;
+    }
+
+    public getQueueColors(): BubbleColor[] {
+        return [...this.nextBubbleColors];
+    }
+
+    /**
+     * Restore the loaded bubble and queue from a snapshot
+     */
+    public restoreQueue(loaded: BubbleColor | null, next: BubbleColor[]): void {
+        this.nextBubbleColors = [...next];
+        if (loaded !== null) {
+            this.launcher.loadBubble(loaded);
+            this.currentBubble = this.launcher.getLoadedBubble() || null;
+        }
+        this.launcher.updateQueueColors(this.nextBubbleColors);
+    }
+
     public start(): void {
         this.isActive = true;
         // console.log('AI: Starting with difficulty', this.difficulty);
@@ -79,6 +189,7 @@ export class AIOpponentSystem {
         
         // Cancel cooldown state
         this.isOnCooldown = false;
+        this.laserShots = 0;
         
         // Clean up current bubble when stopping
         if (this.currentBubble) {
@@ -100,7 +211,7 @@ export class AIOpponentSystem {
         // Generate 3 colors: current + next 2
         this.nextBubbleColors = [];
         for (let i = 0; i < 3; i++) {
-            const randomColor = this.availableColors[Math.floor(Math.random() * this.availableColors.length)];
+            const randomColor = RandomService.getInstance().stream('opponentQueue').pick(this.availableColors);
             this.nextBubbleColors.push(randomColor);
         }
         
@@ -124,7 +235,7 @@ export class AIOpponentSystem {
         
         // Shift queue and add new color
         this.nextBubbleColors.shift(); // Remove current color
-        const newColor = this.availableColors[Math.floor(Math.random() * this.availableColors.length)];
+        const newColor = RandomService.getInstance().stream('opponentQueue').pick(this.availableColors);
         this.nextBubbleColors.push(newColor); // Add new color at end
         
         // Update launcher queue rings with new colors
@@ -137,18 +248,8 @@ export class AIOpponentSystem {
         if (!this.isActive || this.isOnCooldown) return;
         
         // Decision time based on difficulty (thinking time, not shooting speed)
-        let thinkingTime: number;
-        switch (this.difficulty) {
-            case AIDifficulty.EASY:
-                thinkingTime = 3000 + Math.random() * 2000; // 3-5 seconds to think
-                break;
-            case AIDifficulty.MEDIUM:
-                thinkingTime = 2000 + Math.random() * 1000; // 2-3 seconds to think
-                break;
-            case AIDifficulty.HARD:
-                thinkingTime = 1000 + Math.random() * 500; // 1-1.5 seconds (still quick but more thoughtful)
-                break;
-        }
+        const range = this.tuning ? this.tuning.thinkTime : AIOpponentSystem.THINK_TIMES[this.difficulty];
+        const thinkingTime = range.min + this.rng.next() * (range.max - range.min);
         
         this.shootTimer = this.scene.time.delayedCall(thinkingTime, () => {
             if (!this.isActive) {
@@ -163,13 +264,21 @@ export class AIOpponentSystem {
     private performShot(): void {
         if (this.isOnCooldown || !this.currentBubble) return;
         
+        // A blast, strike or freeze takes the turn - the shot comes after the cooldown
+        const powerUp = this.usePlannedPowerUp(this.createShotContext(this.currentBubble.getColor()));
+        if (powerUp && powerUp.angles.length === 0) {
+            this.startCooldown();
+            return;
+        }
+
+        // A rainbow may have recolored the loaded bubble
         const color = this.currentBubble.getColor();
-        const bubbleId = this.currentBubble.getData('bubbleId');
         
-        // Find best shot based on difficulty
-        const target = this.calculateBestShot(color);
-        
-        // console.log(`🎯 AI shooting: ID=${bubbleId} ${this.getColorName(color)} at ${target.angle.toFixed(1)}° (${target.reasoning}) score=${target.score}`);
+        // Find best shot with this difficulty's strategy, unless the power-up already aimed it
+        const target = powerUp
+            ? { angle: powerUp.angles[0], score: powerUp.value, reasoning: powerUp.reasoning }
+            : this.strategies[this.difficulty].chooseShot(this.createShotContext(color), this.rng);
+        target.angle = this.aim(target.angle);
         
         // Update launcher aim
         this.launcher.setAimAngle(target.angle);
@@ -201,9 +310,22 @@ export class AIOpponentSystem {
             bubble: bubbleToShoot  // Pass the actual bubble!
         });
         
-        // Start cooldown (same as player!)
+        // Multi-shot - the rest of the spread, ShootingSystem makes the bubbles
+        if (powerUp) {
+            powerUp.angles.slice(1).forEach(angle => {
+                this.scene.events.emit('ai-shoot', { angle: this.aim(angle), color });
+            });
+        }
+
+        this.startCooldown();
+    }
+
+    /**
+     * Start cooldown (same as player!), then load and think about the next shot
+     */
+    private startCooldown(): void {
         this.isOnCooldown = true;
-        this.scene.time.delayedCall(this.COOLDOWN_TIME, () => {
+        this.scene.time.delayedCall(this.COOLDOWN_TIME * this.cooldownMultiplier, () => {
             if (!this.isActive) {
                 return;
             }
@@ -215,373 +337,159 @@ export class AIOpponentSystem {
         });
     }
     
-    private calculateBestShot(color: BubbleColor): IShootTarget {
-        const gridBubbles = this.getGridBubbles();
-        const sameColorBubbles = gridBubbles.filter(b => b.getColor() === color);
-        
-        // BALANCED: Use all same color bubbles for smart AI
-        const closestBubbles = sameColorBubbles; // Use all for now to keep AI smart
-        
-        let bestTarget: IShootTarget | null = null;
-        
-        if (this.difficulty === AIDifficulty.HARD) {
-            // PRIORITY 1: Check if we can hit the objective directly!
-            const objectiveShot = this.checkObjectiveShot();
-            if (objectiveShot) {
-                // console.log(`  🎯 WINNING SHOT AVAILABLE! Direct path to objective!`);
-                return objectiveShot;
-            }
-            // PRIORITY 2: Smart targeting for strategic eliminations
-            let allTargets: IShootTarget[] = [];
-            
-            // First, check if we should prioritize clearing path to objective
-            const objectiveExposed = this.isObjectiveExposed();
-            if (!objectiveExposed) {
-                // console.log(`  🏯 Objective is protected - need to clear path`);
-                // Prioritize bubbles near the objective
-                const centerX = this.scene.cameras.main.centerX;
-                const centerY = this.scene.cameras.main.centerY;
-                
-                // Find bubbles blocking the objective
-                const blockingBubbles = sameColorBubbles.filter(b => {
-                    const dist = Phaser.Math.Distance.Between(b.x, b.y, centerX, centerY);
-                    return dist < BUBBLE_CONFIG.SIZE * 4; // Near objective
-                });
-                
-                if (blockingBubbles.length > 0) {
-                    // console.log(`  🎯 Found ${blockingBubbles.length} same-color bubbles near objective`);
-                    sameColorBubbles.unshift(...blockingBubbles); // Prioritize these
-                }
-            }
-            
-            if (closestBubbles.length > 0) {
-                // OPTIMIZED: Only analyze closest bubbles, not ALL
-                for (const targetBubble of closestBubbles) {
-                    // OPTIMIZED: Try 3 key angles for good coverage
-                    const angles = [
-                        this.calculateAngleToTarget(targetBubble.x, targetBubble.y),
-                        this.calculateAngleToTarget(targetBubble.x, targetBubble.y - BUBBLE_CONFIG.SIZE),
-                        this.calculateAngleToTarget(targetBubble.x - BUBBLE_CONFIG.SIZE * 0.5, targetBubble.y)
-                    ];
-                    
-                    for (const angle of angles) {
-                        if (angle >= 15 && angle <= 165) {
-                            const targetPos = { x: targetBubble.x, y: targetBubble.y };
-                            // OPTIMIZED: Better trajectory check
-                            if (this.isTrajectoryLikelyClear(angle, targetPos)) {
-                                // OPTIMIZED: Use smarter match counting
-                                const matchSize = this.countPotentialMatch(targetBubble, color);
-                                const potentialFalls = matchSize >= 3 ? 2 : 0; // Simple fall estimation
-                                
-                                // Check distance to objective for priority
-                                const centerX = this.scene.cameras.main.centerX;
-                                const centerY = this.scene.cameras.main.centerY;
-                                const distToObjective = Phaser.Math.Distance.Between(targetBubble.x, targetBubble.y, centerX, centerY);
-                                const nearObjective = distToObjective < BUBBLE_CONFIG.SIZE * 4;
-                                
-                                // Higher base score if near objective
-                                const baseScore = nearObjective ? 200 + (matchSize * 30) : 100 + (matchSize * 20);
-                                const fallBonus = potentialFalls * 300;
-                                
-                                allTargets.push({
-                                    angle: angle,
-                                    useWallBounce: 'none',
-                                    targetBubble: targetBubble,
-                                    score: baseScore + fallBonus,
-                                    totalValue: baseScore + fallBonus,
-                                    potentialFalls: potentialFalls,
-                                    reasoning: `match-${matchSize}${potentialFalls > 0 ? ` causing ${potentialFalls} falls` : ''}${nearObjective ? ' NEAR OBJECTIVE' : ''}`
-                                });
-                                
-                                // Found a good shot, but keep looking for better ones
-                                break; // But still check other bubbles
-                            }
-                        }
-                    }
-                }
-            }
-            
-            // OPTIMIZED: Include basic wall bounce for smart plays
-            if (closestBubbles.length > 0 && closestBubbles.length < 5) {
-                // Only check wall bounces when there are few targets
-                const bounceTargets = this.findWallBounceTargets(color, closestBubbles.slice(0, 3));
-                allTargets.push(...bounceTargets);
-            }
-            
-            // Pick the best target from all analyzed
-            if (allTargets.length > 0) {
-                allTargets.sort((a, b) => (b.totalValue || b.score) - (a.totalValue || a.score));
-                bestTarget = allTargets[0];
-                // console.log(`  📊 Analyzed ${allTargets.length} possible shots`);
-                // console.log(`  🎯 Best shot: ${bestTarget.reasoning} (score: ${bestTarget.totalValue || bestTarget.score})`);
-            }
+    /**
+     * Plan with whatever is in the arsenal and spend it - returns the plan used, if any.
+     * Shot power-ups (laser, rainbow, multi-shot) come back with angles to fire;
+     * the rest land on the arena through ArenaCoordinator.
+     */
+    private usePlannedPowerUp(context: IAIShotContext): IAIPowerUpPlan | null {
+        // The planner thinks in kinds - a Mega Bomb is planned as a bomb
+        const held = this.launcher.getArsenalState()
+            .map(slot => slot.type)
+            .filter((id): id is PowerUpId => id !== null);
+        const inventory = held
+            .map(id => getPowerUpDefinition(id)?.kind)
+            .filter((type): type is PowerUpType => type !== undefined)
+            // A laser sight that is still on needs no second one
+            .filter(type => type !== PowerUpType.LASER || this.laserShots === 0);
+        if (inventory.length === 0) {
+            return null;
         }
-        
-        // If no strategic shot found (or easier difficulty), find ANY valid shot
-        if (!bestTarget) {
-            bestTarget = this.findStraightShotTarget(sameColorBubbles);
+
+        const chance = this.tuning ? this.tuning.skill : AIOpponentSystem.POWER_UP_CHANCE[this.difficulty];
+        if (!this.rng.chance(chance)) {
+            return null;
         }
-        
-        // If still no direct shot, try ANY bubble we can hit
-        if (!bestTarget) {
-            const allBubbles = this.getGridBubbles();
-            for (const bubble of allBubbles) {
-                const angle = this.calculateAngleToTarget(bubble.x, bubble.y);
-                if (angle >= 15 && angle <= 165) {
-                    const targetPos = { x: bubble.x, y: bubble.y };
-                    if (this.isTrajectoryLikelyClear(angle, targetPos)) {
-                        bestTarget = {
-                            angle: angle,
-                            useWallBounce: 'none',
-                            score: 10,
-                            reasoning: 'any available target'
-                        };
-                        break;
-                    }
-                }
-            }
+
+        const plan = this.powerUpPlanner.plan(inventory, context);
+        const id = plan ? held.find(heldId => getPowerUpDefinition(heldId)?.kind === plan.type) : undefined;
+        if (!plan || !id || !this.launcher.useArsenalPowerUp(id)) {
+            return null;
         }
-        
-        // Absolutely last resort - shoot at safe angles
-        if (!bestTarget) {
-            const safeAngles = [85, 90, 95, 75, 105];
-            const randomAngle = safeAngles[Math.floor(Math.random() * safeAngles.length)];
-            bestTarget = {
-                angle: randomAngle,
-                useWallBounce: 'none',
-                score: 0,
-                reasoning: 'safe fallback'
-            };
+
+        if (plan.type === PowerUpType.LASER) {
+            this.laserShots = AIOpponentSystem.LASER_SHOTS;
         }
-        
-        return bestTarget;
-    }
-    
-    private findStraightShotTarget(sameColorBubbles: Bubble[]): IShootTarget | null {
-        // Find any bubble we can hit directly
-        const gridBubbles = this.getGridBubbles();
-        const allTargets = sameColorBubbles.length > 0 ? sameColorBubbles : gridBubbles;
-        
-        for (const bubble of allTargets) {
-            const angle = this.calculateAngleToTarget(bubble.x, bubble.y);
-            
-            // Check if angle is within launcher constraints
-            if (angle >= 15 && angle <= 165) {
-                const targetPos = { x: bubble.x, y: bubble.y };
-                if (this.isTrajectoryLikelyClear(angle, targetPos)) {
-                    return {
-                        angle: angle,
-                        useWallBounce: 'none',
-                        targetBubble: bubble,
-                        score: 50,
-                        reasoning: `direct shot to ${this.getColorName(bubble.getColor())}`
-                    };
-                }
-            }
+        if (plan.type === PowerUpType.RAINBOW && plan.color !== null && this.currentBubble) {
+            this.currentBubble.setColor(plan.color);
         }
-        
-        return null;
-    }
-    
-    private findTargetsViaWallBounce(color: BubbleColor): IShootTarget[] {
-        const targets: IShootTarget[] = [];
-        const gridBubbles = this.getGridBubbles();
-        const sameColorBubbles = gridBubbles.filter(b => b.getColor() === color);
-        
-        // Check each same-color bubble for possible wall bounces
-        for (const bubble of sameColorBubbles) {
-            // Check possible attachment points around the bubble
-            const attachPoints = this.getAttachmentPoints(bubble);
-            
-            for (const point of attachPoints) {
-                // Check how many same-color bubbles would be connected from this point
-                const wouldConnect = this.countConnectedBubbles(point, color, sameColorBubbles);
-                
-                if (wouldConnect >= 2) { // Would make at least match-3
-                    const angle = this.calculateAngleToTarget(point.x, point.y);
-                    
-                    // Check if angle is valid and trajectory is clear
-                    if (angle >= 15 && angle <= 165 && this.isTrajectoryLikelyClear(angle, point)) {
-                        targets.push({
-                            angle: angle,
-                            useWallBounce: 'none',
-                            targetBubble: bubble,
-                            score: 100 + wouldConnect * 50,
-                            reasoning: `match-${wouldConnect + 1}`
-                        });
-                    }
-                }
-            }
+        const isAttack = getPowerUpDefinition(id)?.effects
+            .some(primitive => ATTACK_PRIMITIVES.includes(primitive.type));
+        const atArena = !isAttack && plan.angles.length === 0;
+        if (isAttack) {
+            // Lands on the player once their counter-window is up
+            this.scene.events.emit('power-up-attack', { id, isPlayer: false });
+        } else if (atArena) {
+            this.scene.events.emit('ai-power-up', plan);
         }
-        
-        // Sort by score (best first)
-        return targets.sort((a, b) => b.score - a.score);
+
+        const position = plan.target ?? { x: this.launcher.x, y: this.launcher.y };
+        GameEventBus.getInstance().emitTyped('powerup-activated', {
+            type: id,
+            isPlayer: false,
+            x: position.x,
+            y: position.y,
+            // A replay lands it on the same bubbles
+            plan: atArena
+                ? { type: plan.type, target: plan.target, cells: plan.cells.map(({ q, r }) => ({ q, r })) }
+                : undefined
+        });
+        return plan;
     }
-    
-    private findWallBounceTargets(color: BubbleColor, sameColorBubbles: Bubble[]): IShootTarget[] {
-        const targets: IShootTarget[] = [];
-        const screenWidth = this.scene.cameras.main.width;
-        
-        for (const bubble of sameColorBubbles) {
-            // Left wall bounce
-            const mirrorX = -bubble.x; // Mirror across left wall
-            const leftBounceAngle = this.calculateAngleToTarget(mirrorX, bubble.y);
-            if (leftBounceAngle >= 100 && leftBounceAngle <= 165) { // Must aim left
-                targets.push({
-                    angle: leftBounceAngle,
-                    useWallBounce: 'left',
-                    targetBubble: bubble,
-                    score: 80,
-                    reasoning: 'left wall bounce'
-                });
-            }
-            
-            // Right wall bounce
-            const mirrorX2 = screenWidth + (screenWidth - bubble.x); // Mirror across right wall
-            const rightBounceAngle = this.calculateAngleToTarget(mirrorX2, bubble.y);
-            if (rightBounceAngle >= 15 && rightBounceAngle <= 80) { // Must aim right
-                targets.push({
-                    angle: rightBounceAngle,
-                    useWallBounce: 'right',
-                    targetBubble: bubble,
-                    score: 80,
-                    reasoning: 'right wall bounce'
-                });
-            }
+
+    /**
+     * An attack is on its way - raise a held shield in time, as often as the AI would use a power-up
+     */
+    private onPowerUpIncoming = (data: { isPlayer: boolean }): void => {
+        if (!this.isActive || data.isPlayer) {
+            return;
         }
-        
-        return targets.sort((a, b) => b.score - a.score);
-    }
-    
-    private findBestWallBounce(color: BubbleColor, targets: Bubble[]): IShootTarget | null {
-        for (const bubble of targets) {
-            // Try left wall bounce
-            const leftMirrorX = -bubble.x;
-            const leftAngle = this.calculateAngleToTarget(leftMirrorX, bubble.y);
-            if (leftAngle >= 100 && leftAngle <= 165) {
-                // Verify the bounce path is clear
-                const bouncePoint = { x: 0, y: this.launcher.y + Math.tan(leftAngle * Math.PI / 180) * this.launcher.x };
-                if (this.isTrajectoryLikelyClear(leftAngle, bouncePoint)) {
-                    return {
-                        angle: leftAngle,
-                        useWallBounce: 'left',
-                        score: 100,
-                        reasoning: `left bounce to ${this.getColorName(color)}`
-                    };
-                }
-            }
-            
-            // Try right wall bounce
-            const screenWidth = this.scene.cameras.main.width;
-            const rightMirrorX = screenWidth + (screenWidth - bubble.x);
-            const rightAngle = this.calculateAngleToTarget(rightMirrorX, bubble.y);
-            if (rightAngle >= 15 && rightAngle <= 80) {
-                // Verify the bounce path is clear
-                const bouncePoint = { x: screenWidth, y: this.launcher.y + Math.tan(rightAngle * Math.PI / 180) * (screenWidth - this.launcher.x) };
-                if (this.isTrajectoryLikelyClear(rightAngle, bouncePoint)) {
-                    return {
-                        angle: rightAngle,
-                        useWallBounce: 'right',
-                        score: 100,
-                        reasoning: `right bounce to ${this.getColorName(color)}`
-                    };
-                }
-            }
+        const shield = this.launcher.getArsenalState()
+            .map(slot => slot.type)
+            .find(id => id !== null && getPowerUpDefinition(id)?.kind === PowerUpType.SHIELD);
+        const chance = this.tuning ? this.tuning.skill : AIOpponentSystem.POWER_UP_CHANCE[this.difficulty];
+        if (!shield || !this.rng.chance(chance) || !this.launcher.useArsenalPowerUp(shield)) {
+            return;
         }
-        return null;
-    }
-    
-    private getAttachmentPoints(bubble: Bubble): { x: number, y: number }[] {
-        const points: { x: number, y: number }[] = [];
-        const size = BUBBLE_CONFIG.SIZE;
-        
-        // Six hexagonal neighbor positions
-        const offsets = [
-            { x: size, y: 0 },        // Right
-            { x: -size, y: 0 },       // Left
-            { x: size/2, y: -size * 0.866 },   // Top-right
-            { x: -size/2, y: -size * 0.866 },  // Top-left
-            { x: size/2, y: size * 0.866 },    // Bottom-right
-            { x: -size/2, y: size * 0.866 }    // Bottom-left
-        ];
-        
-        for (const offset of offsets) {
-            points.push({
-                x: bubble.x + offset.x,
-                y: bubble.y + offset.y
-            });
+
+        this.scene.events.emit('shield-raised', { isPlayer: false });
+        GameEventBus.getInstance().emitTyped('powerup-activated', {
+            type: shield,
+            isPlayer: false,
+            x: this.launcher.x,
+            y: this.launcher.y
+        });
+    };
+
+    /**
+     * Final aim for a shot - exact while a laser sight lasts, otherwise with any tuned aim error
+     */
+    private aim(angle: number): number {
+        if (this.laserShots > 0) {
+            this.laserShots--;
+            return angle;
         }
-        
-        return points;
+        return this.applyAimError(angle);
     }
-    
-    private countConnectedBubbles(point: { x: number, y: number }, color: BubbleColor, bubbles: Bubble[]): number {
-        let count = 0;
-        const threshold = BUBBLE_CONFIG.SIZE * 1.1;
-        
-        for (const bubble of bubbles) {
-            const dist = Phaser.Math.Distance.Between(point.x, point.y, bubble.x, bubble.y);
-            if (dist < threshold) {
-                count++;
-            }
-        }
-        
-        return count;
+
+    /**
+     * Read-only snapshot of what the strategy needs - copied, so it cannot move bubbles
+     */
+    private createShotContext(color: BubbleColor): IAIShotContext {
+        const gameState = GameStateManager.getInstance();
+        return {
+            board: this.createBoardView(),
+            launcher: { x: this.launcher.x, y: this.launcher.y + 30 }, // Where performShot releases the bubble
+            color,
+            queue: [...this.nextBubbleColors],
+            gems: {
+                own: gameState.getOpponentGems(),
+                opponent: gameState.getPlayerGems(),
+                toWin: gameState.getMatchRules().gemsToWin
+            },
+            timeRemaining: gameState.getState().gameFlow.timeRemaining,
+            // A laser sight shows bank shots and the line to the objective
+            allowBankShots: this.laserShots > 0 || (this.tuning ? this.tuning.bankShots : true),
+            targetObjective: this.laserShots > 0 || (this.tuning ? this.tuning.objectiveTargeting : true)
+        };
     }
-    
-    private calculateAngleToTarget(targetX: number, targetY: number): number {
-        const dx = targetX - this.launcher.x;
-        const dy = targetY - this.launcher.y;
-        
-        // Calculate angle in radians, then convert to degrees
-        // Using Math.atan2 which gives angle from -PI to PI
-        let angle = Math.atan2(dy, dx);
-        
-        // Convert to degrees
-        angle = angle * (180 / Math.PI);
-        
-        // Normalize to 0-360 range
-        if (angle < 0) angle += 360;
-        
-        return angle;
+
+    /**
+     * Tuned or inked AI misses by up to aimError degrees either way, within the launcher limits
+     */
+    private applyAimError(angle: number): number {
+        const aimError = (this.tuning ? this.tuning.aimError : 0) + (this.isInked ? POWER_UP_RULES.INK_AIM_ERROR : 0);
+        if (aimError <= 0) {
+            return angle;
+        }
+        const error = (this.rng.next() * 2 - 1) * aimError;
+        return Phaser.Math.Clamp(angle + error, 15, 165);
     }
-    
-    private isTrajectoryClear(angle: number, target: { x: number, y: number }): boolean {
-        // OPTIMIZED: Reduced trajectory simulation
-        const radians = angle * (Math.PI / 180);
-        const velocity = {
-            x: Math.cos(radians) * this.SHOOT_SPEED,
-            y: Math.sin(radians) * this.SHOOT_SPEED
+
+    private createBoardView(): IAIBoardView {
+        const camera = this.scene.cameras.main;
+        const cells: IAIBoardCell[] = [];
+        this.getGridBubbles().forEach(bubble => {
+            const hex = bubble.getGridPosition()!;
+            cells.push({
+                q: hex.q,
+                r: hex.r,
+                x: bubble.x,
+                y: bubble.y,
+                color: bubble.getColor(),
+                gem: bubble.getHasGem(),
+                blocker: bubble.isBlocker(),
+                mystery: bubble instanceof MysteryBubble
+            });
+        });
+
+        return {
+            cells,
+            center: { x: camera.centerX, y: camera.centerY },
+            hexSize: BUBBLE_CONFIG.SIZE / 2 + 1, // Same as BubbleGrid
+            width: camera.width,
+            height: camera.height
         };
-        
-        let testX = this.launcher.x;
-        let testY = this.launcher.y;
-        const targetDist = Phaser.Math.Distance.Between(this.launcher.x, this.launcher.y, target.x, target.y);
-        
-        // OPTIMIZED: Check reasonable points (10 instead of 20)
-        const steps = 10;
-        const stepDist = targetDist / steps;
-        
-        for (let i = 1; i < steps; i++) {
-            const t = (stepDist * i) / this.SHOOT_SPEED;
-            testX = this.launcher.x + velocity.x * t;
-            testY = this.launcher.y + velocity.y * t;
-            
-            // Check if we hit any bubble before reaching target
-            const gridBubbles = this.getGridBubbles();
-            for (const bubble of gridBubbles) {
-                const dist = Phaser.Math.Distance.Between(testX, testY, bubble.x, bubble.y);
-                if (dist < BUBBLE_CONFIG.SIZE * 0.8) {
-                    // Check if this is our target
-                    const targetDist = Phaser.Math.Distance.Between(bubble.x, bubble.y, target.x, target.y);
-                    if (targetDist > BUBBLE_CONFIG.SIZE) {
-                        return false; // Hit something else first
-                    }
-                }
-            }
-        }
-        
-        return true;
     }
     
     private getGridBubbles(): Bubble[] {
@@ -595,201 +503,6 @@ export class AIOpponentSystem {
         return bubbles;
     }
     
-    private getColorName(color: BubbleColor): string {
-        switch(color) {
-            case BubbleColor.RED: return 'RED';
-            case BubbleColor.BLUE: return 'BLUE';
-            case BubbleColor.GREEN: return 'GREEN';
-            case BubbleColor.YELLOW: return 'YELLOW';
-            case BubbleColor.PURPLE: return 'PURPLE';
-            case BubbleColor.MYSTERY: return 'MYSTERY';
-            default: return 'UNKNOWN';
-        }
-    }
-    
-    /**
-     * OPTIMIZED: Get strategic bubbles for analysis (not just closest)
-     */
-    private getClosestBubbles(bubbles: Bubble[], limit: number): Bubble[] {
-        // Sort by strategic value: closer to objective and easier to hit
-        const centerX = this.scene.cameras.main.centerX;
-        const centerY = this.scene.cameras.main.centerY;
-        
-        const sorted = bubbles.sort((a, b) => {
-            // Consider both distance to launcher AND distance to objective
-            const distA = Phaser.Math.Distance.Between(this.launcher.x, this.launcher.y, a.x, a.y);
-            const distB = Phaser.Math.Distance.Between(this.launcher.x, this.launcher.y, b.x, b.y);
-            
-            const objDistA = Phaser.Math.Distance.Between(a.x, a.y, centerX, centerY);
-            const objDistB = Phaser.Math.Distance.Between(b.x, b.y, centerX, centerY);
-            
-            // Prioritize bubbles near objective but also reachable
-            const scoreA = distA * 0.3 + objDistA * 0.7;
-            const scoreB = distB * 0.3 + objDistB * 0.7;
-            
-            return scoreA - scoreB;
-        });
-        return sorted.slice(0, limit);
-    }
-    
-    /**
-     * OPTIMIZED: Quick trajectory check without full simulation
-     */
-    private isTrajectoryLikelyClear(angle: number, target: { x: number, y: number }): boolean {
-        // More lenient path checking for better AI performance
-        const gridBubbles = this.getGridBubbles();
-        const radians = angle * Math.PI / 180;
-        const direction = {
-            x: Math.cos(radians),
-            y: Math.sin(radians)
-        };
-        
-        const targetDist = Phaser.Math.Distance.Between(this.launcher.x, this.launcher.y, target.x, target.y);
-        
-        // Check only a few key points along the path
-        for (let t = 0.3; t < 0.9; t += 0.3) {
-            const checkX = this.launcher.x + direction.x * targetDist * t;
-            const checkY = this.launcher.y + direction.y * targetDist * t;
-            
-            // Check if any bubble blocks this point
-            for (const bubble of gridBubbles) {
-                if (!bubble.visible) continue;
-                const dist = Phaser.Math.Distance.Between(checkX, checkY, bubble.x, bubble.y);
-                if (dist < BUBBLE_CONFIG.SIZE * 0.7) { // More lenient collision
-                    return false;
-                }
-            }
-        }
-        return true;
-    }
-    
-    /**
-     * OPTIMIZED: Quick match count without recursion
-     */
-    private quickCountPotentialMatch(targetBubble: Bubble, shootColor: BubbleColor): number {
-        // Just count immediate neighbors of same color
-        const neighbors = this.getNeighborBubbles(targetBubble);
-        let count = 1; // Include the shot itself
-        for (const neighbor of neighbors) {
-            if (neighbor.getColor() === shootColor) {
-                count++;
-            }
-        }
-        return count;
-    }
-    
-    private countPotentialMatch(targetBubble: Bubble, shootColor: BubbleColor): number {
-        const visited = new Set<Bubble>();
-        const toCheck = [targetBubble];
-        let matchCount = 1; // Count the shot bubble itself
-        
-        // Find all connected same-color bubbles
-        while (toCheck.length > 0) {
-            const current = toCheck.pop()!;
-            if (visited.has(current)) continue;
-            visited.add(current);
-            
-            // Only count if same color as what we're shooting
-            if (current.getColor() === shootColor) {
-                if (current !== targetBubble) matchCount++;
-                
-                // Check neighbors
-                const neighbors = this.getNeighborBubbles(current);
-                for (const neighbor of neighbors) {
-                    if (!visited.has(neighbor) && neighbor.getColor() === shootColor) {
-                        toCheck.push(neighbor);
-                    }
-                }
-            }
-        }
-        
-        return matchCount;
-    }
-    
-    private predictFallsFromShot(targetBubble: Bubble, shootColor: BubbleColor): number {
-        // Simulate what would happen if we made this match
-        const matchSize = this.countPotentialMatch(targetBubble, shootColor);
-        
-        if (matchSize < 3) return 0; // No match, no falls
-        
-        // This is a simplified prediction - in reality we'd need to simulate the full match and fall
-        // For now, estimate based on position
-        const neighbors = this.getNeighborBubbles(targetBubble);
-        let potentialFalls = 0;
-        
-        for (const neighbor of neighbors) {
-            if (neighbor.getColor() !== shootColor) {
-                // Check if this bubble would be disconnected
-                const supportingNeighbors = this.getNeighborBubbles(neighbor);
-                const wouldLoseSupport = supportingNeighbors.filter(n => 
-                    n === targetBubble || n.getColor() === shootColor
-                ).length >= supportingNeighbors.length - 1;
-                
-                if (wouldLoseSupport) {
-                    potentialFalls++;
-                }
-            }
-        }
-        
-        return potentialFalls;
-    }
-    
-    private getNeighborBubbles(bubble: Bubble): Bubble[] {
-        const neighbors: Bubble[] = [];
-        const gridBubbles = this.getGridBubbles();
-        const threshold = BUBBLE_CONFIG.SIZE * 1.1;
-        
-        for (const other of gridBubbles) {
-            if (other === bubble) continue;
-            const dist = Phaser.Math.Distance.Between(bubble.x, bubble.y, other.x, other.y);
-            if (dist < threshold) {
-                neighbors.push(other);
-            }
-        }
-        
-        return neighbors;
-    }
-    
-    private checkObjectiveShot(): IShootTarget | null {
-        const centerX = this.scene.cameras.main.centerX;
-        const centerY = this.scene.cameras.main.centerY;
-        
-        // Calculate angle to objective
-        const angle = this.calculateAngleToTarget(centerX, centerY);
-        
-        // Check if angle is valid
-        if (angle >= 15 && angle <= 165) {
-            // Check if path is clear
-            const target = { x: centerX, y: centerY };
-            if (this.isTrajectoryLikelyClear(angle, target)) {
-                return {
-                    angle: angle,
-                    useWallBounce: 'none',
-                    score: 10000, // Winning shot!
-                    reasoning: '🏆 DIRECT HIT ON OBJECTIVE!'
-                };
-            }
-        }
-        
-        return null;
-    }
-    
-    private isObjectiveExposed(): boolean {
-        const centerX = this.scene.cameras.main.centerX;
-        const centerY = this.scene.cameras.main.centerY;
-        const gridBubbles = this.getGridBubbles();
-        
-        // Check if any bubbles are very close to objective
-        for (const bubble of gridBubbles) {
-            const dist = Phaser.Math.Distance.Between(bubble.x, bubble.y, centerX, centerY);
-            if (dist < BUBBLE_CONFIG.SIZE * 1.5) {
-                return false; // Objective is protected
-            }
-        }
-        
-        return true; // Objective is exposed
-    }
-    
     private onShootingComplete = (): void => {
         // AI doesn't need to do anything special here
         // The cooldown is already handled in performShot
@@ -799,5 +512,6 @@ export class AIOpponentSystem {
         this.stop();
         // Queue is now integrated into launcher - no separate cleanup needed
         this.scene.events.off('shooting-complete', this.onShootingComplete);
+        this.scene.events.off('power-up-incoming', this.onPowerUpIncoming);
     }
 }
\ No newline at end of file
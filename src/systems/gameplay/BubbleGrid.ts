@@ -1,5 +1,14 @@
 import { IHexPosition, IPixelPosition } from '@/types/ArenaTypes';
 import { BUBBLE_CONFIG, GRID_CONFIG } from '@/config/ArenaConfig';
+import {
+    getHexDistance,
+    getHexNeighbors,
+    getHexRing,
+    getHexSpiral,
+    hexKey,
+    hexToPixelOffset,
+    pixelOffsetToHex
+} from '@/core/rules/HexMath';
 
 export class BubbleGrid {
     private centerX: number;
@@ -28,42 +37,17 @@ export class BubbleGrid {
     }
 
     public hexToPixel(hex: IHexPosition): IPixelPosition {
-        // Simple offset grid for bubble shooters
-        // Odd rows are offset by half a bubble width
-        const rowHeight = this.hexSize * Math.sqrt(3);
-        const colWidth = this.hexSize * 2;
-        
-        // Calculate position with offset for odd rows
-        const isOddRow = Math.abs(hex.r) % 2 === 1;
-        const xOffset = isOddRow ? this.hexSize : 0;
-        
-        const x = hex.q * colWidth + xOffset;
-        const y = hex.r * rowHeight;
+        // Simple offset grid for bubble shooters - odd rows are offset by half a bubble
+        const offset = hexToPixelOffset(hex, this.hexSize);
         
         return {
-            x: this.centerX + x,
-            y: this.centerY + y
+            x: this.centerX + offset.x,
+            y: this.centerY + offset.y
         };
     }
 
     public pixelToHex(pixel: IPixelPosition): IHexPosition {
-        const x = pixel.x - this.centerX;
-        const y = pixel.y - this.centerY;
-        
-        const rowHeight = this.hexSize * Math.sqrt(3);
-        const colWidth = this.hexSize * 2;
-        
-        // Estimate row
-        const r = Math.round(y / rowHeight);
-        
-        // Adjust x for odd row offset
-        const isOddRow = Math.abs(r) % 2 === 1;
-        const adjustedX = isOddRow ? x - this.hexSize : x;
-        
-        // Estimate column
-        const q = Math.round(adjustedX / colWidth);
-        
-        return { q, r, s: -q - r };
+        return pixelOffsetToHex(pixel.x - this.centerX, pixel.y - this.centerY, this.hexSize);
     }
 
     private roundHex(q: number, r: number): IHexPosition {
@@ -90,89 +74,23 @@ export class BubbleGrid {
 
     public getNeighbors(hex: IHexPosition): IHexPosition[] {
         // For offset grid, neighbors depend on whether we're in an odd or even row
-        const isOddRow = Math.abs(hex.r) % 2 === 1;
-        
-        let directions: Array<{q: number, r: number}> = [];
-        
-        if (!isOddRow) {
-            // Even row neighbors
-            directions = [
-                { q: 0, r: -1 },   // Top
-                { q: 1, r: 0 },    // Right
-                { q: 0, r: 1 },    // Bottom
-                { q: -1, r: 1 },   // Bottom-left
-                { q: -1, r: 0 },   // Left
-                { q: -1, r: -1 }   // Top-left
-            ];
-        } else {
-            // Odd row neighbors (offset by half)
-            directions = [
-                { q: 0, r: -1 },   // Top
-                { q: 1, r: -1 },   // Top-right
-                { q: 1, r: 0 },    // Right
-                { q: 1, r: 1 },    // Bottom-right
-                { q: 0, r: 1 },    // Bottom
-                { q: -1, r: 0 }    // Left
-            ];
-        }
-        
-        return directions.map(dir => ({
-            q: hex.q + dir.q,
-            r: hex.r + dir.r,
-            s: 0 // Not used in offset grid
-        }));
+        return getHexNeighbors(hex);
     }
 
     public getDistance(a: IHexPosition, b: IHexPosition): number {
-        return (Math.abs(a.q - b.q) + Math.abs(a.r - b.r) + Math.abs(a.s - b.s)) / 2;
+        return getHexDistance(a, b);
     }
 
     public getRing(center: IHexPosition, radius: number): IHexPosition[] {
-        if (radius === 0) return [center];
-        
-        const results: IHexPosition[] = [];
-        const directions = [
-            { q: 1, r: 0, s: -1 },
-            { q: 1, r: -1, s: 0 },
-            { q: 0, r: -1, s: 1 },
-            { q: -1, r: 0, s: 1 },
-            { q: -1, r: 1, s: 0 },
-            { q: 0, r: 1, s: -1 }
-        ];
-        
-        let hex = {
-            q: center.q + directions[4].q * radius,
-            r: center.r + directions[4].r * radius,
-            s: center.s + directions[4].s * radius
-        };
-        
-        for (let i = 0; i < 6; i++) {
-            for (let j = 0; j < radius; j++) {
-                results.push({ ...hex });
-                hex = {
-                    q: hex.q + directions[i].q,
-                    r: hex.r + directions[i].r,
-                    s: hex.s + directions[i].s
-                };
-            }
-        }
-        
-        return results;
+        return getHexRing(center, radius);
     }
 
     public getSpiral(center: IHexPosition, maxRadius: number): IHexPosition[] {
-        const results: IHexPosition[] = [];
-        
-        for (let radius = 0; radius <= maxRadius; radius++) {
-            const ring = this.getRing(center, radius);
-            results.push(...ring);
-        }
-        
-        return results;
+        return getHexSpiral(center, maxRadius);
     }
 
     private getKey(q: number, r: number): string {
-        return `${q},${r}`;
+        return hexKey(q, r);
     }
 
     public isValidPosition(hex: IHexPosition): boolean {
@@ -2,6 +2,7 @@ import { Scene } from 'phaser';
 import { Bubble } from '@/gameObjects/Bubble';
 import { GridAttachmentSystem } from './GridAttachmentSystem';
 import { Z_LAYERS } from '@/config/ArenaConfig';
+import { GameEventBus } from '@/core/EventBus';
 
 export interface CascadeResult {
     bubblesFallen: Bubble[];
@@ -79,6 +80,12 @@ export class CascadeSystem {
             bonusGems: bonusGems,
             isPlayer: data.isPlayerShot
         });
+        GameEventBus.getInstance().emitTyped('cascade-completed', {
+            bubblesFallen: fallenCount,
+            cascadeLevel: this.cascadeChainLevel,
+            bonusGems: bonusGems,
+            isPlayer: data.isPlayerShot
+        });
         
         this.cascadeInProgress = false;
         
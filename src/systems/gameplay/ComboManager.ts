@@ -1,4 +1,5 @@
 import { Scene } from 'phaser';
+import { shakeCamera } from '@/utils/motion';
 
 export enum ComboTier {
     NORMAL = '',         // 3 matches - no text
@@ -32,7 +33,7 @@ export class ComboManager {
         7: 50     // Perfect match
     };
     
-    private readonly COMBO_CONFIGS: ComboConfig[] = [
+    public static readonly COMBO_CONFIGS: ReadonlyArray<ComboConfig> = [
         { tier: ComboTier.NORMAL, multiplier: 1.0, color: 0xFFD700, minBubbles: 3 },
         { tier: ComboTier.COMBO_2, multiplier: 1.2, color: 0x00FF00, minBubbles: 4 },
         { tier: ComboTier.COMBO_3, multiplier: 1.5, color: 0x00BFFF, minBubbles: 5 },
@@ -117,13 +118,19 @@ export class ComboManager {
     }
     
     public getComboConfig(matchSize: number): ComboConfig {
-        // Find the appropriate combo tier based on match size
-        for (let i = this.COMBO_CONFIGS.length - 1; i >= 0; i--) {
-            if (matchSize >= this.COMBO_CONFIGS[i].minBubbles) {
-                return this.COMBO_CONFIGS[i];
+        return ComboManager.COMBO_CONFIGS[Math.max(ComboManager.getComboTier(matchSize), 0)];
+    }
+
+    /**
+     * Index of the match size's tier in COMBO_CONFIGS - -1 below a 3-match
+     */
+    public static getComboTier(matchSize: number): number {
+        for (let i = ComboManager.COMBO_CONFIGS.length - 1; i >= 0; i--) {
+            if (matchSize >= ComboManager.COMBO_CONFIGS[i].minBubbles) {
+                return i;
             }
         }
-        return this.COMBO_CONFIGS[0];
+        return -1;
     }
     
     private showCombo(config: ComboConfig, points: number, x: number, y: number, matchSize: number, bubbleColor?: number): void {
@@ -243,13 +250,13 @@ export class ComboManager {
         
         // Screen shake intensity based on combo
         if (matchSize >= 7) {
-            this.scene.cameras.main.shake(200, 0.008);
+            shakeCamera(this.scene, 200, 0.008);
             this.scene.cameras.main.flash(100, 255, 255, 255, false);
         } else if (matchSize >= 6) {
-            this.scene.cameras.main.shake(150, 0.005);
+            shakeCamera(this.scene, 150, 0.005);
             this.scene.cameras.main.flash(50, 255, 200, 100, false);
         } else if (matchSize >= 5) {
-            this.scene.cameras.main.shake(100, 0.003);
+            shakeCamera(this.scene, 100, 0.003);
         }
     }
     
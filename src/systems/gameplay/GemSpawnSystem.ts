@@ -1,6 +1,7 @@
 import { Scene } from 'phaser';
 import { Gem, GemType } from '@/gameObjects/Gem';
 import { BubbleColor } from '@/types/ArenaTypes';
+import { RandomService, RandomStream } from '@/core/RandomService';
 
 export class GemSpawnSystem {
     private scene: Scene;
@@ -17,6 +18,13 @@ export class GemSpawnSystem {
         [BubbleColor.PURPLE, GemType.DIAMOND] // Purple gets diamond (rarest)
     ]);
     
+    /**
+     * Seeded gameplay randomness - looked up on demand so a reseed is always honoured
+     */
+    private get rng(): RandomStream {
+        return RandomService.getInstance().stream('gems');
+    }
+
     constructor(scene: Scene) {
         this.scene = scene;
         this.setupEventListeners();
@@ -40,7 +48,7 @@ export class GemSpawnSystem {
         // Increase chance if it's part of a combo
         const chance = data.isCombo ? this.spawnChance * 2 : this.spawnChance;
         
-        if (Math.random() < chance) {
+        if (this.rng.chance(chance)) {
             this.spawnGem(data.x, data.y, data.color);
         }
     }
@@ -58,7 +66,7 @@ export class GemSpawnSystem {
     
     private handleMysteryBubbleDestroyed(data: { x: number; y: number }): void {
         // Mystery bubbles always spawn a gem
-        const isSpecial = Math.random() < 0.3; // 30% chance for diamond
+        const isSpecial = this.rng.chance(0.3); // 30% chance for diamond
         this.spawnGem(data.x, data.y, null, isSpecial ? GemType.DIAMOND : undefined);
     }
     
@@ -68,7 +76,7 @@ export class GemSpawnSystem {
         if (!gemType) {
             if (bubbleColor && this.colorToGemMap.has(bubbleColor)) {
                 // Use color-themed gem most of the time
-                if (Math.random() > this.specialSpawnChance) {
+                if (this.rng.next() > this.specialSpawnChance) {
                     gemType = this.colorToGemMap.get(bubbleColor);
                 }
             }
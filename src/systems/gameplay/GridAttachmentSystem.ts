@@ -1,9 +1,13 @@
 import { Scene } from 'phaser';
 import { Bubble } from '@/gameObjects/Bubble';
 import { BubbleGrid } from './BubbleGrid';
-import { IHexPosition, ArenaZone } from '@/types/ArenaTypes';
+import { IHexPosition, IPixelPosition, ArenaZone } from '@/types/ArenaTypes';
 import { BUBBLE_CONFIG, Z_LAYERS } from '@/config/ArenaConfig';
 import { MatchDetectionSystem } from './MatchDetectionSystem';
+import { GameEventBus } from '@/core/EventBus';
+import { chooseAttachmentSlot, findDisconnected, getAnchorPositions } from '@/core/rules/GridRules';
+import { pickMagnetStep } from '@/core/rules/PowerUpRules';
+import { shakeCamera } from '@/utils/motion';
 
 export class GridAttachmentSystem {
     private scene: Scene;
@@ -45,6 +49,21 @@ export class GridAttachmentSystem {
         }
     }
     
+    /**
+     * Re-key the position lookups after grid bubbles were moved in place
+     */
+    public reindexGrid(): void {
+        const tracked = Array.from(this.gridPositions.values());
+        this.gridPositions.clear();
+        tracked.forEach(bubble => {
+            const hexPos = bubble.getGridPosition();
+            if (hexPos) {
+                this.gridPositions.set(this.hexToKey(hexPos), bubble);
+            }
+        });
+        this.updateSpatialGrid();
+    }
+
     /**
      * Check collision between projectile and grid bubbles - OPTIMIZED
      */
@@ -151,65 +170,8 @@ export class GridAttachmentSystem {
         
         // console.log('Impact angle:', angleDeg.toFixed(1), 'degrees');
         
-        // For offset grid, we need to consider the row offset when getting neighbors
-        // In an offset grid, odd rows have different neighbor offsets
-        const isOddRow = Math.abs(hitHexPos.r) % 2 === 1;
-        
-        // Define neighbor offsets for offset grid
-        // Even rows and odd rows have different neighbor patterns
-        let neighborOffsets: Array<{q: number, r: number, angle: number}> = [];
-        
-        if (!isOddRow) {
-            // Even row neighbors
-            neighborOffsets = [
-                { q: 0, r: -1, angle: 270 },  // Top
-                { q: 1, r: 0, angle: 0 },     // Right  
-                { q: 0, r: 1, angle: 90 },    // Bottom
-                { q: -1, r: 1, angle: 135 },  // Bottom-left
-                { q: -1, r: 0, angle: 180 },  // Left
-                { q: -1, r: -1, angle: 225 }  // Top-left
-            ];
-        } else {
-            // Odd row neighbors (offset by half)
-            neighborOffsets = [
-                { q: 0, r: -1, angle: 270 },  // Top
-                { q: 1, r: -1, angle: 315 },  // Top-right
-                { q: 1, r: 0, angle: 0 },     // Right
-                { q: 1, r: 1, angle: 45 },    // Bottom-right
-                { q: 0, r: 1, angle: 90 },    // Bottom
-                { q: -1, r: 0, angle: 180 }   // Left
-            ];
-        }
-        
-        // Find the best neighbor based on impact angle
-        let bestNeighbor: IHexPosition | null = null;
-        let minAngleDiff = 360;
-        
-        for (const offset of neighborOffsets) {
-            const neighbor: IHexPosition = {
-                q: hitHexPos.q + offset.q,
-                r: hitHexPos.r + offset.r,
-                s: 0 // Not used in offset grid
-            };
-            
-            // Skip if position is occupied
-            if (this.isPositionOccupied(neighbor)) {
-                // console.log('Position occupied:', neighbor);
-                continue;
-            }
-            
-            // Calculate angle difference
-            let angleDiff = Math.abs(angleDeg - offset.angle);
-            if (angleDiff > 180) angleDiff = 360 - angleDiff;
-            
-            // console.log('Checking neighbor:', neighbor, 'angle:', offset.angle, 'diff:', angleDiff.toFixed(1));
-            
-            // Choose the neighbor with the closest angle match
-            if (angleDiff < minAngleDiff) {
-                minAngleDiff = angleDiff;
-                bestNeighbor = neighbor;
-            }
-        }
+        // Closest free slot to the impact direction (shared with the AI shot simulator)
+        const bestNeighbor = chooseAttachmentSlot(hitHexPos, angleDeg, hex => this.isPositionOccupied(hex));
         
         if (bestNeighbor) {
             const pixelPos = this.bubbleGrid.hexToPixel(bestNeighbor);
@@ -437,6 +399,11 @@ export class GridAttachmentSystem {
             // Only emit if bubble is visible and has a valid position
             if (bubble.visible && bubble.getGridPosition()) {
                 this.scene.events.emit('bubble-attached', { bubble, position: hexPos });
+                GameEventBus.getInstance().emitTyped('bubble-attached', {
+                    bubble,
+                    position: { q: hexPos.q, r: hexPos.r },
+                    isPlayer: bubble.getShooter() === 'player'
+                });
             }
             
             // If no matches, emit matches-resolved
@@ -595,97 +562,39 @@ export class GridAttachmentSystem {
         disconnected.set(ArenaZone.OPPONENT, []);
         disconnected.set(ArenaZone.OBJECTIVE, []);
         
-        // Mark all bubbles as unvisited
-        const visited = new Set<Bubble>();
-        const connected = new Set<Bubble>();
-        
-        // Find bubbles adjacent to the objective (center position)
-        const centerHex: IHexPosition = { q: 0, r: 0, s: 0 };
+        // Get bubbles at the objective and its immediate neighbors as anchors
         const anchors: Bubble[] = [];
-        
-        // Get bubbles at center and immediate neighbors as anchors
-        const centerBubble = this.getBubbleAtPosition(centerHex);
-        if (centerBubble) {
-            anchors.push(centerBubble);
-        }
-        
-        // Get neighbors of center as additional anchors
-        const centerNeighbors = this.bubbleGrid.getNeighbors(centerHex);
-        centerNeighbors.forEach(neighborHex => {
-            const bubble = this.getBubbleAtPosition(neighborHex);
+        getAnchorPositions().forEach(anchorHex => {
+            const bubble = this.getBubbleAtPosition(anchorHex);
             if (bubble) {
                 anchors.push(bubble);
             }
         });
         
-        // If no anchors (no bubbles near objective), all bubbles are disconnected
-        if (anchors.length === 0) {
-            // If there are no grid bubbles at all, return empty map
-            if (this.gridBubbles.length === 0) {
-                return disconnected;
-            }
-            
-            // Otherwise, all existing bubbles are floating
-            this.gridBubbles.forEach(bubble => {
-                if (bubble.visible && bubble.active) {
-                    const zone = this.getZoneForBubble(bubble);
-                    const zoneArray = disconnected.get(zone);
-                    if (zoneArray) {
-                        zoneArray.push(bubble);
-                    }
-                }
-            });
-            return disconnected;
-        }
+        // If no anchors (no bubbles near objective), all active bubbles are floating
+        const candidates = anchors.length === 0
+            ? this.gridBubbles.filter(bubble => bubble.visible && bubble.active)
+            : this.gridBubbles.filter(bubble => bubble.visible);
         
-        // console.log(`Found ${anchors.length} anchor bubbles near objective`);
-        
-        // Flood fill from each anchor to find connected bubbles
-        anchors.forEach(anchor => {
-            this.floodFill(anchor, visited, connected);
-        });
-        
-        // console.log(`${connected.size} bubbles are connected to objective`);
-        
-        // Any unvisited bubbles are disconnected and should fall
-        this.gridBubbles.forEach(bubble => {
-            if (!connected.has(bubble) && bubble.visible) {
-                const zone = this.getZoneForBubble(bubble);
-                disconnected.get(zone)?.push(bubble);
-            }
-        });
-        
-        // Log disconnected counts
-        disconnected.forEach((bubbles, zone) => {
-            if (bubbles.length > 0) {
-                // console.log(`${bubbles.length} disconnected bubbles in ${zone} zone`);
-            }
+        // Any bubble not reachable from an anchor is disconnected and should fall
+        findDisconnected(candidates, anchors, bubble => this.getNeighborBubbleList(bubble)).forEach(bubble => {
+            const zone = this.getZoneForBubble(bubble);
+            disconnected.get(zone)?.push(bubble);
         });
         
         return disconnected;
     }
     
     /**
-     * Flood fill to find connected bubbles
+     * Get the grid bubbles adjacent to a bubble
      */
-    private floodFill(bubble: Bubble, visited: Set<Bubble>, connected: Set<Bubble>): void {
-        if (visited.has(bubble)) return;
-        visited.add(bubble);
-        connected.add(bubble);
-        
+    private getNeighborBubbleList(bubble: Bubble): Bubble[] {
         const hexPos = bubble.getGridPosition();
-        if (!hexPos) return;
+        if (!hexPos) return [];
         
-        // Get neighbors
-        const neighbors = this.bubbleGrid.getNeighbors(hexPos);
-        
-        // Check each neighbor
-        neighbors.forEach(neighborHex => {
-            const neighborBubble = this.getBubbleAtPosition(neighborHex);
-            if (neighborBubble && !visited.has(neighborBubble)) {
-                this.floodFill(neighborBubble, visited, connected);
-            }
-        });
+        return this.bubbleGrid.getNeighbors(hexPos)
+            .map(neighborHex => this.getBubbleAtPosition(neighborHex))
+            .filter((neighbor): neighbor is Bubble => neighbor !== null);
     }
     
     /**
@@ -813,10 +722,66 @@ export class GridAttachmentSystem {
         
         // Add screen shake for large groups
         if (bubbles.length >= 5) {
-            this.scene.cameras.main.shake(150, 0.002);
+            shakeCamera(this.scene, 150, 0.002);
         }
     }
     
+    /**
+     * MAGNET - move a grid bubble one cell toward a point, into a free cell that still
+     * touches the rest of the grid. Once there it settles like an attached bubble: its
+     * matches count for the magnet's side and whatever it leaves hanging falls.
+     * Returns false when no such cell is closer.
+     */
+    public pullBubbleToward(bubble: Bubble, point: IPixelPosition, isPlayer: boolean): boolean {
+        const from = bubble.getGridPosition();
+        if (!from) {
+            return false;
+        }
+
+        const isFrom = (hex: IHexPosition): boolean => hex.q === from.q && hex.r === from.r;
+        const freeNeighbors = this.bubbleGrid.getNeighbors(from)
+            .filter(hex =>
+                !(hex.q === 0 && hex.r === 0) && // The objective's cell
+                this.bubbleGrid.isValidPosition(hex) &&
+                !this.isPositionOccupied(hex) &&
+                this.bubbleGrid.getNeighbors(hex)
+                    .some(neighbor => !isFrom(neighbor) && this.isPositionOccupied(neighbor))
+            )
+            .map(hex => ({ hex, ...this.bubbleGrid.hexToPixel(hex) }));
+        const step = pickMagnetStep(this.bubbleGrid.hexToPixel(from), freeNeighbors, point);
+        if (!step) {
+            return false;
+        }
+
+        this.gridPositions.delete(this.hexToKey(from));
+        bubble.setGridPosition(step.hex);
+        bubble.setShooter(isPlayer ? 'player' : 'ai');
+        this.gridPositions.set(this.hexToKey(step.hex), bubble);
+        this.scene.tweens.add({
+            targets: bubble,
+            x: step.x,
+            y: step.y,
+            duration: 120,
+            ease: 'Quad.easeOut',
+            onComplete: () => {
+                this.updateSpatialGrid();
+                void this.settlePulledBubble(bubble, isPlayer);
+            }
+        });
+        return true;
+    }
+
+    /**
+     * The match and fall checks an attachment runs, for a bubble the magnet moved
+     */
+    private async settlePulledBubble(bubble: Bubble, isPlayer: boolean): Promise<void> {
+        if (!bubble.visible || !bubble.getGridPosition()) {
+            return;
+        }
+        await this.matchDetectionSystem?.checkForMatches(bubble);
+        this.checkDisconnectedBubbles(isPlayer);
+    }
+
     /**
      * Get all grid bubbles
      */
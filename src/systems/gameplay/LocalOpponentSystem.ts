@@ -0,0 +1,230 @@
+import Phaser from 'phaser';
+import { Launcher } from '@/gameObjects/Launcher';
+import { Bubble } from '@/gameObjects/Bubble';
+import { BubbleColor } from '@/types/ArenaTypes';
+import { Z_LAYERS } from '@/config/ArenaConfig';
+import { RandomService } from '@/core/RandomService';
+import { getTopLauncherAngle, getTouchSide } from '@/core/rules/SplitTouchRules';
+
+/**
+ * LocalOpponentSystem - A second player on the same device drives the top launcher.
+ * Touches that start on the top half of the screen aim it, lifting the finger fires.
+ * Shots go out as 'ai-shoot' events so ShootingSystem handles them like the AI's,
+ * and the top launcher's arsenal slots take the second player's taps.
+ */
+export class LocalOpponentSystem {
+    private scene: Phaser.Scene;
+    private launcher: Launcher;
+    private currentBubble: Bubble | null = null;
+    private nextBubbleColors: BubbleColor[] = [];
+    private availableColors: BubbleColor[] = [
+        BubbleColor.RED,
+        BubbleColor.BLUE,
+        BubbleColor.GREEN,
+        BubbleColor.YELLOW,
+        BubbleColor.PURPLE
+    ];
+    private isActive: boolean = false;
+    private isOnCooldown: boolean = false;
+    private readonly COOLDOWN_TIME: number = 1000; // Same as the bottom player
+    private cooldownMultiplier: number = 1; // JAM attack stretches the cooldown
+    private inkBlots?: Phaser.GameObjects.Graphics; // INK attack over the top player's aim
+
+    constructor(scene: Phaser.Scene, launcher: Launcher) {
+        this.scene = scene;
+        this.launcher = launcher;
+        this.launcher.enableArsenalControls();
+
+        this.scene.input.on('pointerdown', this.onPointerDown);
+        this.scene.input.on('pointermove', this.onPointerMove);
+        this.scene.input.on('pointerup', this.onPointerUp);
+    }
+
+    public start(): void {
+        this.isActive = true;
+        this.isOnCooldown = false;
+
+        // Straight down until the top player touches
+        this.launcher.setAimAngle(90);
+
+        if (this.nextBubbleColors.length === 0) {
+            this.generateNextBubbleColors();
+        }
+        if (!this.currentBubble) {
+            this.loadNextBubble();
+        }
+    }
+
+    public stop(): void {
+        this.isActive = false;
+        this.isOnCooldown = false;
+        this.launcher.setHighlight(false);
+    }
+
+    /**
+     * Restrict the queue to a level's colors
+     */
+    public setAvailableColors(colors: BubbleColor[]): void {
+        if (colors.length === 0) {
+            return;
+        }
+        this.availableColors = [...colors];
+        this.nextBubbleColors = this.nextBubbleColors.map(color =>
+            colors.includes(color) ? color : this.drawQueueColor()
+        );
+        this.launcher.updateQueueColors(this.nextBubbleColors);
+
+        if (this.currentBubble && !colors.includes(this.currentBubble.getColor())) {
+            this.loadNextBubble();
+        }
+    }
+
+    /**
+     * Loaded bubble color, for snapshots
+     */
+    public getLoadedColor(): BubbleColor | null {
+        return this.currentBubble ? this.currentBubble.getColor() : null;
+    }
+
+    public getQueueColors(): BubbleColor[] {
+        return [...this.nextBubbleColors];
+    }
+
+    /**
+     * Restore the loaded bubble and queue from a snapshot
+     */
+    public restoreQueue(loaded: BubbleColor | null, next: BubbleColor[]): void {
+        this.nextBubbleColors = [...next];
+        if (loaded !== null) {
+            this.launcher.loadBubble(loaded);
+            this.currentBubble = this.launcher.getLoadedBubble() || null;
+        }
+        this.launcher.updateQueueColors(this.nextBubbleColors);
+    }
+
+    /**
+     * JAM attack - cooldowns started from now take this many times longer (1 to clear it)
+     */
+    public setCooldownMultiplier(multiplier: number): void {
+        this.cooldownMultiplier = multiplier;
+    }
+
+    /**
+     * INK attack - blots over the field in front of the top launcher
+     */
+    public setInked(inked: boolean): void {
+        this.inkBlots?.destroy();
+        this.inkBlots = undefined;
+        if (!inked) {
+            return;
+        }
+
+        this.inkBlots = this.scene.add.graphics();
+        this.inkBlots.setDepth(Z_LAYERS.UI - 1);
+        this.inkBlots.fillStyle(0x1A1A2E, 0.9);
+        [[-60, 140, 70], [50, 190, 85], [-20, 260, 60], [90, 280, 50]].forEach(([dx, dy, radius]) => {
+            this.inkBlots?.fillCircle(this.launcher.x + dx, this.launcher.y + dy, radius);
+        });
+    }
+
+    private isOwnPointer(pointer: Phaser.Input.Pointer): boolean {
+        return getTouchSide(pointer.downY, this.scene.cameras.main.height) === 'top';
+    }
+
+    private onPointerDown = (pointer: Phaser.Input.Pointer): void => {
+        if (!this.isActive || !this.isOwnPointer(pointer)) {
+            return;
+        }
+        this.aimAt(pointer);
+        this.launcher.showAiming(true);
+    };
+
+    private onPointerMove = (pointer: Phaser.Input.Pointer): void => {
+        if (!this.isActive || !pointer.isDown || !this.isOwnPointer(pointer)) {
+            return;
+        }
+        this.aimAt(pointer);
+    };
+
+    private onPointerUp = (
+        pointer: Phaser.Input.Pointer,
+        currentlyOver: Phaser.GameObjects.GameObject[] = []
+    ): void => {
+        if (!this.isActive || !this.isOwnPointer(pointer)) {
+            return;
+        }
+        this.launcher.showAiming(false);
+
+        // Taps on HUD controls are not shots
+        if (currentlyOver.some(object => object.getData('uiControl') === true)) {
+            return;
+        }
+        this.shoot();
+    };
+
+    private aimAt(pointer: Phaser.Input.Pointer): void {
+        this.launcher.setAimAngle(getTopLauncherAngle(this.launcher.x, this.launcher.y, pointer.x, pointer.y));
+    }
+
+    private shoot(): void {
+        if (this.isOnCooldown || !this.currentBubble) {
+            return;
+        }
+
+        const angle = this.launcher.getAimAngle();
+        const bubble = this.currentBubble;
+        const color = bubble.getColor();
+        this.currentBubble = null;
+
+        this.launcher.clearLoadedBubble();
+        this.launcher.animateShoot(color);
+
+        bubble.setPosition(this.launcher.x, this.launcher.y + 30); // Top launcher shoots downward
+        bubble.setScale(1);
+        bubble.setDepth(Z_LAYERS.BUBBLES_FRONT);
+
+        this.scene.events.emit('ai-shoot', { angle, color, bubble });
+
+        this.isOnCooldown = true;
+        this.scene.time.delayedCall(this.COOLDOWN_TIME * this.cooldownMultiplier, () => {
+            if (!this.isActive) {
+                return;
+            }
+            this.isOnCooldown = false;
+            this.loadNextBubble();
+        });
+    }
+
+    private generateNextBubbleColors(): void {
+        this.nextBubbleColors = [];
+        for (let i = 0; i < 3; i++) {
+            this.nextBubbleColors.push(this.drawQueueColor());
+        }
+    }
+
+    /**
+     * Loads next bubble using integrated queue system
+     */
+    private loadNextBubble(): void {
+        const currentColor = this.nextBubbleColors[0] || BubbleColor.BLUE;
+
+        this.launcher.loadBubble(currentColor);
+        this.currentBubble = this.launcher.getLoadedBubble() || null;
+
+        this.nextBubbleColors.shift();
+        this.nextBubbleColors.push(this.drawQueueColor());
+        this.launcher.updateQueueColors(this.nextBubbleColors);
+    }
+
+    private drawQueueColor(): BubbleColor {
+        return RandomService.getInstance().stream('opponentQueue').pick(this.availableColors);
+    }
+
+    public destroy(): void {
+        this.stop();
+        this.setInked(false);
+        this.scene.input.off('pointerdown', this.onPointerDown);
+        this.scene.input.off('pointermove', this.onPointerMove);
+        this.scene.input.off('pointerup', this.onPointerUp);
+    }
+}
@@ -6,6 +6,8 @@ import { BubbleColor, IHexPosition, ArenaZone } from '@/types/ArenaTypes';
 import { Z_LAYERS } from '@/config/ArenaConfig';
 import { MysteryBubble } from '@/gameObjects/MysteryBubble';
 import { GameEventBus } from '@/core/EventBus';
+import { findColorGroup, MIN_MATCH_SIZE } from '@/core/rules/GridRules';
+import { shakeCamera } from '@/utils/motion';
 // import { getParticlePool } from '@/optimization'; // Temporarily disabled
 
 export class MatchDetectionSystem {
@@ -18,7 +20,7 @@ export class MatchDetectionSystem {
     public enabled: boolean = true;
     
     // Match settings
-    private minimumMatchSize: number = 3;
+    private minimumMatchSize: number = MIN_MATCH_SIZE;
     private isProcessing: boolean = false;
     private matchQueue: Array<{bubble: Bubble, isAIMatch: boolean}> = [];
     
@@ -191,6 +193,12 @@ export class MatchDetectionSystem {
                 totalScore: this.totalScore,
                 combo: this.combo
             });
+            this.eventBus.emitTyped('match-completed', {
+                count: matches.size,
+                score: score,
+                combo: this.combo,
+                isPlayer: !isAIMatch
+            });
             
         }
         
@@ -210,47 +218,16 @@ export class MatchDetectionSystem {
     }
     
     /**
-     * Find all connected bubbles of the same color (Mystery bubbles match any color)
+     * Find all connected bubbles of the same color
      */
     private findColorMatches(startBubble: Bubble, targetColor: BubbleColor): Set<Bubble> {
-        const matches = new Set<Bubble>();
-        const visited = new Set<Bubble>();
-        const queue: Bubble[] = [startBubble];
-        
-        while (queue.length > 0) {
-            const current = queue.shift()!;
-            
-            // Skip if already visited
-            if (visited.has(current)) continue;
-            visited.add(current);
-            
-            // Check if bubble color matches target color
-            const currentColor = current.getColor();
-            
-            // Skip if bubble has no color, is not visible, or color doesn't match
-            if (!current.visible || currentColor === undefined || currentColor === null) {
-                continue;
-            }
-            
-            // Mystery Bubbles must ALSO match the color, they're not wildcards
-            if (currentColor !== targetColor) {
-                continue;
-            }
-            
-            // Add to matches
-            matches.add(current);
-            
-            // Get neighbors
-            const neighbors = this.getNeighborBubbles(current);
-            
-            for (const neighbor of neighbors) {
-                if (!visited.has(neighbor)) {
-                    queue.push(neighbor);
-                }
-            }
-        }
-        
-        return matches;
+        // Hidden bubbles and blockers never count towards a match
+        return findColorGroup(
+            startBubble,
+            targetColor,
+            bubble => this.getNeighborBubbles(bubble),
+            bubble => (bubble.visible && !bubble.isBlocker() ? bubble.getColor() : undefined)
+        );
     }
     
     /**
@@ -525,7 +502,7 @@ export class MatchDetectionSystem {
         
         // Screen shake only for large matches
         if (bubbles.length >= 6) {
-            this.scene.cameras.main.shake(150, 0.002);
+            shakeCamera(this.scene, 150, 0.002);
         }
         
         await Promise.all(promises);
@@ -582,16 +559,18 @@ export class MatchDetectionSystem {
                 // DISABLED: Visual feedback now handled by UnifiedFeedbackSystem
                 // this.showOrphanBonus(avgX, avgY, allDisconnected.length, totalOrphanBonus);
                 
-                // Emit floating bubbles drop event for sound system
+                // Determine shooter based on which side had more bubbles
+                const isAIBonus = upwardBubbles > downwardBubbles;
+
+                // Emit floating bubbles drop event for sound system and the arsenal meter
                 this.scene.events.emit('floating-bubbles-drop', {
                     count: allDisconnected.length,
                     x: avgX,
-                    y: avgY
+                    y: avgY,
+                    isPlayer: !isAIBonus
                 });
                 
                 // Emit score update for orphan bonus with adjusted Y position
-                // Determine shooter based on which side had more bubbles
-                const isAIBonus = upwardBubbles > downwardBubbles;
                 
                 this.scene.events.emit('score-update', {
                     score: this.totalScore,
@@ -0,0 +1,46 @@
+/**
+ * ObjectiveCombo - Consecutive direct hits on the objective
+ * Hits by either side within RESET_TIME of each other build the combo up, each
+ * one awarding 1-5 gems. A shot the last hitter puts into the grid instead breaks
+ * their run; the other side's shots leave it alone.
+ */
+export class ObjectiveCombo {
+    public static readonly RESET_TIME = 3000; // ms between hits before the combo lapses
+    public static readonly MAX_GEMS = 5;
+
+    private count: number = 0;
+    private lastHitTime: number = 0;
+    private lastHitter?: boolean; // isPlayer of the last hit
+
+    /**
+     * A direct hit at now (ms) - the gems it awards
+     */
+    public hit(isPlayer: boolean, now: number): number {
+        if (now - this.lastHitTime > ObjectiveCombo.RESET_TIME) {
+            this.count = 0;
+        }
+        this.count++;
+        this.lastHitTime = now;
+        this.lastHitter = isPlayer;
+        return Math.min(this.count, ObjectiveCombo.MAX_GEMS);
+    }
+
+    /**
+     * A bubble settled into the grid instead of hitting the objective
+     */
+    public onBubbleAttached(isPlayer: boolean): void {
+        if (this.lastHitter === isPlayer) {
+            this.reset();
+        }
+    }
+
+    public getCount(): number {
+        return this.count;
+    }
+
+    public reset(): void {
+        this.count = 0;
+        this.lastHitTime = 0;
+        this.lastHitter = undefined;
+    }
+}
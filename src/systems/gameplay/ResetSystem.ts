@@ -1,7 +1,11 @@
 import { Scene } from 'phaser';
 import { Bubble } from '@/gameObjects/Bubble';
 import { GridAttachmentSystem } from './GridAttachmentSystem';
-import { BUBBLE_CONFIG, Z_LAYERS } from '@/config/ArenaConfig';
+import { BUBBLE_CONFIG, DANGER_ZONE_CONFIG, Z_LAYERS } from '@/config/ArenaConfig';
+import { GameEventBus } from '@/core/EventBus';
+import { calculateResetGemLoss, VICTORY_RULES } from '@/core/rules/VictoryRules';
+import { isInDangerZone } from '@/core/rules/PowerUpRules';
+import { shakeCamera } from '@/utils/motion';
 
 export interface ResetState {
     isResetting: boolean;
@@ -10,6 +14,8 @@ export interface ResetState {
     immunityEndTime: number;
     penaltyEndTime: number;
     resetCount: number; // Track how many resets have happened
+    playerShield: boolean; // SHIELD charge waiting to absorb a hit
+    opponentShield: boolean;
 }
 
 export class ResetSystem {
@@ -21,15 +27,14 @@ export class ResetSystem {
         penaltyActive: false,
         immunityEndTime: 0,
         penaltyEndTime: 0,
-        resetCount: 0
+        resetCount: 0,
+        playerShield: false,
+        opponentShield: false
     };
     
     // Constants from GDD
-    private readonly DEATH_ROW_THRESHOLD = 10; // When bubbles reach this row from top
-    private readonly ROWS_TO_CLEAR = 4;
-    private readonly GEM_LOSS_PERCENTAGE = 0.5;
-    private readonly MIN_GEM_LOSS = 2;
-    private readonly MAX_GEM_LOSS = 7;
+    private readonly DEATH_ROW_THRESHOLD = VICTORY_RULES.DEATH_ROW_THRESHOLD; // When bubbles reach this row from top
+    private readonly ROWS_TO_CLEAR = VICTORY_RULES.ROWS_TO_CLEAR;
     private readonly FREEZE_DURATION = 500; // 0.5 seconds
     private readonly IMMUNITY_DURATION = 3000; // 3 seconds
     private readonly PENALTY_DURATION = 5000; // 5 seconds
@@ -38,9 +43,13 @@ export class ResetSystem {
     private warningLevel: number = 0; // 0 = safe, 1 = yellow, 2 = orange, 3 = red
     private warningGraphics?: Phaser.GameObjects.Graphics;
     private warningTween?: Phaser.Tweens.Tween;
+    private shieldGraphics?: Phaser.GameObjects.Graphics;
     
     // Grace period to prevent unfair losses
     private shootingGracePeriod: boolean = false;
+
+    // Off in solo modes - a full field ends the run instead of resetting
+    private resetsEnabled: boolean = true;
     
     constructor(scene: Scene, gridAttachmentSystem: GridAttachmentSystem) {
         this.scene = scene;
@@ -52,6 +61,9 @@ export class ResetSystem {
     private createWarningGraphics(): void {
         this.warningGraphics = this.scene.add.graphics();
         this.warningGraphics.setDepth(Z_LAYERS.UI - 1);
+
+        this.shieldGraphics = this.scene.add.graphics();
+        this.shieldGraphics.setDepth(Z_LAYERS.UI - 1);
     }
     
     private setupEventListeners(): void {
@@ -81,6 +93,11 @@ export class ResetSystem {
             // Always check on bubble attach (shooting should be complete)
             this.checkResetCondition();
         });
+
+        // SHIELD power-up
+        this.scene.events.on('shield-raised', (data: { isPlayer: boolean }) => {
+            this.raiseShield(data.isPlayer);
+        });
         
         // Cleanup
         this.scene.events.once('shutdown', this.destroy, this);
@@ -101,6 +118,25 @@ export class ResetSystem {
         
         // Check both player and opponent fields
         const { playerRow, opponentRow } = this.getBothSidesRows();
+
+        // A shield takes the hit instead, whatever the full field would have cost
+        if (Math.abs(opponentRow) >= this.DEATH_ROW_THRESHOLD && this.hasShield(false)) {
+            void this.absorbWithShield(false);
+            return true;
+        }
+        if (playerRow >= this.DEATH_ROW_THRESHOLD && this.hasShield(true)) {
+            void this.absorbWithShield(true);
+            return true;
+        }
+
+        if (!this.resetsEnabled) {
+            if (playerRow >= this.DEATH_ROW_THRESHOLD) {
+                this.scene.events.emit('field-full', { isPlayer: true });
+                return true;
+            }
+            this.updateWarningLevel(playerRow);
+            return false;
+        }
         
         // Silent check
         
@@ -288,9 +324,9 @@ export class ResetSystem {
         
         // Add screen shake for critical level
         if (this.warningLevel === 3) {
-            this.scene.cameras.main.shake(200, 0.01);
+            shakeCamera(this.scene, 200, 0.01);
         } else if (this.warningLevel === 2) {
-            this.scene.cameras.main.shake(100, 0.005);
+            shakeCamera(this.scene, 100, 0.005);
         }
     }
     
@@ -337,6 +373,11 @@ export class ResetSystem {
         
         // Emit reset completed event
         this.scene.events.emit('reset-completed', { isPlayer });
+        GameEventBus.getInstance().emitTyped('reset-completed', {
+            isPlayer,
+            gemsLost,
+            rowsCleared: this.ROWS_TO_CLEAR
+        });
     }
     
     /**
@@ -382,14 +423,8 @@ export class ResetSystem {
             (this.scene.registry.get('playerGems') || 0) : 
             (this.scene.registry.get('opponentGems') || 0);
         
-        // Calculate how many gems to lose (50%)
-        const gemsToLose = Math.floor(currentGems * this.GEM_LOSS_PERCENTAGE);
-        
-        // Apply min/max limits
-        const finalLoss = Math.min(
-            Math.max(gemsToLose, currentGems > 0 ? this.MIN_GEM_LOSS : 0),
-            this.MAX_GEM_LOSS
-        );
+        // Lose 50% of the stack, within the GDD min/max limits
+        const finalLoss = calculateResetGemLoss(currentGems);
         
         // Emit event for ArenaCoordinator to handle gem removal
         this.scene.events.emit('reset-remove-gems', {
@@ -500,8 +535,13 @@ export class ResetSystem {
             }
         });
         
-        
-        // Animate removal
+        await this.animateRemoval(bubblesToRemove);
+    }
+
+    /**
+     * Pop bubbles out of the grid with particles
+     */
+    private async animateRemoval(bubblesToRemove: Bubble[]): Promise<void> {
         const promises = bubblesToRemove.map(bubble => {
             return new Promise<void>(resolve => {
                 // Create particle effect
@@ -542,7 +582,113 @@ export class ResetSystem {
         });
         
         await Promise.all(promises);
+    }
+
+    /**
+     * Charge a side's SHIELD - it absorbs that side's next reset or danger-zone row push
+     */
+    public raiseShield(isPlayer: boolean): void {
+        if (isPlayer) {
+            this.resetState.playerShield = true;
+        } else {
+            this.resetState.opponentShield = true;
+        }
+        this.drawShields();
+    }
+
+    /**
+     * Put a side's SHIELD charge back as a snapshot had it
+     */
+    public setShield(isPlayer: boolean, active: boolean): void {
+        if (isPlayer) {
+            this.resetState.playerShield = active;
+        } else {
+            this.resetState.opponentShield = active;
+        }
+        this.drawShields();
+    }
+
+    public hasShield(isPlayer: boolean): boolean {
+        return isPlayer ? this.resetState.playerShield : this.resetState.opponentShield;
+    }
+
+    /**
+     * Spend a side's shield on a row about to be pushed into its danger zone.
+     * Returns true when the row is blocked and should not spawn.
+     */
+    public blockRowWithShield(isPlayer: boolean, row: number): boolean {
+        if (!this.hasShield(isPlayer) || !isInDangerZone(row)) {
+            return false;
+        }
+        this.consumeShield(isPlayer, 'row');
+        return true;
+    }
+
+    /**
+     * Spend a side's shield on an opponent's attack power-up landing on it.
+     * Returns true when the attack is blocked.
+     */
+    public blockAttackWithShield(isPlayer: boolean): boolean {
+        if (!this.hasShield(isPlayer)) {
+            return false;
+        }
+        this.consumeShield(isPlayer, 'attack');
+        return true;
+    }
+
+    /**
+     * Spend a side's shield on a full field: its danger zone is cleared
+     * with no gem loss, immunity or penalty
+     */
+    private async absorbWithShield(isPlayer: boolean): Promise<void> {
+        this.resetState.isResetting = true;
+        this.consumeShield(isPlayer, 'reset');
+
+        const bubblesToRemove = this.gridAttachmentSystem.getGridBubbles().filter(bubble => {
+            const gridPos = bubble.getGridPosition();
+            if (!bubble.visible || !gridPos || !isInDangerZone(gridPos.r)) {
+                return false;
+            }
+            return isPlayer ? gridPos.r > 0 : gridPos.r < 0;
+        });
+        await this.animateRemoval(bubblesToRemove);
+
+        this.resetState.isResetting = false;
+    }
+
+    private consumeShield(isPlayer: boolean, cause: 'reset' | 'row' | 'attack'): void {
+        if (isPlayer) {
+            this.resetState.playerShield = false;
+        } else {
+            this.resetState.opponentShield = false;
+        }
+        this.drawShields();
+
+        shakeCamera(this.scene, 150, 0.005);
+        this.scene.events.emit('shield-consumed', { isPlayer, cause });
+    }
+
+    /**
+     * Barrier along each shielded side's danger line
+     */
+    private drawShields(): void {
+        const graphics = this.shieldGraphics;
+        if (!graphics) {
+            return;
+        }
         
+        graphics.clear();
+        const { width, height } = this.scene.cameras.main;
+        const lines = [
+            { active: this.resetState.playerShield, y: height - DANGER_ZONE_CONFIG.PLAYER_OFFSET },
+            { active: this.resetState.opponentShield, y: DANGER_ZONE_CONFIG.OPPONENT_OFFSET }
+        ];
+        lines.filter(line => line.active).forEach(line => {
+            graphics.fillStyle(0x4FC3F7, 0.15);
+            graphics.fillRect(0, line.y - 12, width, 24);
+            graphics.lineStyle(4, 0x4FC3F7, 0.9);
+            graphics.lineBetween(0, line.y, width, line.y);
+        });
     }
     
     /**
@@ -628,6 +774,14 @@ export class ResetSystem {
         });
     }
     
+    /**
+     * Turn field resets off for solo modes - a full player field then emits
+     * 'field-full' and the mode decides what happens
+     */
+    public setResetsEnabled(enabled: boolean): void {
+        this.resetsEnabled = enabled;
+    }
+
     /**
      * Check if immunity is active (no new rows)
      */
@@ -655,6 +809,7 @@ export class ResetSystem {
     public destroy(): void {
         this.scene.events.off('row-spawned');
         this.scene.events.off('bubble-attached');
+        this.scene.events.off('shield-raised');
         this.scene.events.off('shutdown', this.destroy, this);
         
         if (this.warningTween) {
@@ -664,5 +819,6 @@ export class ResetSystem {
         if (this.warningGraphics) {
             this.warningGraphics.destroy();
         }
+        this.shieldGraphics?.destroy();
     }
 }
\ No newline at end of file
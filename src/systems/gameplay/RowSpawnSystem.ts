@@ -9,6 +9,10 @@ import { Bubble } from '@/gameObjects/Bubble';
 import { MysteryBubble } from '@/gameObjects/MysteryBubble';
 import { BUBBLE_CONFIG, ARENA_CONFIG, GRID_CONFIG } from '@/config/ArenaConfig';
 import { BubbleColor, IHexPosition } from '@/types/ArenaTypes';
+import { RandomService, RandomStream } from '@/core/RandomService';
+import { ResetSystem } from './ResetSystem';
+import { BubbleGrid } from './BubbleGrid';
+import { GridAttachmentSystem } from './GridAttachmentSystem';
 
 export interface RowSpawnConfig {
     interval: number;      // Milliseconds between spawns
@@ -29,6 +33,10 @@ export class RowSpawnSystem {
     private spawnCounter: number = 0; // Track spawns for Mystery Bubble timing
     private spawnAcceleration: number = 0; // Track how many times we've spawned
     private isPlayerShooting: boolean = false; // Track if player is currently shooting
+    private mirrored: boolean = false; // Online guest: the board is shown from the host's opposite side
+    private intervalSchedule: ((rowsSpawned: number) => number) | null = null;
+    private spawnSides: { top: boolean; bottom: boolean } = { top: true, bottom: true };
+    private resetSystem?: ResetSystem; // Holds the SHIELD charges
     
     // Arena-specific configurations
     private readonly ARENA_CONFIGS: Record<string, RowSpawnConfig> = {
@@ -58,6 +66,13 @@ export class RowSpawnSystem {
     private readonly MIN_INTERVAL = 8000; // Minimum spawn interval (8 seconds) - much more manageable
     private readonly ACCELERATION_RATE = 0.98; // Each spawn makes next one 2% faster - even slower acceleration
 
+    /**
+     * Seeded gameplay randomness - looked up on demand so a reseed is always honoured
+     */
+    private get rng(): RandomStream {
+        return RandomService.getInstance().stream('rowSpawn');
+    }
+
     constructor(scene: Scene, arenaSystem: any) {
         this.scene = scene;
         this.arenaSystem = arenaSystem;
@@ -124,6 +139,14 @@ export class RowSpawnSystem {
         
     }
 
+    /**
+     * Online guest - plan every spawn on the host's view of the board, so both
+     * peers draw the same rows from the shared seed and the guest sees them mirrored
+     */
+    public setMirrored(mirrored: boolean): void {
+        this.mirrored = mirrored;
+    }
+
     /**
      * Stop automatic row spawning
      */
@@ -162,6 +185,19 @@ export class RowSpawnSystem {
             return;
         }
         
+        if (this.mirrored) {
+            this.arenaSystem.mirrorGrid();
+            this.spawnRows();
+            this.arenaSystem.mirrorGrid();
+        } else {
+            this.spawnRows();
+        }
+    }
+
+    /**
+     * Add the rows (or the emergency refill) to the board as it currently stands
+     */
+    private spawnRows(): void {
         // Check if field has too few bubbles and needs emergency refill
         const currentBubbles = this.arenaSystem.getAllBubbles();
         const activeBubbleCount = currentBubbles.filter(b => b.visible).length;
@@ -178,7 +214,10 @@ export class RowSpawnSystem {
         this.spawnAcceleration++;
         
         // Progressive difficulty: Speed up spawning over time
-        if (this.spawnTimer && this.spawnInterval > this.MIN_INTERVAL) {
+        if (this.spawnTimer && this.intervalSchedule) {
+            // The mode sets the pace - no PvP floor
+            this.setSpawnInterval(this.intervalSchedule(this.spawnAcceleration));
+        } else if (this.spawnTimer && this.spawnInterval > this.MIN_INTERVAL) {
             // Calculate new interval (gets faster each time)
             const newInterval = Math.max(
                 this.MIN_INTERVAL,
@@ -204,7 +243,7 @@ export class RowSpawnSystem {
         
         const bubbleGrid = this.arenaSystem.bubbleGrid;
         const gridAttachment = this.arenaSystem.gridAttachmentSystem;
-        const allBubbles = this.arenaSystem.getAllBubbles();
+        const allBubbles = this.inBoardOrder(this.arenaSystem.getAllBubbles());
         
         // Create a map of occupied positions for quick lookup
         const occupiedPositions = new Map<string, boolean>();
@@ -241,10 +280,14 @@ export class RowSpawnSystem {
             }
         });
         
+        // A SHIELD turns back a push into its owner's danger zone - that side skips this wave
+        const spawnTop = this.spawnSides.top && !this.resetSystem?.blockRowWithShield(false, minR - 1);
+        const spawnBottom = this.spawnSides.bottom && !this.resetSystem?.blockRowWithShield(true, maxR + 1);
+
         // PRIORITY 1: Always spawn at the most dangerous positions first
         const criticalSpawns: { hexPos: IHexPosition, color: BubbleColor }[] = [];
         
-        if (mostDangerousTop) {
+        if (mostDangerousTop && spawnTop) {
             const dangerPos = mostDangerousTop.getGridPosition()!;
             const criticalPos = {
                 q: dangerPos.q,
@@ -261,7 +304,7 @@ export class RowSpawnSystem {
             }
         }
         
-        if (mostDangerousBottom) {
+        if (mostDangerousBottom && spawnBottom) {
             const dangerPos = mostDangerousBottom.getGridPosition()!;
             const criticalPos = {
                 q: dangerPos.q,
@@ -283,7 +326,7 @@ export class RowSpawnSystem {
             const pixelPos = bubbleGrid.hexToPixel(spawn.hexPos);
             
             // Mystery Bubble check for critical spawns
-            const shouldSpawnMystery = this.spawnCounter % 2 === 0 && Math.random() < 0.3;
+            const shouldSpawnMystery = this.spawnCounter % 2 === 0 && this.rng.chance(0.3);
             
             if (shouldSpawnMystery) {
                 // Always use regular MysteryBubble with texture cache
@@ -312,16 +355,20 @@ export class RowSpawnSystem {
         
         // IMPORTANT: For fair competitive play, spawn must be symmetric
         // Add new bubbles adjacent to BOTH edges equally
-        this.addBubblesAdjacentToEdge(topEdgeBubbles, 'top', occupiedPositions, bubbleGrid, gridAttachment);
-        this.addBubblesAdjacentToEdge(bottomEdgeBubbles, 'bottom', occupiedPositions, bubbleGrid, gridAttachment);
+        if (spawnTop) {
+            this.addBubblesAdjacentToEdge(topEdgeBubbles, 'top', occupiedPositions, bubbleGrid, gridAttachment);
+        }
+        if (spawnBottom) {
+            this.addBubblesAdjacentToEdge(bottomEdgeBubbles, 'bottom', occupiedPositions, bubbleGrid, gridAttachment);
+        }
         
         // For Space arena, add extra pressure to BOTH sides equally
         const theme = this.scene.registry.get('gameTheme');
-        if (theme === 'space' && Math.random() < 0.3) {
+        if (theme === 'space' && this.rng.chance(0.3)) {
             console.log('Space arena: Adding extra pressure wave to BOTH sides!');
             
             // Re-find edges after first spawn
-            const updatedBubbles = this.arenaSystem.getAllBubbles();
+            const updatedBubbles = this.inBoardOrder(this.arenaSystem.getAllBubbles());
             const newTopEdge = this.findTopEdgeBubbles(updatedBubbles);
             const newBottomEdge = this.findBottomEdgeBubbles(updatedBubbles);
             
@@ -335,8 +382,12 @@ export class RowSpawnSystem {
             });
             
             // Add second wave to BOTH sides for fairness
-            this.addBubblesAdjacentToEdge(newTopEdge, 'top', occupiedPositions, bubbleGrid, gridAttachment);
-            this.addBubblesAdjacentToEdge(newBottomEdge, 'bottom', occupiedPositions, bubbleGrid, gridAttachment);
+            if (spawnTop) {
+                this.addBubblesAdjacentToEdge(newTopEdge, 'top', occupiedPositions, bubbleGrid, gridAttachment);
+            }
+            if (spawnBottom) {
+                this.addBubblesAdjacentToEdge(newBottomEdge, 'bottom', occupiedPositions, bubbleGrid, gridAttachment);
+            }
         }
         
         // Emit event
@@ -347,6 +398,19 @@ export class RowSpawnSystem {
         });
     }
 
+    /**
+     * Sort bubbles by cell (row, then column) - creation order differs between online
+     * peers, so every scan that can break a tie or draws per bubble walks this order
+     */
+    private inBoardOrder(bubbles: Bubble[]): Bubble[] {
+        const cellOf = (bubble: Bubble): { q: number, r: number } => bubble.getGridPosition() ?? { q: Infinity, r: Infinity };
+        return [...bubbles].sort((a, b) => {
+            const posA = cellOf(a);
+            const posB = cellOf(b);
+            return posA.r - posB.r || posA.q - posB.q;
+        });
+    }
+
     /**
      * Find the topmost bubbles (opponent side edge)
      * These are the bubbles with the SMALLEST (most negative) r value in each column
@@ -623,7 +687,7 @@ export class RowSpawnSystem {
             // Decide if this should be a Mystery Bubble
             const makeMystery = shouldSpawnMystery && 
                                !mysteryAddedThisSide && 
-                               Math.random() < mysteryBubbleChance;
+                               this.rng.chance(mysteryBubbleChance);
             
             let bubble: Bubble | null = null;
             
@@ -682,13 +746,16 @@ export class RowSpawnSystem {
                 
                 createdBubbles.push(bubble);
                 
-                // Check for danger zones
+                // Check for danger zones (a mirrored guest plans with its own side on top)
+                const topSide = this.mirrored ? 'player' : 'opponent';
+                const bottomSide = this.mirrored ? 'opponent' : 'player';
+                const row = this.mirrored ? -bubbleData.hexPos.r : bubbleData.hexPos.r;
                 if (side === 'top' && bubbleData.hexPos.r <= -7) {
-                    console.log('WARNING: Opponent approaching danger zone!');
-                    this.scene.events.emit('danger-zone-warning', { side: 'opponent', row: bubbleData.hexPos.r });
+                    console.log(`WARNING: ${topSide} approaching danger zone!`);
+                    this.scene.events.emit('danger-zone-warning', { side: topSide, row });
                 } else if (side === 'bottom' && bubbleData.hexPos.r >= 7) {
-                    console.log('WARNING: Player approaching danger zone!');
-                    this.scene.events.emit('danger-zone-warning', { side: 'player', row: bubbleData.hexPos.r });
+                    console.log(`WARNING: ${bottomSide} approaching danger zone!`);
+                    this.scene.events.emit('danger-zone-warning', { side: bottomSide, row });
                 }
                 
                 // Fade in animation
@@ -974,7 +1041,7 @@ export class RowSpawnSystem {
      */
     private getRandomColor(): BubbleColor {
         return this.availableColors[
-            Math.floor(Math.random() * this.availableColors.length)
+            Math.floor(this.rng.next() * this.availableColors.length)
         ];
     }
 
@@ -1033,6 +1100,77 @@ export class RowSpawnSystem {
         }
     }
     
+    /**
+     * Take over the pace: after each push the next interval comes from the schedule,
+     * which may go below the PvP minimum. Null restores the normal acceleration.
+     */
+    public setIntervalSchedule(schedule: ((rowsSpawned: number) => number) | null): void {
+        this.intervalSchedule = schedule;
+    }
+
+    /**
+     * Which fields get new rows - solo modes only push the player's (bottom) side
+     */
+    public setSpawnSides(sides: { top: boolean; bottom: boolean }): void {
+        this.spawnSides = { ...sides };
+    }
+
+    /**
+     * Let SHIELD charges turn back pushes into a side's danger zone
+     */
+    public setResetSystem(resetSystem: ResetSystem): void {
+        this.resetSystem = resetSystem;
+    }
+
+    /**
+     * JUNK ROWS attack - push rows onto one side's edge right away, outside the
+     * spawn schedule. Returns the number of bubbles added - none past a shield.
+     */
+    public pushJunkRows(isPlayer: boolean, rows: number): number {
+        const arena = this.arenaSystem as {
+            getAllBubbles(): Bubble[];
+            bubbleGrid: BubbleGrid;
+            gridAttachmentSystem: GridAttachmentSystem;
+        };
+        const side = isPlayer ? 'bottom' : 'top';
+        const before = arena.getAllBubbles().filter(bubble => bubble.visible).length;
+
+        for (let i = 0; i < rows; i++) {
+            const allBubbles = arena.getAllBubbles();
+            const occupiedPositions = new Map<string, boolean>();
+            let edgeRow = isPlayer ? -Infinity : Infinity;
+            allBubbles.forEach(bubble => {
+                const pos = bubble.getGridPosition();
+                if (pos && bubble.visible) {
+                    occupiedPositions.set(`${pos.q},${pos.r}`, true);
+                    edgeRow = isPlayer ? Math.max(edgeRow, pos.r) : Math.min(edgeRow, pos.r);
+                }
+            });
+            // Like a spawn wave, a SHIELD turns back a push into its owner's danger zone
+            const pushedRow = isPlayer ? edgeRow + 1 : edgeRow - 1;
+            if (Number.isFinite(pushedRow) && this.resetSystem?.blockRowWithShield(isPlayer, pushedRow)) {
+                break;
+            }
+            const edgeBubbles = isPlayer ? this.findBottomEdgeBubbles(allBubbles) : this.findTopEdgeBubbles(allBubbles);
+            this.addBubblesAdjacentToEdge(
+                edgeBubbles,
+                side,
+                occupiedPositions,
+                arena.bubbleGrid,
+                arena.gridAttachmentSystem
+            );
+        }
+
+        return arena.getAllBubbles().filter(bubble => bubble.visible).length - before;
+    }
+
+    /**
+     * Row pushes so far (emergency refills not included)
+     */
+    public getRowsSpawned(): number {
+        return this.spawnAcceleration;
+    }
+
     /**
      * Perform emergency refill when field has too few bubbles
      */
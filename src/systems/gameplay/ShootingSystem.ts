@@ -1,6 +1,7 @@
 import Phaser from 'phaser';
 import { Bubble } from '@/gameObjects/Bubble';
 import { Launcher } from '@/gameObjects/Launcher';
+import { Gem } from '@/gameObjects/Gem';
 import { BubbleColor } from '@/types/ArenaTypes';
 import { InputManager } from '@/systems/input/InputManager';
 import { TrajectoryPreview } from './TrajectoryPreview';
@@ -11,11 +12,15 @@ import { ARENA_CONFIG, Z_LAYERS, BUBBLE_CONFIG } from '@/config/ArenaConfig';
 import { HD_SCALE } from '@/config/GameConfig';
 import { getCollisionOptimizer } from '@/optimization';
 import { GameEventBus } from '@/core/EventBus';
+import { RandomService } from '@/core/RandomService';
+import { POWER_UP_RULES, stepToward } from '@/core/rules/PowerUpRules';
 
 export interface IProjectile {
     bubble: Bubble;
     velocity: Phaser.Math.Vector2;
     isActive: boolean;
+    magnet?: number; // MAGNET power-up shot - its reach in px
+    magnetPulled?: Set<Bubble>; // Grid bubbles the magnet has already moved
 }
 
 export class ShootingSystem {
@@ -36,9 +41,12 @@ export class ShootingSystem {
         BubbleColor.YELLOW,
         BubbleColor.PURPLE
     ];
+    private scriptedColors: BubbleColor[] = [];
     private canShoot: boolean = true;
     private cooldownTime: number = 1000; // 1 second in milliseconds
     private shootSpeed: number = 600 * HD_SCALE; // Scaled speed
+    private magnetArmed: { player?: number; opponent?: number } = {}; // Reach of each side's armed MAGNET
+    private cooldownMultiplier: number = 1; // JAM attack stretches the cooldown
     
     // Arena boundaries for bouncing
     private bounds: Phaser.Geom.Rectangle;
@@ -49,6 +57,11 @@ export class ShootingSystem {
     
     // Trajectory preview
     private trajectoryPreview: TrajectoryPreview;
+    private previewAlwaysOn: boolean = false;
+    private previewEnabled: boolean = true; // Player setting - the practice preview ignores it
+
+    // Tutorial aim restriction - launcher degrees, 90 = straight up
+    private aimRange: { minAngle: number; maxAngle: number } | null = null;
     
     // Grid attachment
     private gridAttachmentSystem?: GridAttachmentSystem;
@@ -95,6 +108,9 @@ export class ShootingSystem {
         
         // Listen for AI shoot events
         this.scene.events.on('ai-shoot', this.onAIShoot, this);
+
+        // MAGNET power-up
+        this.scene.events.on('magnet-armed', this.onMagnetArmed);
         
         // Create cooldown indicator
         this.createCooldownIndicator();
@@ -110,11 +126,16 @@ export class ShootingSystem {
         this.opponentLauncher = launcher;
     }
     
-    private onPointerDown(): void {
+    private onPointerDown(pointer?: Phaser.Input.Pointer): void {
         // Check if game has ended
         if (!this.enabled) {
             return;
         }
+
+        // The other half of a shared screen aims the top launcher
+        if (pointer && !this.inputManager.isPlayerPointer(pointer)) {
+            return;
+        }
         
         console.log('ShootingSystem: onPointerDown - canShoot:', this.canShoot, 'currentBubble:', !!this.currentBubble);
         
@@ -129,7 +150,9 @@ export class ShootingSystem {
             bubbleColor = this.nextBubbleColors[0];
         }
         
-        this.trajectoryPreview.show(angle, bubbleColor);
+        if (this.previewEnabled) {
+            this.trajectoryPreview.show(angle, bubbleColor);
+        }
     }
     
     private createCooldownIndicator(): void {
@@ -166,7 +189,7 @@ export class ShootingSystem {
         this.scene.tweens.add({
             targets: { progress: 0 },
             progress: 1,
-            duration: this.cooldownTime,
+            duration: this.cooldownTime * this.cooldownMultiplier,
             ease: 'Linear',
             onUpdate: (tween) => {
                 const progress = tween.getValue();
@@ -192,13 +215,35 @@ export class ShootingSystem {
         // Generate 3 colors: current + next 2
         this.nextBubbleColors = [];
         for (let i = 0; i < 3; i++) {
-            const randomColor = this.availableColors[Math.floor(Math.random() * this.availableColors.length)];
-            this.nextBubbleColors.push(randomColor);
+            this.nextBubbleColors.push(this.drawQueueColor());
         }
         
         // console.log('ShootingSystem: Generated next bubble colors:', this.nextBubbleColors);
     }
     
+    /**
+     * Next queue color - scripted colors (level starting queue) come first
+     */
+    private drawQueueColor(): BubbleColor {
+        const scripted = this.scriptedColors.shift();
+        if (scripted !== undefined) {
+            return scripted;
+        }
+        return RandomService.getInstance().stream('playerQueue').pick(this.availableColors);
+    }
+
+    /**
+     * Restrict the queue to a level's colors and script its first shots, then reload
+     */
+    public setBubbleColors(colors: BubbleColor[], startingQueue: BubbleColor[] = []): void {
+        if (colors.length > 0) {
+            this.availableColors = [...colors];
+        }
+        this.scriptedColors = [...startingQueue];
+        this.generateNextBubbleColors();
+        this.loadNextBubble();
+    }
+
     /**
      * Loads next bubble using integrated queue system
      */
@@ -216,8 +261,7 @@ export class ShootingSystem {
         
         // Shift queue and add new color
         this.nextBubbleColors.shift(); // Remove current color
-        const newColor = this.availableColors[Math.floor(Math.random() * this.availableColors.length)];
-        this.nextBubbleColors.push(newColor); // Add new color at end
+        this.nextBubbleColors.push(this.drawQueueColor()); // Add new color at end
         
         // Update launcher queue rings with new colors
         this.playerLauncher.updateQueueColors(this.nextBubbleColors);
@@ -225,11 +269,20 @@ export class ShootingSystem {
         // console.log('ShootingSystem: Updated queue colors:', this.nextBubbleColors);
     }
     
-    private onShoot(): void {
+    private onShoot(pointer?: Phaser.Input.Pointer, currentlyOver: Phaser.GameObjects.GameObject[] = []): void {
         // Check if game has ended
         if (!this.enabled) {
             return;
         }
+
+        if (pointer && !this.inputManager.isPlayerPointer(pointer)) {
+            return;
+        }
+
+        // Taps on HUD controls (practice panel) are not shots
+        if (currentlyOver.some(object => object.getData('uiControl') === true)) {
+            return;
+        }
         
         // Hide trajectory preview
         this.trajectoryPreview.hide();
@@ -270,7 +323,8 @@ export class ShootingSystem {
         this.projectiles.push({
             bubble: this.currentBubble,
             velocity: velocity,
-            isActive: true
+            isActive: true,
+            magnet: this.takeMagnet(true)
         });
         
         // Emit shooting started event
@@ -287,13 +341,16 @@ export class ShootingSystem {
         
         // Play launcher animation with the color of the bubble being shot
         const shotBubbleColor = this.currentBubble.getColor();
+
+        // Record the shot on the game-wide bus (replays, analytics)
+        this.emitShotFired(true, angle, shotBubbleColor, this.playerLauncher);
         this.playerLauncher.animateShoot(shotBubbleColor);
         
         // Start cooldown with visual indicator
         this.canShoot = false;
         this.startCooldownAnimation();
         
-        this.scene.time.delayedCall(this.cooldownTime, () => {
+        this.scene.time.delayedCall(this.cooldownTime * this.cooldownMultiplier, () => {
             this.canShoot = true;
             // Check if launcher still exists before calling methods
             if (this.playerLauncher && this.playerLauncher.scene) {
@@ -354,7 +411,8 @@ export class ShootingSystem {
         const projectile: IProjectile = {
             bubble: aiBubble,
             velocity: velocity,
-            isActive: true
+            isActive: true,
+            magnet: this.takeMagnet(false)
         };
         
         this.projectiles.push(projectile);
@@ -371,6 +429,9 @@ export class ShootingSystem {
             isPlayer: false
         });
         
+        // Record the shot on the game-wide bus (replays, analytics)
+        this.emitShotFired(false, data.angle as number, aiBubble.getColor(), this.opponentLauncher);
+
         // Visual feedback on opponent launcher
         if (this.opponentLauncher && this.opponentLauncher.scene) {
             this.opponentLauncher.setHighlight(true);
@@ -382,10 +443,89 @@ export class ShootingSystem {
         }
     }
     
+    /**
+     * Fire a recorded shot during replay playback.
+     * Bypasses input, cooldown and the bubble queue - the log already knows the color.
+     */
+    public fireReplayShot(isPlayer: boolean, angle: number, color: BubbleColor): void {
+        if (!isPlayer) {
+            this.onAIShoot({ angle, color });
+            return;
+        }
+
+        const bubble = new Bubble(
+            this.scene,
+            this.playerLauncher.x,
+            this.playerLauncher.y - 35, // Match bubble position in launcher
+            color
+        );
+        bubble.setShooter('player');
+        bubble.setDepth(Z_LAYERS.BUBBLES_FRONT);
+
+        const radians = Phaser.Math.DegToRad(angle);
+        this.projectiles.push({
+            bubble: bubble,
+            velocity: new Phaser.Math.Vector2(
+                Math.cos(radians) * this.shootSpeed,
+                Math.sin(radians) * this.shootSpeed
+            ),
+            isActive: true,
+            magnet: this.takeMagnet(true)
+        });
+
+        // Show the recorded aim on the launcher
+        this.playerLauncher.setAimAngle(angle);
+        this.playerLauncher.animateShoot(color);
+
+        this.scene.events.emit('shooting-started');
+        this.scene.events.emit('bubble-shoot');
+        this.scene.events.emit('bubble-shot', {
+            bubble: bubble,
+            isPlayer: true
+        });
+
+        this.emitShotFired(true, angle, color, this.playerLauncher);
+    }
+
+    /**
+     * Fire a shot received from the online opponent on the opponent launcher
+     */
+    public fireRemoteShot(angle: number, color: BubbleColor): void {
+        if (!this.opponentLauncher) {
+            return;
+        }
+
+        this.opponentLauncher.setAimAngle(angle);
+        this.onAIShoot({ angle, color });
+        this.opponentLauncher.animateShoot(color);
+    }
+
+    private emitShotFired(isPlayer: boolean, angle: number, color: BubbleColor, launcher: Launcher): void {
+        GameEventBus.getInstance().emitTyped('shot-fired', {
+            isPlayer,
+            angle,
+            color,
+            position: { x: launcher.x, y: launcher.y }
+        });
+    }
+
     public update(delta: number): void {
         // Update launcher aim based on mouse position
         const pointer = this.scene.input.activePointer;
-        if (pointer) {
+        if (this.aimRange) {
+            this.playerLauncher.setAimAngle(this.inputManager.getAngleFromWithConstraints(
+                this.playerLauncher.x,
+                this.playerLauncher.y,
+                this.aimRange.minAngle,
+                this.aimRange.maxAngle
+            ));
+        } else if (this.inputManager.isSplitTouch()) {
+            // The shared screen's pointers may be the other player's - aim from our own half
+            this.playerLauncher.setAimAngle(this.inputManager.getAngleFromWithConstraints(
+                this.playerLauncher.x,
+                this.playerLauncher.y
+            ));
+        } else if (pointer) {
             // Calculate angle from launcher to pointer
             const dx = pointer.x - this.playerLauncher.x;
             const dy = pointer.y - this.playerLauncher.y;
@@ -398,8 +538,8 @@ export class ShootingSystem {
             this.playerLauncher.setAimAngle(angle);
         }
         
-        // Update trajectory preview if aiming
-        if (this.inputManager.isPointerActive()) {
+        // Update trajectory preview if aiming (or always, in practice)
+        if ((this.inputManager.isPointerActive() && this.previewEnabled) || this.previewAlwaysOn) {
             const angle = this.playerLauncher.getAimAngle();
             
             // Get bubble color - use current if available, otherwise use next
@@ -410,6 +550,9 @@ export class ShootingSystem {
                 bubbleColor = this.nextBubbleColors[0];
             }
             
+            if (!this.trajectoryPreview.isShowing()) {
+                this.trajectoryPreview.show(angle, bubbleColor);
+            }
             this.trajectoryPreview.update(angle, delta, bubbleColor);
         }
         
@@ -429,6 +572,10 @@ export class ShootingSystem {
             // Update bubble position
             projectile.bubble.x += projectile.velocity.x * (delta / 1000);
             projectile.bubble.y += projectile.velocity.y * (delta / 1000);
+
+            if (projectile.magnet) {
+                this.applyMagnet(projectile, delta);
+            }
             
             // Emit position update for chest collision detection
             GameEventBus.getInstance().emit('bubble-position-update', projectile.bubble);
@@ -469,8 +616,19 @@ export class ShootingSystem {
                                 projectile.velocity.x = 0;
                                 projectile.velocity.y = 0;
                                 
+                                // Where the shot landed, before matching pops it
+                                const landing = {
+                                    x: pixelPos.x,
+                                    y: pixelPos.y,
+                                    position: attachPos,
+                                    color: projectile.bubble.getColor(),
+                                    isPlayer: projectile.bubble.getShooter() === 'player'
+                                };
+
                                 // Attach to grid with callback
                                 this.gridAttachmentSystem.attachToGrid(projectile.bubble, attachPos, () => {
+                                    // Catalogue power-ups strike where the shot landed
+                                    this.scene.events.emit('shot-landed', landing);
                                     // Emit shooting complete event after attachment
                                     this.scene.events.emit('shooting-complete');
                                 });
@@ -493,6 +651,79 @@ export class ShootingSystem {
         }
     }
     
+    private onMagnetArmed = (data: { isPlayer: boolean; radius?: number }): void => {
+        this.magnetArmed[data.isPlayer ? 'player' : 'opponent'] = data.radius ?? POWER_UP_RULES.MAGNET_RADIUS;
+    };
+
+    /**
+     * A side's armed MAGNET reach, if its next shot is magnetic
+     */
+    public getArmedMagnet(isPlayer: boolean): number | undefined {
+        return this.magnetArmed[isPlayer ? 'player' : 'opponent'];
+    }
+
+    /**
+     * Arm or disarm a side's MAGNET as a snapshot had it
+     */
+    public setArmedMagnet(isPlayer: boolean, radius?: number): void {
+        this.magnetArmed[isPlayer ? 'player' : 'opponent'] = radius;
+    }
+
+    /**
+     * A side's armed MAGNET reach, used up by the shot it is taken for
+     */
+    private takeMagnet(isPlayer: boolean): number | undefined {
+        const side = isPlayer ? 'player' : 'opponent';
+        const reach = this.magnetArmed[side];
+        this.magnetArmed[side] = undefined;
+        if (reach !== undefined) {
+            // The MAGNET's aim is done with once its shot is away
+            this.scene.events.emit('magnet-spent', { isPlayer });
+        }
+        return reach;
+    }
+
+    /**
+     * Pull bubbles of a magnetic shot's color a cell toward its path as it passes,
+     * and loose gems in to it
+     */
+    private applyMagnet(projectile: IProjectile, delta: number): void {
+        const bubble = projectile.bubble;
+        const radius = projectile.magnet ?? POWER_UP_RULES.MAGNET_RADIUS;
+        const color = bubble.getColor();
+        const isPlayer = bubble.getShooter() === 'player';
+        const pulled = projectile.magnetPulled ?? new Set<Bubble>();
+        projectile.magnetPulled = pulled;
+
+        (this.gridAttachmentSystem?.getGridBubbles() ?? [])
+            .filter(target =>
+                target.visible && target.getColor() === color && !pulled.has(target) &&
+                Phaser.Math.Distance.Between(target.x, target.y, bubble.x, bubble.y) <= radius
+            )
+            .forEach(target => {
+                // One cell per shot - a bubble with nowhere closer to go is tried again next frame
+                if (this.gridAttachmentSystem?.pullBubbleToward(target, bubble, isPlayer)) {
+                    pulled.add(target);
+                }
+            });
+
+        const gems = this.scene.children.list.filter((child): child is Gem =>
+            child instanceof Gem && child.isCollectable() &&
+            Phaser.Math.Distance.Between(child.x, child.y, bubble.x, bubble.y) <= radius
+        );
+        if (gems.length === 0) {
+            return;
+        }
+        gems.forEach(gem => {
+            const step = stepToward(gem, bubble, POWER_UP_RULES.MAGNET_GEM_SPEED, delta);
+            gem.x += step.x;
+            gem.y += step.y;
+        });
+
+        // Collected for whoever shot the bubble
+        this.scene.events.emit('check-gem-collection', { gems });
+    }
+
     private checkProjectileCollisions(): void {
         const radius = BUBBLE_CONFIG.SIZE / 2;
         
@@ -547,10 +778,11 @@ export class ShootingSystem {
                         proj2.velocity.y -= impulse * ny;
                         
                         // Add small random deviation to prevent stuck bubbles
-                        proj1.velocity.x += (Math.random() - 0.5) * 20;
-                        proj1.velocity.y += (Math.random() - 0.5) * 20;
-                        proj2.velocity.x += (Math.random() - 0.5) * 20;
-                        proj2.velocity.y += (Math.random() - 0.5) * 20;
+                        const physicsRng = RandomService.getInstance().stream('physics');
+                        proj1.velocity.x += (physicsRng.next() - 0.5) * 20;
+                        proj1.velocity.y += (physicsRng.next() - 0.5) * 20;
+                        proj2.velocity.x += (physicsRng.next() - 0.5) * 20;
+                        proj2.velocity.y += (physicsRng.next() - 0.5) * 20;
                         
                         // Emit projectile collision event for sound/haptics
                         this.scene.events.emit('projectile-collision');
@@ -596,9 +828,95 @@ export class ShootingSystem {
         return this.projectiles.length;
     }
     
+    /**
+     * Loaded bubble color, for snapshots
+     */
+    public getLoadedColor(): BubbleColor | null {
+        return this.currentBubble ? this.currentBubble.getColor() : null;
+    }
+
+    public getQueueColors(): BubbleColor[] {
+        return [...this.nextBubbleColors];
+    }
+
+    /**
+     * JAM attack - cooldowns started from now take this many times longer (1 to clear it)
+     */
+    public setCooldownMultiplier(multiplier: number): void {
+        this.cooldownMultiplier = multiplier;
+    }
+
+    /**
+     * INK attack - blot out most of the trajectory preview
+     */
+    public setInked(inked: boolean): void {
+        this.trajectoryPreview.setInked(inked);
+    }
+
+    /**
+     * Practice aid: keep the long trajectory preview (with bounce count) on at all times
+     */
+    public setExtendedPreview(enabled: boolean, collisionCheck?: (x: number, y: number) => boolean): void {
+        this.previewAlwaysOn = enabled;
+        this.trajectoryPreview.setExtended(enabled, collisionCheck);
+        if (!enabled) {
+            this.trajectoryPreview.hide();
+        }
+    }
+
+    /**
+     * Keep the player's aim within a range of launcher angles (15-165, 90 = straight up), or null to free it
+     */
+    public setAimRange(range: { minAngle: number; maxAngle: number } | null): void {
+        this.aimRange = range;
+    }
+
+    /**
+     * Show or hide the aiming preview while the pointer is down (settings)
+     */
+    public setPreviewEnabled(enabled: boolean): void {
+        this.previewEnabled = enabled;
+        if (!enabled && !this.previewAlwaysOn) {
+            this.trajectoryPreview.hide();
+        }
+    }
+
+    /**
+     * Practice aid: recolor the bubble about to be shot (the next one while on cooldown)
+     */
+    public setLoadedColor(color: BubbleColor): void {
+        if (this.currentBubble) {
+            this.playerLauncher.loadBubble(color);
+            this.currentBubble = this.playerLauncher.getLoadedBubble() || null;
+        } else if (this.nextBubbleColors.length > 0) {
+            this.nextBubbleColors[0] = color;
+            this.playerLauncher.updateQueueColors(this.nextBubbleColors);
+        }
+    }
+
+    /**
+     * No shot in flight and no cooldown pending - the board is safe to rewind
+     */
+    public isIdle(): boolean {
+        return this.canShoot && this.projectiles.length === 0;
+    }
+
+    /**
+     * Restore the loaded bubble and queue from a snapshot
+     */
+    public restoreQueue(loaded: BubbleColor | null, next: BubbleColor[]): void {
+        this.nextBubbleColors = [...next];
+        if (loaded !== null) {
+            this.playerLauncher.loadBubble(loaded);
+            this.currentBubble = this.playerLauncher.getLoadedBubble() || null;
+        }
+        this.playerLauncher.updateQueueColors(this.nextBubbleColors);
+    }
+
     public destroy(): void {
         this.scene.input.off('pointerdown', this.onPointerDown, this);
         this.scene.input.off('pointerup', this.onShoot, this);
+        this.scene.events.off('magnet-armed', this.onMagnetArmed);
         
         // Clean up trajectory preview
         this.trajectoryPreview?.destroy();
@@ -3,6 +3,7 @@ import { Launcher } from '@/gameObjects/Launcher';
 import { Z_LAYERS } from '@/config/ArenaConfig';
 import { HD_SCALE } from '@/config/GameConfig';
 import { BubbleColor } from '@/types/ArenaTypes';
+import { POWER_UP_RULES } from '@/core/rules/PowerUpRules';
 
 interface ITrajectoryDot {
     dot: Phaser.GameObjects.Arc;
@@ -23,6 +24,14 @@ export class TrajectoryPreview {
     private readonly PREVIEW_PERCENTAGE = 0.45; // Show more of the trajectory
     private readonly MAX_PREVIEW_DISTANCE = 550 * HD_SCALE; // Much longer preview
     private readonly SHOOT_SPEED = 600 * HD_SCALE;
+
+    // Extended preview (practice) - the full path up to the first bubble it hits
+    private readonly EXTENDED_DOT_COUNT = 60;
+    private readonly EXTENDED_MAX_DISTANCE = 1500 * HD_SCALE;
+    private extended: boolean = false;
+    private collisionCheck?: (x: number, y: number) => boolean;
+    private bounceText?: Phaser.GameObjects.Text;
+    private visibleFraction: number = 1; // Share of the path shown - INK hides the rest
     
     // Animation
     private animationTime: number = 0;
@@ -59,6 +68,52 @@ export class TrajectoryPreview {
         }
     }
     
+    /**
+     * Switch to the long practice preview. collisionCheck ends the path where a
+     * shot would stick; the number of wall bounces is shown at the end of it.
+     */
+    public setExtended(extended: boolean, collisionCheck?: (x: number, y: number) => boolean): void {
+        this.extended = extended;
+        this.collisionCheck = extended ? collisionCheck : undefined;
+
+        if (extended) {
+            while (this.dotPool.length < this.EXTENDED_DOT_COUNT) {
+                const dot = this.scene.add.circle(0, 0, this.DOT_SIZE, 0xffffff, 0);
+                dot.setDepth(Z_LAYERS.UI - 1);
+                dot.setVisible(false);
+                this.dotPool.push(dot);
+            }
+            if (!this.bounceText) {
+                this.bounceText = this.scene.add.text(0, 0, '', {
+                    fontSize: `${10 * HD_SCALE}px`,
+                    fontFamily: 'Arial',
+                    color: '#ffffff',
+                    stroke: '#000000',
+                    strokeThickness: 3
+                });
+                this.bounceText.setOrigin(0.5, 1);
+                this.bounceText.setDepth(Z_LAYERS.UI);
+                this.bounceText.setVisible(false);
+            }
+        } else {
+            this.bounceText?.setVisible(false);
+        }
+    }
+
+    /**
+     * INK attack - only the start of the path stays readable
+     */
+    public setInked(inked: boolean): void {
+        this.visibleFraction = inked ? POWER_UP_RULES.INK_VISIBLE_FRACTION : 1;
+        if (inked) {
+            this.bounceText?.setVisible(false);
+        }
+    }
+
+    public isShowing(): boolean {
+        return this.isVisible;
+    }
+
     public show(angle: number, bubbleColor?: number): void {
         if (!this.isVisible) {
             this.isVisible = true;
@@ -76,6 +131,7 @@ export class TrajectoryPreview {
             dot.setAlpha(0);
         });
         this.dots = [];
+        this.bounceText?.setVisible(false);
     }
     
     private calculateTrajectory(angle: number): void {
@@ -100,11 +156,13 @@ export class TrajectoryPreview {
         vy = (vy / magnitude) * this.DOT_SPACING;
         
         // Calculate trajectory points
-        const maxDots = Math.floor(this.DOT_COUNT * this.PREVIEW_PERCENTAGE);
+        const maxDots = this.extended ? this.dotPool.length : Math.floor(this.DOT_COUNT * this.PREVIEW_PERCENTAGE);
+        const maxDistance = this.extended ? this.EXTENDED_MAX_DISTANCE : this.MAX_PREVIEW_DISTANCE;
         let dotIndex = 0;
         let totalDistance = 0;
+        let bounces = 0;
         
-        while (dotIndex < maxDots && totalDistance < this.MAX_PREVIEW_DISTANCE) {
+        while (dotIndex < maxDots && totalDistance < maxDistance) {
             // Move to next position
             x += vx;
             y += vy;
@@ -117,18 +175,25 @@ export class TrajectoryPreview {
             if (x - radius <= this.bounds.left) {
                 x = this.bounds.left + radius;
                 vx = Math.abs(vx);
+                bounces++;
             }
             
             // Right wall bounce
             if (x + radius >= this.bounds.right) {
                 x = this.bounds.right - radius;
                 vx = -Math.abs(vx);
+                bounces++;
             }
             
             // Top wall (stop preview here)
             if (y - radius <= this.bounds.top) {
                 break;
             }
+
+            // Extended preview stops where the shot would stick
+            if (this.collisionCheck?.(x, y)) {
+                break;
+            }
             
             // Place dot
             if (dotIndex < this.dotPool.length) {
@@ -146,6 +211,12 @@ export class TrajectoryPreview {
                 dotIndex++;
             }
         }
+
+        if (this.extended && this.bounceText && this.visibleFraction === 1) {
+            this.bounceText.setText(bounces === 1 ? '1 bounce' : `${bounces} bounces`);
+            this.bounceText.setPosition(x, y - this.DOT_SIZE * 2);
+            this.bounceText.setVisible(true);
+        }
     }
     
     public update(angle: number, delta: number, bubbleColor?: number): void {
@@ -162,6 +233,7 @@ export class TrajectoryPreview {
         this.animationTime += delta;
         const animSpeed = 0.003;
         
+        const visibleDots = Math.ceil(this.dots.length * this.visibleFraction);
         this.dots.forEach(({ dot, targetAlpha }, index) => {
             // Create moving wave effect
             const waveOffset = index * 0.15;
@@ -172,8 +244,8 @@ export class TrajectoryPreview {
             const sizeWave = 1 + wave * 0.2;
             dot.setScale(sizeWave);
             
-            // Apply alpha
-            dot.setAlpha(animatedAlpha);
+            // Apply alpha - inked dots stay hidden
+            dot.setAlpha(index < visibleDots ? animatedAlpha : 0);
             
             // Create gradient based on bubble color
             const colorProgress = index / this.dots.length;
@@ -198,5 +270,7 @@ export class TrajectoryPreview {
         this.hide();
         this.dotPool.forEach(dot => dot.destroy());
         this.dotPool = [];
+        this.bounceText?.destroy();
+        this.bounceText = undefined;
     }
 }
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { Scene } from 'phaser';
 import { Z_LAYERS } from '@/config/ArenaConfig';
+import { VICTORY_RULES } from '@/core/rules/VictoryRules';
 
 export interface VictoryConditions {
     gemsToWin: number;
@@ -12,9 +13,9 @@ export class VictorySystem {
     private gameStartTime: number = 0;
     private gameEnded: boolean = false;
     private victoryConditions: VictoryConditions = {
-        gemsToWin: 15,  // First to 15 gems wins
-        maxGameTime: 180000,  // 3 minutes
-        suddenDeathTime: 150000  // 2:30 minutes
+        gemsToWin: VICTORY_RULES.GEMS_TO_WIN,
+        maxGameTime: VICTORY_RULES.GAME_DURATION,
+        suddenDeathTime: VICTORY_RULES.SUDDEN_DEATH_TIME
     };
     
     // Victory UI elements
@@ -422,6 +423,13 @@ export class VictorySystem {
         }
     }
     
+    /**
+     * Use the match's rules instead of the GDD defaults (set by the game mode)
+     */
+    public setVictoryConditions(conditions: Partial<VictoryConditions>): void {
+        this.victoryConditions = { ...this.victoryConditions, ...conditions };
+    }
+
     /**
      * Check if game has ended
      */
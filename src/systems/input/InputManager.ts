@@ -1,4 +1,5 @@
 import Phaser from 'phaser';
+import { getTouchSide } from '@/core/rules/SplitTouchRules';
 
 export interface IInputPosition {
     x: number;
@@ -12,6 +13,7 @@ export class InputManager {
     private currentPosition: IInputPosition;
     private sensitivity: number = 0.5; // Low sensitivity as per requirements
     private isEnabled: boolean = true;
+    private splitTouch: boolean = false; // Top half of the screen belongs to a second local player
     
     constructor(scene: Phaser.Scene) {
         this.scene = scene;
@@ -31,6 +33,10 @@ export class InputManager {
     
     private onPointerMove(pointer: Phaser.Input.Pointer): void {
         if (!this.isEnabled) return;
+        // Split screens have no hover - only a finger pressed on our half aims
+        if (this.splitTouch && !(pointer.isDown && this.isPlayerPointer(pointer))) {
+            return;
+        }
         
         // For initial setup, set position directly
         if (this.currentPosition.x === 0 && this.currentPosition.y === 0) {
@@ -47,14 +53,40 @@ export class InputManager {
         }
     }
     
-    private onPointerDown(_pointer: Phaser.Input.Pointer): void {
-        if (!this.isEnabled) return;
+    private onPointerDown(pointer: Phaser.Input.Pointer): void {
+        if (!this.isEnabled || !this.isPlayerPointer(pointer)) return;
+        if (this.splitTouch) {
+            this.currentPosition.x = pointer.x;
+            this.currentPosition.y = pointer.y;
+        }
         this.currentPosition.isActive = true;
     }
     
-    private onPointerUp(_pointer: Phaser.Input.Pointer): void {
+    private onPointerUp(pointer: Phaser.Input.Pointer): void {
+        if (!this.isPlayerPointer(pointer)) {
+            return;
+        }
         this.currentPosition.isActive = false;
     }
+
+    /**
+     * Share the screen with a second player on the same device - only the bottom half aims
+     */
+    public setSplitTouch(enabled: boolean): void {
+        this.splitTouch = enabled;
+    }
+
+    /**
+     * Whether a pointer drives the bottom (player) launcher.
+     * A touch belongs to the half it started on, wherever it is dragged or lifted.
+     */
+    public isPlayerPointer(pointer: Phaser.Input.Pointer): boolean {
+        return !this.splitTouch || getTouchSide(pointer.downY, this.scene.cameras.main.height) === 'bottom';
+    }
+
+    public isSplitTouch(): boolean {
+        return this.splitTouch;
+    }
     
     public getPosition(): IInputPosition {
         return this.currentPosition;
@@ -87,10 +119,10 @@ export class InputManager {
         let angle = this.getAngleFrom(fromX, fromY);
         
         // Apply constraints (assuming 0° is right, 90° is down, 180° is left, 270° is up)
-        // For shooting upward, we want to constrain between 195° (15° from left) and 345° (15° from right)
-        // Adjusting for upward shooting from bottom
-        const constrainedMin = 180 + minAngle; // 195°
-        const constrainedMax = 360 - minAngle;  // 345°
+        // For shooting upward, minAngle and maxAngle are launcher degrees (90 = straight up),
+        // so they map to 180 + angle - 195° to 345° with the default 15°-165° range
+        const constrainedMin = 180 + minAngle;
+        const constrainedMax = 180 + maxAngle;
         
         // Handle the constraint across the 0° boundary
         if (angle >= 0 && angle <= 180) {
@@ -122,7 +154,7 @@ export class InputManager {
     
     public update(): void {
         // Update current position if pointer is not active (for mouse hover)
-        if (!this.currentPosition.isActive && this.pointer) {
+        if (!this.currentPosition.isActive && this.pointer && !this.splitTouch) {
             this.currentPosition.x = this.pointer.x;
             this.currentPosition.y = this.pointer.y;
         }
@@ -0,0 +1,201 @@
+/**
+ * LevelEditorModel - The board being edited in EditorScene
+ * Kept free of Phaser so painting, mirroring and validation can be tested on
+ * their own. Connectivity uses the same anchor flood fill as GridAttachmentSystem,
+ * so a layout that validates here will not drop bubbles on the first shot.
+ */
+
+import { GRID_CONFIG } from '@/config/ArenaConfig';
+import { findDisconnected, getAnchorPositions, OBJECTIVE_HEX } from '@/core/rules/GridRules';
+import { getHexNeighbors, hexKey } from '@/core/rules/HexMath';
+import { LevelLoader } from '@/systems/levels/LevelLoader';
+import { ILevelCell, ILevelDefinition, LEVEL_FORMAT_VERSION, LevelColorName } from '@/types/LevelTypes';
+
+export interface IEditorBounds {
+    minQ: number;
+    maxQ: number;
+    minR: number;
+    maxR: number;
+}
+
+const COLOR_ORDER: LevelColorName[] = ['red', 'blue', 'green', 'yellow', 'purple'];
+
+const DEFAULT_BOUNDS: IEditorBounds = {
+    minQ: -GRID_CONFIG.CENTER_COL,
+    maxQ: GRID_CONFIG.CENTER_COL,
+    minR: -GRID_CONFIG.CENTER_ROW,
+    maxR: GRID_CONFIG.CENTER_ROW
+};
+
+export class LevelEditorModel {
+    private cells: Map<string, ILevelCell> = new Map();
+    private meta: Omit<ILevelDefinition, 'version' | 'allowedColors' | 'cells'>;
+    private bounds: IEditorBounds;
+    private loadedColors: LevelColorName[] = []; // Kept for imported cells that leave the color open
+
+    constructor(bounds: IEditorBounds = DEFAULT_BOUNDS) {
+        this.bounds = bounds;
+        this.meta = LevelEditorModel.createMeta();
+    }
+
+    private static createMeta(): Omit<ILevelDefinition, 'version' | 'allowedColors' | 'cells'> {
+        return {
+            id: `custom-${Date.now().toString(36)}`,
+            name: 'Custom Level',
+            winCondition: { type: 'gems' }
+        };
+    }
+
+    /**
+     * Cells can go anywhere on the grid except the objective
+     */
+    public isEditable(q: number, r: number): boolean {
+        if (q === OBJECTIVE_HEX.q && r === OBJECTIVE_HEX.r) {
+            return false;
+        }
+        return q >= this.bounds.minQ && q <= this.bounds.maxQ && r >= this.bounds.minR && r <= this.bounds.maxR;
+    }
+
+    public getCell(q: number, r: number): ILevelCell | undefined {
+        return this.cells.get(hexKey(q, r));
+    }
+
+    public getCells(): ILevelCell[] {
+        return [...this.cells.values()];
+    }
+
+    /**
+     * Paint a colored bubble - keeps the gem or mystery of a bubble already there
+     */
+    public paint(q: number, r: number, color: LevelColorName): boolean {
+        if (!this.isEditable(q, r)) {
+            return false;
+        }
+        const existing = this.getCell(q, r);
+        const cell: ILevelCell = existing && !existing.blocker ? { ...existing, color } : { q, r, color };
+        this.cells.set(hexKey(q, r), cell);
+        return true;
+    }
+
+    public placeBlocker(q: number, r: number): boolean {
+        if (!this.isEditable(q, r)) {
+            return false;
+        }
+        this.cells.set(hexKey(q, r), { q, r, blocker: true });
+        return true;
+    }
+
+    /**
+     * Add or remove a gem on an existing bubble (blockers can't carry gems)
+     */
+    public toggleGem(q: number, r: number, gem: 'normal' | 'golden'): boolean {
+        const cell = this.getCell(q, r);
+        if (!cell || cell.blocker) {
+            return false;
+        }
+        if (cell.gem === gem) {
+            delete cell.gem;
+        } else {
+            cell.gem = gem;
+        }
+        return true;
+    }
+
+    public toggleMystery(q: number, r: number): boolean {
+        const cell = this.getCell(q, r);
+        if (!cell || cell.blocker) {
+            return false;
+        }
+        if (cell.mystery) {
+            delete cell.mystery;
+        } else {
+            cell.mystery = true;
+        }
+        return true;
+    }
+
+    public erase(q: number, r: number): boolean {
+        return this.cells.delete(hexKey(q, r));
+    }
+
+    public clear(): void {
+        this.cells.clear();
+    }
+
+    /**
+     * Replace the bottom half with a mirror image of the top half, so both
+     * players face the same board. Offset rows r and -r share their x offset,
+     * so the reflection is exact.
+     */
+    public mirrorTopToBottom(): void {
+        this.getCells().filter(cell => cell.r > 0).forEach(cell => this.erase(cell.q, cell.r));
+        this.getCells().filter(cell => cell.r < 0).forEach(cell => {
+            const mirrored: ILevelCell = { ...cell, r: 0 - cell.r };
+            if (this.isEditable(mirrored.q, mirrored.r)) {
+                this.cells.set(hexKey(mirrored.q, mirrored.r), mirrored);
+            }
+        });
+    }
+
+    /**
+     * Cells not connected to the objective - these would fall as soon as play starts
+     */
+    public findFloatingCells(): ILevelCell[] {
+        const cells = this.getCells();
+        const anchors = getAnchorPositions()
+            .map(hex => this.getCell(hex.q, hex.r))
+            .filter((cell): cell is ILevelCell => cell !== undefined);
+
+        return findDisconnected(cells, anchors, cell =>
+            getHexNeighbors({ q: cell.q, r: cell.r, s: -cell.q - cell.r })
+                .map(hex => this.getCell(hex.q, hex.r))
+                .filter((neighbor): neighbor is ILevelCell => neighbor !== undefined)
+        );
+    }
+
+    /**
+     * Format problems plus floating cells - an empty list means the layout is playable
+     */
+    public validate(): string[] {
+        const errors = LevelLoader.validate(this.toLevel());
+        if (this.cells.size === 0) {
+            errors.push('the board is empty');
+        }
+        const floating = this.findFloatingCells();
+        if (floating.length > 0) {
+            errors.push(`${floating.length} bubble(s) not connected to the objective`);
+        }
+        return errors;
+    }
+
+    /**
+     * The layout as a level file. Allowed colors are the painted ones (plus those
+     * of an imported level), so the launcher never offers a color the board lacks.
+     */
+    public toLevel(): ILevelDefinition {
+        const used = new Set<LevelColorName | undefined>(this.getCells().map(cell => cell.color));
+        const allowedColors = COLOR_ORDER.filter(color => used.has(color) || this.loadedColors.includes(color));
+
+        return {
+            version: LEVEL_FORMAT_VERSION,
+            ...this.meta,
+            allowedColors: allowedColors.length > 0 ? allowedColors : [...COLOR_ORDER],
+            cells: this.getCells()
+                .map(cell => ({ ...cell }))
+                .sort((a, b) => a.r - b.r || a.q - b.q)
+        };
+    }
+
+    /**
+     * Replace the board with a level - keeps its name, rules and theme for export
+     */
+    public load(level: ILevelDefinition): void {
+        const { version: _version, allowedColors, cells, ...meta } = level;
+        this.meta = { ...meta };
+        this.loadedColors = [...allowedColors];
+        this.cells.clear();
+        cells.filter(cell => this.isEditable(cell.q, cell.r)).forEach(cell => {
+            this.cells.set(hexKey(cell.q, cell.r), { ...cell });
+        });
+    }
+}
@@ -0,0 +1,220 @@
+/**
+ * LevelLoader - Validates level files and turns them into an opening board
+ * The board goes through BubbleManager.createFieldPattern like the built-in
+ * patterns, so levels get the same bubbles, gems and mystery bubbles.
+ */
+
+import { RandomStream } from '@/core/RandomService';
+import { IMatchRules, VICTORY_RULES } from '@/core/rules/VictoryRules';
+import { BubbleColor, IFieldPosition, IHexPosition, IPixelPosition } from '@/types/ArenaTypes';
+import { ILevelCell, ILevelDefinition, ILevelStars, LEVEL_FORMAT_VERSION, LevelColorName } from '@/types/LevelTypes';
+import { PowerUpId, PowerUpType } from '@/types/PowerUpTypes';
+
+const LEVEL_COLORS: Record<LevelColorName, BubbleColor> = {
+    red: BubbleColor.RED,
+    blue: BubbleColor.BLUE,
+    green: BubbleColor.GREEN,
+    yellow: BubbleColor.YELLOW,
+    purple: BubbleColor.PURPLE
+};
+
+// Power-ups a mystery cell may name - the built-in ones until the catalogue has loaded
+let powerUpIds: PowerUpId[] = Object.values(PowerUpType);
+
+// Sudden death starts this long before the end, whatever the match length
+const SUDDEN_DEATH_LEAD = VICTORY_RULES.GAME_DURATION - VICTORY_RULES.SUDDEN_DEATH_TIME;
+
+export class LevelLoader {
+    /**
+     * Parse and validate a level - returns null and logs the problems if it is invalid
+     */
+    public static parse(data: unknown, source: string = 'level'): ILevelDefinition | null {
+        const errors = LevelLoader.validate(data);
+        if (errors.length > 0) {
+            console.warn(`LevelLoader: ${source} is invalid:\n  ${errors.join('\n  ')}`);
+            return null;
+        }
+        return data as ILevelDefinition;
+    }
+
+    /**
+     * The power-up catalogue's ids - src/powerups registers them once its files are loaded
+     */
+    public static setPowerUpIds(ids: ReadonlyArray<PowerUpId>): void {
+        powerUpIds = [...ids];
+    }
+
+    /**
+     * Every problem with a level file, so authors can fix them in one go
+     */
+    public static validate(data: unknown): string[] {
+        if (!data || typeof data !== 'object' || Array.isArray(data)) {
+            return ['level must be an object'];
+        }
+
+        const level = data as Partial<ILevelDefinition>;
+        const errors: string[] = [];
+
+        if (level.version !== LEVEL_FORMAT_VERSION) {
+            errors.push(`version must be ${LEVEL_FORMAT_VERSION}`);
+        }
+        if (typeof level.id !== 'string' || level.id.length === 0) {
+            errors.push('id must be a non-empty string');
+        }
+        if (typeof level.name !== 'string') {
+            errors.push('name must be a string');
+        }
+
+        if (!Array.isArray(level.allowedColors) || level.allowedColors.length === 0) {
+            errors.push('allowedColors must list at least one color');
+        } else {
+            level.allowedColors.forEach(color => LevelLoader.checkColor(color, 'allowedColors', errors));
+        }
+        if (level.startingQueue !== undefined) {
+            if (!Array.isArray(level.startingQueue)) {
+                errors.push('startingQueue must be a list of colors');
+            } else {
+                level.startingQueue.forEach(color => LevelLoader.checkColor(color, 'startingQueue', errors));
+            }
+        }
+
+        const win = level.winCondition;
+        if (!win || (win.type !== 'gems' && win.type !== 'clear' && win.type !== 'objective')) {
+            errors.push('winCondition.type must be "gems", "clear" or "objective"');
+        } else if (win.type === 'gems' && win.target !== undefined && !(Number.isInteger(win.target) && win.target > 0)) {
+            errors.push('winCondition.target must be a positive whole number');
+        }
+
+        if (level.timeLimit !== undefined && !(typeof level.timeLimit === 'number' && level.timeLimit > 0)) {
+            errors.push('timeLimit must be a positive number of seconds');
+        }
+        if (level.spawnRows !== undefined && typeof level.spawnRows !== 'boolean') {
+            errors.push('spawnRows must be true or false');
+        }
+        if (level.shotLimit !== undefined && !(Number.isInteger(level.shotLimit) && level.shotLimit > 0)) {
+            errors.push('shotLimit must be a positive whole number');
+        }
+        if (level.stars !== undefined) {
+            const stars = level.stars as Partial<ILevelStars> | null;
+            const two = stars?.two;
+            const three = stars?.three;
+            if (!(typeof two === 'number' && typeof three === 'number' && two >= 0 && three >= two)) {
+                errors.push('stars must have scores two and three, with three at least two');
+            }
+        }
+
+        if (!Array.isArray(level.cells)) {
+            errors.push('cells must be a list');
+        } else {
+            const seen = new Set<string>();
+            level.cells.forEach((cell, index) => LevelLoader.checkCell(cell, `cells[${index}]`, seen, errors));
+        }
+
+        return errors;
+    }
+
+    public static toBubbleColor(name: LevelColorName): BubbleColor {
+        return LEVEL_COLORS[name];
+    }
+
+    /**
+     * Level color name for a bubble color (undefined for non-level colors)
+     */
+    public static toColorName(color: BubbleColor): LevelColorName | undefined {
+        return (Object.keys(LEVEL_COLORS) as LevelColorName[]).find(name => LEVEL_COLORS[name] === color);
+    }
+
+    public static getAllowedColors(level: ILevelDefinition): BubbleColor[] {
+        return level.allowedColors.map(name => LEVEL_COLORS[name]);
+    }
+
+    public static getStartingQueue(level: ILevelDefinition): BubbleColor[] {
+        return (level.startingQueue || []).map(name => LEVEL_COLORS[name]);
+    }
+
+    /**
+     * Match rule overrides for GameStateManager.setMatchRules
+     */
+    public static getMatchRules(level: ILevelDefinition): Partial<IMatchRules> {
+        const rules: Partial<IMatchRules> = {};
+
+        if (level.winCondition.type === 'gems' && level.winCondition.target !== undefined) {
+            rules.gemsToWin = level.winCondition.target;
+        } else if (level.winCondition.type !== 'gems') {
+            // Clearing the board or freeing the objective is the goal - gems alone never end the match
+            rules.gemsToWin = Number.MAX_SAFE_INTEGER;
+        }
+
+        if (level.timeLimit !== undefined) {
+            rules.gameDuration = level.timeLimit * 1000;
+            rules.suddenDeathTime = Math.max(0, rules.gameDuration - SUDDEN_DEATH_LEAD);
+        }
+
+        return rules;
+    }
+
+    /**
+     * Opening board for BubbleManager.createFieldPattern - cells without a color
+     * get one of the level's allowed colors from the given stream
+     */
+    public static createFieldPositions(
+        level: ILevelDefinition,
+        hexToPixel: (hex: IHexPosition) => IPixelPosition,
+        rng: RandomStream
+    ): IFieldPosition[] {
+        const allowed = LevelLoader.getAllowedColors(level);
+
+        return level.cells.map(cell => {
+            const hexPos: IHexPosition = { q: cell.q, r: cell.r, s: -cell.q - cell.r };
+            return {
+                hexPos,
+                pixelPos: hexToPixel(hexPos),
+                color: cell.color ? LEVEL_COLORS[cell.color] : rng.pick(allowed),
+                gem: cell.gem || 'none',
+                mystery: cell.mystery || false,
+                blocker: cell.blocker || false
+            };
+        });
+    }
+
+    private static checkColor(color: unknown, field: string, errors: string[]): void {
+        if (typeof color !== 'string' || !(color in LEVEL_COLORS)) {
+            errors.push(`${field}: unknown color "${String(color)}" (use ${Object.keys(LEVEL_COLORS).join(', ')})`);
+        }
+    }
+
+    private static checkCell(cell: ILevelCell, path: string, seen: Set<string>, errors: string[]): void {
+        if (!cell || typeof cell !== 'object') {
+            errors.push(`${path} must be an object`);
+            return;
+        }
+        if (!Number.isInteger(cell.q) || !Number.isInteger(cell.r)) {
+            errors.push(`${path}: q and r must be whole numbers`);
+            return;
+        }
+
+        const key = `${cell.q},${cell.r}`;
+        if (cell.q === 0 && cell.r === 0) {
+            errors.push(`${path}: 0,0 is reserved for the objective`);
+        }
+        if (seen.has(key)) {
+            errors.push(`${path}: ${key} is used twice`);
+        }
+        seen.add(key);
+
+        if (cell.color !== undefined) {
+            LevelLoader.checkColor(cell.color, path, errors);
+        }
+        if (cell.gem !== undefined && cell.gem !== 'normal' && cell.gem !== 'golden') {
+            errors.push(`${path}: gem must be "normal" or "golden"`);
+        }
+        if (cell.mystery !== undefined && typeof cell.mystery !== 'boolean' && !powerUpIds.includes(cell.mystery)) {
+            errors.push(
+                `${path}: unknown mystery "${String(cell.mystery)}" (use true, false, ${powerUpIds.join(', ')})`
+            );
+        }
+        if (cell.blocker !== undefined && typeof cell.blocker !== 'boolean') {
+            errors.push(`${path}: blocker must be true or false`);
+        }
+    }
+}
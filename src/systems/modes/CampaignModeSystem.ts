@@ -0,0 +1,113 @@
+/**
+ * CampaignModeSystem - A puzzle level's shot limit and star rating
+ * The level's goal or running out of shots decides the match; the result is
+ * rated in stars and saved to the campaign progress.
+ */
+
+import { GameEventBus, GameEvents } from '@/core/EventBus';
+import { calculateStars } from '@/core/rules/CampaignRules';
+import { CampaignProgressStore } from '@/systems/campaign/CampaignProgressStore';
+import { IGameModeArena, IGameModeSystem } from '@/types/GameModeTypes';
+import { VictoryScreen } from '@/ui/VictoryScreen';
+
+export class CampaignModeSystem implements IGameModeSystem {
+    private static readonly SETTLE_DELAY = 1200; // ms for the last shot's matches and drops to land
+
+    private arena: IGameModeArena;
+    private eventBus: GameEventBus;
+    private shotsRemaining?: number;
+    private shotCounterText?: Phaser.GameObjects.Text;
+    private stars: number = 0;
+
+    constructor(arena: IGameModeArena) {
+        this.arena = arena;
+        this.eventBus = GameEventBus.getInstance();
+    }
+
+    public start(): void {
+        const scene = this.arena.getScene();
+        this.shotsRemaining = this.arena.getLevel()?.shotLimit;
+        if (this.shotsRemaining === undefined) {
+            return;
+        }
+
+        this.eventBus.onTyped('shot-fired', this.countShot);
+        this.shotCounterText = scene.add.text(
+            30,
+            scene.cameras.main.height - 40,
+            '',
+            {
+                fontSize: '28px',
+                fontFamily: 'Arial Black',
+                color: '#FFFFFF',
+                stroke: '#000000',
+                strokeThickness: 4
+            }
+        );
+        this.shotCounterText.setOrigin(0, 1);
+        this.shotCounterText.setDepth(1500);
+        this.updateShotCounter();
+    }
+
+    public stop(): void {
+        this.eventBus.offTyped('shot-fired', this.countShot);
+        this.shotCounterText?.destroy();
+        this.shotCounterText = undefined;
+    }
+
+    /**
+     * Rate and save the finished level
+     */
+    public finishMatch(playerWins: boolean, score: number): boolean {
+        const level = this.arena.getLevel();
+        if (!level) {
+            return false;
+        }
+        this.stars = calculateStars(
+            { won: playerWins, score, shotsRemaining: this.shotsRemaining ?? 0 },
+            level.stars
+        );
+        CampaignProgressStore.recordResult(level.id, this.stars, score);
+        return false;
+    }
+
+    public showOnVictory(screen: VictoryScreen): void {
+        screen.showStars(this.stars);
+    }
+
+    private updateShotCounter(): void {
+        this.shotCounterText?.setText(`SHOTS ${this.shotsRemaining ?? 0}`);
+        this.shotCounterText?.setColor(this.shotsRemaining !== undefined && this.shotsRemaining <= 2 ? '#FF6B6B' : '#FFFFFF');
+    }
+
+    private countShot = (data: GameEvents['shot-fired']): void => {
+        if (!data.isPlayer || this.shotsRemaining === undefined || this.arena.isGameEnded) {
+            return;
+        }
+        this.shotsRemaining = Math.max(0, this.shotsRemaining - 1);
+        this.updateShotCounter();
+        if (this.shotsRemaining === 0) {
+            this.arena.shootingSystem.enabled = false;
+            this.waitForLastShot();
+        }
+    };
+
+    /**
+     * Out of shots - the level is lost unless the last one reaches the goal
+     */
+    private waitForLastShot(): void {
+        this.arena.getScene().time.delayedCall(CampaignModeSystem.SETTLE_DELAY, () => {
+            if (!this.shotCounterText || this.arena.isGameEnded) {
+                return;
+            }
+            if (!this.arena.shootingSystem.isIdle()) {
+                this.waitForLastShot();
+                return;
+            }
+            this.arena.checkLevelGoal();
+            if (!this.arena.isGameEnded) {
+                this.arena.endMatch(false, 'out-of-shots');
+            }
+        });
+    }
+}
@@ -0,0 +1,126 @@
+/**
+ * GameModes - Every way to play a match, as data
+ * ArenaCoordinator reads the chosen mode for its rules, opponent, row pushes and
+ * extra systems, so a new mode is a new entry here rather than a new code path.
+ */
+
+import { DEFAULT_MATCH_RULES, IMatchRules, UNLIMITED } from '@/core/rules/VictoryRules';
+import { TIME_ATTACK_RULES } from '@/core/rules/TimeAttackRules';
+import { GameModeId, IGameMode } from '@/types/GameModeTypes';
+import { CampaignModeSystem } from './CampaignModeSystem';
+import { PracticeModeSystem } from './PracticeModeSystem';
+import { SurvivalModeSystem } from './SurvivalModeSystem';
+import { TimeAttackModeSystem } from './TimeAttackModeSystem';
+
+const NO_LIMITS: IMatchRules = { gemsToWin: UNLIMITED, gameDuration: UNLIMITED, suddenDeathTime: UNLIMITED };
+const ALL_RULES: ReadonlyArray<keyof IMatchRules> = ['gemsToWin', 'gameDuration', 'suddenDeathTime'];
+const BOTH_SIDES = { top: true, bottom: true };
+const PLAYER_SIDE = { top: false, bottom: true };
+
+export const GAME_MODES: Record<GameModeId, IGameMode> = {
+    versus: {
+        id: 'versus',
+        name: 'Versus',
+        opponent: 'ai',
+        rules: DEFAULT_MATCH_RULES,
+        levelRules: ALL_RULES,
+        timeUp: 'gems',
+        fieldFull: 'reset',
+        rowSpawns: BOTH_SIDES,
+        countdown: false,
+        systems: []
+    },
+    online: {
+        id: 'online',
+        name: 'Online',
+        opponent: 'remote',
+        rules: DEFAULT_MATCH_RULES,
+        levelRules: ALL_RULES,
+        timeUp: 'gems',
+        fieldFull: 'reset',
+        rowSpawns: BOTH_SIDES,
+        countdown: false,
+        systems: []
+    },
+    local: {
+        id: 'local',
+        name: 'Local Versus',
+        opponent: 'local',
+        rules: DEFAULT_MATCH_RULES,
+        levelRules: ALL_RULES,
+        timeUp: 'gems',
+        fieldFull: 'reset',
+        rowSpawns: BOTH_SIDES,
+        countdown: false,
+        systems: []
+    },
+    practice: {
+        id: 'practice',
+        name: 'Practice',
+        opponent: 'none',
+        rules: NO_LIMITS,
+        levelRules: ALL_RULES,
+        timeUp: 'gems',
+        fieldFull: 'reset',
+        rowSpawns: BOTH_SIDES,
+        countdown: false,
+        systems: [arena => new PracticeModeSystem(arena)]
+    },
+    campaign: {
+        id: 'campaign',
+        name: 'Campaign',
+        opponent: 'none',
+        // The level's goal or shot limit ends the match, never the PvP clock
+        rules: NO_LIMITS,
+        levelRules: ['gemsToWin'],
+        timeUp: 'gems',
+        fieldFull: 'lose',
+        rowSpawns: BOTH_SIDES,
+        countdown: false,
+        systems: [arena => new CampaignModeSystem(arena)]
+    },
+    survival: {
+        id: 'survival',
+        name: 'Survival',
+        opponent: 'none',
+        rules: NO_LIMITS,
+        levelRules: [],
+        timeUp: 'gems',
+        fieldFull: 'lose',
+        rowSpawns: PLAYER_SIDE,
+        countdown: false,
+        systems: [arena => new SurvivalModeSystem(arena)]
+    },
+    'time-attack': {
+        id: 'time-attack',
+        name: 'Time Attack',
+        opponent: 'none',
+        rules: { ...NO_LIMITS, gameDuration: TIME_ATTACK_RULES.DURATION },
+        levelRules: [],
+        timeUp: 'score',
+        fieldFull: 'lose',
+        rowSpawns: PLAYER_SIDE,
+        countdown: true,
+        systems: [arena => new TimeAttackModeSystem(arena)]
+    }
+};
+
+export const GAME_MODE_IDS = Object.keys(GAME_MODES) as GameModeId[];
+
+export function isGameModeId(value: unknown): value is GameModeId {
+    return typeof value === 'string' && (GAME_MODE_IDS as string[]).includes(value);
+}
+
+/**
+ * The mode's match rules, with the ones it lets a level decide taken from the level
+ */
+export function resolveMatchRules(mode: IGameMode, levelRules: Partial<IMatchRules> = {}): IMatchRules {
+    const rules: IMatchRules = { ...mode.rules };
+    mode.levelRules.forEach(key => {
+        const value = levelRules[key];
+        if (value !== undefined) {
+            rules[key] = value;
+        }
+    });
+    return rules;
+}
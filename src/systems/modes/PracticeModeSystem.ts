@@ -0,0 +1,87 @@
+/**
+ * PracticeModeSystem - Practice tools on top of the arena
+ * Undo, a color picker for the loaded bubble, frozen rows and the long aim preview.
+ */
+
+import { ARENA_CONFIG, BUBBLE_CONFIG } from '@/config/ArenaConfig';
+import { PracticeHistory } from '@/systems/practice/PracticeHistory';
+import { BubbleColor } from '@/types/ArenaTypes';
+import { IGameModeArena, IGameModeSystem } from '@/types/GameModeTypes';
+import { PracticePanel } from '@/ui/PracticePanel';
+
+export class PracticeModeSystem implements IGameModeSystem {
+    private arena: IGameModeArena;
+    private panel?: PracticePanel;
+    private history?: PracticeHistory;
+    private rowSpawnFrozen: boolean = false;
+
+    constructor(arena: IGameModeArena) {
+        this.arena = arena;
+    }
+
+    public start(): void {
+        this.rowSpawnFrozen = false;
+
+        this.arena.shootingSystem.setExtendedPreview(true, (x, y) => this.isPreviewBlocked(x, y));
+        this.history = new PracticeHistory(this.arena);
+        this.history.start();
+
+        this.panel = new PracticePanel(
+            this.arena.getScene(),
+            [BubbleColor.RED, BubbleColor.BLUE, BubbleColor.GREEN, BubbleColor.YELLOW, BubbleColor.PURPLE],
+            {
+                onUndo: () => this.undoLastShot(),
+                onToggleRows: () => this.toggleRowSpawning(),
+                onPickColor: color => this.arena.shootingSystem.setLoadedColor(color)
+            }
+        );
+    }
+
+    public stop(): void {
+        this.panel?.destroy();
+        this.panel = undefined;
+        this.history?.stop();
+        this.history = undefined;
+    }
+
+    /**
+     * Rewind to just before the last player shot
+     */
+    public undoLastShot(): boolean {
+        if (this.arena.isGameEnded) {
+            return false;
+        }
+        if (!this.arena.shootingSystem.isIdle()) {
+            this.panel?.showMessage('Wait for the shot to land');
+            return false;
+        }
+        if (!this.history || this.history.getSize() === 0) {
+            this.panel?.showMessage('Nothing to undo');
+            return false;
+        }
+        return this.history.undo();
+    }
+
+    private toggleRowSpawning(): boolean {
+        this.rowSpawnFrozen = !this.rowSpawnFrozen;
+        if (this.rowSpawnFrozen) {
+            this.arena.rowSpawnSystem.pause();
+        } else {
+            this.arena.rowSpawnSystem.resume();
+        }
+        return this.rowSpawnFrozen;
+    }
+
+    /**
+     * The preview ends where a shot would stick - on a grid bubble or the objective
+     */
+    private isPreviewBlocked(x: number, y: number): boolean {
+        const objective = this.arena.getObjectivePosition();
+        if (objective && Phaser.Math.Distance.Between(x, y, objective.x, objective.y) < ARENA_CONFIG.objectiveSize) {
+            return true;
+        }
+        return this.arena.gridAttachmentSystem.getGridBubbles().some(bubble =>
+            bubble.visible && Phaser.Math.Distance.Between(x, y, bubble.x, bubble.y) < BUBBLE_CONFIG.SIZE
+        );
+    }
+}
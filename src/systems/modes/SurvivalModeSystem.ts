@@ -0,0 +1,95 @@
+/**
+ * SurvivalModeSystem - Endless survival waves
+ * Rows come ever faster and each new wave is announced; the run ends at the
+ * danger line and is saved to the survival high scores.
+ */
+
+import { getSurvivalInterval, getSurvivalWave } from '@/core/rules/SurvivalRules';
+import { SurvivalScoreStore } from '@/systems/survival/SurvivalScoreStore';
+import { IGameModeArena, IGameModeSystem } from '@/types/GameModeTypes';
+import { DefeatScreen } from '@/ui/DefeatScreen';
+
+export class SurvivalModeSystem implements IGameModeSystem {
+    private arena: IGameModeArena;
+    private wave: number = 1;
+    private rank: number = -1;
+    private finalScore: number = 0;
+
+    constructor(arena: IGameModeArena) {
+        this.arena = arena;
+    }
+
+    public start(): void {
+        this.wave = 1;
+        this.arena.rowSpawnSystem.setIntervalSchedule(getSurvivalInterval);
+        this.arena.rowSpawnSystem.setSpawnInterval(getSurvivalInterval(0));
+        this.arena.getScene().events.on('row-spawned', this.handleRow);
+        this.showWaveBanner(this.wave);
+    }
+
+    public stop(): void {
+        this.arena.getScene().events.off('row-spawned', this.handleRow);
+    }
+
+    /**
+     * Save the finished run to the high scores
+     */
+    public finishMatch(_playerWins: boolean, score: number): boolean {
+        this.finalScore = score;
+        this.rank = SurvivalScoreStore.record({
+            score,
+            wave: this.wave,
+            rows: this.arena.rowSpawnSystem?.getRowsSpawned() ?? 0,
+            date: new Date().toISOString()
+        });
+        return false;
+    }
+
+    public showOnDefeat(screen: DefeatScreen): void {
+        screen.showSurvivalResult(this.wave, this.rank, SurvivalScoreStore.getBest()?.score ?? this.finalScore);
+    }
+
+    private handleRow = (): void => {
+        const wave = getSurvivalWave(this.arena.rowSpawnSystem.getRowsSpawned());
+        if (wave > this.wave && !this.arena.isGameEnded) {
+            this.wave = wave;
+            this.showWaveBanner(wave);
+        }
+    };
+
+    private showWaveBanner(wave: number): void {
+        const scene = this.arena.getScene();
+        const banner = scene.add.text(
+            scene.cameras.main.centerX,
+            scene.cameras.main.centerY + 200,
+            `WAVE ${wave}`,
+            {
+                fontSize: '48px',
+                color: '#FFD700',
+                fontFamily: 'Arial Black',
+                fontStyle: 'bold',
+                stroke: '#000000',
+                strokeThickness: 6
+            }
+        );
+        banner.setOrigin(0.5);
+        banner.setDepth(2000);
+        banner.setScale(0);
+
+        scene.tweens.add({
+            targets: banner,
+            scale: 1.5,
+            duration: 400,
+            ease: 'Back.easeOut',
+            onComplete: () => {
+                scene.tweens.add({
+                    targets: banner,
+                    alpha: 0,
+                    duration: 400,
+                    delay: 800,
+                    onComplete: () => banner.destroy()
+                });
+            }
+        });
+    }
+}
@@ -0,0 +1,115 @@
+/**
+ * TimeAttackModeSystem - Score rush against the clock
+ * Matches of 5+ add seconds, bank shots that land a match score a perfect shot,
+ * and the end shows the score broken down by event type - there is no winner.
+ */
+
+import { GameEventBus, GameEvents } from '@/core/EventBus';
+import { getTimeBonusSeconds, isPerfectShot, TIME_ATTACK_RULES } from '@/core/rules/TimeAttackRules';
+import { ScoreEventType } from '@/systems/scoring/ScoreEventManager';
+import { PerfectShotModule, TimeBonusModule } from '@/systems/scoring/TimeAttackScoring';
+import { IGameModeArena, IGameModeSystem } from '@/types/GameModeTypes';
+import { TimeAttackResultsScreen } from '@/ui/TimeAttackResultsScreen';
+
+export class TimeAttackModeSystem implements IGameModeSystem {
+    private arena: IGameModeArena;
+    private eventBus: GameEventBus;
+    private resultsScreen?: TimeAttackResultsScreen;
+    private bonusSeconds: number = 0;
+    private shotBounces: number = 0;
+
+    constructor(arena: IGameModeArena) {
+        this.arena = arena;
+        this.eventBus = GameEventBus.getInstance();
+    }
+
+    public start(): void {
+        this.bonusSeconds = 0;
+        this.shotBounces = 0;
+        const scoreEventManager = this.arena.getScoreEventManager();
+        scoreEventManager?.registerModule(new TimeBonusModule());
+        scoreEventManager?.registerModule(new PerfectShotModule());
+
+        this.arena.getScene().events.on('wall-bounce', this.countShotBounce);
+        this.eventBus.onTyped('shot-fired', this.trackShot);
+        this.eventBus.on('match-found', this.scoreMatch);
+    }
+
+    public stop(): void {
+        this.arena.getScene().events.off('wall-bounce', this.countShotBounce);
+        this.eventBus.offTyped('shot-fired', this.trackShot);
+        this.eventBus.off('match-found', this.scoreMatch);
+    }
+
+    /**
+     * Time up or a full field both end on the score
+     */
+    public finishMatch(_playerWins: boolean, score: number): boolean {
+        if (!this.resultsScreen) {
+            const breakdown = this.arena.getScoreEventManager()?.getPlayerScoreBreakdown()
+                ?? new Map<ScoreEventType, number>();
+            this.resultsScreen = new TimeAttackResultsScreen(
+                this.arena.getScene(),
+                score,
+                breakdown,
+                this.bonusSeconds,
+                () => this.arena.restartMatch(),
+                () => this.arena.leaveMatch()
+            );
+        }
+        return true;
+    }
+
+    private trackShot = (data: GameEvents['shot-fired']): void => {
+        if (data.isPlayer) {
+            this.shotBounces = 0;
+        }
+    };
+
+    private countShotBounce = (): void => {
+        this.shotBounces++;
+    };
+
+    /**
+     * Award the time attack bonuses for a player match
+     */
+    private scoreMatch = (data: { matchSize?: number; isPlayer?: boolean; x?: number; y?: number }): void => {
+        if (data.isPlayer === false || this.arena.isGameEnded) {
+            return;
+        }
+        const scene = this.arena.getScene();
+        const scoreEventManager = this.arena.getScoreEventManager();
+        const matchSize = data.matchSize ?? 0;
+        const position = {
+            x: data.x ?? scene.cameras.main.centerX,
+            y: data.y ?? scene.cameras.main.centerY
+        };
+
+        const seconds = getTimeBonusSeconds(matchSize);
+        if (seconds > 0) {
+            this.arena.addMatchTime(seconds);
+            this.bonusSeconds += seconds;
+            scoreEventManager?.queueEvent({
+                type: ScoreEventType.TIME_BONUS,
+                baseValue: seconds,
+                position,
+                matchSize,
+                isPlayer: true,
+                metadata: { seconds }
+            });
+        }
+
+        if (isPerfectShot({ matchSize, bounces: this.shotBounces })) {
+            scoreEventManager?.queueEvent({
+                type: ScoreEventType.PERFECT_SHOT,
+                baseValue: TIME_ATTACK_RULES.PERFECT_SHOT_POINTS,
+                position: { x: position.x, y: position.y - 60 },
+                matchSize,
+                isPlayer: true,
+                metadata: { bounces: this.shotBounces }
+            });
+            // One bonus per shot
+            this.shotBounces = 0;
+        }
+    };
+}
@@ -0,0 +1,242 @@
+/**
+ * DesyncMonitor - Lockstep checksums for an online match
+ * After every resolved grid change (attach, match, cascade) the arena state is
+ * hashed in the host's perspective and the hash sent to the peer. Both peers
+ * count resolutions the same way, so hashes are compared step by step.
+ *
+ * Shots from the two players can resolve in a different order on each side,
+ * which briefly gives different hashes. Every checksum carries the turns - shots
+ * sent and received - its peer had seen, and hashes are only compared when both
+ * peers had seen the same turns. A mismatch counts as a desync once the states
+ * still differ at a later turn both peers have seen. Then both peers exchange
+ * their state dumps for a desync report, and the host sends its current state
+ * for the guest to adopt.
+ *
+ * Events:
+ * - 'desync' (report: IDesyncReport)
+ * - 'resynced' (step: number) - guest only, after adopting the host state
+ */
+
+import { EventEmitter } from 'eventemitter3';
+import { GameEventBus } from '@/core/EventBus';
+import { diffStates, hashState, toHostPerspective } from '@/core/rules/StateHash';
+import {
+    IArenaStateDump,
+    IDesyncReport,
+    INetworkChecksumMessage,
+    INetworkStateMessage,
+    INetworkTurns
+} from '@/types/NetworkTypes';
+import { NetworkSession } from './NetworkSession';
+
+/**
+ * The local arena as seen by the monitor - states are in this peer's own perspective
+ */
+export interface IDesyncArena {
+    captureState(): IArenaStateDump;
+    applyState(state: IArenaStateDump): void;
+}
+
+interface IStepRecord {
+    turns: INetworkTurns;
+    hash: number;
+    state: IArenaStateDump; // Host perspective
+}
+
+export class DesyncMonitor extends EventEmitter {
+    private static readonly HISTORY_SIZE = 64;
+
+    private session: NetworkSession;
+    private arena: IDesyncArena;
+    private isHost: boolean;
+    private eventBus: GameEventBus;
+    private active: boolean = false;
+
+    private epoch: number = 0;
+    private step: number = 0;
+    private history: Map<number, IStepRecord> = new Map();
+    private remoteChecksums: Map<number, INetworkChecksumMessage> = new Map();
+    private suspectTurns?: INetworkTurns;
+    private awaitingResync: boolean = false;
+    private localReport?: INetworkStateMessage;
+    private remoteReport?: INetworkStateMessage;
+
+    constructor(session: NetworkSession, isHost: boolean, arena: IDesyncArena) {
+        super();
+        this.session = session;
+        this.isHost = isHost;
+        this.arena = arena;
+        this.eventBus = GameEventBus.getInstance();
+    }
+
+    public start(): void {
+        if (this.active) {
+            return;
+        }
+        this.active = true;
+        this.session.on('remote-checksum', this.onRemoteChecksum);
+        this.session.on('remote-state', this.onRemoteState);
+        this.eventBus.onTyped('bubble-attached', this.recordStep);
+        this.eventBus.onTyped('match-completed', this.recordStep);
+        this.eventBus.onTyped('cascade-completed', this.recordStep);
+    }
+
+    public stop(): void {
+        if (!this.active) {
+            return;
+        }
+        this.active = false;
+        this.session.off('remote-checksum', this.onRemoteChecksum);
+        this.session.off('remote-state', this.onRemoteState);
+        this.eventBus.offTyped('bubble-attached', this.recordStep);
+        this.eventBus.offTyped('match-completed', this.recordStep);
+        this.eventBus.offTyped('cascade-completed', this.recordStep);
+        this.removeAllListeners();
+    }
+
+    public getStep(): number {
+        return this.step;
+    }
+
+    public getEpoch(): number {
+        return this.epoch;
+    }
+
+    /**
+     * Hash the arena after a resolved grid change and share it with the peer
+     */
+    private recordStep = (): void => {
+        const state = toHostPerspective(this.arena.captureState(), this.isHost);
+        const hash = hashState(state);
+        const turns = this.session.getTurns();
+        const step = ++this.step;
+
+        this.history.set(step, { turns, hash, state });
+        this.trim(this.history);
+
+        this.session.send({ type: 'checksum', epoch: this.epoch, step, turns, hash });
+        this.compare(step);
+    };
+
+    private onRemoteChecksum = (message: INetworkChecksumMessage): void => {
+        if (message.epoch !== this.epoch) {
+            return;
+        }
+        this.remoteChecksums.set(message.step, message);
+        this.trim(this.remoteChecksums);
+        this.compare(message.step);
+    };
+
+    private onRemoteState = (message: INetworkStateMessage): void => {
+        if (message.purpose === 'report') {
+            this.remoteReport = message;
+            this.completeReport();
+            return;
+        }
+
+        if (!this.isHost && message.epoch > this.epoch) {
+            this.applyResync(message);
+        }
+    };
+
+    /**
+     * Compare both hashes for a step once both are known and were taken at the same turns
+     */
+    private compare(step: number): void {
+        const local = this.history.get(step);
+        const remote = this.remoteChecksums.get(step);
+        if (!local || !remote || this.awaitingResync) {
+            return;
+        }
+        this.remoteChecksums.delete(step);
+
+        if (local.turns.host !== remote.turns.host || local.turns.guest !== remote.turns.guest) {
+            // A shot is still in flight to one of the peers - the states aren't comparable
+            return;
+        }
+
+        if (local.hash === remote.hash) {
+            this.suspectTurns = undefined;
+            return;
+        }
+
+        if (!this.suspectTurns) {
+            this.suspectTurns = local.turns;
+            return;
+        }
+        if (local.turns.host + local.turns.guest > this.suspectTurns.host + this.suspectTurns.guest) {
+            this.handleDesync(step, local);
+        }
+    }
+
+    private handleDesync(step: number, local: IStepRecord): void {
+        console.warn(`DesyncMonitor: States diverged at step ${step} (epoch ${this.epoch})`);
+
+        this.localReport = { type: 'state', purpose: 'report', epoch: this.epoch, step, state: local.state };
+        this.session.send(this.localReport);
+        this.completeReport();
+
+        this.suspectTurns = undefined;
+        this.remoteChecksums.clear();
+
+        if (!this.isHost) {
+            // Stop comparing until the host's state arrives
+            this.awaitingResync = true;
+            return;
+        }
+
+        // Host is authoritative - older checksums from the guest are void from here on
+        this.epoch++;
+        this.session.send({
+            type: 'state',
+            purpose: 'resync',
+            epoch: this.epoch,
+            step: this.step,
+            state: toHostPerspective(this.arena.captureState(), true)
+        });
+    }
+
+    /**
+     * Emit the report once both peers' dumps for the same epoch are in
+     */
+    private completeReport(): void {
+        const local = this.localReport;
+        const remote = this.remoteReport;
+        if (!local || !remote || local.epoch !== remote.epoch) {
+            return;
+        }
+        this.localReport = undefined;
+        this.remoteReport = undefined;
+
+        const report: IDesyncReport = {
+            epoch: local.epoch,
+            step: local.step,
+            localHash: hashState(local.state),
+            remoteHash: hashState(remote.state),
+            localState: local.state,
+            remoteState: remote.state,
+            differences: diffStates(local.state, remote.state)
+        };
+        console.warn('DesyncMonitor: Desync report', report);
+        this.emit('desync', report);
+    }
+
+    private applyResync(message: INetworkStateMessage): void {
+        this.arena.applyState(toHostPerspective(message.state, this.isHost));
+
+        this.epoch = message.epoch;
+        this.step = message.step;
+        this.history.clear();
+        this.remoteChecksums.clear();
+        this.suspectTurns = undefined;
+        this.awaitingResync = false;
+        this.emit('resynced', message.step);
+    }
+
+    private trim<T>(records: Map<number, T>): void {
+        while (records.size > DesyncMonitor.HISTORY_SIZE) {
+            const oldest = records.keys().next().value as number;
+            records.delete(oldest);
+        }
+    }
+}
@@ -0,0 +1,91 @@
+/**
+ * FirebaseAdapter - Online transport over Firebase Realtime Database
+ * Room layout:
+ *   rooms/{roomId}/peers/{peerId}   presence flag, removed on disconnect
+ *   rooms/{roomId}/messages/{push}  INetworkEnvelope list
+ * Messages are stamped with server time and only those sent after joining are
+ * delivered, so stale rooms can be reused and client clock skew doesn't matter.
+ */
+
+import { FirebaseOptions, getApps, initializeApp } from 'firebase/app';
+import {
+    Database,
+    DatabaseReference,
+    get,
+    getDatabase,
+    onChildAdded,
+    onDisconnect,
+    orderByChild,
+    push,
+    query,
+    ref,
+    remove,
+    serverTimestamp,
+    set,
+    startAt,
+    Unsubscribe
+} from 'firebase/database';
+import { INetworkAdapter, INetworkEnvelope } from '@/types/NetworkTypes';
+
+export class FirebaseAdapter implements INetworkAdapter {
+    private options: FirebaseOptions;
+    private database?: Database;
+    private messagesRef?: DatabaseReference;
+    private presenceRef?: DatabaseReference;
+    private unsubscribe?: Unsubscribe;
+    private handler?: (envelope: INetworkEnvelope) => void;
+
+    constructor(options: FirebaseOptions) {
+        this.options = options;
+    }
+
+    public async connect(roomId: string, peerId: string): Promise<void> {
+        const app = getApps().length > 0 ? getApps()[0] : initializeApp(this.options);
+        this.database = getDatabase(app);
+
+        const roomPath = `rooms/${roomId}`;
+        this.messagesRef = ref(this.database, `${roomPath}/messages`);
+        this.presenceRef = ref(this.database, `${roomPath}/peers/${peerId}`);
+
+        await set(this.presenceRef, true);
+        await onDisconnect(this.presenceRef).remove();
+
+        const offsetSnapshot = await get(ref(this.database, '.info/serverTimeOffset'));
+        const serverNow = Date.now() + (Number(offsetSnapshot.val()) || 0);
+        this.unsubscribe = onChildAdded(
+            query(this.messagesRef, orderByChild('serverAt'), startAt(serverNow)),
+            snapshot => {
+                const envelope = snapshot.val() as INetworkEnvelope | null;
+                if (envelope && envelope.from !== peerId && this.handler) {
+                    this.handler(envelope);
+                }
+            }
+        );
+    }
+
+    public send(envelope: INetworkEnvelope): void {
+        if (!this.messagesRef) {
+            return;
+        }
+        push(this.messagesRef, { ...envelope, serverAt: serverTimestamp() }).catch(error => {
+            console.warn('FirebaseAdapter: Failed to send message', error);
+        });
+    }
+
+    public onReceive(handler: (envelope: INetworkEnvelope) => void): void {
+        this.handler = handler;
+    }
+
+    public async disconnect(): Promise<void> {
+        if (this.unsubscribe) {
+            this.unsubscribe();
+            this.unsubscribe = undefined;
+        }
+        if (this.presenceRef) {
+            await remove(this.presenceRef);
+            this.presenceRef = undefined;
+        }
+        this.messagesRef = undefined;
+        this.handler = undefined;
+    }
+}
@@ -0,0 +1,87 @@
+/**
+ * LoopbackAdapter - Local transport for testing online play without a server
+ * Uses a BroadcastChannel, so two browser tabs on the same origin can play each
+ * other. Falls back to an in-memory hub (same page / Jest) when BroadcastChannel
+ * is unavailable or disabled.
+ */
+
+import { INetworkAdapter, INetworkEnvelope } from '@/types/NetworkTypes';
+
+export class LoopbackAdapter implements INetworkAdapter {
+    // In-memory rooms shared by every adapter in this page
+    private static rooms: Map<string, Set<LoopbackAdapter>> = new Map();
+
+    private useBroadcastChannel: boolean;
+    private channel?: BroadcastChannel;
+    private roomId?: string;
+    private handler?: (envelope: INetworkEnvelope) => void;
+
+    constructor(useBroadcastChannel: boolean = true) {
+        this.useBroadcastChannel = useBroadcastChannel && typeof BroadcastChannel !== 'undefined';
+    }
+
+    public connect(roomId: string, _peerId: string): Promise<void> {
+        this.roomId = roomId;
+
+        if (this.useBroadcastChannel) {
+            this.channel = new BroadcastChannel(`bubble-battle-room:${roomId}`);
+            this.channel.onmessage = (event: MessageEvent<INetworkEnvelope>) => {
+                this.deliver(event.data);
+            };
+        } else {
+            let room = LoopbackAdapter.rooms.get(roomId);
+            if (!room) {
+                room = new Set();
+                LoopbackAdapter.rooms.set(roomId, room);
+            }
+            room.add(this);
+        }
+
+        return Promise.resolve();
+    }
+
+    public send(envelope: INetworkEnvelope): void {
+        if (this.channel) {
+            this.channel.postMessage(envelope);
+            return;
+        }
+
+        const room = this.roomId ? LoopbackAdapter.rooms.get(this.roomId) : undefined;
+        room?.forEach(adapter => {
+            if (adapter !== this) {
+                // Copy and deliver asynchronously, like a real network would
+                const copy = JSON.parse(JSON.stringify(envelope)) as INetworkEnvelope;
+                setTimeout(() => adapter.deliver(copy), 0);
+            }
+        });
+    }
+
+    public onReceive(handler: (envelope: INetworkEnvelope) => void): void {
+        this.handler = handler;
+    }
+
+    public disconnect(): Promise<void> {
+        if (this.channel) {
+            this.channel.close();
+            this.channel = undefined;
+        }
+
+        if (this.roomId) {
+            const room = LoopbackAdapter.rooms.get(this.roomId);
+            room?.delete(this);
+            if (room && room.size === 0) {
+                LoopbackAdapter.rooms.delete(this.roomId);
+            }
+        }
+
+        this.roomId = undefined;
+        this.handler = undefined;
+        return Promise.resolve();
+    }
+
+    private deliver(envelope: INetworkEnvelope): void {
+        if (this.handler) {
+            this.handler(envelope);
+        }
+    }
+}
@@ -0,0 +1,334 @@
+/**
+ * NetworkSession - One online 1v1 match over a pluggable INetworkAdapter
+ * Sends the local player's shots and power-up activations, receives the remote
+ * player's and re-emits them for ArenaCoordinator to drive the opponent launcher.
+ *
+ * Events:
+ * - 'status-changed' (status: NetworkStatus)
+ * - 'peer-joined' (info: INetworkMatchInfo) - both sides agree on host, seed and theme
+ * - 'remote-shot' (message: INetworkShotMessage)
+ * - 'remote-powerup' (message: INetworkPowerUpMessage)
+ * - 'remote-checksum' (message: INetworkChecksumMessage)
+ * - 'remote-state' (message: INetworkStateMessage)
+ * - 'peer-left' ()
+ */
+
+import { EventEmitter } from 'eventemitter3';
+import { GameEventBus, GameEvents } from '@/core/EventBus';
+import {
+    INetworkAdapter,
+    INetworkEnvelope,
+    INetworkHelloMessage,
+    INetworkMatchInfo,
+    INetworkSettings,
+    INetworkTurns,
+    NetworkMessage,
+    NetworkStatus
+} from '@/types/NetworkTypes';
+
+export interface INetworkSessionOptions {
+    roomId: string;
+    seed: number; // Seed this peer proposes if it ends up hosting
+    theme: string;
+    peerId?: string;
+}
+
+export class NetworkSession extends EventEmitter {
+    private adapter: INetworkAdapter;
+    private settings: INetworkSettings;
+    private eventBus: GameEventBus;
+    private roomId: string;
+    private peerId: string;
+    private hello: INetworkHelloMessage;
+
+    private status: NetworkStatus = 'idle';
+    private seq: number = 0;
+    private outbox: NetworkMessage[] = [];
+    private flushTimer?: ReturnType<typeof setInterval>;
+    private lastSentAt: number = 0;
+    private lastReceivedAt: number = 0;
+    private lastRemoteSeq: number = -1;
+    private matchInfo?: INetworkMatchInfo;
+    private getMatchTime?: () => number;
+    private localTurn: number = 0;
+    private remoteTurn: number = 0;
+
+    constructor(adapter: INetworkAdapter, settings: INetworkSettings, options: INetworkSessionOptions) {
+        super();
+        this.adapter = adapter;
+        this.settings = settings;
+        this.eventBus = GameEventBus.getInstance();
+        this.roomId = options.roomId;
+        this.peerId = options.peerId || NetworkSession.generatePeerId();
+        this.hello = {
+            type: 'hello',
+            joinedAt: 0,
+            seed: options.seed,
+            theme: options.theme
+        };
+    }
+
+    public static generatePeerId(): string {
+        return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    }
+
+    /**
+     * Join the room, retrying up to RECONNECT_ATTEMPTS times
+     */
+    public async connect(): Promise<void> {
+        if (this.status !== 'idle' && this.status !== 'disconnected') {
+            return;
+        }
+        this.setStatus('connecting');
+
+        let lastError: unknown;
+        for (let attempt = 0; attempt <= this.settings.RECONNECT_ATTEMPTS; attempt++) {
+            try {
+                await this.adapter.connect(this.roomId, this.peerId);
+                lastError = undefined;
+                break;
+            } catch (error) {
+                lastError = error;
+                console.warn(`NetworkSession: Connect attempt ${attempt + 1} failed`, error);
+            }
+        }
+
+        if (lastError !== undefined) {
+            this.setStatus('disconnected');
+            throw lastError;
+        }
+
+        this.adapter.onReceive(envelope => this.handleEnvelope(envelope));
+        this.hello.joinedAt = Date.now();
+        this.setStatus('waiting');
+
+        this.queue(this.hello);
+        this.flush();
+        this.flushTimer = setInterval(() => this.tick(), this.settings.SYNC_RATE);
+    }
+
+    /**
+     * Leave the room and release the adapter
+     */
+    public async disconnect(): Promise<void> {
+        this.stopMatch();
+
+        if (this.flushTimer) {
+            clearInterval(this.flushTimer);
+            this.flushTimer = undefined;
+        }
+
+        if (this.status === 'waiting' || this.status === 'connected') {
+            this.queue({ type: 'leave' });
+            this.flush();
+        }
+
+        await this.adapter.disconnect();
+        this.setStatus('idle');
+        this.removeAllListeners();
+    }
+
+    /**
+     * Start forwarding the local player's actions - call when the match begins
+     */
+    public startMatch(getMatchTime: () => number): void {
+        if (this.getMatchTime) {
+            return;
+        }
+        this.getMatchTime = getMatchTime;
+        this.eventBus.onTyped('shot-fired', this.onLocalShot);
+        this.eventBus.onTyped('powerup-activated', this.onLocalPowerUp);
+    }
+
+    public stopMatch(): void {
+        if (!this.getMatchTime) {
+            return;
+        }
+        this.getMatchTime = undefined;
+        this.eventBus.offTyped('shot-fired', this.onLocalShot);
+        this.eventBus.offTyped('powerup-activated', this.onLocalPowerUp);
+    }
+
+    /**
+     * Queue a message for the matched peer - dropped unless connected
+     */
+    public send(message: NetworkMessage): void {
+        if (this.status !== 'connected') {
+            return;
+        }
+        this.queue(message);
+    }
+
+    public getStatus(): NetworkStatus {
+        return this.status;
+    }
+
+    public getMatchInfo(): INetworkMatchInfo | undefined {
+        return this.matchInfo;
+    }
+
+    public getPeerId(): string {
+        return this.peerId;
+    }
+
+    public getRoomId(): string {
+        return this.roomId;
+    }
+
+    /**
+     * Shots this peer has sent and received so far, in the host's perspective
+     */
+    public getTurns(): INetworkTurns {
+        const isHost = this.matchInfo?.isHost ?? true;
+        return isHost
+            ? { host: this.localTurn, guest: this.remoteTurn }
+            : { host: this.remoteTurn, guest: this.localTurn };
+    }
+
+    private onLocalShot = (data: GameEvents['shot-fired']): void => {
+        // Remote shots are re-emitted with isPlayer false - never echo them back
+        if (!data.isPlayer || !this.getMatchTime) {
+            return;
+        }
+        this.localTurn++;
+        this.queue({
+            type: 'shot',
+            angle: data.angle,
+            color: data.color,
+            timestamp: this.getMatchTime()
+        });
+    };
+
+    private onLocalPowerUp = (data: GameEvents['powerup-activated']): void => {
+        if (!data.isPlayer || !this.getMatchTime) {
+            return;
+        }
+        this.queue({
+            type: 'powerup',
+            powerUpType: data.type,
+            timestamp: this.getMatchTime()
+        });
+    };
+
+    private queue(message: NetworkMessage): void {
+        this.outbox.push(message);
+    }
+
+    private flush(): void {
+        const now = Date.now();
+        this.outbox.forEach(message => {
+            this.adapter.send({
+                from: this.peerId,
+                seq: this.seq++,
+                sentAt: now,
+                message
+            });
+        });
+        if (this.outbox.length > 0) {
+            this.lastSentAt = now;
+            this.outbox = [];
+        }
+    }
+
+    /**
+     * Runs every SYNC_RATE ms: send queued messages, keep the link alive, detect a silent peer
+     */
+    private tick(): void {
+        const now = Date.now();
+
+        if (this.status === 'connected') {
+            if (this.outbox.length === 0 && now - this.lastSentAt >= this.settings.TIMEOUT / 4) {
+                this.queue({ type: 'heartbeat' });
+            }
+
+            if (now - this.lastReceivedAt > this.settings.TIMEOUT) {
+                console.warn('NetworkSession: Peer timed out');
+                this.handlePeerLeft();
+            }
+        }
+
+        this.flush();
+    }
+
+    private handleEnvelope(envelope: INetworkEnvelope): void {
+        if (envelope.from === this.peerId) {
+            return;
+        }
+
+        const message = envelope.message;
+
+        if (message.type === 'hello') {
+            this.handleHello(envelope.from, message);
+            return;
+        }
+
+        // Only the matched peer talks to us; drop duplicates and stale messages
+        if (!this.matchInfo || envelope.from !== this.matchInfo.remotePeerId || envelope.seq <= this.lastRemoteSeq) {
+            return;
+        }
+        this.lastRemoteSeq = envelope.seq;
+        this.lastReceivedAt = Date.now();
+
+        switch (message.type) {
+            case 'shot':
+                this.remoteTurn++;
+                this.emit('remote-shot', message);
+                break;
+            case 'powerup':
+                this.emit('remote-powerup', message);
+                break;
+            case 'checksum':
+                this.emit('remote-checksum', message);
+                break;
+            case 'state':
+                this.emit('remote-state', message);
+                break;
+            case 'leave':
+                this.handlePeerLeft();
+                break;
+            default:
+                break;
+        }
+    }
+
+    private handleHello(from: string, hello: INetworkHelloMessage): void {
+        if (this.matchInfo) {
+            // Room is taken - a second hello from our peer is just its reply
+            return;
+        }
+
+        // Tell a late joiner about us as well
+        this.queue(this.hello);
+        this.flush();
+
+        const isHost = this.hello.joinedAt < hello.joinedAt ||
+            (this.hello.joinedAt === hello.joinedAt && this.peerId < from);
+        const hostHello = isHost ? this.hello : hello;
+
+        this.matchInfo = {
+            isHost,
+            remotePeerId: from,
+            seed: hostHello.seed,
+            theme: hostHello.theme
+        };
+        this.lastReceivedAt = Date.now();
+        this.setStatus('connected');
+        this.emit('peer-joined', this.matchInfo);
+    }
+
+    private handlePeerLeft(): void {
+        if (this.status !== 'connected') {
+            return;
+        }
+        this.setStatus('disconnected');
+        this.emit('peer-left');
+    }
+
+    private setStatus(status: NetworkStatus): void {
+        if (this.status === status) {
+            return;
+        }
+        this.status = status;
+        this.emit('status-changed', status);
+    }
+}
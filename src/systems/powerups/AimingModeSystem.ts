@@ -1,6 +1,7 @@
 import { Scene } from 'phaser';
-import { PowerUpType } from './PowerUpManager';
+import { PowerUpType } from '@/types/PowerUpTypes';
 import { Z_LAYERS } from '@/config/ArenaConfig';
+import { POWER_UP_RULES } from '@/core/rules/PowerUpRules';
 
 export enum AimingMode {
     NORMAL = 'crosshair',
@@ -10,7 +11,9 @@ export enum AimingMode {
     BOMB_BALLISTIC = 'ballistic_arc',
     LIGHTNING = 'selection_cursor',
     FREEZE = 'snowflake_area',
-    MULTI = 'triple_arrow'
+    MULTI = 'triple_arrow',
+    SHIELD = 'shield_barrier',
+    MAGNET = 'magnet_field'
 }
 
 export interface TargetingInfo {
@@ -76,6 +79,10 @@ export class AimingModeSystem {
         // Update cursor style
         this.updateCursorStyle();
     }
+
+    public getMode(): AimingMode {
+        return this.currentMode;
+    }
     
     /**
      * Update aiming graphics based on pointer position
@@ -118,6 +125,15 @@ export class AimingModeSystem {
             case AimingMode.MULTI:
                 this.drawTripleArrow(launcherX, launcherY, pointerX, pointerY);
                 break;
+
+            case AimingMode.SHIELD:
+                this.drawShieldBarrier(launcherX, launcherY);
+                this.drawBasicTrajectory(launcherX, launcherY, pointerX, pointerY);
+                break;
+
+            case AimingMode.MAGNET:
+                this.drawMagnetField(launcherX, launcherY, pointerX, pointerY);
+                break;
         }
     }
     
@@ -369,6 +385,40 @@ export class AimingModeSystem {
         });
     }
     
+    private drawShieldBarrier(launcherX: number, launcherY: number): void {
+        // Dome over the launcher - the shield guards this side's danger zone
+        const radius = 90;
+        const pulse = Math.sin(Date.now() * 0.004) * 0.15 + 0.85;
+
+        this.aimingGraphics.fillStyle(0x4FC3F7, 0.15 * pulse);
+        this.aimingGraphics.slice(launcherX, launcherY, radius, Math.PI, 0, false);
+        this.aimingGraphics.fillPath();
+
+        this.aimingGraphics.lineStyle(3, 0x4FC3F7, 0.8 * pulse);
+        this.aimingGraphics.beginPath();
+        this.aimingGraphics.arc(launcherX, launcherY, radius, Math.PI, 0, false);
+        this.aimingGraphics.strokePath();
+    }
+
+    private drawMagnetField(launcherX: number, launcherY: number, targetX: number, targetY: number): void {
+        this.drawBasicTrajectory(launcherX, launcherY, targetX, targetY);
+
+        // Reach of the pull at a few points along the path
+        const radius = POWER_UP_RULES.MAGNET_RADIUS;
+        const rings = 3;
+        for (let i = 1; i <= rings; i++) {
+            const t = i / rings;
+            const x = Phaser.Math.Linear(launcherX, targetX, t);
+            const y = Phaser.Math.Linear(launcherY, targetY, t);
+
+            this.aimingGraphics.lineStyle(2, 0xE040FB, 0.2 + t * 0.3);
+            this.aimingGraphics.strokeCircle(x, y, radius * (0.5 + t * 0.5));
+        }
+
+        this.aimingGraphics.fillStyle(0xE040FB, 1);
+        this.aimingGraphics.fillCircle(targetX, targetY, 5);
+    }
+
     private drawArrowHead(x: number, y: number, angle: number, color: number): void {
         const size = 10;
         const angleLeft = angle - Phaser.Math.DegToRad(150);
@@ -441,6 +491,12 @@ export class AimingModeSystem {
         // Clean up previous indicator
         if (this.modeIndicator) {
             this.modeIndicator.destroy();
+            this.modeIndicator = undefined;
+        }
+        
+        // Plain aiming has nothing to announce
+        if (this.currentMode === AimingMode.NORMAL) {
+            return;
         }
         
         // Create mode-specific visual indicator at top of screen
@@ -465,7 +521,9 @@ export class AimingModeSystem {
             [AimingMode.BOMB_BALLISTIC]: '💣 BALLISTIC',
             [AimingMode.LIGHTNING]: '⚡ LIGHTNING',
             [AimingMode.FREEZE]: '❄️ FREEZE',
-            [AimingMode.MULTI]: '🎱 MULTI'
+            [AimingMode.MULTI]: '🎱 MULTI',
+            [AimingMode.SHIELD]: '🛡️ SHIELD',
+            [AimingMode.MAGNET]: '🧲 MAGNET'
         };
         
         const text = this.scene.add.text(0, 0, modeNames[this.currentMode], {
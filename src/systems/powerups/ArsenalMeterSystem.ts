@@ -0,0 +1,138 @@
+import type { Scene } from 'phaser';
+import type { Launcher } from '@/gameObjects/Launcher';
+import { ArsenalMeterUI } from '@/ui/ArsenalMeterUI';
+import { ComboManager } from '@/systems/gameplay/ComboManager';
+import { ScoreContext, ScoreEventManager, ScoreEventType } from '@/systems/scoring/ScoreEventManager';
+import { GameEventBus } from '@/core/EventBus';
+import { RandomService } from '@/core/RandomService';
+import {
+    ARSENAL_METER_RULES,
+    ArsenalMeterSource,
+    fillMeter,
+    getMeterCharge,
+    getMeterGrant
+} from '@/core/rules/ArsenalMeterRules';
+import { HD_SCALE } from '@/config/GameConfig';
+import { rollPowerUp } from '@/powerups';
+import { PowerUpId } from '@/types/PowerUpTypes';
+
+export interface IArsenalMeterOptions {
+    scoreEventManager: ScoreEventManager;
+    getLauncher: (isPlayer: boolean) => Launcher | undefined;
+    getLoadout: () => PowerUpId[] | undefined; // The player's picks - the AI rolls from the catalogue
+}
+
+interface IArsenalMeter {
+    charge: number;
+    grants: number; // Full meters so far - picks the next loadout entry
+    ui?: ArsenalMeterUI;
+}
+
+/**
+ * ArsenalMeterSystem - One arsenal meter per side, filled by ScoreEventManager events
+ * and by orphan drops, which it counts straight off 'floating-bubbles-drop' so they
+ * are not scored a second time. A full meter hands its side a power-up the same way
+ * a mystery bubble does, so the player's inventory and the AI's arsenal both pick it up:
+ * the player gets the next loadout pick, the AI (or a player without one) a catalogue roll.
+ */
+export class ArsenalMeterSystem {
+    private scene: Scene;
+    private options: IArsenalMeterOptions;
+    private player: IArsenalMeter = { charge: 0, grants: 0 };
+    private opponent: IArsenalMeter = { charge: 0, grants: 0 };
+
+    constructor(scene: Scene, options: IArsenalMeterOptions) {
+        this.scene = scene;
+        this.options = options;
+
+        this.player.ui = this.createMeterUI(true);
+        this.opponent.ui = this.createMeterUI(false);
+
+        this.options.scoreEventManager.onScoreEvent(this.onScoreEvent);
+        this.scene.events.on('floating-bubbles-drop', this.onBubblesDropped);
+    }
+
+    /**
+     * Beside the launcher, on the side away from its arsenal slots
+     */
+    private createMeterUI(isPlayer: boolean): ArsenalMeterUI | undefined {
+        const launcher = this.options.getLauncher(isPlayer);
+        if (!launcher) {
+            return undefined;
+        }
+        const offset = 60 * HD_SCALE;
+        return new ArsenalMeterUI(this.scene, launcher.x + (isPlayer ? -offset : offset), launcher.y, !isPlayer);
+    }
+
+    private onScoreEvent = (context: ScoreContext): void => {
+        const source = this.toSource(context);
+        if (source) {
+            this.addCharge(context.isPlayer, getMeterCharge(source));
+        }
+    };
+
+    private onBubblesDropped = (data: { count: number; isPlayer: boolean }): void => {
+        this.addCharge(data.isPlayer, getMeterCharge({ type: 'orphans', count: data.count }));
+    };
+
+    private toSource(context: ScoreContext): ArsenalMeterSource | null {
+        switch (context.type) {
+            case ScoreEventType.BUBBLE_MATCH:
+                return { type: 'combo', tier: ComboManager.getComboTier(context.matchSize ?? 0) };
+            case ScoreEventType.OBJECTIVE_HIT:
+                return { type: 'objective' };
+            default:
+                return null;
+        }
+    }
+
+    public addCharge(isPlayer: boolean, amount: number): void {
+        const meter = isPlayer ? this.player : this.opponent;
+        const result = fillMeter(meter.charge, amount);
+        meter.charge = result.charge;
+        meter.ui?.setCharge(meter.charge / ARSENAL_METER_RULES.CAPACITY);
+        for (let i = 0; i < result.grants; i++) {
+            this.grant(isPlayer, meter);
+        }
+    }
+
+    private grant(isPlayer: boolean, meter: IArsenalMeter): void {
+        const loadout = isPlayer ? this.options.getLoadout() : undefined;
+        const id = loadout
+            ? getMeterGrant(loadout, meter.grants)
+            : rollPowerUp(RandomService.getInstance().stream('powerUps'))?.id ?? null;
+        meter.grants++;
+        if (!id) {
+            return;
+        }
+
+        const launcher = this.options.getLauncher(isPlayer);
+        this.scene.events.emit('power-up-collected', {
+            type: id,
+            x: launcher?.x ?? this.scene.cameras.main.centerX,
+            y: launcher?.y ?? this.scene.cameras.main.centerY,
+            owner: isPlayer ? 'player' : 'opponent'
+        });
+        meter.ui?.flash();
+        if (isPlayer) {
+            // Pickup sound - the player's cue that the meter paid out
+            GameEventBus.getInstance().emit('arsenal-ready', { type: id });
+        }
+    }
+
+    /**
+     * Current charge, 0 to ARSENAL_METER_RULES.CAPACITY
+     */
+    public getCharge(isPlayer: boolean): number {
+        return (isPlayer ? this.player : this.opponent).charge;
+    }
+
+    public destroy(): void {
+        this.options.scoreEventManager.offScoreEvent(this.onScoreEvent);
+        this.scene.events.off('floating-bubbles-drop', this.onBubblesDropped);
+        this.player.ui?.destroy();
+        this.opponent.ui?.destroy();
+        this.player.ui = undefined;
+        this.opponent.ui = undefined;
+    }
+}
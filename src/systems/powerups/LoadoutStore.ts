@@ -0,0 +1,36 @@
+/**
+ * LoadoutStore - The power-ups the player last took into a match, persisted to local storage
+ * LoadoutScene starts from these picks. Without a usable save there are none and
+ * the scene picks the first unlocked power-ups instead.
+ */
+
+import { VersionedStore } from '@/core/VersionedStore';
+import { isValidLoadout } from '@/core/rules/LoadoutRules';
+import { ILoadoutFile, LOADOUT_FORMAT_VERSION, PowerUpId } from '@/types/PowerUpTypes';
+
+export class LoadoutStore {
+    private static readonly storage = new VersionedStore<PowerUpId[], ILoadoutFile>({
+        key: 'bubble-battle-loadout',
+        version: LOADOUT_FORMAT_VERSION,
+        owner: 'LoadoutStore',
+        label: 'loadout',
+        createDefault: () => [],
+        toFile: loadout => ({ loadout }),
+        fromFile: file => isValidLoadout(file.loadout) ? file.loadout : null
+    });
+
+    /**
+     * Last picks - empty when none were saved
+     */
+    public static load(): PowerUpId[] {
+        return LoadoutStore.storage.load();
+    }
+
+    public static save(loadout: PowerUpId[]): void {
+        LoadoutStore.storage.save(loadout);
+    }
+
+    public static reset(): void {
+        LoadoutStore.storage.clear();
+    }
+}
@@ -1,30 +1,33 @@
 import { Scene } from 'phaser';
-import { PowerUpType } from './PowerUpManager';
-import { 
-    PowerUpContext, 
-    RainbowEffect, 
-    LaserSightEffect, 
-    BombEffect, 
-    LightningEffect, 
-    FreezeEffect, 
-    MultiShotEffect,
-    IPowerUpEffect 
-} from './PowerUpEffectsLibrary';
+import { PowerUpContext, PowerUpEffectFactory, IPowerUpEffect, IShotLanding } from './PowerUpEffectsLibrary';
 import { AimingModeSystem, AimingMode } from './AimingModeSystem';
 import { Launcher } from '@/gameObjects/Launcher';
+import { MysteryBubble } from '@/gameObjects/MysteryBubble';
 import { BubbleGrid } from '@/systems/gameplay/BubbleGrid';
+import { GridAttachmentSystem } from '@/systems/gameplay/GridAttachmentSystem';
+import { GameEventBus } from '@/core/EventBus';
+import { RandomService } from '@/core/RandomService';
+import { getPowerUpDefinition, getPowerUpDefinitions, rollPowerUp } from '@/powerups';
+import { PowerUpId } from '@/types/PowerUpTypes';
 
 export class PowerUpActivationSystem {
     private scene: Scene;
-    private effects: Map<PowerUpType, IPowerUpEffect>;
+    private effects: PowerUpEffectFactory;
     private activeEffect?: IPowerUpEffect;
     private context: PowerUpContext;
+    // The online opponent's power-ups play out on their own effects, away from the local aim
+    private remoteEffects: PowerUpEffectFactory;
+    private remoteActiveEffect?: IPowerUpEffect;
+    private remoteContext: PowerUpContext;
+    private loadout?: PowerUpId[];
     
     constructor(
         scene: Scene, 
         launcher: Launcher, 
         bubbleGrid: BubbleGrid,
-        aimingModeSystem: AimingModeSystem
+        aimingModeSystem: AimingModeSystem,
+        gridAttachmentSystem?: GridAttachmentSystem,
+        opponentLauncher?: Launcher
     ) {
         this.scene = scene;
         
@@ -33,74 +36,215 @@ export class PowerUpActivationSystem {
             scene,
             launcher,
             aimingMode: aimingModeSystem,
-            bubbleGrid
+            bubbleGrid,
+            gridAttachmentSystem,
+            opponentLauncher
+        };
+        this.remoteContext = {
+            ...this.context,
+            launcher: opponentLauncher ?? launcher,
+            opponentLauncher: launcher,
+            isPlayer: false
         };
         
-        // Initialize effects
-        this.effects = new Map([
-            [PowerUpType.RAINBOW, new RainbowEffect()],
-            [PowerUpType.LASER, new LaserSightEffect()],
-            [PowerUpType.BOMB, new BombEffect()],
-            [PowerUpType.LIGHTNING, new LightningEffect()],
-            [PowerUpType.FREEZE, new FreezeEffect()],
-            [PowerUpType.MULTIPLIER, new MultiShotEffect()]
-        ]);
+        // One effect per catalogue entry
+        this.effects = new PowerUpEffectFactory(getPowerUpDefinitions());
+        this.remoteEffects = new PowerUpEffectFactory(getPowerUpDefinitions());
         
         this.setupEventListeners();
     }
     
     private setupEventListeners(): void {
         // Listen for power-up activation from inventory
-        this.scene.events.on('activate-power-up', (data: { type: PowerUpType }) => {
-            this.activatePowerUp(data.type);
-        });
+        this.scene.events.on('activate-power-up', this.onActivatePowerUp);
+        // The top launcher's arsenal, when a second player on this device holds it
+        this.scene.events.on('activate-opponent-power-up', this.onActivateOpponentPowerUp);
+        // A mystery drop is settled by whoever collects it
+        this.scene.events.on('mystery-collecting', this.onMysteryCollecting);
     }
+
+    private onActivatePowerUp = (data: { type: PowerUpId }): void => {
+        this.activatePowerUp(data.type);
+    };
+
+    private onActivateOpponentPowerUp = (data: { type: PowerUpId }): void => {
+        this.activateRemotePowerUp(data.type);
+    };
     
-    public activatePowerUp(type: PowerUpType): void {
-        // Deactivate current effect if any
-        if (this.activeEffect && this.activeEffect.deactivate) {
-            this.activeEffect.deactivate(this.context);
+    /**
+     * Power-ups the player picked before the match.
+     * No loadout (or none the catalogue knows) means the whole catalogue.
+     */
+    public setLoadout(loadout?: ReadonlyArray<PowerUpId>): void {
+        const known = (loadout ?? []).filter(id => {
+            if (!getPowerUpDefinition(id)) {
+                console.warn(`PowerUpActivationSystem: Unknown loadout power-up ${id} - left out`);
+                return false;
+            }
+            return true;
+        });
+        this.loadout = known.length > 0 ? known : undefined;
+    }
+
+    public getLoadout(): PowerUpId[] | undefined {
+        return this.loadout;
+    }
+
+    /**
+     * What a collected mystery bubble gives a side - a drop outside the player's
+     * loadout is rolled again from the loadout, the opponent keeps whatever it showed
+     */
+    public resolveDrop(type: PowerUpId, isPlayer: boolean): PowerUpId {
+        if (!isPlayer || !this.loadout || this.loadout.includes(type)) {
+            return type;
         }
-        
-        // Reset aiming mode to normal first
-        this.context.aimingMode.setMode(AimingMode.NORMAL);
-        
+        return rollPowerUp(RandomService.getInstance().stream('mystery'), this.loadout)?.id ?? type;
+    }
+
+    private onMysteryCollecting = (data: { bubble: MysteryBubble; isPlayer: boolean }): void => {
+        data.bubble.setCurrentPowerUp(this.resolveDrop(data.bubble.getCurrentPowerUp(), data.isPlayer));
+    };
+
+    public activatePowerUp(type: PowerUpId): void {
         // Get the effect
-        const effect = this.effects.get(type);
+        const effect = this.effects.getEffect(type);
         if (!effect) {
             console.warn(`Power-up effect not found for type: ${type}`);
             return;
         }
         
+        if (!effect.isAttack?.()) {
+            // Deactivate current effect if any - an attack leaves it armed
+            if (this.activeEffect && this.activeEffect.deactivate) {
+                this.activeEffect.deactivate(this.context);
+            }
+
+            // Reset aiming mode to normal first
+            this.context.aimingMode.setMode(AimingMode.NORMAL);
+            this.activeEffect = effect;
+        }
+
         // Activate the new effect
         console.log(`Activating power-up effect: ${type}`);
-        this.activeEffect = effect;
         effect.activate(this.context);
         
         // Emit power-up activation event for sound system
         this.scene.events.emit('power-up-activated', { type });
+        GameEventBus.getInstance().emitTyped('powerup-activated', {
+            type,
+            isPlayer: true,
+            // Same spot as the activation text
+            x: this.scene.cameras.main.centerX,
+            y: this.scene.cameras.main.centerY - 100
+        });
         
         // Visual feedback
         this.showActivationFeedback(type);
     }
     
-    private showActivationFeedback(type: PowerUpType): void {
+    /**
+     * A power-up the opponent activated, online or on this device - same effect, on their side of the arena
+     */
+    public activateRemotePowerUp(type: PowerUpId): void {
+        if (!this.playRemoteEffect(type)) {
+            return;
+        }
+
+        GameEventBus.getInstance().emitTyped('powerup-activated', {
+            type,
+            isPlayer: false
+        });
+    }
+
+    /**
+     * Run the remote side's effect without announcing it - for an activation its source already announced
+     */
+    public playRemoteEffect(type: PowerUpId): boolean {
+        const effect = this.remoteEffects.getEffect(type);
+        if (!effect) {
+            console.warn(`Power-up effect not found for remote type: ${type}`);
+            return false;
+        }
+
+        if (!effect.isAttack?.()) {
+            this.remoteActiveEffect?.deactivate?.(this.remoteContext);
+            this.remoteActiveEffect = effect;
+        }
+        effect.activate(this.remoteContext);
+        return true;
+    }
+
+    /**
+     * The opponent's board power-up landing where they aimed it, with no shot fired - the AI's bomb and lightning
+     */
+    public playRemoteStrike(type: PowerUpId, landing: IShotLanding): void {
+        const effect = this.remoteEffects.getEffect(type);
+        if (!effect?.strikeAt) {
+            console.warn(`Power-up strike not found for remote type: ${type}`);
+            return;
+        }
+        effect.strikeAt(this.remoteContext, landing);
+    }
+
+    /**
+     * A side's power-up still waiting on its shots - a snapshot has to bring it back
+     */
+    public getPendingPowerUp(isPlayer: boolean): PowerUpId | null {
+        const effect = isPlayer ? this.activeEffect : this.remoteActiveEffect;
+        return effect?.isPending?.() ? effect.type : null;
+    }
+
+    /**
+     * Shots a side's pending power-up has left - 0 when nothing is pending
+     */
+    public getPendingShots(isPlayer: boolean): number {
+        const effect = isPlayer ? this.activeEffect : this.remoteActiveEffect;
+        return effect?.isPending?.() ? effect.getShotsLeft?.() ?? 0 : 0;
+    }
+
+    /**
+     * Bring back a snapshot's pending power-up quietly: its aim and shots are re-armed,
+     * but nothing is announced and nothing it did on activation runs again
+     */
+    public restorePowerUp(type: PowerUpId, isPlayer: boolean, shots?: number): void {
+        this.cancelPowerUp(isPlayer);
+
+        const effect = (isPlayer ? this.effects : this.remoteEffects).getEffect(type);
+        if (!effect?.restore) {
+            console.warn(`Power-up effect not found for restored type: ${type}`);
+            return;
+        }
+
+        if (isPlayer) {
+            this.activeEffect = effect;
+            effect.restore(this.context, shots);
+        } else {
+            this.remoteActiveEffect = effect;
+            effect.restore(this.remoteContext, shots);
+        }
+    }
+
+    /**
+     * Drop a side's effect without a new one - a restored snapshot had none in play
+     */
+    public cancelPowerUp(isPlayer: boolean): void {
+        if (isPlayer) {
+            this.activeEffect?.deactivate?.(this.context);
+            this.activeEffect = undefined;
+        } else {
+            this.remoteActiveEffect?.deactivate?.(this.remoteContext);
+            this.remoteActiveEffect = undefined;
+        }
+    }
+
+    private showActivationFeedback(type: PowerUpId): void {
         // Create activation text
-        const powerUpNames: Record<PowerUpType, string> = {
-            [PowerUpType.RAINBOW]: 'RAINBOW MODE!',
-            [PowerUpType.LASER]: 'LASER SIGHT!',
-            [PowerUpType.BOMB]: 'BOMB READY!',
-            [PowerUpType.LIGHTNING]: 'LIGHTNING STRIKE!',
-            [PowerUpType.FREEZE]: 'FREEZE TIME!',
-            [PowerUpType.MULTIPLIER]: 'MULTI-SHOT!',
-            [PowerUpType.SHIELD]: 'SHIELD UP!',
-            [PowerUpType.MAGNET]: 'MAGNET ON!'
-        };
+        const definition = getPowerUpDefinition(type);
         
         const text = this.scene.add.text(
             this.scene.cameras.main.centerX,
             this.scene.cameras.main.centerY - 100,
-            powerUpNames[type] || 'POWER-UP!',
+            definition ? `${definition.icon} ${definition.name.toUpperCase()}!` : 'POWER-UP!',
             {
                 fontSize: '32px',
                 fontFamily: 'Arial Black',
@@ -134,6 +278,13 @@ export class PowerUpActivationSystem {
         if (this.activeEffect && this.activeEffect.update) {
             this.activeEffect.update(this.context, delta);
         }
+
+        // An armed power-up's aim follows the pointer
+        const aimingMode = this.context.aimingMode;
+        if (aimingMode.getMode() !== AimingMode.NORMAL) {
+            const pointer = this.scene.input.activePointer;
+            aimingMode.updateAiming(pointer.worldX, pointer.worldY, this.context.launcher.x, this.context.launcher.y);
+        }
     }
     
     public destroy(): void {
@@ -141,6 +292,9 @@ export class PowerUpActivationSystem {
         if (this.activeEffect && this.activeEffect.deactivate) {
             this.activeEffect.deactivate(this.context);
         }
-        this.effects.clear();
+        this.remoteActiveEffect?.deactivate?.(this.remoteContext);
+        this.scene.events.off('activate-power-up', this.onActivatePowerUp);
+        this.scene.events.off('activate-opponent-power-up', this.onActivateOpponentPowerUp);
+        this.scene.events.off('mystery-collecting', this.onMysteryCollecting);
     }
 }
\ No newline at end of file
@@ -0,0 +1,187 @@
+import { Scene } from 'phaser';
+import { UIManager } from '@/managers/UIManager';
+import { ResetSystem } from '@/systems/gameplay/ResetSystem';
+import { RowSpawnSystem } from '@/systems/gameplay/RowSpawnSystem';
+import { RandomService } from '@/core/RandomService';
+import { POWER_UP_RULES, swapQueueColors } from '@/core/rules/PowerUpRules';
+import { getPowerUpDefinition } from '@/powerups';
+import { BubbleColor } from '@/types/ArenaTypes';
+import { ATTACK_PRIMITIVES, IPowerUpDefinition, PowerUpId, PowerUpPrimitive } from '@/types/PowerUpTypes';
+import { IAttackEffectSnapshot } from '@/types/SnapshotTypes';
+
+type TimedAttack = IAttackEffectSnapshot['primitive'];
+
+/**
+ * The side an attack lands on - ShootingSystem for the player, the AI or the
+ * second local player for the opponent
+ */
+export interface IAttackTarget {
+    getLoadedColor(): BubbleColor | null;
+    getQueueColors(): BubbleColor[];
+    restoreQueue(loaded: BubbleColor | null, next: BubbleColor[]): void;
+    setCooldownMultiplier(multiplier: number): void;
+    setInked(inked: boolean): void;
+}
+
+export interface IPowerUpAttackOptions {
+    uiManager: UIManager;
+    resetSystem: ResetSystem;
+    rowSpawnSystem: RowSpawnSystem;
+    getTarget: (isPlayer: boolean) => IAttackTarget | undefined;
+    getBoardColors: () => BubbleColor[]; // Colors a color swap may pick from
+}
+
+/**
+ * PowerUpAttackSystem - Lands attack power-ups on the other side of the arena.
+ * An attack is announced first; if the target has a shield up when the
+ * counter-window runs out, the shield takes it instead.
+ */
+export class PowerUpAttackSystem {
+    private scene: Scene;
+    private options: IPowerUpAttackOptions;
+    private pendingAttacks: Set<Phaser.Time.TimerEvent> = new Set();
+    // Ink and jam wear-off, per side
+    private effectTimers: Map<string, {
+        timer: Phaser.Time.TimerEvent;
+        primitive: TimedAttack;
+        isPlayer: boolean;
+        end: () => void;
+    }> = new Map();
+
+    constructor(scene: Scene, options: IPowerUpAttackOptions) {
+        this.scene = scene;
+        this.options = options;
+
+        this.scene.events.on('power-up-attack', this.onPowerUpAttack);
+    }
+
+    private onPowerUpAttack = (data: { id: PowerUpId; isPlayer: boolean }): void => {
+        const definition = getPowerUpDefinition(data.id);
+        if (!definition) {
+            console.warn(`PowerUpAttackSystem: Unknown power-up ${data.id}`);
+            return;
+        }
+
+        const targetIsPlayer = !data.isPlayer;
+        const label = `${definition.icon} ${definition.name.toUpperCase()}`;
+        this.options.uiManager.showNotification(targetIsPlayer
+            ? { text: `${label} INCOMING - SHIELD UP!`, type: 'warning', duration: POWER_UP_RULES.ATTACK_COUNTER_WINDOW }
+            : { text: `${label} SENT!`, type: 'info' });
+        this.scene.events.emit('power-up-incoming', {
+            id: definition.id,
+            isPlayer: targetIsPlayer,
+            window: POWER_UP_RULES.ATTACK_COUNTER_WINDOW
+        });
+
+        const timer = this.scene.time.delayedCall(POWER_UP_RULES.ATTACK_COUNTER_WINDOW, () => {
+            this.pendingAttacks.delete(timer);
+            this.landAttack(definition, targetIsPlayer);
+        });
+        this.pendingAttacks.add(timer);
+    };
+
+    private landAttack(definition: IPowerUpDefinition, targetIsPlayer: boolean): void {
+        const name = definition.name.toUpperCase();
+        if (this.options.resetSystem.blockAttackWithShield(targetIsPlayer)) {
+            this.options.uiManager.showNotification({
+                text: `🛡️ ${name} BLOCKED!`,
+                type: targetIsPlayer ? 'success' : 'warning'
+            });
+            return;
+        }
+
+        definition.effects
+            .filter(primitive => ATTACK_PRIMITIVES.includes(primitive.type))
+            .forEach(primitive => this.applyAttack(primitive, definition, targetIsPlayer));
+
+        this.options.uiManager.showNotification(targetIsPlayer
+            ? { text: `${definition.icon} ${name}!`, type: 'danger' }
+            : { text: `${definition.icon} ${name} HIT!`, type: 'success' });
+        this.scene.events.emit('power-up-attack-landed', { id: definition.id, isPlayer: targetIsPlayer });
+    }
+
+    private applyAttack(primitive: PowerUpPrimitive, definition: IPowerUpDefinition, targetIsPlayer: boolean): void {
+        const target = this.options.getTarget(targetIsPlayer);
+        const duration = definition.duration ?? 0;
+
+        switch (primitive.type) {
+            case 'junk-rows':
+                this.options.rowSpawnSystem.pushJunkRows(targetIsPlayer, primitive.rows);
+                break;
+            case 'ink':
+            case 'jam':
+                this.startEffect(primitive, targetIsPlayer, duration);
+                break;
+            case 'color-swap': {
+                if (!target) {
+                    break;
+                }
+                const rng = RandomService.getInstance().stream('powerUps');
+                const colors = this.options.getBoardColors();
+                const loaded = target.getLoadedColor();
+                target.restoreQueue(
+                    loaded !== null ? swapQueueColors([loaded], colors, rng)[0] : null,
+                    swapQueueColors(target.getQueueColors(), colors, rng)
+                );
+                break;
+            }
+            default:
+                break;
+        }
+    }
+
+    /**
+     * A timed attack on a side - a second one restarts the clock rather than stacking
+     */
+    private startEffect(primitive: TimedAttack, targetIsPlayer: boolean, duration: number): void {
+        const target = this.options.getTarget(targetIsPlayer);
+        const key = `${primitive.type}-${targetIsPlayer ? 'player' : 'opponent'}`;
+        this.effectTimers.get(key)?.timer.destroy();
+
+        let end: () => void;
+        if (primitive.type === 'ink') {
+            target?.setInked(true);
+            end = () => target?.setInked(false);
+        } else {
+            target?.setCooldownMultiplier(primitive.factor);
+            end = () => target?.setCooldownMultiplier(1);
+        }
+
+        const timer = this.scene.time.delayedCall(duration, () => {
+            this.effectTimers.delete(key);
+            end();
+        });
+        this.effectTimers.set(key, { timer, primitive, isPlayer: targetIsPlayer, end });
+    }
+
+    /**
+     * Ink and jam still wearing off on a side, for a snapshot
+     */
+    public getActiveEffects(isPlayer: boolean): IAttackEffectSnapshot[] {
+        return [...this.effectTimers.values()]
+            .filter(effect => effect.isPlayer === isPlayer)
+            .map(effect => ({ primitive: effect.primitive, remaining: effect.timer.getRemaining() }));
+    }
+
+    /**
+     * Put a side's ink and jam back as a snapshot had them - whatever is on it now wears off first
+     */
+    public restoreEffects(isPlayer: boolean, effects: IAttackEffectSnapshot[]): void {
+        this.effectTimers.forEach((effect, key) => {
+            if (effect.isPlayer === isPlayer) {
+                effect.timer.destroy();
+                this.effectTimers.delete(key);
+                effect.end();
+            }
+        });
+        effects.forEach(effect => this.startEffect(effect.primitive, isPlayer, effect.remaining));
+    }
+
+    public destroy(): void {
+        this.scene.events.off('power-up-attack', this.onPowerUpAttack);
+        this.pendingAttacks.forEach(timer => timer.destroy());
+        this.pendingAttacks.clear();
+        this.effectTimers.forEach(effect => effect.timer.destroy());
+        this.effectTimers.clear();
+    }
+}
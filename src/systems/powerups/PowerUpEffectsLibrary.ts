@@ -1,10 +1,28 @@
 import { Scene } from 'phaser';
-import { PowerUpType } from './PowerUpManager';
 import { AimingMode, AimingModeSystem } from './AimingModeSystem';
+import { PowerUpLoader } from './PowerUpLoader';
 import { Launcher } from '@/gameObjects/Launcher';
-import { Bubble } from '@/gameObjects/Bubble';
 import { BubbleGrid } from '@/systems/gameplay/BubbleGrid';
-import { Z_LAYERS } from '@/config/ArenaConfig';
+import { GridAttachmentSystem } from '@/systems/gameplay/GridAttachmentSystem';
+import { LevelLoader } from '@/systems/levels/LevelLoader';
+import { BUBBLE_CONFIG, Z_LAYERS } from '@/config/ArenaConfig';
+import { GameEvents, GameEventBus } from '@/core/EventBus';
+import {
+    findCellsInRadius,
+    findCellsInRow,
+    findChainCells,
+    IPowerUpCell,
+    POWER_UP_RULES,
+    touchesObjective
+} from '@/core/rules/PowerUpRules';
+import { BubbleColor, IHexPosition, IPixelPosition } from '@/types/ArenaTypes';
+import {
+    ATTACK_PRIMITIVES,
+    IPowerUpDefinition,
+    IPowerUpStrike,
+    PowerUpId,
+    PowerUpPrimitive
+} from '@/types/PowerUpTypes';
 
 export interface PowerUpContext {
     scene: Scene;
@@ -12,780 +30,323 @@ export interface PowerUpContext {
     opponentLauncher?: Launcher;
     aimingMode: AimingModeSystem;
     bubbleGrid: BubbleGrid;
+    gridAttachmentSystem?: GridAttachmentSystem;
     targetMode?: 'bubbles' | 'castle';
     shotsRemaining?: number;
+    isPlayer?: boolean; // Side that activated it - false for the remote player (default true)
 }
 
 export interface IPowerUpEffect {
-    type: PowerUpType;
+    type: PowerUpId;
     activate(context: PowerUpContext): void;
+    restore?(context: PowerUpContext, shots?: number): void; // Back from a snapshot, with nothing re-run
     deactivate?(context: PowerUpContext): void;
     update?(context: PowerUpContext, delta: number): void;
+    strikeAt?(context: PowerUpContext, landing: IShotLanding): void; // Board primitives with no shot spent
+    isPending?(): boolean; // Still waiting on its shots
+    isAttack?(): boolean; // Only hits the other side - the power-up armed here stays armed
+    getShotsLeft?(): number;
 }
 
 /**
- * Rainbow Power-Up: Next bubble matches any color
+ * Where a shot came to rest - ShootingSystem's 'shot-landed' event
  */
-export class RainbowEffect implements IPowerUpEffect {
-    type = PowerUpType.RAINBOW;
-    private rainbowBubble?: Bubble;
-    private visualElements: any[] = [];
-    
-    activate(context: PowerUpContext): void {
-        // Set aiming mode to rainbow
-        context.aimingMode.setMode(AimingMode.RAINBOW, this.type);
-        
-        // Visual feedback
-        const rainbowText = context.scene.add.text(
-            context.scene.cameras.main.centerX,
-            context.scene.cameras.main.centerY,
-            '🌈 RAINBOW BUBBLE!',
-            {
-                fontSize: '28px',
-                fontFamily: 'Arial Black',
-                color: '#FF69B4',
-                stroke: '#000000',
-                strokeThickness: 3
-            }
-        );
-        rainbowText.setOrigin(0.5);
-        rainbowText.setDepth(1000);
-        
-        // Animate text
-        context.scene.tweens.add({
-            targets: rainbowText,
-            scale: { from: 0, to: 1.2 },
-            alpha: { from: 1, to: 0 },
-            y: rainbowText.y - 50,
-            duration: 1500,
-            ease: 'Power2',
-            onComplete: () => rainbowText.destroy()
-        });
-        
-        // Single shot power-up
-        context.shotsRemaining = 1;
-    }
-    
-    private applyRainbowEffect(bubble: Bubble): void {
-        // Create rainbow shimmer
-        const shimmer = bubble.scene.add.graphics();
-        shimmer.setDepth(bubble.depth + 1);
-        
-        // Animated rainbow effect
-        bubble.scene.time.addEvent({
-            delay: 100,
-            callback: () => {
-                if (!bubble || !bubble.scene) return;
-                
-                shimmer.clear();
-                const time = Date.now() * 0.001;
-                const colors = [0xFF0000, 0xFFFF00, 0x00FF00, 0x00FFFF, 0x0000FF, 0xFF00FF];
-                const segments = 6;
-                
-                for (let i = 0; i < segments; i++) {
-                    const angle = (i / segments) * Math.PI * 2;
-                    const nextAngle = ((i + 1) / segments) * Math.PI * 2;
-                    const colorIndex = Math.floor((time + i) % colors.length);
-                    
-                    shimmer.lineStyle(2, colors[colorIndex], 0.8);
-                    shimmer.beginPath();
-                    shimmer.arc(bubble.x, bubble.y, 18, angle, nextAngle);
-                    shimmer.strokePath();
-                }
-            },
-            loop: true
-        });
-        
-        // Store shimmer reference for cleanup
-        // bubble.setData('rainbowShimmer', shimmer);
-    }
-    
-    deactivate(context: PowerUpContext): void {
-        // Clean up rainbow effect
-        if (this.rainbowBubble) {
-            const shimmer = this.rainbowBubble.getData('rainbowShimmer');
-            if (shimmer) {
-                shimmer.destroy();
-            }
-            // this.rainbowBubble.setData('isRainbow', false);
-        }
-        
-        // Reset aiming mode
-        context.aimingMode.setMode(AimingMode.NORMAL);
-    }
+export interface IShotLanding extends IPixelPosition {
+    position: IHexPosition;
+    color: BubbleColor;
+    isPlayer: boolean;
 }
 
+// Primitives that land where the shot does - the rest take effect on activation
+const BOARD_PRIMITIVES: ReadonlyArray<PowerUpPrimitive['type']> = ['area-clear', 'line-clear', 'color-convert', 'chain'];
+
 /**
- * Laser Sight Power-Up: Extended trajectory preview
+ * A catalogue power-up: aims the way its entry says and runs its effect primitives
  */
-export class LaserSightEffect implements IPowerUpEffect {
-    type = PowerUpType.LASER;
-    private remainingShots: number = 5;
-    private visualElements: any[] = [];
+export class CatalogueEffect implements IPowerUpEffect {
+    readonly type: PowerUpId;
+    private definition: IPowerUpDefinition;
+    private context?: PowerUpContext;
+    private shotsLeft: number = 0;
+    private raiseTimer?: Phaser.Time.TimerEvent; // SHIELD barrier shown while it goes up
+    private slowdown?: {
+        timer: Phaser.Time.TimerEvent;
+        tint: Phaser.GameObjects.Rectangle;
+        timeScale: number; // Clock and tween speeds to go back to - a replay runs faster than 1
+        tweensTimeScale: number;
+    };
     
-    activate(context: PowerUpContext): void {
-        // Set laser aiming mode
-        context.aimingMode.setMode(AimingMode.LASER, this.type);
-        
-        // 5 shots with enhanced aiming
-        this.remainingShots = 5;
-        context.shotsRemaining = 5;
-        
-        // Add UI indicator for remaining shots
-        this.createShotCounter(context);
+    constructor(definition: IPowerUpDefinition) {
+        this.definition = definition;
+        this.type = definition.id;
     }
     
-    private createShotCounter(context: PowerUpContext): void {
-        const counter = context.scene.add.container(100, 100);
-        counter.setDepth(Z_LAYERS.UI + 10);
-        
-        // Background
-        const bg = context.scene.add.graphics();
-        bg.fillStyle(0x000000, 0.7);
-        bg.fillRoundedRect(-40, -20, 80, 40, 10);
-        counter.add(bg);
-        
-        // Text
-        const text = context.scene.add.text(0, 0, `🎯 ${this.remainingShots}`, {
-            fontSize: '20px',
-            fontFamily: 'Arial Black',
-            color: '#FF0000'
-        });
-        text.setOrigin(0.5);
-        counter.add(text);
+    activate(context: PowerUpContext): void {
+        if (this.isAttack()) {
+            // PowerUpAttackSystem lands it on the other side after their counter-window - nothing to aim or fire
+            context.scene.events.emit('power-up-attack', { id: this.definition.id, isPlayer: this.isPlayer(context) });
+            return;
+        }
+
+        this.context = context;
+        this.setAim(context);
+        context.shotsRemaining = this.definition.shots ?? 1;
         
-        // Store reference
-        // context.launcher.setData('laserCounter', counter);
-        // context.launcher.setData('laserCounterText', text);
-    }
-    
-    update(context: PowerUpContext, delta: number): void {
-        // Update shot counter
-        const text = context.launcher.getData('laserCounterText') as Phaser.GameObjects.Text;
-        if (text && context.shotsRemaining !== undefined) {
-            text.setText(`🎯 ${context.shotsRemaining}`);
+        this.definition.effects.forEach(primitive => this.applyOnActivation(primitive, context));
+
+        if (this.hasPrimitive('shield')) {
+            // Nothing to aim - the barrier shows while the shield goes up
+            this.stopListening(context);
+            this.shotsLeft = 0;
+            context.shotsRemaining = 0;
+            this.raiseTimer = context.scene.time.delayedCall(
+                POWER_UP_RULES.SHIELD_RAISE_TIME,
+                () => this.stopShots(context)
+            );
+            return;
         }
+        this.armShots(context, context.shotsRemaining);
+    }
+
+    /**
+     * A snapshot's power-up still waiting on its shots: its aim and shots come back
+     * without anything it did on activation running again - all of them when the count was not kept
+     */
+    restore(context: PowerUpContext, shots?: number): void {
+        this.context = context;
+        this.setAim(context);
+        this.armShots(context, shots ?? this.definition.shots ?? 1);
     }
     
     deactivate(context: PowerUpContext): void {
-        // Clean up UI
-        const counter = context.launcher.getData('laserCounter');
-        if (counter) {
-            counter.destroy();
-        }
-        
-        // Reset aiming
-        context.aimingMode.setMode(AimingMode.NORMAL);
+        // A shield charge is left for ResetSystem; a slowdown must not outlive the effect
+        this.stopShots(context);
+        this.endSlowdown(context.scene);
     }
-}
 
-/**
- * Bomb Power-Up: Explosion or castle attack
- */
-export class BombEffect implements IPowerUpEffect {
-    type = PowerUpType.BOMB;
-    private targetMode: 'bubbles' | 'castle' = 'bubbles';
-    private visualElements: any[] = [];
-    
-    activate(context: PowerUpContext): void {
-        // Check target mode
-        this.targetMode = context.targetMode || 'bubbles';
-        
-        if (this.targetMode === 'castle' && context.opponentLauncher) {
-            // Ballistic mode for castle attack
-            context.aimingMode.setMode(AimingMode.BOMB_BALLISTIC, this.type);
-            this.prepareBallistic(context);
-        } else {
-            // Normal bomb mode
-            context.aimingMode.setMode(AimingMode.BOMB_NORMAL, this.type);
-            this.prepareNormalBomb(context);
-        }
-        
-        context.shotsRemaining = 1;
+    isPending(): boolean {
+        return this.shotsLeft > 0;
     }
-    
-    private prepareNormalBomb(context: PowerUpContext): void {
-        // Create AAA bomb ready effect with particles
-        const x = context.launcher.x;
-        const y = context.launcher.y;
-        
-        // Create glowing orb effect
-        const bombGlow = context.scene.add.graphics();
-        bombGlow.setDepth(999);
-        this.visualElements.push(bombGlow);
-        
-        // Animated glow rings
-        let glowRadius = 0;
-        const glowTimer = context.scene.time.addEvent({
-            delay: 50,
-            callback: () => {
-                bombGlow.clear();
-                
-                // Multiple rings for depth
-                for (let i = 0; i < 3; i++) {
-                    const radius = (glowRadius + i * 15) % 60;
-                    const alpha = Math.max(0, 1 - radius / 60);
-                    bombGlow.lineStyle(3, 0xFF4500, alpha * 0.5);
-                    bombGlow.strokeCircle(x, y - 30, radius);
-                }
-                
-                glowRadius = (glowRadius + 2) % 60;
-            },
-            loop: true
-        });
-        
-        // Create spark particles using circles instead of textures
-        const sparkContainer = context.scene.add.container(x, y - 30);
-        sparkContainer.setDepth(1000);
-        this.visualElements.push(sparkContainer);
-        
-        // Animated sparks
-        const sparkTimer = context.scene.time.addEvent({
-            delay: 100,
-            callback: () => {
-                for (let i = 0; i < 2; i++) {
-                    const spark = context.scene.add.circle(
-                        0, 0, 
-                        Phaser.Math.Between(2, 4),
-                        Phaser.Math.RND.pick([0xFF4500, 0xFF6500, 0xFFAA00])
-                    );
-                    spark.setBlendMode(Phaser.BlendModes.ADD);
-                    sparkContainer.add(spark);
-                    
-                    const angle = Phaser.Math.Between(-110, -70) * Math.PI / 180;
-                    const speed = Phaser.Math.Between(100, 200);
-                    const vx = Math.cos(angle) * speed;
-                    const vy = Math.sin(angle) * speed;
-                    
-                    context.scene.tweens.add({
-                        targets: spark,
-                        x: spark.x + vx * 0.6,
-                        y: spark.y + vy * 0.6,
-                        scale: { from: 1, to: 0 },
-                        alpha: { from: 1, to: 0 },
-                        duration: 600,
-                        ease: 'Sine.easeOut',
-                        onComplete: () => spark.destroy()
-                    });
-                }
-            },
-            loop: true
-        });
-        (this as any).sparkTimer = sparkTimer;
-        
-        // Explosive core visualization
-        const bombCore = context.scene.add.circle(x, y - 30, 8, 0xFF4500);
-        bombCore.setDepth(1001);
-        this.visualElements.push(bombCore);
-        
-        // Pulsing core
-        context.scene.tweens.add({
-            targets: bombCore,
-            scale: { from: 0.8, to: 1.3 },
-            alpha: { from: 1, to: 0.6 },
-            duration: 400,
-            yoyo: true,
-            repeat: -1,
-            ease: 'Sine.easeInOut'
-        });
-        
-        // Text with better styling
-        const bombText = context.scene.add.text(x, y - 60, 'BOMB ARMED', {
-            fontSize: '14px',
-            fontFamily: 'Arial Black',
-            color: '#FFFFFF',
-            stroke: '#FF4500',
-            strokeThickness: 4,
-            shadow: {
-                offsetX: 2,
-                offsetY: 2,
-                color: '#000000',
-                blur: 4,
-                fill: true
-            }
-        });
-        bombText.setOrigin(0.5);
-        bombText.setDepth(1002);
-        this.visualElements.push(bombText);
-        
-        // Flash effect
-        context.scene.tweens.add({
-            targets: bombText,
-            alpha: { from: 0, to: 1 },
-            scale: { from: 1.5, to: 1 },
-            duration: 300,
-            ease: 'Back.easeOut'
-        });
-        
-        // Store timer for cleanup
-        (this as any).glowTimer = glowTimer;
+
+    getShotsLeft(): number {
+        return this.shotsLeft;
     }
-    
-    private prepareBallistic(context: PowerUpContext): void {
-        // Set launcher to ballistic mode
-        // context.launcher.setData('ballisticMode', true);
-        
-        if (context.opponentLauncher) {
-            // context.launcher.setData('ballisticTarget', {
-            //     x: context.opponentLauncher.x,
-            //     y: context.opponentLauncher.y
-            // });
-        }
+
+    isAttack(): boolean {
+        return this.definition.effects.some(primitive => ATTACK_PRIMITIVES.includes(primitive.type));
     }
-    
-    // Removed unused method - visual feedback handled differently
-    
-    private explodeAt(x: number, y: number, context: PowerUpContext): void {
-        const radius = 120;
-        
-        // AAA Explosion Effects
-        // 1. Shockwave ring
-        const shockwave = context.scene.add.graphics();
-        shockwave.setDepth(Z_LAYERS.BUBBLES_FRONT - 1);
-        
-        let shockRadius = 0;
-        const shockTimer = context.scene.time.addEvent({
-            delay: 20,
-            callback: () => {
-                shockwave.clear();
-                if (shockRadius < radius * 2) {
-                    const alpha = Math.max(0, 1 - shockRadius / (radius * 2));
-                    shockwave.lineStyle(4, 0xFFFFFF, alpha);
-                    shockwave.strokeCircle(x, y, shockRadius);
-                    shockwave.lineStyle(8, 0xFF4500, alpha * 0.5);
-                    shockwave.strokeCircle(x, y, shockRadius * 0.9);
-                    shockRadius += 8;
-                } else {
-                    shockTimer.destroy();
-                    shockwave.destroy();
-                }
-            },
-            loop: true
-        });
-        
-        // 2. Core flash
-        const flash = context.scene.add.circle(x, y, radius * 0.3, 0xFFFFFF, 1);
-        flash.setDepth(Z_LAYERS.BUBBLES_FRONT);
-        flash.setBlendMode(Phaser.BlendModes.ADD);
-        
-        context.scene.tweens.add({
-            targets: flash,
-            scale: { from: 0, to: 4 },
-            alpha: { from: 1, to: 0 },
-            duration: 300,
-            ease: 'Expo.easeOut',
-            onComplete: () => flash.destroy()
-        });
-        
-        // 3. Fire burst effect with circles
-        const explosionContainer = context.scene.add.container(x, y);
-        explosionContainer.setDepth(Z_LAYERS.BUBBLES_FRONT + 1);
-        
-        // Create explosion particles
-        for (let i = 0; i < 30; i++) {
-            const particle = context.scene.add.circle(
-                0, 0,
-                Phaser.Math.Between(3, 6),
-                Phaser.Math.RND.pick([0xFFFFFF, 0xFF4500, 0xFF6500, 0xFFAA00])
-            );
-            particle.setBlendMode(Phaser.BlendModes.ADD);
-            explosionContainer.add(particle);
-            
-            const angle = Phaser.Math.Between(0, 360) * Math.PI / 180;
-            const speed = Phaser.Math.Between(200, 400);
-            const vx = Math.cos(angle) * speed;
-            const vy = Math.sin(angle) * speed;
-            
-            context.scene.tweens.add({
-                targets: particle,
-                x: vx * 0.8,
-                y: vy * 0.8,
-                scale: { from: 1, to: 0 },
-                alpha: { from: 1, to: 0 },
-                duration: 800,
-                ease: 'Power3',
-                onComplete: () => particle.destroy()
-            });
-        }
-        
-        // 4. Debris effect
-        const debrisContainer = context.scene.add.container(x, y);
-        debrisContainer.setDepth(Z_LAYERS.BUBBLES_FRONT);
-        
-        for (let i = 0; i < 15; i++) {
-            const debris = context.scene.add.rectangle(
-                0, 0,
-                Phaser.Math.Between(4, 8),
-                Phaser.Math.Between(4, 8),
-                Phaser.Math.RND.pick([0xFF4500, 0xFF6500, 0xFFAA00])
-            );
-            debrisContainer.add(debris);
-            
-            const angle = Phaser.Math.Between(-120, -60) * Math.PI / 180;
-            const speed = Phaser.Math.Between(100, 300);
-            const vx = Math.cos(angle) * speed;
-            const vy = Math.sin(angle) * speed;
-            
-            context.scene.tweens.add({
-                targets: debris,
-                x: debris.x + vx,
-                y: debris.y + vy + 400, // Gravity effect
-                scale: { from: 0.3, to: 0.1 },
-                angle: Phaser.Math.Between(0, 360),
-                duration: 1200,
-                ease: 'Quad.easeIn',
-                onComplete: () => debris.destroy()
-            });
-        }
-        
-        // 5. Smoke effect
-        const smokeContainer = context.scene.add.container(x, y);
-        smokeContainer.setDepth(Z_LAYERS.BUBBLES_FRONT - 2);
-        
-        for (let i = 0; i < 8; i++) {
-            const smoke = context.scene.add.circle(
-                Phaser.Math.Between(-10, 10),
-                Phaser.Math.Between(-10, 10),
-                Phaser.Math.Between(20, 30),
-                0x666666
-            );
-            smoke.setAlpha(0.4);
-            smokeContainer.add(smoke);
-            
-            context.scene.tweens.add({
-                targets: smoke,
-                scale: { from: 1, to: 2 },
-                alpha: 0,
-                y: smoke.y - Phaser.Math.Between(20, 50),
-                duration: 1500,
-                ease: 'Sine.easeOut',
-                onComplete: () => smoke.destroy()
-            });
+
+    private setAim(context: PowerUpContext): void {
+        if (this.isPlayer(context)) {
+            // Only the local player's aim changes - a remote activation just plays out
+            context.aimingMode.setMode(this.definition.aimingMode as AimingMode, this.definition.kind);
         }
-        
-        // Enhanced camera effects
-        context.scene.cameras.main.shake(300, 0.02);
-        context.scene.cameras.main.flash(100, 255, 100, 0, true);
-        
-        // Clean up containers
-        context.scene.time.delayedCall(2000, () => {
-            explosionContainer.destroy();
-            debrisContainer.destroy();
-            smokeContainer.destroy();
-        });
-        
-        // Destroy bubbles with chain reaction
-        const bubbles = context.bubbleGrid.getBubblesInRadius(x, y, radius);
-        bubbles.forEach((bubble, index) => {
-            const dist = Phaser.Math.Distance.Between(x, y, bubble.x, bubble.y);
-            const delay = (dist / radius) * 200;
-            
-            context.scene.time.delayedCall(delay, () => {
-                if (bubble && bubble.visible) {
-                    // Mini explosion per bubble
-                    const miniFlash = context.scene.add.circle(bubble.x, bubble.y, 15, 0xFF6500, 0.8);
-                    miniFlash.setDepth(Z_LAYERS.BUBBLES_FRONT);
-                    context.scene.tweens.add({
-                        targets: miniFlash,
-                        scale: { from: 0, to: 1.5 },
-                        alpha: 0,
-                        duration: 200,
-                        ease: 'Cubic.easeOut',
-                        onComplete: () => miniFlash.destroy()
-                    });
-                    
-                    bubble.destroy();
-                }
-            });
-        });
     }
-    
-    deactivate(context: PowerUpContext): void {
-        // Clean up timers if they exist
-        if ((this as any).glowTimer) {
-            (this as any).glowTimer.destroy();
-            (this as any).glowTimer = null;
+
+    /**
+     * Count down the shots it lasts - a board primitive counts them as they land, a MAGNET as
+     * its pull is spent and anything else as they are fired
+     */
+    private armShots(context: PowerUpContext, shots: number): void {
+        this.stopListening(context);
+        this.shotsLeft = shots;
+        context.shotsRemaining = shots;
+        if (shots <= 0) {
+            this.stopShots(context);
+        } else if (this.definition.effects.some(primitive => BOARD_PRIMITIVES.includes(primitive.type))) {
+            context.scene.events.on('shot-landed', this.onShotLanded);
+        } else if (this.hasPrimitive('magnet')) {
+            context.scene.events.on('magnet-spent', this.onMagnetSpent);
+        } else {
+            GameEventBus.getInstance().onTyped('shot-fired', this.onShotFired);
         }
-        if ((this as any).sparkTimer) {
-            (this as any).sparkTimer.destroy();
-            (this as any).sparkTimer = null;
+    }
+
+    /**
+     * Out of shots - a slowdown that came with them keeps running to its end
+     */
+    private stopShots(context: PowerUpContext): void {
+        this.shotsLeft = 0;
+        context.shotsRemaining = 0;
+        this.stopListening(context);
+        if (this.isPlayer(context)) {
+            context.aimingMode.setMode(AimingMode.NORMAL);
         }
-        
-        // Clean up visual elements
-        this.visualElements.forEach(element => {
-            if (element && element.destroy) {
-                element.destroy();
-            }
-        });
-        this.visualElements = [];
-        
-        // Reset aiming mode
-        context.aimingMode.setMode(AimingMode.NORMAL);
     }
-}
 
-/**
- * Lightning Power-Up: Click to destroy bubble
- */
-export class LightningEffect implements IPowerUpEffect {
-    type = PowerUpType.LIGHTNING;
-    private selectionHandler?: Function;
-    private visualElements: any[] = [];
-    
-    activate(context: PowerUpContext): void {
-        // Set selection cursor mode
-        context.aimingMode.setMode(AimingMode.LIGHTNING, this.type);
-        
-        // Visual feedback
-        const lightningText = context.scene.add.text(
-            context.scene.cameras.main.centerX,
-            context.scene.cameras.main.centerY,
-            '⚡ LIGHTNING STRIKE!',
-            {
-                fontSize: '28px',
-                fontFamily: 'Arial Black',
-                color: '#FFFF00',
-                stroke: '#000000',
-                strokeThickness: 3
-            }
-        );
-        lightningText.setOrigin(0.5);
-        lightningText.setDepth(1000);
-        
-        // Animate text
-        context.scene.tweens.add({
-            targets: lightningText,
-            scale: { from: 0, to: 1.2 },
-            alpha: { from: 1, to: 0 },
-            y: lightningText.y - 50,
-            duration: 1500,
-            ease: 'Power2',
-            onComplete: () => lightningText.destroy()
-        });
-        
-        // For now, just show the effect, actual bubble selection will be implemented later
-        context.shotsRemaining = 1;
+    private stopListening(context: PowerUpContext): void {
+        this.raiseTimer?.destroy();
+        this.raiseTimer = undefined;
+        context.scene.events.off('shot-landed', this.onShotLanded);
+        context.scene.events.off('magnet-spent', this.onMagnetSpent);
+        GameEventBus.getInstance().offTyped('shot-fired', this.onShotFired);
     }
-    
-    private destroyWithLightning(bubble: Bubble, context: PowerUpContext): void {
-        // Lightning strike visual
-        const lightning = context.scene.add.graphics();
-        lightning.setDepth(Z_LAYERS.BUBBLES_FRONT + 10);
-        
-        // Draw lightning bolt from top
-        lightning.lineStyle(4, 0xFFFF00, 1);
-        lightning.beginPath();
-        
-        const startY = 0;
-        const segments = 5;
-        let currentX = bubble.x;
-        let currentY = startY;
-        
-        for (let i = 0; i < segments; i++) {
-            const nextX = bubble.x + Phaser.Math.Between(-30, 30);
-            const nextY = startY + ((bubble.y - startY) / segments) * (i + 1);
-            
-            lightning.moveTo(currentX, currentY);
-            lightning.lineTo(nextX, nextY);
-            
-            currentX = nextX;
-            currentY = nextY;
+
+    private countShot(context: PowerUpContext): void {
+        this.shotsLeft--;
+        context.shotsRemaining = this.shotsLeft;
+        if (this.shotsLeft <= 0) {
+            this.stopShots(context);
         }
-        
-        lightning.lineTo(bubble.x, bubble.y);
-        lightning.strokePath();
-        
-        // Flash effect
-        context.scene.cameras.main.flash(100, 255, 255, 0);
-        
-        // Destroy bubble
-        bubble.destroy();
-        
-        // Clean up lightning after animation
-        context.scene.tweens.add({
-            targets: lightning,
-            alpha: 0,
-            duration: 200,
-            onComplete: () => lightning.destroy()
-        });
+    }
+
+    private hasPrimitive(type: PowerUpPrimitive['type']): boolean {
+        return this.definition.effects.some(primitive => primitive.type === type);
+    }
+
+    private isPlayer(context: PowerUpContext): boolean {
+        return context.isPlayer ?? true;
     }
     
-    deactivate(context: PowerUpContext): void {
-        if (this.selectionHandler) {
-            context.scene.input.off('pointerdown', this.selectionHandler as any);
+    private applyOnActivation(primitive: PowerUpPrimitive, context: PowerUpContext): void {
+        switch (primitive.type) {
+            case 'time-scale':
+                this.scaleTime(context, primitive.scale, this.definition.duration ?? 0);
+                break;
+            case 'shield':
+                // ResetSystem holds the charge until something breaks it
+                context.scene.events.emit('shield-raised', { isPlayer: this.isPlayer(context) });
+                break;
+            case 'magnet':
+                // ShootingSystem magnetizes the next projectile
+                context.scene.events.emit('magnet-armed', {
+                    isPlayer: this.isPlayer(context),
+                    radius: this.definition.radius
+                });
+                break;
+            default:
+                break;
         }
-        context.aimingMode.setMode(AimingMode.NORMAL);
     }
-}
 
-/**
- * Freeze Power-Up: Stop bubble physics
- */
-export class FreezeEffect implements IPowerUpEffect {
-    type = PowerUpType.FREEZE;
-    private frozenBubbles: Bubble[] = [];
-    private frostOverlay?: Phaser.GameObjects.Graphics;
-    private visualElements: any[] = [];
-    
-    activate(context: PowerUpContext): void {
-        // Set freeze aiming mode
-        context.aimingMode.setMode(AimingMode.FREEZE, this.type);
-        
-        // Freeze all physics (if physics exists)
-        if (context.scene.physics && context.scene.physics.pause) {
-            context.scene.physics.pause();
+    private onShotFired = (data: GameEvents['shot-fired']): void => {
+        const context = this.context;
+        if (context && data.isPlayer === this.isPlayer(context) && this.shotsLeft > 0) {
+            this.countShot(context);
         }
-        
-        // Create frost overlay
-        this.createFrostOverlay(context);
-        
-        // Store frozen bubbles (empty for now, will be implemented later)
-        this.frozenBubbles = [];
-        
-        // Visual feedback for freeze effect
-        const freezeText = context.scene.add.text(
-            context.scene.cameras.main.centerX,
-            context.scene.cameras.main.centerY,
-            'TIME FROZEN!',
-            {
-                fontSize: '32px',
-                fontFamily: 'Arial Black',
-                color: '#00FFFF',
-                stroke: '#003366',
-                strokeThickness: 4
+    };
+
+    private onMagnetSpent = (data: { isPlayer: boolean }): void => {
+        const context = this.context;
+        if (context && data.isPlayer === this.isPlayer(context) && this.shotsLeft > 0) {
+            this.countShot(context);
+        }
+    };
+
+    private onShotLanded = (landing: IShotLanding): void => {
+        const context = this.context;
+        if (!context || landing.isPlayer !== this.isPlayer(context) || this.shotsLeft <= 0) {
+            return;
+        }
+
+        this.strikeAt(context, landing);
+        this.countShot(context);
+    };
+
+    /**
+     * Run the board primitives at a landing - a shot's, or the spot the AI picked for its strike
+     */
+    strikeAt(context: PowerUpContext, landing: IShotLanding): void {
+        const cells = this.getBoardCells(context);
+        const cleared = new Set<IPowerUpCell>();
+        this.definition.effects.forEach(primitive => {
+            switch (primitive.type) {
+                case 'area-clear':
+                    findCellsInRadius(cells, landing, this.definition.radius ?? 0).forEach(cell => cleared.add(cell));
+                    break;
+                case 'line-clear':
+                    findCellsInRow(cells, landing.position.r).forEach(cell => cleared.add(cell));
+                    break;
+                case 'chain':
+                    findChainCells(cells, landing, primitive.jumps).forEach(cell => cleared.add(cell));
+                    break;
+                case 'color-convert': {
+                    const color = primitive.color ? LevelLoader.toBubbleColor(primitive.color) : landing.color;
+                    const converted = findCellsInRadius(cells, landing, this.definition.radius ?? 0)
+                        .filter(cell => cell.color !== color);
+                    context.scene.events.emit('power-up-convert', {
+                        cells: converted.map(cell => ({ q: cell.q, r: cell.r })),
+                        color,
+                        isPlayer: landing.isPlayer
+                    });
+                    break;
+                }
+                default:
+                    break;
             }
-        );
-        freezeText.setOrigin(0.5);
-        freezeText.setDepth(1000);
-        
-        // Animate and remove text
-        context.scene.tweens.add({
-            targets: freezeText,
-            scale: { from: 0, to: 1.5 },
-            alpha: { from: 1, to: 0 },
-            duration: 2000,
-            ease: 'Power2',
-            onComplete: () => freezeText.destroy()
         });
         
-        // Auto-deactivate after 5 seconds
-        context.scene.time.delayedCall(5000, () => {
-            this.deactivate(context);
-        });
-    }
-    
-    private createFrostOverlay(context: PowerUpContext): void {
-        this.frostOverlay = context.scene.add.graphics();
-        this.frostOverlay.setDepth(Z_LAYERS.UI - 1);
-        
-        // Semi-transparent blue overlay
-        this.frostOverlay.fillStyle(0x87CEEB, 0.2);
-        this.frostOverlay.fillRect(
-            0, 0,
-            context.scene.cameras.main.width,
-            context.scene.cameras.main.height
-        );
-        
-        // Add snowflake particles
-        for (let i = 0; i < 20; i++) {
-            const snowflake = context.scene.add.text(
-                Phaser.Math.Between(0, context.scene.cameras.main.width),
-                Phaser.Math.Between(0, context.scene.cameras.main.height),
-                '❄️',
-                { fontSize: '20px' }
-            );
-            snowflake.setDepth(Z_LAYERS.UI);
-            
-            context.scene.tweens.add({
-                targets: snowflake,
-                y: snowflake.y + 100,
-                alpha: { from: 1, to: 0 },
-                duration: 3000,
-                repeat: -1,
-                delay: i * 150
-            });
+        if (cleared.size > 0) {
+            const strike: IPowerUpStrike = {
+                id: this.definition.id,
+                isPlayer: landing.isPlayer,
+                target: { x: landing.x, y: landing.y },
+                radius: this.definition.radius ?? BUBBLE_CONFIG.SIZE,
+                color: PowerUpLoader.toColor(this.definition),
+                cells: [...cleared].map(cell => ({ q: cell.q, r: cell.r }))
+            };
+            context.scene.events.emit('power-up-strike', strike);
             
-            // Store for cleanup
-            // this.frostOverlay.setData(`snowflake_${i}`, snowflake);
+            if (this.definition.objectiveDamage && touchesObjective(strike.cells)) {
+                GameEventBus.getInstance().emit('powerup-hit-objective', {
+                    type: this.definition.kind,
+                    damage: this.definition.objectiveDamage
+                });
+            }
         }
     }
     
-    deactivate(context: PowerUpContext): void {
-        // Resume physics
-        if (context.scene.physics && context.scene.physics.resume) {
-            context.scene.physics.resume();
-        }
-        
-        // Remove tint from bubbles
-        this.frozenBubbles.forEach(bubble => {
-            if (bubble && bubble.scene) {
-                bubble.clearTint();
+    private getBoardCells(context: PowerUpContext): IPowerUpCell[] {
+        const cells: IPowerUpCell[] = [];
+        context.gridAttachmentSystem?.getGridBubbles().forEach(bubble => {
+            const position = bubble.visible ? bubble.getGridPosition() : null;
+            if (position) {
+                cells.push({ q: position.q, r: position.r, x: bubble.x, y: bubble.y, color: bubble.getColor() });
             }
         });
-        
-        // Clean up overlay
-        if (this.frostOverlay) {
-            // Clean up snowflakes
-            for (let i = 0; i < 20; i++) {
-                const snowflake = this.frostOverlay.getData(`snowflake_${i}`);
-                if (snowflake) {
-                    snowflake.destroy();
-                }
-            }
-            this.frostOverlay.destroy();
-        }
-        
-        // Reset aiming
-        context.aimingMode.setMode(AimingMode.NORMAL);
+        return cells;
     }
-}
-
-/**
- * Multi-Shot Power-Up: Shoot 3 bubbles in spread
- */
-export class MultiShotEffect implements IPowerUpEffect {
-    type = PowerUpType.MULTIPLIER; // Using as placeholder for MULTI_SHOT
-    private visualElements: any[] = [];
     
-    activate(context: PowerUpContext): void {
-        // Set multi-shot aiming mode
-        context.aimingMode.setMode(AimingMode.MULTI, this.type);
-        
-        // Visual feedback
-        const multiText = context.scene.add.text(
-            context.scene.cameras.main.centerX,
-            context.scene.cameras.main.centerY,
-            '✨ MULTI-SHOT!',
-            {
-                fontSize: '28px',
-                fontFamily: 'Arial Black',
-                color: '#FFD700',
-                stroke: '#000000',
-                strokeThickness: 3
-            }
+    /**
+     * Run the arena's clocks and tweens at scale of their current speed for duration ms of match time
+     */
+    private scaleTime(context: PowerUpContext, scale: number, duration: number): void {
+        const scene = context.scene;
+        this.endSlowdown(scene);
+        const timeScale = scene.time.timeScale;
+        const tweensTimeScale = scene.tweens.timeScale;
+        scene.time.timeScale = timeScale * scale;
+        scene.tweens.timeScale = tweensTimeScale * scale;
+        
+        const tint = scene.add.rectangle(
+            scene.cameras.main.centerX,
+            scene.cameras.main.centerY,
+            scene.cameras.main.width,
+            scene.cameras.main.height,
+            PowerUpLoader.toColor(this.definition),
+            0.12
         );
-        multiText.setOrigin(0.5);
-        multiText.setDepth(1000);
+        tint.setDepth(Z_LAYERS.UI - 2);
         
-        // Animate text
-        context.scene.tweens.add({
-            targets: multiText,
-            scale: { from: 0, to: 1.2 },
-            alpha: { from: 1, to: 0 },
-            y: multiText.y - 50,
-            duration: 1500,
-            ease: 'Power2',
-            onComplete: () => multiText.destroy()
-        });
-        
-        context.shotsRemaining = 1;
+        // Scene timers run at the new scale too
+        const timer = scene.time.delayedCall(duration * scale, () => this.endSlowdown(scene));
+        this.slowdown = { timer, tint, timeScale, tweensTimeScale };
     }
-    
-    deactivate?(context: PowerUpContext): void {
-        // Reset aiming mode
-        if (context.aimingMode) {
-            context.aimingMode.setMode(AimingMode.NORMAL);
+
+    /**
+     * Back to the speed before the slowdown - the clock keeps its time scale across a scene
+     * restart, so this also has to run when the effect is torn down early
+     */
+    private endSlowdown(scene: Scene): void {
+        if (!this.slowdown) {
+            return;
         }
+        const { timer, tint, timeScale, tweensTimeScale } = this.slowdown;
+        this.slowdown = undefined;
+        timer.destroy();
+        tint.destroy();
+        scene.time.timeScale = timeScale;
+        scene.tweens.timeScale = tweensTimeScale;
     }
 }
 
@@ -793,27 +354,22 @@ export class MultiShotEffect implements IPowerUpEffect {
  * Factory for creating power-up effects
  */
 export class PowerUpEffectFactory {
-    private effects: Map<PowerUpType, IPowerUpEffect> = new Map();
+    private effects: Map<PowerUpId, IPowerUpEffect> = new Map();
     
-    constructor() {
-        // Register all effects
-        this.registerEffect(new RainbowEffect());
-        this.registerEffect(new LaserSightEffect());
-        this.registerEffect(new BombEffect());
-        this.registerEffect(new LightningEffect());
-        this.registerEffect(new FreezeEffect());
-        this.registerEffect(new MultiShotEffect());
+    constructor(definitions: ReadonlyArray<IPowerUpDefinition>) {
+        // One effect per catalogue entry
+        definitions.forEach(definition => this.registerEffect(new CatalogueEffect(definition)));
     }
     
     private registerEffect(effect: IPowerUpEffect): void {
         this.effects.set(effect.type, effect);
     }
     
-    public getEffect(type: PowerUpType): IPowerUpEffect | undefined {
+    public getEffect(type: PowerUpId): IPowerUpEffect | undefined {
         return this.effects.get(type);
     }
     
     public getAllEffects(): IPowerUpEffect[] {
         return Array.from(this.effects.values());
     }
-}
\ No newline at end of file
+}
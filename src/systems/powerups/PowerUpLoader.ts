@@ -0,0 +1,210 @@
+/**
+ * PowerUpLoader - Validates power-up catalogue files and rolls from their weights
+ * Like level files, an invalid entry is reported in full and left out rather
+ * than breaking the game.
+ */
+
+import { RandomStream } from '@/core/RandomService';
+import { LevelLoader } from '@/systems/levels/LevelLoader';
+import {
+    IPowerUpDefinition,
+    POWER_UP_FORMAT_VERSION,
+    PowerUpPrimitive,
+    PowerUpPrimitiveType,
+    PowerUpType
+} from '@/types/PowerUpTypes';
+import { AimingMode } from './AimingModeSystem';
+import { PowerUpConfig } from './PowerUpManager';
+
+const PRIMITIVE_TYPES: ReadonlyArray<PowerUpPrimitiveType> = [
+    'area-clear',
+    'line-clear',
+    'color-convert',
+    'chain',
+    'time-scale',
+    'shield',
+    'magnet',
+    'junk-rows',
+    'ink',
+    'color-swap',
+    'jam'
+];
+
+export class PowerUpLoader {
+    /**
+     * Parse and validate a catalogue entry - returns null and logs the problems if it is invalid
+     */
+    public static parse(data: unknown, source: string = 'power-up'): IPowerUpDefinition | null {
+        const errors = PowerUpLoader.validate(data);
+        if (errors.length > 0) {
+            console.warn(`PowerUpLoader: ${source} is invalid:\n  ${errors.join('\n  ')}`);
+            return null;
+        }
+        return data as IPowerUpDefinition;
+    }
+
+    /**
+     * Every problem with a catalogue entry, so designers can fix them in one go
+     */
+    public static validate(data: unknown): string[] {
+        if (!data || typeof data !== 'object' || Array.isArray(data)) {
+            return ['power-up must be an object'];
+        }
+
+        const definition = data as Partial<IPowerUpDefinition>;
+        const errors: string[] = [];
+
+        if (definition.version !== POWER_UP_FORMAT_VERSION) {
+            errors.push(`version must be ${POWER_UP_FORMAT_VERSION}`);
+        }
+        if (typeof definition.id !== 'string' || !/^[a-z0-9-]+$/.test(definition.id)) {
+            errors.push('id must be lowercase letters, digits and dashes');
+        }
+        if (!Object.values(PowerUpType).includes(definition.kind as PowerUpType)) {
+            errors.push(`kind must be one of ${Object.values(PowerUpType).join(', ')}`);
+        }
+        if (typeof definition.name !== 'string' || definition.name.length === 0) {
+            errors.push('name must be a non-empty string');
+        }
+        if (typeof definition.description !== 'string') {
+            errors.push('description must be a string');
+        }
+        if (typeof definition.icon !== 'string' || definition.icon.length === 0) {
+            errors.push('icon must be a non-empty string');
+        }
+        if (typeof definition.color !== 'string' || !/^#[0-9a-fA-F]{6}$/.test(definition.color)) {
+            errors.push('color must be a #RRGGBB string');
+        }
+        if (!(typeof definition.weight === 'number' && definition.weight >= 0)) {
+            errors.push('weight must be zero or more');
+        }
+        if (definition.unlockStars !== undefined &&
+            !(Number.isInteger(definition.unlockStars) && definition.unlockStars >= 0)) {
+            errors.push('unlockStars must be a whole number, zero or more');
+        }
+        if (!Object.values(AimingMode).includes(definition.aimingMode as AimingMode)) {
+            errors.push(`aimingMode must be one of ${Object.values(AimingMode).join(', ')}`);
+        }
+
+        if (definition.shots !== undefined && !(Number.isInteger(definition.shots) && definition.shots > 0)) {
+            errors.push('shots must be a positive whole number');
+        }
+        PowerUpLoader.checkPositive(definition.radius, 'radius', errors);
+        PowerUpLoader.checkPositive(definition.duration, 'duration', errors);
+        PowerUpLoader.checkPositive(definition.objectiveDamage, 'objectiveDamage', errors);
+
+        if (!Array.isArray(definition.effects)) {
+            errors.push('effects must be a list');
+        } else {
+            definition.effects.forEach((primitive, index) =>
+                PowerUpLoader.checkPrimitive(primitive, definition, `effects[${index}]`, errors)
+            );
+        }
+
+        return errors;
+    }
+
+    public static toColor(definition: IPowerUpDefinition): number {
+        return parseInt(definition.color.slice(1), 16);
+    }
+
+    /**
+     * PowerUpManager stats for a catalogue entry
+     */
+    public static toConfig(definition: IPowerUpDefinition): PowerUpConfig {
+        return {
+            type: definition.kind,
+            name: definition.name,
+            description: definition.description,
+            icon: definition.icon,
+            color: PowerUpLoader.toColor(definition),
+            weight: definition.weight,
+            duration: definition.duration,
+            radius: definition.radius,
+            power: definition.objectiveDamage
+        };
+    }
+
+    /**
+     * Weighted roll over the catalogue - null when nothing can roll
+     */
+    public static pickWeighted(
+        definitions: ReadonlyArray<IPowerUpDefinition>,
+        rng: RandomStream
+    ): IPowerUpDefinition | null {
+        const total = definitions.reduce((sum, definition) => sum + definition.weight, 0);
+        if (total <= 0) {
+            return null;
+        }
+
+        let roll = rng.next() * total;
+        for (const definition of definitions) {
+            roll -= definition.weight;
+            if (roll < 0 && definition.weight > 0) {
+                return definition;
+            }
+        }
+        // Float rounding on the last step
+        return [...definitions].reverse().find(definition => definition.weight > 0) ?? null;
+    }
+
+    private static checkPositive(value: unknown, field: string, errors: string[]): void {
+        if (value !== undefined && !(typeof value === 'number' && value > 0)) {
+            errors.push(`${field} must be a positive number`);
+        }
+    }
+
+    private static checkPrimitive(
+        primitive: PowerUpPrimitive,
+        definition: Partial<IPowerUpDefinition>,
+        path: string,
+        errors: string[]
+    ): void {
+        if (!primitive || typeof primitive !== 'object' || !PRIMITIVE_TYPES.includes(primitive.type)) {
+            errors.push(`${path}: type must be one of ${PRIMITIVE_TYPES.join(', ')}`);
+            return;
+        }
+
+        switch (primitive.type) {
+            case 'area-clear':
+            case 'color-convert':
+                if (definition.radius === undefined) {
+                    errors.push(`${path}: ${primitive.type} needs the power-up's radius`);
+                }
+                if (primitive.type === 'color-convert' && primitive.color !== undefined &&
+                    LevelLoader.toBubbleColor(primitive.color) === undefined) {
+                    errors.push(`${path}: unknown color "${String(primitive.color)}"`);
+                }
+                break;
+            case 'chain':
+                if (!(Number.isInteger(primitive.jumps) && primitive.jumps > 0)) {
+                    errors.push(`${path}: jumps must be a positive whole number`);
+                }
+                break;
+            case 'time-scale':
+                if (!(typeof primitive.scale === 'number' && primitive.scale > 0)) {
+                    errors.push(`${path}: scale must be a positive number`);
+                }
+                if (definition.duration === undefined) {
+                    errors.push(`${path}: time-scale needs the power-up's duration`);
+                }
+                break;
+            case 'junk-rows':
+                if (!(Number.isInteger(primitive.rows) && primitive.rows > 0)) {
+                    errors.push(`${path}: rows must be a positive whole number`);
+                }
+                break;
+            case 'ink':
+            case 'jam':
+                if (primitive.type === 'jam' && !(typeof primitive.factor === 'number' && primitive.factor > 1)) {
+                    errors.push(`${path}: factor must be a number above 1`);
+                }
+                if (definition.duration === undefined) {
+                    errors.push(`${path}: ${primitive.type} needs the power-up's duration`);
+                }
+                break;
+            default:
+                break;
+        }
+    }
+}
@@ -1,17 +1,10 @@
 import { Scene } from 'phaser';
 import { ScoreEventManager, ScoreEventType } from '../scoring/ScoreEventManager';
+import { IPowerUpDefinition, PowerUpType } from '@/types/PowerUpTypes';
+import { PowerUpLoader } from './PowerUpLoader';
 
-// Power-up types
-export enum PowerUpType {
-    BOMB = 'bomb',           // Explodes in area
-    LASER = 'laser',         // Destroys entire line
-    RAINBOW = 'rainbow',     // Matches any color
-    MULTIPLIER = 'multiplier', // Score multiplier
-    FREEZE = 'freeze',       // Slows down time
-    LIGHTNING = 'lightning', // Chain reaction
-    MAGNET = 'magnet',      // Attracts bubbles
-    SHIELD = 'shield'       // Protection from danger
-}
+// Power-up kinds live with the catalogue types
+export { PowerUpType };
 
 // Power-up configuration
 export interface PowerUpConfig {
@@ -20,7 +13,7 @@ export interface PowerUpConfig {
     description: string;
     icon: string;
     color: number;
-    rarity: number; // 1-5 (common to legendary)
+    weight: number; // Mystery roll weight - higher is more common
     duration?: number; // For time-based power-ups
     radius?: number; // For area effects
     power?: number; // Effect strength
@@ -54,89 +47,19 @@ export class PowerUpManager {
     private effects: Map<PowerUpType, IPowerUpEffect> = new Map();
     private activePowerUps: PowerUp[] = [];
     
-    // Power-up configurations
-    private readonly POWER_UP_CONFIGS: Map<PowerUpType, PowerUpConfig> = new Map([
-        [PowerUpType.BOMB, {
-            type: PowerUpType.BOMB,
-            name: 'Bomb',
-            description: 'Explodes bubbles in area',
-            icon: '💣',
-            color: 0xFF4500,
-            rarity: 2,
-            radius: 100,
-            power: 3
-        }],
-        [PowerUpType.LASER, {
-            type: PowerUpType.LASER,
-            name: 'Laser',
-            description: 'Destroys entire line',
-            icon: '⚡',
-            color: 0x00FFFF,
-            rarity: 3,
-            power: 5
-        }],
-        [PowerUpType.RAINBOW, {
-            type: PowerUpType.RAINBOW,
-            name: 'Rainbow',
-            description: 'Matches any color',
-            icon: '🌈',
-            color: 0xFF69B4,
-            rarity: 4,
-            duration: 10000
-        }],
-        [PowerUpType.MULTIPLIER, {
-            type: PowerUpType.MULTIPLIER,
-            name: 'Score x2',
-            description: 'Doubles score for 30 seconds',
-            icon: '✨',
-            color: 0xFFD700,
-            rarity: 3,
-            duration: 30000,
-            power: 2
-        }],
-        [PowerUpType.FREEZE, {
-            type: PowerUpType.FREEZE,
-            name: 'Freeze',
-            description: 'Slows down time',
-            icon: '❄️',
-            color: 0x87CEEB,
-            rarity: 2,
-            duration: 15000,
-            power: 0.5
-        }],
-        [PowerUpType.LIGHTNING, {
-            type: PowerUpType.LIGHTNING,
-            name: 'Lightning',
-            description: 'Chain reaction destruction',
-            icon: '⚡',
-            color: 0xFFFF00,
-            rarity: 5,
-            power: 7
-        }],
-        [PowerUpType.MAGNET, {
-            type: PowerUpType.MAGNET,
-            name: 'Magnet',
-            description: 'Attracts matching bubbles',
-            icon: '🧲',
-            color: 0x808080,
-            rarity: 3,
-            duration: 20000,
-            radius: 150
-        }],
-        [PowerUpType.SHIELD, {
-            type: PowerUpType.SHIELD,
-            name: 'Shield',
-            description: 'Protection from danger',
-            icon: '🛡️',
-            color: 0x4169E1,
-            rarity: 4,
-            duration: 45000
-        }]
-    ]);
+    // Power-up configurations - the built-in entries of the catalogue
+    private readonly POWER_UP_CONFIGS: Map<PowerUpType, PowerUpConfig> = new Map();
     
-    constructor(scene: Scene, scoreEventManager?: ScoreEventManager) {
+    constructor(
+        scene: Scene,
+        scoreEventManager?: ScoreEventManager,
+        definitions: ReadonlyArray<IPowerUpDefinition> = []
+    ) {
         this.scene = scene;
         this.scoreEventManager = scoreEventManager;
+        definitions
+            .filter(definition => definition.id === String(definition.kind))
+            .forEach(definition => this.POWER_UP_CONFIGS.set(definition.kind, PowerUpLoader.toConfig(definition)));
         this.initializeEffects();
     }
     
@@ -199,7 +122,7 @@ export class PowerUpManager {
                 isPlayer: powerUp.owner === 'player',
                 metadata: {
                     powerUpType: powerUp.type,
-                    rarity: powerUp.config.rarity
+                    weight: powerUp.config.weight
                 }
             });
         }
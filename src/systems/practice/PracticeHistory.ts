@@ -0,0 +1,76 @@
+/**
+ * PracticeHistory - Undo stack for practice mode
+ * Snapshots the arena just before every player shot, so undo rewinds the grid,
+ * both launchers' queues and the match state one shot at a time. Only the most
+ * recent LIMIT shots are kept.
+ */
+
+import { GameEventBus, GameEvents } from '@/core/EventBus';
+import { IArenaSnapshot } from '@/types/SnapshotTypes';
+
+/**
+ * The arena as seen by the history - ArenaCoordinator in the game
+ */
+export interface IPracticeArena {
+    exportSnapshot(): IArenaSnapshot;
+    restoreSnapshot(snapshot: IArenaSnapshot): boolean;
+}
+
+export class PracticeHistory {
+    public static readonly LIMIT = 20;
+
+    private arena: IPracticeArena;
+    private eventBus: GameEventBus;
+    private snapshots: IArenaSnapshot[] = [];
+    private isActive: boolean = false;
+
+    constructor(arena: IPracticeArena) {
+        this.arena = arena;
+        this.eventBus = GameEventBus.getInstance();
+    }
+
+    public start(): void {
+        if (this.isActive) {
+            return;
+        }
+        this.isActive = true;
+        this.eventBus.onTyped('shot-fired', this.onShotFired);
+    }
+
+    /**
+     * Stop recording and forget every snapshot
+     */
+    public stop(): void {
+        if (!this.isActive) {
+            return;
+        }
+        this.isActive = false;
+        this.eventBus.offTyped('shot-fired', this.onShotFired);
+        this.snapshots = [];
+    }
+
+    private onShotFired = (data: GameEvents['shot-fired']): void => {
+        if (data.isPlayer) {
+            this.push(this.arena.exportSnapshot());
+        }
+    };
+
+    public push(snapshot: IArenaSnapshot): void {
+        this.snapshots.push(snapshot);
+        if (this.snapshots.length > PracticeHistory.LIMIT) {
+            this.snapshots.shift();
+        }
+    }
+
+    /**
+     * Rewind to just before the last player shot - false when there is nothing to undo
+     */
+    public undo(): boolean {
+        const snapshot = this.snapshots.pop();
+        return snapshot ? this.arena.restoreSnapshot(snapshot) : false;
+    }
+
+    public getSize(): number {
+        return this.snapshots.length;
+    }
+}
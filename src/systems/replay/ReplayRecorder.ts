@@ -0,0 +1,179 @@
+/**
+ * ReplayRecorder - Records a match as a timestamped event log
+ * Subscribes to GameEventBus gameplay events and stores them together with the
+ * match seed and theme, so ReplayScene can rebuild the exact same arena and
+ * feed the recorded shots back through ShootingSystem.
+ */
+
+import { GameEventBus, GameEvents } from '@/core/EventBus';
+import { Bubble } from '@/gameObjects/Bubble';
+import {
+    IReplayEvent,
+    IReplayEventDataMap,
+    IReplayLog,
+    REPLAY_FORMAT_VERSION,
+    ReplayEventType
+} from '@/types/ReplayTypes';
+
+export class ReplayRecorder {
+    private static readonly STORAGE_KEY = 'bubble-battle-replays';
+    private static readonly MAX_STORED_REPLAYS = 5;
+
+    private eventBus: GameEventBus;
+    private getMatchTime: () => number;
+    private log: IReplayLog;
+    private isRecording: boolean = false;
+
+    constructor(seed: number, theme: string, getMatchTime: () => number) {
+        this.eventBus = GameEventBus.getInstance();
+        this.getMatchTime = getMatchTime;
+        this.log = {
+            version: REPLAY_FORMAT_VERSION,
+            id: `${Date.now()}-${seed}`,
+            seed,
+            theme,
+            recordedAt: new Date().toISOString(),
+            duration: 0,
+            events: []
+        };
+    }
+
+    /**
+     * Start listening to gameplay events
+     */
+    public start(): void {
+        if (this.isRecording) {
+            return;
+        }
+        this.isRecording = true;
+
+        this.eventBus.onTyped('shot-fired', this.onShotFired);
+        this.eventBus.onTyped('bubble-attached', this.onBubbleAttached);
+        this.eventBus.onTyped('match-completed', this.onMatchCompleted);
+        this.eventBus.onTyped('reset-completed', this.onResetCompleted);
+        this.eventBus.onTyped('powerup-activated', this.onPowerUpActivated);
+        this.eventBus.onTyped('game-over', this.onGameOver);
+    }
+
+    /**
+     * Stop listening - the log is kept and can still be saved
+     */
+    public stop(): void {
+        if (!this.isRecording) {
+            return;
+        }
+        this.isRecording = false;
+
+        this.eventBus.offTyped('shot-fired', this.onShotFired);
+        this.eventBus.offTyped('bubble-attached', this.onBubbleAttached);
+        this.eventBus.offTyped('match-completed', this.onMatchCompleted);
+        this.eventBus.offTyped('reset-completed', this.onResetCompleted);
+        this.eventBus.offTyped('powerup-activated', this.onPowerUpActivated);
+        this.eventBus.offTyped('game-over', this.onGameOver);
+    }
+
+    public getLog(): IReplayLog {
+        return this.log;
+    }
+
+    private record<K extends ReplayEventType>(type: K, data: IReplayEventDataMap[K]): void {
+        const time = this.getMatchTime();
+        this.log.events.push({ type, time, data } as IReplayEvent);
+        this.log.duration = Math.max(this.log.duration, time);
+    }
+
+    private onShotFired = (data: GameEvents['shot-fired']): void => {
+        this.record('shot-fired', {
+            isPlayer: data.isPlayer,
+            angle: data.angle,
+            color: data.color
+        });
+    };
+
+    private onBubbleAttached = (data: GameEvents['bubble-attached']): void => {
+        const bubble = data.bubble as Bubble | undefined;
+        this.record('bubble-attached', {
+            isPlayer: data.isPlayer,
+            q: data.position.q,
+            r: data.position.r,
+            color: bubble ? bubble.getColor() : -1
+        });
+    };
+
+    private onMatchCompleted = (data: GameEvents['match-completed']): void => {
+        this.record('match-completed', {
+            isPlayer: data.isPlayer,
+            count: data.count,
+            score: data.score,
+            combo: data.combo
+        });
+    };
+
+    private onResetCompleted = (data: GameEvents['reset-completed']): void => {
+        this.record('reset-completed', {
+            isPlayer: data.isPlayer,
+            gemsLost: data.gemsLost,
+            rowsCleared: data.rowsCleared
+        });
+    };
+
+    private onPowerUpActivated = (data: GameEvents['powerup-activated']): void => {
+        this.record('powerup-activated', {
+            isPlayer: data.isPlayer,
+            type: data.type,
+            ...(data.plan && { plan: data.plan })
+        });
+    };
+
+    private onGameOver = (data: GameEvents['game-over']): void => {
+        this.record('game-over', {
+            winner: data.winner,
+            reason: data.reason
+        });
+
+        // A finished match is always worth keeping
+        this.stop();
+        ReplayRecorder.save(this.log);
+    };
+
+    /**
+     * Persist a replay, keeping only the most recent ones
+     */
+    public static save(log: IReplayLog): void {
+        try {
+            const replays = ReplayRecorder.loadAll().filter(replay => replay.id !== log.id);
+            replays.push(log);
+            while (replays.length > ReplayRecorder.MAX_STORED_REPLAYS) {
+                replays.shift();
+            }
+            localStorage.setItem(ReplayRecorder.STORAGE_KEY, JSON.stringify(replays));
+        } catch (error) {
+            console.warn('ReplayRecorder: Failed to save replay', error);
+        }
+    }
+
+    /**
+     * Load all stored replays (oldest first)
+     */
+    public static loadAll(): IReplayLog[] {
+        try {
+            const raw = localStorage.getItem(ReplayRecorder.STORAGE_KEY);
+            if (!raw) {
+                return [];
+            }
+            const replays = JSON.parse(raw) as IReplayLog[];
+            if (!Array.isArray(replays)) {
+                return [];
+            }
+            return replays.filter(replay => replay && replay.version === REPLAY_FORMAT_VERSION);
+        } catch (error) {
+            console.warn('ReplayRecorder: Failed to load replays', error);
+            return [];
+        }
+    }
+
+    public static loadLatest(): IReplayLog | null {
+        const replays = ReplayRecorder.loadAll();
+        return replays.length > 0 ? replays[replays.length - 1] : null;
+    }
+}
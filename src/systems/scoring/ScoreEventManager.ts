@@ -55,6 +55,7 @@ export class ScoreEventManager {
     private processing: boolean = false;
     private totalPlayerScore: number = 0;
     private totalOpponentScore: number = 0;
+    private playerScoreByType: Map<ScoreEventType, number> = new Map();
     
     // Performance optimization
     private readonly MAX_QUEUE_SIZE = 50;
@@ -63,6 +64,7 @@ export class ScoreEventManager {
     // Event callbacks
     private scoreUpdateCallbacks: ((score: number, isPlayer: boolean) => void)[] = [];
     private visualEffectCallbacks: ((result: ScoreResult, position: { x: number; y: number }) => void)[] = [];
+    private scoreEventCallbacks: ((context: ScoreContext) => void)[] = [];
     
     constructor(scene: Scene) {
         this.scene = scene;
@@ -163,6 +165,10 @@ export class ScoreEventManager {
             // Update scores
             if (context.isPlayer) {
                 this.totalPlayerScore += finalResult.finalScore;
+                this.playerScoreByType.set(
+                    context.type,
+                    (this.playerScoreByType.get(context.type) ?? 0) + finalResult.finalScore
+                );
                 this.notifyScoreUpdate(this.totalPlayerScore, true);
             } else {
                 this.totalOpponentScore += finalResult.finalScore;
@@ -180,6 +186,7 @@ export class ScoreEventManager {
             });
         }
         
+        this.scoreEventCallbacks.forEach(cb => cb(context));
         event.processed = true;
     }
     
@@ -191,6 +198,17 @@ export class ScoreEventManager {
         this.visualEffectCallbacks.push(callback);
     }
     
+    /**
+     * Every processed event, whether or not a module scored it (the arsenal meter)
+     */
+    public onScoreEvent(callback: (context: ScoreContext) => void): void {
+        this.scoreEventCallbacks.push(callback);
+    }
+
+    public offScoreEvent(callback: (context: ScoreContext) => void): void {
+        this.scoreEventCallbacks = this.scoreEventCallbacks.filter(cb => cb !== callback);
+    }
+
     private notifyScoreUpdate(score: number, isPlayer: boolean): void {
         this.scoreUpdateCallbacks.forEach(cb => cb(score, isPlayer));
     }
@@ -207,6 +225,13 @@ export class ScoreEventManager {
         return this.totalOpponentScore;
     }
     
+    /**
+     * Player points so far, per event type - types that scored nothing are left out
+     */
+    public getPlayerScoreBreakdown(): Map<ScoreEventType, number> {
+        return new Map(this.playerScoreByType);
+    }
+
     /**
      * Handle match found event (from ArenaCoordinator)
      */
@@ -271,6 +296,7 @@ export class ScoreEventManager {
     public reset(): void {
         this.totalPlayerScore = 0;
         this.totalOpponentScore = 0;
+        this.playerScoreByType.clear();
         this.eventQueue = [];
         this.processing = false;
     }
@@ -280,6 +306,7 @@ export class ScoreEventManager {
         this.modules.clear();
         this.scoreUpdateCallbacks = [];
         this.visualEffectCallbacks = [];
+        this.scoreEventCallbacks = [];
     }
 }
 
@@ -0,0 +1,57 @@
+import { IScoringModule, ScoreContext, ScoreEventType, ScoreResult } from './ScoreEventManager';
+import { TIME_ATTACK_RULES } from '@/core/rules/TimeAttackRules';
+
+/**
+ * Time Attack scoring modules - registered on top of the defaults for the score rush.
+ * Both read what they need from the queued context, so any system can award them.
+ */
+
+/**
+ * Points for the seconds a big match added to the clock (metadata.seconds)
+ */
+export class TimeBonusModule implements IScoringModule {
+    type = ScoreEventType.TIME_BONUS;
+    priority = 70;
+
+    canProcess(context: ScoreContext): boolean {
+        return context.type === this.type && (context.metadata?.seconds ?? 0) > 0;
+    }
+
+    calculateScore(context: ScoreContext): ScoreResult {
+        const seconds = Number(context.metadata?.seconds ?? 0);
+        const points = seconds * TIME_ATTACK_RULES.POINTS_PER_BONUS_SECOND;
+
+        return {
+            finalScore: points,
+            displayText: `+${seconds}s TIME!\n+${points}`,
+            visualEffectLevel: Math.min(Math.ceil(seconds / 2), 5),
+            color: 0x00FF88,
+            comboMultiplier: 1.0
+        };
+    }
+}
+
+/**
+ * Flat bonus for a bank shot that landed a match, scaled up for bigger matches
+ */
+export class PerfectShotModule implements IScoringModule {
+    type = ScoreEventType.PERFECT_SHOT;
+    priority = 70;
+
+    canProcess(context: ScoreContext): boolean {
+        return context.type === this.type;
+    }
+
+    calculateScore(context: ScoreContext): ScoreResult {
+        const multiplier = Math.max(1, (context.matchSize ?? 3) - 2);
+        const points = TIME_ATTACK_RULES.PERFECT_SHOT_POINTS * multiplier;
+
+        return {
+            finalScore: points,
+            displayText: `BANK SHOT!\n+${points}`,
+            visualEffectLevel: Math.min(multiplier + 1, 5),
+            color: 0xFF69B4,
+            comboMultiplier: multiplier
+        };
+    }
+}
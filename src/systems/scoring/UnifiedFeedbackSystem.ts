@@ -1,6 +1,7 @@
 import { Scene } from 'phaser';
 import { EffectPool } from './EffectPool';
 import { ScoreResult } from './ScoreEventManager';
+import { shakeCamera } from '@/utils/motion';
 
 interface FeedbackQueueItem {
     result: ScoreResult;
@@ -272,7 +273,7 @@ export class UnifiedFeedbackSystem {
     }
     
     private addScreenShake(duration: number, intensity: number): void {
-        this.scene.cameras.main.shake(duration, intensity);
+        shakeCamera(this.scene, duration, intensity);
     }
     
     private addCameraFlash(duration: number, color: number): void {
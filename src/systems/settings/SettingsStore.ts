@@ -0,0 +1,117 @@
+/**
+ * SettingsStore - Player settings persisted to local storage
+ * Every value is sanitized on load, so an old or hand-edited save can never
+ * push a volume out of range or an unknown quality into the renderer.
+ * Listeners get 'settings-changed' with the full settings after each update.
+ */
+
+import { EventEmitter } from 'eventemitter3';
+import { VersionedStore } from '@/core/VersionedStore';
+import { IGameSettings, ISettingsFile, QualitySetting, SETTINGS_FORMAT_VERSION } from '@/types/GameTypes';
+
+export const DEFAULT_SETTINGS: IGameSettings = {
+    soundEnabled: true,
+    musicEnabled: true,
+    vibrationEnabled: true,
+    quality: 'auto',
+    language: 'en',
+    masterVolume: 0.7,
+    sfxVolume: 0.8,
+    musicVolume: 0.5,
+    trajectoryPreview: true,
+    aimSensitivity: 0.5,
+    reducedMotion: false
+};
+
+const QUALITY_SETTINGS: QualitySetting[] = ['low', 'medium', 'high', 'auto'];
+
+export class SettingsStore extends EventEmitter {
+    private static instance: SettingsStore;
+    private static readonly storage = new VersionedStore<IGameSettings, ISettingsFile>({
+        key: 'bubble-battle-settings',
+        version: SETTINGS_FORMAT_VERSION,
+        owner: 'SettingsStore',
+        label: 'settings',
+        createDefault: () => ({ ...DEFAULT_SETTINGS }),
+        toFile: settings => ({ settings }),
+        fromFile: file => SettingsStore.sanitize(file.settings)
+    });
+
+    private settings: IGameSettings;
+
+    private constructor() {
+        super();
+        this.settings = SettingsStore.storage.load();
+    }
+
+    public static getInstance(): SettingsStore {
+        if (!SettingsStore.instance) {
+            SettingsStore.instance = new SettingsStore();
+        }
+        return SettingsStore.instance;
+    }
+
+    /**
+     * Current settings (a copy - use update() to change them)
+     */
+    public get(): IGameSettings {
+        return { ...this.settings };
+    }
+
+    /**
+     * Change some settings, save them and notify listeners
+     */
+    public update(changes: Partial<IGameSettings>): IGameSettings {
+        this.settings = SettingsStore.sanitize({ ...this.settings, ...changes });
+        this.save();
+        this.emit('settings-changed', this.get());
+        return this.get();
+    }
+
+    public reset(): IGameSettings {
+        return this.update(DEFAULT_SETTINGS);
+    }
+
+    private save(): void {
+        SettingsStore.storage.save(this.settings);
+    }
+
+    /**
+     * Fill missing fields with defaults and clamp numbers to their ranges
+     */
+    public static sanitize(value: unknown): IGameSettings {
+        const input = (value && typeof value === 'object' ? value : {}) as Partial<Record<keyof IGameSettings, unknown>>;
+        const flag = (key: keyof IGameSettings, fallback: boolean): boolean =>
+            typeof input[key] === 'boolean' ? input[key] as boolean : fallback;
+        const range = (key: keyof IGameSettings, fallback: number, min: number, max: number): number => {
+            const number = input[key];
+            return typeof number === 'number' && Number.isFinite(number) ? Math.max(min, Math.min(max, number)) : fallback;
+        };
+
+        return {
+            soundEnabled: flag('soundEnabled', DEFAULT_SETTINGS.soundEnabled),
+            musicEnabled: flag('musicEnabled', DEFAULT_SETTINGS.musicEnabled),
+            vibrationEnabled: flag('vibrationEnabled', DEFAULT_SETTINGS.vibrationEnabled),
+            quality: QUALITY_SETTINGS.includes(input.quality as QualitySetting)
+                ? input.quality as QualitySetting
+                : DEFAULT_SETTINGS.quality,
+            language: typeof input.language === 'string' && input.language ? input.language : DEFAULT_SETTINGS.language,
+            masterVolume: range('masterVolume', DEFAULT_SETTINGS.masterVolume, 0, 1),
+            sfxVolume: range('sfxVolume', DEFAULT_SETTINGS.sfxVolume, 0, 1),
+            musicVolume: range('musicVolume', DEFAULT_SETTINGS.musicVolume, 0, 1),
+            trajectoryPreview: flag('trajectoryPreview', DEFAULT_SETTINGS.trajectoryPreview),
+            aimSensitivity: range('aimSensitivity', DEFAULT_SETTINGS.aimSensitivity, 0.1, 1),
+            reducedMotion: flag('reducedMotion', DEFAULT_SETTINGS.reducedMotion)
+        };
+    }
+
+    /**
+     * 'auto' picks medium on mobile builds and high elsewhere
+     */
+    public static resolveQuality(quality: QualitySetting, isMobile: boolean): 'low' | 'medium' | 'high' {
+        if (quality === 'auto') {
+            return isMobile ? 'medium' : 'high';
+        }
+        return quality;
+    }
+}
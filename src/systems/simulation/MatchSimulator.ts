@@ -0,0 +1,613 @@
+/**
+ * MatchSimulator - Runs whole AI-vs-AI matches without Phaser
+ * Uses the same hex math, flood fill and victory rules as the arena (see
+ * core/rules) on a plain cell map, so balance changes can be measured over
+ * thousands of seeded matches under Jest/Node.
+ *
+ * Shots are abstracted: a side can place a bubble on any open cell of its own
+ * half that is reachable from its launcher edge, or hit the objective when a
+ * lane to it is open. Timings mirror AIOpponentSystem, RowSpawnSystem and the
+ * objective gem throws in ArenaCoordinator.
+ */
+
+import { GRID_CONFIG } from '@/config/ArenaConfig';
+import { hashString, RandomStream } from '@/core/RandomService';
+import { getHexNeighbors, hexKey } from '@/core/rules/HexMath';
+import { ObjectiveCombo } from '@/systems/gameplay/ObjectiveCombo';
+import {
+    findColorGroup,
+    findDisconnected,
+    floodFill,
+    getAnchorPositions,
+    MIN_MATCH_SIZE,
+    OBJECTIVE_HEX
+} from '@/core/rules/GridRules';
+import {
+    calculateResetGemLoss,
+    checkGemVictory,
+    IMatchOutcome,
+    isPastDeathRow,
+    isSuddenDeath,
+    isTimeUp,
+    MatchSide,
+    resolveFieldFull,
+    resolveTimeUp,
+    VICTORY_RULES
+} from '@/core/rules/VictoryRules';
+import { BubbleColor } from '@/types/ArenaTypes';
+import {
+    GemSource,
+    IBatchStats,
+    IMatchSimulatorConfig,
+    IMatchStats,
+    ISideStats,
+    ISimulatedPlayerConfig
+} from '@/types/SimulationTypes';
+
+interface ISimCell {
+    q: number;
+    r: number;
+    color: BubbleColor;
+    gem: GemSource | null;
+}
+
+type ShotTarget = { kind: 'objective' } | { kind: 'cell'; key: string } | null;
+
+// Thinking times from AIOpponentSystem, accuracy is the simulator's own knob
+export const SIMULATED_DIFFICULTY: Record<'easy' | 'medium' | 'hard', ISimulatedPlayerConfig> = {
+    easy: { thinkTimeMin: 3000, thinkTimeMax: 5000, accuracy: 0.4 },
+    medium: { thinkTimeMin: 2000, thinkTimeMax: 3000, accuracy: 0.65 },
+    hard: { thinkTimeMin: 1000, thinkTimeMax: 1500, accuracy: 0.85 }
+};
+
+export const DEFAULT_SIMULATOR_CONFIG: IMatchSimulatorConfig = {
+    theme: 'space',
+    player: SIMULATED_DIFFICULTY.hard,
+    opponent: SIMULATED_DIFFICULTY.hard,
+    tickMs: 100
+};
+
+const SIDES: MatchSide[] = ['player', 'opponent'];
+const ALL_COLORS: BubbleColor[] = [
+    BubbleColor.RED,
+    BubbleColor.BLUE,
+    BubbleColor.GREEN,
+    BubbleColor.YELLOW,
+    BubbleColor.PURPLE
+];
+
+export class MatchSimulator {
+    // Timings mirrored from the live systems
+    private readonly SHOT_COOLDOWN = 1000;
+    private readonly FIELD_RADIUS = 5; // Neighbor steps from the objective for the opening field
+    private readonly FIELD_GEM_CHANCE = 0.2;
+    private readonly SPAWN_INTERVAL = 15000;
+    private readonly SPACE_SPAWN_INTERVAL = 12000;
+    private readonly MIN_SPAWN_INTERVAL = 8000;
+    private readonly SPAWN_ACCELERATION = 0.98;
+    private readonly MIN_BUBBLES_THRESHOLD = 10;
+    private readonly EMERGENCY_REFILL_ROWS = 3;
+    private readonly GEM_THROW_COUNT = 20;
+
+    private config: IMatchSimulatorConfig;
+
+    // Per-match state, rebuilt by runMatch()
+    private cells: Map<string, ISimCell> = new Map();
+    private streams: Map<string, RandomStream> = new Map();
+    private time: number = 0;
+    private inSuddenDeath: boolean = false;
+    private outcome: IMatchOutcome | null = null;
+    private gems: Record<MatchSide, number> = { player: 0, opponent: 0 };
+    private nextShotAt: Record<MatchSide, number> = { player: 0, opponent: 0 };
+    private nextSpawnAt: number = 0;
+    private spawnInterval: number = 0;
+    private rowSpawns: number = 0;
+    private nextThrowAt: number = 0;
+    private gemThrows: number = 0;
+    private objectiveCombo: ObjectiveCombo = new ObjectiveCombo();
+    private stats: Record<MatchSide, ISideStats> = {
+        player: MatchSimulator.createSideStats(),
+        opponent: MatchSimulator.createSideStats()
+    };
+
+    constructor(config: Partial<IMatchSimulatorConfig> = {}) {
+        this.config = { ...DEFAULT_SIMULATOR_CONFIG, ...config };
+    }
+
+    /**
+     * Play one full match for a seed - the same seed always gives the same result
+     */
+    public runMatch(seed: number): IMatchStats {
+        this.setupMatch(seed);
+
+        let tick = 0;
+        while (!this.outcome) {
+            this.time += this.config.tickMs;
+            tick++;
+
+            if (!this.inSuddenDeath && isSuddenDeath(this.time)) {
+                this.inSuddenDeath = true;
+            }
+
+            if (this.time >= this.nextSpawnAt) {
+                this.spawnRows();
+            }
+
+            if (this.config.theme === 'space' && this.time >= this.nextThrowAt) {
+                this.throwGemsFromObjective();
+            }
+
+            // Alternate who acts first so neither side wins simultaneous ticks
+            const order = tick % 2 === 0 ? SIDES : [...SIDES].reverse();
+            for (const side of order) {
+                if (!this.outcome && this.time >= this.nextShotAt[side]) {
+                    this.takeShot(side);
+                }
+            }
+
+            if (!this.outcome && isTimeUp(this.time)) {
+                this.outcome = resolveTimeUp(this.gems.player, this.gems.opponent);
+            }
+        }
+
+        this.stats.player.finalGems = this.gems.player;
+        this.stats.opponent.finalGems = this.gems.opponent;
+
+        return {
+            seed,
+            winner: this.outcome.winner,
+            reason: this.outcome.reason,
+            duration: this.time,
+            reachedSuddenDeath: this.inSuddenDeath,
+            rowSpawns: this.rowSpawns,
+            player: this.stats.player,
+            opponent: this.stats.opponent
+        };
+    }
+
+    /**
+     * Play consecutive seeds and aggregate the results
+     */
+    public runBatch(count: number, firstSeed: number = 1): IBatchStats {
+        const results: IMatchStats[] = [];
+        for (let i = 0; i < count; i++) {
+            results.push(this.runMatch(firstSeed + i));
+        }
+        return MatchSimulator.summarize(results);
+    }
+
+    public static summarize(results: IMatchStats[]): IBatchStats {
+        const count = Math.max(1, results.length);
+        const winReasons: Record<string, number> = {};
+        const gemTotals: Record<GemSource, number> = { objective: 0, field: 0, thrown: 0 };
+        let playerWins = 0;
+        let opponentWins = 0;
+        let ties = 0;
+        let duration = 0;
+        let playerResets = 0;
+        let opponentResets = 0;
+
+        results.forEach(result => {
+            if (result.winner === 'player') {
+                playerWins++;
+            } else if (result.winner === 'opponent') {
+                opponentWins++;
+            } else {
+                ties++;
+            }
+            winReasons[result.reason] = (winReasons[result.reason] || 0) + 1;
+            duration += result.duration;
+            playerResets += result.player.resets;
+            opponentResets += result.opponent.resets;
+
+            (Object.keys(gemTotals) as GemSource[]).forEach(source => {
+                gemTotals[source] += result.player.gemsBySource[source] + result.opponent.gemsBySource[source];
+            });
+        });
+
+        return {
+            matches: results.length,
+            playerWinRate: playerWins / count,
+            opponentWinRate: opponentWins / count,
+            tieRate: ties / count,
+            averageDuration: duration / count,
+            averageResets: {
+                player: playerResets / count,
+                opponent: opponentResets / count
+            },
+            averageGemsBySource: {
+                objective: gemTotals.objective / (count * 2),
+                field: gemTotals.field / (count * 2),
+                thrown: gemTotals.thrown / (count * 2)
+            },
+            winReasons
+        };
+    }
+
+    private static createSideStats(): ISideStats {
+        return {
+            shots: 0,
+            matches: 0,
+            bubblesPopped: 0,
+            objectiveHits: 0,
+            resets: 0,
+            gemsLost: 0,
+            finalGems: 0,
+            gemsBySource: { objective: 0, field: 0, thrown: 0 }
+        };
+    }
+
+    private setupMatch(seed: number): void {
+        this.cells = new Map();
+        this.streams = new Map();
+        this.time = 0;
+        this.inSuddenDeath = false;
+        this.outcome = null;
+        this.gems = { player: 0, opponent: 0 };
+        this.rowSpawns = 0;
+        this.gemThrows = 0;
+        this.objectiveCombo.reset();
+        this.stats = {
+            player: MatchSimulator.createSideStats(),
+            opponent: MatchSimulator.createSideStats()
+        };
+
+        // Same derivation as RandomService.stream(), one stream per concern
+        ['board', 'rowSpawn', 'gems', 'playerQueue', 'opponentQueue', 'ai:player', 'ai:opponent'].forEach(name => {
+            this.streams.set(name, new RandomStream(hashString(`${seed}:${name}`)));
+        });
+
+        this.spawnInterval = this.config.theme === 'space' ? this.SPACE_SPAWN_INTERVAL : this.SPAWN_INTERVAL;
+        this.nextSpawnAt = this.spawnInterval;
+        this.nextThrowAt = 2000;
+        SIDES.forEach(side => {
+            this.nextShotAt[side] = this.getThinkTime(side);
+        });
+
+        this.createField();
+    }
+
+    private stream(name: string): RandomStream {
+        return this.streams.get(name)!;
+    }
+
+    /**
+     * Opening field around the objective, with the same color clustering as BubbleManager
+     */
+    private createField(): void {
+        const rng = this.stream('board');
+        const objectiveKey = hexKey(OBJECTIVE_HEX.q, OBJECTIVE_HEX.r);
+        const distances = new Map<string, number>([[objectiveKey, 0]]);
+        const queue = [OBJECTIVE_HEX];
+
+        while (queue.length > 0) {
+            const current = queue.shift()!;
+            const distance = distances.get(hexKey(current.q, current.r))!;
+            if (distance >= this.FIELD_RADIUS) {
+                continue;
+            }
+
+            getHexNeighbors(current).forEach(neighbor => {
+                const key = hexKey(neighbor.q, neighbor.r);
+                if (!distances.has(key) && this.isInBounds(neighbor.q, neighbor.r)) {
+                    distances.set(key, distance + 1);
+                    queue.push(neighbor);
+                    this.placeFieldBubble(neighbor.q, neighbor.r, rng);
+                }
+            });
+        }
+    }
+
+    private placeFieldBubble(q: number, r: number, rng: RandomStream): void {
+        const neighborColors = this.getOccupiedNeighbors(hexKey(q, r)).map(key => this.cells.get(key)!.color);
+
+        let color: BubbleColor;
+        if (neighborColors.length > 0 && rng.chance(0.6)) {
+            color = rng.pick(neighborColors);
+        } else {
+            color = rng.pick(ALL_COLORS.slice(0, 3 + rng.between(0, 1)));
+        }
+
+        const hasGem = this.config.theme === 'space' && rng.chance(this.FIELD_GEM_CHANCE);
+        this.cells.set(hexKey(q, r), { q, r, color, gem: hasGem ? 'field' : null });
+    }
+
+    private isInBounds(q: number, r: number): boolean {
+        return Math.abs(q) <= GRID_CONFIG.CENTER_COL && Math.abs(r) <= VICTORY_RULES.DEATH_ROW_THRESHOLD;
+    }
+
+    private getNeighborKeys(key: string): string[] {
+        const [q, r] = key.split(',').map(Number);
+        return getHexNeighbors({ q, r, s: -q - r })
+            .filter(hex => this.isInBounds(hex.q, hex.r))
+            .map(hex => hexKey(hex.q, hex.r));
+    }
+
+    private getOccupiedNeighbors(key: string): string[] {
+        return this.getNeighborKeys(key).filter(neighbor => this.cells.has(neighbor));
+    }
+
+    private getSideSign(side: MatchSide): number {
+        // Player launcher sits below the objective (positive rows)
+        return side === 'player' ? 1 : -1;
+    }
+
+    private getThinkTime(side: MatchSide): number {
+        const settings = this.config[side];
+        return this.stream(`ai:${side}`).float(settings.thinkTimeMin, settings.thinkTimeMax);
+    }
+
+    private takeShot(side: MatchSide): void {
+        this.stats[side].shots++;
+        this.nextShotAt[side] = this.time + this.SHOT_COOLDOWN + this.getThinkTime(side);
+
+        const color = this.nextQueueColor(side);
+        const target = this.chooseTarget(side, color);
+        if (!target) {
+            return;
+        }
+
+        if (target.kind === 'objective') {
+            this.hitObjective(side);
+        } else {
+            this.placeBubble(side, target.key, color);
+            this.checkFieldFull();
+        }
+    }
+
+    private nextQueueColor(side: MatchSide): BubbleColor {
+        const present = new Set<BubbleColor>();
+        this.cells.forEach(cell => present.add(cell.color));
+        const colors = present.size > 0 ? Array.from(present) : ALL_COLORS;
+        return this.stream(side === 'player' ? 'playerQueue' : 'opponentQueue').pick(colors);
+    }
+
+    /**
+     * Pick where a shot lands: the objective, the best match, or a random open cell
+     */
+    private chooseTarget(side: MatchSide, color: BubbleColor): ShotTarget {
+        const rng = this.stream(`ai:${side}`);
+        const accuracy = this.config[side].accuracy;
+        const sign = this.getSideSign(side);
+        const objectiveKey = hexKey(OBJECTIVE_HEX.q, OBJECTIVE_HEX.r);
+
+        // Open space the launcher can reach from its edge of the field
+        const edgeRow = sign * VICTORY_RULES.DEATH_ROW_THRESHOLD;
+        const edge: string[] = [];
+        for (let q = -GRID_CONFIG.CENTER_COL; q <= GRID_CONFIG.CENTER_COL; q++) {
+            edge.push(hexKey(q, edgeRow));
+        }
+        const open = floodFill(
+            edge,
+            key => this.getNeighborKeys(key),
+            key => !this.cells.has(key) && key !== objectiveKey
+        );
+
+        const objectiveOpen = getHexNeighbors(OBJECTIVE_HEX).some(hex => open.has(hexKey(hex.q, hex.r)));
+        const targets = Array.from(open).filter(key => {
+            const cellRow = Number(key.split(',')[1]);
+            return cellRow * sign >= 0 && this.getOccupiedNeighbors(key).length > 0;
+        });
+
+        if (objectiveOpen && (targets.length === 0 || rng.chance(accuracy))) {
+            return { kind: 'objective' };
+        }
+        if (targets.length === 0) {
+            return null;
+        }
+        if (!rng.chance(accuracy)) {
+            return { kind: 'cell', key: rng.pick(targets) };
+        }
+
+        let bestKey = targets[0];
+        let bestScore = -Infinity;
+        targets.forEach(key => {
+            const score = this.scorePlacement(key, color);
+            if (score > bestScore) {
+                bestScore = score;
+                bestKey = key;
+            }
+        });
+        return { kind: 'cell', key: bestKey };
+    }
+
+    /**
+     * Bigger matches and gems first; otherwise keep bubbles near the objective
+     */
+    private scorePlacement(key: string, color: BubbleColor): number {
+        const [q, r] = key.split(',').map(Number);
+        this.cells.set(key, { q, r, color, gem: null });
+        const group = this.findGroup(key, color);
+        this.cells.delete(key);
+
+        if (group.size < MIN_MATCH_SIZE) {
+            return -Math.abs(r);
+        }
+
+        let gemCount = 0;
+        group.forEach(member => {
+            if (this.cells.get(member)?.gem) {
+                gemCount++;
+            }
+        });
+        return 100 + group.size + gemCount * 10;
+    }
+
+    private findGroup(key: string, color: BubbleColor): Set<string> {
+        return findColorGroup(
+            key,
+            color,
+            member => this.getOccupiedNeighbors(member),
+            member => this.cells.get(member)?.color
+        );
+    }
+
+    private placeBubble(side: MatchSide, key: string, color: BubbleColor): void {
+        const [q, r] = key.split(',').map(Number);
+        this.cells.set(key, { q, r, color, gem: null });
+        this.objectiveCombo.onBubbleAttached(side === 'player');
+
+        const group = this.findGroup(key, color);
+        if (group.size < MIN_MATCH_SIZE) {
+            return;
+        }
+
+        // Gems are collected by whoever made the match
+        const stats = this.stats[side];
+        stats.matches++;
+        stats.bubblesPopped += group.size;
+        group.forEach(member => {
+            const cell = this.cells.get(member);
+            if (cell?.gem) {
+                this.awardGems(side, cell.gem, 1);
+            }
+            this.cells.delete(member);
+        });
+
+        this.dropFloatingBubbles(side);
+    }
+
+    private dropFloatingBubbles(side: MatchSide): void {
+        const anchors = getAnchorPositions()
+            .map(hex => hexKey(hex.q, hex.r))
+            .filter(key => this.cells.has(key));
+        const floating = findDisconnected(
+            Array.from(this.cells.keys()),
+            anchors,
+            key => this.getOccupiedNeighbors(key)
+        );
+
+        floating.forEach(key => this.cells.delete(key));
+        this.stats[side].bubblesPopped += floating.length;
+    }
+
+    /**
+     * Objective combo: the arena's ObjectiveCombo, on match time (shared by both sides)
+     */
+    private hitObjective(side: MatchSide): void {
+        this.stats[side].objectiveHits++;
+        this.awardGems(side, 'objective', this.objectiveCombo.hit(side === 'player', this.time));
+    }
+
+    private awardGems(side: MatchSide, source: GemSource, amount: number): void {
+        this.gems[side] += amount;
+        this.stats[side].gemsBySource[source] += amount;
+
+        const winner = checkGemVictory(this.gems.player, this.gems.opponent);
+        if (winner && !this.outcome) {
+            this.outcome = { winner, reason: 'gems' };
+        }
+    }
+
+    private spawnRows(): void {
+        this.rowSpawns++;
+
+        if (this.cells.size < this.MIN_BUBBLES_THRESHOLD) {
+            // Emergency refill - no acceleration, like RowSpawnSystem
+            for (let i = 0; i < this.EMERGENCY_REFILL_ROWS; i++) {
+                SIDES.forEach(side => this.spawnRow(side));
+            }
+        } else {
+            SIDES.forEach(side => this.spawnRow(side));
+            this.spawnInterval = Math.max(this.MIN_SPAWN_INTERVAL, this.spawnInterval * this.SPAWN_ACCELERATION);
+        }
+
+        this.nextSpawnAt = this.time + this.spawnInterval;
+        this.checkFieldFull();
+    }
+
+    /**
+     * Push a new row beyond the side's outermost bubbles
+     */
+    private spawnRow(side: MatchSide): void {
+        const rng = this.stream('rowSpawn');
+        const sign = this.getSideSign(side);
+        const outer = this.getOutermostRow(side);
+        const row = sign * (outer + 1);
+
+        for (let q = -GRID_CONFIG.CENTER_COL; q <= GRID_CONFIG.CENTER_COL; q++) {
+            const key = hexKey(q, row);
+            if (!this.isInBounds(q, row) || this.cells.has(key)) {
+                continue;
+            }
+            if (outer > 0 && this.getOccupiedNeighbors(key).length === 0) {
+                continue;
+            }
+
+            this.cells.set(key, { q, r: row, color: rng.pick(ALL_COLORS), gem: null });
+        }
+    }
+
+    private getOutermostRow(side: MatchSide): number {
+        const sign = this.getSideSign(side);
+        let outer = 0;
+        this.cells.forEach(cell => {
+            outer = Math.max(outer, cell.r * sign);
+        });
+        return outer;
+    }
+
+    /**
+     * Death row: a reset in normal time, elimination in sudden death
+     */
+    private checkFieldFull(): void {
+        SIDES.forEach(side => {
+            if (this.outcome) {
+                return;
+            }
+
+            const outer = this.getOutermostRow(side);
+            if (!isPastDeathRow(outer)) {
+                return;
+            }
+
+            const outcome = resolveFieldFull(side === 'player', this.inSuddenDeath);
+            if (outcome) {
+                this.outcome = outcome;
+                return;
+            }
+            this.executeReset(side, outer);
+        });
+    }
+
+    private executeReset(side: MatchSide, outer: number): void {
+        const sign = this.getSideSign(side);
+        const gemsLost = Math.min(calculateResetGemLoss(this.gems[side]), this.gems[side]);
+        this.gems[side] -= gemsLost;
+        this.stats[side].resets++;
+        this.stats[side].gemsLost += gemsLost;
+
+        const firstClearedRow = outer - VICTORY_RULES.ROWS_TO_CLEAR + 1;
+        this.cells.forEach((cell, key) => {
+            if (cell.r * sign >= firstClearedRow) {
+                this.cells.delete(key);
+            }
+        });
+    }
+
+    /**
+     * Space theme: the objective throws gems onto bubbles, split between both halves
+     */
+    private throwGemsFromObjective(): void {
+        const rng = this.stream('gems');
+        this.gemThrows++;
+        this.nextThrowAt = this.gemThrows === 1 ? 5000 : this.time + rng.between(5000, 8000);
+
+        const eligible = Array.from(this.cells.values()).filter(cell => !cell.gem);
+        const playerCells = eligible.filter(cell => cell.r > 0);
+        const opponentCells = eligible.filter(cell => cell.r <= 0);
+        const targets: ISimCell[] = [];
+        const playerShare = Math.floor(this.GEM_THROW_COUNT / 2);
+
+        for (let i = 0; i < playerShare && playerCells.length > 0; i++) {
+            targets.push(playerCells.splice(rng.between(0, playerCells.length - 1), 1)[0]);
+        }
+        for (let i = 0; i < this.GEM_THROW_COUNT - playerShare && opponentCells.length > 0; i++) {
+            targets.push(opponentCells.splice(rng.between(0, opponentCells.length - 1), 1)[0]);
+        }
+
+        targets.forEach(cell => {
+            cell.gem = 'thrown';
+        });
+    }
+}
@@ -0,0 +1,67 @@
+/**
+ * ArenaSnapshotSerializer - JSON form of an IArenaSnapshot
+ * Used for suspend/resume, bug repro files and network resync. Snapshots from
+ * another format version are rejected rather than half-restored.
+ */
+
+import { ARENA_SNAPSHOT_VERSION, IArenaSnapshot, ILauncherSnapshot } from '@/types/SnapshotTypes';
+
+export class ArenaSnapshotSerializer {
+    public static serialize(snapshot: IArenaSnapshot, pretty: boolean = false): string {
+        return JSON.stringify(snapshot, null, pretty ? 2 : undefined);
+    }
+
+    /**
+     * Parse and validate a snapshot - returns null if it can't be restored
+     */
+    public static parse(json: string): IArenaSnapshot | null {
+        let data: unknown;
+        try {
+            data = JSON.parse(json);
+        } catch (error) {
+            console.warn('ArenaSnapshotSerializer: Invalid JSON', error);
+            return null;
+        }
+
+        if (!ArenaSnapshotSerializer.isSnapshot(data)) {
+            console.warn('ArenaSnapshotSerializer: Not an arena snapshot');
+            return null;
+        }
+
+        if (data.version !== ARENA_SNAPSHOT_VERSION) {
+            console.warn(
+                `ArenaSnapshotSerializer: Unsupported snapshot version ${data.version} (expected ${ARENA_SNAPSHOT_VERSION})`
+            );
+            return null;
+        }
+
+        return data;
+    }
+
+    private static isSnapshot(data: unknown): data is IArenaSnapshot {
+        if (!data || typeof data !== 'object') {
+            return false;
+        }
+        const snapshot = data as Partial<IArenaSnapshot>;
+        return typeof snapshot.version === 'number' &&
+            typeof snapshot.seed === 'number' &&
+            typeof snapshot.theme === 'string' &&
+            typeof snapshot.elapsedTime === 'number' &&
+            Array.isArray(snapshot.bubbles) &&
+            snapshot.bubbles.every(bubble =>
+                typeof bubble.q === 'number' && typeof bubble.r === 'number' && typeof bubble.color === 'number'
+            ) &&
+            ArenaSnapshotSerializer.isLauncher(snapshot.player) &&
+            ArenaSnapshotSerializer.isLauncher(snapshot.opponent) &&
+            !!snapshot.gameState && typeof snapshot.gameState === 'object';
+    }
+
+    private static isLauncher(data: unknown): data is ILauncherSnapshot {
+        if (!data || typeof data !== 'object') {
+            return false;
+        }
+        const launcher = data as Partial<ILauncherSnapshot>;
+        return Array.isArray(launcher.next) && Array.isArray(launcher.arsenal) &&
+            (launcher.effects === undefined || Array.isArray(launcher.effects));
+    }
+}
@@ -0,0 +1,50 @@
+/**
+ * SurvivalScoreStore - Local survival high scores, persisted to local storage
+ * Keeps the best runs only. Without a usable save the table is empty.
+ */
+
+import { VersionedStore } from '@/core/VersionedStore';
+import { insertHighScore } from '@/core/rules/SurvivalRules';
+import { ISurvivalScore, ISurvivalScoresFile, SURVIVAL_FORMAT_VERSION } from '@/types/SurvivalTypes';
+
+export class SurvivalScoreStore {
+    private static readonly storage = new VersionedStore<ISurvivalScore[], ISurvivalScoresFile>({
+        key: 'bubble-battle-survival',
+        version: SURVIVAL_FORMAT_VERSION,
+        owner: 'SurvivalScoreStore',
+        label: 'scores',
+        createDefault: () => [],
+        toFile: scores => ({ scores }),
+        fromFile: file => Array.isArray(file.scores) ? file.scores : null
+    });
+
+    /**
+     * High scores, best first
+     */
+    public static load(): ISurvivalScore[] {
+        return SurvivalScoreStore.storage.load();
+    }
+
+    public static save(scores: ISurvivalScore[]): void {
+        SurvivalScoreStore.storage.save(scores);
+    }
+
+    public static getBest(): ISurvivalScore | undefined {
+        return SurvivalScoreStore.load()[0];
+    }
+
+    /**
+     * Record a finished run - returns its 0-based place in the table, or -1
+     */
+    public static record(entry: ISurvivalScore): number {
+        const { scores, rank } = insertHighScore(SurvivalScoreStore.load(), entry);
+        if (rank >= 0) {
+            SurvivalScoreStore.save(scores);
+        }
+        return rank;
+    }
+
+    public static reset(): void {
+        SurvivalScoreStore.storage.clear();
+    }
+}
@@ -0,0 +1,59 @@
+/**
+ * TutorialProgressStore - How far the player got through the tutorial, persisted to local storage
+ * The tutorial offers itself until it is finished or skipped once. Without a
+ * usable save the player counts as new.
+ */
+
+import { VersionedStore } from '@/core/VersionedStore';
+import { ITutorialProgress, ITutorialProgressFile, TUTORIAL_FORMAT_VERSION } from '@/types/TutorialTypes';
+
+export class TutorialProgressStore {
+    private static readonly storage = new VersionedStore<ITutorialProgress, ITutorialProgressFile>({
+        key: 'bubble-battle-tutorial',
+        version: TUTORIAL_FORMAT_VERSION,
+        owner: 'TutorialProgressStore',
+        label: 'progress',
+        createDefault: () => TutorialProgressStore.createDefault(),
+        toFile: progress => ({ progress }),
+        fromFile: file => file.progress ? { ...TutorialProgressStore.createDefault(), ...file.progress } : null
+    });
+
+    public static createDefault(): ITutorialProgress {
+        return { completed: false, stepsCompleted: 0 };
+    }
+
+    public static load(): ITutorialProgress {
+        return TutorialProgressStore.storage.load();
+    }
+
+    public static save(progress: ITutorialProgress): void {
+        TutorialProgressStore.storage.save(progress);
+    }
+
+    /**
+     * Whether the tutorial should still be offered before a first match
+     */
+    public static shouldOffer(): boolean {
+        return !TutorialProgressStore.load().completed;
+    }
+
+    public static recordStep(stepsCompleted: number): ITutorialProgress {
+        const progress = TutorialProgressStore.load();
+        const updated = { ...progress, stepsCompleted: Math.max(progress.stepsCompleted, stepsCompleted) };
+        TutorialProgressStore.save(updated);
+        return updated;
+    }
+
+    /**
+     * Finished or skipped - never offered again
+     */
+    public static markCompleted(): ITutorialProgress {
+        const updated = { ...TutorialProgressStore.load(), completed: true };
+        TutorialProgressStore.save(updated);
+        return updated;
+    }
+
+    public static reset(): void {
+        TutorialProgressStore.storage.clear();
+    }
+}
@@ -0,0 +1,109 @@
+/**
+ * TutorialScript - The onboarding steps and the tracker that decides when one is done
+ * Each step is played on its own bundled level. Aim ranges are set so that every
+ * angle the player can pick completes the goal, which the tutorial tests check
+ * with ShotSimulator.
+ */
+
+import { ITutorialGoal, ITutorialStep, TutorialGoalEvent } from '@/types/TutorialTypes';
+
+export const TUTORIAL_STEPS: ITutorialStep[] = [
+    {
+        id: 'aim',
+        title: 'Aim here',
+        text: 'Drag to aim at the blue bubbles and release to shoot.\nThree of a color pop.',
+        levelId: 'tutorial-01-first-pop',
+        highlights: [{ type: 'cell', q: 0, r: 2 }],
+        aim: { minAngle: 84, maxAngle: 98 },
+        goal: { event: 'match-completed' }
+    },
+    {
+        id: 'bank-shot',
+        title: 'Bank off the wall',
+        text: 'The blues are out of sight.\nBounce your shot off the right wall to reach them.',
+        levelId: 'tutorial-02-bank-shot',
+        highlights: [{ type: 'wall', side: 'right' }, { type: 'cell', q: -4, r: 3 }],
+        aim: { minAngle: 147, maxAngle: 157 },
+        goal: { event: 'match-completed', bankShot: true }
+    },
+    {
+        id: 'gems',
+        title: 'Collect the gem',
+        text: 'Gems are how you win.\nPop the bubbles holding them to collect them.',
+        levelId: 'tutorial-03-gems',
+        highlights: [{ type: 'cell', q: 0, r: 2 }],
+        goal: { event: 'gem-collected' }
+    },
+    {
+        id: 'bomb',
+        title: 'Use the bomb',
+        text: 'Pop the ? bubble to win a bomb,\nthen tap it in your arsenal to use it.',
+        levelId: 'tutorial-04-bomb',
+        highlights: [{ type: 'cell', q: 0, r: 1 }, { type: 'arsenal' }],
+        aim: { minAngle: 83, maxAngle: 93 },
+        goal: { event: 'powerup-activated', powerUp: 'bomb' }
+    },
+    {
+        id: 'danger-line',
+        title: 'Watch your danger line',
+        text: 'If your bubbles cross this line your field resets and you lose gems.\n'
+            + 'Pop the greens to drop the whole column.',
+        levelId: 'tutorial-05-danger-line',
+        highlights: [{ type: 'danger-line' }, { type: 'cell', q: 0, r: 2 }],
+        aim: { minAngle: 83, maxAngle: 89 },
+        goal: { event: 'cascade-completed' }
+    }
+];
+
+/**
+ * Counts the player's events towards one step's goal
+ */
+export class TutorialGoalTracker {
+    private goal: ITutorialGoal;
+    private count: number = 0;
+    private shotBounced: boolean = false;
+
+    constructor(goal: ITutorialGoal) {
+        this.goal = goal;
+    }
+
+    /**
+     * A new player shot - it has not touched a wall yet
+     */
+    public onShotFired(): void {
+        this.shotBounced = false;
+    }
+
+    public onWallBounce(): void {
+        this.shotBounced = true;
+    }
+
+    /**
+     * Count an event if it is the goal's; true once the goal is met
+     */
+    public record(event: TutorialGoalEvent, data: { isPlayer: boolean; type?: string }): boolean {
+        if (this.isComplete() || event !== this.goal.event || !data.isPlayer) {
+            return this.isComplete();
+        }
+        if (this.goal.bankShot && !this.shotBounced) {
+            return false;
+        }
+        if (this.goal.powerUp !== undefined && data.type !== this.goal.powerUp) {
+            return false;
+        }
+        this.count++;
+        return this.isComplete();
+    }
+
+    public getCount(): number {
+        return this.count;
+    }
+
+    public getTarget(): number {
+        return this.goal.count ?? 1;
+    }
+
+    public isComplete(): boolean {
+        return this.count >= this.getTarget();
+    }
+}
@@ -1250,6 +1250,20 @@ export class BackgroundSystem {
         this.create();
     }
 
+    /**
+     * Turn drifting and parallax animation on or off (reduced motion setting)
+     */
+    public setAnimationEnabled(enabled: boolean): void {
+        if (this.config.enableAnimation === enabled) {
+            return;
+        }
+        this.config.enableAnimation = enabled;
+
+        // Recreate with the new animation setting
+        this.destroy();
+        this.create();
+    }
+
     private loadFishAssets(): void {
         // Load fish textures if not already loaded
         const fishTypes = ['pufferfish_cyan', 'pufferfish_purple', 'pufferfish_red', 'pufferfish_rainbow'];
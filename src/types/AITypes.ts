@@ -0,0 +1,89 @@
+/**
+ * AI strategy types
+ * A strategy sees a read-only copy of the board - plain data, no game objects -
+ * so it can be unit tested and swapped per difficulty without touching the scene.
+ */
+
+import { RandomStream } from '@/core/RandomService';
+import { BubbleColor, IPixelPosition } from '@/types/ArenaTypes';
+
+export interface IAIBoardCell {
+    q: number;
+    r: number;
+    x: number; // Screen position
+    y: number;
+    color: BubbleColor;
+    gem: boolean;
+    blocker: boolean;
+    mystery: boolean; // Hands its power-up to whoever pops it
+}
+
+export interface IAIBoardView {
+    cells: ReadonlyArray<Readonly<IAIBoardCell>>;
+    center: Readonly<IPixelPosition>; // Grid center, where the objective sits
+    hexSize: number;
+    width: number; // Arena bounds - projectiles bounce off x = 0 and x = width
+    height: number;
+}
+
+export interface IAIShotContext {
+    board: IAIBoardView;
+    launcher: Readonly<IPixelPosition>; // Where the projectile leaves the launcher
+    color: BubbleColor; // Loaded bubble
+    queue: ReadonlyArray<BubbleColor>; // Next colors, soonest first
+    gems: { own: number; opponent: number; toWin: number };
+    timeRemaining: number; // ms
+    allowBankShots: boolean; // Off for a weaker adaptive AI - only straight shots
+    targetObjective: boolean; // Off: objective hits are worth nothing special
+}
+
+export interface IAIShotDecision {
+    angle: number; // Degrees, 90 = straight down
+    score: number;
+    reasoning: string;
+}
+
+export interface IAIStrategy {
+    readonly name: string;
+    chooseShot(context: IAIShotContext, rng: RandomStream): IAIShotDecision;
+}
+
+/**
+ * Adaptive AI behaviour - see DifficultyRules.calculateAITuning
+ */
+export interface IAITuning {
+    skill: number; // 0-1, after match pressure
+    thinkTime: { min: number; max: number }; // ms
+    aimError: number; // Max degrees added either way to the chosen angle
+    bankShots: boolean;
+    objectiveTargeting: boolean;
+}
+
+export const RATING_FORMAT_VERSION = 1;
+
+export interface IPlayerRating {
+    rating: number;
+    matches: number;
+    wins: number;
+    losses: number;
+}
+
+export interface IPlayerRatingFile {
+    version: number;
+    player: IPlayerRating;
+}
+
+export type AIPersonalityId = 'sniper' | 'demolisher' | 'hoarder' | 'turtle';
+
+/**
+ * Moments an AI personality reacts to with a floating line
+ */
+export type AITauntTrigger =
+    | 'intro'
+    | 'big-clear' // AI cleared or dropped a lot in one shot
+    | 'power-up' // AI used a power-up
+    | 'player-big-clear'
+    | 'own-reset' // AI's field was reset
+    | 'player-reset'
+    | 'victory'
+    | 'defeat';
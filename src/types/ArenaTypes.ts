@@ -27,6 +27,18 @@ export interface IPixelPosition {
     y: number;
 }
 
+/**
+ * One opening-board bubble. Unset fields are filled in randomly by BubbleManager.
+ */
+export interface IFieldPosition {
+    hexPos: IHexPosition;
+    pixelPos: IPixelPosition;
+    color?: BubbleColor;
+    gem?: 'none' | 'normal' | 'golden';
+    mystery?: boolean | string; // true for a random power-up, or a power-up type
+    blocker?: boolean;
+}
+
 export enum BubbleColor {
     RED = 0xff0000,
     BLUE = 0x0000ff,
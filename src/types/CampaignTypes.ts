@@ -0,0 +1,31 @@
+/**
+ * Campaign types
+ * The puzzle campaign is a run of bundled levels grouped into themed chapters.
+ * Progress is the best star rating and score per level.
+ */
+
+import type { ThemeType } from '@/scenes/ThemeSelectScene';
+
+export const CAMPAIGN_FORMAT_VERSION = 1;
+
+export interface ICampaignChapter {
+    id: string;
+    name: string;
+    theme: ThemeType; // Background for the chapter's levels and its band on the world map
+    color: number; // World map accent
+    levelIds: string[]; // Played in order
+}
+
+export interface ICampaignLevelRecord {
+    stars: number; // Best rating, 1-3
+    bestScore: number;
+}
+
+export interface ICampaignProgress {
+    levels: Record<string, ICampaignLevelRecord>;
+}
+
+export interface ICampaignProgressFile {
+    version: number;
+    progress: ICampaignProgress;
+}
@@ -0,0 +1,76 @@
+/**
+ * Game mode types
+ * A mode declares how a match is won and lost, its clock, who the opponent is,
+ * where rows push in and the systems it runs; ArenaCoordinator builds the arena
+ * from it instead of per-mode flags.
+ */
+
+import type { Scene } from 'phaser';
+import type { IMatchRules } from '@/core/rules/VictoryRules';
+import type { GridAttachmentSystem } from '@/systems/gameplay/GridAttachmentSystem';
+import type { RowSpawnSystem } from '@/systems/gameplay/RowSpawnSystem';
+import type { ShootingSystem } from '@/systems/gameplay/ShootingSystem';
+import type { IPracticeArena } from '@/systems/practice/PracticeHistory';
+import type { ScoreEventManager } from '@/systems/scoring/ScoreEventManager';
+import type { DefeatScreen } from '@/ui/DefeatScreen';
+import type { VictoryScreen } from '@/ui/VictoryScreen';
+import type { IPixelPosition } from './ArenaTypes';
+import type { ILevelDefinition } from './LevelTypes';
+
+export type GameModeId = 'versus' | 'online' | 'local' | 'practice' | 'campaign' | 'survival' | 'time-attack';
+
+// Who shoots from the top launcher - 'local' is a second player on the same screen
+export type GameModeOpponent = 'ai' | 'remote' | 'local' | 'none';
+
+// What decides the match when the clock runs out
+export type TimeUpOutcome = 'gems' | 'score';
+
+// What the danger line costs: a partial reset, or the match
+export type FieldFullOutcome = 'reset' | 'lose';
+
+/**
+ * The arena as a mode system sees it - ArenaCoordinator in the game
+ */
+export interface IGameModeArena extends IPracticeArena {
+    readonly shootingSystem: ShootingSystem;
+    readonly rowSpawnSystem: RowSpawnSystem;
+    readonly gridAttachmentSystem: GridAttachmentSystem;
+    readonly isGameEnded: boolean;
+    getScene(): Scene;
+    getLevel(): ILevelDefinition | undefined;
+    getScoreEventManager(): ScoreEventManager | undefined;
+    getObjectivePosition(): IPixelPosition | undefined;
+    checkLevelGoal(): void; // Ends the match if the level's goal is met
+    addMatchTime(seconds: number): void;
+    endMatch(playerWins: boolean, reason: string): void;
+    restartMatch(): void;
+    leaveMatch(): void;
+}
+
+/**
+ * A system a mode runs on top of the core arena, started once the arena is built
+ * and stopped when it is torn down
+ */
+export interface IGameModeSystem {
+    start(): void;
+    stop(): void;
+    // Record the result - true when the system shows its own end screen instead
+    finishMatch?(playerWins: boolean, score: number): boolean;
+    showOnVictory?(screen: VictoryScreen): void;
+    showOnDefeat?(screen: DefeatScreen): void;
+}
+
+export type GameModeSystemFactory = (arena: IGameModeArena) => IGameModeSystem;
+
+export interface IGameMode {
+    id: GameModeId;
+    name: string;
+    opponent: GameModeOpponent;
+    rules: Readonly<IMatchRules>; // UNLIMITED gems turns gem victory off, UNLIMITED times remove the clock
+    levelRules: ReadonlyArray<keyof IMatchRules>; // A level's rules that replace the mode's
+    timeUp: TimeUpOutcome;
+    fieldFull: FieldFullOutcome;
+    rowSpawns: { top: boolean; bottom: boolean };
+    countdown: boolean; // Big countdown over the arena instead of the HUD clock
+    systems: ReadonlyArray<GameModeSystemFactory>;
+}
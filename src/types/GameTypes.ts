@@ -79,7 +79,13 @@ export enum SceneKeys {
     PRELOAD = 'PreloadScene',
     MENU = 'MenuScene',
     THEME_SELECT = 'ThemeSelectScene',
+    LOADOUT = 'LoadoutScene',
     GAME = 'GameScene',
+    REPLAY = 'ReplayScene',
+    EDITOR = 'EditorScene',
+    SETTINGS = 'SettingsScene',
+    TUTORIAL = 'TutorialScene',
+    WORLD_MAP = 'WorldMapScene',
     VICTORY = 'VictoryScene',
     SHOP = 'ShopScene'
 }
@@ -97,8 +103,26 @@ export interface IGameSettings {
     soundEnabled: boolean;
     musicEnabled: boolean;
     vibrationEnabled: boolean;
-    quality: 'low' | 'medium' | 'high' | 'auto';
+    quality: QualitySetting;
     language: string;
+    masterVolume: number; // 0-1
+    sfxVolume: number; // 0-1
+    musicVolume: number; // 0-1
+    trajectoryPreview: boolean;
+    aimSensitivity: number; // 0.1-1, see InputManager.setSensitivity
+    reducedMotion: boolean; // No camera shake or background animation
+}
+
+export type QualitySetting = 'low' | 'medium' | 'high' | 'auto';
+
+export const SETTINGS_FORMAT_VERSION = 1;
+
+/**
+ * What SettingsStore writes to local storage
+ */
+export interface ISettingsFile {
+    version: number;
+    settings: IGameSettings;
 }
 
 export interface IGameState {
@@ -0,0 +1,48 @@
+/**
+ * Level file types
+ * Handcrafted boards for tutorials and the puzzle campaign, authored as JSON in
+ * src/levels/. Colors are written by name so files stay readable.
+ */
+
+export const LEVEL_FORMAT_VERSION = 1;
+
+export type LevelColorName = 'red' | 'blue' | 'green' | 'yellow' | 'purple';
+
+export interface ILevelCell {
+    q: number;
+    r: number;
+    color?: LevelColorName; // Omitted: picked from allowedColors
+    gem?: 'normal' | 'golden';
+    mystery?: boolean | string; // true for a random power-up, or a power-up type
+    blocker?: boolean;
+}
+
+export type LevelWinCondition =
+    | { type: 'gems'; target?: number } // Gem race, GDD target unless given
+    | { type: 'clear' } // Pop or drop every non-blocker bubble
+    | { type: 'objective' }; // Free the objective - clear every bubble touching it
+
+/**
+ * Campaign star thresholds - a win is one star; the score plus a bonus per
+ * unused shot earns the second and third
+ */
+export interface ILevelStars {
+    two: number;
+    three: number;
+}
+
+export interface ILevelDefinition {
+    version: number;
+    id: string;
+    name: string;
+    description?: string;
+    theme?: string;
+    allowedColors: LevelColorName[];
+    startingQueue?: LevelColorName[]; // Player's first shots, in order
+    winCondition: LevelWinCondition;
+    timeLimit?: number; // Seconds - GDD match length unless given
+    spawnRows?: boolean; // New rows push in over time (default true)
+    shotLimit?: number; // Player shots before the level is lost
+    stars?: ILevelStars;
+    cells: ILevelCell[];
+}
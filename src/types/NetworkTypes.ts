@@ -0,0 +1,126 @@
+/**
+ * Online multiplayer types
+ * Messages are plain JSON so every adapter (Firebase, loopback) can carry them as-is.
+ */
+
+export type NetworkStatus = 'idle' | 'connecting' | 'waiting' | 'connected' | 'disconnected';
+
+export interface INetworkHelloMessage {
+    type: 'hello';
+    joinedAt: number; // Earliest joiner hosts the match
+    seed: number; // Proposed match seed - the host's one is used
+    theme: string;
+}
+
+export interface INetworkShotMessage {
+    type: 'shot';
+    angle: number; // Degrees, from the sender's own point of view
+    color: number;
+    timestamp: number; // ms since match start
+}
+
+export interface INetworkPowerUpMessage {
+    type: 'powerup';
+    powerUpType: string;
+    timestamp: number;
+}
+
+export interface INetworkHeartbeatMessage {
+    type: 'heartbeat';
+}
+
+export interface INetworkLeaveMessage {
+    type: 'leave';
+}
+
+/**
+ * Arena state as seen by one peer - the input of the lockstep checksum
+ */
+export interface IGridCellState {
+    q: number;
+    r: number;
+    color: number;
+    gem: 'none' | 'normal' | 'golden';
+}
+
+export interface IArenaStateDump {
+    cells: IGridCellState[];
+    playerGems: number;
+    opponentGems: number;
+}
+
+/**
+ * Shots each side has fired so far, in the host's perspective
+ */
+export interface INetworkTurns {
+    host: number;
+    guest: number;
+}
+
+export interface INetworkChecksumMessage {
+    type: 'checksum';
+    epoch: number; // Bumped by the host on every resync - older checksums are ignored
+    step: number; // Resolved grid changes since the match (or the last resync) started
+    turns: INetworkTurns; // Shots the sender had sent and received when it hashed the state
+    hash: number;
+}
+
+export interface INetworkStateMessage {
+    type: 'state';
+    purpose: 'report' | 'resync';
+    epoch: number;
+    step: number;
+    state: IArenaStateDump; // Always in the host's perspective
+}
+
+export type NetworkMessage =
+    | INetworkHelloMessage
+    | INetworkShotMessage
+    | INetworkPowerUpMessage
+    | INetworkHeartbeatMessage
+    | INetworkLeaveMessage
+    | INetworkChecksumMessage
+    | INetworkStateMessage;
+
+export interface INetworkEnvelope {
+    from: string; // Sender peer id
+    seq: number; // Per-sender sequence number
+    sentAt: number; // Wall clock, ms
+    message: NetworkMessage;
+}
+
+/**
+ * Transport used by NetworkSession - one instance per local peer
+ */
+export interface INetworkAdapter {
+    connect(roomId: string, peerId: string): Promise<void>;
+    send(envelope: INetworkEnvelope): void;
+    onReceive(handler: (envelope: INetworkEnvelope) => void): void;
+    disconnect(): Promise<void>;
+}
+
+/**
+ * Same shape as GAME_CONSTANTS.NETWORKING
+ */
+export interface INetworkSettings {
+    SYNC_RATE: number; // ms between outgoing flushes
+    TIMEOUT: number; // ms of silence before the peer counts as gone
+    RECONNECT_ATTEMPTS: number;
+}
+
+export interface INetworkMatchInfo {
+    isHost: boolean;
+    remotePeerId: string;
+    seed: number;
+    theme: string;
+}
+
+export interface IDesyncReport {
+    epoch: number;
+    step: number;
+    localHash: number;
+    remoteHash: number;
+    localState: IArenaStateDump; // Host perspective
+    remoteState: IArenaStateDump; // Host perspective
+    differences: string[];
+}
@@ -0,0 +1,92 @@
+/**
+ * Power-up catalogue types
+ * Every power-up is a JSON file in src/powerups/: its stats, how it aims and the
+ * effect primitives it is built from. Variants are new files, not new code.
+ */
+
+import { IPixelPosition } from '@/types/ArenaTypes';
+import { LevelColorName } from '@/types/LevelTypes';
+
+export const POWER_UP_FORMAT_VERSION = 1;
+
+// Power-up kinds - what the AI and the HUD treat a catalogue entry as
+export enum PowerUpType {
+    BOMB = 'bomb',           // Explodes in area
+    LASER = 'laser',         // Destroys entire line
+    RAINBOW = 'rainbow',     // Matches any color
+    MULTIPLIER = 'multiplier', // Score multiplier
+    FREEZE = 'freeze',       // Slows down time
+    LIGHTNING = 'lightning', // Chain reaction
+    MAGNET = 'magnet',      // Attracts bubbles
+    SHIELD = 'shield',      // Protection from danger
+    JUNK_ROWS = 'junk_rows', // Pushes rows into the opponent's side
+    INK = 'ink',            // Blots out the opponent's aim
+    COLOR_SWAP = 'color_swap', // Recolors the opponent's queue
+    JAM = 'jam'             // Slows the opponent's reload
+}
+
+// Catalogue id - the built-in power-ups use their PowerUpType value
+export type PowerUpId = string;
+
+/**
+ * Effect building blocks. Board primitives land where the next shot does;
+ * attack primitives hit the opponent once their counter-window runs out;
+ * the rest take effect on activation.
+ */
+export type PowerUpPrimitive =
+    | { type: 'area-clear' } // Every bubble within the radius of the impact
+    | { type: 'line-clear' } // The impact's whole row
+    | { type: 'color-convert'; color?: LevelColorName } // Bubbles within the radius turn the shot's color, or this one
+    | { type: 'chain'; jumps: number } // Strike jumps from bubble to bubble of the struck color
+    | { type: 'time-scale'; scale: number } // The arena runs at this speed for the duration
+    | { type: 'shield' } // Absorbs the next reset or danger-zone row push
+    | { type: 'magnet' } // Next shot pulls nearby bubbles of its color and draws in gems
+    | { type: 'junk-rows'; rows: number } // Rows of garbage pushed into the opponent's side
+    | { type: 'ink' } // The opponent's aim is blotted out for the duration
+    | { type: 'color-swap' } // Every bubble in the opponent's queue changes color
+    | { type: 'jam'; factor: number }; // The opponent's cooldown is this many times longer for the duration
+
+export type PowerUpPrimitiveType = PowerUpPrimitive['type'];
+
+export const ATTACK_PRIMITIVES: ReadonlyArray<PowerUpPrimitiveType> = ['junk-rows', 'ink', 'color-swap', 'jam'];
+
+export interface IPowerUpDefinition {
+    version: number;
+    id: PowerUpId;
+    kind: PowerUpType;
+    name: string;
+    description: string;
+    icon: string;
+    color: string; // #RRGGBB
+    weight: number; // Mystery bubble roll weight - 0 never rolls
+    unlockStars?: number; // Campaign stars before it can join a loadout (default 0)
+    aimingMode: string; // AimingMode value
+    shots?: number; // Shots it lasts (default 1)
+    radius?: number; // px - area clear, color convert and magnet reach
+    duration?: number; // ms - time scale, ink and jam
+    objectiveDamage?: number; // Dealt when a strike touches the objective
+    effects: PowerUpPrimitive[];
+}
+
+/**
+ * Bubbles a power-up destroys outright - ArenaCoordinator pops them, hands out
+ * their gems and drops whatever is cut loose
+ */
+export interface IPowerUpStrike {
+    id: PowerUpId;
+    isPlayer: boolean;
+    target?: IPixelPosition; // Center of the flash
+    radius: number;
+    color: number;
+    cells: Array<{ q: number; r: number }>;
+}
+
+export const LOADOUT_FORMAT_VERSION = 1;
+
+/**
+ * What LoadoutStore writes to local storage - the picks of the last match
+ */
+export interface ILoadoutFile {
+    version: number;
+    loadout: PowerUpId[];
+}
@@ -0,0 +1,83 @@
+/**
+ * Replay log types
+ * A replay is the match seed + theme + a timestamped list of gameplay events.
+ * Everything stored here must be plain JSON (no game objects).
+ */
+
+export const REPLAY_FORMAT_VERSION = 1;
+
+export type ReplayEventType =
+    | 'shot-fired'
+    | 'bubble-attached'
+    | 'match-completed'
+    | 'reset-completed'
+    | 'powerup-activated'
+    | 'game-over';
+
+export interface IReplayShotData {
+    isPlayer: boolean;
+    angle: number;
+    color: number;
+}
+
+export interface IReplayAttachData {
+    isPlayer: boolean;
+    q: number;
+    r: number;
+    color: number;
+}
+
+export interface IReplayMatchData {
+    isPlayer: boolean;
+    count: number;
+    score: number;
+    combo: number;
+}
+
+export interface IReplayResetData {
+    isPlayer: boolean;
+    gemsLost: number;
+    rowsCleared: number;
+}
+
+export interface IReplayPowerUpData {
+    isPlayer: boolean;
+    type: string;
+    plan?: IReplayAIPowerUpPlan; // AI power-ups fired at the arena
+}
+
+export interface IReplayAIPowerUpPlan {
+    type: string; // PowerUpType
+    target: { x: number; y: number } | null;
+    cells: Array<{ q: number; r: number }>;
+}
+
+export interface IReplayGameOverData {
+    winner: 'player' | 'opponent' | 'tie';
+    reason: string;
+}
+
+export interface IReplayEventDataMap {
+    'shot-fired': IReplayShotData;
+    'bubble-attached': IReplayAttachData;
+    'match-completed': IReplayMatchData;
+    'reset-completed': IReplayResetData;
+    'powerup-activated': IReplayPowerUpData;
+    'game-over': IReplayGameOverData;
+}
+
+export interface IReplayEvent<K extends ReplayEventType = ReplayEventType> {
+    type: K;
+    time: number; // ms since match start
+    data: IReplayEventDataMap[K];
+}
+
+export interface IReplayLog {
+    version: number;
+    id: string;
+    seed: number;
+    theme: string;
+    recordedAt: string; // ISO date
+    duration: number; // ms
+    events: IReplayEvent[];
+}
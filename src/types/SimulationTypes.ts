@@ -0,0 +1,56 @@
+/**
+ * Headless match simulation types
+ * Everything here is plain data so results can be logged or compared across runs.
+ */
+
+import { MatchSide } from '@/core/rules/VictoryRules';
+
+export type SimulationTheme = 'ocean' | 'space';
+
+export type GemSource = 'objective' | 'field' | 'thrown';
+
+export interface ISimulatedPlayerConfig {
+    thinkTimeMin: number; // ms before a shot is taken
+    thinkTimeMax: number;
+    accuracy: number; // 0-1 chance of taking the best shot instead of a random one
+}
+
+export interface IMatchSimulatorConfig {
+    theme: SimulationTheme;
+    player: ISimulatedPlayerConfig;
+    opponent: ISimulatedPlayerConfig;
+    tickMs: number; // Simulation step
+}
+
+export interface ISideStats {
+    shots: number;
+    matches: number;
+    bubblesPopped: number;
+    objectiveHits: number;
+    resets: number;
+    gemsLost: number;
+    finalGems: number;
+    gemsBySource: Record<GemSource, number>;
+}
+
+export interface IMatchStats {
+    seed: number;
+    winner: MatchSide | 'tie';
+    reason: string;
+    duration: number; // ms of match time
+    reachedSuddenDeath: boolean;
+    rowSpawns: number;
+    player: ISideStats;
+    opponent: ISideStats;
+}
+
+export interface IBatchStats {
+    matches: number;
+    playerWinRate: number;
+    opponentWinRate: number;
+    tieRate: number;
+    averageDuration: number;
+    averageResets: Record<MatchSide, number>;
+    averageGemsBySource: Record<GemSource, number>; // Per side per match
+    winReasons: Record<string, number>;
+}
@@ -0,0 +1,60 @@
+/**
+ * Arena snapshot types
+ * A snapshot is everything needed to rebuild a running match: the grid, both
+ * launchers, the objective, the clock and the game state. Plain JSON only.
+ */
+
+import type { IGameState } from '@/core/GameStateManager';
+import type { RandomStreamName } from '@/core/RandomService';
+import { IGridCellState } from './NetworkTypes';
+import { PowerUpPrimitive } from './PowerUpTypes';
+
+export const ARENA_SNAPSHOT_VERSION = 1;
+
+export interface IBubbleSnapshot extends IGridCellState {
+    special?: boolean;
+    blocker?: boolean;
+    mystery?: string; // Power-up currently shown by a mystery bubble
+}
+
+export interface IArsenalSlotSnapshot {
+    type: string | null;
+    count: number;
+}
+
+export interface IAttackEffectSnapshot {
+    primitive: Extract<PowerUpPrimitive, { type: 'ink' | 'jam' }>;
+    remaining: number; // ms until it wears off
+}
+
+export interface ILauncherSnapshot {
+    loaded: number | null; // Color of the bubble in the launcher
+    next: number[]; // Queue colors, next shot first
+    arsenal: IArsenalSlotSnapshot[];
+    activePowerUp: string | null; // Still waiting on its shots
+    powerUpShots?: number; // Shots the active power-up has left
+    shield?: boolean; // SHIELD charge waiting to absorb a hit
+    magnet?: number; // Reach of an armed MAGNET
+    effects?: IAttackEffectSnapshot[]; // Ink and jam still wearing off on this side
+}
+
+export interface IObjectiveSnapshot {
+    health: number;
+    maxHealth: number;
+    shielded: boolean;
+}
+
+export interface IArenaSnapshot {
+    version: number;
+    createdAt: string; // ISO date
+    seed: number;
+    theme: string;
+    rng: Partial<Record<RandomStreamName, number>>;
+    elapsedTime: number; // ms since match start
+    suddenDeath: boolean;
+    bubbles: IBubbleSnapshot[];
+    player: ILauncherSnapshot;
+    opponent: ILauncherSnapshot;
+    objective: IObjectiveSnapshot | null;
+    gameState: IGameState;
+}
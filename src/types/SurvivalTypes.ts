@@ -0,0 +1,18 @@
+/**
+ * Survival types
+ * Solo runs against an ever faster ceiling; the best runs are kept as local high scores.
+ */
+
+export const SURVIVAL_FORMAT_VERSION = 1;
+
+export interface ISurvivalScore {
+    score: number; // ScoreEventManager player score
+    wave: number; // Wave reached when the field crossed the danger line
+    rows: number; // Row pushes survived
+    date: string; // ISO timestamp of the run
+}
+
+export interface ISurvivalScoresFile {
+    version: number;
+    scores: ISurvivalScore[];
+}
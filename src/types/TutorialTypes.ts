@@ -0,0 +1,49 @@
+/**
+ * Tutorial types
+ * The onboarding script is a list of steps, each played on a bundled level with
+ * a highlight, an optional aim restriction and a goal met by gameplay events.
+ */
+
+export const TUTORIAL_FORMAT_VERSION = 1;
+
+/**
+ * What a step points the player at
+ */
+export type TutorialHighlight =
+    | { type: 'cell'; q: number; r: number }
+    | { type: 'wall'; side: 'left' | 'right' }
+    | { type: 'launcher' }
+    | { type: 'arsenal' }
+    | { type: 'danger-line' };
+
+/**
+ * GameEventBus events a goal can wait for - only the player's count
+ */
+export type TutorialGoalEvent = 'match-completed' | 'cascade-completed' | 'gem-collected' | 'powerup-activated';
+
+export interface ITutorialGoal {
+    event: TutorialGoalEvent;
+    count?: number; // Times it must happen (default 1)
+    bankShot?: boolean; // Only shots that bounced off a wall count
+    powerUp?: string; // powerup-activated of this power-up type only
+}
+
+export interface ITutorialStep {
+    id: string;
+    title: string;
+    text: string;
+    levelId: string; // Bundled level the step is played on
+    highlights: TutorialHighlight[];
+    aim?: { minAngle: number; maxAngle: number }; // Launcher degrees, 90 = straight up, 15 = far left
+    goal: ITutorialGoal;
+}
+
+export interface ITutorialProgress {
+    completed: boolean; // Finished or skipped - the tutorial is not offered again
+    stepsCompleted: number;
+}
+
+export interface ITutorialProgressFile {
+    version: number;
+    progress: ITutorialProgress;
+}
@@ -0,0 +1,72 @@
+import { Scene } from 'phaser';
+import { Z_LAYERS } from '@/config/ArenaConfig';
+import { HD_SCALE } from '@/config/GameConfig';
+
+/**
+ * ArsenalMeterUI - Upright charge bar beside a launcher
+ * Fills from the bottom and flashes when the meter pays out a power-up.
+ */
+export class ArsenalMeterUI {
+    private scene: Scene;
+    private container: Phaser.GameObjects.Container;
+    private fill: Phaser.GameObjects.Graphics;
+    private color: number;
+    private readonly BAR_WIDTH = 8 * HD_SCALE;
+    private readonly BAR_HEIGHT = 50 * HD_SCALE;
+
+    constructor(scene: Scene, x: number, y: number, isOpponent: boolean) {
+        this.scene = scene;
+        this.color = isOpponent ? 0xFF4466 : 0x00E5FF;
+
+        this.container = scene.add.container(x, y);
+        this.container.setDepth(Z_LAYERS.UI);
+
+        const left = -this.BAR_WIDTH / 2;
+        const top = -this.BAR_HEIGHT / 2;
+        const frame = scene.add.graphics();
+        frame.fillStyle(0x000000, 0.6);
+        frame.fillRoundedRect(left, top, this.BAR_WIDTH, this.BAR_HEIGHT, 3 * HD_SCALE);
+        frame.lineStyle(2, 0xFFFFFF, 0.5);
+        frame.strokeRoundedRect(left, top, this.BAR_WIDTH, this.BAR_HEIGHT, 3 * HD_SCALE);
+
+        this.fill = scene.add.graphics();
+
+        const icon = scene.add.text(0, this.BAR_HEIGHT / 2 + 8 * HD_SCALE, '⚡', {
+            fontSize: `${9 * HD_SCALE}px`,
+            fontFamily: 'Arial'
+        });
+        icon.setOrigin(0.5);
+
+        this.container.add([frame, this.fill, icon]);
+        this.setCharge(0);
+    }
+
+    /**
+     * Share of the meter filled, 0-1
+     */
+    public setCharge(fraction: number): void {
+        const height = (this.BAR_HEIGHT - 4) * Phaser.Math.Clamp(fraction, 0, 1);
+        this.fill.clear();
+        if (height <= 0) {
+            return;
+        }
+        this.fill.fillStyle(this.color, 0.9);
+        this.fill.fillRect(-this.BAR_WIDTH / 2 + 2, this.BAR_HEIGHT / 2 - 2 - height, this.BAR_WIDTH - 4, height);
+    }
+
+    /**
+     * Full meter - a quick pulse as the power-up goes into the arsenal
+     */
+    public flash(): void {
+        this.scene.tweens.add({
+            targets: this.container,
+            scale: { from: 1.4, to: 1 },
+            duration: 400,
+            ease: 'Back.easeOut'
+        });
+    }
+
+    public destroy(): void {
+        this.container.destroy();
+    }
+}
@@ -1,6 +1,9 @@
 import Phaser from 'phaser';
 
 export class DefeatScreen extends Phaser.GameObjects.Container {
+    private encourageText: Phaser.GameObjects.Text;
+    private motivationText: Phaser.GameObjects.Text;
+
     constructor(
         scene: Phaser.Scene, 
         finalScore: number, 
@@ -42,6 +45,7 @@ export class DefeatScreen extends Phaser.GameObjects.Container {
             fontFamily: 'Arial',
             fontStyle: 'italic'
         }).setOrigin(0.5);
+        this.encourageText = encourageText;
         
         // Score section
         const scoreBg = scene.add.rectangle(0, -10, 280, 70, 0x1a1a2e, 0.8);
@@ -71,6 +75,7 @@ export class DefeatScreen extends Phaser.GameObjects.Container {
             color: '#FFA500',
             fontFamily: 'Arial'
         }).setOrigin(0.5);
+        this.motivationText = motivationText;
         
         // Buttons - Retry is more prominent
         const retryBtn = this.createButton(
@@ -152,7 +157,22 @@ export class DefeatScreen extends Phaser.GameObjects.Container {
         this.setDepth(2000); // UI layer depth
         scene.add.existing(this);
     }
-    
+
+    /**
+     * Survival run summary in place of the encouragement lines
+     * @param rank 0-based place in the high scores, -1 if the run did not make it
+     */
+    public showSurvivalResult(wave: number, rank: number, bestScore: number): void {
+        this.encourageText.setText(`Reached wave ${wave}`);
+        if (rank === 0) {
+            this.motivationText.setText('NEW HIGH SCORE!');
+        } else if (rank > 0) {
+            this.motivationText.setText(`#${rank + 1} on your high scores`);
+        } else {
+            this.motivationText.setText(`Best: ${bestScore}`);
+        }
+    }
+
     private createButton(
         scene: Phaser.Scene, 
         x: number, 
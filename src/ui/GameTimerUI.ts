@@ -8,15 +8,20 @@ export class GameTimerUI {
     private suddenDeathText?: Phaser.GameObjects.Text;
     private background!: Phaser.GameObjects.Graphics;
     
-    private readonly GAME_DURATION = 180000; // 3 minutes
-    private readonly SUDDEN_DEATH_TIME = 150000; // 2:30
+    private gameDuration = 180000; // 3 minutes
+    private readonly SUDDEN_DEATH_TIME: number = 150000; // 2:30
     private startTime: number;
     private isInSuddenDeath: boolean = false;
     private pulseTimer?: Phaser.Tweens.Tween;
     
-    constructor(scene: Scene) {
+    /**
+     * @param options Clock length and sudden death start in ms - the PvP 3:00 / 2:30 by default
+     */
+    constructor(scene: Scene, options: { duration?: number; suddenDeathTime?: number } = {}) {
         this.scene = scene;
         this.startTime = Date.now();
+        this.gameDuration = options.duration ?? this.gameDuration;
+        this.SUDDEN_DEATH_TIME = options.suddenDeathTime ?? this.SUDDEN_DEATH_TIME;
         this.create();
         this.setupEventListeners();
     }
@@ -56,9 +61,12 @@ export class GameTimerUI {
         this.scene.events.once('shutdown', this.destroy, this);
     }
     
-    public update(): void {
-        const elapsed = Date.now() - this.startTime;
-        const remaining = Math.max(0, this.GAME_DURATION - elapsed);
+    /**
+     * Redraw the countdown
+     * @param elapsed Match time in ms - wall clock time since construction if not given
+     */
+    public update(elapsed: number = Date.now() - this.startTime): void {
+        const remaining = Math.max(0, this.gameDuration - elapsed);
         
         // Format time as MM:SS
         const minutes = Math.floor(remaining / 60000);
@@ -75,7 +83,17 @@ export class GameTimerUI {
                 if (!this.pulseTimer) {
                     this.startPulsing();
                 }
-            } else if (remaining <= 60000) {
+                return;
+            }
+
+            // Back above 30 seconds after a time bonus
+            if (this.pulseTimer) {
+                this.pulseTimer.stop();
+                this.pulseTimer = undefined;
+                this.timerText.setScale(1);
+            }
+
+            if (remaining <= 60000) {
                 // Last minute - orange
                 this.timerText.setColor('#FFA500');
             } else if (elapsed >= this.SUDDEN_DEATH_TIME - 10000) {
@@ -89,6 +107,32 @@ export class GameTimerUI {
         }
     }
     
+    /**
+     * Lengthen the clock, e.g. for a time bonus, and flash the seconds gained
+     */
+    public addTime(ms: number): void {
+        this.gameDuration += ms;
+
+        const bonusText = this.scene.add.text(0, 30, `+${Math.round(ms / 1000)}s`, {
+            fontSize: '22px',
+            fontStyle: 'bold',
+            color: '#00FF88',
+            stroke: '#000000',
+            strokeThickness: 3
+        });
+        bonusText.setOrigin(0.5);
+        this.container.add(bonusText);
+
+        this.scene.tweens.add({
+            targets: bonusText,
+            y: 60,
+            alpha: 0,
+            duration: 1000,
+            ease: 'Power2',
+            onComplete: () => bonusText.destroy()
+        });
+    }
+
     private showSuddenDeathWarning(): void {
         if (this.suddenDeathText || this.isInSuddenDeath) return;
         
@@ -1,6 +1,8 @@
 import { Scene } from 'phaser';
-import { PowerUpType } from '@/systems/powerups/PowerUpManager';
+import { getPowerUpDefinition } from '@/powerups';
+import { PowerUpId } from '@/types/PowerUpTypes';
 import { Z_LAYERS } from '@/config/ArenaConfig';
+import { HapticManager } from '@/systems/audio/HapticManager';
 
 interface InventorySlot {
     container: Phaser.GameObjects.Container;
@@ -8,7 +10,7 @@ interface InventorySlot {
     icon: Phaser.GameObjects.Text;
     countText: Phaser.GameObjects.Text;
     keyHint: Phaser.GameObjects.Text;
-    powerUpType?: PowerUpType;
+    powerUpType?: PowerUpId;
     count: number;
 }
 
@@ -30,18 +32,6 @@ export class PowerUpInventoryUI {
         ACTIVATING: { color: 0xFFD700, alpha: 1.0 }
     };
     
-    // Power-up icons
-    private powerUpIcons: Record<PowerUpType, string> = {
-        [PowerUpType.RAINBOW]: '🌈',
-        [PowerUpType.BOMB]: '💣',
-        [PowerUpType.LIGHTNING]: '⚡',
-        [PowerUpType.FREEZE]: '❄️',
-        [PowerUpType.LASER]: '🎯',
-        [PowerUpType.MULTIPLIER]: '✨',
-        [PowerUpType.SHIELD]: '🛡️',
-        [PowerUpType.MAGNET]: '🧲'
-    };
-    
     constructor(scene: Scene, isOpponent: boolean = false) {
         this.scene = scene;
         this.isOpponent = isOpponent;
@@ -237,10 +227,8 @@ export class PowerUpInventoryUI {
             );
             
             slot.container.on('pointerdown', () => {
-                // Haptic feedback for mobile
-                if ('vibrate' in navigator) {
-                    navigator.vibrate(30); // Light haptic feedback
-                }
+                // Haptic feedback for mobile (respects the vibration setting)
+                HapticManager.getInstance().uiClick();
                 this.activateSlot(index);
                 
                 // Visual press feedback
@@ -255,7 +243,7 @@ export class PowerUpInventoryUI {
         });
     }
     
-    private addPowerUp(type: PowerUpType): void {
+    private addPowerUp(type: PowerUpId): void {
         console.log(`Adding power-up to inventory: ${type}`);
         
         // Check if we already have this power-up
@@ -274,7 +262,7 @@ export class PowerUpInventoryUI {
                 console.log(`Adding ${type} to empty slot`);
                 slot.powerUpType = type;
                 slot.count = 1;
-                slot.icon.setText(this.powerUpIcons[type]);
+                slot.icon.setText(getPowerUpDefinition(type)?.icon ?? '');
                 
                 // Add collection animation
                 this.scene.tweens.add({
@@ -0,0 +1,105 @@
+import { Scene } from 'phaser';
+import { Z_LAYERS } from '@/config/ArenaConfig';
+import { HD_SCALE } from '@/config/GameConfig';
+import { BubbleColor } from '@/types/ArenaTypes';
+
+export interface IPracticePanelActions {
+    onUndo: () => void;
+    onToggleRows: () => boolean; // Returns whether rows are now frozen
+    onPickColor: (color: BubbleColor) => void;
+}
+
+/**
+ * Practice mode controls next to the player's launcher:
+ * undo the last shot, freeze row spawning and pick the next bubble color
+ */
+export class PracticePanel {
+    private scene: Scene;
+    private container: Phaser.GameObjects.Container;
+    private rowsText!: Phaser.GameObjects.Text;
+    private messageText!: Phaser.GameObjects.Text;
+    private actions: IPracticePanelActions;
+
+    constructor(scene: Scene, colors: BubbleColor[], actions: IPracticePanelActions) {
+        this.scene = scene;
+        this.actions = actions;
+
+        const { width, height } = scene.cameras.main;
+        this.container = scene.add.container(width - 68 * HD_SCALE, height - 130 * HD_SCALE);
+        this.container.setDepth(Z_LAYERS.UI + 10);
+
+        const bg = scene.add.graphics();
+        bg.fillStyle(0x000000, 0.6);
+        bg.fillRoundedRect(-65 * HD_SCALE, -30 * HD_SCALE, 130 * HD_SCALE, 80 * HD_SCALE, 10);
+        this.container.add(bg);
+
+        this.createButtons();
+        this.createColorPicker(colors);
+
+        scene.events.once('shutdown', () => this.destroy());
+    }
+
+    private createButtons(): void {
+        const undo = this.createText(-32 * HD_SCALE, -15 * HD_SCALE, 'UNDO');
+        undo.on('pointerdown', () => this.actions.onUndo());
+
+        this.rowsText = this.createText(32 * HD_SCALE, -15 * HD_SCALE, 'ROWS: ON');
+        this.rowsText.on('pointerdown', () => {
+            const frozen = this.actions.onToggleRows();
+            this.rowsText.setText(frozen ? 'ROWS: OFF' : 'ROWS: ON');
+        });
+
+        this.messageText = this.scene.add.text(0, 38 * HD_SCALE, '', {
+            fontSize: `${8 * HD_SCALE}px`,
+            fontFamily: 'Arial',
+            color: '#ffd700'
+        });
+        this.messageText.setOrigin(0.5);
+        this.container.add(this.messageText);
+    }
+
+    private createColorPicker(colors: BubbleColor[]): void {
+        const spacing = 24 * HD_SCALE;
+        const startX = -((colors.length - 1) * spacing) / 2;
+
+        colors.forEach((color, index) => {
+            const swatch = this.scene.add.circle(startX + index * spacing, 15 * HD_SCALE, 10 * HD_SCALE, color);
+            swatch.setStrokeStyle(2, 0xffffff, 0.8);
+            swatch.setInteractive({ useHandCursor: true });
+            swatch.setData('uiControl', true);
+            swatch.on('pointerdown', () => this.actions.onPickColor(color));
+            this.container.add(swatch);
+        });
+    }
+
+    private createText(x: number, y: number, label: string): Phaser.GameObjects.Text {
+        const text = this.scene.add.text(x, y, label, {
+            fontSize: `${10 * HD_SCALE}px`,
+            fontFamily: 'Arial Black',
+            color: '#ffffff',
+            stroke: '#000000',
+            strokeThickness: 2
+        });
+        text.setOrigin(0.5);
+        text.setInteractive({ useHandCursor: true });
+        text.setData('uiControl', true);
+        this.container.add(text);
+        return text;
+    }
+
+    /**
+     * Short feedback under the controls ("Nothing to undo")
+     */
+    public showMessage(message: string): void {
+        this.messageText.setText(message);
+        this.scene.time.delayedCall(1500, () => {
+            if (this.messageText.text === message) {
+                this.messageText.setText('');
+            }
+        });
+    }
+
+    public destroy(): void {
+        this.container.destroy();
+    }
+}
@@ -0,0 +1,164 @@
+import Phaser from 'phaser';
+import { ScoreEventType } from '@/systems/scoring/ScoreEventManager';
+
+const BREAKDOWN_LABELS: Record<ScoreEventType, string> = {
+    [ScoreEventType.BUBBLE_MATCH]: 'Matches',
+    [ScoreEventType.ORPHAN_DROP]: 'Drops',
+    [ScoreEventType.POWER_UP]: 'Power-ups',
+    [ScoreEventType.CHAIN_COMBO]: 'Chains',
+    [ScoreEventType.SPECIAL_BONUS]: 'Specials',
+    [ScoreEventType.OBJECTIVE_HIT]: 'Objective hits',
+    [ScoreEventType.TIME_BONUS]: 'Time bonuses',
+    [ScoreEventType.PERFECT_SHOT]: 'Perfect shots'
+};
+
+/**
+ * Time Attack results - the final score and where its points came from
+ */
+export class TimeAttackResultsScreen extends Phaser.GameObjects.Container {
+    constructor(
+        scene: Phaser.Scene,
+        finalScore: number,
+        breakdown: ReadonlyMap<ScoreEventType, number>,
+        bonusSeconds: number,
+        onRetry: () => void,
+        onMenu: () => void
+    ) {
+        super(scene, scene.cameras.main.centerX, scene.cameras.main.centerY);
+
+        const backdrop = scene.add.rectangle(
+            0, 0,
+            scene.cameras.main.width * 2,
+            scene.cameras.main.height * 2,
+            0x000000, 0.85
+        );
+        backdrop.setInteractive(); // Block clicks
+
+        const panelBg = scene.add.rectangle(0, 0, 420, 560, 0x1a1a2e, 0.95);
+        panelBg.setStrokeStyle(3, 0x00FF88);
+
+        const title = scene.add.text(0, -240, 'TIME\'S UP!', {
+            fontSize: '42px',
+            color: '#FFFFFF',
+            fontFamily: 'Arial Black',
+            fontStyle: 'bold'
+        }).setOrigin(0.5);
+        title.setShadow(2, 2, '#000000', 5);
+
+        const scoreValue = scene.add.text(0, -175, '0', {
+            fontSize: '48px',
+            color: '#FFD700',
+            fontFamily: 'Arial Black',
+            fontStyle: 'bold'
+        }).setOrigin(0.5);
+
+        const bonusText = scene.add.text(0, -130, `+${bonusSeconds}s earned from big matches`, {
+            fontSize: '16px',
+            color: '#00FF88',
+            fontFamily: 'Arial'
+        }).setOrigin(0.5);
+
+        this.add([backdrop, panelBg, title, scoreValue, bonusText]);
+        this.addBreakdown(scene, breakdown, -90);
+
+        const retryBtn = this.createButton(scene, 0, 190, 'PLAY AGAIN', 0x00AA66, true, onRetry);
+        const menuBtn = this.createButton(scene, 0, 250, 'Main Menu', 0x5C5C8A, false, onMenu);
+        this.add([retryBtn, menuBtn]);
+
+        this.setAlpha(0);
+        scene.tweens.add({
+            targets: this,
+            alpha: 1,
+            duration: 400,
+            ease: 'Power2'
+        });
+
+        // Count the score up
+        const counter = { value: 0 };
+        scene.tweens.add({
+            targets: counter,
+            value: finalScore,
+            duration: 1200,
+            ease: 'Cubic.easeOut',
+            delay: 300,
+            onUpdate: () => scoreValue.setText(Math.floor(counter.value).toString())
+        });
+
+        this.setDepth(2000); // UI layer depth
+        scene.add.existing(this);
+    }
+
+    /**
+     * One row per event type that scored, biggest first
+     */
+    private addBreakdown(scene: Phaser.Scene, breakdown: ReadonlyMap<ScoreEventType, number>, top: number): void {
+        const rows = Array.from(breakdown.entries())
+            .filter(([, points]) => points > 0)
+            .sort((a, b) => b[1] - a[1]);
+
+        if (rows.length === 0) {
+            this.add(scene.add.text(0, top + 20, 'No points this time', {
+                fontSize: '18px',
+                color: '#B8B8B8',
+                fontFamily: 'Arial',
+                fontStyle: 'italic'
+            }).setOrigin(0.5));
+            return;
+        }
+
+        rows.forEach(([type, points], index) => {
+            const y = top + index * 32;
+            const label = scene.add.text(-160, y, BREAKDOWN_LABELS[type], {
+                fontSize: '20px',
+                color: '#FFFFFF',
+                fontFamily: 'Arial'
+            }).setOrigin(0, 0.5);
+            const value = scene.add.text(160, y, points.toString(), {
+                fontSize: '20px',
+                color: '#FFD700',
+                fontFamily: 'Arial Black'
+            }).setOrigin(1, 0.5);
+            this.add([label, value]);
+        });
+    }
+
+    private createButton(
+        scene: Phaser.Scene,
+        x: number,
+        y: number,
+        text: string,
+        bgColor: number,
+        isPrimary: boolean,
+        callback: () => void
+    ): Phaser.GameObjects.Container {
+        const button = scene.add.container(x, y);
+
+        const bg = scene.add.rectangle(0, 0, isPrimary ? 240 : 200, isPrimary ? 55 : 45, bgColor);
+        bg.setInteractive({ useHandCursor: true });
+        bg.setStrokeStyle(isPrimary ? 3 : 2, 0xFFFFFF);
+
+        const label = scene.add.text(0, 0, text, {
+            fontSize: isPrimary ? '24px' : '20px',
+            color: '#FFFFFF',
+            fontFamily: isPrimary ? 'Arial Black' : 'Arial',
+            fontStyle: 'bold'
+        }).setOrigin(0.5);
+
+        button.add([bg, label]);
+
+        bg.on('pointerover', () => button.setScale(1.05));
+        bg.on('pointerout', () => button.setScale(1));
+        bg.on('pointerdown', () => {
+            // Emit UI click event for sound system
+            scene.events.emit('ui-click');
+            callback();
+        });
+
+        return button;
+    }
+
+    public destroy(): void {
+        this.scene.tweens.killTweensOf(this);
+        super.destroy();
+    }
+}
@@ -1,7 +1,9 @@
 import Phaser from 'phaser';
+import { shakeCamera } from '@/utils/motion';
 
 export class VictoryScreen extends Phaser.GameObjects.Container {
     private particles?: Phaser.GameObjects.Particles.ParticleEmitter;
+    private statsText: Phaser.GameObjects.Text;
     
     constructor(
         scene: Phaser.Scene, 
@@ -75,6 +77,7 @@ export class VictoryScreen extends Phaser.GameObjects.Container {
             color: '#FFD700',
             fontFamily: 'Arial'
         }).setOrigin(0.5);
+        this.statsText = statsText;
         
         // Buttons
         const playAgainBtn = this.createButton(scene, 0, 130, 'PLAY AGAIN', 0x00AA00, 0x00FF00, onReplay);
@@ -171,13 +174,21 @@ export class VictoryScreen extends Phaser.GameObjects.Container {
         this.createConfetti(scene);
         
         // Camera shake for impact
-        scene.cameras.main.shake(300, 0.005);
+        shakeCamera(scene, 300, 0.005);
         
         // Set proper depth for UI overlay
         this.setDepth(2000); // UI layer depth
         scene.add.existing(this);
     }
     
+    /**
+     * Campaign rating in place of the stats line, e.g. ★★☆
+     */
+    public showStars(stars: number): void {
+        this.statsText.setText(`${'★'.repeat(stars)}${'☆'.repeat(Math.max(0, 3 - stars))}`);
+        this.statsText.setFontSize(36);
+    }
+
     private createStar(scene: Phaser.Scene, x: number, y: number, size: number, color: number): Phaser.GameObjects.Star {
         const star = scene.add.star(x, y, 5, size * 0.5, size, color);
         star.setStrokeStyle(2, 0xFFFFFF);
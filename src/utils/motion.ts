@@ -0,0 +1,12 @@
+import type { Scene } from 'phaser';
+import { SettingsStore } from '@/systems/settings/SettingsStore';
+
+/**
+ * Shake the main camera unless the player turned on reduced motion
+ */
+export function shakeCamera(scene: Scene, duration: number, intensity: number): void {
+    if (SettingsStore.getInstance().get().reducedMotion) {
+        return;
+    }
+    scene.cameras.main.shake(duration, intensity);
+}
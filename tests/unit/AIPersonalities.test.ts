@@ -0,0 +1,87 @@
+import {
+    AI_PERSONALITIES,
+    AI_PERSONALITY_IDS,
+    createPersonalityStrategy,
+    isAIPersonalityId
+} from '@/systems/ai/AIPersonalities';
+import { IShotOutcome } from '@/systems/ai/ShotSimulator';
+import { BubbleColor } from '@/types/ArenaTypes';
+import { IAIBoardCell, IAIShotContext } from '@/types/AITypes';
+
+const cell = (q: number, r: number): IAIBoardCell => ({
+    q, r, x: 0, y: 0, color: BubbleColor.RED, gem: false, blocker: false, mystery: false
+});
+
+const context: IAIShotContext = {
+    board: { cells: [], center: { x: 375, y: 812 }, hexSize: 29.6, width: 750, height: 1624 },
+    launcher: { x: 375, y: 150 },
+    color: BubbleColor.RED,
+    queue: [],
+    gems: { own: 0, opponent: 0, toWin: 15 },
+    timeRemaining: 120000,
+    allowBankShots: true,
+    targetObjective: true
+};
+
+const outcome = (changes: Partial<IShotOutcome>): IShotOutcome => ({
+    angle: 90,
+    result: 'attached',
+    attachedAt: { q: 0, r: -3, s: 3 },
+    bounces: 0,
+    popped: [],
+    dropped: [],
+    gemsCleared: 0,
+    mysteryCleared: 0,
+    board: [],
+    ...changes
+});
+
+// Score of a against b for every personality
+const preference = (a: IShotOutcome, b: IShotOutcome): Record<string, number> => {
+    const result: Record<string, number> = {};
+    AI_PERSONALITY_IDS.forEach(id => {
+        const strategy = createPersonalityStrategy(AI_PERSONALITIES[id]);
+        result[id] = strategy.scoreOutcome(a, context) - strategy.scoreOutcome(b, context);
+    });
+    return result;
+};
+
+describe('AIPersonalities', () => {
+    it('should give every personality a name and match start and end lines', () => {
+        AI_PERSONALITY_IDS.forEach(id => {
+            const personality = AI_PERSONALITIES[id];
+            expect(personality.id).toBe(id);
+            expect(personality.name.length).toBeGreaterThan(0);
+            expect(personality.taunts.intro?.length).toBeGreaterThan(0);
+            expect(personality.taunts.victory?.length).toBeGreaterThan(0);
+            expect(personality.taunts.defeat?.length).toBeGreaterThan(0);
+        });
+        expect(isAIPersonalityId('turtle')).toBe(true);
+        expect(isAIPersonalityId('pacifist')).toBe(false);
+    });
+
+    it('should value a mystery pop most as the Hoarder', () => {
+        const mysteryPop = outcome({ popped: [cell(0, -3), cell(1, -3), cell(0, -4)], mysteryCleared: 1 });
+        const bigDrop = outcome({
+            popped: [cell(0, -3), cell(1, -3), cell(0, -4)],
+            dropped: [cell(0, -5), cell(1, -5)]
+        });
+
+        const scores = preference(mysteryPop, bigDrop);
+
+        expect(scores.hoarder).toBeGreaterThan(0);
+        expect(scores.demolisher).toBeLessThan(0);
+        expect(scores.hoarder).toBeGreaterThan(scores.sniper);
+    });
+
+    it('should make the Turtle the most afraid of a full field', () => {
+        const safe = outcome({ board: [cell(0, -2)] });
+        const deep = outcome({ board: [cell(0, -6)] });
+
+        const scores = preference(safe, deep);
+
+        AI_PERSONALITY_IDS.filter(id => id !== 'turtle').forEach(id => {
+            expect(scores.turtle).toBeGreaterThan(scores[id]);
+        });
+    });
+});
@@ -0,0 +1,106 @@
+import {
+    calculateAITuning,
+    calculatePressure,
+    DIFFICULTY_RULES,
+    expectedScore,
+    ratingToSkill,
+    skillToRating,
+    updateRating
+} from '@/core/rules/DifficultyRules';
+import { PlayerRatingStore } from '@/systems/ai/PlayerRatingStore';
+import { RATING_FORMAT_VERSION } from '@/types/AITypes';
+
+const STORAGE_KEY = 'bubble-battle-rating';
+
+describe('DifficultyRules', () => {
+    it('should move the rating by the surprise of the result', () => {
+        expect(expectedScore(1000, 1000)).toBeCloseTo(0.5);
+        expect(updateRating(1000, 1000, 'win')).toBe(1000 + DIFFICULTY_RULES.K_FACTOR / 2);
+        expect(updateRating(1000, 1000, 'loss')).toBe(1000 - DIFFICULTY_RULES.K_FACTOR / 2);
+        expect(updateRating(1000, 1000, 'tie')).toBe(1000);
+
+        // Beating a much stronger AI is worth more than beating an equal one
+        expect(updateRating(1000, 1400, 'win')).toBeGreaterThan(updateRating(1000, 1000, 'win'));
+    });
+
+    it('should take bigger steps during placement and stay within bounds', () => {
+        expect(updateRating(1000, 1000, 'win', 0)).toBe(1000 + DIFFICULTY_RULES.PLACEMENT_K_FACTOR / 2);
+        expect(updateRating(DIFFICULTY_RULES.MIN_RATING, 2000, 'loss')).toBe(DIFFICULTY_RULES.MIN_RATING);
+        expect(updateRating(DIFFICULTY_RULES.MAX_RATING, 400, 'win')).toBe(DIFFICULTY_RULES.MAX_RATING);
+    });
+
+    it('should map ratings to skill and back', () => {
+        expect(ratingToSkill(DIFFICULTY_RULES.MIN_RATING)).toBe(0);
+        expect(ratingToSkill(DIFFICULTY_RULES.MAX_RATING * 2)).toBe(1);
+        expect(skillToRating(ratingToSkill(1300))).toBe(1300);
+    });
+
+    it('should lean against whoever is ahead', () => {
+        const even = { playerGems: 5, opponentGems: 5, gemsToWin: 15, playerDanger: 3, opponentDanger: 3 };
+
+        expect(calculatePressure(even)).toBe(0);
+        expect(calculatePressure({ ...even, playerGems: 12 })).toBeGreaterThan(0);
+        expect(calculatePressure({ ...even, playerDanger: 9 })).toBeLessThan(0);
+
+        const rout = { playerGems: 15, opponentGems: 0, gemsToWin: 15, playerDanger: 0, opponentDanger: 10 };
+        expect(calculatePressure(rout)).toBeCloseTo(1);
+    });
+
+    it('should make a weak AI slow, inaccurate and direct', () => {
+        const tuning = calculateAITuning(0);
+
+        expect(tuning.thinkTime).toEqual(DIFFICULTY_RULES.EASIEST_THINK_TIME);
+        expect(tuning.aimError).toBe(DIFFICULTY_RULES.MAX_AIM_ERROR);
+        expect(tuning.bankShots).toBe(false);
+        expect(tuning.objectiveTargeting).toBe(false);
+    });
+
+    it('should make a strong AI fast and precise, and swing with the match', () => {
+        const tuning = calculateAITuning(1);
+
+        expect(tuning.thinkTime).toEqual(DIFFICULTY_RULES.HARDEST_THINK_TIME);
+        expect(tuning.aimError).toBe(0);
+        expect(tuning.bankShots).toBe(true);
+        expect(tuning.objectiveTargeting).toBe(true);
+
+        expect(calculateAITuning(0.5, 1).skill).toBeCloseTo(0.5 + DIFFICULTY_RULES.MAX_SWING);
+        expect(calculateAITuning(0.5, -1).skill).toBeCloseTo(0.5 - DIFFICULTY_RULES.MAX_SWING);
+    });
+});
+
+describe('PlayerRatingStore', () => {
+    beforeEach(() => {
+        localStorage.clear();
+    });
+
+    it('should start new players at the default rating', () => {
+        expect(PlayerRatingStore.load()).toEqual(PlayerRatingStore.createDefault());
+        expect(PlayerRatingStore.load().rating).toBe(DIFFICULTY_RULES.DEFAULT_RATING);
+    });
+
+    it('should persist match results', () => {
+        PlayerRatingStore.recordResult('win', DIFFICULTY_RULES.DEFAULT_RATING);
+        const player = PlayerRatingStore.recordResult('loss', DIFFICULTY_RULES.DEFAULT_RATING);
+
+        expect(player).toEqual(PlayerRatingStore.load());
+        expect(player.matches).toBe(2);
+        expect(player.wins).toBe(1);
+        expect(player.losses).toBe(1);
+    });
+
+    it('should start over on an unknown format version or unreadable data', () => {
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+        localStorage.setItem(STORAGE_KEY, JSON.stringify({
+            version: RATING_FORMAT_VERSION + 1,
+            player: { rating: 1800, matches: 40, wins: 30, losses: 10 }
+        }));
+        expect(PlayerRatingStore.load()).toEqual(PlayerRatingStore.createDefault());
+
+        localStorage.setItem(STORAGE_KEY, '{not json');
+        expect(PlayerRatingStore.load()).toEqual(PlayerRatingStore.createDefault());
+
+        expect(warn).toHaveBeenCalledTimes(2);
+        warn.mockRestore();
+    });
+});
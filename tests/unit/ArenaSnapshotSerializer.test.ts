@@ -0,0 +1,66 @@
+import { ArenaSnapshotSerializer } from '@/systems/snapshot/ArenaSnapshotSerializer';
+import { GameStateManager, IGameState } from '@/core/GameStateManager';
+import { ARENA_SNAPSHOT_VERSION, IArenaSnapshot } from '@/types/SnapshotTypes';
+
+const createSnapshot = (): IArenaSnapshot => ({
+    version: ARENA_SNAPSHOT_VERSION,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    seed: 12345,
+    theme: 'space',
+    rng: { board: 42, playerQueue: 7 },
+    elapsedTime: 61000,
+    suddenDeath: false,
+    bubbles: [
+        { q: 0, r: -2, color: 0xff0000, gem: 'none' },
+        { q: 1, r: 2, color: 0x00ff00, gem: 'golden', special: true },
+        { q: -1, r: 3, color: 0x0000ff, gem: 'none', mystery: 'bomb' }
+    ],
+    player: { loaded: 0xff0000, next: [0x00ff00, 0x0000ff, 0xff0000], arsenal: [{ type: 'freeze', count: 2 }], activePowerUp: null },
+    opponent: {
+        loaded: null,
+        next: [],
+        arsenal: [],
+        activePowerUp: 'laser',
+        powerUpShots: 3,
+        shield: true,
+        magnet: 150,
+        effects: [{ primitive: { type: 'jam', factor: 2 }, remaining: 2500 }]
+    },
+    objective: { health: 2, maxHealth: 3, shielded: true },
+    gameState: JSON.parse(JSON.stringify(GameStateManager.getInstance().getState())) as IGameState
+});
+
+describe('ArenaSnapshotSerializer', () => {
+    it('should round-trip a snapshot through JSON', () => {
+        const snapshot = createSnapshot();
+        const json = ArenaSnapshotSerializer.serialize(snapshot);
+
+        expect(ArenaSnapshotSerializer.parse(json)).toEqual(snapshot);
+    });
+
+    it('should reject invalid JSON', () => {
+        expect(ArenaSnapshotSerializer.parse('{not json')).toBeNull();
+    });
+
+    it('should reject snapshots from another format version', () => {
+        const snapshot = { ...createSnapshot(), version: ARENA_SNAPSHOT_VERSION + 1 };
+
+        expect(ArenaSnapshotSerializer.parse(JSON.stringify(snapshot))).toBeNull();
+    });
+
+    it('should reject data missing the board or launchers', () => {
+        const { bubbles: _bubbles, ...withoutBubbles } = createSnapshot();
+        const { opponent: _opponent, ...withoutOpponent } = createSnapshot();
+
+        expect(ArenaSnapshotSerializer.parse(JSON.stringify(withoutBubbles))).toBeNull();
+        expect(ArenaSnapshotSerializer.parse(JSON.stringify(withoutOpponent))).toBeNull();
+        expect(ArenaSnapshotSerializer.parse('[]')).toBeNull();
+    });
+
+    it('should reject a launcher whose attack effects are not a list', () => {
+        const snapshot = createSnapshot();
+        const broken = { ...snapshot, opponent: { ...snapshot.opponent, effects: 'jam' } };
+
+        expect(ArenaSnapshotSerializer.parse(JSON.stringify(broken))).toBeNull();
+    });
+});
@@ -0,0 +1,130 @@
+import type { Scene } from 'phaser';
+import {
+    ARSENAL_METER_RULES,
+    fillMeter,
+    getMeterCharge,
+    getMeterGrant
+} from '@/core/rules/ArsenalMeterRules';
+import { ArsenalMeterSystem } from '@/systems/powerups/ArsenalMeterSystem';
+import { ScoreContext, ScoreEventManager, ScoreEventType } from '@/systems/scoring/ScoreEventManager';
+
+// The system's Phaser-backed pieces - the meter bars, HD scaling, combo tiers and the catalogue roll
+jest.mock('@/ui/ArsenalMeterUI', () => ({ ArsenalMeterUI: jest.fn() }));
+jest.mock('@/config/GameConfig', () => ({ HD_SCALE: 1 }));
+jest.mock('@/systems/gameplay/ComboManager', () => ({ ComboManager: { getComboTier: () => 0 } }));
+jest.mock('@/powerups', () => ({ rollPowerUp: () => ({ id: 'freeze' }) }));
+
+describe('ArsenalMeterRules', () => {
+    it('should charge more for bigger combo tiers', () => {
+        const charges = [0, 1, 2, 3, 4].map(tier => getMeterCharge({ type: 'combo', tier }));
+
+        expect(charges).toEqual([...ARSENAL_METER_RULES.COMBO_TIER_CHARGE]);
+        expect([...charges].sort((a, b) => a - b)).toEqual(charges);
+        expect(getMeterCharge({ type: 'combo', tier: 9 })).toBe(charges[4]);
+        expect(getMeterCharge({ type: 'combo', tier: -1 })).toBe(0);
+    });
+
+    it('should charge per dropped bubble up to a cap', () => {
+        expect(getMeterCharge({ type: 'orphans', count: 2 })).toBe(2 * ARSENAL_METER_RULES.ORPHAN_CHARGE);
+        expect(getMeterCharge({ type: 'orphans', count: 100 })).toBe(ARSENAL_METER_RULES.ORPHAN_MAX_CHARGE);
+        expect(getMeterCharge({ type: 'objective' })).toBe(ARSENAL_METER_RULES.OBJECTIVE_HIT_CHARGE);
+    });
+
+    it('should pay out when full and carry the overflow', () => {
+        expect(fillMeter(40, 30)).toEqual({ charge: 70, grants: 0 });
+        expect(fillMeter(90, 25)).toEqual({ charge: 15, grants: 1 });
+        expect(fillMeter(50, 250)).toEqual({ charge: 0, grants: 3 });
+        expect(fillMeter(50, -10)).toEqual({ charge: 50, grants: 0 });
+    });
+
+    it('should hand out the loadout in order, round and round', () => {
+        const loadout = ['bomb', 'shield', 'jam'];
+
+        expect([0, 1, 2, 3, 4].map(index => getMeterGrant(loadout, index)))
+            .toEqual(['bomb', 'shield', 'jam', 'bomb', 'shield']);
+        expect(getMeterGrant([], 0)).toBeNull();
+    });
+});
+
+describe('ArsenalMeterSystem', () => {
+    type Drop = { count: number; isPlayer: boolean };
+
+    const createScene = (): { scene: Scene; emit: jest.Mock; drop: (data: Drop) => void } => {
+        const handlers = new Map<string, (data: Drop) => void>();
+        const emit = jest.fn();
+        const events = {
+            emit,
+            on: (event: string, handler: (data: Drop) => void) => {
+                handlers.set(event, handler);
+            },
+            off: (event: string) => handlers.delete(event)
+        };
+        const scene = { events, cameras: { main: { centerX: 0, centerY: 0 } } } as unknown as Scene;
+        return { scene, emit, drop: data => handlers.get('floating-bubbles-drop')?.(data) };
+    };
+
+    const createSystem = (scene: Scene): { system: ArsenalMeterSystem; score: (context: ScoreContext) => void } => {
+        const noScore = (): void => undefined;
+        let score: (context: ScoreContext) => void = noScore;
+        const scoreEventManager = {
+            onScoreEvent: (callback: (context: ScoreContext) => void) => {
+                score = callback;
+            },
+            offScoreEvent: (callback: (context: ScoreContext) => void) => {
+                score = score === callback ? noScore : score;
+            }
+        } as unknown as ScoreEventManager;
+        const system = new ArsenalMeterSystem(scene, {
+            scoreEventManager,
+            getLauncher: () => undefined,
+            getLoadout: () => ['bomb', 'shield', 'jam']
+        });
+        return { system, score: context => score(context) };
+    };
+
+    type Grant = [string, { type: string; owner: string }];
+
+    const grantsTo = (emit: jest.Mock, owner: string): string[] => (emit.mock.calls as Grant[])
+        .filter(([event, data]) => event === 'power-up-collected' && data.owner === owner)
+        .map(([, data]) => data.type);
+
+    it('should grant the next loadout pick when score events fill a side\'s meter', () => {
+        const { scene, emit } = createScene();
+        const { system, score } = createSystem(scene);
+        const objectiveHits = Math.ceil(ARSENAL_METER_RULES.CAPACITY / ARSENAL_METER_RULES.OBJECTIVE_HIT_CHARGE);
+
+        for (let i = 0; i < objectiveHits; i++) {
+            score({ type: ScoreEventType.OBJECTIVE_HIT, baseValue: 1, position: { x: 0, y: 0 }, isPlayer: true });
+        }
+
+        expect(grantsTo(emit, 'player')).toEqual(['bomb']);
+        expect(grantsTo(emit, 'opponent')).toEqual([]);
+        expect(system.getCharge(false)).toBe(0);
+    });
+
+    it('should charge the AI side from its own drops and grant it a catalogue power-up', () => {
+        const { scene, emit, drop } = createScene();
+        const { system } = createSystem(scene);
+        const drops = Math.ceil(ARSENAL_METER_RULES.CAPACITY / ARSENAL_METER_RULES.ORPHAN_MAX_CHARGE);
+
+        for (let i = 0; i < drops; i++) {
+            drop({ count: 50, isPlayer: false });
+        }
+
+        expect(grantsTo(emit, 'opponent')).toEqual(['freeze']);
+        expect(grantsTo(emit, 'player')).toEqual([]);
+        expect(system.getCharge(true)).toBe(0);
+    });
+
+    it('should stop charging once destroyed', () => {
+        const { scene, emit, drop } = createScene();
+        const { system, score } = createSystem(scene);
+
+        system.destroy();
+        drop({ count: 50, isPlayer: true });
+        score({ type: ScoreEventType.OBJECTIVE_HIT, baseValue: 1, position: { x: 0, y: 0 }, isPlayer: true });
+
+        expect(system.getCharge(true)).toBe(0);
+        expect(emit).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,192 @@
+import { ARENA_CONFIG } from '@/config/ArenaConfig';
+import { calculateStars, countStars, getCampaignOrder, isLevelUnlocked } from '@/core/rules/CampaignRules';
+import { OBJECTIVE_HEX } from '@/core/rules/GridRules';
+import { getHexNeighbors, hexKey, hexToPixelOffset } from '@/core/rules/HexMath';
+import { ShotSimulator } from '@/systems/ai/ShotSimulator';
+import { CAMPAIGN_CHAPTERS, getChapterForLevel } from '@/systems/campaign/CampaignChapters';
+import { CampaignProgressStore } from '@/systems/campaign/CampaignProgressStore';
+import { LevelLoader } from '@/systems/levels/LevelLoader';
+import { IAIBoardCell } from '@/types/AITypes';
+import { BubbleColor } from '@/types/ArenaTypes';
+import { CAMPAIGN_FORMAT_VERSION } from '@/types/CampaignTypes';
+import { ILevelDefinition } from '@/types/LevelTypes';
+import ocean01 from '@/levels/campaign-ocean-01.json';
+import ocean02 from '@/levels/campaign-ocean-02.json';
+import sunset01 from '@/levels/campaign-sunset-01.json';
+import sunset02 from '@/levels/campaign-sunset-02.json';
+import forest01 from '@/levels/campaign-forest-01.json';
+import forest02 from '@/levels/campaign-forest-02.json';
+import space01 from '@/levels/campaign-space-01.json';
+import space02 from '@/levels/campaign-space-02.json';
+import aurora01 from '@/levels/campaign-aurora-01.json';
+import aurora02 from '@/levels/campaign-aurora-02.json';
+
+const STORAGE_KEY = 'bubble-battle-campaign';
+const WIDTH = 750;
+const HEIGHT = 1624;
+const CENTER = { x: WIDTH / 2, y: HEIGHT / 2 };
+const HEX_SIZE = 29.6;
+
+const LEVELS: Record<string, unknown> = {
+    'campaign-ocean-01': ocean01,
+    'campaign-ocean-02': ocean02,
+    'campaign-sunset-01': sunset01,
+    'campaign-sunset-02': sunset02,
+    'campaign-forest-01': forest01,
+    'campaign-forest-02': forest02,
+    'campaign-space-01': space01,
+    'campaign-space-02': space02,
+    'campaign-aurora-01': aurora01,
+    'campaign-aurora-02': aurora02
+};
+
+// A known solution for every shot-limited level, in launcher degrees
+const SOLUTIONS: Record<string, number[]> = {
+    'campaign-ocean-01': [15, 17],
+    'campaign-ocean-02': [24, 19],
+    'campaign-sunset-01': [15, 15, 17],
+    'campaign-forest-01': [28, 17, 18],
+    'campaign-space-01': [26, 21, 15, 17],
+    'campaign-space-02': [24, 18, 15, 15],
+    'campaign-aurora-01': [18, 25, 21, 17, 19, 19, 19, 15]
+};
+
+const loadLevel = (id: string): ILevelDefinition => {
+    const level = LevelLoader.parse(LEVELS[id], id);
+    if (!level) {
+        throw new Error(`Invalid campaign level ${id}`);
+    }
+    return level;
+};
+
+/**
+ * Board cell mirrored onto the AI's half - ShotSimulator fires from the top
+ */
+const toCell = (q: number, r: number, color: BubbleColor, blocker: boolean = false): IAIBoardCell => {
+    const offset = hexToPixelOffset({ q, r, s: -q - r }, HEX_SIZE);
+    return { q, r, x: CENTER.x + offset.x, y: CENTER.y + offset.y, color, gem: false, blocker, mystery: false };
+};
+
+/**
+ * Play the shots one after another and return what is left on the board, in level coordinates
+ */
+const playShots = (level: ILevelDefinition, angles: number[]): IAIBoardCell[] => {
+    const queue = LevelLoader.getStartingQueue(level);
+    let cells = level.cells.map(cell => toCell(
+        cell.q,
+        -cell.r,
+        cell.color ? LevelLoader.toBubbleColor(cell.color) : BubbleColor.RED,
+        !!cell.blocker
+    ));
+
+    angles.forEach((angle, shot) => {
+        const simulator = new ShotSimulator({ cells, center: CENTER, hexSize: HEX_SIZE, width: WIDTH, height: HEIGHT });
+        const outcome = simulator.simulate({ x: CENTER.x, y: ARENA_CONFIG.launcherOffset }, 180 - angle, queue[shot]);
+        const removed = new Set([...outcome.popped, ...outcome.dropped].map(cell => hexKey(cell.q, cell.r)));
+        cells = cells.filter(cell => !removed.has(hexKey(cell.q, cell.r)));
+        if (outcome.attachedAt && !removed.has(hexKey(outcome.attachedAt.q, outcome.attachedAt.r))) {
+            cells.push(toCell(outcome.attachedAt.q, outcome.attachedAt.r, queue[shot]));
+        }
+    });
+
+    return cells.map(cell => ({ ...cell, r: -cell.r }));
+};
+
+describe('Campaign levels', () => {
+    it('should bundle a valid level for every chapter entry, played on the chapter theme', () => {
+        const order = getCampaignOrder(CAMPAIGN_CHAPTERS);
+
+        expect(new Set(order).size).toBe(order.length);
+        expect(order.sort()).toEqual(Object.keys(LEVELS).sort());
+        order.forEach(id => {
+            expect(LevelLoader.validate(LEVELS[id])).toEqual([]);
+            expect(loadLevel(id).theme).toBe(getChapterForLevel(id)?.theme);
+        });
+    });
+
+    it('should give every shot-limited level a full queue and a solution within the limit', () => {
+        const shotLimited = getCampaignOrder(CAMPAIGN_CHAPTERS)
+            .map(loadLevel)
+            .filter(level => level.shotLimit !== undefined);
+        shotLimited.forEach(level => {
+            const solution = SOLUTIONS[level.id];
+            expect(solution.length).toBeLessThanOrEqual(level.shotLimit ?? 0);
+            expect(level.startingQueue?.length).toBe(level.shotLimit);
+
+            const left = playShots(level, solution);
+            if (level.winCondition.type === 'clear') {
+                expect(left.filter(cell => !cell.blocker)).toEqual([]);
+            } else {
+                const ring = new Set(getHexNeighbors(OBJECTIVE_HEX).map(hex => hexKey(hex.q, hex.r)));
+                expect(left.filter(cell => ring.has(hexKey(cell.q, cell.r)))).toEqual([]);
+            }
+        });
+    });
+
+    it('should give gem levels enough gems and a ceiling that keeps dropping', () => {
+        getCampaignOrder(CAMPAIGN_CHAPTERS).map(loadLevel).forEach(level => {
+            if (level.winCondition.type !== 'gems') {
+                expect(level.shotLimit).toBeDefined();
+                return;
+            }
+            expect(level.spawnRows).not.toBe(false);
+            expect(level.cells.filter(cell => cell.gem).length).toBeGreaterThanOrEqual(level.winCondition.target ?? 0);
+        });
+    });
+});
+
+describe('CampaignRules', () => {
+    const thresholds = { two: 100, three: 200 };
+
+    it('should rate wins by score plus unused shots', () => {
+        expect(calculateStars({ won: false, score: 500, shotsRemaining: 3 }, thresholds)).toBe(0);
+        expect(calculateStars({ won: true, score: 40, shotsRemaining: 0 }, thresholds)).toBe(1);
+        expect(calculateStars({ won: true, score: 40, shotsRemaining: 1 }, thresholds)).toBe(2);
+        expect(calculateStars({ won: true, score: 0, shotsRemaining: 2 }, thresholds)).toBe(3);
+        expect(calculateStars({ won: true, score: 900, shotsRemaining: 0 })).toBe(1);
+    });
+
+    it('should unlock each level once the one before it is won', () => {
+        const stars: Record<string, number> = { 'campaign-ocean-01': 2, 'campaign-ocean-02': 1 };
+        const getStars = (id: string): number => stars[id] ?? 0;
+
+        expect(isLevelUnlocked(CAMPAIGN_CHAPTERS, 'campaign-ocean-01', getStars)).toBe(true);
+        expect(isLevelUnlocked(CAMPAIGN_CHAPTERS, 'campaign-sunset-01', getStars)).toBe(true);
+        expect(isLevelUnlocked(CAMPAIGN_CHAPTERS, 'campaign-sunset-02', getStars)).toBe(false);
+        expect(isLevelUnlocked(CAMPAIGN_CHAPTERS, 'puzzle-01-walls', getStars)).toBe(false);
+        expect(countStars(CAMPAIGN_CHAPTERS, getStars)).toEqual({ earned: 3, total: 30 });
+    });
+});
+
+describe('CampaignProgressStore', () => {
+    beforeEach(() => {
+        localStorage.clear();
+    });
+
+    it('should keep the best stars and score and ignore losses', () => {
+        CampaignProgressStore.recordResult('campaign-ocean-01', 2, 40);
+        CampaignProgressStore.recordResult('campaign-ocean-01', 1, 90);
+        CampaignProgressStore.recordResult('campaign-ocean-02', 0, 500);
+
+        expect(CampaignProgressStore.load().levels).toEqual({
+            'campaign-ocean-01': { stars: 2, bestScore: 90 }
+        });
+        expect(CampaignProgressStore.getStars('campaign-ocean-02')).toBe(0);
+    });
+
+    it('should start over on an unknown format version or unreadable data', () => {
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+        localStorage.setItem(STORAGE_KEY, JSON.stringify({
+            version: CAMPAIGN_FORMAT_VERSION + 1,
+            progress: { levels: { 'campaign-ocean-01': { stars: 3, bestScore: 10 } } }
+        }));
+        expect(CampaignProgressStore.getStars('campaign-ocean-01')).toBe(0);
+
+        localStorage.setItem(STORAGE_KEY, '{not json');
+        expect(CampaignProgressStore.load()).toEqual(CampaignProgressStore.createDefault());
+
+        expect(warn).toHaveBeenCalledTimes(2);
+        warn.mockRestore();
+    });
+});
@@ -0,0 +1,207 @@
+import { DesyncMonitor, IDesyncArena } from '@/systems/network/DesyncMonitor';
+import { NetworkSession } from '@/systems/network/NetworkSession';
+import { LoopbackAdapter } from '@/systems/network/LoopbackAdapter';
+import { GameEventBus } from '@/core/EventBus';
+import { mirrorHex } from '@/core/rules/HexMath';
+import { diffStates, hashState, toHostPerspective } from '@/core/rules/StateHash';
+import { IArenaStateDump, IDesyncReport, INetworkSettings } from '@/types/NetworkTypes';
+
+const SETTINGS: INetworkSettings = {
+    SYNC_RATE: 5,
+    TIMEOUT: 500,
+    RECONNECT_ATTEMPTS: 1
+};
+
+const HOST_STATE: IArenaStateDump = {
+    cells: [
+        { q: 0, r: 0, color: 0xff0000, gem: 'none' },
+        { q: 2, r: 1, color: 0x00ff00, gem: 'normal' },
+        { q: -1, r: -2, color: 0x0000ff, gem: 'golden' }
+    ],
+    playerGems: 3,
+    opponentGems: 5
+};
+
+const wait = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('StateHash', () => {
+    it('should mirror hexes through the grid center and back', () => {
+        expect(mirrorHex(0, 0)).toEqual({ q: 0, r: 0 });
+        expect(mirrorHex(2, 1)).toEqual({ q: -3, r: -1 });
+        expect(mirrorHex(-3, -1)).toEqual({ q: 2, r: 1 });
+        expect(toHostPerspective(toHostPerspective(HOST_STATE, false), false)).toEqual(HOST_STATE);
+    });
+
+    it('should hash independently of cell order', () => {
+        const shuffled = { ...HOST_STATE, cells: [...HOST_STATE.cells].reverse() };
+        expect(hashState(shuffled)).toBe(hashState(HOST_STATE));
+    });
+
+    it('should hash a changed gem or counter differently', () => {
+        const cells = HOST_STATE.cells.map(cell => ({ ...cell, gem: 'none' as const }));
+        expect(hashState({ ...HOST_STATE, cells })).not.toBe(hashState(HOST_STATE));
+        expect(hashState({ ...HOST_STATE, playerGems: 4 })).not.toBe(hashState(HOST_STATE));
+    });
+
+    it('should list the differing cells and counters', () => {
+        const remote = { ...HOST_STATE, cells: HOST_STATE.cells.slice(1), opponentGems: 6 };
+        expect(diffStates(HOST_STATE, remote)).toEqual([
+            '0,0: local ff0000, remote empty',
+            'opponentGems: local 5, remote 6'
+        ]);
+    });
+});
+
+describe('DesyncMonitor', () => {
+    let host: NetworkSession;
+    let guest: NetworkSession;
+    let hostState: IArenaStateDump;
+    let guestState: IArenaStateDump;
+    let hostMonitor: DesyncMonitor;
+    let guestMonitor: DesyncMonitor;
+
+    const resolveStep = (): void => {
+        GameEventBus.getInstance().emitTyped('match-completed', { count: 3, score: 30, combo: 0, isPlayer: true });
+    };
+
+    // Both sessions listen to the same bus, so each peer fires one shot and receives the other's
+    const exchangeShots = async (): Promise<void> => {
+        GameEventBus.getInstance().emitTyped('shot-fired', {
+            isPlayer: true,
+            angle: 270,
+            color: 0xff0000,
+            position: { x: 0, y: 0 }
+        });
+        await wait(30);
+    };
+
+    beforeEach(async () => {
+        host = new NetworkSession(new LoopbackAdapter(false), SETTINGS, {
+            roomId: 'desync-room',
+            seed: 1,
+            theme: 'space',
+            peerId: 'host'
+        });
+        guest = new NetworkSession(new LoopbackAdapter(false), SETTINGS, {
+            roomId: 'desync-room',
+            seed: 2,
+            theme: 'space',
+            peerId: 'guest'
+        });
+        await host.connect();
+        await wait(2);
+        await guest.connect();
+        await wait(30);
+
+        // Each peer sees the board rotated for itself
+        hostState = HOST_STATE;
+        guestState = toHostPerspective(HOST_STATE, false);
+        const hostArena: IDesyncArena = {
+            captureState: () => hostState,
+            applyState: state => {
+                hostState = state;
+            }
+        };
+        const guestArena: IDesyncArena = {
+            captureState: () => guestState,
+            applyState: state => {
+                guestState = state;
+            }
+        };
+
+        hostMonitor = new DesyncMonitor(host, true, hostArena);
+        guestMonitor = new DesyncMonitor(guest, false, guestArena);
+        hostMonitor.start();
+        guestMonitor.start();
+        host.startMatch(() => 0);
+        guest.startMatch(() => 0);
+    });
+
+    afterEach(async () => {
+        hostMonitor.stop();
+        guestMonitor.stop();
+        await host.disconnect();
+        await guest.disconnect();
+    });
+
+    it('should stay quiet while both states agree', async () => {
+        const desync = jest.fn();
+        hostMonitor.on('desync', desync);
+        guestMonitor.on('desync', desync);
+
+        for (let i = 0; i < 4; i++) {
+            resolveStep();
+        }
+        await wait(30);
+
+        expect(desync).not.toHaveBeenCalled();
+        expect(hostMonitor.getStep()).toBe(4);
+        expect(guestMonitor.getStep()).toBe(4);
+    });
+
+    it('should tolerate a transient mismatch that converges', async () => {
+        const desync = jest.fn();
+        hostMonitor.on('desync', desync);
+
+        guestState = { ...guestState, playerGems: 99 };
+        resolveStep();
+        guestState = toHostPerspective(HOST_STATE, false);
+        resolveStep();
+        await wait(30);
+
+        expect(desync).not.toHaveBeenCalled();
+    });
+
+    it('should not compare states taken before a shot reached both peers', async () => {
+        const desync = jest.fn();
+        hostMonitor.on('desync', desync);
+
+        guestState = { ...guestState, opponentGems: 0 };
+        resolveStep();
+        await wait(30);
+        // Fired but not yet delivered - each peer has seen a different set of shots
+        GameEventBus.getInstance().emitTyped('shot-fired', {
+            isPlayer: true,
+            angle: 270,
+            color: 0xff0000,
+            position: { x: 0, y: 0 }
+        });
+        resolveStep();
+        resolveStep();
+        await wait(200);
+
+        expect(desync).not.toHaveBeenCalled();
+    });
+
+    it('should wait for a later turn before confirming a mismatch', async () => {
+        const desync = jest.fn();
+        hostMonitor.on('desync', desync);
+
+        guestState = { ...guestState, opponentGems: 0 };
+        for (let i = 0; i < 3; i++) {
+            resolveStep();
+        }
+        await wait(200);
+
+        expect(desync).not.toHaveBeenCalled();
+    });
+
+    it('should report a lasting desync and resync the guest from the host', async () => {
+        const reports: IDesyncReport[] = [];
+        hostMonitor.on('desync', (report: IDesyncReport) => reports.push(report));
+        const resynced = jest.fn();
+        guestMonitor.on('resynced', resynced);
+
+        guestState = { ...guestState, opponentGems: 0 };
+        resolveStep();
+        await exchangeShots();
+        resolveStep();
+        await wait(200);
+
+        expect(reports).toHaveLength(1);
+        expect(reports[0].differences).toEqual(['playerGems: local 3, remote 0']);
+        expect(resynced).toHaveBeenCalledWith(2);
+        expect(guestState).toEqual(toHostPerspective(HOST_STATE, false));
+        expect(guestMonitor.getEpoch()).toBe(1);
+    });
+});
@@ -0,0 +1,87 @@
+import { DEFAULT_MATCH_RULES, UNLIMITED } from '@/core/rules/VictoryRules';
+import { TIME_ATTACK_RULES } from '@/core/rules/TimeAttackRules';
+import { LevelLoader } from '@/systems/levels/LevelLoader';
+import { GAME_MODE_IDS, GAME_MODES, isGameModeId, resolveMatchRules } from '@/systems/modes/GameModes';
+import { IGameModeArena } from '@/types/GameModeTypes';
+import { ILevelDefinition, LEVEL_FORMAT_VERSION } from '@/types/LevelTypes';
+
+jest.mock('@/ui/PracticePanel', () => ({ PracticePanel: jest.fn() }));
+jest.mock('@/ui/TimeAttackResultsScreen', () => ({ TimeAttackResultsScreen: jest.fn() }));
+
+const createLevel = (overrides: Partial<ILevelDefinition> = {}): ILevelDefinition => ({
+    version: LEVEL_FORMAT_VERSION,
+    id: 'test-level',
+    name: 'Test',
+    allowedColors: ['red', 'blue'],
+    winCondition: { type: 'gems', target: 5 },
+    timeLimit: 60,
+    cells: [{ q: 1, r: 0 }],
+    ...overrides
+});
+
+describe('GameModes', () => {
+    it('should key every mode by its own id', () => {
+        GAME_MODE_IDS.forEach(id => expect(GAME_MODES[id].id).toBe(id));
+        expect(isGameModeId('survival')).toBe(true);
+        expect(isGameModeId('battle-royale')).toBe(false);
+        expect(isGameModeId(undefined)).toBe(false);
+    });
+
+    it('should only give versus an AI opponent and keep solo modes off the reset', () => {
+        expect(GAME_MODES.versus.opponent).toBe('ai');
+        expect(GAME_MODES.online.opponent).toBe('remote');
+        expect(GAME_MODES.local.opponent).toBe('local');
+        GAME_MODE_IDS.filter(id => GAME_MODES[id].fieldFull === 'lose').forEach(id => {
+            expect(GAME_MODES[id].opponent).toBe('none');
+        });
+    });
+
+    it('should run the extra systems only in the solo modes', () => {
+        const arena = {} as IGameModeArena;
+
+        expect(GAME_MODES.versus.systems).toHaveLength(0);
+        expect(GAME_MODES.online.systems).toHaveLength(0);
+        expect(GAME_MODES.local.systems).toHaveLength(0);
+        GAME_MODE_IDS.filter(id => GAME_MODES[id].opponent === 'none').forEach(id => {
+            const systems = GAME_MODES[id].systems.map(createSystem => createSystem(arena));
+            expect(systems).toHaveLength(1);
+            systems.forEach(system => {
+                expect(typeof system.start).toBe('function');
+                expect(typeof system.stop).toBe('function');
+            });
+        });
+    });
+
+    it('should play versus on the GDD rules', () => {
+        expect(resolveMatchRules(GAME_MODES.versus)).toEqual(DEFAULT_MATCH_RULES);
+    });
+
+    it('should let a level decide only the rules the mode hands over', () => {
+        const levelRules = LevelLoader.getMatchRules(createLevel());
+
+        expect(resolveMatchRules(GAME_MODES.versus, levelRules)).toEqual({
+            gemsToWin: 5,
+            gameDuration: 60000,
+            suddenDeathTime: levelRules.suddenDeathTime
+        });
+        expect(resolveMatchRules(GAME_MODES.campaign, levelRules)).toEqual({
+            gemsToWin: 5,
+            gameDuration: UNLIMITED,
+            suddenDeathTime: UNLIMITED
+        });
+        expect(resolveMatchRules(GAME_MODES.survival, levelRules).gemsToWin).toBe(UNLIMITED);
+    });
+
+    it('should run the score rush on a countdown with no gem victory', () => {
+        const mode = GAME_MODES['time-attack'];
+
+        expect(resolveMatchRules(mode)).toEqual({
+            gemsToWin: UNLIMITED,
+            gameDuration: TIME_ATTACK_RULES.DURATION,
+            suddenDeathTime: UNLIMITED
+        });
+        expect(mode.timeUp).toBe('score');
+        expect(mode.countdown).toBe(true);
+        expect(mode.rowSpawns).toEqual({ top: false, bottom: true });
+    });
+});
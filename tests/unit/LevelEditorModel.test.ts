@@ -0,0 +1,107 @@
+import { LevelEditorModel } from '@/systems/levels/LevelEditorModel';
+import { LevelLoader } from '@/systems/levels/LevelLoader';
+import puzzleLevel from '@/levels/puzzle-01-walls.json';
+import { ILevelDefinition } from '@/types/LevelTypes';
+
+describe('LevelEditorModel', () => {
+    let model: LevelEditorModel;
+
+    beforeEach(() => {
+        model = new LevelEditorModel();
+    });
+
+    it('should paint, decorate and erase bubbles', () => {
+        expect(model.paint(1, 0, 'red')).toBe(true);
+        expect(model.toggleGem(1, 0, 'golden')).toBe(true);
+        expect(model.toggleMystery(1, 0)).toBe(true);
+
+        // Repainting keeps the gem and mystery
+        model.paint(1, 0, 'blue');
+        expect(model.getCell(1, 0)).toEqual({ q: 1, r: 0, color: 'blue', gem: 'golden', mystery: true });
+
+        expect(model.toggleGem(1, 0, 'golden')).toBe(true);
+        expect(model.getCell(1, 0)?.gem).toBeUndefined();
+
+        expect(model.erase(1, 0)).toBe(true);
+        expect(model.getCells()).toEqual([]);
+    });
+
+    it('should keep the objective and off-grid cells unpainted', () => {
+        expect(model.paint(0, 0, 'red')).toBe(false);
+        expect(model.paint(0, 99, 'red')).toBe(false);
+        expect(model.placeBlocker(99, 0)).toBe(false);
+        expect(model.getCells()).toEqual([]);
+    });
+
+    it('should not put gems or mystery bubbles on blockers', () => {
+        model.placeBlocker(1, 0);
+
+        expect(model.toggleGem(1, 0, 'normal')).toBe(false);
+        expect(model.toggleMystery(1, 0)).toBe(false);
+        expect(model.toggleGem(2, 0, 'normal')).toBe(false);
+    });
+
+    it('should mirror the top half into the bottom half', () => {
+        model.paint(0, -1, 'red');
+        model.paint(-1, -3, 'green');
+        model.toggleGem(-1, -3, 'normal');
+        model.paint(2, 2, 'yellow'); // Replaced by the mirror
+        model.paint(1, 0, 'blue'); // Middle row is left alone
+
+        model.mirrorTopToBottom();
+
+        expect(model.getCell(0, 1)).toEqual({ q: 0, r: 1, color: 'red' });
+        expect(model.getCell(-1, 3)).toEqual({ q: -1, r: 3, color: 'green', gem: 'normal' });
+        expect(model.getCell(2, 2)).toBeUndefined();
+        expect(model.getCell(1, 0)?.color).toBe('blue');
+        expect(model.getCells()).toHaveLength(5);
+    });
+
+    it('should find bubbles not connected to the objective', () => {
+        model.paint(1, 0, 'red');
+        model.paint(2, 0, 'red');
+        model.paint(4, 4, 'blue');
+
+        expect(model.findFloatingCells()).toEqual([{ q: 4, r: 4, color: 'blue' }]);
+        expect(model.validate()).toEqual(['1 bubble(s) not connected to the objective']);
+
+        model.erase(4, 4);
+        expect(model.validate()).toEqual([]);
+    });
+
+    it('should treat every bubble as floating without an anchor', () => {
+        model.paint(3, 3, 'red');
+
+        expect(model.findFloatingCells()).toHaveLength(1);
+        expect(new LevelEditorModel().validate()).toEqual(['the board is empty']);
+    });
+
+    it('should export a valid level with the painted colors', () => {
+        model.paint(-1, 0, 'yellow');
+        model.paint(1, 0, 'red');
+        model.placeBlocker(0, 1);
+
+        const level = model.toLevel();
+
+        expect(LevelLoader.validate(level)).toEqual([]);
+        expect(level.allowedColors).toEqual(['red', 'yellow']);
+        expect(level.cells).toEqual([
+            { q: -1, r: 0, color: 'yellow' },
+            { q: 1, r: 0, color: 'red' },
+            { q: 0, r: 1, blocker: true }
+        ]);
+    });
+
+    it('should round-trip a level file', () => {
+        const level = puzzleLevel as ILevelDefinition;
+
+        model.load(level);
+        const exported = model.toLevel();
+
+        expect(exported.id).toBe(level.id);
+        expect(exported.winCondition).toEqual(level.winCondition);
+        expect(exported.allowedColors).toEqual(level.allowedColors);
+        expect(exported.cells).toHaveLength(level.cells.length);
+        expect(LevelLoader.validate(exported)).toEqual([]);
+    });
+});
@@ -0,0 +1,142 @@
+import { LevelLoader } from '@/systems/levels/LevelLoader';
+import { RandomStream } from '@/core/RandomService';
+import { BubbleColor } from '@/types/ArenaTypes';
+import { ILevelDefinition, LEVEL_FORMAT_VERSION } from '@/types/LevelTypes';
+import { PowerUpType } from '@/types/PowerUpTypes';
+import tutorialLevel from '@/levels/tutorial-01-first-pop.json';
+import puzzleLevel from '@/levels/puzzle-01-walls.json';
+
+const createLevel = (overrides: Partial<ILevelDefinition> = {}): ILevelDefinition => ({
+    version: LEVEL_FORMAT_VERSION,
+    id: 'test-level',
+    name: 'Test',
+    allowedColors: ['red', 'blue'],
+    winCondition: { type: 'gems' },
+    cells: [
+        { q: 1, r: 0, color: 'red', gem: 'golden' },
+        { q: -1, r: 0 },
+        { q: 0, r: 1, blocker: true },
+        { q: 0, r: -1, mystery: 'bomb' }
+    ],
+    ...overrides
+});
+
+describe('LevelLoader', () => {
+    it('should accept the bundled levels', () => {
+        expect(LevelLoader.validate(tutorialLevel)).toEqual([]);
+        expect(LevelLoader.validate(puzzleLevel)).toEqual([]);
+    });
+
+    it('should report every problem in an invalid level', () => {
+        const errors = LevelLoader.validate({
+            ...createLevel(),
+            version: LEVEL_FORMAT_VERSION + 1,
+            allowedColors: ['red', 'orange'],
+            timeLimit: -5,
+            cells: [
+                { q: 0, r: 0 },
+                { q: 1, r: 0 },
+                { q: 1, r: 0, gem: 'huge' },
+                { q: 0.5, r: 1 },
+                { q: 2, r: 0, mystery: 'nuke' }
+            ]
+        });
+
+        expect(errors).toEqual([
+            `version must be ${LEVEL_FORMAT_VERSION}`,
+            'allowedColors: unknown color "orange" (use red, blue, green, yellow, purple)',
+            'timeLimit must be a positive number of seconds',
+            'cells[0]: 0,0 is reserved for the objective',
+            'cells[2]: 1,0 is used twice',
+            'cells[2]: gem must be "normal" or "golden"',
+            'cells[3]: q and r must be whole numbers',
+            `cells[4]: unknown mystery "nuke" (use true, false, ${Object.values(PowerUpType).join(', ')})`
+        ]);
+    });
+
+    it('should take mystery power-ups from the catalogue once it has registered', () => {
+        LevelLoader.setPowerUpIds(['bomb', 'mega-bomb']);
+        try {
+            const level = createLevel({ cells: [{ q: 1, r: 0, mystery: 'mega-bomb' }, { q: -1, r: 0, mystery: 'laser' }] });
+            expect(LevelLoader.validate(level)).toEqual([
+                'cells[1]: unknown mystery "laser" (use true, false, bomb, mega-bomb)'
+            ]);
+        } finally {
+            LevelLoader.setPowerUpIds(Object.values(PowerUpType));
+        }
+    });
+
+    it('should check campaign shot limits and star thresholds', () => {
+        expect(LevelLoader.validate(createLevel({
+            winCondition: { type: 'objective' },
+            shotLimit: 6,
+            stars: { two: 100, three: 200 }
+        }))).toEqual([]);
+        expect(LevelLoader.validate({ ...createLevel(), shotLimit: 2.5, stars: { two: 300, three: 200 } })).toEqual([
+            'shotLimit must be a positive whole number',
+            'stars must have scores two and three, with three at least two'
+        ]);
+    });
+
+    it('should return null when parsing an invalid level', () => {
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+        expect(LevelLoader.parse(null)).toBeNull();
+        expect(LevelLoader.parse({ ...createLevel(), winCondition: { type: 'score' } })).toBeNull();
+        expect(LevelLoader.parse(createLevel())).not.toBeNull();
+        expect(warn).toHaveBeenCalledTimes(2);
+        warn.mockRestore();
+    });
+
+    it('should build field positions with the level colors', () => {
+        const level = createLevel();
+        const positions = LevelLoader.createFieldPositions(
+            level,
+            hex => ({ x: hex.q * 10, y: hex.r * 10 }),
+            new RandomStream(1)
+        );
+
+        expect(positions).toHaveLength(4);
+        expect(positions[0]).toEqual({
+            hexPos: { q: 1, r: 0, s: -1 },
+            pixelPos: { x: 10, y: 0 },
+            color: BubbleColor.RED,
+            gem: 'golden',
+            mystery: false,
+            blocker: false
+        });
+        expect([BubbleColor.RED, BubbleColor.BLUE]).toContain(positions[1].color);
+        expect(positions[2].blocker).toBe(true);
+        expect(positions[3].mystery).toBe('bomb');
+    });
+
+    it('should pick the same unlisted colors from the same seed', () => {
+        const level = createLevel();
+        const toPixel = (): { x: number; y: number } => ({ x: 0, y: 0 });
+
+        const first = LevelLoader.createFieldPositions(level, toPixel, new RandomStream(99));
+        const second = LevelLoader.createFieldPositions(level, toPixel, new RandomStream(99));
+
+        expect(first.map(position => position.color)).toEqual(second.map(position => position.color));
+    });
+
+    it('should turn win conditions and time limits into match rules', () => {
+        expect(LevelLoader.getMatchRules(createLevel())).toEqual({});
+        expect(LevelLoader.getMatchRules(createLevel({ winCondition: { type: 'gems', target: 5 } }))).toEqual({
+            gemsToWin: 5
+        });
+
+        const clearRules = LevelLoader.getMatchRules(createLevel({ winCondition: { type: 'clear' }, timeLimit: 60 }));
+        expect(clearRules.gemsToWin).toBe(Number.MAX_SAFE_INTEGER);
+        expect(clearRules.gameDuration).toBe(60000);
+        expect(clearRules.suddenDeathTime).toBeLessThan(60000);
+    });
+
+    it('should map color names for the launcher queue', () => {
+        const level = createLevel({ startingQueue: ['blue', 'red'] });
+
+        expect(LevelLoader.getAllowedColors(level)).toEqual([BubbleColor.RED, BubbleColor.BLUE]);
+        expect(LevelLoader.getStartingQueue(level)).toEqual([BubbleColor.BLUE, BubbleColor.RED]);
+        expect(LevelLoader.getStartingQueue(createLevel())).toEqual([]);
+    });
+});
@@ -0,0 +1,97 @@
+import {
+    getDefaultLoadout,
+    getUnlockedPowerUps,
+    isValidLoadout,
+    LOADOUT_RULES,
+    toggleLoadoutPick
+} from '@/core/rules/LoadoutRules';
+import { PowerUpLoader } from '@/systems/powerups/PowerUpLoader';
+import { LoadoutStore } from '@/systems/powerups/LoadoutStore';
+import { IPowerUpDefinition, POWER_UP_FORMAT_VERSION, PowerUpType } from '@/types/PowerUpTypes';
+
+const createPowerUp = (id: string, overrides: Partial<IPowerUpDefinition> = {}): IPowerUpDefinition => ({
+    version: POWER_UP_FORMAT_VERSION,
+    id,
+    kind: PowerUpType.SHIELD,
+    name: id,
+    description: '',
+    icon: '🛡️',
+    color: '#4169E1',
+    weight: 1,
+    aimingMode: 'shield_barrier',
+    effects: [{ type: 'shield' }],
+    ...overrides
+});
+
+const CATALOGUE = [
+    createPowerUp('bomb'),
+    createPowerUp('laser'),
+    createPowerUp('shield'),
+    createPowerUp('jam', { unlockStars: 6 }),
+    createPowerUp('retired', { weight: 0 })
+];
+
+describe('LoadoutRules', () => {
+    it('should unlock power-ups with campaign stars and leave out ones that never drop', () => {
+        expect(getUnlockedPowerUps(CATALOGUE, 0).map(definition => definition.id)).toEqual(['bomb', 'laser', 'shield']);
+        expect(getUnlockedPowerUps(CATALOGUE, 6).map(definition => definition.id))
+            .toEqual(['bomb', 'laser', 'shield', 'jam']);
+    });
+
+    it('should only accept a full loadout of different ids', () => {
+        expect(LOADOUT_RULES.SIZE).toBe(3);
+        expect(isValidLoadout(['bomb', 'laser', 'shield'])).toBe(true);
+        expect(isValidLoadout(['bomb', 'laser'])).toBe(false);
+        expect(isValidLoadout(['bomb', 'bomb', 'laser'])).toBe(false);
+        expect(isValidLoadout(['bomb', 'laser', 3])).toBe(false);
+        expect(isValidLoadout('bomb')).toBe(false);
+    });
+
+    it('should pick until full and drop a picked power-up', () => {
+        let loadout = toggleLoadoutPick([], 'bomb');
+        loadout = toggleLoadoutPick(loadout, 'laser');
+        loadout = toggleLoadoutPick(loadout, 'shield');
+
+        expect(toggleLoadoutPick(loadout, 'jam')).toEqual(['bomb', 'laser', 'shield']);
+        expect(toggleLoadoutPick(loadout, 'laser')).toEqual(['bomb', 'shield']);
+    });
+
+    it('should keep the last loadout only while it is still unlocked', () => {
+        const unlocked = getUnlockedPowerUps(CATALOGUE, 6);
+
+        expect(getDefaultLoadout(unlocked, ['jam', 'bomb', 'shield'])).toEqual(['jam', 'bomb', 'shield']);
+        expect(getDefaultLoadout(getUnlockedPowerUps(CATALOGUE, 0), ['jam', 'bomb', 'shield']))
+            .toEqual(['bomb', 'laser', 'shield']);
+        expect(getDefaultLoadout(unlocked, undefined)).toEqual(['bomb', 'laser', 'shield']);
+    });
+
+    it('should need whole unlock stars in a catalogue entry', () => {
+        expect(PowerUpLoader.validate(createPowerUp('jam', { unlockStars: 6 }))).toEqual([]);
+        expect(PowerUpLoader.validate(createPowerUp('jam', { unlockStars: 1.5 })))
+            .toEqual([expect.stringContaining('unlockStars')]);
+    });
+});
+
+describe('LoadoutStore', () => {
+    beforeEach(() => {
+        localStorage.clear();
+    });
+
+    it('should keep the last picks for the next visit', () => {
+        expect(LoadoutStore.load()).toEqual([]);
+
+        LoadoutStore.save(['jam', 'bomb', 'shield']);
+
+        expect(LoadoutStore.load()).toEqual(['jam', 'bomb', 'shield']);
+        expect(getDefaultLoadout(getUnlockedPowerUps(CATALOGUE, 6), LoadoutStore.load())).toEqual(['jam', 'bomb', 'shield']);
+    });
+
+    it('should forget an incomplete save', () => {
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        LoadoutStore.save(['jam']);
+
+        expect(LoadoutStore.load()).toEqual([]);
+        expect(warn).toHaveBeenCalledTimes(1);
+        warn.mockRestore();
+    });
+});
@@ -0,0 +1,80 @@
+import { MatchSimulator, SIMULATED_DIFFICULTY } from '@/systems/simulation/MatchSimulator';
+import { findColorGroup, findDisconnected } from '@/core/rules/GridRules';
+import { calculateResetGemLoss, resolveFieldFull, resolveTimeUp, VICTORY_RULES } from '@/core/rules/VictoryRules';
+import { getHexNeighbors, hexKey } from '@/core/rules/HexMath';
+
+describe('MatchSimulator', () => {
+    describe('Rules', () => {
+        it('should clamp reset gem loss to the GDD limits', () => {
+            expect(calculateResetGemLoss(0)).toBe(0);
+            expect(calculateResetGemLoss(1)).toBe(VICTORY_RULES.MIN_GEM_LOSS);
+            expect(calculateResetGemLoss(8)).toBe(4);
+            expect(calculateResetGemLoss(30)).toBe(VICTORY_RULES.MAX_GEM_LOSS);
+        });
+
+        it('should only eliminate a full field in sudden death', () => {
+            expect(resolveFieldFull(true, false)).toBeNull();
+            expect(resolveFieldFull(true, true)).toEqual({ winner: 'opponent', reason: 'sudden-death' });
+        });
+
+        it('should decide time up by gems, then score', () => {
+            expect(resolveTimeUp(5, 3).winner).toBe('player');
+            expect(resolveTimeUp(4, 4, 10, 20).winner).toBe('opponent');
+            expect(resolveTimeUp(4, 4).winner).toBe('tie');
+        });
+
+        it('should flood fill color groups and floating cells on a plain grid', () => {
+            const colors = new Map<string, number>([
+                ['0,1', 1], ['1,1', 1], ['1,2', 1], ['3,3', 2]
+            ]);
+            const neighbors = (key: string): string[] => {
+                const [q, r] = key.split(',').map(Number);
+                return getHexNeighbors({ q, r, s: -q - r })
+                    .map(hex => hexKey(hex.q, hex.r))
+                    .filter(neighbor => colors.has(neighbor));
+            };
+
+            expect(findColorGroup('0,1', 1, neighbors, key => colors.get(key)).size).toBe(3);
+            expect(findDisconnected(Array.from(colors.keys()), ['0,1'], neighbors)).toEqual(['3,3']);
+        });
+    });
+
+    describe('Simulation', () => {
+        it('should finish every match with a result', () => {
+            const simulator = new MatchSimulator();
+            const result = simulator.runMatch(42);
+
+            expect(['player', 'opponent', 'tie']).toContain(result.winner);
+            expect(result.duration).toBeGreaterThan(0);
+            expect(result.duration).toBeLessThanOrEqual(VICTORY_RULES.GAME_DURATION);
+            expect(result.player.shots).toBeGreaterThan(0);
+        });
+
+        it('should be deterministic for a seed', () => {
+            const first = new MatchSimulator().runMatch(7);
+            const second = new MatchSimulator().runMatch(7);
+
+            expect(second).toEqual(first);
+        });
+
+        it('should aggregate batch statistics', () => {
+            const simulator = new MatchSimulator({ theme: 'ocean' });
+            const stats = simulator.runBatch(10);
+
+            expect(stats.matches).toBe(10);
+            expect(stats.playerWinRate + stats.opponentWinRate + stats.tieRate).toBeCloseTo(1);
+            expect(stats.averageDuration).toBeGreaterThan(0);
+            expect(stats.averageGemsBySource.thrown).toBe(0);
+        });
+
+        it('should favour the stronger side over many matches', () => {
+            const simulator = new MatchSimulator({
+                player: SIMULATED_DIFFICULTY.hard,
+                opponent: SIMULATED_DIFFICULTY.easy
+            });
+            const stats = simulator.runBatch(20);
+
+            expect(stats.playerWinRate).toBeGreaterThan(stats.opponentWinRate);
+        });
+    });
+});
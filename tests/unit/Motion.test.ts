@@ -0,0 +1,33 @@
+import type { Scene } from 'phaser';
+import { shakeCamera } from '@/utils/motion';
+import { SettingsStore } from '@/systems/settings/SettingsStore';
+
+const createScene = (): { scene: Scene; shake: jest.Mock } => {
+    const shake = jest.fn();
+    return { scene: { cameras: { main: { shake } } } as unknown as Scene, shake };
+};
+
+describe('shakeCamera', () => {
+    beforeEach(() => {
+        localStorage.clear();
+        (SettingsStore as unknown as { instance?: SettingsStore }).instance = undefined;
+    });
+
+    it('should shake the main camera', () => {
+        const { scene, shake } = createScene();
+
+        shakeCamera(scene, 200, 0.01);
+
+        expect(shake).toHaveBeenCalledTimes(1);
+        expect(shake).toHaveBeenCalledWith(200, 0.01);
+    });
+
+    it('should keep the camera still with reduced motion on', () => {
+        const { scene, shake } = createScene();
+        SettingsStore.getInstance().update({ reducedMotion: true });
+
+        shakeCamera(scene, 200, 0.01);
+
+        expect(shake).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,87 @@
+import { NetworkSession } from '@/systems/network/NetworkSession';
+import { LoopbackAdapter } from '@/systems/network/LoopbackAdapter';
+import { GameEventBus } from '@/core/EventBus';
+import { INetworkMatchInfo, INetworkSettings, INetworkShotMessage } from '@/types/NetworkTypes';
+
+const SETTINGS: INetworkSettings = {
+    SYNC_RATE: 5,
+    TIMEOUT: 200,
+    RECONNECT_ATTEMPTS: 1
+};
+
+const wait = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('NetworkSession', () => {
+    let host: NetworkSession;
+    let guest: NetworkSession;
+
+    beforeEach(() => {
+        host = new NetworkSession(new LoopbackAdapter(false), SETTINGS, {
+            roomId: 'test-room',
+            seed: 111,
+            theme: 'space',
+            peerId: 'host'
+        });
+        guest = new NetworkSession(new LoopbackAdapter(false), SETTINGS, {
+            roomId: 'test-room',
+            seed: 222,
+            theme: 'ocean',
+            peerId: 'guest'
+        });
+    });
+
+    afterEach(async () => {
+        await host.disconnect();
+        await guest.disconnect();
+    });
+
+    it('should pair two peers on the host seed and theme', async () => {
+        const joined: INetworkMatchInfo[] = [];
+        host.on('peer-joined', (info: INetworkMatchInfo) => joined.push(info));
+        guest.on('peer-joined', (info: INetworkMatchInfo) => joined.push(info));
+
+        await host.connect();
+        await wait(2);
+        await guest.connect();
+        await wait(30);
+
+        expect(host.getStatus()).toBe('connected');
+        expect(guest.getStatus()).toBe('connected');
+        expect(host.getMatchInfo()).toEqual({ isHost: true, remotePeerId: 'guest', seed: 111, theme: 'space' });
+        expect(guest.getMatchInfo()).toEqual({ isHost: false, remotePeerId: 'host', seed: 111, theme: 'space' });
+        expect(joined).toHaveLength(2);
+    });
+
+    it('should forward local shots and ignore remote echoes', async () => {
+        await host.connect();
+        await wait(2);
+        await guest.connect();
+        await wait(30);
+
+        const received: INetworkShotMessage[] = [];
+        guest.on('remote-shot', (message: INetworkShotMessage) => received.push(message));
+        host.startMatch(() => 1234);
+
+        const bus = GameEventBus.getInstance();
+        bus.emitTyped('shot-fired', { isPlayer: true, angle: 270, color: 0xff0000, position: { x: 0, y: 0 } });
+        bus.emitTyped('shot-fired', { isPlayer: false, angle: 90, color: 0x00ff00, position: { x: 0, y: 0 } });
+        await wait(30);
+
+        expect(received).toEqual([{ type: 'shot', angle: 270, color: 0xff0000, timestamp: 1234 }]);
+    });
+
+    it('should report the peer leaving', async () => {
+        await host.connect();
+        await wait(2);
+        await guest.connect();
+        await wait(30);
+
+        const left = jest.fn();
+        host.on('peer-left', left);
+        await guest.disconnect();
+        await wait(30);
+
+        expect(left).toHaveBeenCalledTimes(1);
+        expect(host.getStatus()).toBe('disconnected');
+    });
+});
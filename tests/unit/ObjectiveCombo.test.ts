@@ -0,0 +1,43 @@
+import { ObjectiveCombo } from '@/systems/gameplay/ObjectiveCombo';
+
+describe('ObjectiveCombo', () => {
+    it('should build up across both sides while the hits keep coming', () => {
+        const combo = new ObjectiveCombo();
+
+        expect(combo.hit(true, 10000)).toBe(1);
+        expect(combo.hit(false, 11000)).toBe(2);
+        expect(combo.hit(true, 12000)).toBe(3);
+        expect(combo.getCount()).toBe(3);
+    });
+
+    it('should cap the gems and lapse after the reset time', () => {
+        const combo = new ObjectiveCombo();
+        for (let hit = 0; hit < 6; hit++) {
+            combo.hit(true, 10000 + hit * 100);
+        }
+        expect(combo.hit(true, 11000)).toBe(ObjectiveCombo.MAX_GEMS);
+
+        expect(combo.hit(true, 11000 + ObjectiveCombo.RESET_TIME + 1)).toBe(1);
+    });
+
+    it('should keep the combo when the other side shoots into the grid', () => {
+        const combo = new ObjectiveCombo();
+        combo.hit(true, 10000);
+        combo.hit(true, 10500);
+
+        combo.onBubbleAttached(false);
+
+        expect(combo.hit(true, 11000)).toBe(3);
+    });
+
+    it('should break the combo when the last hitter shoots into the grid', () => {
+        const combo = new ObjectiveCombo();
+        combo.hit(false, 10000);
+        combo.hit(true, 10500);
+
+        combo.onBubbleAttached(true);
+
+        expect(combo.getCount()).toBe(0);
+        expect(combo.hit(false, 11000)).toBe(1);
+    });
+});
@@ -0,0 +1,253 @@
+import type { Scene } from 'phaser';
+import { EventEmitter } from 'eventemitter3';
+import type { UIManager } from '@/managers/UIManager';
+import type { ResetSystem } from '@/systems/gameplay/ResetSystem';
+import type { RowSpawnSystem } from '@/systems/gameplay/RowSpawnSystem';
+import { IAttackTarget, PowerUpAttackSystem } from '@/systems/powerups/PowerUpAttackSystem';
+import { POWER_UP_RULES } from '@/core/rules/PowerUpRules';
+import { BubbleColor } from '@/types/ArenaTypes';
+
+const WINDOW = POWER_UP_RULES.ATTACK_COUNTER_WINDOW;
+
+jest.mock('@/powerups', () => {
+    const attack = (id: string, effects: unknown[], duration?: number): unknown =>
+        ({ id, name: id, icon: '', effects, duration });
+    const definitions: Record<string, unknown> = {
+        junk: attack('junk', [{ type: 'junk-rows', rows: 2 }]),
+        ink: attack('ink', [{ type: 'ink' }], 4000),
+        jam: attack('jam', [{ type: 'jam', factor: 2 }], 6000)
+    };
+    return { getPowerUpDefinition: (id: string) => definitions[id] };
+});
+
+interface IFakeTimer {
+    at: number;
+    callback: () => void;
+    destroyed: boolean;
+}
+
+// Scene clock that only moves when a test advances it
+const createClock = (): {
+    time: { delayedCall: (delay: number, callback: () => void) => unknown };
+    advance: (ms: number) => void;
+} => {
+    let now = 0;
+    const timers: IFakeTimer[] = [];
+    return {
+        time: {
+            delayedCall: (delay: number, callback: () => void) => {
+                const timer: IFakeTimer = { at: now + delay, callback, destroyed: false };
+                timers.push(timer);
+                return {
+                    destroy: () => {
+                        timer.destroyed = true;
+                    },
+                    getRemaining: () => timer.at - now
+                };
+            }
+        },
+        // Timers go off in order, each at its own time
+        advance: (ms: number) => {
+            const end = now + ms;
+            const nextDue = (): IFakeTimer | undefined =>
+                timers.filter(timer => !timer.destroyed && timer.at <= end).sort((a, b) => a.at - b.at)[0];
+            for (let timer = nextDue(); timer; timer = nextDue()) {
+                now = timer.at;
+                timer.destroyed = true;
+                timer.callback();
+            }
+            now = end;
+        }
+    };
+};
+
+const createTarget = (): IAttackTarget & { inked: boolean; cooldown: number } => {
+    const target = {
+        inked: false,
+        cooldown: 1,
+        getLoadedColor: () => BubbleColor.RED,
+        getQueueColors: () => [BubbleColor.BLUE],
+        restoreQueue: jest.fn(),
+        setCooldownMultiplier: (multiplier: number) => {
+            target.cooldown = multiplier;
+        },
+        setInked: (inked: boolean) => {
+            target.inked = inked;
+        }
+    };
+    return target;
+};
+
+const createAttackSystem = (): {
+    system: PowerUpAttackSystem;
+    scene: Scene;
+    advance: (ms: number) => void;
+    player: ReturnType<typeof createTarget>;
+    opponent: ReturnType<typeof createTarget>;
+    shields: { player: boolean; opponent: boolean };
+    pushJunkRows: jest.Mock;
+    landed: { id: string; isPlayer: boolean }[];
+} => {
+    const clock = createClock();
+    const scene = { events: new EventEmitter(), time: clock.time } as unknown as Scene;
+    const player = createTarget();
+    const opponent = createTarget();
+    // One charge per side, spent by the first attack it meets
+    const shields = { player: false, opponent: false };
+    const resetSystem = {
+        blockAttackWithShield: (isPlayer: boolean) => {
+            const side = isPlayer ? 'player' : 'opponent';
+            const blocked = shields[side];
+            shields[side] = false;
+            return blocked;
+        }
+    };
+    const pushJunkRows = jest.fn();
+    const system = new PowerUpAttackSystem(scene, {
+        uiManager: { showNotification: jest.fn() } as unknown as UIManager,
+        resetSystem: resetSystem as unknown as ResetSystem,
+        rowSpawnSystem: { pushJunkRows } as unknown as RowSpawnSystem,
+        getTarget: isPlayer => isPlayer ? player : opponent,
+        getBoardColors: () => [BubbleColor.RED, BubbleColor.BLUE]
+    });
+    const landed: { id: string; isPlayer: boolean }[] = [];
+    scene.events.on('power-up-attack-landed', (data: { id: string; isPlayer: boolean }) => landed.push(data));
+    return { system, scene, advance: clock.advance, player, opponent, shields, pushJunkRows, landed };
+};
+
+describe('PowerUpAttackSystem', () => {
+    describe('counter-window', () => {
+        it('should warn the other side and land only once the window runs out', () => {
+            const { scene, advance, player, opponent, landed } = createAttackSystem();
+            const incoming = jest.fn();
+            scene.events.on('power-up-incoming', incoming);
+
+            scene.events.emit('power-up-attack', { id: 'ink', isPlayer: true });
+
+            expect(incoming).toHaveBeenCalledWith({ id: 'ink', isPlayer: false, window: WINDOW });
+
+            advance(WINDOW - 1);
+
+            expect(opponent.inked).toBe(false);
+            expect(landed).toEqual([]);
+
+            advance(1);
+
+            expect(opponent.inked).toBe(true);
+            expect(player.inked).toBe(false);
+            expect(landed).toEqual([{ id: 'ink', isPlayer: false }]);
+        });
+
+        it('should let a shield raised within the window block the attack', () => {
+            const { scene, advance, player, shields, landed } = createAttackSystem();
+
+            scene.events.emit('power-up-attack', { id: 'jam', isPlayer: false });
+            advance(WINDOW / 2);
+            shields.player = true;
+            advance(WINDOW / 2);
+
+            expect(player.cooldown).toBe(1);
+            expect(shields.player).toBe(false);
+            expect(landed).toEqual([]);
+        });
+
+        it('should spend a shield on one attack only', () => {
+            const { scene, advance, player, shields } = createAttackSystem();
+            shields.player = true;
+            shields.opponent = true;
+
+            scene.events.emit('power-up-attack', { id: 'ink', isPlayer: false });
+            scene.events.emit('power-up-attack', { id: 'jam', isPlayer: false });
+            advance(WINDOW);
+
+            expect(player.inked).toBe(false);
+            expect(player.cooldown).toBe(2);
+            expect(shields.opponent).toBe(true);
+        });
+    });
+
+    describe('attacks', () => {
+        it('should push junk rows onto the target side', () => {
+            const { scene, advance, pushJunkRows } = createAttackSystem();
+
+            scene.events.emit('power-up-attack', { id: 'junk', isPlayer: false });
+            advance(WINDOW);
+
+            expect(pushJunkRows).toHaveBeenCalledTimes(1);
+            expect(pushJunkRows).toHaveBeenCalledWith(true, 2);
+        });
+
+        it('should ink the target\'s aim for the duration', () => {
+            const { scene, advance, opponent } = createAttackSystem();
+
+            scene.events.emit('power-up-attack', { id: 'ink', isPlayer: true });
+            advance(WINDOW + 4000 - 1);
+
+            expect(opponent.inked).toBe(true);
+
+            advance(1);
+
+            expect(opponent.inked).toBe(false);
+        });
+
+        it('should jam the target\'s reload for the duration', () => {
+            const { scene, advance, player } = createAttackSystem();
+
+            scene.events.emit('power-up-attack', { id: 'jam', isPlayer: false });
+            advance(WINDOW);
+
+            expect(player.cooldown).toBe(2);
+
+            advance(6000);
+
+            expect(player.cooldown).toBe(1);
+        });
+
+        it('should restart the clock when a second one lands rather than stack', () => {
+            const { scene, advance, opponent } = createAttackSystem();
+
+            // The second lands while the first is still on
+            scene.events.emit('power-up-attack', { id: 'ink', isPlayer: true });
+            advance(WINDOW + 1000);
+            scene.events.emit('power-up-attack', { id: 'ink', isPlayer: true });
+            advance(WINDOW);
+
+            // Past the first one's end - the second has its own full duration left
+            advance(4000 - 1);
+
+            expect(opponent.inked).toBe(true);
+
+            advance(1);
+
+            expect(opponent.inked).toBe(false);
+        });
+    });
+
+    describe('snapshots', () => {
+        it('should report the ink and jam still wearing off on a side', () => {
+            const { system, scene, advance } = createAttackSystem();
+
+            scene.events.emit('power-up-attack', { id: 'jam', isPlayer: false });
+            advance(WINDOW + 1000);
+
+            expect(system.getActiveEffects(true)).toEqual([{ primitive: { type: 'jam', factor: 2 }, remaining: 5000 }]);
+            expect(system.getActiveEffects(false)).toEqual([]);
+        });
+
+        it('should put saved effects back and clear the ones a side has now', () => {
+            const { system, scene, advance, player } = createAttackSystem();
+            scene.events.emit('power-up-attack', { id: 'jam', isPlayer: false });
+            advance(WINDOW);
+
+            system.restoreEffects(true, [{ primitive: { type: 'ink' }, remaining: 500 }]);
+
+            expect(player).toMatchObject({ inked: true, cooldown: 1 });
+            expect(system.getActiveEffects(true)).toEqual([{ primitive: { type: 'ink' }, remaining: 500 }]);
+
+            advance(500);
+
+            expect(player.inked).toBe(false);
+            expect(system.getActiveEffects(true)).toEqual([]);
+        });
+    });
+});
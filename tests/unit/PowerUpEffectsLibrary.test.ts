@@ -0,0 +1,284 @@
+import type { Scene } from 'phaser';
+import { EventEmitter } from 'eventemitter3';
+import { GameEventBus } from '@/core/EventBus';
+import { AimingMode } from '@/systems/powerups/AimingModeSystem';
+import { CatalogueEffect, PowerUpContext } from '@/systems/powerups/PowerUpEffectsLibrary';
+import { IPowerUpDefinition, POWER_UP_FORMAT_VERSION, PowerUpType } from '@/types/PowerUpTypes';
+
+jest.mock('phaser', () => ({ __esModule: true, default: {} }));
+
+const FREEZE: IPowerUpDefinition = {
+    version: POWER_UP_FORMAT_VERSION,
+    id: 'freeze',
+    kind: PowerUpType.FREEZE,
+    name: 'Freeze',
+    description: 'Slows down time',
+    icon: '❄️',
+    color: '#00CED1',
+    weight: 1,
+    aimingMode: 'snowflake_area',
+    duration: 5000,
+    effects: [{ type: 'time-scale', scale: 0.5 }]
+};
+
+const LASER: IPowerUpDefinition = {
+    ...FREEZE,
+    id: 'laser',
+    kind: PowerUpType.LASER,
+    aimingMode: 'extended_line',
+    duration: undefined,
+    shots: 5,
+    effects: []
+};
+
+const MULTIPLIER: IPowerUpDefinition = {
+    ...FREEZE,
+    id: 'multiplier',
+    kind: PowerUpType.MULTIPLIER,
+    aimingMode: 'triple_arrow',
+    duration: undefined,
+    effects: []
+};
+
+const MAGNET: IPowerUpDefinition = {
+    ...FREEZE,
+    id: 'magnet',
+    kind: PowerUpType.MAGNET,
+    aimingMode: 'magnet_field',
+    duration: undefined,
+    radius: 150,
+    effects: [{ type: 'magnet' }]
+};
+
+const SHIELD: IPowerUpDefinition = {
+    ...FREEZE,
+    id: 'shield',
+    kind: PowerUpType.SHIELD,
+    aimingMode: 'shield_barrier',
+    duration: undefined,
+    effects: [{ type: 'shield' }]
+};
+
+const BOMB: IPowerUpDefinition = {
+    ...FREEZE,
+    id: 'bomb',
+    kind: PowerUpType.BOMB,
+    color: '#FF4500',
+    aimingMode: 'explosion_radius',
+    duration: undefined,
+    radius: 120,
+    effects: [{ type: 'area-clear' }]
+};
+
+const JAM: IPowerUpDefinition = {
+    ...FREEZE,
+    id: 'jam',
+    kind: PowerUpType.JAM,
+    aimingMode: 'crosshair',
+    duration: 6000,
+    effects: [{ type: 'jam', factor: 2.5 }]
+};
+
+// A scene running at a replay's speed, with the slowdown's end held back until asked for
+const createContext = (
+    speed: number,
+    isPlayer: boolean = false
+): { context: PowerUpContext; scene: Scene; endSlowdown: () => void } => {
+    let pending: (() => void) | undefined;
+    const scene = {
+        events: new EventEmitter(),
+        cameras: { main: { centerX: 400, centerY: 700, width: 800, height: 1400 } },
+        add: { rectangle: () => ({ setDepth: jest.fn(), destroy: jest.fn() }) },
+        time: {
+            timeScale: speed,
+            delayedCall: (_delay: number, callback: () => void) => {
+                pending = callback;
+                return { destroy: jest.fn() };
+            }
+        },
+        tweens: { timeScale: speed }
+    } as unknown as Scene;
+    const context = { scene, aimingMode: { setMode: jest.fn() }, isPlayer } as unknown as PowerUpContext;
+    return { context, scene, endSlowdown: () => pending?.() };
+};
+
+const fireShot = (isPlayer: boolean): void => {
+    GameEventBus.getInstance().emitTyped('shot-fired', { isPlayer, angle: -90, color: 0xff0000, position: { x: 0, y: 0 } });
+};
+
+// Every aim the effect set, oldest first
+const aims = (context: PowerUpContext): AimingMode[] =>
+    (context.aimingMode.setMode as jest.Mock<void, [AimingMode]>).mock.calls.map(([mode]) => mode);
+
+const lastAim = (context: PowerUpContext): AimingMode => {
+    const set = aims(context);
+    return set[set.length - 1];
+};
+
+describe('CatalogueEffect', () => {
+    afterEach(() => {
+        GameEventBus.getInstance().removeAllListeners();
+    });
+
+    describe('shots', () => {
+        it('should keep the laser sight for its five shots and then go back to normal aim', () => {
+            const { context } = createContext(1, true);
+            const effect = new CatalogueEffect(LASER);
+
+            effect.activate(context);
+            expect(lastAim(context)).toBe(AimingMode.LASER);
+
+            for (let shot = 0; shot < 4; shot++) {
+                fireShot(true);
+            }
+            fireShot(false);
+            expect(effect.isPending()).toBe(true);
+            expect(effect.getShotsLeft()).toBe(1);
+            expect(lastAim(context)).toBe(AimingMode.LASER);
+
+            fireShot(true);
+            expect(effect.isPending()).toBe(false);
+            expect(lastAim(context)).toBe(AimingMode.NORMAL);
+        });
+
+        it('should spend the multi-shot aim on the next shot', () => {
+            const { context } = createContext(1, true);
+            const effect = new CatalogueEffect(MULTIPLIER);
+
+            effect.activate(context);
+            expect(lastAim(context)).toBe(AimingMode.MULTI);
+            expect(effect.isPending()).toBe(true);
+
+            fireShot(true);
+            expect(effect.isPending()).toBe(false);
+            expect(lastAim(context)).toBe(AimingMode.NORMAL);
+
+            fireShot(true);
+            expect(aims(context)).toHaveLength(2);
+        });
+
+        it('should drop the magnet aim once its shot takes the pull', () => {
+            const { context, scene } = createContext(1, true);
+            const effect = new CatalogueEffect(MAGNET);
+
+            effect.activate(context);
+            expect(lastAim(context)).toBe(AimingMode.MAGNET);
+
+            scene.events.emit('magnet-spent', { isPlayer: false });
+            expect(lastAim(context)).toBe(AimingMode.MAGNET);
+
+            scene.events.emit('magnet-spent', { isPlayer: true });
+            expect(effect.isPending()).toBe(false);
+            expect(lastAim(context)).toBe(AimingMode.NORMAL);
+        });
+
+        it('should show the shield barrier only while the shield goes up', () => {
+            const { context, scene, endSlowdown: endRaise } = createContext(1, true);
+            const raised = jest.fn();
+            scene.events.on('shield-raised', raised);
+            const effect = new CatalogueEffect(SHIELD);
+
+            effect.activate(context);
+            expect(raised).toHaveBeenCalledWith({ isPlayer: true });
+            expect(lastAim(context)).toBe(AimingMode.SHIELD);
+            expect(effect.isPending()).toBe(false);
+
+            endRaise();
+            expect(lastAim(context)).toBe(AimingMode.NORMAL);
+        });
+    });
+
+    describe('strikes', () => {
+        it('should strike at a spot with no shot spent', () => {
+            const { context, scene } = createContext(1, false);
+            const bubble = (q: number, r: number, x: number): object => ({
+                visible: true,
+                x,
+                y: -400,
+                getGridPosition: () => ({ q, r, s: -q - r }),
+                getColor: () => 0xff0000
+            });
+            context.gridAttachmentSystem = {
+                getGridBubbles: () => [bubble(0, -8, 0), bubble(1, -8, 100), bubble(3, -8, 300)]
+            } as unknown as PowerUpContext['gridAttachmentSystem'];
+            const strike = jest.fn();
+            scene.events.on('power-up-strike', strike);
+            const effect = new CatalogueEffect(BOMB);
+
+            const position = { q: 0, r: -8, s: 8 };
+            effect.strikeAt(context, { x: 0, y: -400, position, color: 0xff0000, isPlayer: false });
+
+            expect(strike).toHaveBeenCalledWith(expect.objectContaining({
+                id: 'bomb',
+                isPlayer: false,
+                radius: 120,
+                cells: [{ q: 0, r: -8 }, { q: 1, r: -8 }]
+            }));
+            expect(effect.isPending()).toBe(false);
+        });
+    });
+
+    describe('attacks', () => {
+        it('should send an attack without aiming or waiting on a shot', () => {
+            const { context, scene } = createContext(1, true);
+            const attack = jest.fn();
+            scene.events.on('power-up-attack', attack);
+            const effect = new CatalogueEffect(JAM);
+
+            effect.activate(context);
+
+            expect(attack).toHaveBeenCalledWith({ id: 'jam', isPlayer: true });
+            expect(aims(context)).toEqual([]);
+            expect(context.shotsRemaining).toBeUndefined();
+            expect(effect.isPending()).toBe(false);
+        });
+    });
+
+    describe('restore', () => {
+        it('should re-arm the aim and the shots left without running the activation again', () => {
+            const { context, scene } = createContext(2, true);
+            const activation = jest.fn();
+            scene.events.on('shield-raised', activation);
+            scene.events.on('power-up-attack', activation);
+            const effect = new CatalogueEffect(FREEZE);
+
+            effect.restore(context, 2);
+
+            expect(scene.time.timeScale).toBe(2);
+            expect(activation).not.toHaveBeenCalled();
+            expect(lastAim(context)).toBe(AimingMode.FREEZE);
+            expect(effect.getShotsLeft()).toBe(2);
+
+            fireShot(true);
+            fireShot(true);
+            expect(lastAim(context)).toBe(AimingMode.NORMAL);
+        });
+    });
+
+    describe('time-scale', () => {
+        it('should slow the clock relative to its speed and give that speed back', () => {
+            const { context, scene, endSlowdown } = createContext(2);
+
+            new CatalogueEffect(FREEZE).activate(context);
+
+            expect(scene.time.timeScale).toBe(1);
+            expect(scene.tweens.timeScale).toBe(1);
+
+            endSlowdown();
+
+            expect(scene.time.timeScale).toBe(2);
+            expect(scene.tweens.timeScale).toBe(2);
+        });
+
+        it('should give the speed back when torn down early', () => {
+            const { context, scene } = createContext(4);
+            const effect = new CatalogueEffect(FREEZE);
+
+            effect.activate(context);
+            effect.deactivate(context);
+
+            expect(scene.time.timeScale).toBe(4);
+            expect(scene.tweens.timeScale).toBe(4);
+        });
+    });
+});
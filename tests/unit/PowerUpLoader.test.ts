@@ -0,0 +1,127 @@
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { PowerUpLoader } from '@/systems/powerups/PowerUpLoader';
+import { RandomStream } from '@/core/RandomService';
+import {
+    findCellsInRadius,
+    findCellsInRow,
+    findChainCells,
+    IPowerUpCell,
+    touchesObjective
+} from '@/core/rules/PowerUpRules';
+import { BubbleColor } from '@/types/ArenaTypes';
+import { IPowerUpDefinition, POWER_UP_FORMAT_VERSION, PowerUpType } from '@/types/PowerUpTypes';
+
+const createPowerUp = (overrides: Partial<IPowerUpDefinition> = {}): IPowerUpDefinition => ({
+    version: POWER_UP_FORMAT_VERSION,
+    id: 'test-bomb',
+    kind: PowerUpType.BOMB,
+    name: 'Test Bomb',
+    description: 'Goes off where it lands',
+    icon: '💣',
+    color: '#FF4500',
+    weight: 1,
+    aimingMode: 'explosion_radius',
+    radius: 100,
+    effects: [{ type: 'area-clear' }],
+    ...overrides
+});
+
+const cell = (q: number, r: number, x: number, y: number, color: BubbleColor = BubbleColor.RED): IPowerUpCell =>
+    ({ q, r, x, y, color });
+
+describe('PowerUpLoader', () => {
+    it('should accept every bundled power-up', () => {
+        const folder = join(__dirname, '../../src/powerups');
+        const files = readdirSync(folder).filter(file => file.endsWith('.json'));
+
+        expect(files.length).toBeGreaterThan(0);
+        files.forEach(file => {
+            const data: unknown = JSON.parse(readFileSync(join(folder, file), 'utf8'));
+            expect({ file, errors: PowerUpLoader.validate(data) }).toEqual({ file, errors: [] });
+        });
+    });
+
+    it('should report every problem in an invalid power-up', () => {
+        const errors = PowerUpLoader.validate({
+            ...createPowerUp(),
+            kind: 'nuke',
+            color: 'orange',
+            weight: -1,
+            radius: undefined,
+            effects: [{ type: 'area-clear' }, { type: 'chain', jumps: 0 }, { type: 'teleport' }]
+        });
+
+        expect(errors).toEqual(expect.arrayContaining([
+            expect.stringContaining('kind'),
+            expect.stringContaining('color'),
+            expect.stringContaining('weight'),
+            expect.stringContaining('effects[0]'),
+            expect.stringContaining('effects[1]'),
+            expect.stringContaining('effects[2]')
+        ]));
+        expect(PowerUpLoader.validate([])).toEqual(['power-up must be an object']);
+    });
+
+    it('should need a duration to scale time', () => {
+        const frozen = createPowerUp({ effects: [{ type: 'time-scale', scale: 0.5 }] });
+
+        expect(PowerUpLoader.validate(frozen)).toEqual([expect.stringContaining('duration')]);
+        expect(PowerUpLoader.validate({ ...frozen, duration: 3000 })).toEqual([]);
+    });
+
+    it('should roll from the weights and never pick a zero weight', () => {
+        const common = createPowerUp({ id: 'common', weight: 3 });
+        const rare = createPowerUp({ id: 'rare', weight: 1 });
+        const never = createPowerUp({ id: 'never', weight: 0 });
+        const rng = new RandomStream(7);
+
+        const counts = new Map<string, number>();
+        for (let i = 0; i < 2000; i++) {
+            const id = PowerUpLoader.pickWeighted([never, common, rare], rng)?.id ?? 'none';
+            counts.set(id, (counts.get(id) ?? 0) + 1);
+        }
+
+        expect(counts.get('never')).toBeUndefined();
+        expect(counts.get('common')! / 2000).toBeCloseTo(0.75, 1);
+        expect(PowerUpLoader.pickWeighted([never], rng)).toBeNull();
+        expect(PowerUpLoader.pickWeighted([], rng)).toBeNull();
+    });
+
+    it('should turn the hex color into a number', () => {
+        expect(PowerUpLoader.toColor(createPowerUp())).toBe(0xFF4500);
+    });
+});
+
+describe('PowerUpRules board primitives', () => {
+    const cells = [
+        cell(0, 1, 0, 50),
+        cell(1, 1, 50, 50),
+        cell(2, 1, 100, 50, BubbleColor.BLUE),
+        cell(0, 2, 0, 130),
+        cell(0, 5, 0, 250)
+    ];
+
+    it('should clear within the radius of the impact', () => {
+        expect(findCellsInRadius(cells, { x: 0, y: 50 }, 60)).toEqual([cells[0], cells[1]]);
+    });
+
+    it('should clear the whole row of the impact', () => {
+        expect(findCellsInRow(cells, 1)).toEqual([cells[0], cells[1], cells[2]]);
+    });
+
+    it('should chain through bubbles of the first color within reach', () => {
+        const chain = findChainCells(cells, { x: 0, y: 40 }, 5, 60);
+
+        // The blue bubble is skipped and the rest are out of reach
+        expect(chain).toEqual([cells[0], cells[1]]);
+        expect(findChainCells(cells, { x: 0, y: 40 }, 5, 200)).toEqual([cells[0], cells[1], cells[3], cells[4]]);
+        expect(findChainCells(cells, { x: 0, y: 40 }, 1, 200)).toHaveLength(2);
+        expect(findChainCells([], { x: 0, y: 0 }, 3)).toEqual([]);
+    });
+
+    it('should only reach the objective next to it', () => {
+        expect(touchesObjective([{ q: 0, r: 1 }])).toBe(true);
+        expect(touchesObjective([{ q: 0, r: 2 }, { q: 0, r: 5 }])).toBe(false);
+    });
+});
@@ -0,0 +1,132 @@
+import { getAnchorPositions, OBJECTIVE_HEX } from '@/core/rules/GridRules';
+import { hexToPixelOffset } from '@/core/rules/HexMath';
+import { PowerUpPlanner } from '@/systems/ai/PowerUpPlanner';
+import { PowerUpType } from '@/systems/powerups/PowerUpManager';
+import { BubbleColor } from '@/types/ArenaTypes';
+import { IAIBoardCell, IAIShotContext } from '@/types/AITypes';
+
+const CENTER = { x: 375, y: 812 };
+const HEX_SIZE = 29.6;
+
+const cell = (q: number, r: number, color: BubbleColor, gem: boolean = false): IAIBoardCell => {
+    const offset = hexToPixelOffset({ q, r, s: -q - r }, HEX_SIZE);
+    return { q, r, x: CENTER.x + offset.x, y: CENTER.y + offset.y, color, gem, blocker: false, mystery: false };
+};
+
+// The six cells around the objective, alternating colors so they never match among themselves
+const ring = (): IAIBoardCell[] =>
+    getAnchorPositions()
+        .filter(hex => hex !== OBJECTIVE_HEX)
+        .map((hex, index) => cell(hex.q, hex.r, index % 2 === 0 ? BubbleColor.RED : BubbleColor.PURPLE));
+
+const createContext = (cells: IAIBoardCell[], changes: Partial<IAIShotContext> = {}): IAIShotContext => ({
+    board: { cells, center: CENTER, hexSize: HEX_SIZE, width: 750, height: 1624 },
+    launcher: { x: 375, y: 150 },
+    color: BubbleColor.GREEN,
+    queue: [],
+    gems: { own: 0, opponent: 0, toWin: 10 },
+    timeRemaining: 120000,
+    allowBankShots: true,
+    targetObjective: true,
+    ...changes
+});
+
+const ALL_POWER_UPS = [
+    PowerUpType.FREEZE,
+    PowerUpType.BOMB,
+    PowerUpType.LIGHTNING,
+    PowerUpType.LASER,
+    PowerUpType.RAINBOW,
+    PowerUpType.MULTIPLIER
+];
+
+describe('PowerUpPlanner', () => {
+    const planner = new PowerUpPlanner();
+
+    it('should keep power-ups nothing on the board is worth spending them on', () => {
+        const context = createContext(ring());
+
+        expect(planner.plan([], context)).toBeNull();
+        expect(planner.plan(ALL_POWER_UPS, context)).toBeNull();
+    });
+
+    it('should freeze the player first once they are about to win', () => {
+        const close = createContext([], { gems: { own: 2, opponent: 8, toWin: 10 } });
+        const far = createContext([], { gems: { own: 2, opponent: 5, toWin: 10 } });
+
+        expect(planner.plan(ALL_POWER_UPS, close)?.type).toBe(PowerUpType.FREEZE);
+        expect(planner.plan([PowerUpType.FREEZE], far)).toBeNull();
+    });
+
+    it('should bomb the densest cluster on its own half', () => {
+        const cluster: IAIBoardCell[] = [];
+        for (let r = -2; r >= -5; r--) {
+            for (let q = -2; q <= 2; q++) {
+                cluster.push(cell(q, r, (q + r) % 2 === 0 ? BubbleColor.BLUE : BubbleColor.YELLOW));
+            }
+        }
+
+        const plan = planner.plan([PowerUpType.BOMB], createContext([...ring(), ...cluster]));
+
+        expect(plan?.type).toBe(PowerUpType.BOMB);
+        expect(plan?.target?.y).toBeLessThan(CENTER.y);
+        expect(plan?.cells.length).toBeGreaterThanOrEqual(6);
+        plan?.cells.forEach(target => {
+            expect(Math.hypot(target.x - plan.target.x, target.y - plan.target.y)).toBeLessThanOrEqual(120);
+        });
+    });
+
+    it('should strike the one bubble a hanging column depends on', () => {
+        const column = [-2, -3, -4, -5, -6, -7]
+            .map(r => cell(0, r, r % 2 === 0 ? BubbleColor.BLUE : BubbleColor.YELLOW));
+
+        const plan = planner.plan([PowerUpType.LIGHTNING], createContext([...ring(), ...column]));
+
+        expect(plan?.type).toBe(PowerUpType.LIGHTNING);
+        expect(plan?.cells).toHaveLength(1);
+        expect(plan?.cells[0]).toMatchObject({ q: 0, r: -2 });
+        expect(plan?.value).toBe(6);
+    });
+
+    it('should only use the laser with a line to the objective', () => {
+        const open = planner.plan([PowerUpType.LASER], createContext([]));
+
+        expect(open?.type).toBe(PowerUpType.LASER);
+        expect(open?.angles).toEqual([expect.any(Number)]);
+        expect(planner.plan([PowerUpType.LASER], createContext(ring()))).toBeNull();
+    });
+
+    it('should turn the loaded bubble into the color that clears the most', () => {
+        const blues = [cell(0, -2, BubbleColor.BLUE), cell(-1, -2, BubbleColor.BLUE), cell(0, -3, BubbleColor.BLUE)];
+        const hanging = [cell(0, -4, BubbleColor.YELLOW, true), cell(0, -5, BubbleColor.YELLOW)];
+
+        const plan = planner.plan([PowerUpType.RAINBOW], createContext([...ring(), ...blues, ...hanging]));
+
+        expect(plan?.type).toBe(PowerUpType.RAINBOW);
+        expect(plan?.color).toBe(BubbleColor.BLUE);
+        expect(plan?.angles).toHaveLength(1);
+    });
+
+    it('should fire a three-way spread when it clears enough between the shots', () => {
+        const blues = [cell(0, -2, BubbleColor.BLUE), cell(-1, -2, BubbleColor.BLUE), cell(0, -3, BubbleColor.BLUE)];
+        const hanging = [cell(0, -4, BubbleColor.YELLOW, true), cell(0, -5, BubbleColor.YELLOW)];
+        const context = createContext([...ring(), ...blues, ...hanging], { color: BubbleColor.BLUE });
+
+        const plan = planner.plan([PowerUpType.MULTIPLIER], context);
+
+        expect(plan?.type).toBe(PowerUpType.MULTIPLIER);
+        expect(plan?.angles).toHaveLength(3);
+        expect(plan.angles[2] - plan.angles[1]).toBe(10);
+        expect(plan.angles[1] - plan.angles[0]).toBe(10);
+    });
+
+    it('should attack the player while they are level or ahead', () => {
+        const attacks = [PowerUpType.INK, PowerUpType.JUNK_ROWS];
+        const level = createContext(ring(), { gems: { own: 3, opponent: 3, toWin: 10 } });
+        const ahead = createContext(ring(), { gems: { own: 5, opponent: 3, toWin: 10 } });
+
+        expect(planner.plan(attacks, level)?.type).toBe(PowerUpType.JUNK_ROWS);
+        expect(planner.plan(attacks, level)?.angles).toEqual([]);
+        expect(planner.plan(attacks, ahead)).toBeNull();
+    });
+});
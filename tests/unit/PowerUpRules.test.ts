@@ -0,0 +1,86 @@
+import {
+    findMagnetTarget,
+    isInDangerZone,
+    pickMagnetStep,
+    POWER_UP_RULES,
+    stepToward,
+    swapQueueColors
+} from '@/core/rules/PowerUpRules';
+import { RandomStream } from '@/core/RandomService';
+import { BubbleColor } from '@/types/ArenaTypes';
+import { VICTORY_RULES } from '@/core/rules/VictoryRules';
+
+describe('PowerUpRules', () => {
+    describe('SHIELD', () => {
+        it('should guard the rows just before the death row on either side', () => {
+            const edge = VICTORY_RULES.DEATH_ROW_THRESHOLD - POWER_UP_RULES.SHIELD_DANGER_ROWS;
+
+            expect(isInDangerZone(edge - 1)).toBe(false);
+            expect(isInDangerZone(edge)).toBe(true);
+            expect(isInDangerZone(VICTORY_RULES.DEATH_ROW_THRESHOLD)).toBe(true);
+            expect(isInDangerZone(-edge)).toBe(true);
+            expect(isInDangerZone(-(edge - 1))).toBe(false);
+            expect(isInDangerZone(0)).toBe(false);
+        });
+    });
+
+    describe('MAGNET', () => {
+        const shot = { x: 100, y: 100 };
+
+        it('should lock on to the nearest candidate within reach', () => {
+            const near = { x: 130, y: 140, id: 'near' };
+            const far = { x: 100, y: 200, id: 'far' };
+
+            expect(findMagnetTarget(shot, [far, near])).toBe(near);
+            expect(findMagnetTarget(shot, [far], 50)).toBeNull();
+            expect(findMagnetTarget(shot, [])).toBeNull();
+        });
+
+        it('should ignore candidates beyond the magnet radius', () => {
+            const outside = { x: shot.x + POWER_UP_RULES.MAGNET_RADIUS + 1, y: shot.y };
+
+            expect(findMagnetTarget(shot, [outside])).toBeNull();
+        });
+
+        it('should move a bubble only to a free cell closer to the shot', () => {
+            const bubble = { x: 200, y: 100 };
+            const closer = { x: 150, y: 100, id: 'closer' };
+            const closest = { x: 120, y: 120, id: 'closest' };
+            const away = { x: 250, y: 100, id: 'away' };
+
+            expect(pickMagnetStep(bubble, [away, closer, closest], shot)).toBe(closest);
+            expect(pickMagnetStep(bubble, [away], shot)).toBeNull();
+            expect(pickMagnetStep(bubble, [], shot)).toBeNull();
+        });
+
+        it('should step toward a point at the given speed without passing it', () => {
+            const step = stepToward({ x: 0, y: 0 }, { x: 300, y: 400 }, 1000, 100);
+
+            expect(step.x).toBeCloseTo(60);
+            expect(step.y).toBeCloseTo(80);
+            expect(stepToward({ x: 0, y: 0 }, { x: 3, y: 4 }, 1000, 100)).toEqual({ x: 3, y: 4 });
+            expect(stepToward(shot, shot, 1000, 100)).toEqual({ x: 0, y: 0 });
+        });
+    });
+
+    describe('COLOR SWAP', () => {
+        it('should change every queued color to another one on the board', () => {
+            const available = [BubbleColor.RED, BubbleColor.BLUE, BubbleColor.GREEN];
+            const queue = [BubbleColor.RED, BubbleColor.RED, BubbleColor.BLUE];
+
+            const swapped = swapQueueColors(queue, available, new RandomStream(3));
+
+            expect(swapped).toHaveLength(queue.length);
+            swapped.forEach((color, index) => {
+                expect(color).not.toBe(queue[index]);
+                expect(available).toContain(color);
+            });
+        });
+
+        it('should leave a color alone when there is nothing to swap it for', () => {
+            const swapped = swapQueueColors([BubbleColor.RED], [BubbleColor.RED], new RandomStream(3));
+
+            expect(swapped).toEqual([BubbleColor.RED]);
+        });
+    });
+});
@@ -0,0 +1,126 @@
+import { IPracticeArena, PracticeHistory } from '@/systems/practice/PracticeHistory';
+import { GameEventBus } from '@/core/EventBus';
+import { GameStateManager, IGameState } from '@/core/GameStateManager';
+import { ARENA_SNAPSHOT_VERSION, IArenaSnapshot, IBubbleSnapshot, ILauncherSnapshot } from '@/types/SnapshotTypes';
+
+const OPENING_QUEUE: ILauncherSnapshot = {
+    loaded: 0x00ff00,
+    next: [0x0000ff, 0xff0000],
+    arsenal: [],
+    activePowerUp: null
+};
+
+// Just the parts of the arena a practice shot changes - the grid and the player's queue
+class FakeArena implements IPracticeArena {
+    public bubbles: IBubbleSnapshot[] = [{ q: 0, r: -2, color: 0xff0000, gem: 'none' }];
+    public player: ILauncherSnapshot = OPENING_QUEUE;
+    public restored: IArenaSnapshot[] = [];
+
+    public exportSnapshot(): IArenaSnapshot {
+        return JSON.parse(JSON.stringify({
+            version: ARENA_SNAPSHOT_VERSION,
+            createdAt: '2024-01-01T00:00:00.000Z',
+            seed: 1,
+            theme: 'ocean',
+            rng: {},
+            elapsedTime: 0,
+            suddenDeath: false,
+            bubbles: this.bubbles,
+            player: this.player,
+            opponent: { loaded: null, next: [], arsenal: [], activePowerUp: null },
+            objective: null,
+            gameState: GameStateManager.getInstance().getState() as IGameState
+        })) as IArenaSnapshot;
+    }
+
+    public restoreSnapshot(snapshot: IArenaSnapshot): boolean {
+        this.restored.push(snapshot);
+        this.bubbles = snapshot.bubbles;
+        this.player = snapshot.player;
+        return true;
+    }
+
+    // A player shot lands: the loaded bubble joins the grid and the queue moves up
+    public shoot(q: number, r: number): void {
+        GameEventBus.getInstance().emitTyped('shot-fired', {
+            isPlayer: true,
+            angle: -90,
+            color: this.player.loaded ?? 0,
+            position: { x: 0, y: 0 }
+        });
+        this.bubbles = [...this.bubbles, { q, r, color: this.player.loaded ?? 0, gem: 'none' }];
+        this.player = { ...this.player, loaded: this.player.next[0], next: [...this.player.next.slice(1), 0xffff00] };
+    }
+}
+
+describe('PracticeHistory', () => {
+    let arena: FakeArena;
+    let history: PracticeHistory;
+
+    beforeEach(() => {
+        GameEventBus.getInstance().removeAllListeners();
+        arena = new FakeArena();
+        history = new PracticeHistory(arena);
+        history.start();
+    });
+
+    afterEach(() => {
+        history.stop();
+    });
+
+    it('should snapshot the arena before each player shot only', () => {
+        arena.shoot(1, -2);
+        GameEventBus.getInstance().emitTyped('shot-fired', {
+            isPlayer: false,
+            angle: 90,
+            color: 0xff0000,
+            position: { x: 0, y: 0 }
+        });
+
+        expect(history.getSize()).toBe(1);
+    });
+
+    it('should restore the grid and the queue from before the last shot', () => {
+        const before = arena.exportSnapshot();
+        arena.shoot(1, -2);
+        const afterFirst = arena.exportSnapshot();
+        arena.shoot(2, -2);
+
+        expect(history.undo()).toBe(true);
+        expect(arena.bubbles).toEqual(afterFirst.bubbles);
+        expect(arena.player).toEqual(afterFirst.player);
+
+        expect(history.undo()).toBe(true);
+        expect(arena.bubbles).toEqual(before.bubbles);
+        expect(arena.player).toEqual(OPENING_QUEUE);
+        expect(history.getSize()).toBe(0);
+    });
+
+    it('should have nothing to undo before the first shot', () => {
+        expect(history.undo()).toBe(false);
+        expect(arena.restored).toEqual([]);
+    });
+
+    it('should keep only the last LIMIT shots', () => {
+        const shots = PracticeHistory.LIMIT + 5;
+        for (let i = 0; i < shots; i++) {
+            arena.shoot(i, -3);
+        }
+
+        expect(history.getSize()).toBe(PracticeHistory.LIMIT);
+        while (history.undo()) {
+            // Rewind as far as the history goes
+        }
+        // The five oldest shots can no longer be undone
+        expect(arena.bubbles).toHaveLength(1 + 5);
+    });
+
+    it('should stop recording and forget its snapshots when stopped', () => {
+        arena.shoot(1, -2);
+        history.stop();
+        arena.shoot(2, -2);
+
+        expect(history.getSize()).toBe(0);
+        expect(history.undo()).toBe(false);
+    });
+});
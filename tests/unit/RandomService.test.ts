@@ -0,0 +1,90 @@
+import { RandomService, RandomStream, hashString } from '@/core/RandomService';
+
+describe('RandomService', () => {
+    let rng: RandomService;
+
+    beforeEach(() => {
+        rng = RandomService.getInstance();
+        rng.setSeed(12345);
+    });
+
+    describe('RandomStream', () => {
+        it('should produce floats in [0, 1)', () => {
+            const stream = new RandomStream(1);
+            for (let i = 0; i < 1000; i++) {
+                const value = stream.next();
+                expect(value).toBeGreaterThanOrEqual(0);
+                expect(value).toBeLessThan(1);
+            }
+        });
+
+        it('should keep between() within inclusive bounds', () => {
+            const stream = new RandomStream(7);
+            const seen = new Set<number>();
+            for (let i = 0; i < 500; i++) {
+                const value = stream.between(2, 5);
+                expect(value).toBeGreaterThanOrEqual(2);
+                expect(value).toBeLessThanOrEqual(5);
+                seen.add(value);
+            }
+            expect(seen.size).toBe(4);
+        });
+
+        it('should resume the same sequence after restoring state', () => {
+            const stream = new RandomStream(99);
+            stream.next();
+            const state = stream.getState();
+            const expected = [stream.next(), stream.next(), stream.next()];
+
+            stream.setState(state);
+            expect([stream.next(), stream.next(), stream.next()]).toEqual(expected);
+        });
+    });
+
+    describe('Seeding', () => {
+        it('should reproduce the same sequence for the same seed', () => {
+            const first = [1, 2, 3].map(() => rng.stream('board').next());
+
+            rng.setSeed(12345);
+            const second = [1, 2, 3].map(() => rng.stream('board').next());
+
+            expect(second).toEqual(first);
+        });
+
+        it('should produce different sequences for different seeds', () => {
+            const first = rng.stream('board').next();
+
+            rng.setSeed(54321);
+            expect(rng.stream('board').next()).not.toBe(first);
+        });
+
+        it('should keep named streams independent', () => {
+            const expected = rng.stream('rowSpawn').next();
+
+            rng.setSeed(12345);
+            // Extra draws on another stream must not shift rowSpawn
+            for (let i = 0; i < 10; i++) {
+                rng.stream('ai').next();
+            }
+            expect(rng.stream('rowSpawn').next()).toBe(expected);
+        });
+
+        it('should restore captured stream states', () => {
+            rng.stream('gems').next();
+            const states = rng.getStreamStates();
+            const expected = rng.stream('gems').next();
+
+            rng.setSeed(12345);
+            rng.setStreamStates(states);
+            expect(rng.stream('gems').next()).toBe(expected);
+        });
+    });
+
+    describe('hashString', () => {
+        it('should be stable and unsigned', () => {
+            expect(hashString('board')).toBe(hashString('board'));
+            expect(hashString('board')).not.toBe(hashString('ai'));
+            expect(hashString('anything')).toBeGreaterThanOrEqual(0);
+        });
+    });
+});
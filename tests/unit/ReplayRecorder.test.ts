@@ -0,0 +1,115 @@
+import { ReplayRecorder } from '@/systems/replay/ReplayRecorder';
+import { GameEventBus } from '@/core/EventBus';
+import { IReplayLog, REPLAY_FORMAT_VERSION } from '@/types/ReplayTypes';
+
+const STORAGE_KEY = 'bubble-battle-replays';
+
+// Plays a short match through the event bus, the way the arena systems report it
+const playMatch = (clock: { time: number }): void => {
+    const eventBus = GameEventBus.getInstance();
+    clock.time = 1000;
+    eventBus.emitTyped('shot-fired', { isPlayer: true, angle: -75, color: 0xff0000, position: { x: 0, y: 0 } });
+    clock.time = 1400;
+    eventBus.emitTyped('bubble-attached', {
+        bubble: { getColor: () => 0xff0000 },
+        position: { q: 2, r: -3 },
+        isPlayer: true
+    });
+    eventBus.emitTyped('match-completed', { isPlayer: true, count: 3, score: 30, combo: 1 });
+    clock.time = 2500;
+    eventBus.emitTyped('powerup-activated', { type: 'bomb', isPlayer: false, x: 10, y: 20 });
+    clock.time = 4000;
+    eventBus.emitTyped('reset-completed', { isPlayer: false, gemsLost: 2, rowsCleared: 4 });
+    clock.time = 6000;
+    eventBus.emitTyped('game-over', { winner: 'player', reason: 'gems' });
+};
+
+const createRecorder = (seed: number): { recorder: ReplayRecorder; clock: { time: number } } => {
+    const clock = { time: 0 };
+    return { recorder: new ReplayRecorder(seed, 'ocean', () => clock.time), clock };
+};
+
+describe('ReplayRecorder', () => {
+    beforeEach(() => {
+        localStorage.clear();
+        GameEventBus.getInstance().removeAllListeners();
+    });
+
+    it('should record a match and load it back unchanged', () => {
+        const { recorder, clock } = createRecorder(1234);
+        recorder.start();
+
+        playMatch(clock);
+
+        const loaded = ReplayRecorder.loadLatest();
+        expect(loaded).toEqual(JSON.parse(JSON.stringify(recorder.getLog())) as IReplayLog);
+        expect(loaded).toMatchObject({ version: REPLAY_FORMAT_VERSION, seed: 1234, theme: 'ocean', duration: 6000 });
+        expect(loaded?.events.map(event => event.type)).toEqual([
+            'shot-fired',
+            'bubble-attached',
+            'match-completed',
+            'powerup-activated',
+            'reset-completed',
+            'game-over'
+        ]);
+        expect(loaded?.events[1]).toEqual({
+            type: 'bubble-attached',
+            time: 1400,
+            data: { isPlayer: true, q: 2, r: -3, color: 0xff0000 }
+        });
+        expect(loaded?.events[3].data).toEqual({ isPlayer: false, type: 'bomb' });
+    });
+
+    it('should record where an AI power-up fired at the arena landed', () => {
+        const { recorder } = createRecorder(7);
+        recorder.start();
+        const plan = { type: 'bomb', target: { x: 300, y: 400 }, cells: [{ q: 1, r: -2 }, { q: 2, r: -2 }] };
+
+        GameEventBus.getInstance().emitTyped('powerup-activated', { type: 'bomb', isPlayer: false, plan });
+
+        expect(recorder.getLog().events[0].data).toEqual({ isPlayer: false, type: 'bomb', plan });
+    });
+
+    it('should stop recording once the match is over', () => {
+        const { recorder, clock } = createRecorder(1);
+        recorder.start();
+        playMatch(clock);
+
+        GameEventBus.getInstance().emitTyped('shot-fired', {
+            isPlayer: true,
+            angle: -90,
+            color: 0x00ff00,
+            position: { x: 0, y: 0 }
+        });
+
+        expect(recorder.getLog().events).toHaveLength(6);
+        expect(GameEventBus.getInstance().listenerCount('shot-fired')).toBe(0);
+    });
+
+    it('should keep only the most recent replays', () => {
+        for (let seed = 1; seed <= 7; seed++) {
+            const { recorder, clock } = createRecorder(seed);
+            recorder.start();
+            playMatch(clock);
+        }
+
+        expect(ReplayRecorder.loadAll().map(replay => replay.seed)).toEqual([3, 4, 5, 6, 7]);
+        expect(ReplayRecorder.loadLatest()?.seed).toBe(7);
+    });
+
+    it('should skip replays from another format version and unreadable saves', () => {
+        const { recorder, clock } = createRecorder(42);
+        recorder.start();
+        playMatch(clock);
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]') as IReplayLog[];
+        localStorage.setItem(STORAGE_KEY, JSON.stringify([{ ...stored[0], version: REPLAY_FORMAT_VERSION + 1 }]));
+
+        expect(ReplayRecorder.loadLatest()).toBeNull();
+
+        localStorage.setItem(STORAGE_KEY, '{not json');
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+        expect(ReplayRecorder.loadAll()).toEqual([]);
+        warn.mockRestore();
+    });
+});
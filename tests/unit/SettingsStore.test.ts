@@ -0,0 +1,76 @@
+import { DEFAULT_SETTINGS, SettingsStore } from '@/systems/settings/SettingsStore';
+import { SETTINGS_FORMAT_VERSION } from '@/types/GameTypes';
+
+const STORAGE_KEY = 'bubble-battle-settings';
+
+// A fresh store reads local storage again, like a page reload
+const reloadStore = (): SettingsStore => {
+    (SettingsStore as unknown as { instance?: SettingsStore }).instance = undefined;
+    return SettingsStore.getInstance();
+};
+
+describe('SettingsStore', () => {
+    beforeEach(() => {
+        localStorage.clear();
+    });
+
+    it('should start with the defaults', () => {
+        expect(reloadStore().get()).toEqual(DEFAULT_SETTINGS);
+    });
+
+    it('should persist changes and notify listeners', () => {
+        const store = reloadStore();
+        const listener = jest.fn();
+        store.on('settings-changed', listener);
+
+        store.update({ musicEnabled: false, sfxVolume: 0.3, quality: 'low' });
+
+        expect(listener).toHaveBeenCalledWith(expect.objectContaining({ musicEnabled: false, sfxVolume: 0.3 }));
+        expect(reloadStore().get()).toEqual({ ...DEFAULT_SETTINGS, musicEnabled: false, sfxVolume: 0.3, quality: 'low' });
+    });
+
+    it('should clamp and fill in stored values', () => {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify({
+            version: SETTINGS_FORMAT_VERSION,
+            settings: { masterVolume: 4, aimSensitivity: 0, quality: 'ultra', reducedMotion: 'yes' }
+        }));
+
+        const settings = reloadStore().get();
+
+        expect(settings.masterVolume).toBe(1);
+        expect(settings.aimSensitivity).toBe(0.1);
+        expect(settings.quality).toBe(DEFAULT_SETTINGS.quality);
+        expect(settings.reducedMotion).toBe(false);
+        expect(settings.soundEnabled).toBe(true);
+    });
+
+    it('should ignore settings from another format version or unreadable data', () => {
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+        localStorage.setItem(STORAGE_KEY, JSON.stringify({
+            version: SETTINGS_FORMAT_VERSION + 1,
+            settings: { ...DEFAULT_SETTINGS, soundEnabled: false }
+        }));
+        expect(reloadStore().get()).toEqual(DEFAULT_SETTINGS);
+
+        localStorage.setItem(STORAGE_KEY, '{not json');
+        expect(reloadStore().get()).toEqual(DEFAULT_SETTINGS);
+
+        expect(warn).toHaveBeenCalledTimes(2);
+        warn.mockRestore();
+    });
+
+    it('should reset to the defaults', () => {
+        const store = reloadStore();
+        store.update({ reducedMotion: true, trajectoryPreview: false });
+
+        expect(store.reset()).toEqual(DEFAULT_SETTINGS);
+        expect(reloadStore().get()).toEqual(DEFAULT_SETTINGS);
+    });
+
+    it('should resolve auto quality per device', () => {
+        expect(SettingsStore.resolveQuality('auto', true)).toBe('medium');
+        expect(SettingsStore.resolveQuality('auto', false)).toBe('high');
+        expect(SettingsStore.resolveQuality('low', false)).toBe('low');
+    });
+});
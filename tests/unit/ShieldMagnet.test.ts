@@ -0,0 +1,523 @@
+import type { Scene } from 'phaser';
+import { EventEmitter } from 'eventemitter3';
+import { Gem } from '@/gameObjects/Gem';
+import { Bubble } from '@/gameObjects/Bubble';
+import type { Launcher } from '@/gameObjects/Launcher';
+import type { InputManager } from '@/systems/input/InputManager';
+import { BubbleGrid } from '@/systems/gameplay/BubbleGrid';
+import { GridAttachmentSystem } from '@/systems/gameplay/GridAttachmentSystem';
+import type { MatchDetectionSystem } from '@/systems/gameplay/MatchDetectionSystem';
+import { ResetSystem } from '@/systems/gameplay/ResetSystem';
+import { RowSpawnSystem } from '@/systems/gameplay/RowSpawnSystem';
+import { ShootingSystem } from '@/systems/gameplay/ShootingSystem';
+import { BubbleColor, IHexPosition } from '@/types/ArenaTypes';
+
+// Just the Phaser maths ShootingSystem flies its shots with
+jest.mock('phaser', () => {
+    class Vector2 {
+        constructor(public x: number = 0, public y: number = 0) {}
+    }
+    class Rectangle {
+        public left: number;
+        public right: number;
+        public top: number;
+
+        constructor(x: number, y: number, width: number, public height: number) {
+            this.left = x;
+            this.right = x + width;
+            this.top = y;
+        }
+    }
+    return {
+        __esModule: true,
+        default: {
+            Math: {
+                Vector2,
+                DegToRad: (degrees: number) => degrees * Math.PI / 180,
+                Between: (min: number) => min,
+                Distance: { Between: (x1: number, y1: number, x2: number, y2: number) => Math.hypot(x2 - x1, y2 - y1) }
+            },
+            Geom: { Rectangle }
+        }
+    };
+});
+jest.mock('@/gameObjects/Bubble', () => ({ Bubble: jest.fn() }));
+jest.mock('@/gameObjects/Gem', () => ({ Gem: class {} }));
+jest.mock('@/gameObjects/MysteryBubble', () => ({
+    MysteryBubble: class {
+        public visible = true;
+        private gridPosition: unknown = null;
+
+        constructor(_scene: unknown, public x: number, public y: number) {}
+
+        public getGridPosition(): unknown {
+            return this.gridPosition;
+        }
+
+        public setGridPosition(hex: unknown): void {
+            this.gridPosition = hex;
+        }
+
+        public setAlpha(): this {
+            return this;
+        }
+
+        public setScale(): this {
+            return this;
+        }
+    }
+}));
+jest.mock('@/systems/gameplay/TrajectoryPreview', () => ({
+    TrajectoryPreview: jest.fn(() => ({ show: jest.fn(), hide: jest.fn(), destroy: jest.fn() }))
+}));
+jest.mock('@/config/GameConfig', () => ({ HD_SCALE: 1 }));
+
+// GridAttachmentSystem reaches for the Phaser global
+(globalThis as unknown as { Phaser: unknown }).Phaser = jest.requireMock<{ default: unknown }>('phaser').default;
+
+const FRAME = 16;
+
+const createBubble = (x: number, y: number, color: BubbleColor = BubbleColor.RED): Bubble => {
+    let shooter = 'player';
+    let gridPosition: IHexPosition | null = null;
+    const bubble = {
+        x,
+        y,
+        visible: true,
+        active: true,
+        getColor: () => color,
+        getGridPosition: () => gridPosition,
+        setGridPosition: (hex: IHexPosition) => {
+            gridPosition = hex;
+        },
+        setPosition: (newX: number, newY: number) => {
+            bubble.x = newX;
+            bubble.y = newY;
+        },
+        setScale: () => bubble,
+        setAlpha: () => bubble,
+        setDepth: () => bubble,
+        setShooter: (value: string) => {
+            shooter = value;
+        },
+        getShooter: () => shooter,
+        destroy: jest.fn()
+    };
+    return bubble as unknown as Bubble;
+};
+
+const createGem = (x: number, y: number): Gem =>
+    Object.assign(Object.create(Gem.prototype) as Gem, { x, y, isCollectable: () => true });
+
+// Player at the bottom shooting up, opponent at the top shooting down
+const createLauncher = (x: number, y: number): Launcher => {
+    let loaded: Bubble | null = null;
+    return {
+        x,
+        y,
+        scene: {},
+        loadBubble: (color: BubbleColor) => {
+            loaded = createBubble(x, y, color);
+        },
+        getLoadedBubble: () => loaded,
+        clearLoadedBubble: () => {
+            loaded = null;
+        },
+        updateQueueColors: jest.fn(),
+        getAimAngle: () => 270,
+        getAimDirection: () => ({ x: 0, y: -1 }),
+        setAimAngle: jest.fn(),
+        setHighlight: jest.fn(),
+        animateShoot: jest.fn()
+    } as unknown as Launcher;
+};
+
+const createArena = (bubbleGrid?: BubbleGrid): {
+    scene: Scene;
+    system: ShootingSystem;
+    grid?: GridAttachmentSystem;
+    gems: Gem[];
+    collected: Gem[][];
+    shootPlayer: () => void;
+    shootOpponent: () => void;
+} => {
+    const events = new EventEmitter();
+    const pointerHandlers: Record<string, { fn: () => void; context: unknown }> = {};
+    const gameObject = (): unknown => ({
+        setStrokeStyle: jest.fn(),
+        setDepth: jest.fn(),
+        setVisible: jest.fn(),
+        clear: jest.fn(),
+        destroy: jest.fn()
+    });
+    const gems: Gem[] = [];
+    const scene = {
+        events,
+        cameras: { main: { width: 800, height: 1400 } },
+        input: {
+            on: (event: string, fn: () => void, context: unknown) => {
+                pointerHandlers[event] = { fn, context };
+            },
+            off: jest.fn()
+        },
+        add: { rectangle: gameObject, graphics: gameObject },
+        time: { delayedCall: (_delay: number, callback: () => void) => callback() },
+        // Tweens land at once
+        tweens: {
+            add: jest.fn((config: { targets: object; x?: number; y?: number; onComplete?: () => void }) => {
+                if (config.x !== undefined && config.y !== undefined) {
+                    Object.assign(config.targets, { x: config.x, y: config.y });
+                }
+                config.onComplete?.();
+            })
+        },
+        children: { list: gems }
+    } as unknown as Scene;
+    const inputManager = {
+        isPlayerPointer: () => true,
+        isSplitTouch: () => false,
+        isPointerActive: () => false
+    } as unknown as InputManager;
+
+    const grid = bubbleGrid && new GridAttachmentSystem(scene, bubbleGrid);
+    const system = new ShootingSystem(scene, inputManager, createLauncher(400, 1300), grid, bubbleGrid);
+    system.setOpponentLauncher(createLauncher(400, 100));
+
+    const collected: Gem[][] = [];
+    events.on('check-gem-collection', (data: { gems: Gem[] }) => collected.push(data.gems));
+
+    return {
+        scene,
+        system,
+        grid,
+        gems,
+        collected,
+        shootPlayer: () => {
+            pointerHandlers.pointerup.fn.call(pointerHandlers.pointerup.context);
+        },
+        shootOpponent: () => {
+            events.emit('ai-shoot', { angle: 90, color: BubbleColor.BLUE, bubble: createBubble(400, 130) });
+        }
+    };
+};
+
+// A scene for the systems that hold and spend SHIELD charges
+const createShieldScene = (): Scene => {
+    const graphics = (): unknown => ({
+        clear: jest.fn(),
+        setDepth: jest.fn(),
+        setAlpha: jest.fn(),
+        strokeRect: jest.fn(),
+        fillStyle: jest.fn(),
+        fillRect: jest.fn(),
+        lineStyle: jest.fn(),
+        lineBetween: jest.fn()
+    });
+    let spawnTick: (() => void) | undefined;
+    return {
+        events: new EventEmitter(),
+        cameras: { main: { width: 800, height: 1400, centerY: 700, shake: jest.fn() } },
+        add: {
+            graphics,
+            circle: () => ({ x: 0, y: 0, setDepth: jest.fn(), destroy: jest.fn() })
+        },
+        registry: { get: () => undefined },
+        time: {
+            // The follow-up checks after a wave never come due
+            delayedCall: jest.fn(),
+            addEvent: (config: { callback: () => void; callbackScope: unknown }) => {
+                spawnTick = () => {
+                    config.callback.call(config.callbackScope);
+                };
+                return { destroy: jest.fn() };
+            }
+        },
+        tweens: {
+            add: (config: { onComplete?: () => void }) => config.onComplete?.()
+        },
+        spawnTick: () => spawnTick?.()
+    } as unknown as Scene;
+};
+
+// Grid bubbles down the middle columns from row `from` to row `to`
+const createColumns = (from: number, to: number): Bubble[] => {
+    const bubbles: Bubble[] = [];
+    for (let q = -1; q <= 1; q++) {
+        for (let r = from; r <= to; r++) {
+            const bubble = createBubble(400 + q * 60, 700 + r * 51);
+            bubble.setGridPosition({ q, r, s: -q - r });
+            bubbles.push(bubble);
+        }
+    }
+    return bubbles;
+};
+
+const createShieldArena = (bubbles: Bubble[]): {
+    scene: Scene;
+    resetSystem: ResetSystem;
+    grid: GridAttachmentSystem;
+    consumed: { isPlayer: boolean; cause: string }[];
+} => {
+    const scene = createShieldScene();
+    const grid = {
+        getGridBubbles: () => bubbles,
+        addGridBubble: (bubble: Bubble) => bubbles.push(bubble),
+        removeGridBubble: (bubble: Bubble) => bubbles.splice(bubbles.indexOf(bubble), 1)
+    } as unknown as GridAttachmentSystem;
+    const consumed: { isPlayer: boolean; cause: string }[] = [];
+    scene.events.on('shield-consumed', (data: { isPlayer: boolean; cause: string }) => consumed.push(data));
+    return { scene, resetSystem: new ResetSystem(scene, grid), grid, consumed };
+};
+
+const rowsOf = (bubbles: Bubble[]): number[] => bubbles.map(bubble => bubble.getGridPosition()!.r);
+
+describe('SHIELD', () => {
+    it('should be raised for the side that activated it', () => {
+        const { scene, resetSystem } = createShieldArena([]);
+
+        scene.events.emit('shield-raised', { isPlayer: false });
+
+        expect(resetSystem.hasShield(false)).toBe(true);
+        expect(resetSystem.hasShield(true)).toBe(false);
+    });
+
+    it('should absorb exactly one full field on its own side', async () => {
+        const bubbles = createColumns(0, 10);
+        const { resetSystem, consumed } = createShieldArena(bubbles);
+        const executeReset = jest.spyOn(resetSystem, 'executeReset').mockResolvedValue();
+        resetSystem.raiseShield(true);
+        resetSystem.raiseShield(false);
+
+        expect(resetSystem.checkResetCondition()).toBe(true);
+        await new Promise(resolve => setTimeout(resolve, 0));
+
+        // Only the player's danger zone is cleared, and nothing else is paid for it
+        expect(consumed).toEqual([{ isPlayer: true, cause: 'reset' }]);
+        expect(Math.max(...rowsOf(bubbles))).toBe(7);
+        expect(executeReset).not.toHaveBeenCalled();
+        expect(resetSystem.hasShield(true)).toBe(false);
+        expect(resetSystem.hasShield(false)).toBe(true);
+
+        bubbles.push(...createColumns(8, 10));
+        resetSystem.checkResetCondition();
+
+        expect(executeReset).toHaveBeenCalledWith(true);
+        expect(consumed).toHaveLength(1);
+    });
+
+    it('should not absorb a full field on the other side', () => {
+        const { resetSystem, consumed } = createShieldArena(createColumns(0, 10));
+        const executeReset = jest.spyOn(resetSystem, 'executeReset').mockResolvedValue();
+        resetSystem.raiseShield(false);
+
+        resetSystem.checkResetCondition();
+
+        expect(executeReset).toHaveBeenCalledWith(true);
+        expect(consumed).toEqual([]);
+        expect(resetSystem.hasShield(false)).toBe(true);
+    });
+
+    it('should block one row push into its own danger zone only', () => {
+        const { resetSystem, consumed } = createShieldArena([]);
+        resetSystem.raiseShield(true);
+
+        expect(resetSystem.blockRowWithShield(false, -9)).toBe(false);
+        expect(resetSystem.blockRowWithShield(true, 5)).toBe(false);
+        expect(resetSystem.blockRowWithShield(true, 8)).toBe(true);
+        expect(resetSystem.blockRowWithShield(true, 9)).toBe(false);
+        expect(consumed).toEqual([{ isPlayer: true, cause: 'row' }]);
+    });
+
+    describe('row spawning', () => {
+        const createSpawner = (bubbles: Bubble[]): {
+            spawnTick: () => void;
+            resetSystem: ResetSystem;
+        } => {
+            const { scene, resetSystem, grid } = createShieldArena(bubbles);
+            const rowSpawnSystem = new RowSpawnSystem(scene, {
+                bubbles: [],
+                bubbleGrid: new BubbleGrid(400, 700),
+                gridAttachmentSystem: grid,
+                getAllBubbles: () => bubbles,
+                createBubbleAt: (x: number, y: number, color: BubbleColor) => createBubble(x, y, color)
+            });
+            // Spawning checks for a full field - the reset itself isn't under test
+            jest.spyOn(resetSystem, 'executeReset').mockResolvedValue();
+            rowSpawnSystem.setResetSystem(resetSystem);
+            rowSpawnSystem.startSpawning(1000);
+            return { spawnTick: (scene as unknown as { spawnTick: () => void }).spawnTick, resetSystem };
+        };
+
+        beforeEach(() => {
+            jest.spyOn(console, 'log').mockImplementation(() => undefined);
+            jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        });
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it('should skip the shielded side\'s push into its danger zone for one wave', () => {
+            const bubbles = createColumns(-7, 7);
+            const { spawnTick, resetSystem } = createSpawner(bubbles);
+            resetSystem.raiseShield(true);
+
+            spawnTick();
+
+            expect(Math.max(...rowsOf(bubbles))).toBe(7);
+            expect(Math.min(...rowsOf(bubbles))).toBeLessThan(-7);
+            expect(resetSystem.hasShield(true)).toBe(false);
+
+            spawnTick();
+
+            expect(Math.max(...rowsOf(bubbles))).toBeGreaterThan(7);
+        });
+
+        it('should keep the shield when the push stays out of the danger zone', () => {
+            const bubbles = createColumns(-3, 3);
+            const { spawnTick, resetSystem } = createSpawner(bubbles);
+            resetSystem.raiseShield(true);
+
+            spawnTick();
+
+            expect(Math.max(...rowsOf(bubbles))).toBeGreaterThan(3);
+            expect(resetSystem.hasShield(true)).toBe(true);
+        });
+    });
+});
+
+describe('MAGNET', () => {
+    it('should magnetize the next shot of the side that armed it only', () => {
+        const { scene, system, gems, collected, shootPlayer, shootOpponent } = createArena();
+        const nearPlayer = createGem(420, 1250);
+        const nearOpponent = createGem(420, 150);
+        gems.push(nearPlayer, nearOpponent);
+
+        scene.events.emit('magnet-armed', { isPlayer: false, radius: 100 });
+        shootPlayer();
+        system.update(FRAME);
+
+        expect(collected).toEqual([]);
+        expect(nearPlayer.y).toBe(1250);
+
+        shootOpponent();
+        system.update(FRAME);
+
+        expect(collected).toEqual([[nearOpponent]]);
+        expect(nearOpponent.x).toBeLessThan(420);
+        expect(nearPlayer.y).toBe(1250);
+    });
+
+    it('should spend the player\'s magnet on the player\'s next shot', () => {
+        const { scene, system, gems, collected, shootPlayer, shootOpponent } = createArena();
+        const nearPlayer = createGem(420, 1250);
+        const nearOpponent = createGem(420, 150);
+        gems.push(nearPlayer, nearOpponent);
+
+        scene.events.emit('magnet-armed', { isPlayer: true, radius: 100 });
+        shootOpponent();
+        system.update(FRAME);
+
+        expect(collected).toEqual([]);
+
+        shootPlayer();
+        system.update(FRAME);
+
+        expect(collected.every(pulled => pulled.length === 1 && pulled[0] === nearPlayer)).toBe(true);
+        expect(nearPlayer.x).toBeLessThan(420);
+        expect(nearOpponent.y).toBe(150);
+
+        // The next shot is a plain one again - once the magnetic one is well away
+        for (let i = 0; i < 60; i++) {
+            system.update(FRAME);
+        }
+        const pulls = collected.length;
+        gems.splice(0, gems.length, createGem(420, 1250));
+        shootPlayer();
+        system.update(FRAME);
+
+        expect(collected).toHaveLength(pulls);
+    });
+
+    // A blue row around the objective to hang on, a red off to the right of the shot's path and a blue on the left
+    const createBoard = (bubbleGrid: BubbleGrid, grid: GridAttachmentSystem): { red: Bubble; others: Bubble[] } => {
+        const place = (q: number, r: number, color: BubbleColor): Bubble => {
+            const hex = { q, r, s: -q - r };
+            const { x, y } = bubbleGrid.hexToPixel(hex);
+            const bubble = createBubble(x, y, color);
+            bubble.setGridPosition(hex);
+            grid.addGridBubble(bubble);
+            return bubble;
+        };
+        const row = [-3, -2, -1, 0, 1, 2, 3].map(q => place(q, 1, BubbleColor.BLUE));
+        return { red: place(2, 2, BubbleColor.RED), others: [...row, place(-2, 2, BubbleColor.BLUE)] };
+    };
+
+    const fireRed = (arena: ReturnType<typeof createArena>, magnet: boolean): void => {
+        arena.system.setBubbleColors([BubbleColor.RED]);
+        if (magnet) {
+            arena.scene.events.emit('magnet-armed', { isPlayer: true });
+        }
+        arena.shootPlayer();
+        // Stop short of the rows - the shot would attach there
+        for (let i = 0; i < 48; i++) {
+            arena.system.update(FRAME);
+        }
+    };
+
+    it('should pull bubbles of the shot\'s color a cell toward its path', () => {
+        const bubbleGrid = new BubbleGrid(400, 700);
+        const arena = createArena(bubbleGrid);
+        const { red, others } = createBoard(bubbleGrid, arena.grid);
+        const placed = others.map(bubble => ({ x: bubble.x, y: bubble.y }));
+
+        fireRed(arena, true);
+
+        expect(red.getGridPosition()).toMatchObject({ q: 1, r: 2 });
+        expect({ x: red.x, y: red.y }).toEqual(bubbleGrid.hexToPixel({ q: 1, r: 2, s: -3 }));
+        expect(others.map(bubble => ({ x: bubble.x, y: bubble.y }))).toEqual(placed);
+    });
+
+    it('should settle a pulled bubble like an attached one', async () => {
+        const bubbleGrid = new BubbleGrid(400, 700);
+        const arena = createArena(bubbleGrid);
+        const grid = arena.grid;
+        const checkForMatches = jest.fn().mockResolvedValue(undefined);
+        grid.setMatchDetectionSystem({ checkForMatches } as unknown as MatchDetectionSystem);
+        const checkDisconnected = jest.spyOn(grid, 'checkDisconnectedBubbles');
+        const { red } = createBoard(bubbleGrid, grid);
+
+        fireRed(arena, true);
+        await new Promise(resolve => setTimeout(resolve, 0));
+
+        // Its matches count for the magnet's side, then whatever it left hanging falls
+        expect(checkForMatches).toHaveBeenCalledWith(red);
+        expect(red.getShooter()).toBe('player');
+        expect(checkDisconnected).toHaveBeenCalledWith(true);
+    });
+
+    it('should leave the grid alone for a plain shot', () => {
+        const bubbleGrid = new BubbleGrid(400, 700);
+        const arena = createArena(bubbleGrid);
+        const { red } = createBoard(bubbleGrid, arena.grid);
+
+        fireRed(arena, false);
+
+        expect(red.getGridPosition()).toMatchObject({ q: 2, r: 2 });
+    });
+
+    it('should magnetize a replayed player shot', () => {
+        const { scene, system, gems, collected } = createArena();
+        jest.mocked(Bubble).mockImplementation(
+            (_scene, x: number, y: number, color: BubbleColor) => createBubble(x, y, color)
+        );
+        const nearPlayer = createGem(420, 1250);
+        gems.push(nearPlayer);
+
+        scene.events.emit('magnet-armed', { isPlayer: true });
+        system.fireReplayShot(true, 270, BubbleColor.RED);
+        system.update(FRAME);
+
+        expect(collected).toEqual([[nearPlayer]]);
+    });
+});
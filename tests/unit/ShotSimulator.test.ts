@@ -0,0 +1,146 @@
+import { ShotSimulator } from '@/systems/ai/ShotSimulator';
+import { SimulationStrategy } from '@/systems/ai/SimulationStrategy';
+import { HeuristicStrategy } from '@/systems/ai/HeuristicStrategy';
+import { RandomStream } from '@/core/RandomService';
+import { getAnchorPositions, OBJECTIVE_HEX } from '@/core/rules/GridRules';
+import { hexToPixelOffset } from '@/core/rules/HexMath';
+import { BubbleColor } from '@/types/ArenaTypes';
+import { IAIBoardCell, IAIBoardView, IAIShotContext } from '@/types/AITypes';
+
+const CENTER = { x: 375, y: 812 };
+const HEX_SIZE = 29.6;
+const LAUNCHER = { x: 375, y: 150 };
+
+const cell = (q: number, r: number, color: BubbleColor, gem: boolean = false): IAIBoardCell => {
+    const offset = hexToPixelOffset({ q, r, s: -q - r }, HEX_SIZE);
+    return { q, r, x: CENTER.x + offset.x, y: CENTER.y + offset.y, color, gem, blocker: false, mystery: false };
+};
+
+const createBoard = (cells: IAIBoardCell[]): IAIBoardView => ({
+    cells,
+    center: CENTER,
+    hexSize: HEX_SIZE,
+    width: 750,
+    height: 1624
+});
+
+// The six cells around the objective, all one color
+const ring = (color: BubbleColor): IAIBoardCell[] =>
+    getAnchorPositions().filter(hex => hex !== OBJECTIVE_HEX).map(hex => cell(hex.q, hex.r, color));
+
+const createContext = (board: IAIBoardView, color: BubbleColor): IAIShotContext => ({
+    board,
+    launcher: LAUNCHER,
+    color,
+    queue: [BubbleColor.GREEN, BubbleColor.YELLOW],
+    gems: { own: 0, opponent: 0, toWin: 10 },
+    timeRemaining: 120000,
+    allowBankShots: true,
+    targetObjective: true
+});
+
+describe('ShotSimulator', () => {
+    it('should hit the objective through an open lane', () => {
+        const outcome = new ShotSimulator(createBoard([])).simulate(LAUNCHER, 90, BubbleColor.RED);
+
+        expect(outcome.result).toBe('objective');
+        expect(outcome.bounces).toBe(0);
+    });
+
+    it('should attach on top of the bubbles guarding the objective', () => {
+        const outcome = new ShotSimulator(createBoard(ring(BubbleColor.BLUE))).simulate(LAUNCHER, 90, BubbleColor.RED);
+
+        expect(outcome.result).toBe('attached');
+        expect(outcome.attachedAt.r).toBeLessThan(-1);
+        expect(outcome.popped).toHaveLength(0);
+        expect(outcome.board).toHaveLength(7);
+    });
+
+    it('should bounce off the side walls', () => {
+        const outcome = new ShotSimulator(createBoard(ring(BubbleColor.BLUE))).simulate(LAUNCHER, 30, BubbleColor.RED);
+
+        expect(outcome.bounces).toBeGreaterThan(0);
+    });
+
+    it('should pop a match and drop what hung from it', () => {
+        const hanging = cell(-1, -2, BubbleColor.BLUE, true);
+        const simulator = new ShotSimulator(createBoard([...ring(BubbleColor.RED), hanging]));
+
+        const outcome = simulator.simulate(LAUNCHER, 90, BubbleColor.RED);
+
+        expect(outcome.popped).toHaveLength(7);
+        expect(outcome.dropped).toEqual([hanging]);
+        expect(outcome.gemsCleared).toBe(1);
+        expect(outcome.board).toHaveLength(0);
+    });
+
+    it('should leave the board it was given untouched', () => {
+        const board = createBoard(ring(BubbleColor.RED));
+
+        new ShotSimulator(board).simulate(LAUNCHER, 90, BubbleColor.RED);
+
+        expect(board.cells).toHaveLength(6);
+    });
+});
+
+describe('AI strategies', () => {
+    const rng = new RandomStream(42);
+
+    it('should take the objective shot when the lane is open', () => {
+        const context = createContext(createBoard([cell(-3, -4, BubbleColor.BLUE)]), BubbleColor.RED);
+
+        expect(new SimulationStrategy().chooseShot(context, rng).reasoning).toBe('objective hit');
+        expect(new HeuristicStrategy(true).chooseShot(context, rng).angle).toBeCloseTo(90);
+    });
+
+    it('should find the shot that completes a match', () => {
+        const board = createBoard([
+            ...ring(BubbleColor.BLUE),
+            cell(1, -2, BubbleColor.RED),
+            cell(1, -3, BubbleColor.RED)
+        ]);
+
+        const decision = new SimulationStrategy().chooseShot(createContext(board, BubbleColor.RED), rng);
+
+        expect(decision.reasoning).toMatch(/^match-3/);
+    });
+
+    it('should keep to straight shots when bank shots are off', () => {
+        const board = createBoard([
+            ...ring(BubbleColor.BLUE),
+            cell(4, -3, BubbleColor.RED),
+            cell(4, -2, BubbleColor.RED)
+        ]);
+        const context = { ...createContext(board, BubbleColor.RED), allowBankShots: false };
+
+        const decision = new SimulationStrategy().chooseShot(context, rng);
+
+        expect(new ShotSimulator(board).simulate(LAUNCHER, decision.angle, BubbleColor.RED).bounces).toBe(0);
+    });
+
+    it('should ignore the open objective when objective targeting is off', () => {
+        const board = createBoard([cell(-3, -4, BubbleColor.BLUE)]);
+        const context = { ...createContext(board, BubbleColor.RED), targetObjective: false };
+
+        expect(new SimulationStrategy().chooseShot(context, rng).reasoning).not.toBe('objective hit');
+    });
+
+    it('should prefer a winning gem grab over a bigger match', () => {
+        const strategy = new SimulationStrategy();
+        const context = {
+            ...createContext(createBoard([]), BubbleColor.RED),
+            gems: { own: 9, opponent: 0, toWin: 10 }
+        };
+        const base = { angle: 90, attachedAt: null, bounces: 0, dropped: [], mysteryCleared: 0, board: [] };
+
+        const gemGrab = strategy.scoreOutcome({ ...base, result: 'attached', popped: [], gemsCleared: 1 }, context);
+        const bigMatch = strategy.scoreOutcome({
+            ...base,
+            result: 'attached',
+            popped: ring(BubbleColor.RED),
+            gemsCleared: 0
+        }, context);
+
+        expect(gemGrab).toBeGreaterThan(bigMatch);
+    });
+});
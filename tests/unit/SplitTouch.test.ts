@@ -0,0 +1,39 @@
+import { getTopLauncherAngle, getTouchSide, SPLIT_TOUCH_RULES } from '@/core/rules/SplitTouchRules';
+import { GAME_MODES } from '@/systems/modes/GameModes';
+
+jest.mock('@/ui/PracticePanel', () => ({ PracticePanel: jest.fn() }));
+jest.mock('@/ui/TimeAttackResultsScreen', () => ({ TimeAttackResultsScreen: jest.fn() }));
+
+const SCREEN_HEIGHT = 1624;
+const TOP_LAUNCHER = { x: 375, y: 120 };
+
+describe('SplitTouchRules', () => {
+    it('should give each player their own half, the middle line to the bottom', () => {
+        expect(getTouchSide(100, SCREEN_HEIGHT)).toBe('top');
+        expect(getTouchSide(811, SCREEN_HEIGHT)).toBe('top');
+        expect(getTouchSide(812, SCREEN_HEIGHT)).toBe('bottom');
+        expect(getTouchSide(1500, SCREEN_HEIGHT)).toBe('bottom');
+    });
+
+    it('should aim the top launcher down toward the touch', () => {
+        expect(getTopLauncherAngle(TOP_LAUNCHER.x, TOP_LAUNCHER.y, 375, 600)).toBeCloseTo(90);
+        expect(getTopLauncherAngle(TOP_LAUNCHER.x, TOP_LAUNCHER.y, 855, 600)).toBeCloseTo(45);
+        expect(getTopLauncherAngle(TOP_LAUNCHER.x, TOP_LAUNCHER.y, -105, 600)).toBeCloseTo(135);
+    });
+
+    it('should keep shallow and backward touches on the downward arc', () => {
+        expect(getTopLauncherAngle(TOP_LAUNCHER.x, TOP_LAUNCHER.y, 750, 121)).toBe(SPLIT_TOUCH_RULES.MIN_AIM_ANGLE);
+        expect(getTopLauncherAngle(TOP_LAUNCHER.x, TOP_LAUNCHER.y, 0, 121)).toBe(SPLIT_TOUCH_RULES.MAX_AIM_ANGLE);
+        expect(getTopLauncherAngle(TOP_LAUNCHER.x, TOP_LAUNCHER.y, 500, 20)).toBe(SPLIT_TOUCH_RULES.MIN_AIM_ANGLE);
+        expect(getTopLauncherAngle(TOP_LAUNCHER.x, TOP_LAUNCHER.y, 250, 20)).toBe(SPLIT_TOUCH_RULES.MAX_AIM_ANGLE);
+    });
+
+    it('should play local versus on the versus rules with a second human on top', () => {
+        const mode = GAME_MODES.local;
+
+        expect(mode.opponent).toBe('local');
+        expect(mode.rules).toEqual(GAME_MODES.versus.rules);
+        expect(mode.rowSpawns).toEqual({ top: true, bottom: true });
+        expect(mode.fieldFull).toBe('reset');
+    });
+});
@@ -0,0 +1,83 @@
+import {
+    getSurvivalInterval,
+    getSurvivalWave,
+    insertHighScore,
+    SURVIVAL_RULES
+} from '@/core/rules/SurvivalRules';
+import { SurvivalScoreStore } from '@/systems/survival/SurvivalScoreStore';
+import { ISurvivalScore, SURVIVAL_FORMAT_VERSION } from '@/types/SurvivalTypes';
+
+const STORAGE_KEY = 'bubble-battle-survival';
+
+const run = (score: number, wave: number = 1, date: string = '2026-01-01T00:00:00.000Z'): ISurvivalScore => ({
+    score,
+    wave,
+    rows: wave * SURVIVAL_RULES.ROWS_PER_WAVE,
+    date
+});
+
+describe('SurvivalRules', () => {
+    it('should push rows ever faster, past the PvP minimum, down to the survival floor', () => {
+        const intervals = [0, 1, 5, 10, 20].map(getSurvivalInterval);
+
+        expect(intervals[0]).toBe(SURVIVAL_RULES.START_INTERVAL);
+        intervals.slice(1).forEach((interval, index) => expect(interval).toBeLessThan(intervals[index]));
+        expect(getSurvivalInterval(40)).toBeLessThan(8000);
+        expect(getSurvivalInterval(500)).toBe(SURVIVAL_RULES.MIN_INTERVAL);
+    });
+
+    it('should start a new wave every few rows', () => {
+        expect(getSurvivalWave(0)).toBe(1);
+        expect(getSurvivalWave(SURVIVAL_RULES.ROWS_PER_WAVE - 1)).toBe(1);
+        expect(getSurvivalWave(SURVIVAL_RULES.ROWS_PER_WAVE)).toBe(2);
+        expect(getSurvivalWave(SURVIVAL_RULES.ROWS_PER_WAVE * 3 + 2)).toBe(4);
+    });
+
+    it('should rank runs by score, then wave, and keep only the best', () => {
+        const scores = [run(500, 3), run(300, 2), run(100, 1)];
+
+        expect(insertHighScore(scores, run(300, 4)).rank).toBe(1);
+        expect(insertHighScore(scores, run(900)).rank).toBe(0);
+        expect(insertHighScore(scores, run(50), 3)).toEqual({ scores, rank: -1 });
+        expect(insertHighScore(scores, run(200), 3).scores.map(entry => entry.score)).toEqual([500, 300, 200]);
+    });
+});
+
+describe('SurvivalScoreStore', () => {
+    beforeEach(() => {
+        localStorage.clear();
+    });
+
+    it('should keep the high score table across runs', () => {
+        expect(SurvivalScoreStore.getBest()).toBeUndefined();
+
+        expect(SurvivalScoreStore.record(run(200, 2))).toBe(0);
+        expect(SurvivalScoreStore.record(run(450, 4))).toBe(0);
+        expect(SurvivalScoreStore.record(run(100, 1))).toBe(2);
+
+        expect(SurvivalScoreStore.load().map(entry => entry.score)).toEqual([450, 200, 100]);
+        expect(SurvivalScoreStore.getBest()?.wave).toBe(4);
+    });
+
+    it('should not save a run that misses the table', () => {
+        for (let index = 0; index < SURVIVAL_RULES.HIGH_SCORE_LIMIT; index++) {
+            SurvivalScoreStore.record(run(1000 + index));
+        }
+
+        expect(SurvivalScoreStore.record(run(10))).toBe(-1);
+        expect(SurvivalScoreStore.load()).toHaveLength(SURVIVAL_RULES.HIGH_SCORE_LIMIT);
+    });
+
+    it('should start over on an unknown format version or unreadable data', () => {
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+        localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: SURVIVAL_FORMAT_VERSION + 1, scores: [run(999)] }));
+        expect(SurvivalScoreStore.load()).toEqual([]);
+
+        localStorage.setItem(STORAGE_KEY, '{not json');
+        expect(SurvivalScoreStore.getBest()).toBeUndefined();
+
+        expect(warn).toHaveBeenCalledTimes(2);
+        warn.mockRestore();
+    });
+});
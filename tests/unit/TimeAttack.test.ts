@@ -0,0 +1,108 @@
+import type { Scene } from 'phaser';
+import { getTimeBonusSeconds, isPerfectShot, TIME_ATTACK_RULES } from '@/core/rules/TimeAttackRules';
+import { ScoreContext, ScoreEventManager, ScoreEventType } from '@/systems/scoring/ScoreEventManager';
+import { PerfectShotModule, TimeBonusModule } from '@/systems/scoring/TimeAttackScoring';
+
+const context = (overrides: Partial<ScoreContext>): ScoreContext => ({
+    type: ScoreEventType.BUBBLE_MATCH,
+    baseValue: 10,
+    position: { x: 0, y: 0 },
+    isPlayer: true,
+    ...overrides
+});
+
+/**
+ * Just enough scene for ScoreEventManager - the queue is drained by hand
+ */
+const createScene = (): { scene: Scene; processQueue: () => void; emitted: unknown[] } => {
+    let processQueue: () => void = () => undefined;
+    const emitted: unknown[] = [];
+    const scene = {
+        time: {
+            addEvent: (config: { callback: () => void; callbackScope: unknown }) => {
+                processQueue = () => {
+                    config.callback.call(config.callbackScope);
+                };
+            }
+        },
+        events: { emit: (_event: string, data: unknown) => emitted.push(data) }
+    } as unknown as Scene;
+    return { scene, processQueue: () => processQueue(), emitted };
+};
+
+describe('TimeAttackRules', () => {
+    it('should only buy time for big matches, up to the cap', () => {
+        expect(getTimeBonusSeconds(3)).toBe(0);
+        expect(getTimeBonusSeconds(TIME_ATTACK_RULES.BONUS_MATCH_SIZE - 1)).toBe(0);
+        expect(getTimeBonusSeconds(TIME_ATTACK_RULES.BONUS_MATCH_SIZE))
+            .toBe(TIME_ATTACK_RULES.BONUS_SECONDS_PER_BUBBLE);
+        expect(getTimeBonusSeconds(6)).toBeGreaterThan(getTimeBonusSeconds(5));
+        expect(getTimeBonusSeconds(40)).toBe(TIME_ATTACK_RULES.MAX_BONUS_SECONDS);
+    });
+
+    it('should call a bank shot that lands a match perfect', () => {
+        expect(isPerfectShot({ matchSize: 3, bounces: 1 })).toBe(true);
+        expect(isPerfectShot({ matchSize: 3, bounces: 0 })).toBe(false);
+        expect(isPerfectShot({ matchSize: 0, bounces: 2 })).toBe(false);
+    });
+});
+
+describe('Time attack scoring modules', () => {
+    it('should score the seconds a match bought', () => {
+        const module = new TimeBonusModule();
+        const bonus = context({ type: ScoreEventType.TIME_BONUS, metadata: { seconds: 4 } });
+
+        expect(module.canProcess(bonus)).toBe(true);
+        expect(module.canProcess(context({ type: ScoreEventType.TIME_BONUS }))).toBe(false);
+        expect(module.calculateScore(bonus).finalScore).toBe(4 * TIME_ATTACK_RULES.POINTS_PER_BONUS_SECOND);
+    });
+
+    it('should score bigger perfect shots higher', () => {
+        const module = new PerfectShotModule();
+        const small = module.calculateScore(context({ type: ScoreEventType.PERFECT_SHOT, matchSize: 3 }));
+        const big = module.calculateScore(context({ type: ScoreEventType.PERFECT_SHOT, matchSize: 5 }));
+
+        expect(module.canProcess(context({ type: ScoreEventType.BUBBLE_MATCH }))).toBe(false);
+        expect(small.finalScore).toBe(TIME_ATTACK_RULES.PERFECT_SHOT_POINTS);
+        expect(big.finalScore).toBeGreaterThan(small.finalScore);
+    });
+});
+
+describe('ScoreEventManager breakdown', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should split the player score by event type once the modules are registered', () => {
+        const { scene, processQueue, emitted } = createScene();
+        const manager = new ScoreEventManager(scene);
+
+        // Not registered yet - nothing scores
+        manager.queueEvent(context({ type: ScoreEventType.PERFECT_SHOT, matchSize: 3 }));
+        processQueue();
+        expect(manager.getPlayerScore()).toBe(0);
+
+        manager.registerModule(new TimeBonusModule());
+        manager.registerModule(new PerfectShotModule());
+        manager.queueEvent(context({ matchSize: 3 }));
+        manager.queueEvent(context({ type: ScoreEventType.TIME_BONUS, metadata: { seconds: 2 } }));
+        manager.queueEvent(context({ type: ScoreEventType.PERFECT_SHOT, matchSize: 3 }));
+        manager.queueEvent(context({ matchSize: 3, isPlayer: false }));
+        processQueue();
+
+        const breakdown = manager.getPlayerScoreBreakdown();
+        expect(breakdown.get(ScoreEventType.BUBBLE_MATCH)).toBe(10);
+        expect(breakdown.get(ScoreEventType.TIME_BONUS)).toBe(2 * TIME_ATTACK_RULES.POINTS_PER_BONUS_SECOND);
+        expect(breakdown.get(ScoreEventType.PERFECT_SHOT)).toBe(TIME_ATTACK_RULES.PERFECT_SHOT_POINTS);
+        expect(Array.from(breakdown.values()).reduce((sum, points) => sum + points, 0)).toBe(manager.getPlayerScore());
+        expect(manager.getOpponentScore()).toBe(10);
+        expect(emitted).toHaveLength(4);
+
+        manager.reset();
+        expect(manager.getPlayerScoreBreakdown().size).toBe(0);
+    });
+});
@@ -0,0 +1,160 @@
+import { ARENA_CONFIG } from '@/config/ArenaConfig';
+import { hexToPixelOffset } from '@/core/rules/HexMath';
+import { IShotOutcome, ShotSimulator } from '@/systems/ai/ShotSimulator';
+import { LevelLoader } from '@/systems/levels/LevelLoader';
+import { TUTORIAL_STEPS, TutorialGoalTracker } from '@/systems/tutorial/TutorialScript';
+import { TutorialProgressStore } from '@/systems/tutorial/TutorialProgressStore';
+import { IAIBoardCell } from '@/types/AITypes';
+import { ILevelDefinition } from '@/types/LevelTypes';
+import { ITutorialStep, TUTORIAL_FORMAT_VERSION } from '@/types/TutorialTypes';
+import firstPop from '@/levels/tutorial-01-first-pop.json';
+import bankShot from '@/levels/tutorial-02-bank-shot.json';
+import gems from '@/levels/tutorial-03-gems.json';
+import bomb from '@/levels/tutorial-04-bomb.json';
+import dangerLine from '@/levels/tutorial-05-danger-line.json';
+
+const STORAGE_KEY = 'bubble-battle-tutorial';
+const WIDTH = 750;
+const HEIGHT = 1624;
+const CENTER = { x: WIDTH / 2, y: HEIGHT / 2 };
+const HEX_SIZE = 29.6;
+
+const LEVELS: Record<string, unknown> = {
+    'tutorial-01-first-pop': firstPop,
+    'tutorial-02-bank-shot': bankShot,
+    'tutorial-03-gems': gems,
+    'tutorial-04-bomb': bomb,
+    'tutorial-05-danger-line': dangerLine
+};
+
+const loadLevel = (id: string): ILevelDefinition => {
+    const level = LevelLoader.parse(LEVELS[id], id);
+    if (!level) {
+        throw new Error(`Invalid tutorial level ${id}`);
+    }
+    return level;
+};
+
+/**
+ * Play the step's first shot at a launcher angle. ShotSimulator fires from the top,
+ * so the board is mirrored onto the AI's half - rows keep their parity, so hex
+ * positions mirror exactly.
+ */
+const playFirstShot = (step: ITutorialStep, angle: number): IShotOutcome => {
+    const level = loadLevel(step.levelId);
+    const cells: IAIBoardCell[] = level.cells.map(cell => {
+        const offset = hexToPixelOffset({ q: cell.q, r: -cell.r, s: cell.r - cell.q }, HEX_SIZE);
+        return {
+            q: cell.q,
+            r: -cell.r,
+            x: CENTER.x + offset.x,
+            y: CENTER.y + offset.y,
+            color: LevelLoader.toBubbleColor(cell.color),
+            gem: cell.gem !== undefined,
+            blocker: !!cell.blocker,
+            mystery: !!cell.mystery
+        };
+    });
+    const simulator = new ShotSimulator({ cells, center: CENTER, hexSize: HEX_SIZE, width: WIDTH, height: HEIGHT });
+    const [color] = LevelLoader.getStartingQueue(level);
+    return simulator.simulate({ x: CENTER.x, y: ARENA_CONFIG.launcherOffset }, 180 - angle, color);
+};
+
+describe('TutorialScript', () => {
+    it('should play every step on a valid bundled level', () => {
+        TUTORIAL_STEPS.forEach(step => {
+            expect(LevelLoader.validate(LEVELS[step.levelId])).toEqual([]);
+            expect(step.highlights.length).toBeGreaterThan(0);
+        });
+        expect(new Set(TUTORIAL_STEPS.map(step => step.id)).size).toBe(TUTORIAL_STEPS.length);
+    });
+
+    it('should let every allowed angle complete the step', () => {
+        const failures: string[] = [];
+        TUTORIAL_STEPS.filter(step => step.aim).forEach(step => {
+            for (let angle = step.aim.minAngle; angle <= step.aim.maxAngle; angle++) {
+                const outcome = playFirstShot(step, angle);
+                const completes = outcome.popped.length >= 3
+                    && (!step.goal.bankShot || outcome.bounces > 0)
+                    && (step.goal.event !== 'cascade-completed' || outcome.dropped.length > 0)
+                    && (step.goal.event !== 'powerup-activated' || outcome.mysteryCleared > 0);
+                if (!completes) {
+                    failures.push(`${step.id} at ${angle}°`);
+                }
+            }
+        });
+
+        expect(failures).toEqual([]);
+    });
+
+    it('should give the gem step a straight shot at the gems', () => {
+        const step = TUTORIAL_STEPS.find(candidate => candidate.goal.event === 'gem-collected');
+
+        expect(playFirstShot(step, 90).gemsCleared).toBeGreaterThan(0);
+    });
+});
+
+describe('TutorialGoalTracker', () => {
+    it('should only count the player meeting the goal', () => {
+        const tracker = new TutorialGoalTracker({ event: 'match-completed', count: 2 });
+
+        expect(tracker.record('match-completed', { isPlayer: false })).toBe(false);
+        expect(tracker.record('gem-collected', { isPlayer: true })).toBe(false);
+        expect(tracker.record('match-completed', { isPlayer: true })).toBe(false);
+        expect(tracker.record('match-completed', { isPlayer: true })).toBe(true);
+        expect(tracker.getCount()).toBe(2);
+    });
+
+    it('should only count bank shots when the goal asks for one', () => {
+        const tracker = new TutorialGoalTracker({ event: 'match-completed', bankShot: true });
+
+        tracker.onShotFired();
+        expect(tracker.record('match-completed', { isPlayer: true })).toBe(false);
+
+        tracker.onShotFired();
+        tracker.onWallBounce();
+        expect(tracker.record('match-completed', { isPlayer: true })).toBe(true);
+    });
+
+    it('should wait for the named power-up', () => {
+        const tracker = new TutorialGoalTracker({ event: 'powerup-activated', powerUp: 'bomb' });
+
+        expect(tracker.record('powerup-activated', { isPlayer: true, type: 'laser' })).toBe(false);
+        expect(tracker.record('powerup-activated', { isPlayer: true, type: 'bomb' })).toBe(true);
+    });
+});
+
+describe('TutorialProgressStore', () => {
+    beforeEach(() => {
+        localStorage.clear();
+    });
+
+    it('should offer the tutorial until it is completed', () => {
+        expect(TutorialProgressStore.shouldOffer()).toBe(true);
+
+        TutorialProgressStore.recordStep(2);
+        TutorialProgressStore.recordStep(1);
+        expect(TutorialProgressStore.load()).toEqual({ completed: false, stepsCompleted: 2 });
+        expect(TutorialProgressStore.shouldOffer()).toBe(true);
+
+        TutorialProgressStore.markCompleted();
+        expect(TutorialProgressStore.shouldOffer()).toBe(false);
+        expect(TutorialProgressStore.load().stepsCompleted).toBe(2);
+    });
+
+    it('should start over on an unknown format version or unreadable data', () => {
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+        localStorage.setItem(STORAGE_KEY, JSON.stringify({
+            version: TUTORIAL_FORMAT_VERSION + 1,
+            progress: { completed: true, stepsCompleted: 5 }
+        }));
+        expect(TutorialProgressStore.shouldOffer()).toBe(true);
+
+        localStorage.setItem(STORAGE_KEY, '{not json');
+        expect(TutorialProgressStore.load()).toEqual(TutorialProgressStore.createDefault());
+
+        expect(warn).toHaveBeenCalledTimes(2);
+        warn.mockRestore();
+    });
+});
@@ -0,0 +1,74 @@
+import { IVersionedFile, VersionedStore } from '@/core/VersionedStore';
+
+interface ICounterFile extends IVersionedFile {
+    counter: { value: number };
+}
+
+const STORAGE_KEY = 'test-counter';
+
+const createStore = (version: number = 2): VersionedStore<{ value: number }, ICounterFile> => new VersionedStore({
+    key: STORAGE_KEY,
+    version,
+    owner: 'CounterStore',
+    label: 'counter',
+    createDefault: () => ({ value: 0 }),
+    toFile: counter => ({ counter }),
+    fromFile: file => file.counter && Number.isFinite(file.counter.value) ? file.counter : null
+});
+
+describe('VersionedStore', () => {
+    let warn: jest.SpyInstance;
+
+    beforeEach(() => {
+        localStorage.clear();
+        warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        warn.mockRestore();
+    });
+
+    it('should load the default until something is saved', () => {
+        expect(createStore().load()).toEqual({ value: 0 });
+        expect(warn).not.toHaveBeenCalled();
+    });
+
+    it('should save the payload under its field with the format version', () => {
+        createStore().save({ value: 7 });
+
+        expect(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '')).toEqual({ counter: { value: 7 }, version: 2 });
+        expect(createStore().load()).toEqual({ value: 7 });
+    });
+
+    it('should ignore saves from another format version, unusable payloads and bad JSON', () => {
+        createStore(1).save({ value: 7 });
+        expect(createStore(2).load()).toEqual({ value: 0 });
+
+        localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: 2, counter: { value: 'seven' } }));
+        expect(createStore().load()).toEqual({ value: 0 });
+
+        localStorage.setItem(STORAGE_KEY, '{not json');
+        expect(createStore().load()).toEqual({ value: 0 });
+
+        expect(warn).toHaveBeenCalledTimes(3);
+    });
+
+    it('should clear the save', () => {
+        const store = createStore();
+        store.save({ value: 7 });
+        store.clear();
+
+        expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+        expect(store.load()).toEqual({ value: 0 });
+    });
+
+    it('should not throw when storage refuses to clear', () => {
+        const removeItem = jest.spyOn(Storage.prototype, 'removeItem').mockImplementation(() => {
+            throw new Error('denied');
+        });
+
+        expect(() => createStore().clear()).not.toThrow();
+        expect(warn).toHaveBeenCalledTimes(1);
+        removeItem.mockRestore();
+    });
+});